@@ -73,6 +73,8 @@ export const ExecutionLogDrawer: React.FC<ExecutionLogDrawerProps> = ({ open, on
                   <span className="text-slate-300">&middot;</span>
                   <span>{entry.workflowName}</span>
                   <span className="text-slate-300">&middot;</span>
+                  <span>{entry.version ? `v${entry.version}` : 'draft test'}</span>
+                  <span className="text-slate-300">&middot;</span>
                   <span>{entry.duration}ms</span>
                 </div>
               </div>
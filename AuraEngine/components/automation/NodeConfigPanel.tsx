@@ -3,9 +3,16 @@ import {
   BoltIcon, ZapIcon, GitBranchIcon, ClockIcon, CogIcon, BrainIcon,
   ShieldIcon, SparklesIcon, AlertTriangleIcon,
 } from '../Icons';
-import { NODE_TYPE_META, TRIGGER_OPTIONS, ACTION_OPTIONS, EMAIL_TEMPLATES, MODEL_OPTIONS, OPERATOR_OPTIONS } from './constants';
-import type { WorkflowNode, NodeType } from './types';
+import { NODE_TYPE_META, TRIGGER_OPTIONS, EVENT_TRIGGER_TYPES, ACTION_OPTIONS, EMAIL_TEMPLATES, MODEL_OPTIONS } from './constants';
+import type { WorkflowNode, WorkflowEdge, NodeType, EdgeBranch, TriggerType, ActionType } from './types';
 import type { IntegrationStatus } from '../../lib/integrations';
+import { validateActionConfig, visibleActionFields } from '../../lib/workflowActions';
+import { nodeCondition } from '../../lib/automationEngine';
+import { validateCondition, type ConditionGroup } from '../../lib/leadConditions';
+import { ConditionBuilder } from '../leads/ConditionBuilder';
+
+/** Action types with a hand-built form; the rest render straight from their schema. */
+const CUSTOM_ACTION_FORMS: ActionType[] = ['send_email', 'notify_slack', 'sync_crm'];
 
 const getNodeIcon = (type: NodeType) => {
   switch (type) {
@@ -19,18 +26,26 @@ const getNodeIcon = (type: NodeType) => {
 interface NodeConfigPanelProps {
   selectedNode: WorkflowNode | null;
   onUpdateConfig: (nodeId: string, key: string, value: string | number | boolean) => void;
+  onUpdateActionType: (nodeId: string, actionType: ActionType) => void;
+  onUpdateCondition: (nodeId: string, condition: ConditionGroup) => void;
   onUpdateTitle: (nodeId: string, title: string) => void;
   onUpdateDescription: (nodeId: string, description: string) => void;
-  onMoveNode: (nodeId: string, direction: 'up' | 'down') => void;
+  workflowNodes: WorkflowNode[];
+  edges: WorkflowEdge[];
+  onUpdateTargets: (nodeId: string, targetIds: string[], branch?: EdgeBranch) => void;
   integrationStatuses: IntegrationStatus[];
 }
 
 export const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({
   selectedNode,
   onUpdateConfig,
+  onUpdateActionType,
+  onUpdateCondition,
   onUpdateTitle,
   onUpdateDescription,
-  onMoveNode,
+  workflowNodes,
+  edges,
+  onUpdateTargets,
   integrationStatuses,
 }) => {
   if (!selectedNode) {
@@ -48,27 +63,21 @@ export const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({
   }
 
   const meta = NODE_TYPE_META[selectedNode.type];
+  const actionErrors = selectedNode.type === 'action'
+    ? validateActionConfig(selectedNode.actionType, selectedNode.config)
+    : {};
+  const conditionIssues = selectedNode.type === 'condition' ? validateCondition(nodeCondition(selectedNode)) : [];
 
   return (
     <>
       <div className="bg-white rounded-2xl border border-slate-100 shadow-sm p-5">
-        <div className="flex items-center justify-between mb-4">
-          <div className="flex items-center space-x-2">
-            <div className={`w-7 h-7 rounded-lg flex items-center justify-center ${meta.bgClass}`}>
-              {getNodeIcon(selectedNode.type)}
-            </div>
-            <span className="text-xs font-black text-slate-500 uppercase tracking-wider">
-              {meta.label} Config
-            </span>
-          </div>
-          <div className="flex items-center space-x-1">
-            <button onClick={() => onMoveNode(selectedNode.id, 'up')} className="p-1 text-slate-400 hover:text-slate-600 transition-colors" title="Move up">
-              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" /></svg>
-            </button>
-            <button onClick={() => onMoveNode(selectedNode.id, 'down')} className="p-1 text-slate-400 hover:text-slate-600 transition-colors" title="Move down">
-              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
-            </button>
+        <div className="flex items-center space-x-2 mb-4">
+          <div className={`w-7 h-7 rounded-lg flex items-center justify-center ${meta.bgClass}`}>
+            {getNodeIcon(selectedNode.type)}
           </div>
+          <span className="text-xs font-black text-slate-500 uppercase tracking-wider">
+            {meta.label} Config
+          </span>
         </div>
 
         <div className="mb-4">
@@ -90,6 +99,30 @@ export const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({
               <select value={selectedNode.config.triggerType as string || 'lead_created'} onChange={e => onUpdateConfig(selectedNode.id, 'triggerType', e.target.value)} className="w-full px-3 py-2.5 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none">
                 {TRIGGER_OPTIONS.map(t => (<option key={t.type} value={t.type}>{t.label}</option>))}
               </select>
+              {selectedNode.config.triggerType === 'score_change' && (
+                <div className="mt-3">
+                  <label className="block text-xs font-bold text-slate-600 mb-1">Score Threshold</label>
+                  <input type="number" min={0} max={100} value={(selectedNode.config.threshold as number) ?? 50} onChange={e => onUpdateConfig(selectedNode.id, 'threshold', parseInt(e.target.value) || 0)} className="w-full px-3 py-2.5 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none" />
+                </div>
+              )}
+              {selectedNode.config.triggerType === 'status_change' && (
+                <div className="mt-3">
+                  <label className="block text-xs font-bold text-slate-600 mb-1">Changes To</label>
+                  <select value={selectedNode.config.toStatus as string || ''} onChange={e => onUpdateConfig(selectedNode.id, 'toStatus', e.target.value)} className="w-full px-3 py-2.5 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none">
+                    <option value="">Any status</option>
+                    <option value="New">New</option>
+                    <option value="Contacted">Contacted</option>
+                    <option value="Qualified">Qualified</option>
+                    <option value="Converted">Converted</option>
+                    <option value="Lost">Lost</option>
+                  </select>
+                </div>
+              )}
+              {EVENT_TRIGGER_TYPES.includes((selectedNode.config.triggerType as TriggerType) || 'lead_created') && (
+                <p className="text-[10px] text-slate-400 leading-relaxed mt-2">
+                  While the workflow is active, matching leads start it automatically — each lead at most once.
+                </p>
+              )}
             </div>
           )}
 
@@ -98,86 +131,42 @@ export const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({
             <>
               <div>
                 <label className="block text-xs font-bold text-slate-600 mb-1">Action Type</label>
-                <select value={selectedNode.config.actionType as string || 'send_email'} onChange={e => onUpdateConfig(selectedNode.id, 'actionType', e.target.value)} className="w-full px-3 py-2.5 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none">
+                <select value={selectedNode.actionType || ''} onChange={e => e.target.value && onUpdateActionType(selectedNode.id, e.target.value as ActionType)} className={`w-full px-3 py-2.5 border rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none ${actionErrors.actionType ? 'border-rose-300' : 'border-slate-200'}`}>
+                  {!selectedNode.actionType && <option value="">Choose an action…</option>}
                   {ACTION_OPTIONS.map(a => (<option key={a.type} value={a.type}>{a.label}</option>))}
                 </select>
+                <FieldError message={actionErrors.actionType} />
+                {selectedNode.actionType && (
+                  <p className="text-[10px] text-slate-400 mt-1">Changing the type resets this step's settings.</p>
+                )}
               </div>
 
-              {/* Send Email Config */}
-              {(selectedNode.config.actionType as string || 'send_email') === 'send_email' && (
-                <SendEmailConfig node={selectedNode} onUpdateConfig={onUpdateConfig} />
+              {selectedNode.actionType === 'send_email' && (
+                <SendEmailConfig node={selectedNode} onUpdateConfig={onUpdateConfig} errors={actionErrors} />
               )}
 
-              {/* Simple field configs */}
-              {(selectedNode.config.actionType as string) === 'update_status' && (
-                <div>
-                  <label className="block text-xs font-bold text-slate-600 mb-1">New Status</label>
-                  <select value={selectedNode.config.newStatus as string || 'Contacted'} onChange={e => onUpdateConfig(selectedNode.id, 'newStatus', e.target.value)} className="w-full px-3 py-2.5 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none">
-                    <option value="Contacted">Contacted</option>
-                    <option value="Qualified">Qualified</option>
-                    <option value="Converted">Converted</option>
-                    <option value="Lost">Lost</option>
-                  </select>
-                </div>
-              )}
-
-              {(selectedNode.config.actionType as string) === 'add_tag' && (
-                <div>
-                  <label className="block text-xs font-bold text-slate-600 mb-1">Tag Name</label>
-                  <input type="text" value={(selectedNode.config.tag as string) || ''} onChange={e => onUpdateConfig(selectedNode.id, 'tag', e.target.value)} placeholder="e.g. Hot Lead, VIP, Nurture" className="w-full px-3 py-2.5 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none" />
-                </div>
-              )}
-
-              {(selectedNode.config.actionType as string) === 'assign_user' && (
-                <div>
-                  <label className="block text-xs font-bold text-slate-600 mb-1">Assign To</label>
-                  <input type="text" value={(selectedNode.config.assignee as string) || ''} onChange={e => onUpdateConfig(selectedNode.id, 'assignee', e.target.value)} placeholder="e.g. sales@company.com" className="w-full px-3 py-2.5 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none" />
-                </div>
-              )}
-
-              {/* Slack Config */}
-              {(selectedNode.config.actionType as string) === 'notify_slack' && (
+              {selectedNode.actionType === 'notify_slack' && (
                 <SlackConfig node={selectedNode} onUpdateConfig={onUpdateConfig} integrationStatuses={integrationStatuses} />
               )}
 
-              {/* CRM Config */}
-              {(selectedNode.config.actionType as string) === 'sync_crm' && (
+              {selectedNode.actionType === 'sync_crm' && (
                 <CrmConfig node={selectedNode} onUpdateConfig={onUpdateConfig} integrationStatuses={integrationStatuses} />
               )}
 
+              {selectedNode.actionType && !CUSTOM_ACTION_FORMS.includes(selectedNode.actionType) && (
+                <ActionFieldsConfig node={selectedNode} actionType={selectedNode.actionType} onUpdateConfig={onUpdateConfig} errors={actionErrors} />
+              )}
             </>
           )}
 
           {/* Condition Config */}
           {selectedNode.type === 'condition' && (
             <>
-              <div>
-                <label className="block text-xs font-bold text-slate-600 mb-1">Field</label>
-                <select value={selectedNode.config.field as string || 'score'} onChange={e => onUpdateConfig(selectedNode.id, 'field', e.target.value)} className="w-full px-3 py-2.5 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none">
-                  <option value="score">Lead Score</option>
-                  <option value="status">Lead Status</option>
-                  <option value="email_opened">Email Opened</option>
-                  <option value="email_clicked">Email Clicked</option>
-                  <option value="visited_pricing">Visited Pricing Page</option>
-                  <option value="engagement">Engagement Level</option>
-                </select>
-              </div>
-              <div className="grid grid-cols-2 gap-3">
-                <div>
-                  <label className="block text-xs font-bold text-slate-600 mb-1">Operator</label>
-                  <select value={selectedNode.config.operator as string || 'gt'} onChange={e => onUpdateConfig(selectedNode.id, 'operator', e.target.value)} className="w-full px-3 py-2.5 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none">
-                    {OPERATOR_OPTIONS.map(o => (<option key={o.value} value={o.value}>{o.label}</option>))}
-                  </select>
-                </div>
-                <div>
-                  <label className="block text-xs font-bold text-slate-600 mb-1">Value</label>
-                  <input type="number" value={selectedNode.config.value as number || 50} onChange={e => onUpdateConfig(selectedNode.id, 'value', parseInt(e.target.value) || 0)} className="w-full px-3 py-2.5 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none" />
-                </div>
-              </div>
-              <label className="flex items-center space-x-2 cursor-pointer text-sm text-slate-700">
-                <input type="checkbox" checked={!!selectedNode.config.onlyIfNoEmail} onChange={e => onUpdateConfig(selectedNode.id, 'onlyIfNoEmail', e.target.checked)} className="w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500" />
-                <span>Only if lead hasn't received email</span>
-              </label>
+              <ConditionBuilder value={nodeCondition(selectedNode)} onChange={next => onUpdateCondition(selectedNode.id, next)} />
+              {conditionIssues.map(issue => (<FieldError key={issue} message={issue} />))}
+              <p className="text-[10px] text-slate-400 leading-relaxed">
+                Same rules as the Lead Management advanced filter. Leads that match take the "yes" branch.
+              </p>
             </>
           )}
 
@@ -194,11 +183,13 @@ export const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({
                   <p className="text-[10px] font-black text-violet-700 uppercase tracking-wider">How Wait Works</p>
                 </div>
                 <p className="text-[10px] text-violet-600 leading-relaxed">
-                  In manual runs, wait nodes are acknowledged but execution continues immediately. In scheduled/automated runs, the wait duration is respected.
+                  Test runs note the wait and carry on immediately. Leads enrolled from Lead Management or a lead profile really pause here and resume automatically once the wait is over.
                 </p>
               </div>
             </>
           )}
+
+          <ConnectionsConfig node={selectedNode} workflowNodes={workflowNodes} edges={edges} onUpdateTargets={onUpdateTargets} />
         </div>
       </div>
 
@@ -218,7 +209,119 @@ export const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({
 
 // ─── Sub-components ───
 
-const SendEmailConfig: React.FC<{ node: WorkflowNode; onUpdateConfig: (id: string, key: string, value: string | number | boolean) => void }> = ({ node, onUpdateConfig }) => (
+const FieldError: React.FC<{ message?: string }> = ({ message }) =>
+  message ? <p className="text-[10px] text-rose-600 font-semibold mt-1">{message}</p> : null;
+
+const ActionFieldsConfig: React.FC<{
+  node: WorkflowNode;
+  actionType: ActionType;
+  onUpdateConfig: (id: string, key: string, value: string | number | boolean) => void;
+  errors: Record<string, string>;
+}> = ({ node, actionType, onUpdateConfig, errors }) => {
+  const fields = visibleActionFields(actionType, node.config);
+  if (fields.length === 0) {
+    return <p className="text-[10px] text-slate-400">This action has no settings.</p>;
+  }
+  const inputClass = (key: string) =>
+    `w-full px-3 py-2.5 border rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none ${errors[key] ? 'border-rose-300' : 'border-slate-200'}`;
+  return (
+    <>
+      {fields.map(field => {
+        const value = node.config[field.key];
+        if (field.kind === 'boolean') {
+          return (
+            <label key={field.key} className="flex items-center space-x-2 cursor-pointer text-sm text-slate-700">
+              <input type="checkbox" checked={!!value} onChange={e => onUpdateConfig(node.id, field.key, e.target.checked)} className="w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500" />
+              <span>{field.label}</span>
+            </label>
+          );
+        }
+        return (
+          <div key={field.key}>
+            <label className="block text-xs font-bold text-slate-600 mb-1">
+              {field.label}{field.required && <span className="text-rose-500"> *</span>}
+            </label>
+            {field.kind === 'select' ? (
+              <select value={(value as string) ?? ''} onChange={e => onUpdateConfig(node.id, field.key, e.target.value)} className={inputClass(field.key)}>
+                {!value && <option value="">Select…</option>}
+                {field.options?.map(o => (<option key={o.value} value={o.value}>{o.label}</option>))}
+              </select>
+            ) : field.kind === 'textarea' ? (
+              <textarea value={(value as string) ?? ''} onChange={e => onUpdateConfig(node.id, field.key, e.target.value)} placeholder={field.placeholder} rows={3} className={inputClass(field.key)} />
+            ) : field.kind === 'number' ? (
+              <input type="number" value={(value as number) ?? ''} onChange={e => onUpdateConfig(node.id, field.key, parseFloat(e.target.value) || 0)} className={inputClass(field.key)} />
+            ) : (
+              <input type="text" value={(value as string) ?? ''} onChange={e => onUpdateConfig(node.id, field.key, e.target.value)} placeholder={field.placeholder} className={inputClass(field.key)} />
+            )}
+            <FieldError message={errors[field.key]} />
+          </div>
+        );
+      })}
+    </>
+  );
+};
+
+const ConnectionsConfig: React.FC<{
+  node: WorkflowNode;
+  workflowNodes: WorkflowNode[];
+  edges: WorkflowEdge[];
+  onUpdateTargets: (nodeId: string, targetIds: string[], branch?: EdgeBranch) => void;
+}> = ({ node, workflowNodes, edges, onUpdateTargets }) => {
+  // The trigger is the only entry point, so nothing may flow back into it.
+  const candidates = workflowNodes.filter(n => n.id !== node.id && n.type !== 'trigger');
+  const targetsOf = (branch?: EdgeBranch) =>
+    edges.filter(e => e.source === node.id && (e.branch ?? undefined) === branch).map(e => e.target);
+
+  if (node.type === 'condition') {
+    return (
+      <div className="pt-3 border-t border-slate-100 space-y-3">
+        <p className="text-xs font-black text-slate-500 uppercase tracking-wider">Branches</p>
+        {(['yes', 'no'] as const).map(branch => (
+          <div key={branch}>
+            <label className={`block text-xs font-bold mb-1 ${branch === 'yes' ? 'text-emerald-600' : 'text-rose-500'}`}>
+              If {branch === 'yes' ? 'yes' : 'no'}, go to
+            </label>
+            <select
+              value={targetsOf(branch)[0] || ''}
+              onChange={e => onUpdateTargets(node.id, e.target.value ? [e.target.value] : [], branch)}
+              className="w-full px-3 py-2.5 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            >
+              <option value="">End workflow</option>
+              {candidates.map(n => (<option key={n.id} value={n.id}>{n.title}</option>))}
+            </select>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  const current = targetsOf();
+  return (
+    <div className="pt-3 border-t border-slate-100">
+      <p className="text-xs font-black text-slate-500 uppercase tracking-wider mb-1">Then go to</p>
+      <p className="text-[10px] text-slate-400 mb-2">Pick several steps to run them all; point several steps at one to merge branches.</p>
+      {candidates.length === 0 ? (
+        <p className="text-xs text-slate-400">Add more steps to connect this one.</p>
+      ) : (
+        <div className="space-y-1.5 max-h-40 overflow-y-auto">
+          {candidates.map(n => (
+            <label key={n.id} className="flex items-center space-x-2 cursor-pointer text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={current.includes(n.id)}
+                onChange={e => onUpdateTargets(node.id, e.target.checked ? [...current, n.id] : current.filter(t => t !== n.id))}
+                className="w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              <span className="truncate">{n.title}</span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const SendEmailConfig: React.FC<{ node: WorkflowNode; onUpdateConfig: (id: string, key: string, value: string | number | boolean) => void; errors: Record<string, string> }> = ({ node, onUpdateConfig, errors }) => (
   <>
     <div>
       <label className="block text-xs font-bold text-slate-600 mb-1">Email Template</label>
@@ -241,8 +344,8 @@ const SendEmailConfig: React.FC<{ node: WorkflowNode; onUpdateConfig: (id: strin
         <p className="text-[10px] text-slate-400">
           Tags: {'{{first_name}}'}, {'{{company}}'}, {'{{industry}}'}, {'{{ai_insight}}'}, {'{{your_name}}'}, {'{{sender_company}}'}
         </p>
-        {!(node.config.customSubject as string) && <p className="text-[10px] text-amber-600 font-semibold">Warning: Subject line is empty</p>}
-        {!(node.config.customBody as string) && <p className="text-[10px] text-amber-600 font-semibold">Warning: Email body is empty</p>}
+        <FieldError message={errors.customSubject} />
+        <FieldError message={errors.customBody} />
       </div>
     )}
 
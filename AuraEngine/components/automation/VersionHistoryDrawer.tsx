@@ -0,0 +1,222 @@
+import React, { useMemo, useState } from 'react';
+import { Drawer } from '../ui/Drawer';
+import { ClockIcon, RefreshIcon } from '../Icons';
+import type { WorkflowNode, WorkflowEdge } from './types';
+import {
+  diffWorkflowVersions,
+  isEmptyDiff,
+  type NodeChangeKind,
+  type WorkflowDiff,
+  type WorkflowVersion,
+} from '../../lib/workflowVersions';
+
+interface VersionHistoryDrawerProps {
+  open: boolean;
+  onClose: () => void;
+  versions: WorkflowVersion[];
+  loading: boolean;
+  busy: boolean;
+  /** Live version number; null when the workflow has never been published. */
+  currentVersion: number | null;
+  hasDraft: boolean;
+  draft: { nodes: WorkflowNode[]; edges: WorkflowEdge[] };
+  onPublish: (note?: string) => void;
+  onRollback: (version: number) => void;
+  onRefresh: () => void;
+}
+
+const CHANGE_STYLES: Record<NodeChangeKind, { label: string; className: string }> = {
+  added: { label: 'Added', className: 'bg-emerald-50 text-emerald-700' },
+  removed: { label: 'Removed', className: 'bg-rose-50 text-rose-700' },
+  changed: { label: 'Changed', className: 'bg-amber-50 text-amber-700' },
+};
+
+const EMPTY_GRAPH = { nodes: [] as WorkflowNode[], edges: [] as WorkflowEdge[] };
+
+const DiffView: React.FC<{ diff: WorkflowDiff; titles: Map<string, string> }> = ({ diff, titles }) => {
+  if (isEmptyDiff(diff)) {
+    return <p className="text-xs text-slate-400">No changes to steps or connections.</p>;
+  }
+  const edgeLabel = (e: WorkflowEdge) =>
+    `${titles.get(e.source) ?? e.source} → ${titles.get(e.target) ?? e.target}${e.branch ? ` (${e.branch})` : ''}`;
+
+  return (
+    <div className="space-y-2">
+      {diff.nodes.map(change => {
+        const style = CHANGE_STYLES[change.kind];
+        return (
+          <div key={`${change.kind}-${change.nodeId}`} className="rounded-lg border border-slate-100 p-2.5">
+            <div className="flex items-center space-x-2">
+              <span className={`px-1.5 py-0.5 rounded text-[9px] font-black uppercase tracking-wider ${style.className}`}>{style.label}</span>
+              <span className="text-xs font-semibold text-slate-800 truncate">{change.title}</span>
+            </div>
+            {change.details.length > 0 && (
+              <ul className="mt-1.5 space-y-0.5">
+                {change.details.map(d => (
+                  <li key={d} className="text-[11px] text-slate-500 font-mono break-words">{d}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+      {(diff.edgesAdded.length > 0 || diff.edgesRemoved.length > 0) && (
+        <div className="rounded-lg border border-slate-100 p-2.5 space-y-0.5">
+          <p className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">Connections</p>
+          {diff.edgesAdded.map(e => (
+            <p key={`+${e.id}`} className="text-[11px] text-emerald-700">+ {edgeLabel(e)}</p>
+          ))}
+          {diff.edgesRemoved.map(e => (
+            <p key={`-${e.id}`} className="text-[11px] text-rose-700">− {edgeLabel(e)}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const VersionHistoryDrawer: React.FC<VersionHistoryDrawerProps> = ({
+  open,
+  onClose,
+  versions,
+  loading,
+  busy,
+  currentVersion,
+  hasDraft,
+  draft,
+  onPublish,
+  onRollback,
+  onRefresh,
+}) => {
+  const [note, setNote] = useState('');
+  // 'draft' compares unpublished edits with the live version; a number
+  // compares that version with the one before it.
+  const [expanded, setExpanded] = useState<'draft' | number | null>(null);
+
+  const live = versions.find(v => v.version === currentVersion) ?? null;
+
+  const expandedDiff = useMemo(() => {
+    if (expanded === null) return null;
+    if (expanded === 'draft') return diffWorkflowVersions(live ?? EMPTY_GRAPH, draft);
+    const idx = versions.findIndex(v => v.version === expanded);
+    if (idx < 0) return null;
+    return diffWorkflowVersions(versions[idx + 1] ?? EMPTY_GRAPH, versions[idx]);
+  }, [expanded, versions, live, draft]);
+
+  // Titles from every version, so removed steps still get a readable name.
+  const titles = useMemo(() => {
+    const map = new Map<string, string>();
+    for (const v of [...versions].reverse()) v.nodes.forEach(n => map.set(n.id, n.title));
+    draft.nodes.forEach(n => map.set(n.id, n.title));
+    return map;
+  }, [versions, draft.nodes]);
+
+  const toggle = (key: 'draft' | number) => setExpanded(prev => (prev === key ? null : key));
+
+  return (
+    <Drawer open={open} onClose={onClose} title="Version History">
+      <div className="space-y-5">
+        <p className="text-xs text-slate-500">
+          Edits are saved as a draft. Publishing freezes the draft as a new version; leads already in the
+          workflow finish on the version they started on.
+        </p>
+
+        {/* Draft */}
+        {(hasDraft || currentVersion === null) && (
+          <div className="border border-amber-200 bg-amber-50/50 rounded-xl p-3.5 space-y-2.5">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-bold text-slate-800">Unpublished draft</p>
+                <p className="text-[11px] text-slate-500">
+                  {currentVersion === null ? 'Never published — triggers won’t start runs yet.' : `Changes since v${currentVersion}.`}
+                </p>
+              </div>
+              <button onClick={() => toggle('draft')} className="text-xs font-medium text-indigo-600 hover:text-indigo-800">
+                {expanded === 'draft' ? 'Hide changes' : 'View changes'}
+              </button>
+            </div>
+            {expanded === 'draft' && expandedDiff && <DiffView diff={expandedDiff} titles={titles} />}
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={note}
+                onChange={e => setNote(e.target.value)}
+                placeholder="What changed? (optional)"
+                className="flex-1 px-3 py-1.5 border border-slate-200 rounded-lg text-xs focus:ring-2 focus:ring-indigo-500 outline-none bg-white"
+              />
+              <button
+                onClick={() => { onPublish(note.trim() || undefined); setNote(''); setExpanded(null); }}
+                disabled={busy}
+                className="px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-xs font-bold hover:bg-indigo-700 disabled:opacity-50"
+              >
+                Publish v{(currentVersion ?? 0) + 1}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <button onClick={onRefresh} className="flex items-center space-x-1 text-xs font-medium text-indigo-600 hover:text-indigo-800">
+            <RefreshIcon className="w-3 h-3" />
+            <span>Refresh</span>
+          </button>
+        </div>
+
+        {/* Published versions */}
+        <div className="space-y-2">
+          {loading && versions.length === 0 && (
+            <div className="text-center py-8 text-sm text-slate-400">Loading versions…</div>
+          )}
+          {!loading && versions.length === 0 && (
+            <div className="text-center py-8 text-sm text-slate-400">No published versions yet.</div>
+          )}
+          {versions.map(v => {
+            const isLive = v.version === currentVersion;
+            return (
+              <div key={v.id} className={`border rounded-xl p-3.5 bg-white ${isLive ? 'border-emerald-200' : 'border-gray-100'}`}>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm font-black text-slate-800">v{v.version}</span>
+                    {isLive && (
+                      <span className="px-1.5 py-0.5 rounded bg-emerald-50 text-emerald-700 text-[9px] font-black uppercase tracking-wider">Live</span>
+                    )}
+                    {v.rolledBackFrom !== null && (
+                      <span className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-500 text-[9px] font-bold uppercase tracking-wider">Rollback</span>
+                    )}
+                  </div>
+                  <span className="flex items-center space-x-1 text-[10px] text-slate-400">
+                    <ClockIcon className="w-3 h-3" />
+                    <span>{new Date(v.publishedAt).toLocaleString()}</span>
+                  </span>
+                </div>
+                {v.note && <p className="text-xs text-slate-600 mt-1">{v.note}</p>}
+                <div className="flex items-center space-x-3 mt-2">
+                  <button onClick={() => toggle(v.version)} className="text-xs font-medium text-indigo-600 hover:text-indigo-800">
+                    {expanded === v.version ? 'Hide changes' : 'View changes'}
+                  </button>
+                  {!isLive && (
+                    <button
+                      onClick={() => {
+                        const lost = hasDraft ? ' Your unpublished draft will be discarded.' : '';
+                        if (confirm(`Roll back to v${v.version}? This publishes it as v${(currentVersion ?? 0) + 1}.${lost}`)) onRollback(v.version);
+                      }}
+                      disabled={busy}
+                      className="text-xs font-medium text-rose-600 hover:text-rose-800 disabled:opacity-50"
+                    >
+                      Roll back to this version
+                    </button>
+                  )}
+                </div>
+                {expanded === v.version && expandedDiff && (
+                  <div className="mt-2.5">
+                    <DiffView diff={expandedDiff} titles={titles} />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </Drawer>
+  );
+};
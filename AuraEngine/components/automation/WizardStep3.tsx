@@ -2,8 +2,10 @@ import React from 'react';
 import {
   ArrowLeftIcon, ArrowRightIcon, BoltIcon, ZapIcon, GitBranchIcon, ClockIcon,
 } from '../Icons';
-import { NODE_TYPE_META, TRIGGER_OPTIONS, ACTION_OPTIONS, EMAIL_TEMPLATES, OPERATOR_OPTIONS } from './constants';
+import { NODE_TYPE_META, TRIGGER_OPTIONS, ACTION_OPTIONS, EMAIL_TEMPLATES } from './constants';
 import type { Workflow, NodeType } from './types';
+import { nodeCondition } from '../../lib/automationEngine';
+import { describeCondition } from '../../lib/leadConditions';
 
 const getNodeIcon = (type: NodeType) => {
   switch (type) {
@@ -73,9 +75,9 @@ export const WizardStep3: React.FC<WizardStep3Props> = ({
                   <>
                     <div>
                       <p className="text-[10px] font-bold text-slate-400 uppercase">Action</p>
-                      <p className="text-sm text-slate-700 font-semibold">{ACTION_OPTIONS.find(a => a.type === (node.config.actionType as string))?.label || 'Send Email'}</p>
+                      <p className="text-sm text-slate-700 font-semibold">{ACTION_OPTIONS.find(a => a.type === node.actionType)?.label || 'Not set'}</p>
                     </div>
-                    {(node.config.actionType as string || 'send_email') === 'send_email' && (
+                    {node.actionType === 'send_email' && (
                       <>
                         <div>
                           <p className="text-[10px] font-bold text-slate-400 uppercase">Template</p>
@@ -102,18 +104,10 @@ export const WizardStep3: React.FC<WizardStep3Props> = ({
                   </>
                 )}
                 {node.type === 'condition' && (
-                  <>
-                    <div>
-                      <p className="text-[10px] font-bold text-slate-400 uppercase">Field</p>
-                      <p className="text-sm text-slate-700 font-semibold capitalize">{(node.config.field as string || 'score').replace('_', ' ')}</p>
-                    </div>
-                    <div>
-                      <p className="text-[10px] font-bold text-slate-400 uppercase">Condition</p>
-                      <p className="text-sm text-slate-700 font-semibold">
-                        {OPERATOR_OPTIONS.find(o => o.value === node.config.operator)?.label} {node.config.value}
-                      </p>
-                    </div>
-                  </>
+                  <div className="col-span-2 md:col-span-4">
+                    <p className="text-[10px] font-bold text-slate-400 uppercase">Condition</p>
+                    <p className="text-sm text-slate-700 font-semibold">{describeCondition(nodeCondition(node))}</p>
+                  </div>
                 )}
                 {node.type === 'wait' && (
                   <div>
@@ -1,11 +1,12 @@
-import React, { useState, useCallback } from 'react';
+import React, { useMemo } from 'react';
 import {
   BoltIcon, ZapIcon, GitBranchIcon, ClockIcon, XIcon, CheckIcon,
   BrainIcon, SparklesIcon,
 } from '../Icons';
 import { NODE_TYPE_META } from './constants';
-import type { Workflow, WorkflowNode, NodeType } from './types';
+import type { Workflow, WorkflowNode, WorkflowEdge, NodeType, EdgeBranch } from './types';
 import type { IntegrationStatus } from '../../lib/integrations';
+import { topoSortNodes } from '../../lib/automationEngine';
 
 const getNodeIcon = (type: NodeType) => {
   switch (type) {
@@ -16,13 +17,56 @@ const getNodeIcon = (type: NodeType) => {
   }
 };
 
+// ─── Layout ───
+// Nodes sit in rows by longest path from the trigger, so every edge points
+// downward and a merge point lands below all of its branches. Row and card
+// heights are fixed so the edge overlay can be drawn without measuring the DOM.
+const CARD_H = 88;
+const COND_CARD_H = 124;
+const ROW_H = 164;
+
+interface GraphLayout {
+  rows: WorkflowNode[][];
+  pos: Map<string, { row: number; col: number; cols: number }>;
+}
+
+function layoutGraph(nodes: WorkflowNode[], edges: WorkflowEdge[]): GraphLayout {
+  const ordered = topoSortNodes(nodes, edges);
+  const rank = new Map<string, number>();
+  if (ordered) {
+    for (const n of ordered) {
+      const parents = edges.filter(e => e.target === n.id).map(e => rank.get(e.source) ?? 0);
+      rank.set(n.id, parents.length > 0 ? Math.max(...parents) + 1 : 0);
+    }
+  } else {
+    // A loop can't be ranked — fall back to one node per row so it's still editable.
+    nodes.forEach((n, i) => rank.set(n.id, i));
+  }
+
+  const rows: WorkflowNode[][] = [];
+  for (const n of ordered || nodes) {
+    const r = rank.get(n.id) ?? 0;
+    (rows[r] ||= []).push(n);
+  }
+  const compact = rows.filter(Boolean);
+  const pos = new Map<string, { row: number; col: number; cols: number }>();
+  compact.forEach((row, r) => row.forEach((n, c) => pos.set(n.id, { row: r, col: c, cols: row.length })));
+  return { rows: compact, pos };
+}
+
+const EDGE_COLORS: Record<EdgeBranch | 'next', string> = {
+  yes: '#10b981',
+  no: '#f43f5e',
+  next: '#cbd5e1',
+};
+
 interface WorkflowCanvasProps {
   workflow: Workflow;
   selectedNodeId: string | null;
-  onSelectNode: (id: string) => void;
+  selectedBranch: EdgeBranch;
+  onSelectNode: (id: string, branch?: EdgeBranch) => void;
   onRemoveNode: (id: string) => void;
   onAddNode: (type: NodeType) => void;
-  onReorderNodes: (fromIndex: number, toIndex: number) => void;
   onAiOptimize: () => void;
   aiOptimizing: boolean;
   aiSuggestions: string[];
@@ -33,51 +77,43 @@ interface WorkflowCanvasProps {
 export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
   workflow,
   selectedNodeId,
+  selectedBranch,
   onSelectNode,
   onRemoveNode,
   onAddNode,
-  onReorderNodes,
   onAiOptimize,
   aiOptimizing,
   aiSuggestions,
   onDismissSuggestions,
   integrationStatuses,
 }) => {
-  const [dragIndex, setDragIndex] = useState<number | null>(null);
-  const [dropIndex, setDropIndex] = useState<number | null>(null);
-
-  const handleDragStart = useCallback((e: React.DragEvent, idx: number) => {
-    setDragIndex(idx);
-    e.dataTransfer.effectAllowed = 'move';
-    e.dataTransfer.setData('text/plain', String(idx));
-  }, []);
-
-  const handleDragOver = useCallback((e: React.DragEvent, idx: number) => {
-    e.preventDefault();
-    e.dataTransfer.dropEffect = 'move';
-    setDropIndex(idx);
-  }, []);
-
-  const handleDragLeave = useCallback(() => {
-    setDropIndex(null);
-  }, []);
-
-  const handleDrop = useCallback((e: React.DragEvent, toIdx: number) => {
-    e.preventDefault();
-    const fromIdx = dragIndex;
-    setDragIndex(null);
-    setDropIndex(null);
-    if (fromIdx !== null && fromIdx !== toIdx) {
-      onReorderNodes(fromIdx, toIdx);
-    }
-  }, [dragIndex, onReorderNodes]);
-
-  const handleDragEnd = useCallback(() => {
-    setDragIndex(null);
-    setDropIndex(null);
-  }, []);
+  const layout = useMemo(() => layoutGraph(workflow.nodes, workflow.edges), [workflow.nodes, workflow.edges]);
+  const nodeById = useMemo(() => new Map(workflow.nodes.map(n => [n.id, n])), [workflow.nodes]);
 
   const hasTrigger = workflow.nodes.some(n => n.type === 'trigger');
+  const selectedNode = selectedNodeId ? nodeById.get(selectedNodeId) : undefined;
+  const canvasHeight = layout.rows.length * ROW_H;
+
+  // Edge geometry in a 0–100 (x, percent of width) by px (y) coordinate space.
+  const edgePaths = workflow.edges.flatMap(edge => {
+    const from = layout.pos.get(edge.source);
+    const to = layout.pos.get(edge.target);
+    const src = nodeById.get(edge.source);
+    if (!from || !to || !src) return [];
+    const cellW = 100 / from.cols;
+    const branchOffset = src.type === 'condition' ? (edge.branch === 'no' ? 0.18 : -0.18) * cellW : 0;
+    const x1 = (from.col + 0.5) * cellW + branchOffset;
+    const y1 = from.row * ROW_H + (src.type === 'condition' ? COND_CARD_H : CARD_H);
+    const x2 = ((to.col + 0.5) * 100) / to.cols;
+    const y2 = to.row * ROW_H;
+    const dy = Math.max(y2 - y1, 1);
+    return [{
+      edge,
+      d: `M ${x1} ${y1} C ${x1} ${y1 + dy / 2}, ${x2} ${y2 - dy / 2}, ${x2} ${y2}`,
+      labelX: x1,
+      labelY: y1 + 12,
+    }];
+  });
 
   return (
     <div className="bg-white rounded-2xl border border-slate-100 shadow-sm">
@@ -119,113 +155,144 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
 
       {/* Canvas Body */}
       <div className="p-6 min-h-[420px]">
-        <div className="flex flex-col items-center space-y-0">
-          {workflow.nodes.map((node, idx) => {
-            const meta = NODE_TYPE_META[node.type];
-            const isSelected = selectedNodeId === node.id;
-            const isCond = node.type === 'condition';
-            const isDragging = dragIndex === idx;
-            const isDropTarget = dropIndex === idx && dragIndex !== idx;
+        <div className="relative overflow-x-auto" style={{ height: canvasHeight }}>
+          {/* Edge overlay */}
+          <svg
+            className="absolute inset-0 w-full pointer-events-none"
+            style={{ height: canvasHeight }}
+            viewBox={`0 0 100 ${Math.max(canvasHeight, 1)}`}
+            preserveAspectRatio="none"
+          >
+            {edgePaths.map(({ edge, d }) => (
+              <path
+                key={edge.id}
+                d={d}
+                fill="none"
+                stroke={EDGE_COLORS[edge.branch ?? 'next']}
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+          </svg>
+          {edgePaths.filter(p => p.edge.branch).map(({ edge, labelX, labelY }) => (
+            <span
+              key={`${edge.id}-label`}
+              className={`absolute -translate-x-1/2 px-1.5 py-0.5 rounded text-[9px] font-black uppercase bg-white ${
+                edge.branch === 'yes' ? 'text-emerald-600' : 'text-rose-500'
+              }`}
+              style={{ left: `${labelX}%`, top: labelY }}
+            >
+              {edge.branch}
+            </span>
+          ))}
 
-            return (
-              <React.Fragment key={node.id}>
-                {/* Drop indicator line */}
-                {isDropTarget && dragIndex !== null && dragIndex > idx && (
-                  <div className="w-full max-w-md h-1 bg-indigo-500 rounded-full my-1 animate-pulse" />
-                )}
-                <div
-                  role="button"
-                  tabIndex={0}
-                  draggable
-                  onDragStart={e => handleDragStart(e, idx)}
-                  onDragOver={e => handleDragOver(e, idx)}
-                  onDragLeave={handleDragLeave}
-                  onDrop={e => handleDrop(e, idx)}
-                  onDragEnd={handleDragEnd}
-                  onClick={() => onSelectNode(node.id)}
-                  onKeyDown={e => { if (e.key === 'Enter' || e.key === ' ') onSelectNode(node.id); }}
-                  className={`w-full max-w-md relative group transition-all cursor-pointer ${
-                    isDragging ? 'opacity-40' : ''
-                  } ${
-                    isSelected ? 'ring-2 ring-indigo-500 ring-offset-2 rounded-xl shadow-lg' : 'hover:shadow-md rounded-xl'
-                  }`}
-                >
-                  <div className={`p-4 rounded-xl border transition-all ${
-                    isSelected ? 'border-indigo-200 bg-indigo-50/30' : 'border-slate-200 bg-white hover:border-slate-300'
-                  }`}>
-                    <div className="flex items-center space-x-3">
-                      <div className={`w-9 h-9 rounded-lg flex items-center justify-center shrink-0 ${meta.bgClass}`}>
-                        {getNodeIcon(node.type)}
-                      </div>
-                      <div className="flex-1 text-left min-w-0">
-                        <span className={`text-[10px] font-black uppercase tracking-wider text-${meta.color}-600`}>
-                          {meta.label}
-                        </span>
-                        <p className="font-bold text-sm text-slate-800 mt-0.5 truncate">{node.title}</p>
-                        <p className="text-xs text-slate-400 mt-0.5 truncate">{node.description}</p>
+          {layout.rows.map((row, r) => (
+            <div
+              key={r}
+              className="absolute left-0 right-0 grid"
+              style={{ top: r * ROW_H, gridTemplateColumns: `repeat(${row.length}, minmax(0, 1fr))` }}
+            >
+              {row.map(node => {
+                const meta = NODE_TYPE_META[node.type];
+                const isSelected = selectedNodeId === node.id;
+                const isCond = node.type === 'condition';
+
+                return (
+                  <div key={node.id} className="flex flex-col items-center px-2">
+                    <div
+                      role="button"
+                      tabIndex={0}
+                      onClick={() => onSelectNode(node.id)}
+                      onKeyDown={e => { if (e.key === 'Enter' || e.key === ' ') onSelectNode(node.id); }}
+                      className={`w-full max-w-xs relative group transition-all cursor-pointer ${
+                        isSelected ? 'ring-2 ring-indigo-500 ring-offset-2 rounded-xl shadow-lg' : 'hover:shadow-md rounded-xl'
+                      }`}
+                    >
+                      <div
+                        className={`p-4 rounded-xl border transition-all ${
+                          isSelected ? 'border-indigo-200 bg-indigo-50/30' : 'border-slate-200 bg-white hover:border-slate-300'
+                        }`}
+                        style={{ height: isCond ? COND_CARD_H : CARD_H }}
+                      >
+                        <div className="flex items-center space-x-3">
+                          <div className={`w-9 h-9 rounded-lg flex items-center justify-center shrink-0 ${meta.bgClass}`}>
+                            {getNodeIcon(node.type)}
+                          </div>
+                          <div className="flex-1 text-left min-w-0">
+                            <span className={`text-[10px] font-black uppercase tracking-wider text-${meta.color}-600`}>
+                              {meta.label}
+                            </span>
+                            <p className="font-bold text-sm text-slate-800 mt-0.5 truncate">{node.title}</p>
+                            <p className="text-xs text-slate-400 mt-0.5 truncate">{node.description}</p>
+                          </div>
+                          {node.config.aiPersonalization && (
+                            <span className="shrink-0 px-1.5 py-0.5 bg-violet-100 text-violet-600 rounded text-[9px] font-black">AI</span>
+                          )}
+                          {node.type === 'action' && (() => {
+                            const at = node.actionType;
+                            if (!at) {
+                              return <span className="shrink-0 px-1.5 py-0.5 bg-rose-100 text-rose-600 rounded text-[9px] font-black" title="Choose an action type before running this workflow">No type</span>;
+                            }
+                            if (at === 'notify_slack') {
+                              const ok = integrationStatuses.some(i => i.provider === 'slack' && i.status === 'connected');
+                              return <span className={`shrink-0 w-2.5 h-2.5 rounded-full ${ok ? 'bg-emerald-500' : 'bg-rose-400'}`} title={ok ? 'Slack connected' : 'Slack not connected'} />;
+                            }
+                            if (at === 'sync_crm') {
+                              const prov = node.config.crmProvider as string || 'hubspot';
+                              const ok = integrationStatuses.some(i => i.provider === prov && i.status === 'connected');
+                              return <span className={`shrink-0 w-2.5 h-2.5 rounded-full ${ok ? 'bg-emerald-500' : 'bg-rose-400'}`} title={ok ? `${prov} connected` : `${prov} not connected`} />;
+                            }
+                            return null;
+                          })()}
+                        </div>
+                        {isCond && (
+                          <div className="flex items-center justify-center space-x-3 mt-3 pt-3 border-t border-slate-100">
+                            {(['yes', 'no'] as const).map(branch => {
+                              const active = isSelected && selectedBranch === branch;
+                              const tone = branch === 'yes'
+                                ? (active ? 'text-emerald-600 bg-emerald-100' : 'text-emerald-600 hover:bg-emerald-50')
+                                : (active ? 'text-rose-500 bg-rose-100' : 'text-rose-500 hover:bg-rose-50');
+                              return (
+                                <button
+                                  key={branch}
+                                  onClick={e => { e.stopPropagation(); onSelectNode(node.id, branch); }}
+                                  title={`Add the next step to the "${branch}" branch`}
+                                  className={`flex items-center space-x-1.5 px-2 py-0.5 rounded-lg text-xs font-bold transition-colors ${tone}`}
+                                >
+                                  {branch === 'yes' ? <CheckIcon className="w-3.5 h-3.5" /> : <XIcon className="w-3.5 h-3.5" />}
+                                  <span>{branch === 'yes' ? 'Yes' : 'No'}</span>
+                                </button>
+                              );
+                            })}
+                          </div>
+                        )}
                       </div>
-                      {node.config.aiPersonalization && (
-                        <span className="shrink-0 px-1.5 py-0.5 bg-violet-100 text-violet-600 rounded text-[9px] font-black">AI</span>
-                      )}
-                      {node.type === 'action' && (() => {
-                        const at = node.config.actionType as string;
-                        if (at === 'notify_slack') {
-                          const ok = integrationStatuses.some(i => i.provider === 'slack' && i.status === 'connected');
-                          return <span className={`shrink-0 w-2.5 h-2.5 rounded-full ${ok ? 'bg-emerald-500' : 'bg-rose-400'}`} title={ok ? 'Slack connected' : 'Slack not connected'} />;
-                        }
-                        if (at === 'sync_crm') {
-                          const prov = node.config.crmProvider as string || 'hubspot';
-                          const ok = integrationStatuses.some(i => i.provider === prov && i.status === 'connected');
-                          return <span className={`shrink-0 w-2.5 h-2.5 rounded-full ${ok ? 'bg-emerald-500' : 'bg-rose-400'}`} title={ok ? `${prov} connected` : `${prov} not connected`} />;
-                        }
-                        return null;
-                      })()}
-                      {isSelected && (
-                        <div className="shrink-0">
-                          <div className="w-2.5 h-2.5 rounded-full bg-indigo-500 animate-pulse"></div>
+                      {node.type !== 'trigger' && (
+                        <div className="absolute -right-2 -top-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                          <button
+                            onClick={e => { e.stopPropagation(); onRemoveNode(node.id); }}
+                            className="w-6 h-6 bg-red-500 text-white rounded-full flex items-center justify-center shadow-lg hover:bg-red-600 transition-colors"
+                          >
+                            <XIcon className="w-3 h-3" />
+                          </button>
                         </div>
                       )}
                     </div>
-                    {isCond && (
-                      <div className="flex items-center justify-center space-x-8 mt-3 pt-3 border-t border-slate-100">
-                        <span className="flex items-center space-x-1.5 text-xs font-bold text-emerald-600">
-                          <CheckIcon className="w-3.5 h-3.5" /><span>Yes</span>
-                        </span>
-                        <span className="flex items-center space-x-1.5 text-xs font-bold text-rose-500">
-                          <XIcon className="w-3.5 h-3.5" /><span>No</span>
-                        </span>
-                      </div>
-                    )}
-                  </div>
-                  {node.type !== 'trigger' && (
-                    <div className="absolute -right-2 -top-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                      <button
-                        onClick={e => { e.stopPropagation(); onRemoveNode(node.id); }}
-                        className="w-6 h-6 bg-red-500 text-white rounded-full flex items-center justify-center shadow-lg hover:bg-red-600 transition-colors"
-                      >
-                        <XIcon className="w-3 h-3" />
-                      </button>
-                    </div>
-                  )}
-                </div>
-                {idx < workflow.nodes.length - 1 && (
-                  <div className="flex flex-col items-center py-1">
-                    <div className="w-0.5 h-4 bg-slate-200"></div>
-                    <svg className="w-3 h-3 text-slate-300" fill="currentColor" viewBox="0 0 12 12"><path d="M6 9L1 4h10L6 9z" /></svg>
                   </div>
-                )}
-                {/* Drop indicator line */}
-                {isDropTarget && dragIndex !== null && dragIndex < idx && (
-                  <div className="w-full max-w-md h-1 bg-indigo-500 rounded-full my-1 animate-pulse" />
-                )}
-              </React.Fragment>
-            );
-          })}
+                );
+              })}
+            </div>
+          ))}
         </div>
 
         {/* Node Palette */}
         <div data-guide="automation-palette" className="mt-6 pt-5 border-t border-dashed border-slate-200">
-          <p className="text-[10px] font-black text-slate-400 uppercase tracking-wider mb-3 text-center">Add to Workflow</p>
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-wider mb-1 text-center">Add to Workflow</p>
+          <p className="text-[10px] text-slate-400 mb-3 text-center">
+            {selectedNode
+              ? <>After &ldquo;{selectedNode.title}&rdquo;{selectedNode.type === 'condition' && <> on the <strong>{selectedBranch}</strong> branch</>}</>
+              : 'At the end of the flow'}
+          </p>
           <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
             <button onClick={() => onAddNode('action')} className="flex flex-col items-center p-3 bg-emerald-50 rounded-xl text-emerald-700 hover:bg-emerald-100 transition-all border border-emerald-200">
               <ZapIcon className="w-5 h-5 mb-1" />
@@ -45,6 +45,10 @@ export const TRIGGER_OPTIONS: { type: TriggerType; label: string; desc: string;
   { type: 'tag_added', label: 'Custom Trigger', desc: 'Tag added, custom event, or webhook', iconName: 'bolt' },
 ];
 
+// Trigger types that start a workflow on their own while it is active
+// (lead insert / score / status triggers on the leads table).
+export const EVENT_TRIGGER_TYPES: TriggerType[] = ['lead_created', 'score_change', 'status_change'];
+
 // ─── Action Options ───
 export const ACTION_OPTIONS: { type: ActionType; label: string }[] = [
   { type: 'send_email', label: 'Send Email' },
@@ -58,14 +62,9 @@ export const ACTION_OPTIONS: { type: ActionType; label: string }[] = [
   { type: 'sync_crm', label: 'Sync to CRM' },
 ];
 
-// ─── Model, Frequency & Operator Options ───
+// ─── Model & Frequency Options ───
 export const MODEL_OPTIONS = ['gemini-3-flash', 'gemini-3-pro', 'gpt-4o', 'claude-sonnet'];
 export const FREQUENCY_OPTIONS = ['real_time', 'hourly', 'daily', 'weekly'];
-export const OPERATOR_OPTIONS = [
-  { value: 'gt', label: 'Greater than' },
-  { value: 'lt', label: 'Less than' },
-  { value: 'eq', label: 'Equals' },
-];
 
 // ─── Execution Status Styles ───
 export const EXECUTION_STATUS_STYLES: Record<ExecutionLogEntry['status'], { bg: string; text: string; label: string }> = {
@@ -83,14 +82,25 @@ export const DEFAULT_WORKFLOW: Workflow = {
   status: 'active',
   nodes: [
     { id: 'n1', type: 'trigger', title: 'New lead added', description: 'Triggers when a lead enters the pipeline', config: { triggerType: 'lead_created' } },
-    { id: 'n2', type: 'action', title: 'AI scores lead', description: 'Automatically scores the lead using AI model', config: { actionType: 'send_email', model: 'gemini-3-flash', companyData: true, webBehavior: true, socialSignals: false, emailEngagement: true, frequency: 'real_time', threshold: 80, template: 'welcome', aiPersonalization: true, timing: 'immediate', fallbackEnabled: false } },
-    { id: 'n3', type: 'condition', title: 'Score > 50?', description: 'Check if lead score exceeds threshold', config: { field: 'score', operator: 'gt', value: 50 } },
-    { id: 'n4', type: 'action', title: 'Send welcome email', description: 'Personalized welcome with value proposition', config: { actionType: 'send_email', emailType: 'welcome', template: 'welcome', aiPersonalization: true, timing: 'immediate', fallbackEnabled: true, fallbackAction: 'create_task' } },
-    { id: 'n5', type: 'action', title: 'Add to nurture campaign', description: 'Enroll in drip nurture sequence', config: { actionType: 'send_email', campaign: 'nurture_sequence', template: 'nurture', aiPersonalization: false, timing: 'immediate', fallbackEnabled: false } },
+    { id: 'n2', type: 'action', title: 'AI scores lead', description: 'Automatically scores the lead using AI model', actionType: 'send_email', config: { model: 'gemini-3-flash', companyData: true, webBehavior: true, socialSignals: false, emailEngagement: true, frequency: 'real_time', threshold: 80, template: 'welcome', aiPersonalization: true, timing: 'immediate', fallbackEnabled: false } },
+    { id: 'n3', type: 'condition', title: 'Score > 50?', description: 'Check if lead score exceeds threshold', condition: { combinator: 'and', rules: [{ field: 'score', operator: 'gt', value: 50 }] }, config: {} },
+    { id: 'n4', type: 'action', title: 'Send welcome email', description: 'Personalized welcome with value proposition', actionType: 'send_email', config: { emailType: 'welcome', template: 'welcome', aiPersonalization: true, timing: 'immediate', fallbackEnabled: true, fallbackAction: 'create_task' } },
+    { id: 'n5', type: 'action', title: 'Add to nurture campaign', description: 'Enroll in drip nurture sequence', actionType: 'send_email', config: { campaign: 'nurture_sequence', template: 'nurture', aiPersonalization: false, timing: 'immediate', fallbackEnabled: false } },
     { id: 'n6', type: 'wait', title: 'Wait 2 days', description: 'Allow time for email engagement', config: { days: 2 } },
-    { id: 'n7', type: 'action', title: 'Check engagement', description: 'Evaluate email opens and clicks', config: { actionType: 'send_email', checkType: 'email_engagement', template: 'follow_up', aiPersonalization: true, timing: 'optimal', fallbackEnabled: false } },
-    { id: 'n8', type: 'condition', title: 'Score > 75?', description: 'Check if lead is sales-ready', config: { field: 'score', operator: 'gt', value: 75 } },
-    { id: 'n9', type: 'action', title: 'Notify sales team', description: 'Alert sales rep for immediate follow-up', config: { actionType: 'create_alert', notifyType: 'sales_alert', template: 'demo_invite', aiPersonalization: true, timing: 'immediate', fallbackEnabled: true, fallbackAction: 'create_alert' } },
+    { id: 'n7', type: 'action', title: 'Check engagement', description: 'Evaluate email opens and clicks', actionType: 'send_email', config: { checkType: 'email_engagement', template: 'follow_up', aiPersonalization: true, timing: 'optimal', fallbackEnabled: false } },
+    { id: 'n8', type: 'condition', title: 'Score > 75?', description: 'Check if lead is sales-ready', condition: { combinator: 'and', rules: [{ field: 'score', operator: 'gt', value: 75 }] }, config: {} },
+    { id: 'n9', type: 'action', title: 'Notify sales team', description: 'Alert sales rep for immediate follow-up', actionType: 'create_alert', config: { notifyType: 'sales_alert', template: 'demo_invite', aiPersonalization: true, timing: 'immediate', fallbackEnabled: true, fallbackAction: 'create_alert' } },
+  ],
+  edges: [
+    { id: 'e-n1-n2', source: 'n1', target: 'n2' },
+    { id: 'e-n2-n3', source: 'n2', target: 'n3' },
+    { id: 'e-n3-yes-n4', source: 'n3', target: 'n4', branch: 'yes' },
+    { id: 'e-n3-no-n5', source: 'n3', target: 'n5', branch: 'no' },
+    { id: 'e-n4-n6', source: 'n4', target: 'n6' },
+    { id: 'e-n5-n6', source: 'n5', target: 'n6' },
+    { id: 'e-n6-n7', source: 'n6', target: 'n7' },
+    { id: 'e-n7-n8', source: 'n7', target: 'n8' },
+    { id: 'e-n8-yes-n9', source: 'n8', target: 'n9', branch: 'yes' },
   ],
   createdAt: new Date().toISOString(),
   stats: { leadsProcessed: 1242, conversionRate: 8.4, timeSavedHrs: 42, roi: 320 },
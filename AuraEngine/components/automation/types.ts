@@ -2,15 +2,18 @@ import type { TriggerType, ActionType } from '../../types';
 import type {
   Workflow as DbWorkflow,
   WorkflowNode as DbWorkflowNode,
+  WorkflowEdge,
+  EdgeBranch,
   WorkflowStats as DbWorkflowStats,
   ExecutionResult,
   ExecutionStepResult,
   ExecutionLogEntry as DbExecutionLogEntry,
   NodePerformanceMetric as DbNodePerformanceMetric,
 } from '../../lib/automationEngine';
+import type { ConditionGroup } from '../../lib/leadConditions';
 
 // Re-export engine types for convenience
-export type { DbWorkflow, DbWorkflowNode, DbWorkflowStats, ExecutionResult, ExecutionStepResult };
+export type { DbWorkflow, DbWorkflowNode, DbWorkflowStats, ExecutionResult, ExecutionStepResult, WorkflowEdge, EdgeBranch };
 export type { TriggerType, ActionType };
 
 // ─── Wizard ───
@@ -25,6 +28,8 @@ export interface WorkflowNode {
   type: NodeType;
   title: string;
   description: string;
+  actionType?: ActionType;
+  condition?: ConditionGroup;
   config: Record<string, string | number | boolean>;
 }
 
@@ -34,6 +39,7 @@ export interface Workflow {
   description: string;
   status: 'active' | 'paused' | 'draft';
   nodes: WorkflowNode[];
+  edges: WorkflowEdge[];
   createdAt: string;
   stats: {
     leadsProcessed: number;
@@ -41,6 +47,10 @@ export interface Workflow {
     timeSavedHrs: number;
     roi: number;
   };
+  /** Live published version; null/absent until first publish. */
+  version?: number | null;
+  /** The graph above has edits that aren't published yet. */
+  hasDraft?: boolean;
 }
 
 export interface TestResult {
@@ -66,6 +76,8 @@ export interface ExecutionLogEntry {
   step: string;
   status: 'success' | 'failed' | 'skipped' | 'running';
   duration: number;
+  /** Published version the execution ran; null for a test run of a draft. */
+  version: number | null;
 }
 
 export interface NodePerformanceMetric {
@@ -176,7 +188,8 @@ export type PanelName =
   | 'roiCalculator'
   | 'triggerAnalytics'
   | 'templateEffectiveness'
-  | 'campaignsPanel';
+  | 'campaignsPanel'
+  | 'versionHistory';
 
 // ─── Node Type Metadata (data only, no JSX) ───
 export interface NodeTypeMeta {
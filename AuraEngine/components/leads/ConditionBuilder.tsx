@@ -0,0 +1,212 @@
+// AuraEngine/components/leads/ConditionBuilder.tsx
+//
+// Editor for a lead condition (lib/leadConditions.ts): an AND/OR group of
+// field/operator/value rules, with one level of nested groups. Used by workflow
+// condition nodes, the Lead Management advanced filter and webhook endpoint
+// filters (which pass their own `fields`, read from the event payload).
+
+import React from 'react';
+import { PlusIcon, XIcon } from '../Icons';
+import {
+  CONDITION_FIELDS,
+  CONDITION_OPERATORS,
+  conditionField,
+  isConditionGroup,
+  type ConditionExpr,
+  type ConditionField,
+  type ConditionGroup,
+  type ConditionRule,
+  type ConditionValue,
+} from '../../lib/leadConditions';
+
+interface ConditionBuilderProps {
+  value: ConditionGroup;
+  onChange: (next: ConditionGroup) => void;
+  /** custom_fields keys seen on this workspace's leads, offered as suggestions. */
+  customFieldKeys?: string[];
+  /** Nesting depth of this group; sub-groups can only be added at the top level. */
+  depth?: number;
+  /** Fields offered in the picker (default: the whole catalog). */
+  fields?: ConditionField[];
+}
+
+const CUSTOM_PREFIX = 'custom_fields.';
+const DATE_OPERATORS = ['older_than_days', 'within_days'];
+
+const inputClass = 'w-full px-2 py-1.5 border border-slate-200 rounded-lg text-xs focus:ring-2 focus:ring-indigo-500 outline-none bg-white';
+
+/** Looks in the builder's own field list first, so callers can supply fields the lead catalog doesn't know. */
+function fieldFor(key: string, fields: ConditionField[]): ConditionField | undefined {
+  return fields.find(f => f.key === key) ?? conditionField(key);
+}
+
+function operatorsFor(field: ConditionField | undefined) {
+  const type = field?.type ?? 'string';
+  return CONDITION_OPERATORS.filter(o => o.types.includes(type));
+}
+
+function defaultRule(field = 'score', fields: ConditionField[] = CONDITION_FIELDS): ConditionRule {
+  const type = fieldFor(field, fields)?.type ?? 'string';
+  const operator = operatorsFor(fieldFor(field, fields))[0]?.value ?? 'eq';
+  if (type === 'boolean') return { field, operator: 'eq', value: true };
+  if (type === 'date') return { field, operator: 'older_than_days', value: 14 };
+  if (type === 'number') return { field, operator: 'gte', value: 50 };
+  return { field, operator, value: '' };
+}
+
+const FIELD_GROUPS: ConditionField['group'][] = ['Lead', 'Score', 'Email', 'Event'];
+
+const RuleEditor: React.FC<{
+  rule: ConditionRule;
+  onChange: (rule: ConditionRule) => void;
+  onRemove: () => void;
+  customFieldKeys: string[];
+  fields: ConditionField[];
+}> = ({ rule, onChange, onRemove, customFieldKeys, fields }) => {
+  const isCustom = rule.field.startsWith(CUSTOM_PREFIX);
+  const field = fieldFor(rule.field, fields);
+  const operators = operatorsFor(field);
+  const needsValue = rule.operator !== 'exists' && rule.operator !== 'not_exists';
+  const listId = `cf-keys-${customFieldKeys.length}`;
+
+  const setField = (key: string) => onChange(defaultRule(key, fields));
+  const setValue = (value: ConditionValue) => onChange({ ...rule, value });
+
+  let valueInput: React.ReactNode = null;
+  if (needsValue) {
+    if (field?.type === 'boolean') {
+      valueInput = (
+        <select value={String(rule.value === true || rule.value === 'true')} onChange={e => setValue(e.target.value === 'true')} className={inputClass}>
+          <option value="true">Yes</option>
+          <option value="false">No</option>
+        </select>
+      );
+    } else if (rule.operator === 'between') {
+      valueInput = (
+        <div className="flex items-center space-x-1">
+          <input type="number" value={rule.value as number ?? ''} onChange={e => setValue(Number(e.target.value))} className={inputClass} />
+          <span className="text-[10px] text-slate-400">and</span>
+          <input type="number" value={rule.valueTo ?? ''} onChange={e => onChange({ ...rule, valueTo: Number(e.target.value) })} className={inputClass} />
+        </div>
+      );
+    } else if (field?.type === 'number' || DATE_OPERATORS.includes(rule.operator)) {
+      valueInput = (
+        <input type="number" min={DATE_OPERATORS.includes(rule.operator) ? 0 : undefined} value={rule.value as number ?? ''} onChange={e => setValue(Number(e.target.value))} placeholder={DATE_OPERATORS.includes(rule.operator) ? 'days' : undefined} className={inputClass} />
+      );
+    } else if (field?.options && (rule.operator === 'eq' || rule.operator === 'neq')) {
+      valueInput = (
+        <select value={String(rule.value ?? '')} onChange={e => setValue(e.target.value)} className={inputClass}>
+          <option value="">Select…</option>
+          {field.options.map(o => (<option key={o} value={o}>{o}</option>))}
+        </select>
+      );
+    } else {
+      const isList = rule.operator === 'in' || rule.operator === 'not_in';
+      valueInput = (
+        <input
+          type="text"
+          value={Array.isArray(rule.value) ? rule.value.join(', ') : String(rule.value ?? '')}
+          onChange={e => setValue(e.target.value)}
+          placeholder={isList ? 'a, b, c' : rule.operator === 'matches' ? 'VP|Director' : 'value'}
+          className={inputClass}
+        />
+      );
+    }
+  }
+
+  return (
+    <div className="flex items-start space-x-1.5">
+      <div className="flex-1 grid grid-cols-1 gap-1.5">
+        <select value={isCustom ? CUSTOM_PREFIX : rule.field} onChange={e => setField(e.target.value === CUSTOM_PREFIX ? `${CUSTOM_PREFIX}${customFieldKeys[0] ?? ''}` : e.target.value)} className={inputClass}>
+          {FIELD_GROUPS.filter(group => fields.some(f => f.group === group)).map(group => (
+            <optgroup key={group} label={group}>
+              {fields.filter(f => f.group === group).map(f => (<option key={f.key} value={f.key}>{f.label}</option>))}
+              {group === 'Lead' && <option value={CUSTOM_PREFIX}>Custom field…</option>}
+            </optgroup>
+          ))}
+          {!field && !isCustom && <option value={rule.field}>{rule.field}</option>}
+        </select>
+        {isCustom && (
+          <>
+            <input type="text" list={listId} value={rule.field.slice(CUSTOM_PREFIX.length)} onChange={e => onChange({ ...rule, field: `${CUSTOM_PREFIX}${e.target.value}` })} placeholder="custom field name" className={inputClass} />
+            <datalist id={listId}>
+              {customFieldKeys.map(k => (<option key={k} value={k} />))}
+            </datalist>
+          </>
+        )}
+        <div className="grid grid-cols-2 gap-1.5">
+          <select value={rule.operator} onChange={e => onChange({ ...rule, operator: e.target.value as ConditionRule['operator'] })} className={inputClass}>
+            {operators.map(o => (<option key={o.value} value={o.value}>{o.label}</option>))}
+          </select>
+          {valueInput}
+        </div>
+      </div>
+      <button type="button" onClick={onRemove} className="p-1 mt-0.5 text-slate-300 hover:text-rose-500" title="Remove rule">
+        <XIcon className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+};
+
+export const ConditionBuilder: React.FC<ConditionBuilderProps> = ({ value, onChange, customFieldKeys = [], depth = 0, fields = CONDITION_FIELDS }) => {
+  const update = (index: number, next: ConditionExpr) =>
+    onChange({ ...value, rules: value.rules.map((r, i) => (i === index ? next : r)) });
+  const remove = (index: number) =>
+    onChange({ ...value, rules: value.rules.filter((_, i) => i !== index) });
+
+  return (
+    <div className={`space-y-2 ${depth > 0 ? 'p-2.5 bg-slate-50 rounded-xl border border-slate-200' : ''}`}>
+      <div className="flex items-center space-x-1.5 text-[10px] font-bold text-slate-500">
+        <span>Match</span>
+        {(['and', 'or'] as const).map(c => (
+          <button
+            key={c}
+            type="button"
+            onClick={() => onChange({ ...value, combinator: c })}
+            className={`px-2 py-0.5 rounded-md uppercase tracking-wider ${value.combinator === c ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+          >
+            {c === 'and' ? 'All' : 'Any'}
+          </button>
+        ))}
+        <span>of these</span>
+      </div>
+
+      {value.rules.length === 0 && (
+        <p className="text-[10px] text-slate-400">No rules yet — every lead matches.</p>
+      )}
+
+      {value.rules.map((rule, i) => (
+        <React.Fragment key={i}>
+          {i > 0 && <p className="text-[9px] font-black text-slate-300 uppercase tracking-widest">{value.combinator}</p>}
+          {isConditionGroup(rule) ? (
+            <div className="flex items-start space-x-1.5">
+              <div className="flex-1">
+                <ConditionBuilder value={rule} onChange={next => update(i, next)} customFieldKeys={customFieldKeys} depth={depth + 1} fields={fields} />
+              </div>
+              <button type="button" onClick={() => remove(i)} className="p-1 mt-0.5 text-slate-300 hover:text-rose-500" title="Remove group">
+                <XIcon className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ) : (
+            <RuleEditor rule={rule} onChange={next => update(i, next)} onRemove={() => remove(i)} customFieldKeys={customFieldKeys} fields={fields} />
+          )}
+        </React.Fragment>
+      ))}
+
+      <div className="flex items-center space-x-3">
+        <button type="button" onClick={() => onChange({ ...value, rules: [...value.rules, defaultRule(fields[0]?.key, fields)] })} className="flex items-center space-x-1 text-[11px] font-bold text-indigo-600 hover:text-indigo-700">
+          <PlusIcon className="w-3 h-3" /><span>Rule</span>
+        </button>
+        {depth === 0 && (
+          <button
+            type="button"
+            onClick={() => onChange({ ...value, rules: [...value.rules, { combinator: value.combinator === 'and' ? 'or' : 'and', rules: [defaultRule(fields[0]?.key, fields)] }] })}
+            className="flex items-center space-x-1 text-[11px] font-bold text-indigo-600 hover:text-indigo-700"
+          >
+            <PlusIcon className="w-3 h-3" /><span>Group</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
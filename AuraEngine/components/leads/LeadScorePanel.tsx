@@ -1,23 +1,30 @@
 // AuraEngine/components/leads/LeadScorePanel.tsx
 //
-// Lead score breakdown (Phase C). Shows the deterministic 0-100 score, its
-// sub-score bars, confidence, reason, and a non-contactable warning, with a
-// Recalculate button. Self-gates on the `enabled` (lead_intelligence) prop.
+// Lead score breakdown (Phase C). Shows the deterministic 0-100 score, a 30-day
+// sparkline with its 7-day change, sub-score bars, confidence, reason, and a
+// non-contactable warning, with a Recalculate button. Self-gates on the
+// `enabled` (lead_intelligence) prop.
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { Loader2, RefreshCw, AlertTriangle } from 'lucide-react';
 import { Lead } from '../../types';
 import { LeadScoreBreakdown, getLeadScore, recalcLeadScore } from '../../lib/leadScoring';
+import { DEFAULT_SCORE_WEIGHTS, type RuleMatch, type ScoreCategory, type ScoreWeights } from '../../lib/scoringProfiles';
+import { getLeadScoreHistory, scoreChange, type ScoreSnapshot } from '../../lib/scoreHistory';
+import { ScoreSparkline } from './ScoreSparkline';
 
-const SUBS: { key: keyof LeadScoreBreakdown; label: string; max: number }[] = [
-  { key: 'fit_score', label: 'Fit', max: 25 },
-  { key: 'intent_score', label: 'Intent', max: 20 },
-  { key: 'engagement_score', label: 'Engagement', max: 20 },
-  { key: 'data_quality_score', label: 'Data quality', max: 15 },
-  { key: 'deliverability_score', label: 'Deliverability', max: 10 },
-  { key: 'urgency_score', label: 'Urgency', max: 10 },
+const SUBS: { key: keyof LeadScoreBreakdown; label: string; category: ScoreCategory }[] = [
+  { key: 'fit_score', label: 'Fit', category: 'fit' },
+  { key: 'intent_score', label: 'Intent', category: 'intent' },
+  { key: 'engagement_score', label: 'Engagement', category: 'engagement' },
+  { key: 'data_quality_score', label: 'Data quality', category: 'data_quality' },
+  { key: 'deliverability_score', label: 'Deliverability', category: 'deliverability' },
+  { key: 'urgency_score', label: 'Urgency', category: 'urgency' },
 ];
 
+const HISTORY_DAYS = 30;
+const DAY_MS = 86_400_000;
+
 const scoreColor = (t: number) =>
   t >= 75 ? 'text-emerald-600' : t >= 50 ? 'text-amber-600' : t >= 25 ? 'text-orange-600' : 'text-rose-600';
 
@@ -27,6 +34,12 @@ export const LeadScorePanel: React.FC<Props> = ({ lead, businessId, workspaceId,
   const [score, setScore] = useState<LeadScoreBreakdown | null>(null);
   const [loading, setLoading] = useState(true);
   const [recalcing, setRecalcing] = useState(false);
+  const [history, setHistory] = useState<ScoreSnapshot[]>([]);
+
+  const loadHistory = useCallback(async () => {
+    try { setHistory(await getLeadScoreHistory(lead.id, HISTORY_DAYS)); }
+    catch (e) { console.warn('[LeadScore] history load failed:', (e as Error).message); }
+  }, [lead.id]);
 
   useEffect(() => {
     let cancelled = false;
@@ -35,16 +48,19 @@ export const LeadScorePanel: React.FC<Props> = ({ lead, businessId, workspaceId,
       const s = await getLeadScore(lead.id);
       if (!cancelled) { setScore(s); setLoading(false); }
     })();
+    loadHistory();
     return () => { cancelled = true; };
-  }, [enabled, lead.id]);
+  }, [enabled, lead.id, loadHistory]);
 
   const recalc = useCallback(async () => {
     if (!businessId || !workspaceId) return;
     setRecalcing(true);
-    try { setScore(await recalcLeadScore(businessId, workspaceId, lead)); }
+    try { setScore(await recalcLeadScore(businessId, workspaceId, lead)); await loadHistory(); }
     catch (e) { console.warn('[LeadScore] recalc failed:', (e as Error).message); }
     finally { setRecalcing(false); }
-  }, [businessId, workspaceId, lead]);
+  }, [businessId, workspaceId, lead, loadHistory]);
+
+  const weekChange = scoreChange(history, Date.now() - 7 * DAY_MS);
 
   if (!enabled) return null;
 
@@ -68,6 +84,16 @@ export const LeadScorePanel: React.FC<Props> = ({ lead, businessId, workspaceId,
           <div className="flex items-end gap-3 mb-4">
             <span className={`text-4xl font-black leading-none ${scoreColor(score.total_score)}`}>{score.total_score}</span>
             <span className="text-xs text-slate-400 mb-1">/ 100 · {Math.round(score.confidence * 100)}% confidence</span>
+            {history.length > 1 && (
+              <div className="ml-auto flex flex-col items-end" title={`Score over the last ${HISTORY_DAYS} days`}>
+                <ScoreSparkline history={history} fromMs={Date.now() - HISTORY_DAYS * DAY_MS} />
+                {weekChange !== null && (
+                  <span className={`text-[10px] font-semibold ${weekChange > 0 ? 'text-emerald-600' : weekChange < 0 ? 'text-rose-600' : 'text-slate-400'}`}>
+                    {weekChange > 0 ? '+' : ''}{weekChange} this week
+                  </span>
+                )}
+              </div>
+            )}
           </div>
 
           {!score.contactable && (
@@ -79,17 +105,26 @@ export const LeadScorePanel: React.FC<Props> = ({ lead, businessId, workspaceId,
           <div className="space-y-2">
             {SUBS.map(s => {
               const val = score[s.key] as number;
+              // Bars are out of the weights the score was computed with (its scoring profile).
+              const weights = (score.scoring_inputs?.weights as ScoreWeights | undefined) ?? DEFAULT_SCORE_WEIGHTS;
+              const max = weights[s.category];
+              if (!max) return null;
               return (
                 <div key={s.key}>
                   <div className="flex justify-between text-[11px] text-slate-500 mb-0.5">
-                    <span>{s.label}</span><span>{val}/{s.max}</span>
+                    <span>{s.label}</span><span>{val}/{max}</span>
                   </div>
                   <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
-                    <div className="h-full bg-indigo-500 rounded-full" style={{ width: `${Math.round((val / s.max) * 100)}%` }} />
+                    <div className="h-full bg-indigo-500 rounded-full" style={{ width: `${Math.round((val / max) * 100)}%` }} />
                   </div>
                 </div>
               );
             })}
+            {((score.scoring_inputs?.matched_rules as RuleMatch[] | undefined) ?? []).map(m => (
+              <div key={m.ruleId} className={`flex justify-between text-[11px] ${m.points > 0 ? 'text-emerald-600' : 'text-rose-500'}`}>
+                <span>{m.label}</span><span>{m.points > 0 ? '+' : '−'}{Math.abs(m.points)}</span>
+              </div>
+            ))}
             {score.risk_score > 0 && (
               <div>
                 <div className="flex justify-between text-[11px] text-rose-500 mb-0.5">
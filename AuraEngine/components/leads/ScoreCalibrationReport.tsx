@@ -0,0 +1,240 @@
+// AuraEngine/components/leads/ScoreCalibrationReport.tsx
+//
+// "Do high scores convert?" — win rate by score at deal creation, how well each
+// sub-score separates won from lost deals, and suggested category weights
+// (lib/scoreCalibration.ts). Accepting writes the weights to the active scoring
+// profile, or creates and activates one when the workspace is on the default.
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '../ui/Toast';
+import { resolveWorkspaceId } from '../../lib/tenancy';
+import {
+  buildCalibrationReport,
+  loadCalibrationSamples,
+  MIN_CALIBRATION_DEALS,
+  MIN_DEALS_PER_OUTCOME,
+  type CalibrationReport,
+  type SubScoreSignal,
+} from '../../lib/scoreCalibration';
+import {
+  SCORE_CATEGORIES,
+  activateScoringProfile,
+  getActiveScoringModel,
+  listScoringProfiles,
+  saveScoringProfile,
+  type ScoringModel,
+} from '../../lib/scoringProfiles';
+
+interface Props {
+  userId: string;
+  businessId: string | null;
+}
+
+const pct = (n: number | null) => (n == null ? '—' : `${Math.round(n * 100)}%`);
+
+function signalLabel(s: SubScoreSignal): { text: string; className: string } {
+  const r = s.correlation;
+  if (r == null) return { text: 'No variation', className: 'text-slate-400' };
+  if (r >= 0.3) return { text: 'Strong', className: 'text-emerald-600' };
+  if (r >= 0.1) return { text: 'Moderate', className: 'text-emerald-500' };
+  if (r > -0.1) return { text: 'None', className: 'text-slate-400' };
+  return { text: 'Negative', className: 'text-rose-600' };
+}
+
+export const ScoreCalibrationReport: React.FC<Props> = ({ userId, businessId }) => {
+  const { toast } = useToast();
+  const [report, setReport] = useState<CalibrationReport | null>(null);
+  const [model, setModel] = useState<ScoringModel | null>(null);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [applying, setApplying] = useState(false);
+  const [dismissed, setDismissed] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!businessId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const ws = await resolveWorkspaceId(userId);
+      const [samples, active] = await Promise.all([loadCalibrationSamples(businessId), getActiveScoringModel(ws)]);
+      setWorkspaceId(ws);
+      setModel(active);
+      setReport(buildCalibrationReport(samples, active.weights));
+    } catch (e) {
+      setError((e as Error).message || 'Could not build the calibration report');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, businessId]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const accept = async () => {
+    if (!workspaceId || !model || !report?.suggestedWeights) return;
+    setApplying(true);
+    try {
+      const weights = report.suggestedWeights;
+      const active = model.id ? (await listScoringProfiles(workspaceId)).find(p => p.id === model.id) : null;
+      if (active) {
+        await saveScoringProfile(workspaceId, { ...active, weights });
+      } else {
+        const created = await saveScoringProfile(workspaceId, {
+          name: `Calibrated weights (${new Date().toLocaleDateString()})`,
+          description: `Suggested from ${report.deals} closed deals`,
+          weights,
+          rules: [],
+        });
+        await activateScoringProfile(workspaceId, created.id);
+      }
+      toast('New weights applied. Rescore leads from Lead Intelligence to update existing scores.', 'success');
+      await load();
+    } catch (e) {
+      toast((e as Error).message || 'Could not apply the suggested weights', 'error');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const maxDeals = Math.max(1, ...(report?.buckets.map(b => b.deals) ?? [1]));
+  const suggestionDiffers = !!report?.suggestedWeights && !!model &&
+    SCORE_CATEGORIES.some(c => report.suggestedWeights![c.key] !== model.weights[c.key]);
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-slate-100 shadow-sm">
+      <div className="mb-4">
+        <h3 className="font-bold text-slate-800 font-heading">Score Calibration</h3>
+        <p className="text-xs text-slate-400 mt-0.5">Lead score when the deal was created vs. whether it was won</p>
+      </div>
+
+      {!businessId ? (
+        <p className="text-xs text-slate-400">Select a business to see calibration.</p>
+      ) : loading ? (
+        <p className="flex items-center gap-1.5 text-xs text-slate-400"><Loader2 size={12} className="animate-spin" /> Building report…</p>
+      ) : error ? (
+        <p className="text-xs text-rose-600">{error}</p>
+      ) : !report || report.deals === 0 ? (
+        <p className="text-xs text-slate-400">No closed deals with a scored lead yet. Mark deals won or lost in the pipeline to calibrate scoring.</p>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-3 gap-3 text-center">
+            <div className="bg-slate-50 rounded-xl p-3">
+              <p className="text-lg font-black text-slate-900">{report.deals}</p>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Closed deals</p>
+            </div>
+            <div className="bg-slate-50 rounded-xl p-3">
+              <p className="text-lg font-black text-slate-900">{pct(report.winRate)}</p>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Win rate</p>
+            </div>
+            <div className="bg-slate-50 rounded-xl p-3">
+              <p className="text-lg font-black text-slate-900">{report.won} / {report.lost}</p>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Won / lost</p>
+            </div>
+          </div>
+          {report.approximate > 0 && (
+            <p className="text-[11px] text-amber-700">
+              {report.approximate} deal{report.approximate === 1 ? ' was' : 's were'} created before score history began; the lead's earliest recorded score was used.
+            </p>
+          )}
+
+          {/* Win rate by score band */}
+          <div>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">Win rate by score at deal creation</p>
+            <div className="space-y-2">
+              {report.buckets.map(b => (
+                <div key={b.label} className="flex items-center gap-3">
+                  <span className="w-14 text-right text-xs font-bold text-slate-600">{b.label}</span>
+                  <div className="flex-1 h-6 bg-slate-50 rounded-lg overflow-hidden relative">
+                    <div className="h-full bg-slate-200" style={{ width: `${(b.deals / maxDeals) * 100}%` }} />
+                    <div className="absolute inset-y-0 left-0 bg-emerald-500/80" style={{ width: `${(b.won / maxDeals) * 100}%` }} />
+                  </div>
+                  <span className="w-28 text-xs text-slate-500">
+                    <span className="font-bold text-slate-800">{pct(b.winRate)}</span> of {b.deals}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <p className="text-[10px] text-slate-400 mt-1.5">Grey: deals in the band · green: deals won.</p>
+          </div>
+
+          {/* Sub-score signals */}
+          <div>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">Which sub-scores predict wins</p>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-[10px] text-slate-400 uppercase tracking-wider">
+                  <th className="text-left font-bold py-1">Sub-score</th>
+                  <th className="text-right font-bold py-1">Avg won</th>
+                  <th className="text-right font-bold py-1">Avg lost</th>
+                  <th className="text-right font-bold py-1">Correlation</th>
+                  <th className="text-right font-bold py-1">Signal</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.signals.map(s => {
+                  const label = signalLabel(s);
+                  return (
+                    <tr key={s.category} className="border-t border-slate-100">
+                      <td className="py-1.5 font-semibold text-slate-700">{s.label}</td>
+                      <td className="py-1.5 text-right text-slate-600">{s.avgWon}</td>
+                      <td className="py-1.5 text-right text-slate-600">{s.avgLost}</td>
+                      <td className="py-1.5 text-right text-slate-600">{s.correlation ?? '—'}</td>
+                      <td className={`py-1.5 text-right font-bold ${label.className}`}>{label.text}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Suggested weights */}
+          {!report.enoughData ? (
+            <p className="text-xs text-slate-500 bg-slate-50 rounded-xl px-4 py-3">
+              Weight suggestions need at least {MIN_CALIBRATION_DEALS} closed deals with {MIN_DEALS_PER_OUTCOME}+ won and {MIN_DEALS_PER_OUTCOME}+ lost.
+            </p>
+          ) : !report.suggestedWeights || !suggestionDiffers ? (
+            <p className="text-xs text-slate-500 bg-slate-50 rounded-xl px-4 py-3">
+              No weight change suggested — the current weights already match what predicts wins.
+            </p>
+          ) : !dismissed && model && (
+            <div className="border border-indigo-200 bg-indigo-50/40 rounded-xl p-4">
+              <p className="text-sm font-bold text-slate-800">Suggested weights</p>
+              <p className="text-[11px] text-slate-500 mb-3">
+                Shifts points toward sub-scores that separated won from lost deals, blended half-and-half with the current weights.
+              </p>
+              <div className="grid grid-cols-3 sm:grid-cols-6 gap-2 mb-3">
+                {SCORE_CATEGORIES.map(c => {
+                  const before = model.weights[c.key];
+                  const after = report.suggestedWeights![c.key];
+                  return (
+                    <div key={c.key} className="bg-white rounded-lg border border-slate-100 p-2 text-center">
+                      <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{c.label}</p>
+                      <p className="text-xs text-slate-500 mt-0.5">
+                        {before} → <span className={`font-black ${after > before ? 'text-emerald-600' : after < before ? 'text-rose-600' : 'text-slate-800'}`}>{after}</span>
+                      </p>
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setDismissed(true)} className="px-3 py-1.5 text-xs font-bold text-slate-600 hover:bg-white rounded-lg">
+                  Reject
+                </button>
+                <button
+                  onClick={accept}
+                  disabled={applying}
+                  className="px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-xs font-bold hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  {applying ? 'Applying…' : model.id ? 'Accept into active profile' : 'Accept as new profile'}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScoreCalibrationReport;
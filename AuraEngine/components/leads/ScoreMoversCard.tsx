@@ -0,0 +1,101 @@
+// AuraEngine/components/leads/ScoreMoversCard.tsx
+//
+// "Biggest movers this week" — leads whose score rose or fell the most over
+// the last `days` days (lead_score_movers RPC), each with a sparkline. Shown on
+// the dashboard and next to a lead's own score on LeadProfile.
+
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Loader2, TrendingUp, TrendingDown } from 'lucide-react';
+import { getLeadScoreHistoryBulk, getScoreMovers, type ScoreMover, type ScoreSnapshot } from '../../lib/scoreHistory';
+import { leadDisplayName } from '../../lib/queries';
+import { ScoreSparkline } from './ScoreSparkline';
+
+interface Props {
+  businessId: string | null;
+  enabled: boolean;
+  days?: number;
+  limit?: number;
+  /** Highlights this lead when it is among the movers (LeadProfile). */
+  currentLeadId?: string;
+}
+
+export const ScoreMoversCard: React.FC<Props> = ({ businessId, enabled, days = 7, limit = 5, currentLeadId }) => {
+  const navigate = useNavigate();
+  const [movers, setMovers] = useState<ScoreMover[]>([]);
+  const [history, setHistory] = useState<Map<string, ScoreSnapshot[]>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+  const fromMs = Date.now() - days * 86_400_000;
+
+  useEffect(() => {
+    if (!enabled || !businessId) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(false);
+    (async () => {
+      try {
+        const list = await getScoreMovers(businessId, days, limit);
+        const hist = await getLeadScoreHistoryBulk(list.map(m => m.leadId), days);
+        if (!cancelled) { setMovers(list); setHistory(hist); }
+      } catch (e) {
+        console.warn('[ScoreMovers] load failed:', (e as Error).message);
+        if (!cancelled) setError(true);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [enabled, businessId, days, limit]);
+
+  if (!enabled) return null;
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-2xl p-5">
+      <h3 className="font-bold text-slate-900 text-sm mb-1">Biggest movers this week</h3>
+      <p className="text-[11px] text-slate-400 mb-3">Largest score changes over the last {days} days.</p>
+
+      {!businessId ? (
+        <p className="text-xs text-slate-400">Select a business to see score changes.</p>
+      ) : loading ? (
+        <p className="flex items-center gap-1.5 text-xs text-slate-400"><Loader2 size={12} className="animate-spin" /> Loading…</p>
+      ) : error ? (
+        <p className="text-xs text-slate-400">Couldn't load score changes.</p>
+      ) : movers.length === 0 ? (
+        <p className="text-xs text-slate-400">No lead's score changed in the last {days} days.</p>
+      ) : (
+        <ul className="space-y-2">
+          {movers.map(m => {
+            const up = m.delta > 0;
+            // Start the line at the score the lead had when the window opened.
+            const line: ScoreSnapshot[] = [
+              { leadId: m.leadId, totalScore: m.scoreBefore, intentScore: 0, engagementScore: 0, recordedAt: new Date(fromMs).toISOString() },
+              ...(history.get(m.leadId) ?? []),
+            ];
+            return (
+              <li key={m.leadId}>
+                <button
+                  onClick={() => navigate(`/portal/leads/${m.leadId}`)}
+                  className={`w-full flex items-center gap-3 rounded-lg px-2 py-1.5 text-left hover:bg-slate-50 ${m.leadId === currentLeadId ? 'bg-indigo-50/60' : ''}`}
+                >
+                  <div className="min-w-0 flex-1">
+                    <p className="text-xs font-semibold text-slate-800 truncate">{leadDisplayName({ first_name: m.firstName ?? undefined, last_name: m.lastName ?? undefined })}</p>
+                    {m.company && <p className="text-[10px] text-slate-400 truncate">{m.company}</p>}
+                  </div>
+                  <ScoreSparkline history={line} fromMs={fromMs} width={64} height={20} />
+                  <span className="text-[11px] text-slate-500 w-14 text-right">{m.scoreBefore} → {m.scoreNow}</span>
+                  <span className={`flex items-center gap-0.5 text-xs font-bold w-12 justify-end ${up ? 'text-emerald-600' : 'text-rose-600'}`}>
+                    {up ? <TrendingUp size={12} /> : <TrendingDown size={12} />}
+                    {up ? '+' : ''}{m.delta}
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ScoreMoversCard;
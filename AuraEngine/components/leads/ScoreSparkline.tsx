@@ -0,0 +1,50 @@
+// AuraEngine/components/leads/ScoreSparkline.tsx
+//
+// Tiny step chart of a lead's total score over a window (lib/scoreHistory).
+// A score holds until the next snapshot, so the line steps rather than
+// interpolating, and runs flat from the last snapshot to now.
+
+import React from 'react';
+import type { ScoreSnapshot } from '../../lib/scoreHistory';
+
+interface Props {
+  history: ScoreSnapshot[];
+  /** Window start; snapshots before it are clamped to the left edge. */
+  fromMs: number;
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+export const ScoreSparkline: React.FC<Props> = ({ history, fromMs, width = 120, height = 28, className = '' }) => {
+  if (history.length === 0) return null;
+
+  const toMs = Date.now();
+  const span = Math.max(1, toMs - fromMs);
+  const scores = history.map(s => s.totalScore);
+  // Pad the range so a flat or near-flat line doesn't hug an edge.
+  const lo = Math.max(0, Math.min(...scores) - 5);
+  const hi = Math.min(100, Math.max(...scores) + 5);
+  const x = (ms: number) => ((Math.max(ms, fromMs) - fromMs) / span) * width;
+  const y = (score: number) => height - 2 - ((score - lo) / Math.max(1, hi - lo)) * (height - 4);
+
+  let d = `M0,${y(history[0].totalScore).toFixed(1)}`;
+  for (const s of history) {
+    const sx = x(new Date(s.recordedAt).getTime()).toFixed(1);
+    d += ` H${sx} V${y(s.totalScore).toFixed(1)}`;
+  }
+  const last = history[history.length - 1].totalScore;
+  d += ` H${width}`;
+
+  const first = history[0].totalScore;
+  const stroke = last > first ? '#10b981' : last < first ? '#f43f5e' : '#6366f1';
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className={className} aria-hidden="true">
+      <path d={d} fill="none" stroke={stroke} strokeWidth={1.5} strokeLinejoin="round" />
+      <circle cx={width - 1.5} cy={y(last)} r={1.5} fill={stroke} />
+    </svg>
+  );
+};
+
+export default ScoreSparkline;
@@ -0,0 +1,286 @@
+// AuraEngine/components/leads/ScoringProfileEditor.tsx
+//
+// Editor for a scoring profile (lib/scoringProfiles.ts): category weights, ICP
+// rules written with the lead ConditionBuilder, and a preview that rescores the
+// workspace's current leads under both the active model and this draft —
+// without saving anything — so the shift is visible before switching over.
+
+import React, { useMemo, useState } from 'react';
+import { Loader2, Plus, Trash2, AlertTriangle } from 'lucide-react';
+import type { Lead } from '../../types';
+import { ConditionBuilder } from './ConditionBuilder';
+import { previewScoringModel, type ScorePreview } from '../../lib/leadScoring';
+import {
+  DEFAULT_SCORE_WEIGHTS,
+  SCORE_CATEGORIES,
+  SCORING_RULE_FIELDS,
+  validateScoringProfile,
+  type ScoringModel,
+  type ScoringProfile,
+  type ScoringRule,
+} from '../../lib/scoringProfiles';
+
+export type ScoringProfileDraft = Pick<ScoringProfile, 'name' | 'description' | 'weights' | 'rules'> & { id?: string };
+
+interface Props {
+  initial: ScoringProfileDraft;
+  /** The model leads are scored with today — the preview's baseline. */
+  activeModel: ScoringModel;
+  leads: Lead[];
+  businessId: string | null;
+  customFieldKeys: string[];
+  saving: boolean;
+  onSave: (draft: ScoringProfileDraft, activate: boolean) => void;
+  onCancel: () => void;
+}
+
+const BANDS = ['0–19', '20–39', '40–59', '60–79', '80–100'];
+const inputClass = 'w-full px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none';
+
+const newRule = (): ScoringRule => ({
+  id: `r-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+  label: '',
+  condition: { combinator: 'and', rules: [{ field: 'industry', operator: 'in', value: '' }] },
+  points: 10,
+});
+
+const PreviewView: React.FC<{ preview: ScorePreview }> = ({ preview }) => {
+  const peak = Math.max(1, ...preview.bandsCurrent, ...preview.bandsProposed);
+  const movers = preview.rows.filter(r => r.delta !== 0).slice(0, 10);
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-4 gap-2 text-center">
+        {[
+          { label: 'Avg now', value: preview.avgCurrent },
+          { label: 'Avg with profile', value: preview.avgProposed },
+          { label: 'Raised', value: preview.raised, cls: 'text-emerald-600' },
+          { label: 'Lowered', value: preview.lowered, cls: 'text-rose-600' },
+        ].map(c => (
+          <div key={c.label} className="bg-slate-50 rounded-lg p-2">
+            <div className={`text-lg font-bold ${c.cls ?? 'text-slate-800'}`}>{c.value}</div>
+            <div className="text-[10px] font-semibold text-slate-500 uppercase tracking-wider">{c.label}</div>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <p className="text-[11px] font-bold text-slate-500 uppercase tracking-wider mb-2">Score distribution</p>
+        <div className="grid grid-cols-5 gap-2 items-end h-24">
+          {BANDS.map((label, i) => (
+            <div key={label} className="flex flex-col items-center justify-end h-full">
+              <div className="flex items-end gap-0.5 h-full w-full justify-center">
+                <div className="w-3 bg-slate-300 rounded-t" style={{ height: `${(preview.bandsCurrent[i] / peak) * 100}%` }} title={`Now: ${preview.bandsCurrent[i]}`} />
+                <div className="w-3 bg-indigo-500 rounded-t" style={{ height: `${(preview.bandsProposed[i] / peak) * 100}%` }} title={`With profile: ${preview.bandsProposed[i]}`} />
+              </div>
+              <span className="text-[10px] text-slate-400 mt-1">{label}</span>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-3 mt-1 text-[10px] text-slate-500">
+          <span className="flex items-center gap-1"><span className="w-2 h-2 bg-slate-300 rounded-sm" />Now</span>
+          <span className="flex items-center gap-1"><span className="w-2 h-2 bg-indigo-500 rounded-sm" />With this profile</span>
+        </div>
+      </div>
+
+      <div>
+        <p className="text-[11px] font-bold text-slate-500 uppercase tracking-wider mb-2">Biggest shifts</p>
+        {movers.length === 0 ? (
+          <p className="text-xs text-slate-400">No lead's score changes.</p>
+        ) : (
+          <table className="w-full text-xs">
+            <tbody>
+              {movers.map(r => (
+                <tr key={r.lead.id} className="border-t border-slate-100">
+                  <td className="py-1.5 text-slate-700 truncate max-w-[180px]">
+                    {[r.lead.first_name, r.lead.last_name].filter(Boolean).join(' ') || r.lead.primary_email || 'Unnamed lead'}
+                    {r.lead.company && <span className="text-slate-400"> · {r.lead.company}</span>}
+                  </td>
+                  <td className="py-1.5 text-right text-slate-500">{r.current} → {r.proposed}</td>
+                  <td className={`py-1.5 text-right font-bold w-12 ${r.delta > 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                    {r.delta > 0 ? '+' : ''}{r.delta}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const ScoringProfileEditor: React.FC<Props> = ({
+  initial, activeModel, leads, businessId, customFieldKeys, saving, onSave, onCancel,
+}) => {
+  const [draft, setDraft] = useState<ScoringProfileDraft>(initial);
+  const [preview, setPreview] = useState<ScorePreview | null>(null);
+  const [previewing, setPreviewing] = useState<{ done: number; total: number } | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  const errors = useMemo(() => validateScoringProfile(draft), [draft]);
+  const weightTotal = SCORE_CATEGORIES.reduce((s, c) => s + (draft.weights[c.key] || 0), 0);
+
+  const update = (patch: Partial<ScoringProfileDraft>) => { setDraft(prev => ({ ...prev, ...patch })); setPreview(null); };
+  const updateRule = (id: string, patch: Partial<ScoringRule>) =>
+    update({ rules: draft.rules.map(r => (r.id === id ? { ...r, ...patch } : r)) });
+
+  const runPreview = async () => {
+    if (!businessId) return;
+    setPreviewError(null);
+    setPreviewing({ done: 0, total: leads.length });
+    try {
+      const proposed: ScoringModel = { id: draft.id ?? null, weights: draft.weights, rules: draft.rules };
+      setPreview(await previewScoringModel(businessId, leads, activeModel, proposed, (done, total) => setPreviewing({ done, total })));
+    } catch (e) {
+      setPreviewError((e as Error).message || 'Preview failed');
+    } finally {
+      setPreviewing(null);
+    }
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-2xl p-6 space-y-6">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <label className="block">
+          <span className="text-xs font-bold text-slate-600">Name</span>
+          <input className={inputClass} value={draft.name} onChange={e => update({ name: e.target.value })} placeholder="e.g. Mid-market SaaS ICP" />
+        </label>
+        <label className="block">
+          <span className="text-xs font-bold text-slate-600">Description</span>
+          <input className={inputClass} value={draft.description} onChange={e => update({ description: e.target.value })} placeholder="Optional" />
+        </label>
+      </div>
+
+      {/* Weights */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-bold text-slate-900">Category weights</h3>
+          <div className="flex items-center gap-3">
+            <span className={`text-xs font-semibold ${weightTotal === 100 ? 'text-slate-500' : 'text-amber-600'}`}>
+              Total {weightTotal} {weightTotal !== 100 && '(scores are capped at 100)'}
+            </span>
+            <button onClick={() => update({ weights: DEFAULT_SCORE_WEIGHTS })} className="text-xs font-semibold text-indigo-600 hover:text-indigo-700">
+              Reset to default
+            </button>
+          </div>
+        </div>
+        <div className="space-y-2">
+          {SCORE_CATEGORIES.map(c => (
+            <div key={c.key} className="grid grid-cols-[140px_1fr_64px] items-center gap-3">
+              <div>
+                <div className="text-xs font-semibold text-slate-700">{c.label}</div>
+                <div className="text-[10px] text-slate-400 leading-tight">{c.hint}</div>
+              </div>
+              <input
+                type="range" min={0} max={50} step={1}
+                value={draft.weights[c.key]}
+                onChange={e => update({ weights: { ...draft.weights, [c.key]: Number(e.target.value) } })}
+                className="accent-indigo-600"
+              />
+              <input
+                type="number" min={0} max={100}
+                value={draft.weights[c.key]}
+                onChange={e => update({ weights: { ...draft.weights, [c.key]: Number(e.target.value) } })}
+                className="px-2 py-1 border border-slate-200 rounded-lg text-xs text-right"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Rules */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <div>
+            <h3 className="text-sm font-bold text-slate-900">ICP rules</h3>
+            <p className="text-[11px] text-slate-400">Points added (or taken away) when a lead matches. Use "matches pattern" for titles, e.g. VP|Director.</p>
+          </div>
+          <button onClick={() => update({ rules: [...draft.rules, newRule()] })} className="flex items-center gap-1 text-xs font-semibold text-indigo-600 hover:text-indigo-700">
+            <Plus size={13} /> Add rule
+          </button>
+        </div>
+        {draft.rules.length === 0 && <p className="text-xs text-slate-400">No rules — scores come from the weighted categories only.</p>}
+        <div className="space-y-3">
+          {draft.rules.map(rule => (
+            <div key={rule.id} className="border border-slate-200 rounded-xl p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  className={`${inputClass} flex-1`}
+                  value={rule.label}
+                  onChange={e => updateRule(rule.id, { label: e.target.value })}
+                  placeholder="Label (optional), e.g. Target industry"
+                />
+                <input
+                  type="number" min={-50} max={50}
+                  value={rule.points}
+                  onChange={e => updateRule(rule.id, { points: Number(e.target.value) })}
+                  className="w-20 px-2 py-2 border border-slate-200 rounded-lg text-sm text-right"
+                  title="Points"
+                />
+                <span className="text-xs text-slate-400">pts</span>
+                <button onClick={() => update({ rules: draft.rules.filter(r => r.id !== rule.id) })} className="p-1.5 text-slate-300 hover:text-rose-500" title="Remove rule">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+              <ConditionBuilder
+                value={rule.condition}
+                onChange={condition => updateRule(rule.id, { condition })}
+                customFieldKeys={customFieldKeys}
+                fields={SCORING_RULE_FIELDS}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 space-y-0.5">
+          {errors.map(e => (
+            <p key={e} className="flex items-center gap-1.5 text-xs text-amber-800"><AlertTriangle size={12} />{e}</p>
+          ))}
+        </div>
+      )}
+
+      {/* Preview */}
+      <div className="border-t border-slate-100 pt-4">
+        <div className="flex items-center justify-between mb-3">
+          <div>
+            <h3 className="text-sm font-bold text-slate-900">Preview</h3>
+            <p className="text-[11px] text-slate-400">Rescores your {leads.length.toLocaleString()} current leads under this profile and compares with today's scoring. Nothing is saved.</p>
+          </div>
+          <button
+            onClick={runPreview}
+            disabled={!!previewing || errors.length > 0 || !businessId || leads.length === 0}
+            className="flex items-center gap-1.5 px-3 py-2 bg-slate-900 text-white rounded-lg text-xs font-bold hover:bg-slate-800 disabled:opacity-50"
+          >
+            {previewing && <Loader2 size={13} className="animate-spin" />}
+            {previewing ? `Scoring ${previewing.done}/${previewing.total}…` : 'Preview impact'}
+          </button>
+        </div>
+        {!businessId && <p className="text-xs text-slate-400">Select a business to preview.</p>}
+        {previewError && <p className="text-xs text-rose-600">{previewError}</p>}
+        {preview && <PreviewView preview={preview} />}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-4 py-2 text-xs font-bold text-slate-600 hover:bg-slate-50 rounded-lg">Cancel</button>
+        <button
+          onClick={() => onSave(draft, false)}
+          disabled={saving || errors.length > 0}
+          className="px-4 py-2 border border-slate-200 rounded-lg text-xs font-bold text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+        >
+          Save
+        </button>
+        <button
+          onClick={() => onSave(draft, true)}
+          disabled={saving || errors.length > 0}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-xs font-bold hover:bg-indigo-700 disabled:opacity-50"
+        >
+          Save &amp; activate
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ScoringProfileEditor;
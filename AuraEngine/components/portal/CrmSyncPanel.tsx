@@ -0,0 +1,229 @@
+/**
+ * CrmSyncPanel — two-way HubSpot / Salesforce sync settings and history.
+ *
+ * Renders inside the Integration Hub configure sidebar for a connected CRM:
+ *   - Scheduled sync on/off (crm-sync runs every 10 minutes when on).
+ *   - Per-field source-of-truth rule: Scaliyo wins, CRM wins or newest wins.
+ *     Owner and deal stage only ever come in from the CRM.
+ *   - "Sync now" for an immediate pull-then-push pass.
+ *   - The latest crm_sync_log rows: what moved, which way, and why.
+ *
+ * Settings are per user (crm_sync_settings is owner-only under RLS).
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowDownLeft, ArrowUpRight, RefreshCw, AlertTriangle } from 'lucide-react';
+import {
+  CRM_SYNC_FIELDS,
+  CRM_RULE_LABELS,
+  describeChanges,
+  getCrmSyncSettings,
+  listCrmSyncLog,
+  runCrmSync,
+  saveCrmSyncSettings,
+  type CrmFieldRule,
+  type CrmProvider,
+  type CrmSyncField,
+  type CrmSyncLogRow,
+} from '../../lib/crmSync';
+import { useToast } from '../ui/Toast';
+
+interface Props {
+  provider: CrmProvider;
+}
+
+const OUTCOME_TONE: Record<CrmSyncLogRow['outcome'], string> = {
+  created:   'bg-emerald-50 text-emerald-700',
+  linked:    'bg-indigo-50 text-indigo-700',
+  updated:   'bg-emerald-50 text-emerald-700',
+  unchanged: 'bg-slate-100 text-slate-500',
+  skipped:   'bg-amber-50 text-amber-700',
+  failed:    'bg-rose-50 text-rose-700',
+};
+
+function leadLabel(row: CrmSyncLogRow): string {
+  const l = row.lead;
+  if (!l) return row.external_id ?? 'Deleted lead';
+  return [l.first_name, l.last_name].filter(Boolean).join(' ') || l.primary_email || 'Unnamed lead';
+}
+
+const CrmSyncPanel: React.FC<Props> = ({ provider }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [enabled, setEnabled] = useState(false);
+  const [rules, setRules] = useState<Record<CrmSyncField, CrmFieldRule> | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+
+  const { data: settings } = useQuery({
+    queryKey: ['crm-sync-settings', provider],
+    queryFn: () => getCrmSyncSettings(provider),
+  });
+
+  const { data: log = [], isLoading: logLoading } = useQuery({
+    queryKey: ['crm-sync-log', provider],
+    queryFn: () => listCrmSyncLog(provider),
+    staleTime: 30_000,
+  });
+
+  useEffect(() => {
+    if (!settings) return;
+    setEnabled(settings.enabled);
+    setRules(settings.rules);
+  }, [settings]);
+
+  const dirty = !!settings && !!rules && (
+    enabled !== settings.enabled ||
+    CRM_SYNC_FIELDS.some(f => rules[f.key] !== settings.rules[f.key])
+  );
+
+  const handleSave = async () => {
+    if (!rules) return;
+    setSaving(true);
+    try {
+      await saveCrmSyncSettings(provider, { enabled, rules });
+      await queryClient.invalidateQueries({ queryKey: ['crm-sync-settings', provider] });
+      toast('Sync settings saved', 'success');
+    } catch (err) {
+      toast(`Could not save sync settings: ${(err as Error).message}`, 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSyncNow = async () => {
+    setSyncing(true);
+    try {
+      const pass = await runCrmSync(provider);
+      if (pass.error) toast(`Sync failed: ${pass.error}`, 'error');
+      else toast(`Pulled ${pass.pulled} change(s), updated ${pass.updated} lead(s), pushed ${pass.pushed}`, 'success');
+    } catch (err) {
+      toast(`Sync failed: ${(err as Error).message}`, 'error');
+    } finally {
+      setSyncing(false);
+      queryClient.invalidateQueries({ queryKey: ['crm-sync-settings', provider] });
+      queryClient.invalidateQueries({ queryKey: ['crm-sync-log', provider] });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Schedule */}
+      <div className="p-4 bg-slate-50 rounded-xl border border-slate-100 space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-xs font-bold text-slate-900">Two-way sync</p>
+            <p className="text-[10px] text-slate-500">
+              Pulls status, owner and deal stage every 10 minutes and pushes lead edits back.
+            </p>
+          </div>
+          <label className="flex items-center space-x-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={enabled}
+              onChange={e => setEnabled(e.target.checked)}
+              className="w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            <span className="text-[10px] font-bold text-slate-600">{enabled ? 'On' : 'Off'}</span>
+          </label>
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="text-[10px] text-slate-400">
+            Last run: {settings?.lastRunAt ? new Date(settings.lastRunAt).toLocaleString() : 'never'}
+          </span>
+          <button
+            onClick={handleSyncNow}
+            disabled={syncing}
+            className="flex items-center space-x-1.5 px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-[10px] font-bold text-slate-700 hover:bg-slate-100 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-3 h-3 ${syncing ? 'animate-spin' : ''}`} />
+            <span>{syncing ? 'Syncing…' : 'Sync now'}</span>
+          </button>
+        </div>
+        {settings?.lastError && (
+          <div className="flex items-start space-x-2 p-2.5 bg-rose-50 rounded-lg border border-rose-100">
+            <AlertTriangle className="w-3.5 h-3.5 text-rose-500 shrink-0 mt-0.5" />
+            <p className="text-[10px] text-rose-700">{settings.lastError}</p>
+          </div>
+        )}
+      </div>
+
+      {/* Field rules */}
+      <div>
+        <label className="text-[10px] font-black text-slate-400 uppercase tracking-wider block mb-2">Source of Truth</label>
+        <div className="space-y-1.5">
+          {rules && CRM_SYNC_FIELDS.map(f => (
+            <div key={f.key} className="flex items-center justify-between p-2.5 bg-slate-50 rounded-xl">
+              <span className="text-xs font-bold text-slate-700">{f.label}</span>
+              {f.push ? (
+                <select
+                  value={rules[f.key]}
+                  onChange={e => setRules(r => r && ({ ...r, [f.key]: e.target.value as CrmFieldRule }))}
+                  title={CRM_RULE_LABELS[rules[f.key]].hint}
+                  className="text-[11px] font-semibold text-slate-700 bg-white border border-slate-200 rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  {(Object.keys(CRM_RULE_LABELS) as CrmFieldRule[]).map(rule => (
+                    <option key={rule} value={rule}>{CRM_RULE_LABELS[rule].label}</option>
+                  ))}
+                </select>
+              ) : (
+                <span className="text-[11px] font-semibold text-slate-400 px-2">From CRM only</span>
+              )}
+            </div>
+          ))}
+        </div>
+        <p className="text-[10px] text-slate-400 mt-2">
+          Scaliyo wins: CRM edits are overwritten. CRM wins: CRM edits land here and we never push the field after create.
+          Newest wins: when both sides changed, the later edit stands.
+        </p>
+        {dirty && (
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="mt-3 w-full py-2.5 bg-indigo-600 text-white rounded-xl text-xs font-bold hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving…' : 'Save sync settings'}
+          </button>
+        )}
+      </div>
+
+      {/* History */}
+      <div>
+        <label className="text-[10px] font-black text-slate-400 uppercase tracking-wider block mb-2">Sync History</label>
+        {logLoading ? (
+          <p className="text-[11px] text-slate-400">Loading…</p>
+        ) : log.length === 0 ? (
+          <p className="text-[11px] text-slate-400">Nothing synced yet.</p>
+        ) : (
+          <div className="space-y-1.5">
+            {log.map(row => (
+              <div key={row.id} className="p-2.5 bg-white rounded-xl border border-slate-100">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-1.5 min-w-0">
+                    {row.direction === 'push'
+                      ? <ArrowUpRight className="w-3 h-3 text-indigo-500 shrink-0" />
+                      : <ArrowDownLeft className="w-3 h-3 text-emerald-500 shrink-0" />}
+                    <span className="text-[11px] font-bold text-slate-800 truncate">{leadLabel(row)}</span>
+                  </div>
+                  <span className={`px-1.5 py-0.5 rounded text-[9px] font-black uppercase shrink-0 ${OUTCOME_TONE[row.outcome]}`}>
+                    {row.outcome}
+                  </span>
+                </div>
+                {row.changes.length > 0 && (
+                  <p className="text-[10px] text-slate-500 mt-1">{describeChanges(row.changes)}</p>
+                )}
+                {row.error && <p className="text-[10px] text-rose-600 mt-1">{row.error}</p>}
+                <p className="text-[9px] text-slate-400 mt-1">
+                  {new Date(row.created_at).toLocaleString()} · {row.source}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CrmSyncPanel;
@@ -1,14 +1,21 @@
-import React, { useState, useRef, useCallback, useMemo } from 'react';
+import React, { useState, useRef, useCallback, useMemo, useEffect } from 'react';
 import { UploadIcon, CheckIcon, XIcon, AlertTriangleIcon } from '../Icons';
 import {
   autoMapColumns,
   checkContactsCapacity,
   executeImport,
+  getImportDiff,
+  undoImport,
+  describeFieldChanges,
   CORE_FIELDS,
+  SKIP_REASON_LABELS,
   type ColumnMapping,
   type DedupeStrategy,
   type ImportResult,
   type ContactsCapacity,
+  type ImportChange,
+  type ImportDiffReport,
+  type UndoImportResult,
 } from '../../lib/leadImporter';
 import { supabase } from '../../lib/supabase';
 import { activeBusinessId } from '../../lib/businessScope';
@@ -62,6 +69,9 @@ const ImportLeadsWizard: React.FC<ImportLeadsWizardProps> = ({
   const [capacity, setCapacity] = useState<ContactsCapacity | null>(null);
   const [importing, setImporting] = useState(false);
   const [result, setResult] = useState<ImportResult | null>(null);
+  const [diff, setDiff] = useState<ImportDiffReport | null>(null);
+  const [undoing, setUndoing] = useState(false);
+  const [undone, setUndone] = useState<UndoImportResult | null>(null);
   const [autoValidate, setAutoValidate] = useState(true);
   const [validatingCount, setValidatingCount] = useState(0);
   const [error, setError] = useState('');
@@ -76,6 +86,9 @@ const ImportLeadsWizard: React.FC<ImportLeadsWizardProps> = ({
     setCapacity(null);
     setImporting(false);
     setResult(null);
+    setDiff(null);
+    setUndoing(false);
+    setUndone(null);
     setError('');
     setParseError('');
     if (fileRef.current) fileRef.current.value = '';
@@ -188,6 +201,36 @@ const ImportLeadsWizard: React.FC<ImportLeadsWizardProps> = ({
     setStep(prev => (prev > 1 ? (prev - 1) as Step : prev));
   }, []);
 
+  // ── Diff report for the finished batch ──
+  useEffect(() => {
+    if (!result?.batch_id) return;
+    let cancelled = false;
+    getImportDiff(result.batch_id)
+      .then((d) => { if (!cancelled) setDiff(d); })
+      .catch(() => { /* report is optional; the counts above still show */ });
+    return () => { cancelled = true; };
+  }, [result?.batch_id]);
+
+  // ── Undo the whole import ──
+  const runUndo = useCallback(async () => {
+    if (!result) return;
+    if (!confirm(
+      `Undo this import?\n\n` +
+      `${result.imported_count} created lead(s) will be deleted and ${result.updated_count} updated lead(s) ` +
+      `get their previous values back. Fields edited since the import are kept.`
+    )) return;
+    setUndoing(true);
+    setError('');
+    try {
+      setUndone(await undoImport(result.batch_id));
+      onImportComplete();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Undo failed');
+    } finally {
+      setUndoing(false);
+    }
+  }, [result, onImportComplete]);
+
   // ── Execute import ──
   const runImport = useCallback(async () => {
     if (!parsedFile) return;
@@ -580,11 +623,30 @@ const ImportLeadsWizard: React.FC<ImportLeadsWizardProps> = ({
           {step === 4 && result && (
             <div className="space-y-4">
               <div className="text-center py-4">
-                <div className="w-16 h-16 bg-emerald-50 text-emerald-600 rounded-2xl flex items-center justify-center mx-auto mb-4">
-                  <CheckIcon className="w-8 h-8" />
-                </div>
-                <h3 className="text-lg font-bold text-slate-900 font-heading">Import Complete</h3>
-                {validatingCount > 0 && (
+                {result.error && !undone ? (
+                  <div className="w-16 h-16 bg-amber-50 text-amber-600 rounded-2xl flex items-center justify-center mx-auto mb-4">
+                    <AlertTriangleIcon className="w-8 h-8" />
+                  </div>
+                ) : (
+                  <div className="w-16 h-16 bg-emerald-50 text-emerald-600 rounded-2xl flex items-center justify-center mx-auto mb-4">
+                    <CheckIcon className="w-8 h-8" />
+                  </div>
+                )}
+                <h3 className="text-lg font-bold text-slate-900 font-heading">
+                  {undone ? 'Import Undone' : result.error ? 'Import Stopped Partway' : 'Import Complete'}
+                </h3>
+                {!undone && result.error && (
+                  <p className="text-xs text-amber-700 mt-2">
+                    {result.error}. The rows below were imported — review them, or undo the import and try again.
+                  </p>
+                )}
+                {undone && (
+                  <p className="text-xs text-slate-500 mt-2">
+                    Deleted {undone.deleted} lead{undone.deleted !== 1 ? 's' : ''}, restored {undone.restored}.
+                    {undone.conflicts.length > 0 && ` Kept ${undone.conflicts.length} lead${undone.conflicts.length !== 1 ? 's' : ''} edited since the import.`}
+                  </p>
+                )}
+                {!undone && validatingCount > 0 && (
                   <p className="text-xs text-indigo-600 font-semibold mt-2">Validating {validatingCount} email{validatingCount !== 1 ? 's' : ''} in the background — statuses appear on the Leads page shortly.</p>
                 )}
               </div>
@@ -604,8 +666,23 @@ const ImportLeadsWizard: React.FC<ImportLeadsWizardProps> = ({
                 </div>
               </div>
 
-              {/* Skipped rows detail */}
-              {result.skipped_rows.length > 0 && (
+              {/* Diff report, falling back to the skipped rows the RPC returned */}
+              {diff ? (
+                <div className="space-y-2">
+                  {diff.created.length > 0 && (
+                    <DiffSection title={`${diff.created.length} created`} rows={diff.created} />
+                  )}
+                  {diff.updated.length > 0 && (
+                    <DiffSection title={`${diff.updated.length} updated`} rows={diff.updated} />
+                  )}
+                  {diff.skipped.length > 0 && (
+                    <DiffSection
+                      title={`${diff.skipped.length} skipped — ${diff.skipReasons.map(r => `${r.count} ${r.reason.replace('_', ' ')}`).join(', ')}`}
+                      rows={diff.skipped}
+                    />
+                  )}
+                </div>
+              ) : result.skipped_rows.length > 0 && (
                 <SkippedRowsDetail rows={result.skipped_rows} />
               )}
 
@@ -670,6 +747,17 @@ const ImportLeadsWizard: React.FC<ImportLeadsWizardProps> = ({
               </button>
             )}
 
+            {step === 4 && !undone && (result?.imported_count || result?.updated_count) ? (
+              <button
+                onClick={runUndo}
+                disabled={undoing}
+                className="px-4 py-2 text-red-600 font-semibold text-sm hover:text-red-700 transition-colors disabled:opacity-50"
+                title="Delete the leads this import created and restore the fields it overwrote"
+              >
+                {undoing ? 'Undoing...' : 'Undo this import'}
+              </button>
+            ) : null}
+
             {step === 4 && (
               <button
                 onClick={() => { reset(); onClose(); }}
@@ -727,6 +815,55 @@ const SkippedRowsDetail: React.FC<{ rows: ImportResult['skipped_rows'] }> = ({ r
   );
 };
 
+// ── Diff report section (created / updated / skipped) ─────────────────────────
+
+const DiffSection: React.FC<{ title: string; rows: ImportChange[] }> = ({ title, rows }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className="border border-slate-200 rounded-xl overflow-hidden">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full px-4 py-3 flex items-center justify-between bg-slate-50 hover:bg-slate-100 transition-colors"
+      >
+        <span className="text-xs font-bold text-slate-600">{title}</span>
+        <svg className={`w-4 h-4 text-slate-400 transition-transform ${expanded ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+      {expanded && (
+        <div className="max-h-48 overflow-y-auto divide-y divide-slate-50">
+          {rows.map((r) => (
+            <div key={`${r.action}-${r.row_number}`} className="px-4 py-2 text-xs">
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-slate-600 shrink-0">Row {r.row_number}</span>
+                {r.identifier && <span className="text-slate-400 truncate">{r.identifier}</span>}
+                {r.action === 'skipped' && (
+                  <span className={`px-2 py-0.5 rounded-md font-bold shrink-0 ${
+                    r.reason === 'duplicate' ? 'bg-blue-50 text-blue-600' :
+                    r.reason === 'plan_limit' ? 'bg-amber-50 text-amber-600' :
+                    'bg-slate-100 text-slate-500'
+                  }`}>
+                    {SKIP_REASON_LABELS[r.reason ?? ''] ?? r.reason}
+                  </span>
+                )}
+                {r.action === 'updated' && r.changed_fields.length === 0 && (
+                  <span className="text-slate-400 shrink-0">no changes</span>
+                )}
+              </div>
+              {r.action === 'updated' && r.changed_fields.length > 0 && (
+                <ul className="mt-1 space-y-0.5 text-[11px] text-slate-500 font-mono">
+                  {describeFieldChanges(r).map((line) => <li key={line} className="truncate">{line}</li>)}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
 // ── CSV parser (handles quoted fields) ──────────────────────────────────────
 
 function parseCSVText(text: string): { headers: string[]; rows: Record<string, string>[] } {
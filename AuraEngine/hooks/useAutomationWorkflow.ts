@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import { supabase } from '../lib/supabase';
-import type { Lead, TriggerType } from '../types';
+import type { Lead, TriggerType, ActionType } from '../types';
 import {
   saveWorkflow as saveWorkflowToDb,
   loadWorkflows as loadWorkflowsFromDb,
@@ -8,8 +8,23 @@ import {
   executeWorkflow as executeWorkflowEngine,
   getExecutionLog,
   getNodeAnalytics,
+  resolveEdges,
+  topoSortNodes,
+  validateWorkflowGraph,
+  insertNodeAfter,
+  removeNodeEdges,
+  setNodeTargets,
+  nodeCondition,
   type ExecutionResult,
 } from '../lib/automationEngine';
+import { validateCondition, type ConditionGroup } from '../lib/leadConditions';
+import {
+  loadWorkflowVersions,
+  publishWorkflow,
+  rollbackWorkflow,
+  type WorkflowVersion,
+} from '../lib/workflowVersions';
+import { defaultActionConfig, validateWorkflowActions } from '../lib/workflowActions';
 import { generateWorkflowOptimization } from '../lib/gemini';
 import {
   fetchCampaignHistory,
@@ -30,6 +45,7 @@ import type {
   Workflow,
   WorkflowNode,
   NodeType,
+  EdgeBranch,
   WizardStep,
   ActivationMode,
   TestResult,
@@ -58,6 +74,8 @@ export function useAutomationWorkflow(userId: string | undefined) {
   // ─── Workflow State ───
   const [workflow, setWorkflow] = useState<Workflow>(DEFAULT_WORKFLOW);
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  // Which side of a selected condition new steps attach to.
+  const [selectedBranch, setSelectedBranch] = useState<EdgeBranch>('yes');
   const [testRunning, setTestRunning] = useState(false);
   const [testResults, setTestResults] = useState<TestResult | null>(null);
   const [validations, setValidations] = useState<ValidationItem[]>([]);
@@ -95,6 +113,7 @@ export function useAutomationWorkflow(userId: string | undefined) {
     triggerAnalytics: false,
     templateEffectiveness: false,
     campaignsPanel: false,
+    versionHistory: false,
   });
 
   const togglePanel = useCallback((name: PanelName) => {
@@ -111,6 +130,7 @@ export function useAutomationWorkflow(userId: string | undefined) {
       triggerAnalytics: false,
       templateEffectiveness: false,
       campaignsPanel: false,
+      versionHistory: false,
     });
   }, []);
 
@@ -128,6 +148,11 @@ export function useAutomationWorkflow(userId: string | undefined) {
   // ─── Already-emailed lead tracking ───
   const [emailSummaryMap, setEmailSummaryMap] = useState<Map<string, BatchEmailSummary>>(new Map());
 
+  // ─── Versions ───
+  const [workflowVersions, setWorkflowVersions] = useState<WorkflowVersion[]>([]);
+  const [versionsLoading, setVersionsLoading] = useState(false);
+  const [publishing, setPublishing] = useState(false);
+
   // ─── Real execution data ───
   const [executionLog, setExecutionLog] = useState<ExecutionLogEntry[]>([]);
   const [realNodePerformance, setRealNodePerformance] = useState<NodePerformanceMetric[]>([]);
@@ -173,8 +198,11 @@ export function useAutomationWorkflow(userId: string | undefined) {
           description: w.description,
           status: w.status,
           nodes: w.nodes as WorkflowNode[],
+          edges: resolveEdges(w),
           createdAt: w.createdAt,
           stats: w.stats,
+          version: w.version ?? null,
+          hasDraft: w.hasDraft ?? false,
         }));
         setWorkflows(mapped);
         setWorkflow(mapped[0]);
@@ -203,6 +231,18 @@ export function useAutomationWorkflow(userId: string | undefined) {
     if (dbLoaded) fetchAnalytics();
   }, [workflow?.id, dbLoaded]);
 
+  const refreshVersions = useCallback(async () => {
+    if (workflow.id.startsWith('wf-')) { setWorkflowVersions([]); return; }
+    setVersionsLoading(true);
+    const versions = await loadWorkflowVersions(workflow.id);
+    setWorkflowVersions(versions);
+    setVersionsLoading(false);
+  }, [workflow.id]);
+
+  useEffect(() => {
+    if (panelVisibility.versionHistory) refreshVersions();
+  }, [panelVisibility.versionHistory, refreshVersions]);
+
   useEffect(() => {
     if (!panelVisibility.campaignsPanel) return;
     let cancelled = false;
@@ -430,16 +470,41 @@ export function useAutomationWorkflow(userId: string | undefined) {
   // Handlers (useCallback)
   // ═══════════════════════════════════════════════════════════════
 
+  // Every graph edit below turns the workflow into an unpublished draft.
   const updateNodeConfig = useCallback((nodeId: string, key: string, value: string | number | boolean) => {
     setWorkflow(prev => ({
       ...prev,
+      hasDraft: true,
       nodes: prev.nodes.map(n => n.id === nodeId ? { ...n, config: { ...n.config, [key]: value } } : n),
     }));
   }, []);
 
+  /** Switching an action's type starts it over on that type's default config. */
+  const updateNodeActionType = useCallback((nodeId: string, actionType: ActionType) => {
+    setWorkflow(prev => ({
+      ...prev,
+      hasDraft: true,
+      nodes: prev.nodes.map(n => n.id === nodeId ? { ...n, actionType, config: defaultActionConfig(actionType) } : n),
+    }));
+  }, []);
+
+  /** Saving a rule tree retires the node's legacy single field/operator/value config. */
+  const updateNodeCondition = useCallback((nodeId: string, condition: ConditionGroup) => {
+    setWorkflow(prev => ({
+      ...prev,
+      hasDraft: true,
+      nodes: prev.nodes.map(n => {
+        if (n.id !== nodeId) return n;
+        const { field: _f, operator: _o, value: _v, ...config } = n.config;
+        return { ...n, condition, config };
+      }),
+    }));
+  }, []);
+
   const updateNodeTitle = useCallback((nodeId: string, title: string) => {
     setWorkflow(prev => ({
       ...prev,
+      hasDraft: true,
       nodes: prev.nodes.map(n => n.id === nodeId ? { ...n, title } : n),
     }));
   }, []);
@@ -447,6 +512,7 @@ export function useAutomationWorkflow(userId: string | undefined) {
   const updateNodeDescription = useCallback((nodeId: string, description: string) => {
     setWorkflow(prev => ({
       ...prev,
+      hasDraft: true,
       nodes: prev.nodes.map(n => n.id === nodeId ? { ...n, description } : n),
     }));
   }, []);
@@ -469,67 +535,132 @@ export function useAutomationWorkflow(userId: string | undefined) {
       type,
       title: titles[type],
       description: descs[type],
-      config: type === 'wait' ? { days: 1 } : type === 'condition' ? { field: 'score', operator: 'gt', value: 50 } : { actionType: 'send_email', template: 'welcome', aiPersonalization: false, timing: 'immediate', fallbackEnabled: false },
+      ...(type === 'action' ? { actionType: 'send_email' as const } : {}),
+      ...(type === 'condition' ? { condition: { combinator: 'and' as const, rules: [{ field: 'score', operator: 'gt' as const, value: 50 }] } } : {}),
+      config: type === 'wait' ? { days: 1 } : type === 'action' ? defaultActionConfig('send_email') : {},
     };
-    setWorkflow(prev => ({ ...prev, nodes: [...prev.nodes, newNode] }));
+    setWorkflow(prev => {
+      // Attach after the selected step, or after the last step of the flow when
+      // nothing is selected.
+      const anchor = prev.nodes.find(n => n.id === selectedNodeId)
+        || (topoSortNodes(prev.nodes, prev.edges) || prev.nodes).slice(-1)[0];
+      const edges = anchor
+        ? insertNodeAfter(prev.edges, anchor.id, newNode.id, anchor.type === 'condition' ? selectedBranch : undefined)
+        : prev.edges;
+      return { ...prev, hasDraft: true, nodes: [...prev.nodes, newNode], edges };
+    });
     setSelectedNodeId(newNode.id);
-  }, []);
+    setSelectedBranch('yes');
+  }, [selectedNodeId, selectedBranch]);
 
   const removeNode = useCallback((nodeId: string) => {
     setWorkflow(prev => ({
       ...prev,
+      hasDraft: true,
       nodes: prev.nodes.filter(n => n.id !== nodeId),
+      edges: removeNodeEdges(prev.edges, nodeId),
     }));
     setSelectedNodeId(prev => prev === nodeId ? null : prev);
   }, []);
 
-  const moveNode = useCallback((nodeId: string, direction: 'up' | 'down') => {
-    setWorkflow(prev => {
-      const idx = prev.nodes.findIndex(n => n.id === nodeId);
-      if (idx < 0) return prev;
-      if (direction === 'up' && idx === 0) return prev;
-      if (direction === 'down' && idx === prev.nodes.length - 1) return prev;
-      const newNodes = [...prev.nodes];
-      const swapIdx = direction === 'up' ? idx - 1 : idx + 1;
-      [newNodes[idx], newNodes[swapIdx]] = [newNodes[swapIdx], newNodes[idx]];
-      return { ...prev, nodes: newNodes };
-    });
+  const selectNode = useCallback((nodeId: string, branch: EdgeBranch = 'yes') => {
+    setSelectedNodeId(nodeId);
+    setSelectedBranch(branch);
   }, []);
 
-  const reorderNodes = useCallback((fromIndex: number, toIndex: number) => {
-    setWorkflow(prev => {
-      if (fromIndex === toIndex) return prev;
-      const newNodes = [...prev.nodes];
-      const [moved] = newNodes.splice(fromIndex, 1);
-      newNodes.splice(toIndex, 0, moved);
-      return { ...prev, nodes: newNodes };
-    });
+  const updateNodeTargets = useCallback((nodeId: string, targetIds: string[], branch?: EdgeBranch) => {
+    setWorkflow(prev => ({
+      ...prev,
+      hasDraft: true,
+      edges: setNodeTargets(prev.edges, nodeId, targetIds, branch),
+    }));
   }, []);
 
-  const handleSave = useCallback(async () => {
+  /** Saves `wf` as the workflow's draft; returns its database id, or null on failure. */
+  const saveDraft = useCallback(async (wf: Workflow): Promise<string | null> => {
     setWorkflows(prev => {
-      const exists = prev.findIndex(w => w.id === workflow.id);
+      const exists = prev.findIndex(w => w.id === wf.id);
       if (exists >= 0) {
         const updated = [...prev];
-        updated[exists] = workflow;
+        updated[exists] = wf;
         return updated;
       }
-      return [...prev, workflow];
+      return [...prev, wf];
     });
     const saved = await saveWorkflowToDb({
-      id: workflow.id,
-      name: workflow.name,
-      description: workflow.description,
-      status: workflow.status,
-      nodes: workflow.nodes,
-      createdAt: workflow.createdAt,
-      stats: workflow.stats,
+      id: wf.id,
+      name: wf.name,
+      description: wf.description,
+      status: wf.status,
+      nodes: wf.nodes,
+      edges: wf.edges,
+      createdAt: wf.createdAt,
+      stats: wf.stats,
     });
-    if (saved) {
-      setWorkflow(prev => ({ ...prev, id: saved.id }));
-      setWorkflows(prev => prev.map(w => w.id === workflow.id ? { ...w, id: saved.id } : w));
+    if (!saved) return null;
+    setWorkflow(prev => ({ ...prev, id: saved.id, hasDraft: true }));
+    setWorkflows(prev => prev.map(w => w.id === wf.id ? { ...w, id: saved.id, hasDraft: true } : w));
+    return saved.id;
+  }, []);
+
+  /** Saves the draft, then publishes it as the next live version. */
+  const publishDraft = useCallback(async (wf: Workflow, note?: string): Promise<number | null> => {
+    setPublishing(true);
+    try {
+      const id = await saveDraft(wf);
+      if (!id) return null;
+      const version = await publishWorkflow(id, note);
+      setWorkflow(prev => ({ ...prev, version, hasDraft: false }));
+      setWorkflows(prev => prev.map(w => w.id === id ? { ...w, version, hasDraft: false } : w));
+      if (panelVisibility.versionHistory) refreshVersions();
+      return version;
+    } catch (err) {
+      console.error('Failed to publish workflow:', err instanceof Error ? err.message : err);
+      return null;
+    } finally {
+      setPublishing(false);
+    }
+  }, [saveDraft, panelVisibility.versionHistory, refreshVersions]);
+
+  // An active workflow needs a live version for its triggers to start runs,
+  // so the first save after activating publishes.
+  const handleSave = useCallback(async () => {
+    if (workflow.status === 'active' && !workflow.version) {
+      await publishDraft(workflow, 'First publish');
+      return;
     }
-  }, [workflow]);
+    await saveDraft(workflow);
+  }, [workflow, saveDraft, publishDraft]);
+
+  const handlePublish = useCallback(async (note?: string) => {
+    return publishDraft(workflow, note);
+  }, [workflow, publishDraft]);
+
+  /** Makes a copy of `version` live. Leads already mid-run keep their own version. */
+  const handleRollback = useCallback(async (version: number) => {
+    const target = workflowVersions.find(v => v.version === version);
+    if (!target || workflow.id.startsWith('wf-')) return null;
+    setPublishing(true);
+    try {
+      const next = await rollbackWorkflow(workflow.id, version);
+      const restored = {
+        nodes: target.nodes as WorkflowNode[],
+        edges: resolveEdges(target),
+        version: next,
+        hasDraft: false,
+      };
+      setWorkflow(prev => ({ ...prev, ...restored }));
+      setWorkflows(prev => prev.map(w => w.id === workflow.id ? { ...w, ...restored } : w));
+      setSelectedNodeId(null);
+      await refreshVersions();
+      return next;
+    } catch (err) {
+      console.error('Failed to roll back workflow:', err instanceof Error ? err.message : err);
+      return null;
+    } finally {
+      setPublishing(false);
+    }
+  }, [workflow.id, workflowVersions, refreshVersions]);
 
   const handleTest = useCallback(async () => {
     setTestRunning(true);
@@ -563,8 +694,11 @@ export function useAutomationWorkflow(userId: string | undefined) {
             description: workflow.description,
             status: workflow.status,
             nodes: workflow.nodes,
+            edges: workflow.edges,
             createdAt: workflow.createdAt,
             stats: workflow.stats,
+            version: workflow.version,
+            hasDraft: workflow.hasDraft,
           },
           selectedLeads
         ),
@@ -631,32 +765,42 @@ export function useAutomationWorkflow(userId: string | undefined) {
         status: hasAction ? 'pass' : 'fail',
         message: hasAction ? `${workflow.nodes.filter(n => n.type === 'action').length} action steps configured` : 'No action steps found',
       });
-      const emailNodes = workflow.nodes.filter(n => n.type === 'action' && n.config.template);
+      const emailNodes = workflow.nodes.filter(n => n.type === 'action' && n.actionType === 'send_email' && n.config.template);
       items.push({
         label: 'Email templates valid',
         status: emailNodes.length > 0 ? 'pass' : 'warn',
         message: emailNodes.length > 0 ? `${emailNodes.length} email templates assigned` : 'No email templates configured yet',
       });
+      const actionIssues = validateWorkflowActions(workflow.nodes);
+      items.push({
+        label: 'Action settings complete',
+        status: actionIssues.length === 0 ? 'pass' : 'fail',
+        message: actionIssues.length === 0 ? 'Every action has a type and the settings it needs' : actionIssues.join('; '),
+      });
       const conditions = workflow.nodes.filter(n => n.type === 'condition');
+      const conditionIssues = conditions.flatMap(n => validateCondition(nodeCondition(n)).map(issue => `"${n.title}": ${issue}`));
       items.push({
         label: 'Conditions verified',
-        status: conditions.length > 0 ? 'pass' : 'warn',
-        message: conditions.length > 0 ? `${conditions.length} condition branches verified` : 'No conditions - workflow runs linearly',
+        status: conditionIssues.length > 0 ? 'fail' : conditions.length > 0 ? 'pass' : 'warn',
+        message: conditionIssues.length > 0
+          ? conditionIssues.join('; ')
+          : conditions.length > 0 ? `${conditions.length} condition branches verified` : 'No conditions - workflow runs linearly',
       });
       items.push({
         label: 'Workflow complexity',
         status: workflow.nodes.length >= 3 ? 'pass' : 'warn',
         message: `${workflow.nodes.length} steps total - ${workflow.nodes.length >= 5 ? 'robust workflow' : 'consider adding more steps'}`,
       });
+      const graphIssues = validateWorkflowGraph(workflow.nodes, workflow.edges);
       items.push({
         label: 'All connections valid',
-        status: 'pass',
-        message: 'All nodes are connected in sequence',
+        status: graphIssues.length === 0 ? 'pass' : 'fail',
+        message: graphIssues.length === 0 ? 'Every step is reachable from the trigger' : graphIssues.join('; '),
       });
       setValidations(items);
       setValidating(false);
     }, 1500);
-  }, [workflow.nodes]);
+  }, [workflow.nodes, workflow.edges]);
 
   const handleAiOptimize = useCallback(async () => {
     setAiOptimizing(true);
@@ -707,6 +851,7 @@ export function useAutomationWorkflow(userId: string | undefined) {
       nodes: [
         { id: `n-${Date.now()}`, type: 'trigger', title: triggerTitle, description: triggerDesc, config: { triggerType: wizardTrigger || 'lead_created' } },
       ],
+      edges: [],
       createdAt: new Date().toISOString(),
       stats: { leadsProcessed: 0, conversionRate: 0, timeSavedHrs: 0, roi: 0 },
     };
@@ -716,10 +861,11 @@ export function useAutomationWorkflow(userId: string | undefined) {
   }, [wizardName, wizardDescription, wizardTrigger]);
 
   const handleActivate = useCallback(async () => {
-    setWorkflow(prev => ({ ...prev, status: 'active' }));
-    await handleSave();
+    const activated: Workflow = { ...workflow, status: 'active' };
+    setWorkflow(activated);
+    await publishDraft(activated, activated.version ? undefined : 'First publish');
     setWizardActive(false);
-  }, [handleSave]);
+  }, [workflow, publishDraft]);
 
   const loadWorkflow = useCallback((wf: Workflow) => {
     setWorkflow(wf);
@@ -768,14 +914,22 @@ export function useAutomationWorkflow(userId: string | undefined) {
   }, [workflow.id]);
 
   const handleDuplicateWorkflow = useCallback(async (wf: Workflow) => {
+    const idMap = new Map(wf.nodes.map(n => [n.id, `n-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`]));
     const newWf: Workflow = {
       ...wf,
       id: `wf-${Date.now()}`,
       name: `${wf.name} (Copy)`,
       status: 'draft',
+      version: null,
+      hasDraft: true,
       createdAt: new Date().toISOString(),
       stats: { leadsProcessed: 0, conversionRate: 0, timeSavedHrs: 0, roi: 0 },
-      nodes: wf.nodes.map(n => ({ ...n, id: `n-${Date.now()}-${Math.random().toString(36).slice(2, 6)}` })),
+      nodes: wf.nodes.map(n => ({ ...n, id: idMap.get(n.id)! })),
+      edges: wf.edges.map(e => {
+        const source = idMap.get(e.source)!;
+        const target = idMap.get(e.target)!;
+        return { ...e, id: `e-${source}-${e.branch ? `${e.branch}-` : ''}${target}`, source, target };
+      }),
     };
     const saved = await saveWorkflowToDb({
       id: newWf.id,
@@ -783,6 +937,7 @@ export function useAutomationWorkflow(userId: string | undefined) {
       description: newWf.description,
       status: newWf.status,
       nodes: newWf.nodes,
+      edges: newWf.edges,
       createdAt: newWf.createdAt,
       stats: newWf.stats,
     });
@@ -831,6 +986,7 @@ export function useAutomationWorkflow(userId: string | undefined) {
     workflows,
     selectedNode,
     selectedNodeId,
+    selectedBranch,
     integrationStatuses,
     emailSummaryMap,
 
@@ -905,6 +1061,11 @@ export function useAutomationWorkflow(userId: string | undefined) {
     leadStatusFilter,
     setLeadStatusFilter,
 
+    // Versions
+    workflowVersions,
+    versionsLoading,
+    publishing,
+
     // Campaigns
     campaignHistory,
     campaignHistoryLoading,
@@ -916,13 +1077,17 @@ export function useAutomationWorkflow(userId: string | undefined) {
 
     // Handlers
     updateNodeConfig,
+    updateNodeActionType,
+    updateNodeCondition,
     updateNodeTitle,
     updateNodeDescription,
     addNode,
     removeNode,
-    moveNode,
-    reorderNodes,
+    selectNode,
+    updateNodeTargets,
     handleSave,
+    handlePublish,
+    handleRollback,
     handleTest,
     runValidation,
     handleAiOptimize,
@@ -935,6 +1100,7 @@ export function useAutomationWorkflow(userId: string | undefined) {
     selectAllFilteredLeads,
     deselectAllLeads,
     refreshExecutionLog,
+    refreshVersions,
     handleDeleteWorkflow,
     handleDuplicateWorkflow,
   };
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../supabase', () => ({ supabase: {} }));
+
+import { sampleBeta, seededRng, thompsonPick, winProbabilities } from '../abBandit';
+import { withCta } from '../campaigns';
+
+describe('sampleBeta', () => {
+  it('centres on the posterior mean', () => {
+    const rng = seededRng(7);
+    let sum = 0;
+    for (let i = 0; i < 5000; i++) sum += sampleBeta(3, 7, rng);
+    expect(sum / 5000).toBeCloseTo(0.3, 1);
+  });
+});
+
+describe('winProbabilities', () => {
+  it('is even with no data and sums to one', () => {
+    const p = winProbabilities([{ variant: 0, sent: 0, successes: 0 }, { variant: 1, sent: 0, successes: 0 }]);
+    expect(p[0]).toBeCloseTo(0.5, 1);
+    expect(p[0] + p[1]).toBeCloseTo(1, 10);
+  });
+
+  it('favours the lane with the better reply rate, more so with more data', () => {
+    const small = winProbabilities([{ variant: 0, sent: 20, successes: 1 }, { variant: 1, sent: 20, successes: 3 }]);
+    const large = winProbabilities([{ variant: 0, sent: 400, successes: 20 }, { variant: 1, sent: 400, successes: 60 }]);
+    expect(small[1]).toBeGreaterThan(0.6);
+    expect(large[1]).toBeGreaterThan(0.99);
+    expect(large[1]).toBeGreaterThan(small[1]);
+  });
+
+  it('is stable for the same seed', () => {
+    const lanes = [{ variant: 0, sent: 30, successes: 2 }, { variant: 1, sent: 30, successes: 4 }, { variant: 2, sent: 30, successes: 3 }];
+    expect(winProbabilities(lanes, seededRng(3))).toEqual(winProbabilities(lanes, seededRng(3)));
+  });
+});
+
+describe('thompsonPick', () => {
+  it('still explores a trailing lane while the posteriors overlap', () => {
+    const rng = seededRng(11);
+    const lanes = [{ variant: 0, sent: 15, successes: 1 }, { variant: 1, sent: 15, successes: 2 }];
+    const picks = Array.from({ length: 1000 }, () => thompsonPick(lanes, rng));
+    const share = picks.filter(v => v === 0).length / picks.length;
+    expect(share).toBeGreaterThan(0.15);
+    expect(share).toBeLessThan(0.5);
+  });
+});
+
+describe('withCta', () => {
+  it('fills {{cta}} or appends the line as a closing paragraph', () => {
+    expect(withCta('Hi {{first_name}},\n\n{{cta}}\n\nThanks', 'Worth a chat?')).toBe('Hi {{first_name}},\n\nWorth a chat?\n\nThanks');
+    expect(withCta('Hi there,\n', 'Worth a chat?')).toBe('Hi there,\n\nWorth a chat?');
+    expect(withCta('<p>Hi there</p>', 'Worth a chat?')).toBe('<p>Hi there</p><p>Worth a chat?</p>');
+    expect(withCta('Body {{cta}}', '')).toBe('Body ');
+    expect(withCta('Body', '  ')).toBe('Body');
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../supabase', () => ({ supabase: {} }));
+
+import {
+  SCOPES, scopesByResource, effectiveRateLimit, parseIpAllowlist, usageByDay,
+} from '../apiKeys';
+
+describe('api key scopes', () => {
+  it('covers the new resources with read and write', () => {
+    for (const r of ['deals', 'tasks', 'notes', 'suppression', 'webhooks', 'senders']) {
+      expect(SCOPES).toContain(`${r}.read`);
+      expect(SCOPES).toContain(`${r}.write`);
+    }
+  });
+
+  it('groups scopes by resource in list order', () => {
+    const groups = scopesByResource();
+    expect(groups[0]).toEqual({ resource: 'leads', scopes: ['leads.read', 'leads.write'] });
+    expect(groups.find(g => g.resource === 'analytics')?.scopes).toEqual(['analytics.read']);
+    expect(groups.flatMap(g => g.scopes)).toEqual([...SCOPES]);
+  });
+});
+
+describe('effectiveRateLimit', () => {
+  it('uses the plan tier, resolving legacy names', () => {
+    expect(effectiveRateLimit('Growth', null)).toBe(300);
+    expect(effectiveRateLimit('Enterprise', null)).toBe(1200);
+    expect(effectiveRateLimit('Unknown', null)).toBe(60);
+  });
+
+  it('lets a key cap itself below the plan but never above', () => {
+    expect(effectiveRateLimit('Growth', 100)).toBe(100);
+    expect(effectiveRateLimit('Free', 100)).toBe(30);
+  });
+});
+
+describe('parseIpAllowlist', () => {
+  it('accepts addresses and CIDR ranges separated by commas or whitespace', () => {
+    expect(parseIpAllowlist('203.0.113.7, 198.51.100.0/24\n2001:db8::/32  203.0.113.7')).toEqual({
+      entries: ['203.0.113.7', '198.51.100.0/24', '2001:db8::/32'],
+      invalid: [],
+    });
+  });
+
+  it('reports entries that are not addresses', () => {
+    expect(parseIpAllowlist('10.0.0.256, 10.0.0.0/33, example.com, 10.0.0.1').invalid)
+      .toEqual(['10.0.0.256', '10.0.0.0/33', 'example.com']);
+    expect(parseIpAllowlist('   ').entries).toEqual([]);
+  });
+});
+
+describe('usageByDay', () => {
+  it('sums hours into days and fills quiet days with zero', () => {
+    const now = new Date('2026-08-23T15:00:00Z');
+    const days = usageByDay([
+      { api_key_id: 'k', hour: '2026-08-21T09:00:00Z', requests: 5, throttled: 0 },
+      { api_key_id: 'k', hour: '2026-08-21T10:00:00Z', requests: 7, throttled: 2 },
+      { api_key_id: 'k', hour: '2026-08-23T14:00:00Z', requests: 1, throttled: 0 },
+      { api_key_id: 'k', hour: '2026-08-01T00:00:00Z', requests: 99, throttled: 0 },
+    ], 3, now);
+    expect(days).toEqual([
+      { day: '2026-08-21', requests: 12, throttled: 2 },
+      { day: '2026-08-22', requests: 0, throttled: 0 },
+      { day: '2026-08-23', requests: 1, throttled: 0 },
+    ]);
+  });
+});
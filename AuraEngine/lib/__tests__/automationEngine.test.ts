@@ -1,6 +1,24 @@
 import { describe, it, expect, vi } from 'vitest';
-import { calculateScheduledTime } from '../automationEngine';
+import {
+  calculateScheduledTime,
+  linearEdges,
+  resolveEdges,
+  topoSortNodes,
+  isEdgeTaken,
+  validateWorkflowGraph,
+  insertNodeAfter,
+  removeNodeEdges,
+  type WorkflowNode,
+  type WorkflowEdge,
+} from '../automationEngine';
 import { personalizeForSend } from '../personalization';
+import {
+  defaultActionConfig,
+  validateActionConfig,
+  validateWorkflowActions,
+  migrateActionNode,
+} from '../workflowActions';
+import type { ActionType } from '../../types';
 
 // ─── calculateScheduledTime ───
 
@@ -130,44 +148,129 @@ describe('personalizeForSend', () => {
   });
 });
 
-// ─── Config → actionType resolution ───
-
-describe('actionType config resolution', () => {
-  // This tests the logic pattern used in executeAction:
-  //   const actionType = (node.config.actionType as string) || inferActionType(node);
-  // We verify that when actionType is set explicitly, it takes precedence.
-
-  it('explicit actionType in config takes precedence over title', () => {
-    const config = { actionType: 'send_email', template: 'welcome' };
-    const actionType = (config.actionType as string) || 'generic';
-    expect(actionType).toBe('send_email');
-  });
-
-  it('missing actionType falls back', () => {
-    const config = { template: 'welcome' };
-    const actionType = ((config as any).actionType as string) || 'fallback';
-    expect(actionType).toBe('fallback');
-  });
-
-  it('custom email config keys are preserved', () => {
-    const config = {
-      actionType: 'send_email',
-      template: '__custom__',
-      customSubject: 'Hi {{first_name}}',
-      customBody: '<p>Hello</p>',
-      aiPersonalization: true,
-      timing: 'morning',
-      fallbackEnabled: true,
-      fallbackAction: 'retry',
-    };
-
-    expect(config.actionType).toBe('send_email');
-    expect(config.template).toBe('__custom__');
-    expect(config.customSubject).toBe('Hi {{first_name}}');
-    expect(config.customBody).toBe('<p>Hello</p>');
-    expect(config.aiPersonalization).toBe(true);
-    expect(config.timing).toBe('morning');
-    expect(config.fallbackEnabled).toBe(true);
-    expect(config.fallbackAction).toBe('retry');
+// ─── Action types ───
+
+describe('action config schemas', () => {
+  const action = (title: string, config: WorkflowNode['config'], actionType?: ActionType): WorkflowNode => ({
+    id: 'a', type: 'action', title, description: '', config, ...(actionType ? { actionType } : {}),
+  });
+
+  it('requires an action type', () => {
+    expect(validateActionConfig(undefined, {})).toHaveProperty('actionType');
+  });
+
+  it('defaults validate for types without required free-text fields', () => {
+    for (const type of ['send_email', 'update_status', 'sync_crm'] as ActionType[]) {
+      expect(validateActionConfig(type, defaultActionConfig(type))).toEqual({});
+    }
+  });
+
+  it('flags missing required and unsupported values', () => {
+    expect(validateActionConfig('add_tag', { tag: '  ' })).toHaveProperty('tag');
+    expect(validateActionConfig('update_status', { newStatus: 'Archived' })).toHaveProperty('newStatus');
+  });
+
+  it('only checks conditional fields when they apply', () => {
+    expect(validateActionConfig('send_email', { template: 'welcome', timing: 'immediate' })).toEqual({});
+    const errors = validateActionConfig('send_email', { template: '__custom__', timing: 'immediate' });
+    expect(Object.keys(errors).sort()).toEqual(['customBody', 'customSubject']);
+  });
+
+  it('lists invalid action nodes by title', () => {
+    const issues = validateWorkflowActions([action('Tag it', { tag: '' }, 'add_tag'), action('Untyped', {})]);
+    expect(issues).toHaveLength(2);
+    expect(issues[0]).toContain('"Tag it"');
+  });
+
+  it('migrates a legacy config.actionType onto the node', () => {
+    const migrated = migrateActionNode(action('Ping the team', { actionType: 'notify_slack', messageTemplate: 'hi' }));
+    expect(migrated.actionType).toBe('notify_slack');
+    expect(migrated.config).toEqual({ messageTemplate: 'hi' });
+  });
+
+  it('migrates untyped nodes with the old title guess, filling defaults', () => {
+    const migrated = migrateActionNode(action('Update status', { newStatus: 'Qualified' }));
+    expect(migrated.actionType).toBe('update_status');
+    expect(migrated.config.newStatus).toBe('Qualified');
+  });
+
+  it('leaves typed nodes alone and unplaceable nodes untyped', () => {
+    const typed = action('Send email', { tag: 'VIP' }, 'add_tag');
+    expect(migrateActionNode(typed)).toBe(typed);
+    expect(migrateActionNode(action('Do something', {})).actionType).toBeUndefined();
+  });
+});
+
+// ─── Workflow graph ───
+
+describe('workflow graph helpers', () => {
+  const node = (id: string, type: WorkflowNode['type'] = 'action'): WorkflowNode => ({
+    id, type, title: id, description: '', config: {},
+  });
+  const trigger = node('t', 'trigger');
+  const cond = node('c', 'condition');
+  const hot = node('hot');
+  const cold = node('cold');
+  const merge = node('merge');
+  const branching: WorkflowEdge[] = [
+    { id: 'e1', source: 't', target: 'c' },
+    { id: 'e2', source: 'c', target: 'hot', branch: 'yes' },
+    { id: 'e3', source: 'c', target: 'cold', branch: 'no' },
+    { id: 'e4', source: 'hot', target: 'merge' },
+    { id: 'e5', source: 'cold', target: 'merge' },
+  ];
+
+  it('linearEdges chains nodes and only continues a condition on yes', () => {
+    const edges = linearEdges([trigger, cond, hot]);
+    expect(edges.map(e => [e.source, e.target, e.branch])).toEqual([
+      ['t', 'c', undefined],
+      ['c', 'hot', 'yes'],
+    ]);
+  });
+
+  it('resolveEdges falls back to the linear chain for legacy workflows', () => {
+    expect(resolveEdges({ nodes: [trigger, hot] })).toHaveLength(1);
+    expect(resolveEdges({ nodes: [trigger, cond, hot, cold, merge], edges: branching })).toEqual(branching);
+  });
+
+  it('topoSortNodes puts a merge point after both branches', () => {
+    const order = topoSortNodes([merge, cold, hot, cond, trigger], branching)!.map(n => n.id);
+    expect(order.indexOf('merge')).toBeGreaterThan(order.indexOf('hot'));
+    expect(order.indexOf('merge')).toBeGreaterThan(order.indexOf('cold'));
+    expect(order[0]).toBe('t');
+  });
+
+  it('topoSortNodes returns null on a loop', () => {
+    expect(topoSortNodes([hot, cold], [
+      { id: 'a', source: 'hot', target: 'cold' },
+      { id: 'b', source: 'cold', target: 'hot' },
+    ])).toBeNull();
+  });
+
+  it('isEdgeTaken follows the matching condition branch', () => {
+    expect(isEdgeTaken(cond, branching[1], 'pass')).toBe(true);
+    expect(isEdgeTaken(cond, branching[2], 'pass')).toBe(false);
+    expect(isEdgeTaken(cond, branching[2], 'skip')).toBe(true);
+    expect(isEdgeTaken(hot, branching[3], 'fail')).toBe(true);
+  });
+
+  it('validateWorkflowGraph flags orphans and dangling conditions', () => {
+    expect(validateWorkflowGraph([trigger, cond, hot, cold, merge], branching)).toEqual([]);
+    const issues = validateWorkflowGraph([trigger, cond, hot], [{ id: 'e1', source: 't', target: 'c' }]);
+    expect(issues).toContain('"hot" is not connected to the trigger');
+    expect(issues).toContain('Condition "c" has no yes or no branch');
+  });
+
+  it('insertNodeAfter splices a node into an existing branch', () => {
+    const edges = insertNodeAfter(branching, 'c', 'new', 'no');
+    expect(edges.some(e => e.source === 'c' && e.target === 'new' && e.branch === 'no')).toBe(true);
+    expect(edges.some(e => e.source === 'new' && e.target === 'cold')).toBe(true);
+    expect(edges.some(e => e.source === 'c' && e.target === 'cold')).toBe(false);
+  });
+
+  it('removeNodeEdges bridges a chain around the removed node', () => {
+    const edges = removeNodeEdges(branching, 'cold');
+    expect(edges.some(e => e.source === 'c' && e.target === 'merge' && e.branch === 'no')).toBe(true);
+    expect(edges.some(e => e.source === 'cold' || e.target === 'cold')).toBe(false);
   });
 });
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+
+import { clientIp } from '../../../supabase/functions/_shared/clientIp.ts';
+
+const headers = (xff?: string) => new Headers(xff === undefined ? {} : { 'x-forwarded-for': xff });
+
+describe('clientIp', () => {
+  it('uses the hop the platform proxy appended', () => {
+    expect(clientIp(headers('203.0.113.7'))).toBe('203.0.113.7');
+    expect(clientIp(headers('10.0.0.1, 203.0.113.7'))).toBe('203.0.113.7');
+  });
+
+  it('ignores a spoofed X-Forwarded-For entry from the caller', () => {
+    // Caller sends "X-Forwarded-For: 198.51.100.10" (an allowlisted address);
+    // the proxy appends the real peer address after it.
+    expect(clientIp(headers('198.51.100.10, 203.0.113.7'))).toBe('203.0.113.7');
+    expect(clientIp(headers(' 198.51.100.10 ,203.0.113.7 '))).toBe('203.0.113.7');
+  });
+
+  it('counts back through extra trusted proxies', () => {
+    expect(clientIp(headers('198.51.100.10, 203.0.113.7, 10.0.0.2'), 2)).toBe('203.0.113.7');
+    expect(clientIp(headers('203.0.113.7'), 2)).toBeNull();
+  });
+
+  it('returns null without a forwarded address', () => {
+    expect(clientIp(headers())).toBeNull();
+    expect(clientIp(headers(' , '))).toBeNull();
+    expect(clientIp(new Headers({ 'cf-connecting-ip': '198.51.100.10' }))).toBeNull();
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../supabase', () => ({ supabase: {} }));
+
+import {
+  CRM_STATUS_OUT, DEFAULT_FIELD_RULES, fieldRules, statusFromCrm, resolvePull, resolvePush, describeChanges,
+  type CrmProvider,
+} from '../crmSync';
+
+describe('status mapping', () => {
+  it('round-trips every lead status through both CRMs', () => {
+    for (const provider of ['hubspot', 'salesforce'] as CrmProvider[]) {
+      for (const status of ['New', 'Contacted', 'Qualified', 'Converted', 'Lost']) {
+        expect(statusFromCrm(provider, CRM_STATUS_OUT[provider][status])).toBe(status);
+      }
+    }
+  });
+
+  it('leaves unknown CRM values alone', () => {
+    expect(statusFromCrm('hubspot', 'CUSTOM_STAGE')).toBeNull();
+    expect(statusFromCrm('salesforce', null)).toBeNull();
+  });
+});
+
+describe('fieldRules', () => {
+  it('fills defaults and ignores unknown fields or rules', () => {
+    const rules = fieldRules({ status: 'crm', company: 'bogus', nope: 'crm' });
+    expect(rules.status).toBe('crm');
+    expect(rules.company).toBe(DEFAULT_FIELD_RULES.company);
+    expect(rules).not.toHaveProperty('nope');
+  });
+});
+
+describe('resolvePull', () => {
+  const base = {
+    rules: DEFAULT_FIELD_RULES,
+    localUpdatedAt: '2026-08-20T10:00:00Z',
+    remoteUpdatedAt: '2026-08-21T10:00:00Z',
+  };
+
+  it('applies a CRM-only change and skips fields only we changed', () => {
+    const changes = resolvePull({
+      ...base,
+      local: { status: 'Contacted', company: 'Acme Ltd' },
+      remote: { status: 'Qualified', company: 'Acme' },
+      synced: { status: 'Contacted', company: 'Acme' },
+    });
+    expect(changes).toEqual([
+      { field: 'status', from: 'Contacted', to: 'Qualified', winner: 'crm', conflict: false, applied: true },
+    ]);
+  });
+
+  it('settles a two-sided change on a newest-wins field by timestamp', () => {
+    const args = {
+      ...base,
+      local: { status: 'Lost' },
+      remote: { status: 'Qualified' },
+      synced: { status: 'Contacted' },
+    };
+    expect(resolvePull(args)[0]).toMatchObject({ applied: true, winner: 'crm', conflict: true });
+    expect(resolvePull({ ...args, localUpdatedAt: '2026-08-22T10:00:00Z' })[0])
+      .toMatchObject({ applied: false, winner: 'scaliyo', conflict: true });
+  });
+
+  it('keeps our value on scaliyo fields and takes theirs on crm fields', () => {
+    const changes = resolvePull({
+      ...base,
+      local: { title: 'CTO', owner: 'a@x.com' },
+      remote: { title: 'VP Eng', owner: 'B@X.com' },
+      synced: {},
+    });
+    expect(changes.find(c => c.field === 'title')).toMatchObject({ applied: false, winner: 'scaliyo' });
+    expect(changes.find(c => c.field === 'owner')).toMatchObject({ applied: true, to: 'b@x.com' });
+  });
+
+  it('never clears a local value with an empty CRM value', () => {
+    expect(resolvePull({
+      ...base,
+      local: { primary_phone: '+1 555' },
+      remote: { primary_phone: '  ' },
+      synced: { primary_phone: '+1 555' },
+    })).toEqual([]);
+  });
+});
+
+describe('resolvePush', () => {
+  it('sends every filled field for a new record', () => {
+    const changes = resolvePush({
+      rules: DEFAULT_FIELD_RULES,
+      local: { first_name: 'Ada', last_name: null, primary_email: 'ADA@x.com', status: 'New' },
+      synced: {},
+      isNew: true,
+    });
+    expect(changes.map(c => [c.field, c.to])).toEqual([
+      ['first_name', 'Ada'], ['primary_email', 'ada@x.com'], ['status', 'New'],
+    ]);
+  });
+
+  it('sends only changed fields the CRM does not own', () => {
+    const changes = resolvePush({
+      rules: { ...DEFAULT_FIELD_RULES, company: 'crm' },
+      local: { first_name: 'Ada', company: 'New Co', status: 'Qualified' },
+      synced: { first_name: 'Ada', company: 'Old Co', status: 'New' },
+      isNew: false,
+    });
+    expect(changes.map(c => c.field)).toEqual(['status']);
+  });
+});
+
+describe('describeChanges', () => {
+  it('summarises moves, kept values and notes', () => {
+    expect(describeChanges([
+      { field: 'status', from: 'New', to: 'Qualified', winner: 'crm', conflict: true, applied: true },
+      { field: 'title', from: 'CTO', to: 'VP', winner: 'scaliyo', conflict: false, applied: false },
+      { field: 'owner', from: null, to: 'b@x.com', winner: 'crm', conflict: false, applied: false, note: 'No workspace member has this email' },
+    ])).toBe('Status New → Qualified · conflict; Job title CTO → VP (kept ours); Owner — → b@x.com (No workspace member has this email)');
+  });
+});
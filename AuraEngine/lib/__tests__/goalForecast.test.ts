@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../supabase', () => ({ supabase: {} }));
+
+import { forecastGoal, burnUpSeries, type GoalSnapshot } from '../goals';
+
+const NOW = new Date('2026-06-15T12:00:00Z').getTime();
+const daysAgo = (n: number) => new Date(NOW - n * 86_400_000).toISOString();
+const daysAhead = (n: number) => new Date(NOW + n * 86_400_000).toISOString();
+const snap = (value: number, at: string): GoalSnapshot => ({ value, target_value: 10, source: 'metric', captured_at: at });
+
+describe('goal forecast', () => {
+  it('needs a day of history before projecting', () => {
+    expect(forecastGoal({ target_value: 10, due_at: daysAhead(10) }, []).status).toBe('insufficient_data');
+    const f = forecastGoal({ target_value: 10, due_at: daysAhead(10) }, [snap(1, daysAgo(0.5)), snap(2, daysAgo(0))]);
+    expect(f.status).toBe('insufficient_data');
+    expect(f.current).toBe(2);
+  });
+
+  it('is achieved once the latest snapshot reaches the target', () => {
+    expect(forecastGoal({ target_value: 10, due_at: daysAhead(1) }, [snap(3, daysAgo(5)), snap(10, daysAgo(0))]).status)
+      .toBe('achieved');
+  });
+
+  it('uses the snapshot at least a week before the latest as the baseline', () => {
+    // 0 → 2 over the first days, then 2 → 6 over the last 7 days: 4/7 per day.
+    const f = forecastGoal({ target_value: 10, due_at: daysAhead(7) }, [
+      snap(0, daysAgo(20)), snap(2, daysAgo(7)), snap(4, daysAgo(3)), snap(6, daysAgo(0)),
+    ]);
+    expect(f.velocityPerDay).toBeCloseTo(4 / 7);
+    expect(f.projectedAtDue).toBeCloseTo(10);
+    expect(f.requiredPerDay).toBeCloseTo(4 / 7);
+    expect(f.status).toBe('on_track');
+    expect(Date.parse(f.projectedCompletionAt!)).toBeCloseTo(NOW + 7 * 86_400_000, -3);
+  });
+
+  it('flags a goal whose projection misses the target by more than 10%', () => {
+    const f = forecastGoal({ target_value: 10, due_at: daysAhead(4) }, [snap(2, daysAgo(4)), snap(4, daysAgo(0))]);
+    expect(f.velocityPerDay).toBeCloseTo(0.5);
+    expect(f.projectedAtDue).toBeCloseTo(6);
+    expect(f.status).toBe('behind');
+  });
+
+  it('never projects backwards and has no completion date when flat', () => {
+    const f = forecastGoal({ target_value: 10, due_at: null }, [snap(5, daysAgo(3)), snap(4, daysAgo(0))]);
+    expect(f.status).toBe('no_deadline');
+    expect(f.velocityPerDay).toBe(0);
+    expect(f.projectedCompletionAt).toBeNull();
+  });
+});
+
+describe('burn-up series', () => {
+  it('draws pace from creation to due and projects from the latest snapshot to due', () => {
+    const goal = { target_value: 10, created_at: daysAgo(4), due_at: daysAhead(4) };
+    const snaps = [snap(2, daysAgo(4)), snap(4, daysAgo(0))];
+    const points = burnUpSeries(goal, snaps, forecastGoal(goal, snaps));
+    const last = points[points.length - 1];
+    expect(last.t).toBe(Date.parse(goal.due_at));
+    expect(last.pace).toBe(10);
+    expect(last.projected).toBeCloseTo(6);
+    const now = points.find((p) => p.t === NOW)!;
+    expect(now.actual).toBe(4);
+    expect(now.projected).toBe(4);
+    expect(now.pace).toBeCloseTo(5);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../supabase', () => ({ supabase: {} }));
+
+import {
+  describeIntentActions, summarizeThreads, mergeThreadMessages, effectiveStatus, threadContactName, activeTeammates,
+  type IntentAction, type InboundEmail, type OutboundEmail, type ThreadPresence,
+} from '../inbox';
+
+describe('describeIntentActions', () => {
+  it('renders one line per recorded action', () => {
+    const actions: IntentAction[] = [
+      { action: 'status', status: 'Qualified' },
+      { action: 'task' },
+      { action: 'suppressed', reason: 'bounce' },
+      { action: 'suppressed', reason: 'unsub' },
+    ];
+    expect(describeIntentActions(actions)).toEqual([
+      'Lead moved to Qualified',
+      'Follow-up task created',
+      'Address suppressed (bounced)',
+      'Address suppressed (unsubscribed)',
+    ]);
+  });
+
+  it('counts held steps for an out-of-office reschedule', () => {
+    const [one] = describeIntentActions([{ action: 'rescheduled', until: '2026-11-03T12:00:00Z', items: 1 }]);
+    const [many] = describeIntentActions([{ action: 'rescheduled', until: '2026-11-03T12:00:00Z', items: 3 }]);
+    expect(one).toMatch(/^1 pending step held until /);
+    expect(many).toMatch(/^3 pending steps held until /);
+  });
+
+  it('treats a missing action list as empty', () => {
+    expect(describeIntentActions(null)).toEqual([]);
+    expect(describeIntentActions(undefined)).toEqual([]);
+  });
+});
+
+describe('threads', () => {
+  const thread = {
+    id: 't1', workspace_id: 'w', lead_id: null, subject: 'Quick question', status: 'open' as const,
+    snoozed_until: null, assigned_to: null, last_message_at: '2026-10-20T12:00:00Z', leads: null,
+  };
+  const reply = (received_at: string, over: Partial<InboundEmail> = {}): InboundEmail => ({
+    id: received_at, lead_id: null, from_email: 'ana@acme.io', from_name: 'Ana', to_email: 'sdr@us.io',
+    subject: 'Re: Quick question', body_text: 'hi', body_html: null, message_id: null, received_at,
+    is_read: true, intent: null, intent_confidence: null, intent_source: null, ooo_return_date: null,
+    referral_email: null, intent_actions: [], leads: null, ...over,
+  });
+
+  it('summarizes unread count and the latest classified intent per thread', () => {
+    const [t] = summarizeThreads([thread], [
+      { ...reply('2026-10-18T09:00:00Z', { intent: 'out_of_office' }), thread_id: 't1' },
+      { ...reply('2026-10-20T09:00:00Z', { is_read: false, from_name: 'Ana Ruiz' }), thread_id: 't1' },
+      { ...reply('2026-10-19T09:00:00Z', { intent: 'interested', is_read: false }), thread_id: 't1' },
+      { ...reply('2026-10-19T09:00:00Z', { intent: 'bounce' }), thread_id: 'other' },
+    ]);
+    expect(t.unread).toBe(2);
+    expect(t.replies).toBe(3);
+    expect(t.latestIntent).toBe('interested');
+    expect(t.contactName).toBe('Ana Ruiz');
+    expect(threadContactName(t)).toBe('Ana Ruiz');
+  });
+
+  it('interleaves replies and sends oldest first', () => {
+    const out: OutboundEmail = {
+      id: 'o1', from_email: 'sdr@us.io', to_email: 'ana@acme.io', subject: 'Quick question',
+      body_html: '<p>hello</p>', status: 'sent', sent_by: 'u1', created_at: '2026-10-19T10:00:00Z',
+    };
+    const merged = mergeThreadMessages([reply('2026-10-20T09:00:00Z'), reply('2026-10-18T09:00:00Z')], [out]);
+    expect(merged.map(m => m.kind)).toEqual(['inbound', 'outbound', 'inbound']);
+  });
+
+  it('treats an expired snooze as open', () => {
+    const now = new Date('2026-10-20T12:00:00Z');
+    expect(effectiveStatus({ status: 'snoozed', snoozed_until: '2026-10-20T11:00:00Z' }, now)).toBe('open');
+    expect(effectiveStatus({ status: 'snoozed', snoozed_until: '2026-10-21T11:00:00Z' }, now)).toBe('snoozed');
+    expect(effectiveStatus({ status: 'done', snoozed_until: null }, now)).toBe('done');
+  });
+});
+
+describe('activeTeammates', () => {
+  const now = new Date('2026-10-20T12:00:00Z');
+  const at = (secondsAgo: number) => new Date(now.getTime() - secondsAgo * 1000).toISOString();
+
+  it('drops me and stale heartbeats, and lists repliers first', () => {
+    const rows: ThreadPresence[] = [
+      { user_id: 'me', state: 'replying', seen_at: at(1) },
+      { user_id: 'bo', state: 'viewing', seen_at: at(5) },
+      { user_id: 'cy', state: 'replying', seen_at: at(10) },
+      { user_id: 'di', state: 'replying', seen_at: at(120) },
+    ];
+    expect(activeTeammates(rows, 'me', now).map(r => r.user_id)).toEqual(['cy', 'bo']);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateCondition,
+  describeCondition,
+  legacyConditionGroup,
+  conditionNeeds,
+  validateCondition,
+  type ConditionGroup,
+} from '../leadConditions';
+import type { Lead } from '../../types';
+
+const NOW = new Date('2026-06-15T12:00:00Z').getTime();
+const daysAgo = (n: number) => new Date(NOW - n * 86_400_000).toISOString();
+
+const lead = {
+  id: 'lead-1',
+  first_name: 'Jane',
+  last_name: 'Doe',
+  primary_email: 'jane@acme.com',
+  company: 'Acme Corp',
+  score: 72,
+  status: 'Contacted',
+  industry: 'SaaS',
+  tags: ['VIP', 'Nurture'],
+  created_at: daysAgo(20),
+  last_activity: daysAgo(2),
+  custom_fields: { plan: 'Enterprise', seats: '40' },
+} as unknown as Lead;
+
+const all = (...rules: ConditionGroup['rules']): ConditionGroup => ({ combinator: 'and', rules });
+const any = (...rules: ConditionGroup['rules']): ConditionGroup => ({ combinator: 'or', rules });
+
+describe('evaluateCondition', () => {
+  it('empty group matches every lead', () => {
+    expect(evaluateCondition(all(), lead)).toBe(true);
+  });
+
+  it('compares numbers and text', () => {
+    expect(evaluateCondition(all({ field: 'score', operator: 'gt', value: 70 }), lead)).toBe(true);
+    expect(evaluateCondition(all({ field: 'score', operator: 'between', value: 50, valueTo: 70 }), lead)).toBe(false);
+    expect(evaluateCondition(all({ field: 'status', operator: 'eq', value: 'contacted' }), lead)).toBe(true);
+    expect(evaluateCondition(all({ field: 'company', operator: 'contains', value: 'acme' }), lead)).toBe(true);
+  });
+
+  it('handles in / not_in against scalars and lists', () => {
+    expect(evaluateCondition(all({ field: 'industry', operator: 'in', value: 'Fintech, SaaS' }), lead)).toBe(true);
+    expect(evaluateCondition(all({ field: 'tags', operator: 'in', value: ['vip'] }), lead)).toBe(true);
+    expect(evaluateCondition(all({ field: 'tags', operator: 'not_contains', value: 'Nurture' }), lead)).toBe(false);
+  });
+
+  it('treats missing values as absent', () => {
+    expect(evaluateCondition(all({ field: 'location', operator: 'exists' }), lead)).toBe(false);
+    expect(evaluateCondition(all({ field: 'location', operator: 'neq', value: 'Berlin' }), lead)).toBe(true);
+    expect(evaluateCondition(all({ field: 'location', operator: 'eq', value: 'Berlin' }), lead)).toBe(false);
+  });
+
+  it('supports date-relative comparisons', () => {
+    const ctx = { now: NOW };
+    expect(evaluateCondition(all({ field: 'created_at', operator: 'older_than_days', value: 14 }), lead, ctx)).toBe(true);
+    expect(evaluateCondition(all({ field: 'last_activity', operator: 'within_days', value: 7 }), lead, ctx)).toBe(true);
+    expect(evaluateCondition(all({ field: 'created_at', operator: 'within_days', value: 7 }), lead, ctx)).toBe(false);
+  });
+
+  it('reads custom fields, score breakdowns and email engagement', () => {
+    const ctx = {
+      scores: { intent_score: 18 },
+      engagement: { hasSent: true, hasOpened: true, hasClicked: false, openCount: 3, lastOpenedAt: null, lastClickedAt: null },
+    };
+    expect(evaluateCondition(all({ field: 'custom_fields.plan', operator: 'eq', value: 'enterprise' }), lead)).toBe(true);
+    expect(evaluateCondition(all({ field: 'custom_fields.seats', operator: 'gte', value: 25 }), lead)).toBe(true);
+    expect(evaluateCondition(all({ field: 'lead_scores.intent_score', operator: 'gt', value: 15 }), lead, ctx)).toBe(true);
+    expect(evaluateCondition(all({ field: 'email.clicked', operator: 'eq', value: true }), lead, ctx)).toBe(false);
+    expect(evaluateCondition(all({ field: 'email.open_count', operator: 'gte', value: 2 }), lead, ctx)).toBe(true);
+    // No engagement loaded → never emailed.
+    expect(evaluateCondition(all({ field: 'email.sent', operator: 'eq', value: true }), lead)).toBe(false);
+  });
+
+  it('nests AND / OR groups', () => {
+    const expr = all(
+      { field: 'score', operator: 'gte', value: 50 },
+      any(
+        { field: 'status', operator: 'eq', value: 'Qualified' },
+        { field: 'tags', operator: 'contains', value: 'VIP' },
+      ),
+    );
+    expect(evaluateCondition(expr, lead)).toBe(true);
+    expect(evaluateCondition(expr, { ...lead, tags: [] } as Lead)).toBe(false);
+  });
+});
+
+describe('legacyConditionGroup', () => {
+  it('wraps the old single comparison', () => {
+    const group = legacyConditionGroup({ field: 'score', operator: 'gt', value: 50 });
+    expect(group).toEqual(all({ field: 'score', operator: 'gt', value: 50 }));
+    expect(evaluateCondition(group, lead)).toBe(true);
+  });
+
+  it('maps the old email fields onto engagement', () => {
+    const group = legacyConditionGroup({ field: 'email_opened', operator: 'gt', value: 0 });
+    expect(group.rules[0]).toEqual({ field: 'email.opened', operator: 'eq', value: true });
+    expect(conditionNeeds(group)).toEqual({ scores: false, engagement: true });
+  });
+});
+
+describe('describeCondition / validateCondition', () => {
+  it('renders nested groups readably', () => {
+    const text = describeCondition(all(
+      { field: 'score', operator: 'gte', value: 50 },
+      any({ field: 'status', operator: 'eq', value: 'Qualified' }, { field: 'email.opened', operator: 'eq', value: true }),
+    ));
+    expect(text).toBe('Lead Score at least 50 AND (Status is Qualified OR Opened (30d) is true)');
+  });
+
+  it('flags unusable rules', () => {
+    expect(validateCondition(all({ field: 'score', operator: 'contains', value: '5' }))).toHaveLength(1);
+    expect(validateCondition(all({ field: 'company', operator: 'eq', value: '' }))).toHaveLength(1);
+    expect(validateCondition(all({ field: 'score', operator: 'between', value: 80, valueTo: 20 }))).toHaveLength(1);
+    expect(validateCondition(all({ field: 'custom_fields.plan', operator: 'exists' }))).toEqual([]);
+  });
+});
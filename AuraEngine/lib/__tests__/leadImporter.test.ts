@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const rpc = vi.fn();
+const range = vi.fn();
+vi.mock('../supabase', () => {
+  const query = { select: () => query, eq: () => query, order: () => query, range: (...args: unknown[]) => range(...args) };
+  return { supabase: { rpc: (...args: unknown[]) => rpc(...args), from: () => query } };
+});
+
+import { executeImport, buildImportDiff, describeFieldChanges, getImportDiff, type ImportChange } from '../leadImporter';
+
+const change = (row_number: number, action: ImportChange['action'], extra: Partial<ImportChange> = {}): ImportChange => ({
+  row_number, action, reason: null, identifier: null, lead_id: null,
+  changed_fields: [], before: null, after: null, ...extra,
+});
+
+describe('executeImport', () => {
+  beforeEach(() => {
+    rpc.mockReset();
+    rpc.mockImplementation((_fn: string, args: { p_rows: unknown[]; p_options: { row_offset: number } }) => Promise.resolve({
+      data: {
+        batch_id: 'batch-1',
+        imported_count: args.p_rows.length,
+        updated_count: 0,
+        skipped_count: 1,
+        skipped_rows: [{ row: args.p_options.row_offset + 1, reason: 'duplicate' }],
+        plan_limit: 10000,
+        contacts_before: args.p_options.row_offset,
+        contacts_after: args.p_options.row_offset + args.p_rows.length,
+      },
+      error: null,
+    }));
+  });
+
+  it('sends every chunk of a file to the batch the first chunk opened', async () => {
+    const rows = Array.from({ length: 1200 }, (_, i) => ({ email: `p${i}@x.com` }));
+    const res = await executeImport('ws', { email: 'primary_email' }, rows, { dedupe_strategy: 'merge', plan_name: 'Growth' }, 'big.csv', 'csv');
+
+    expect(rpc).toHaveBeenCalledTimes(3);
+    const opts = rpc.mock.calls.map(([, a]) => a.p_options);
+    expect(opts.map(o => o.batch_id)).toEqual([undefined, 'batch-1', 'batch-1']);
+    expect(opts.map(o => o.row_offset)).toEqual([0, 500, 1000]);
+    expect(opts.map(o => o.final)).toEqual([false, false, true]);
+    expect(rpc.mock.calls.every(([, a]) => a.p_file_name === 'big.csv')).toBe(true);
+
+    expect(res.batch_id).toBe('batch-1');
+    expect(res.imported_count).toBe(1200);
+    expect(res.skipped_rows.map(r => r.row)).toEqual([1, 501, 1001]);
+    expect(res.contacts_before).toBe(0);
+    expect(res.contacts_after).toBe(1200);
+  });
+
+  it('closes the batch and returns what landed when a later chunk fails', async () => {
+    const ok = rpc.getMockImplementation()!;
+    rpc.mockImplementation((fn: string, args: { p_options?: { row_offset: number } }) =>
+      fn === 'import_leads_batch' && args.p_options?.row_offset === 500
+        ? Promise.resolve({ data: null, error: { message: 'statement timeout' } })
+        : fn === 'fail_import_batch' ? Promise.resolve({ data: null, error: null }) : ok(fn, args));
+    const rows = Array.from({ length: 1200 }, (_, i) => ({ email: `p${i}@x.com` }));
+    const res = await executeImport('ws', { email: 'primary_email' }, rows, { dedupe_strategy: 'merge', plan_name: 'Growth' }, 'big.csv', 'csv');
+
+    expect(rpc.mock.calls.map(([fn]) => fn)).toEqual(['import_leads_batch', 'import_leads_batch', 'fail_import_batch']);
+    expect(rpc.mock.calls[2][1]).toEqual({ p_batch_id: 'batch-1', p_error: 'statement timeout' });
+    expect(res.batch_id).toBe('batch-1');
+    expect(res.imported_count).toBe(500);
+    expect(res.error).toBe('Stopped at row 501 of 1200: statement timeout');
+  });
+
+  it('reports in the result when the failed batch could not be closed', async () => {
+    const ok = rpc.getMockImplementation()!;
+    rpc.mockImplementation((fn: string, args: { p_options?: { row_offset: number } }) =>
+      fn === 'import_leads_batch' && args.p_options?.row_offset === 500
+        ? Promise.resolve({ data: null, error: { message: 'statement timeout' } })
+        : fn === 'fail_import_batch' ? Promise.resolve({ data: null, error: { message: 'network error' } }) : ok(fn, args));
+    const rows = Array.from({ length: 700 }, (_, i) => ({ email: `p${i}@x.com` }));
+    const res = await executeImport('ws', { email: 'primary_email' }, rows, { dedupe_strategy: 'merge', plan_name: 'Growth' }, 'big.csv', 'csv');
+
+    expect(res.error).toBe('Stopped at row 501 of 700: statement timeout (the batch could not be marked failed: network error)');
+  });
+
+  it('throws when the first chunk fails, as no batch was opened', async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: 'permission denied' } });
+    await expect(executeImport('ws', {}, [{ a: '1' }], { dedupe_strategy: 'skip', plan_name: 'Starter' }, 'small.csv', 'csv'))
+      .rejects.toThrow('permission denied');
+    expect(rpc).toHaveBeenCalledTimes(1);
+  });
+
+  it('imports a small file in one final call', async () => {
+    await executeImport('ws', {}, [{ a: '1' }], { dedupe_strategy: 'skip', plan_name: 'Starter' }, 'small.csv', 'csv');
+    expect(rpc).toHaveBeenCalledTimes(1);
+    expect(rpc.mock.calls[0][1].p_options).toMatchObject({ row_offset: 0, total_rows: 1, final: true });
+  });
+});
+
+describe('import diff report', () => {
+  it('groups rows by outcome in file order and counts skip reasons', () => {
+    const report = buildImportDiff([
+      change(4, 'skipped', { reason: 'plan_limit' }),
+      change(2, 'updated', { lead_id: 'l2' }),
+      change(1, 'created', { lead_id: 'l1' }),
+      change(3, 'skipped', { reason: 'duplicate' }),
+      change(5, 'skipped', { reason: 'plan_limit' }),
+    ]);
+    expect(report.created.map(c => c.row_number)).toEqual([1]);
+    expect(report.updated.map(c => c.row_number)).toEqual([2]);
+    expect(report.skipped.map(c => c.row_number)).toEqual([3, 4, 5]);
+    expect(report.skipReasons).toEqual([{ reason: 'plan_limit', count: 2 }, { reason: 'duplicate', count: 1 }]);
+  });
+
+  it('reads every page of a batch past the 1000-row response cap', async () => {
+    const rows = Array.from({ length: 2500 }, (_, i) => change(i + 1, 'created', { lead_id: `l${i + 1}` }));
+    range.mockReset();
+    range.mockImplementation((from: number, to: number) => Promise.resolve({ data: rows.slice(from, to + 1), error: null }));
+
+    const report = await getImportDiff('batch-1');
+    expect(range.mock.calls).toEqual([[0, 999], [1000, 1999], [2000, 2999]]);
+    expect(report.created).toHaveLength(2500);
+  });
+
+  it('describes each overwritten field with its old and new value', () => {
+    const lines = describeFieldChanges(change(2, 'updated', {
+      changed_fields: ['title', 'emails', 'company'],
+      before: { title: 'CTO', emails: ['a@x.com'], company: null },
+      after: { title: 'VP Engineering', emails: ['a@x.com', 'b@x.com'], company: 'Acme' },
+    }));
+    expect(lines).toEqual([
+      'title: CTO → VP Engineering',
+      'emails: a@x.com → a@x.com, b@x.com',
+      'company: — → Acme',
+    ]);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { deliverySpread, leadZone, nextSendTime, zonedParts, type SendSchedule } from '../leadTimezone';
+
+const window9to17: SendSchedule = {
+  bestTime: false,
+  window: { start: 9, end: 17, weekdaysOnly: false, timezone: 'America/New_York' },
+  leadLocalTime: true,
+};
+
+// Tuesday 2026-10-20 12:00 UTC: 08:00 in New York, 13:00 in London, 21:00 in Tokyo.
+const FROM = new Date('2026-10-20T12:00:00Z');
+
+describe('zonedParts', () => {
+  it('reads hour and weekday in the zone and falls back to UTC for unknown zones', () => {
+    expect(zonedParts('Asia/Tokyo', FROM)).toEqual({ hour: 21, weekday: 'Tue' });
+    expect(zonedParts('Not/AZone', FROM)).toEqual({ hour: 12, weekday: 'Tue' });
+  });
+});
+
+describe('leadZone', () => {
+  it('prefers the manual override over the inferred zone', () => {
+    expect(leadZone({ timezone: 'Europe/Paris', inferred_timezone: 'Asia/Tokyo' })).toBe('Europe/Paris');
+    expect(leadZone({ timezone: null, inferred_timezone: 'Asia/Tokyo' })).toBe('Asia/Tokyo');
+    expect(leadZone({})).toBeNull();
+  });
+});
+
+describe('nextSendTime', () => {
+  it('opens the window in the lead zone, and in the campaign zone for unplaced leads', () => {
+    expect(nextSendTime(window9to17, 'Europe/London', FROM)).toEqual(FROM);
+    expect(nextSendTime(window9to17, 'Asia/Tokyo', FROM)).toEqual(new Date('2026-10-21T00:00:00Z'));
+    expect(nextSendTime(window9to17, null, FROM)).toEqual(new Date('2026-10-20T13:00:00Z'));
+  });
+
+  it('uses the campaign zone for everyone when lead-local time is off', () => {
+    expect(nextSendTime({ ...window9to17, leadLocalTime: false }, 'Europe/London', FROM)).toEqual(new Date('2026-10-20T13:00:00Z'));
+  });
+
+  it('lines up with half-hour zones', () => {
+    expect(nextSendTime(window9to17, 'Asia/Kolkata', FROM)).toEqual(new Date('2026-10-21T03:30:00Z'));
+  });
+
+  it('targets the default best hour locally, or 14 UTC for unplaced leads', () => {
+    const best: SendSchedule = { bestTime: true, window: null, leadLocalTime: true };
+    expect(nextSendTime(best, 'America/New_York', FROM)).toEqual(new Date('2026-10-20T14:00:00Z'));
+    expect(nextSendTime(best, null, FROM)).toEqual(new Date('2026-10-20T14:00:00Z'));
+    expect(nextSendTime(best, 'Asia/Tokyo', FROM)).toEqual(new Date('2026-10-21T01:00:00Z'));
+  });
+
+  it('skips weekends in the lead zone', () => {
+    const saturday = new Date('2026-10-24T12:00:00Z');
+    const weekdays = { ...window9to17, window: { ...window9to17.window!, weekdaysOnly: true } };
+    expect(nextSendTime(weekdays, 'Europe/London', saturday)).toEqual(new Date('2026-10-26T09:00:00Z'));
+  });
+});
+
+describe('deliverySpread', () => {
+  it('buckets leads by send hour in the viewer zone and counts unplaced leads', () => {
+    const spread = deliverySpread(
+      [{ timezone: 'Europe/London' }, { timezone: 'Europe/London' }, { timezone: 'Asia/Tokyo' }, { timezone: null }],
+      window9to17, 'UTC', FROM,
+    );
+    expect(spread.hours[12]).toBe(2);
+    expect(spread.hours[0]).toBe(1);
+    expect(spread.hours[13]).toBe(1);
+    expect(spread.now).toBe(2);
+    expect(spread.unplaced).toBe(1);
+    expect(spread.zones[0]).toMatchObject({ zone: 'Europe/London', count: 2, timedIn: 'Europe/London', localHour: 13 });
+    expect(spread.zones.find(z => z.zone === null)).toMatchObject({ timedIn: 'America/New_York', localHour: 9 });
+  });
+});
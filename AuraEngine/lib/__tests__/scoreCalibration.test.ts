@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../supabase', () => ({ supabase: {} }));
+
+import { buildCalibrationReport, snapshotAt, suggestWeights, type CalibrationSample } from '../scoreCalibration';
+import { DEFAULT_SCORE_WEIGHTS, SCORE_CATEGORIES } from '../scoringProfiles';
+
+const sample = (i: number, won: boolean, totalScore: number, intent: number): CalibrationSample => ({
+  dealId: `d${i}`,
+  leadId: `l${i}`,
+  won,
+  totalScore,
+  // Intent separates won from lost; fit is the same for everyone.
+  subScores: { fit: 20, intent, engagement: won ? 12 : 10, data_quality: 10, deliverability: 5, urgency: i % 10 },
+  approximate: false,
+});
+
+const samples: CalibrationSample[] = [
+  ...Array.from({ length: 12 }, (_, i) => sample(i, true, 70 + i, 15 + (i % 5))),
+  ...Array.from({ length: 12 }, (_, i) => sample(100 + i, false, 25 + i, i % 5)),
+];
+
+describe('snapshotAt', () => {
+  const snaps = [{ recorded_at: '2026-01-01T00:00:00Z' }, { recorded_at: '2026-02-01T00:00:00Z' }];
+
+  it('takes the latest snapshot at or before the deal, else the earliest as approximate', () => {
+    expect(snapshotAt(snaps, Date.parse('2026-01-15T00:00:00Z'))).toEqual({ snap: snaps[0], approximate: false });
+    expect(snapshotAt(snaps, Date.parse('2026-03-01T00:00:00Z'))).toEqual({ snap: snaps[1], approximate: false });
+    expect(snapshotAt(snaps, Date.parse('2025-12-01T00:00:00Z'))).toEqual({ snap: snaps[0], approximate: true });
+    expect(snapshotAt([], 0)).toBeNull();
+  });
+});
+
+describe('buildCalibrationReport', () => {
+  it('buckets deals by score and measures win rate per band', () => {
+    const report = buildCalibrationReport(samples, DEFAULT_SCORE_WEIGHTS);
+    expect(report).toMatchObject({ deals: 24, won: 12, lost: 12, winRate: 0.5, enoughData: true });
+    const rates = Object.fromEntries(report.buckets.map(b => [b.label, [b.deals, b.winRate]]));
+    expect(rates['20–39']).toEqual([12, 0]);
+    expect(rates['60–79']).toEqual([10, 1]);
+    expect(rates['80–100']).toEqual([2, 1]);
+    expect(rates['0–19']).toEqual([0, null]);
+  });
+
+  it('ranks predictive sub-scores and shifts weight toward them', () => {
+    const report = buildCalibrationReport(samples, DEFAULT_SCORE_WEIGHTS);
+    const byKey = Object.fromEntries(report.signals.map(s => [s.category, s]));
+    expect(byKey.intent.correlation).toBeGreaterThan(0.8);
+    expect(byKey.fit.correlation).toBeNull();
+
+    const w = report.suggestedWeights!;
+    expect(SCORE_CATEGORIES.reduce((sum, c) => sum + w[c.key], 0)).toBe(100);
+    expect(w.intent).toBeGreaterThan(DEFAULT_SCORE_WEIGHTS.intent);
+    expect(w.fit).toBeLessThan(DEFAULT_SCORE_WEIGHTS.fit);
+  });
+
+  it('withholds suggestions until both outcomes have enough deals', () => {
+    const report = buildCalibrationReport(samples.filter(s => s.won || s.dealId === 'd100'), DEFAULT_SCORE_WEIGHTS);
+    expect(report.enoughData).toBe(false);
+    expect(report.suggestedWeights).toBeNull();
+  });
+
+  it('suggests nothing when no sub-score correlates with winning', () => {
+    const flat = SCORE_CATEGORIES.map(c => ({ category: c.key, label: c.label, avgWon: 0, avgLost: 0, correlation: -0.2 }));
+    expect(suggestWeights(flat, DEFAULT_SCORE_WEIGHTS)).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../supabase', () => ({ supabase: {} }));
+
+import { computeScore, decayFactor, INTENT_HALF_LIFE_DAYS } from '../leadScoring';
+import { scoreChange, type ScoreSnapshot } from '../scoreHistory';
+import type { Lead } from '../../types';
+
+const NOW = new Date('2026-06-15T12:00:00Z').getTime();
+const daysAgo = (n: number) => new Date(NOW - n * 86_400_000).toISOString();
+
+const lead = { id: 'lead-1', primary_email: 'jane@acme.com', created_at: daysAgo(60) } as unknown as Lead;
+
+const clicked = (daysSinceClick: number) => ({
+  validation: null,
+  engagement: {
+    hasSent: true, hasOpened: true, hasClicked: true, openCount: 1,
+    lastOpenedAt: daysAgo(daysSinceClick), lastClickedAt: daysAgo(daysSinceClick),
+  },
+  suppressed: false,
+});
+
+describe('score decay', () => {
+  beforeEach(() => { vi.useFakeTimers(); vi.setSystemTime(NOW); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('halves a signal every half-life and counts unknown ages in full', () => {
+    expect(decayFactor(0, 7)).toBe(1);
+    expect(decayFactor(7, 7)).toBe(0.5);
+    expect(decayFactor(14, 7)).toBe(0.25);
+    expect(decayFactor(null, 7)).toBe(1);
+  });
+
+  it('cools intent and engagement as the last click ages', () => {
+    const fresh = computeScore(lead, clicked(0));
+    const week = computeScore(lead, clicked(INTENT_HALF_LIFE_DAYS));
+    const stale = computeScore(lead, clicked(28));
+
+    expect(fresh.intent_score).toBe(18);
+    expect(week.intent_score).toBe(9);
+    expect(stale.intent_score).toBe(1);
+    expect(stale.engagement_score).toBeLessThan(fresh.engagement_score);
+    expect(fresh.reason_summary).toContain('clicked a recent email');
+    expect(stale.reason_summary).toContain('last click 28d ago — cooling off');
+  });
+});
+
+describe('scoreChange', () => {
+  const snap = (totalScore: number, day: number): ScoreSnapshot =>
+    ({ leadId: 'lead-1', totalScore, intentScore: 0, engagementScore: 0, recordedAt: daysAgo(day) });
+
+  it('compares the latest score with the one in effect at the window start', () => {
+    const history = [snap(40, 20), snap(55, 10), snap(70, 3), snap(62, 1)];
+    expect(scoreChange(history, NOW - 7 * 86_400_000)).toBe(7);
+    expect(scoreChange(history, NOW - 30 * 86_400_000)).toBe(22);
+  });
+
+  it('uses the first snapshot when the lead was scored inside the window', () => {
+    expect(scoreChange([snap(30, 2), snap(45, 1)], NOW - 7 * 86_400_000)).toBe(15);
+    expect(scoreChange([], NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../supabase', () => ({ supabase: {} }));
+
+import { computeScore } from '../leadScoring';
+import {
+  DEFAULT_SCORE_WEIGHTS,
+  DEFAULT_SCORING_MODEL,
+  matchScoringRules,
+  validateScoringProfile,
+  type ScoringModel,
+  type ScoringRule,
+} from '../scoringProfiles';
+import type { Lead } from '../../types';
+
+const lead = {
+  id: 'lead-1',
+  first_name: 'Jane',
+  last_name: 'Doe',
+  primary_email: 'jane@acme.com',
+  company: 'Acme Corp',
+  title: 'VP of Sales',
+  industry: 'Fintech',
+  created_at: '2020-01-01T00:00:00Z',
+} as unknown as Lead;
+
+const inputs = {
+  validation: { status: 'valid' },
+  engagement: { hasSent: true, hasOpened: true, hasClicked: false, openCount: 1, lastOpenedAt: null, lastClickedAt: null },
+  suppressed: false,
+};
+
+const industryRule: ScoringRule = {
+  id: 'r1', label: 'Target industry', points: 10,
+  condition: { combinator: 'and', rules: [{ field: 'industry', operator: 'in', value: 'SaaS, Fintech' }] },
+};
+const titleRule: ScoringRule = {
+  id: 'r2', label: '', points: 8,
+  condition: { combinator: 'and', rules: [{ field: 'title', operator: 'matches', value: 'vp|director' }] },
+};
+
+describe('computeScore with a scoring profile', () => {
+  it('scales each category to its weight and adds matched rule points', () => {
+    const base = computeScore(lead, inputs);
+    const model: ScoringModel = {
+      id: 'p1',
+      weights: { ...DEFAULT_SCORE_WEIGHTS, fit: 50, urgency: 0 },
+      rules: [industryRule, titleRule],
+    };
+    const scored = computeScore(lead, inputs, model);
+
+    expect(scored.fit_score).toBe(base.fit_score * 2);
+    expect(scored.urgency_score).toBe(0);
+    expect(scored.total_score).toBe(Math.min(100, base.total_score + base.fit_score - base.urgency_score + 18));
+    expect(scored.profile_id).toBe('p1');
+    expect(scored.reason_summary).toContain('Target industry (+10)');
+    expect(base.profile_id).toBeNull();
+  });
+
+  it('default model reproduces the fixed formula', () => {
+    expect(computeScore(lead, inputs, DEFAULT_SCORING_MODEL)).toEqual(computeScore(lead, inputs));
+  });
+});
+
+describe('matchScoringRules', () => {
+  it('matches case-insensitive patterns and never matches an empty condition', () => {
+    const empty: ScoringRule = { id: 'r3', label: 'Empty', points: 5, condition: { combinator: 'and', rules: [] } };
+    const matches = matchScoringRules([industryRule, titleRule, empty], lead, null);
+    expect(matches.map(m => m.ruleId)).toEqual(['r1', 'r2']);
+    expect(matches[1].label).toBe('Job Title matches pattern vp|director');
+  });
+});
+
+describe('validateScoringProfile', () => {
+  it('rejects score-dependent rules, bad points and all-zero weights', () => {
+    const zero = Object.fromEntries(Object.keys(DEFAULT_SCORE_WEIGHTS).map(k => [k, 0])) as typeof DEFAULT_SCORE_WEIGHTS;
+    const errors = validateScoringProfile({
+      name: ' ',
+      weights: zero,
+      rules: [
+        { ...industryRule, points: 0 },
+        { id: 'r4', label: 'Loop', points: 5, condition: { combinator: 'and', rules: [{ field: 'score', operator: 'gt', value: 50 }] } },
+      ],
+    });
+    expect(errors).toEqual([
+      'Name is required',
+      'At least one category needs a weight above 0',
+      'Target industry: points must be non-zero and within ±50',
+      "Loop: rules can't depend on the score itself",
+    ]);
+    expect(validateScoringProfile({ name: 'ICP', weights: DEFAULT_SCORE_WEIGHTS, rules: [industryRule, titleRule] })).toEqual([]);
+  });
+});
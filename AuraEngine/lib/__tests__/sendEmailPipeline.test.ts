@@ -129,8 +129,7 @@ describe('send_email pipeline — end to end', () => {
       },
       {
         id: 'n2', type: 'action', title: 'Send welcome email',
-        description: 'Send email', config: {
-          actionType: 'send_email',
+        description: 'Send email', actionType: 'send_email', config: {
           template: 'welcome',
           aiPersonalization: false,
           timing: 'immediate',
@@ -167,6 +166,26 @@ describe('send_email pipeline — end to end', () => {
     expect(mockGeneratePersonalizedEmail).not.toHaveBeenCalled();
   });
 
+  it('never infers the action from the node title', async () => {
+    const nodes: WorkflowNode[] = [
+      {
+        id: 'n1', type: 'trigger', title: 'Lead created',
+        description: 'Trigger', config: { triggerType: 'lead_created' },
+      },
+      {
+        id: 'n2', type: 'action', title: 'Send welcome email',
+        description: 'No type chosen', config: { template: 'welcome' },
+      },
+    ];
+
+    const results = await executeWorkflow(buildWorkflow(nodes), [testLead]);
+
+    expect(results[0].status).toBe('failed');
+    expect(results[0].steps[1].status).toBe('fail');
+    expect(results[0].steps[1].message).toContain('no action type');
+    expect(mockSendTrackedEmail).not.toHaveBeenCalled();
+  });
+
   it('sends email with AI personalization enabled', async () => {
     const nodes: WorkflowNode[] = [
       {
@@ -175,8 +194,7 @@ describe('send_email pipeline — end to end', () => {
       },
       {
         id: 'n2', type: 'action', title: 'Send AI email',
-        description: 'Send email', config: {
-          actionType: 'send_email',
+        description: 'Send email', actionType: 'send_email', config: {
           template: 'welcome',
           aiPersonalization: true,
           timing: 'immediate',
@@ -210,8 +228,7 @@ describe('send_email pipeline — end to end', () => {
       },
       {
         id: 'n2', type: 'action', title: 'Send morning email',
-        description: 'Send email', config: {
-          actionType: 'send_email',
+        description: 'Send email', actionType: 'send_email', config: {
           template: 'welcome',
           aiPersonalization: false,
           timing: 'morning',
@@ -244,8 +261,7 @@ describe('send_email pipeline — end to end', () => {
       },
       {
         id: 'n2', type: 'action', title: 'Custom email',
-        description: 'Send email', config: {
-          actionType: 'send_email',
+        description: 'Send email', actionType: 'send_email', config: {
           template: '__custom__',
           customSubject: 'Hey {{first_name}}, let us talk about {{company}}',
           customBody: '<p>Hi {{first_name}}, I saw {{company}} is growing fast.</p>',
@@ -274,8 +290,7 @@ describe('send_email pipeline — end to end', () => {
       },
       {
         id: 'n2', type: 'action', title: 'Send email',
-        description: 'Send email', config: {
-          actionType: 'send_email',
+        description: 'Send email', actionType: 'send_email', config: {
           template: 'welcome',
           aiPersonalization: false,
           timing: 'immediate',
@@ -302,8 +317,7 @@ describe('send_email pipeline — end to end', () => {
       },
       {
         id: 'n2', type: 'action', title: 'Send email',
-        description: 'Send email', config: {
-          actionType: 'send_email',
+        description: 'Send email', actionType: 'send_email', config: {
           template: 'welcome',
           aiPersonalization: false,
           timing: 'immediate',
@@ -341,8 +355,7 @@ describe('send_email pipeline — end to end', () => {
       },
       {
         id: 'n2', type: 'action', title: 'Send email',
-        description: 'Send email', config: {
-          actionType: 'send_email',
+        description: 'Send email', actionType: 'send_email', config: {
           template: 'welcome',
           aiPersonalization: false,
           timing: 'immediate',
@@ -372,8 +385,7 @@ describe('send_email pipeline — end to end', () => {
       },
       {
         id: 'n2', type: 'action', title: 'Send email',
-        description: 'Send email', config: {
-          actionType: 'send_email',
+        description: 'Send email', actionType: 'send_email', config: {
           template: 'welcome',
           aiPersonalization: false,
           timing: 'immediate',
@@ -398,8 +410,7 @@ describe('send_email pipeline — end to end', () => {
       },
       {
         id: 'n2', type: 'action', title: 'Send email',
-        description: 'Send email', config: {
-          actionType: 'send_email',
+        description: 'Send email', actionType: 'send_email', config: {
           template: 'welcome',
           aiPersonalization: false,
           timing: 'immediate',
@@ -424,8 +435,7 @@ describe('send_email pipeline — end to end', () => {
       },
       {
         id: 'n2', type: 'action', title: 'Send AI email',
-        description: 'Send email', config: {
-          actionType: 'send_email',
+        description: 'Send email', actionType: 'send_email', config: {
           template: 'welcome',
           aiPersonalization: true,
           timing: 'immediate',
@@ -465,8 +475,7 @@ describe('send_email pipeline — end to end', () => {
       },
       {
         id: 'n3', type: 'action', title: 'Send email',
-        description: 'Send email', config: {
-          actionType: 'send_email',
+        description: 'Send email', actionType: 'send_email', config: {
           template: 'welcome',
           aiPersonalization: false,
           timing: 'immediate',
@@ -491,4 +500,43 @@ describe('send_email pipeline — end to end', () => {
     // Only 1 email sent (for lead 1)
     expect(mockSendTrackedEmail).toHaveBeenCalledTimes(1);
   });
+
+  it('routes a lead down the branch its condition picks', async () => {
+    const nodes: WorkflowNode[] = [
+      { id: 'n1', type: 'trigger', title: 'Lead created', description: '', config: { triggerType: 'lead_created' } },
+      { id: 'n2', type: 'condition', title: 'Hot?', description: '', config: { field: 'score', operator: 'gt', value: 90 } },
+      { id: 'n3', type: 'action', title: 'Hot path', description: '', actionType: 'update_status', config: { newStatus: 'Qualified' } },
+      { id: 'n4', type: 'action', title: 'Cold path', description: '', actionType: 'update_status', config: { newStatus: 'Contacted' } },
+    ];
+    const workflow = {
+      ...buildWorkflow(nodes),
+      edges: [
+        { id: 'e1', source: 'n1', target: 'n2' },
+        { id: 'e2', source: 'n2', target: 'n3', branch: 'yes' as const },
+        { id: 'e3', source: 'n2', target: 'n4', branch: 'no' as const },
+      ],
+    };
+
+    const [result] = await executeWorkflow(workflow, [testLead]);
+
+    const byId = new Map(result.steps.map(s => [s.nodeId, s]));
+    expect(byId.get('n2')!.status).toBe('skip');
+    expect(byId.get('n3')!.status).toBe('skip');
+    expect(byId.get('n3')!.message).toContain('not on the branch');
+    expect(byId.get('n4')!.status).toBe('pass');
+    expect(byId.get('n4')!.message).toContain('Contacted');
+  });
+
+  it('status_change trigger only matches the configured target status', async () => {
+    const nodes: WorkflowNode[] = [
+      { id: 'n1', type: 'trigger', title: 'Became qualified', description: '', config: { triggerType: 'status_change', toStatus: 'Qualified' } },
+    ];
+
+    const [miss] = await executeWorkflow(buildWorkflow(nodes), [testLead]);
+    expect(miss.steps[0].status).toBe('skip');
+    expect(miss.steps[0].message).toContain('not "Qualified"');
+
+    const [hit] = await executeWorkflow(buildWorkflow(nodes), [{ ...testLead, status: 'Qualified' }]);
+    expect(hit.steps[0].status).toBe('pass');
+  });
 });
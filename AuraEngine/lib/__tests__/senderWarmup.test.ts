@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../supabase', () => ({ supabase: {} }));
+
+import { summarizeWarmup, warmupTargetFor, type WarmupMessageRow } from '../senderAccounts';
+import type { SenderAccount } from '../../types';
+
+const sender = (overrides: Partial<SenderAccount> = {}): SenderAccount => ({
+  id: 's1',
+  warmup_enabled: true,
+  warmup_start_volume: 5,
+  warmup_daily_increase: 3,
+  warmup_max_volume: 20,
+  warmup_reply_rate: 0.3,
+  warmup_started_at: '2026-10-01T18:00:00Z',
+  created_at: '2026-09-01T00:00:00Z',
+  ...overrides,
+} as SenderAccount);
+
+describe('warmupTargetFor', () => {
+  it('ramps by the daily increase per calendar day since warmup started, up to the max', () => {
+    expect(warmupTargetFor(sender(), new Date('2026-10-01T23:00:00Z'))).toBe(5);
+    expect(warmupTargetFor(sender(), new Date('2026-10-02T00:30:00Z'))).toBe(8);
+    expect(warmupTargetFor(sender(), new Date('2026-10-05T12:00:00Z'))).toBe(17);
+    expect(warmupTargetFor(sender(), new Date('2026-10-30T12:00:00Z'))).toBe(20);
+  });
+
+  it('is zero when warmup is off and falls back to created_at without a start date', () => {
+    expect(warmupTargetFor(sender({ warmup_enabled: false }), new Date('2026-10-05T00:00:00Z'))).toBe(0);
+    expect(warmupTargetFor(sender({ warmup_started_at: null, warmup_max_volume: 200 }), new Date('2026-09-03T00:00:00Z'))).toBe(11);
+  });
+});
+
+describe('summarizeWarmup', () => {
+  const row = (from: string, placement: WarmupMessageRow['placement'], extra: Partial<WarmupMessageRow> = {}): WarmupMessageRow =>
+    ({ from_sender_id: from, kind: 'sent', status: 'sent', placement, rescued: false, ...extra });
+
+  it('counts placement per sender and ignores failed sends', () => {
+    const stats = summarizeWarmup([
+      row('a', 'inbox'),
+      row('a', 'inbox'),
+      row('a', 'spam', { rescued: true }),
+      row('a', null),
+      row('a', 'inbox', { kind: 'reply' }),
+      row('a', null, { status: 'failed' }),
+      row('b', 'missing'),
+    ]);
+    expect(stats.a).toEqual({ sent: 4, replies: 1, checked: 4, inbox: 3, spam: 1, missing: 0, rescued: 1, inboxRate: 0.75 });
+    expect(stats.b.inboxRate).toBe(0);
+  });
+
+  it('leaves the inbox rate unset until something has been checked', () => {
+    expect(summarizeWarmup([row('a', null)]).a.inboxRate).toBeNull();
+  });
+});
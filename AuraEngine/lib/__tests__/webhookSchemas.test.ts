@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../supabase', () => ({ supabase: {} }));
+
+import { WEBHOOK_EVENTS, normalizeWebhookFilters } from '../webhooks';
+import { WEBHOOK_EVENT_SCHEMAS, sampleWebhookBody, splitPrevious, webhookFilterFields } from '../webhookSchemas';
+import { evaluateCondition } from '../leadConditions';
+import type { Lead } from '../../types';
+
+// Events a database trigger (20260510000000, 20260823170000) or the goal
+// executor emits. Each must publish a schema before it ships.
+const EMITTED = [
+  'lead.created', 'lead.updated', 'lead.status_changed', 'lead.score_changed',
+  'sequence.completed', 'email.sent', 'email.replied', 'email.bounced', 'email.unsubscribed',
+  'deal.created', 'deal.stage_changed', 'deal.won', 'deal.lost',
+  'task.created', 'task.completed', 'call.completed', 'goal.webhook',
+] as const;
+
+describe('webhook event schemas', () => {
+  it('publishes a versioned schema for every emitted event', () => {
+    for (const e of EMITTED) {
+      expect(WEBHOOK_EVENTS).toContain(e);
+      const s = WEBHOOK_EVENT_SCHEMAS[e];
+      expect(s, e).toBeDefined();
+      expect(s!.version).toBeGreaterThanOrEqual(1);
+      expect(s!.fields.length).toBeGreaterThan(0);
+    }
+  });
+
+  it('never lists a field twice', () => {
+    for (const [event, s] of Object.entries(WEBHOOK_EVENT_SCHEMAS)) {
+      const names = s!.fields.map(f => f.name);
+      expect(new Set(names).size, event).toBe(names.length);
+    }
+  });
+
+  it('builds a sample body in the delivery envelope', () => {
+    const body = sampleWebhookBody('lead.score_changed')!;
+    expect(body.event_type).toBe('lead.score_changed');
+    expect(body.version).toBe(1);
+    expect(Object.keys(body.payload as object)).toEqual(
+      expect.arrayContaining(['old_score', 'new_score', 'delta', 'breakdown']),
+    );
+    expect(sampleWebhookBody('campaign.launched')).toBeNull();
+  });
+});
+
+describe('payload versions', () => {
+  it('moves previous_/old_ values into data.previous and new_ values onto the object', () => {
+    expect(splitPrevious({ id: 'l1', status: 'Qualified', previous_status: 'New', changed_field: 'status' })).toEqual({
+      object: { id: 'l1', status: 'Qualified', changed_field: 'status' },
+      previous: { status: 'New' },
+    });
+    expect(splitPrevious({ new_score: 72, old_score: 60, delta: 12, previous_breakdown: null, breakdown: {} })).toEqual({
+      object: { score: 72, delta: 12, breakdown: {} },
+      previous: { score: 60, breakdown: null },
+    });
+    expect(splitPrevious({ id: 't1', title: 'Call back' }).previous).toBeNull();
+  });
+
+  it('keeps the v1 sample flat and nests the v2 sample under data', () => {
+    expect(sampleWebhookBody('deal.won', 1)).toHaveProperty('payload.previous_stage');
+    const v2 = sampleWebhookBody('deal.won', 2)!;
+    expect(v2.payload_version).toBe(2);
+    expect(v2).toHaveProperty('data.previous.stage');
+    expect(v2).not.toHaveProperty('data.object.previous_stage');
+  });
+});
+
+describe('endpoint filters', () => {
+  it('offers filterable payload fields with builder types', () => {
+    const fields = webhookFilterFields('lead.updated');
+    expect(fields.find(f => f.key === 'tags')?.type).toBe('list');
+    expect(fields.find(f => f.key === 'score')?.type).toBe('number');
+    expect(fields.find(f => f.key === 'status')?.options).toContain('Qualified');
+    expect(fields.some(f => f.key === 'custom_fields' || f.key === 'workspace_id')).toBe(false);
+    expect(webhookFilterFields('campaign.launched')).toEqual([]);
+  });
+
+  it('matches payloads the way the dispatcher does', () => {
+    const group = { combinator: 'and' as const, rules: [
+      { field: 'changed_field', operator: 'eq' as const, value: 'status' },
+      { field: 'tags', operator: 'contains' as const, value: 'enterprise' },
+    ] };
+    const payload = { id: 'l1', status: 'Qualified', changed_field: 'status', tags: ['Enterprise'], custom_fields: {} };
+    expect(evaluateCondition(group, payload as unknown as Lead)).toBe(true);
+    expect(evaluateCondition(group, { ...payload, tags: [] } as unknown as Lead)).toBe(false);
+  });
+
+  it('drops empty groups and events the endpoint does not subscribe to', () => {
+    const rule = { combinator: 'and' as const, rules: [{ field: 'stage', operator: 'eq' as const, value: 'won' }] };
+    const filters = { 'deal.stage_changed': rule, 'task.created': { combinator: 'and' as const, rules: [] }, 'lead.updated': rule };
+    expect(normalizeWebhookFilters(filters, ['deal.stage_changed', 'task.created'])).toEqual({ 'deal.stage_changed': rule });
+    expect(Object.keys(normalizeWebhookFilters(filters, []))).toEqual(['deal.stage_changed', 'lead.updated']);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { diffWorkflowVersions, isEmptyDiff } from '../workflowVersions';
+import type { WorkflowEdge, WorkflowNode } from '../automationEngine';
+
+const trigger: WorkflowNode = { id: 't', type: 'trigger', title: 'New lead', description: '', config: { triggerType: 'lead_created' } };
+const email: WorkflowNode = {
+  id: 'a', type: 'action', title: 'Send welcome', description: '', actionType: 'send_email', config: { template: 'welcome' },
+};
+const check: WorkflowNode = {
+  id: 'c', type: 'condition', title: 'Hot lead?', description: '',
+  condition: { combinator: 'and', rules: [{ field: 'score', operator: 'gt', value: 50 }] }, config: {},
+};
+const edge = (source: string, target: string, branch?: 'yes' | 'no'): WorkflowEdge =>
+  ({ id: `e-${source}-${branch ? `${branch}-` : ''}${target}`, source, target, ...(branch ? { branch } : {}) });
+
+const v1 = { nodes: [trigger, email], edges: [edge('t', 'a')] };
+
+describe('diffWorkflowVersions', () => {
+  it('reports nothing for identical graphs, ignoring description edits', () => {
+    const same = { nodes: [trigger, { ...email, description: 'reworded' }], edges: [edge('t', 'a')] };
+    expect(isEmptyDiff(diffWorkflowVersions(v1, same))).toBe(true);
+  });
+
+  it('lists changed config and condition fields', () => {
+    const v2 = {
+      nodes: [trigger, { ...email, config: { template: 'follow-up' } }, check],
+      edges: [edge('t', 'c'), edge('c', 'a', 'yes')],
+    };
+    const v3 = {
+      ...v2,
+      nodes: [trigger, v2.nodes[1], { ...check, condition: { combinator: 'and' as const, rules: [{ field: 'score', operator: 'gt' as const, value: 80 }] } }],
+    };
+
+    const diff = diffWorkflowVersions(v1, v2);
+    expect(diff.nodes).toEqual([
+      { nodeId: 'a', title: 'Send welcome', kind: 'changed', details: ['template: "welcome" → "follow-up"'] },
+      { nodeId: 'c', title: 'Hot lead?', kind: 'added', details: [] },
+    ]);
+    expect(diff.edgesAdded.map(e => e.id)).toEqual(['e-t-c', 'e-c-yes-a']);
+    expect(diff.edgesRemoved.map(e => e.id)).toEqual(['e-t-a']);
+
+    expect(diffWorkflowVersions(v2, v3).nodes[0].details).toEqual([
+      'Condition: Lead Score greater than 50 → Lead Score greater than 80',
+    ]);
+  });
+
+  it('treats a legacy flat workflow as its implied edges', () => {
+    const legacy = { nodes: [trigger, email], edges: [] };
+    expect(isEmptyDiff(diffWorkflowVersions(legacy, v1))).toBe(true);
+    expect(diffWorkflowVersions(v1, { nodes: [trigger], edges: [] }).nodes).toEqual([
+      { nodeId: 'a', title: 'Send welcome', kind: 'removed', details: [] },
+    ]);
+  });
+});
@@ -0,0 +1,66 @@
+// Beta-Bernoulli posteriors for campaign A/B lanes. Client mirror of
+// supabase/functions/_shared/bandit.ts, which ab-autopause uses in bandit mode
+// to deal unsent items by Thompson sampling. Here it only powers the
+// "chance to be best" column in the campaign view.
+
+export interface LaneOutcome { variant: number; sent: number; successes: number }
+
+export type Rng = () => number;
+
+/** Deterministic PRNG (mulberry32) so the shown probabilities don't flicker between renders. */
+export function seededRng(seed: number): Rng {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function normal(rng: Rng): number {
+  let u = 0;
+  while (u === 0) u = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+}
+
+// Marsaglia–Tsang; shape >= 1 always holds here (1 + counts).
+function gamma(shape: number, rng: Rng): number {
+  const d = shape - 1 / 3, c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number, v: number;
+    do { x = normal(rng); v = 1 + c * x; } while (v <= 0);
+    v = v * v * v;
+    const u = rng();
+    if (u < 1 - 0.0331 * x ** 4 || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+}
+
+export function sampleBeta(alpha: number, beta: number, rng: Rng): number {
+  const x = gamma(alpha, rng);
+  return x / (x + gamma(beta, rng));
+}
+
+const draw = (l: LaneOutcome, rng: Rng) =>
+  sampleBeta(1 + l.successes, 1 + Math.max(0, l.sent - l.successes), rng);
+
+/** One Thompson draw: the lane to send the next unit of traffic to. */
+export function thompsonPick(lanes: LaneOutcome[], rng: Rng): number {
+  let best = lanes[0]?.variant ?? 0, bestDraw = -1;
+  for (const l of lanes) {
+    const d = draw(l, rng);
+    if (d > bestDraw) { bestDraw = d; best = l.variant; }
+  }
+  return best;
+}
+
+/** Posterior probability that each lane has the highest success rate. */
+export function winProbabilities(lanes: LaneOutcome[], rng: Rng = seededRng(1), draws = 4000): Record<number, number> {
+  const wins: Record<number, number> = {};
+  for (const l of lanes) wins[l.variant] = 0;
+  if (!lanes.length) return wins;
+  for (let i = 0; i < draws; i++) wins[thompsonPick(lanes, rng)]++;
+  for (const k of Object.keys(wins)) wins[+k] = wins[+k] / draws;
+  return wins;
+}
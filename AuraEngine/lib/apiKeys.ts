@@ -7,8 +7,13 @@
 // only the SHA-256 hash is persisted server-side via the create_api_key
 // RPC. The plaintext leaves browser memory the moment the user dismisses
 // the "save it now" modal — there's no recovery path.
+//
+// Keys can be narrowed to one business, an IP allowlist and a per-key rate
+// cap (migration 20260823190000). The effective limit is the plan-tier
+// API_RATE_LIMITS value, lowered by the key's cap when set.
 
 import { supabase } from './supabase';
+import { resolvePlanName } from './plans';
 
 export interface ApiKeyRow {
   id: string;
@@ -21,17 +26,85 @@ export interface ApiKeyRow {
   expires_at: string | null;
   revoked_at: string | null;
   created_at: string;
+  business_id: string | null;
+  ip_allowlist: string[];
+  rate_limit_per_min: number | null;
 }
 
+/** Keep in step with the scope check in create_api_key (20260823190000). */
 export const SCOPES = [
   'leads.read',
   'leads.write',
   'campaigns.read',
   'campaigns.write',
   'analytics.read',
+  'deals.read',
+  'deals.write',
+  'tasks.read',
+  'tasks.write',
+  'notes.read',
+  'notes.write',
+  'suppression.read',
+  'suppression.write',
+  'webhooks.read',
+  'webhooks.write',
+  'senders.read',
+  'senders.write',
 ] as const;
 export type ApiScope = typeof SCOPES[number];
 
+/** Scopes grouped by resource ("deals" → ['deals.read', 'deals.write']), in SCOPES order. */
+export function scopesByResource(): Array<{ resource: string; scopes: ApiScope[] }> {
+  const groups = new Map<string, ApiScope[]>();
+  for (const s of SCOPES) {
+    const resource = s.split('.')[0];
+    groups.set(resource, [...(groups.get(resource) ?? []), s]);
+  }
+  return [...groups].map(([resource, scopes]) => ({ resource, scopes }));
+}
+
+/** Public API requests per minute per key. Mirrors _shared/plans.ts API_RATE_LIMITS. */
+export const API_RATE_LIMITS: Record<string, number> = {
+  Free: 30,
+  Starter: 60,
+  Growth: 300,
+  Scale: 1200,
+};
+
+/** Limit a key actually gets: the plan's, lowered by the key's own cap. */
+export function effectiveRateLimit(planName: string, keyLimit: number | null): number {
+  const plan = API_RATE_LIMITS[resolvePlanName(planName)] ?? API_RATE_LIMITS.Starter;
+  return keyLimit && keyLimit > 0 ? Math.min(plan, keyLimit) : plan;
+}
+
+const IPV4_RE = /^(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)$/;
+const IPV6_RE = /^[0-9a-f:]+(?::\d{1,3}(?:\.\d{1,3}){3})?$/i;
+
+/**
+ * Split free-form allowlist text (commas, spaces or newlines) into entries.
+ * Accepts IPv4 / IPv6 addresses and CIDR ranges; create_api_key re-checks
+ * each entry as inet.
+ */
+export function parseIpAllowlist(text: string): { entries: string[]; invalid: string[] } {
+  const entries: string[] = [];
+  const invalid: string[] = [];
+  for (const raw of text.split(/[\s,]+/)) {
+    const entry = raw.trim();
+    if (!entry) continue;
+    const [addr, bits, extra] = entry.split('/');
+    const v4 = IPV4_RE.test(addr);
+    const v6 = !v4 && addr.includes(':') && IPV6_RE.test(addr);
+    const max = v4 ? 32 : 128;
+    const bitsOk = bits === undefined || (/^\d{1,3}$/.test(bits) && Number(bits) <= max);
+    if ((v4 || v6) && bitsOk && extra === undefined) {
+      if (!entries.includes(entry)) entries.push(entry);
+    } else {
+      invalid.push(entry);
+    }
+  }
+  return { entries, invalid };
+}
+
 /**
  * Generate a fresh `scal_<43chars>` token in the browser. Uses
  * crypto.getRandomValues for entropy.
@@ -65,6 +138,9 @@ export async function createApiKey(opts: {
   label: string;
   scopes: ApiScope[];
   expiresAt?: Date | null;
+  businessId?: string | null;
+  ipAllowlist?: string[];
+  rateLimitPerMin?: number | null;
 }): Promise<{ id: string; plaintext: string }> {
   const plaintext = mintTokenPlaintext();
   const { data, error } = await supabase.rpc('create_api_key', {
@@ -73,6 +149,9 @@ export async function createApiKey(opts: {
     p_plaintext:    plaintext,
     p_scopes:       opts.scopes,
     p_expires_at:   opts.expiresAt ? opts.expiresAt.toISOString() : null,
+    p_business_id:  opts.businessId ?? null,
+    p_ip_allowlist: opts.ipAllowlist ?? [],
+    p_rate_limit_per_min: opts.rateLimitPerMin ?? null,
   });
   if (error) throw error;
   return { id: data as string, plaintext };
@@ -82,3 +161,40 @@ export async function revokeApiKey(id: string): Promise<void> {
   const { error } = await supabase.rpc('revoke_api_key', { p_key_id: id });
   if (error) throw error;
 }
+
+export interface ApiKeyUsageHour {
+  api_key_id: string;
+  hour: string;
+  requests: number;
+  throttled: number;
+}
+
+/** Hourly request counts for one key over the last `days` days, oldest first. */
+export async function listApiKeyUsage(keyId: string, days = 7): Promise<ApiKeyUsageHour[]> {
+  const since = new Date(Date.now() - days * 86_400_000).toISOString();
+  const { data, error } = await supabase
+    .from('api_key_usage_hourly')
+    .select('api_key_id, hour, requests, throttled')
+    .eq('api_key_id', keyId)
+    .gte('hour', since)
+    .order('hour', { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as ApiKeyUsageHour[];
+}
+
+/** Roll hourly rows into one bucket per UTC day, filling days with no traffic. */
+export function usageByDay(rows: ApiKeyUsageHour[], days = 7, now = new Date()): Array<{ day: string; requests: number; throttled: number }> {
+  const out = new Map<string, { day: string; requests: number; throttled: number }>();
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  for (let i = days - 1; i >= 0; i--) {
+    const day = new Date(today - i * 86_400_000).toISOString().slice(0, 10);
+    out.set(day, { day, requests: 0, throttled: 0 });
+  }
+  for (const r of rows) {
+    const bucket = out.get(new Date(r.hour).toISOString().slice(0, 10));
+    if (!bucket) continue;
+    bucket.requests += r.requests;
+    bucket.throttled += r.throttled;
+  }
+  return [...out.values()];
+}
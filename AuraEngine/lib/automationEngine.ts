@@ -1,10 +1,21 @@
 import { supabase } from './supabase';
-import { sendTrackedEmail, scheduleEmailBlock } from './emailTracking';
+import { sendTrackedEmail, scheduleEmailBlock, fetchBatchEmailSummary } from './emailTracking';
 import { personalizeForSend } from './personalization';
 import { generatePersonalizedEmail } from './gemini';
 import { fetchIntegration } from './integrations';
+import { pushLeadsToCrm } from './crmSync';
 import { leadDisplayName } from './queries';
-import type { Lead, EmailTemplate } from '../types';
+import { migrateActionNode } from './workflowActions';
+import { getLeadScore } from './leadScoring';
+import {
+  evaluateCondition,
+  describeCondition,
+  conditionNeeds,
+  legacyConditionGroup,
+  type ConditionGroup,
+  type ConditionContext,
+} from './leadConditions';
+import type { Lead, EmailTemplate, ActionType } from '../types';
 
 // ─── Types ───
 
@@ -13,9 +24,23 @@ export interface WorkflowNode {
   type: 'trigger' | 'action' | 'condition' | 'wait';
   title: string;
   description: string;
+  /** What an action node does. Required on action nodes; the title is just a label. */
+  actionType?: ActionType;
+  /** A condition node's rule tree. Older nodes keep a single field/operator/value in config instead. */
+  condition?: ConditionGroup;
   config: Record<string, string | number | boolean>;
 }
 
+/** Which side of a condition an edge hangs off. Non-condition edges carry no branch. */
+export type EdgeBranch = 'yes' | 'no';
+
+export interface WorkflowEdge {
+  id: string;
+  source: string;
+  target: string;
+  branch?: EdgeBranch;
+}
+
 export interface WorkflowStats {
   leadsProcessed: number;
   conversionRate: number;
@@ -29,10 +54,16 @@ export interface Workflow {
   description: string;
   status: 'active' | 'paused' | 'draft';
   nodes: WorkflowNode[];
+  /** Directed edges between nodes. Empty/absent on workflows saved before branching — see resolveEdges. */
+  edges?: WorkflowEdge[];
   createdAt: string;
   stats: WorkflowStats;
   userId?: string;
   teamId?: string | null;
+  /** Live published version (lib/workflowVersions.ts); null/absent until first publish. */
+  version?: number | null;
+  /** nodes/edges are an unpublished draft rather than the live version. */
+  hasDraft?: boolean;
 }
 
 export interface ExecutionStepResult {
@@ -47,11 +78,14 @@ export interface ExecutionStepResult {
 export interface ExecutionResult {
   leadId: string;
   leadName: string;
-  status: 'success' | 'failed' | 'skipped';
+  /** 'waiting' — a server-side run parked on a wait node (or queued for the runner). */
+  status: 'success' | 'failed' | 'skipped' | 'waiting';
   steps: ExecutionStepResult[];
   startedAt: string;
   completedAt: string;
   errorMessage?: string;
+  /** When a waiting run picks up again. */
+  resumesAt?: string;
 }
 
 export interface ExecutionLogEntry {
@@ -62,6 +96,8 @@ export interface ExecutionLogEntry {
   step: string;
   status: 'success' | 'failed' | 'skipped' | 'running';
   duration: number;
+  /** Published version the execution ran; null for a test run of a draft. */
+  version: number | null;
 }
 
 export interface NodePerformanceMetric {
@@ -75,6 +111,13 @@ export interface NodePerformanceMetric {
 
 // ─── Workflow CRUD ───
 
+/**
+ * Saves the builder's graph as the workflow's draft. The live graph
+ * (nodes/edges) only changes through publishWorkflow / rollbackWorkflow in
+ * lib/workflowVersions.ts, so runs in flight never see unpublished edits.
+ * Run counters (stats) are written by the runner and left out here, so a save
+ * can't roll them back to the builder's stale copy.
+ */
 export async function saveWorkflow(workflow: Workflow): Promise<Workflow | null> {
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) return null;
@@ -86,8 +129,8 @@ export async function saveWorkflow(workflow: Workflow): Promise<Workflow | null>
     name: workflow.name,
     description: workflow.description,
     status: workflow.status,
-    nodes: workflow.nodes,
-    stats: workflow.stats,
+    draft_nodes: workflow.nodes,
+    draft_edges: resolveEdges(workflow),
   };
 
   const { data, error } = await supabase
@@ -133,20 +176,168 @@ export async function deleteWorkflow(workflowId: string): Promise<boolean> {
   return true;
 }
 
+// The builder always edits the draft when there is one.
 function dbRowToWorkflow(row: any): Workflow {
+  const hasDraft = row.draft_nodes != null;
   return {
     id: row.id,
     name: row.name,
     description: row.description || '',
     status: row.status,
-    nodes: row.nodes || [],
+    nodes: (((hasDraft ? row.draft_nodes : row.nodes) || []) as WorkflowNode[]).map(migrateActionNode),
+    edges: (hasDraft ? row.draft_edges : row.edges) || [],
     createdAt: row.created_at,
     stats: row.stats || { leadsProcessed: 0, conversionRate: 0, timeSavedHrs: 0, roi: 0 },
     userId: row.user_id,
     teamId: row.team_id,
+    version: row.current_version ?? null,
+    hasDraft,
   };
 }
 
+// ─── Workflow Graph ───
+
+function edgeId(source: string, target: string, branch?: EdgeBranch): string {
+  return branch ? `e-${source}-${branch}-${target}` : `e-${source}-${target}`;
+}
+
+/**
+ * Edges implied by a legacy flat node list: each node flows into the next, and
+ * a condition only continues on its "yes" side — a failed condition ends the
+ * run, which is how flat workflows have always behaved.
+ */
+export function linearEdges(nodes: WorkflowNode[]): WorkflowEdge[] {
+  const edges: WorkflowEdge[] = [];
+  for (let i = 0; i < nodes.length - 1; i++) {
+    const branch = nodes[i].type === 'condition' ? 'yes' : undefined;
+    edges.push({ id: edgeId(nodes[i].id, nodes[i + 1].id, branch), source: nodes[i].id, target: nodes[i + 1].id, branch });
+  }
+  return edges;
+}
+
+/** The workflow's edges, falling back to the linear chain for pre-branching workflows. */
+export function resolveEdges(workflow: Pick<Workflow, 'nodes' | 'edges'>): WorkflowEdge[] {
+  if (!workflow.edges || workflow.edges.length === 0) return linearEdges(workflow.nodes);
+  const ids = new Set(workflow.nodes.map(n => n.id));
+  return workflow.edges.filter(e => ids.has(e.source) && ids.has(e.target));
+}
+
+/**
+ * Kahn's algorithm, stable on the node array order so siblings keep the order
+ * the user laid them out in. Returns null when the graph has a cycle.
+ */
+export function topoSortNodes(nodes: WorkflowNode[], edges: WorkflowEdge[]): WorkflowNode[] | null {
+  const indegree = new Map(nodes.map(n => [n.id, 0]));
+  for (const e of edges) indegree.set(e.target, (indegree.get(e.target) || 0) + 1);
+
+  const sorted: WorkflowNode[] = [];
+  const done = new Set<string>();
+  while (sorted.length < nodes.length) {
+    const next = nodes.find(n => !done.has(n.id) && indegree.get(n.id) === 0);
+    if (!next) return null;
+    sorted.push(next);
+    done.add(next.id);
+    for (const e of edges) {
+      if (e.source === next.id) indegree.set(e.target, (indegree.get(e.target) || 0) - 1);
+    }
+  }
+  return sorted;
+}
+
+/** Whether a run follows `edge` out of `node` given the node's step result. */
+export function isEdgeTaken(node: WorkflowNode, edge: WorkflowEdge, status: 'pass' | 'fail' | 'skip'): boolean {
+  if (node.type !== 'condition') return true;
+  return (edge.branch ?? 'yes') === (status === 'pass' ? 'yes' : 'no');
+}
+
+/** Structural problems that would make a workflow run surprising. Empty when the graph is sound. */
+export function validateWorkflowGraph(nodes: WorkflowNode[], edges: WorkflowEdge[]): string[] {
+  const issues: string[] = [];
+  if (nodes.length === 0) return issues;
+
+  if (!topoSortNodes(nodes, edges)) {
+    issues.push('Workflow contains a loop — a step leads back to an earlier step');
+    return issues;
+  }
+
+  const incoming = new Set(edges.map(e => e.target));
+  const roots = nodes.filter(n => !incoming.has(n.id));
+  const trigger = nodes.find(n => n.type === 'trigger');
+  if (trigger && incoming.has(trigger.id)) {
+    issues.push(`Trigger "${trigger.title}" cannot have incoming connections`);
+  }
+
+  const reached = new Set<string>();
+  const queue = trigger ? [trigger.id] : roots.map(n => n.id);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (reached.has(id)) continue;
+    reached.add(id);
+    for (const e of edges) if (e.source === id) queue.push(e.target);
+  }
+  for (const n of nodes) {
+    if (!reached.has(n.id)) issues.push(`"${n.title}" is not connected to the trigger`);
+  }
+
+  for (const n of nodes) {
+    if (n.type !== 'condition') continue;
+    const out = edges.filter(e => e.source === n.id);
+    if (out.length === 0) issues.push(`Condition "${n.title}" has no yes or no branch`);
+  }
+  return issues;
+}
+
+/**
+ * Wires `newNodeId` in after `sourceId` (on `branch` for conditions). If the
+ * source already flowed somewhere on that side, the new node is spliced in
+ * between so nothing downstream is orphaned.
+ */
+export function insertNodeAfter(
+  edges: WorkflowEdge[],
+  sourceId: string,
+  newNodeId: string,
+  branch?: EdgeBranch
+): WorkflowEdge[] {
+  const onSide = (e: WorkflowEdge) => e.source === sourceId && (e.branch ?? undefined) === branch;
+  const displaced = edges.filter(onSide);
+  const kept = edges.filter(e => !onSide(e));
+  return [
+    ...kept,
+    { id: edgeId(sourceId, newNodeId, branch), source: sourceId, target: newNodeId, branch },
+    ...displaced.map(e => ({ id: edgeId(newNodeId, e.target), source: newNodeId, target: e.target })),
+  ];
+}
+
+/** Removes a node's edges, bridging its parents straight to its children when it sat in a simple chain. */
+export function removeNodeEdges(edges: WorkflowEdge[], nodeId: string): WorkflowEdge[] {
+  const incoming = edges.filter(e => e.target === nodeId);
+  const outgoing = edges.filter(e => e.source === nodeId);
+  const rest = edges.filter(e => e.source !== nodeId && e.target !== nodeId);
+  if (outgoing.length !== 1) return rest;
+
+  const target = outgoing[0].target;
+  const bridged = incoming
+    .filter(e => !rest.some(r => r.source === e.source && r.target === target && r.branch === e.branch))
+    .map(e => ({ id: edgeId(e.source, target, e.branch), source: e.source, target, branch: e.branch }));
+  return [...rest, ...bridged];
+}
+
+/** Replaces the outgoing edges of `sourceId` on one side (a condition branch, or the plain "next" side). */
+export function setNodeTargets(
+  edges: WorkflowEdge[],
+  sourceId: string,
+  targetIds: string[],
+  branch?: EdgeBranch
+): WorkflowEdge[] {
+  const kept = edges.filter(e => !(e.source === sourceId && (e.branch ?? undefined) === branch));
+  return [
+    ...kept,
+    ...targetIds
+      .filter(t => t !== sourceId)
+      .map(t => ({ id: edgeId(sourceId, t, branch), source: sourceId, target: t, branch })),
+  ];
+}
+
 // ─── Execution Engine ───
 
 export async function executeWorkflow(
@@ -156,6 +347,14 @@ export async function executeWorkflow(
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) return [];
 
+  const edges = resolveEdges(workflow);
+  const ordered = topoSortNodes(workflow.nodes, edges);
+  if (!ordered) {
+    throw new Error('Workflow contains a loop — fix the connections before running it');
+  }
+  const incoming = new Set(edges.map(e => e.target));
+  const entryIds = workflow.nodes.filter(n => !incoming.has(n.id)).map(n => n.id);
+
   const results: ExecutionResult[] = [];
 
   for (const lead of leads) {
@@ -163,25 +362,30 @@ export async function executeWorkflow(
     const steps: ExecutionStepResult[] = [];
     let overallStatus: 'success' | 'failed' | 'skipped' = 'success';
     let errorMessage: string | undefined;
-    let skipRemaining = false;
+    // Nodes become reachable once an executed parent takes an edge into them.
+    // Walking in topological order means a merge point runs once, after every
+    // branch feeding it has been decided.
+    const reachable = new Set<string>(entryIds);
 
-    for (const node of workflow.nodes) {
-      if (skipRemaining) {
+    for (const node of ordered) {
+      if (!reachable.has(node.id)) {
         steps.push({
           nodeId: node.id,
           nodeTitle: node.title,
           nodeType: node.type,
           status: 'skip',
-          message: 'Skipped — upstream condition not met',
+          message: 'Skipped — not on the branch this lead took',
           durationMs: 0,
         });
         continue;
       }
 
       const stepStart = Date.now();
+      let stepStatus: 'pass' | 'fail' | 'skip';
 
       try {
         const result = await executeNode(node, lead, user.id);
+        stepStatus = result.status;
         steps.push({
           nodeId: node.id,
           nodeTitle: node.title,
@@ -195,11 +399,9 @@ export async function executeWorkflow(
           overallStatus = 'failed';
           errorMessage = result.message;
         }
-        if (result.status === 'skip' && node.type === 'condition') {
-          skipRemaining = true;
-        }
       } catch (err) {
         const msg = err instanceof Error ? err.message : 'Unknown error';
+        stepStatus = 'fail';
         steps.push({
           nodeId: node.id,
           nodeTitle: node.title,
@@ -211,6 +413,10 @@ export async function executeWorkflow(
         overallStatus = 'failed';
         errorMessage = msg;
       }
+
+      for (const edge of edges) {
+        if (edge.source === node.id && isEdgeTaken(node, edge, stepStatus)) reachable.add(edge.target);
+      }
     }
 
     const completedAt = new Date().toISOString();
@@ -220,6 +426,8 @@ export async function executeWorkflow(
       workflow_id: workflow.id,
       user_id: user.id,
       lead_id: lead.id,
+      // A test run of unpublished edits didn't run any published version.
+      workflow_version: workflow.hasDraft || !workflow.version ? null : workflow.version,
       status: overallStatus,
       steps,
       started_at: startedAt,
@@ -269,6 +477,78 @@ export async function executeWorkflow(
   return results;
 }
 
+// ─── Durable Runs ───
+
+const RUNNER_BATCH = 100;
+
+interface RunnerRun {
+  id: string;
+  lead_id: string;
+  status: 'running' | 'waiting' | 'completed' | 'failed' | 'canceled';
+  not_before: string | null;
+  execution: {
+    status: 'running' | 'success' | 'failed' | 'skipped';
+    steps: ExecutionStepResult[];
+    started_at: string;
+    completed_at: string | null;
+    error_message: string | null;
+  } | null;
+}
+
+/**
+ * Enrolls leads in a saved workflow on the server-side runner
+ * (workflow-runner edge fn). Unlike executeWorkflow, wait nodes really wait:
+ * each lead runs up to its first wait, then the runner's cron resumes it when
+ * the wait ends. A lead already mid-way through the workflow is reported as
+ * skipped rather than enrolled twice.
+ */
+export async function enrollLeadsInWorkflow(
+  workflowId: string,
+  leads: Lead[]
+): Promise<ExecutionResult[]> {
+  const results: ExecutionResult[] = [];
+  const byId = new Map(leads.map(l => [l.id, l]));
+
+  for (let i = 0; i < leads.length; i += RUNNER_BATCH) {
+    const batch = leads.slice(i, i + RUNNER_BATCH);
+    const { data, error } = await supabase.functions.invoke('workflow-runner', {
+      body: { workflow_id: workflowId, lead_ids: batch.map(l => l.id) },
+    });
+    if (error) throw new Error(error.message ?? 'workflow-runner failed');
+
+    const now = new Date().toISOString();
+    for (const run of (data?.runs ?? []) as RunnerRun[]) {
+      const lead = byId.get(run.lead_id);
+      const exec = run.execution;
+      const inFlight = run.status === 'running' || run.status === 'waiting';
+      results.push({
+        leadId: run.lead_id,
+        leadName: lead ? leadDisplayName(lead) : 'Unknown lead',
+        status: inFlight ? 'waiting' : exec?.status === 'success' ? 'success' : 'failed',
+        steps: exec?.steps ?? [],
+        startedAt: exec?.started_at ?? now,
+        completedAt: exec?.completed_at ?? now,
+        errorMessage: exec?.error_message ?? undefined,
+        resumesAt: run.status === 'waiting' ? run.not_before ?? undefined : undefined,
+      });
+    }
+    for (const leadId of (data?.already_running ?? []) as string[]) {
+      const lead = byId.get(leadId);
+      results.push({
+        leadId,
+        leadName: lead ? leadDisplayName(lead) : 'Unknown lead',
+        status: 'skipped',
+        steps: [],
+        startedAt: now,
+        completedAt: now,
+        errorMessage: 'Already in progress in this workflow',
+      });
+    }
+  }
+
+  return results;
+}
+
 async function executeNode(
   node: WorkflowNode,
   lead: Lead,
@@ -282,12 +562,12 @@ async function executeNode(
       return executeAction(node, lead, userId);
 
     case 'condition':
-      return evaluateCondition(node, lead);
+      return executeCondition(node, lead);
 
     case 'wait':
       return {
         status: 'pass',
-        message: `Wait ${node.config.days || 1} day(s) — noted for execution (continuing immediately in manual run)`,
+        message: `Wait ${node.config.days || 1} day(s) — not paused in a test run (enrolled leads wait for real)`,
       };
 
     default:
@@ -313,8 +593,13 @@ function executeTrigger(
       return { status: 'skip', message: `Lead score ${lead.score} below threshold ${threshold}` };
     }
 
-    case 'status_change':
+    case 'status_change': {
+      const toStatus = node.config.toStatus as string | undefined;
+      if (toStatus && lead.status !== toStatus) {
+        return { status: 'skip', message: `Lead status is "${lead.status}", not "${toStatus}"` };
+      }
       return { status: 'pass', message: `Trigger matched — lead status is "${lead.status}"` };
+    }
 
     case 'time_elapsed':
       return { status: 'pass', message: 'Scheduled trigger — proceeding' };
@@ -332,7 +617,10 @@ async function executeAction(
   lead: Lead,
   userId: string
 ): Promise<{ status: 'pass' | 'fail' | 'skip'; message: string }> {
-  const actionType = (node.config.actionType as string) || inferActionType(node);
+  const actionType = node.actionType;
+  if (!actionType) {
+    return { status: 'fail', message: `Action "${node.title}" has no action type set` };
+  }
 
   switch (actionType) {
     case 'send_email': {
@@ -471,7 +759,8 @@ async function executeAction(
       const { error } = await supabase.from('audit_logs').insert({
         user_id: userId,
         action: 'AUTOMATION_ALERT',
-        details: `Alert from workflow node "${node.title}" for lead ${leadDisplayName(lead)} (${lead.company})`,
+        details: (node.config.alertMessage as string)
+          || `Alert from workflow node "${node.title}" for lead ${leadDisplayName(lead)} (${lead.company})`,
       });
       if (error) {
         return { status: 'fail', message: `Alert creation failed: ${error.message}` };
@@ -524,68 +813,26 @@ async function executeAction(
     }
 
     case 'sync_crm': {
-      const crmProvider = (node.config.crmProvider as string) || 'hubspot';
-      const integration = await fetchIntegration(crmProvider === 'salesforce' ? 'salesforce' : 'hubspot');
-      if (!integration || integration.status !== 'connected') {
-        return { status: 'fail', message: `${crmProvider} is not connected. Connect it in Integration Hub first.` };
-      }
-
+      // Runs server-side in crm-sync so credentials never reach the browser and
+      // the lead stays linked to one CRM record instead of creating a new one.
+      const crmProvider = (node.config.crmProvider as string) === 'salesforce' ? 'salesforce' : 'hubspot';
+      const label = crmProvider === 'salesforce' ? 'Salesforce' : 'HubSpot';
       try {
-        if (crmProvider === 'hubspot') {
-          const apiKey = integration.credentials.apiKey;
-          if (!apiKey) return { status: 'fail', message: 'HubSpot API key not configured' };
-
-          const res = await fetch('https://api.hubapi.com/crm/v3/objects/contacts', {
-            method: 'POST',
-            headers: {
-              Authorization: `Bearer ${apiKey}`,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              properties: {
-                email: lead.primary_email,
-                firstname: lead.first_name || '',
-                lastname: lead.last_name || '',
-                company: lead.company,
-                hs_lead_status: lead.status === 'Qualified' ? 'QUALIFIED' : 'NEW',
-              },
-            }),
-          });
-
-          if (res.ok) {
-            const data = await res.json();
-            return { status: 'pass', message: `Synced "${leadDisplayName(lead)}" to HubSpot (ID: ${data.id})` };
-          }
-          const errBody = await res.json().catch(() => ({}));
-          return { status: 'fail', message: `HubSpot sync failed: ${(errBody as any).message || res.status}` };
-        } else {
-          // Salesforce
-          const { instanceUrl, accessToken } = integration.credentials;
-          if (!instanceUrl || !accessToken) return { status: 'fail', message: 'Salesforce credentials incomplete' };
-
-          const baseUrl = instanceUrl.replace(/\/$/, '');
-          const res = await fetch(`${baseUrl}/services/data/v59.0/sobjects/Lead`, {
-            method: 'POST',
-            headers: {
-              Authorization: `Bearer ${accessToken}`,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              Email: lead.primary_email,
-              FirstName: lead.first_name || '',
-              LastName: lead.last_name || leadDisplayName(lead),
-              Company: lead.company || 'Unknown',
-              Status: lead.status === 'Qualified' ? 'Qualified' : 'Open - Not Contacted',
-            }),
-          });
-
-          if (res.ok) {
-            const data = await res.json();
-            return { status: 'pass', message: `Synced "${leadDisplayName(lead)}" to Salesforce (ID: ${data.id})` };
-          }
-          const errBody = await res.json().catch(() => ({}));
-          const errMsg = Array.isArray(errBody) ? errBody.map((e: any) => e.message).join('; ') : (errBody as any).message || String(res.status);
-          return { status: 'fail', message: `Salesforce sync failed: ${errMsg}` };
+        const [result] = await pushLeadsToCrm(crmProvider, [lead.id], 'workflow');
+        if (!result) return { status: 'fail', message: `Lead "${leadDisplayName(lead)}" not found` };
+        switch (result.outcome) {
+          case 'created':
+            return { status: 'pass', message: `Created "${leadDisplayName(lead)}" in ${label} (ID: ${result.externalId})` };
+          case 'linked':
+            return { status: 'pass', message: `Linked "${leadDisplayName(lead)}" to existing ${label} record ${result.externalId}` };
+          case 'updated':
+            return { status: 'pass', message: `Updated ${result.changes.map(c => c.field).join(', ')} on ${label} record ${result.externalId}` };
+          case 'unchanged':
+            return { status: 'pass', message: `${label} record ${result.externalId} already up to date` };
+          case 'skipped':
+            return { status: 'skip', message: `${label} sync skipped: ${result.error}` };
+          default:
+            return { status: 'fail', message: `${label} sync failed: ${result.error}` };
         }
       } catch (err) {
         return { status: 'fail', message: `CRM sync failed: ${(err as Error).message}` };
@@ -598,63 +845,26 @@ async function executeAction(
   }
 }
 
-function inferActionType(node: WorkflowNode): string {
-  const title = node.title.toLowerCase();
-  if (title.includes('email') || title.includes('send')) return 'send_email';
-  if (title.includes('status') || title.includes('update')) return 'update_status';
-  if (title.includes('tag')) return 'add_tag';
-  if (title.includes('slack')) return 'notify_slack';
-  if (title.includes('crm') || title.includes('hubspot') || title.includes('salesforce')) return 'sync_crm';
-  if (title.includes('alert') || title.includes('notify')) return 'create_alert';
-  if (title.includes('assign')) return 'assign_user';
-  return 'generic';
+/** The rule tree a condition node evaluates, upgrading the legacy single-comparison config. */
+export function nodeCondition(node: WorkflowNode): ConditionGroup {
+  return node.condition ?? legacyConditionGroup(node.config);
 }
 
-function evaluateCondition(
+async function executeCondition(
   node: WorkflowNode,
   lead: Lead
-): { status: 'pass' | 'skip'; message: string } {
-  const field = node.config.field as string;
-  const operator = node.config.operator as string;
-  const value = node.config.value;
-
-  let leadValue: any;
-  switch (field) {
-    case 'score':
-      leadValue = lead.score;
-      break;
-    case 'status':
-      leadValue = lead.status;
-      break;
-    case 'company':
-      leadValue = lead.company;
-      break;
-    default:
-      leadValue = (lead as any)[field];
-  }
-
-  let passed = false;
-  const numValue = Number(value);
-  const numLeadValue = Number(leadValue);
-
-  switch (operator) {
-    case 'gt':
-      passed = numLeadValue > numValue;
-      break;
-    case 'lt':
-      passed = numLeadValue < numValue;
-      break;
-    case 'eq':
-      passed = String(leadValue) === String(value);
-      break;
-    default:
-      passed = true;
-  }
-
-  if (passed) {
-    return { status: 'pass', message: `Condition met: ${field} (${leadValue}) ${operator} ${value}` };
+): Promise<{ status: 'pass' | 'skip'; message: string }> {
+  const condition = nodeCondition(node);
+  const needs = conditionNeeds(condition);
+  const ctx: ConditionContext = {};
+  if (needs.scores) ctx.scores = await getLeadScore(lead.id);
+  if (needs.engagement) ctx.engagement = (await fetchBatchEmailSummary([lead.id])).get(lead.id) ?? null;
+
+  const text = describeCondition(condition);
+  if (evaluateCondition(condition, lead, ctx)) {
+    return { status: 'pass', message: `Condition met: ${text}` };
   }
-  return { status: 'skip', message: `Condition not met: ${field} (${leadValue}) ${operator} ${value} — skipping downstream nodes` };
+  return { status: 'skip', message: `Condition not met: ${text} — taking the "no" branch` };
 }
 
 // ─── Execution Log Queries ───
@@ -666,7 +876,7 @@ export async function getExecutionLog(
   const { data, error } = await supabase
     .from('workflow_executions')
     .select(`
-      id, status, steps, started_at, completed_at, lead_id,
+      id, status, steps, started_at, completed_at, lead_id, workflow_version,
       workflows!inner(name)
     `)
     .eq('user_id', userId)
@@ -707,6 +917,7 @@ export async function getExecutionLog(
         step: step.nodeTitle,
         status: step.status === 'pass' ? 'success' : step.status === 'fail' ? 'failed' : 'skipped',
         duration: step.durationMs / 1000,
+        version: (row as any).workflow_version ?? null,
       });
     }
   }
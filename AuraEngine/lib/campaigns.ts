@@ -9,9 +9,24 @@ import { supabase } from './supabase';
 import { resolveWorkspaceId } from './tenancy';
 import { scopeBusiness, activeBusinessId } from './businessScope';
 import { getActiveBusinessBrain } from './businessBrain';
+import { leadZone, type TimezoneSource } from './leadTimezone';
 
 export type CampaignStatus = 'draft' | 'active' | 'paused' | 'completed' | 'archived';
 
+export type AbMode = 'ztest' | 'bandit';
+export type AbObjective = 'reply' | 'meeting';
+
+/** Events that stop a lead's remaining steps (process-sequence-sends). */
+export type ExitCondition = 'replied' | 'unsubscribed' | 'bounced' | 'meeting_booked' | 'converted';
+
+export const EXIT_CONDITIONS: { key: ExitCondition; label: string }[] = [
+  { key: 'replied', label: 'Replied' },
+  { key: 'unsubscribed', label: 'Unsubscribed' },
+  { key: 'bounced', label: 'Bounced' },
+  { key: 'meeting_booked', label: 'Meeting booked' },
+  { key: 'converted', label: 'Status changed to Converted' },
+];
+
 export interface Campaign {
   id: string;
   name: string;
@@ -25,11 +40,21 @@ export interface Campaign {
   total_clicked: number;
   ai_personalize: boolean;
   ab_auto_optimize: boolean;
+  /** ztest: switch to a significant winner; bandit: Thompson-sample traffic while the test runs. */
+  ab_mode: AbMode;
+  /** What bandit mode optimizes. */
+  ab_objective: AbObjective;
   send_best_time: boolean;
   send_window_start: number | null;
   send_window_end: number | null;
   send_weekdays_only: boolean;
   send_timezone: string | null;
+  /** Check the send window in each lead's own timezone; send_timezone is the fallback for unplaced leads. */
+  send_in_lead_timezone: boolean;
+  exit_conditions: ExitCondition[];
+  rotate_senders: boolean;
+  /** Sender accounts to rotate across; empty = every outreach sender in the workspace. */
+  sender_pool: string[];
   created_at: string;
   step_count?: number;
 }
@@ -76,9 +101,22 @@ export const MERGE_FIELDS: { token: string; label: string }[] = [
   { token: '{{your_name}}', label: 'Your name' },
   { token: '{{sender_company}}', label: 'Your company' },
   { token: '{{ai_insight}}', label: 'AI insight (send-time)' },
+  { token: '{{cta}}', label: 'Call to action (A/B lane)' },
 ];
 const nl2br = (s: string): string => /<(p|br|div|ul|ol|table|a|strong|em|span|h[1-6])\b/i.test(s || '') ? (s || '') : (s || '').replace(/\n/g, '<br>');
 
+/**
+ * Place a CTA line in a body: at {{cta}} when present, else as a closing
+ * paragraph (client mirror of withCta in supabase/functions/_shared/variants.ts).
+ */
+export const withCta = (body: string, cta: string | null | undefined): string => {
+  const line = (cta ?? '').trim();
+  if (/\{\{\s*cta\s*\}\}/i.test(body)) return body.replace(/\{\{\s*cta\s*\}\}/gi, line);
+  if (!line) return body;
+  const html = /<(p|br|div|ul|ol|table|a|strong|em|span|h[1-6])\b/i.test(body);
+  return html ? `${body}<p>${line}</p>` : `${body.replace(/\s+$/, '')}\n\n${line}`;
+};
+
 export interface CampaignStep {
   id: string;
   sequence_id: string;
@@ -87,6 +125,9 @@ export interface CampaignStep {
   subject_variants: string[];
   body_html: string;
   body_variants: string[];
+  /** Call-to-action line for lane A; placed at {{cta}} or appended to the body. */
+  cta: string;
+  cta_variants: string[];
   delay_days: number;
 }
 
@@ -97,7 +138,7 @@ export async function listCampaigns(userId: string): Promise<Campaign[]> {
   const workspaceId = await resolveWorkspaceId(userId);
   const { data, error } = await scopeBusiness(
     supabase.from('email_sequences')
-      .select('id,name,description,status,goal,tone,total_leads,total_sent,total_opened,total_clicked,ai_personalize,ab_auto_optimize,send_best_time,send_window_start,send_window_end,send_weekdays_only,send_timezone,created_at')
+      .select('id,name,description,status,goal,tone,total_leads,total_sent,total_opened,total_clicked,ai_personalize,ab_auto_optimize,ab_mode,ab_objective,send_best_time,send_window_start,send_window_end,send_weekdays_only,send_timezone,send_in_lead_timezone,exit_conditions,rotate_senders,sender_pool,created_at')
       .eq('workspace_id', workspaceId)
   ).order('created_at', { ascending: false });
   if (error || !data) return [];
@@ -114,20 +155,43 @@ export async function listCampaigns(userId: string): Promise<Campaign[]> {
 
 export async function getSteps(sequenceId: string): Promise<CampaignStep[]> {
   const { data } = await supabase.from('sequence_steps')
-    .select('id,sequence_id,step_number,subject,subject_variants,body_html,body_variants,delay_days')
+    .select('id,sequence_id,step_number,subject,subject_variants,body_html,body_variants,cta,cta_variants,delay_days')
     .eq('sequence_id', sequenceId)
     .order('step_number', { ascending: true });
   return (data ?? []) as CampaignStep[];
 }
 
-export interface VariantStat { step: number; variant: number; sent: number; opened: number; clicked: number; replied: number }
+export interface VariantStat { step: number; variant: number; sent: number; opened: number; clicked: number; replied: number; meetings: number }
 
-/** A/B results: sent/opened/clicked/replied per (step, subject variant). */
+/** A/B results: sent/opened/clicked/replied/meetings per (step, variant lane). */
 export async function getVariantStats(campaignId: string): Promise<VariantStat[]> {
   const { data } = await supabase.rpc('campaign_variant_stats', { p_campaign_id: campaignId });
   return (data ?? []).map((r: Record<string, number>) => ({
     step: Number(r.step), variant: Number(r.variant),
     sent: Number(r.sent), opened: Number(r.opened), clicked: Number(r.clicked), replied: Number(r.replied ?? 0),
+    meetings: Number(r.meetings ?? 0),
+  }));
+}
+
+export interface StoppedLead {
+  leadId: string;
+  name: string;
+  email: string;
+  reason: ExitCondition;
+  stoppedAt: string | null;
+  stepsSkipped: number;
+}
+
+/** Leads whose remaining steps were skipped by an exit condition, latest first. */
+export async function getStoppedLeads(campaignId: string): Promise<StoppedLead[]> {
+  const { data } = await supabase.rpc('campaign_stopped_leads', { p_campaign_id: campaignId });
+  return (data ?? []).map((r: Record<string, string | number | null>) => ({
+    leadId: String(r.lead_id),
+    name: (r.lead_name as string | null) || (r.lead_email as string | null) || 'Unknown lead',
+    email: (r.lead_email as string | null) ?? '',
+    reason: r.reason as ExitCondition,
+    stoppedAt: (r.stopped_at as string | null) ?? null,
+    stepsSkipped: Number(r.steps_skipped ?? 0),
   }));
 }
 
@@ -145,15 +209,26 @@ export interface EnrolledLead {
   email: string;
   company: string | null;
   status: string;
+  /** Zone the lead's emails are timed in (override, else inferred); null = unplaced. */
+  timezone: string | null;
+  timezoneSource: TimezoneSource | null;
 }
 
+interface LeadZoneRow { timezone: string | null; inferred_timezone: string | null; inferred_timezone_source: TimezoneSource | null }
+const LEAD_ZONE_COLUMNS = 'timezone, inferred_timezone, inferred_timezone_source';
+
+const zoneOf = (l: LeadZoneRow | null): Pick<EnrolledLead, 'timezone' | 'timezoneSource'> => ({
+  timezone: l ? leadZone(l) : null,
+  timezoneSource: l?.timezone ? 'manual' : (l?.inferred_timezone ? l.inferred_timezone_source : null),
+});
+
 /** The campaign's target audience — the leads enrolled in it. */
 export async function getEnrolledLeads(sequenceId: string): Promise<EnrolledLead[]> {
   const { data } = await supabase.from('sequence_enrollments')
-    .select('id, lead_id, status, leads(first_name, last_name, primary_email, company)')
+    .select(`id, lead_id, status, leads(first_name, last_name, primary_email, company, ${LEAD_ZONE_COLUMNS})`)
     .eq('sequence_id', sequenceId)
     .order('enrolled_at', { ascending: false });
-  type Row = { id: string; lead_id: string; status: string; leads: { first_name: string | null; last_name: string | null; primary_email: string | null; company: string | null } | null };
+  type Row = { id: string; lead_id: string; status: string; leads: (LeadZoneRow & { first_name: string | null; last_name: string | null; primary_email: string | null; company: string | null }) | null };
   return ((data ?? []) as unknown as Row[]).map(r => ({
     enrollmentId: r.id,
     leadId: r.lead_id,
@@ -161,10 +236,11 @@ export async function getEnrolledLeads(sequenceId: string): Promise<EnrolledLead
     name: [r.leads?.first_name, r.leads?.last_name].filter(Boolean).join(' ') || (r.leads?.primary_email ?? 'Unknown lead'),
     email: r.leads?.primary_email ?? '',
     company: r.leads?.company ?? null,
+    ...zoneOf(r.leads),
   }));
 }
 
-export interface LeadHit { id: string; name: string; email: string; company: string | null }
+export interface LeadHit extends Pick<EnrolledLead, 'timezone' | 'timezoneSource'> { id: string; name: string; email: string; company: string | null }
 
 /** Search the user's leads by name/email/company to add to a campaign. */
 export async function searchLeadsForCampaign(userId: string, query: string, excludeIds: string[]): Promise<LeadHit[]> {
@@ -173,12 +249,12 @@ export async function searchLeadsForCampaign(userId: string, query: string, excl
   if (term.length < 2) return [];
   const like = `%${term}%`;
   const { data } = await supabase.from('leads')
-    .select('id, first_name, last_name, primary_email, company')
+    .select(`id, first_name, last_name, primary_email, company, ${LEAD_ZONE_COLUMNS}`)
     .eq('client_id', userId)
     .or(`first_name.ilike.${like},last_name.ilike.${like},primary_email.ilike.${like},company.ilike.${like}`)
     .limit(20);
   const exclude = new Set(excludeIds);
-  return ((data ?? []) as { id: string; first_name: string | null; last_name: string | null; primary_email: string | null; company: string | null }[])
+  return ((data ?? []) as unknown as (LeadZoneRow & { id: string; first_name: string | null; last_name: string | null; primary_email: string | null; company: string | null })[])
     .filter(l => !exclude.has(l.id))
     .slice(0, 8)
     .map(l => ({
@@ -186,6 +262,7 @@ export async function searchLeadsForCampaign(userId: string, query: string, excl
       name: [l.first_name, l.last_name].filter(Boolean).join(' ') || (l.primary_email ?? 'Unknown lead'),
       email: l.primary_email ?? '',
       company: l.company ?? null,
+      ...zoneOf(l),
     }));
 }
 
@@ -214,20 +291,20 @@ export async function removeEnrollment(enrollmentId: string, sequenceId: string)
   await supabase.from('email_sequences').update({ total_leads: count ?? 0 }).eq('id', sequenceId);
 }
 
-export async function updateCampaign(id: string, patch: Partial<Pick<Campaign, 'name' | 'description' | 'status' | 'goal' | 'tone' | 'ai_personalize' | 'ab_auto_optimize' | 'send_best_time' | 'send_window_start' | 'send_window_end' | 'send_weekdays_only' | 'send_timezone'>>): Promise<string | null> {
+export async function updateCampaign(id: string, patch: Partial<Pick<Campaign, 'name' | 'description' | 'status' | 'goal' | 'tone' | 'ai_personalize' | 'ab_auto_optimize' | 'ab_mode' | 'ab_objective' | 'send_best_time' | 'send_window_start' | 'send_window_end' | 'send_weekdays_only' | 'send_timezone' | 'send_in_lead_timezone' | 'exit_conditions' | 'rotate_senders' | 'sender_pool'>>): Promise<string | null> {
   const { error } = await supabase.from('email_sequences').update({ ...patch, updated_at: new Date().toISOString() }).eq('id', id);
   return error?.message ?? null;
 }
 
-export async function addStep(sequenceId: string, step: { subject: string; body_html: string; delay_days: number; step_number: number; subject_variants?: string[]; body_variants?: string[] }): Promise<CampaignStep | null> {
+export async function addStep(sequenceId: string, step: { subject: string; body_html: string; delay_days: number; step_number: number; subject_variants?: string[]; body_variants?: string[]; cta?: string; cta_variants?: string[] }): Promise<CampaignStep | null> {
   const { data, error } = await supabase.from('sequence_steps')
     .insert({ sequence_id: sequenceId, ...step })
-    .select('id,sequence_id,step_number,subject,subject_variants,body_html,body_variants,delay_days').single();
+    .select('id,sequence_id,step_number,subject,subject_variants,body_html,body_variants,cta,cta_variants,delay_days').single();
   if (error || !data) return null;
   return data as CampaignStep;
 }
 
-export async function updateStep(id: string, patch: Partial<Pick<CampaignStep, 'subject' | 'subject_variants' | 'body_html' | 'body_variants' | 'delay_days' | 'step_number'>>): Promise<string | null> {
+export async function updateStep(id: string, patch: Partial<Pick<CampaignStep, 'subject' | 'subject_variants' | 'body_html' | 'body_variants' | 'cta' | 'cta_variants' | 'delay_days' | 'step_number'>>): Promise<string | null> {
   const { error } = await supabase.from('sequence_steps').update({ ...patch, updated_at: new Date().toISOString() }).eq('id', id);
   return error?.message ?? null;
 }
@@ -275,7 +352,7 @@ export async function previewVerbatimForLead(step: CampaignStep, leadId: string)
     phone: lead.primary_phone ?? undefined, email: lead.primary_email ?? undefined,
     custom_fields: (lead.custom_fields as Record<string, unknown> | null) ?? undefined,
   };
-  return { subject: mergeClient(step.subject, l), body_html: nl2br(mergeClient(step.body_html, l)) };
+  return { subject: mergeClient(step.subject, l), body_html: nl2br(mergeClient(withCta(step.body_html, step.cta), l)) };
 }
 
 export interface PreviewLeadFields {
@@ -318,7 +395,7 @@ export async function previewStepForLead(
     .eq('id', leadId).single();
   if (!lead) return { error: 'Lead not found.' };
   return previewEmail({
-    templateSubject: step.subject, templateBody: step.body_html, stepIndex: step.step_number - 1,
+    templateSubject: step.subject, templateBody: withCta(step.body_html, step.cta), stepIndex: step.step_number - 1,
     lead: {
       name: [lead.first_name, lead.last_name].filter(Boolean).join(' '),
       company: lead.company, title: lead.title, industry: lead.industry,
@@ -360,10 +437,11 @@ export async function launchCampaign(campaign: Campaign): Promise<{ ok: true; to
   const sendWindow = (campaign.send_window_start != null && campaign.send_window_end != null)
     ? { start: campaign.send_window_start, end: campaign.send_window_end, weekdaysOnly: campaign.send_weekdays_only, timezone: campaign.send_timezone ?? 'UTC' }
     : undefined;
+  const senderRotation = campaign.rotate_senders ? { enabled: true, pool: campaign.sender_pool ?? [] } : undefined;
   const payload = {
     leads,
-    steps: steps.map(s => ({ stepIndex: s.step_number, delayDays: s.delay_days, subject: s.subject, subjectVariants: s.subject_variants, body: s.body_html, bodyVariants: s.body_variants })),
-    config: { tone: campaign.tone ?? 'professional', goal: campaign.goal ?? '', sendMode: 'auto', campaignId: campaign.id, businessProfile, aiPersonalize: campaign.ai_personalize, sendWindow, sendBestTime: campaign.send_best_time },
+    steps: steps.map(s => ({ stepIndex: s.step_number, delayDays: s.delay_days, subject: s.subject, subjectVariants: s.subject_variants, body: s.body_html, bodyVariants: s.body_variants, cta: s.cta, ctaVariants: s.cta_variants })),
+    config: { tone: campaign.tone ?? 'professional', goal: campaign.goal ?? '', sendMode: 'auto', campaignId: campaign.id, businessProfile, aiPersonalize: campaign.ai_personalize, sendWindow, sendBestTime: campaign.send_best_time, leadLocalTime: campaign.send_in_lead_timezone, exitOn: campaign.exit_conditions, senderRotation },
   };
   const url = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/start-email-sequence-run`;
   const res = await fetch(url, {
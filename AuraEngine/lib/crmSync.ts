@@ -0,0 +1,304 @@
+// AuraEngine/lib/crmSync.ts
+//
+// Client side of the two-way HubSpot / Salesforce sync (migration
+// 20260823200000, edge function crm-sync). The browser never talks to the CRM:
+// pushes and "Sync now" go through crm-sync, which keeps the lead ↔ record
+// links and writes crm_sync_log.
+//
+// The field list, status maps and resolvers mirror
+// supabase/functions/_shared/crm/fields.ts so the settings panel can explain
+// what a rule does — keep the two in step.
+
+import { supabase } from './supabase';
+
+export type CrmProvider = 'hubspot' | 'salesforce';
+export type CrmFieldRule = 'scaliyo' | 'crm' | 'newest';
+
+export const CRM_SYNC_FIELDS = [
+  { key: 'first_name',    label: 'First name', push: true },
+  { key: 'last_name',     label: 'Last name',  push: true },
+  { key: 'primary_email', label: 'Email',      push: true },
+  { key: 'primary_phone', label: 'Phone',      push: true },
+  { key: 'company',       label: 'Company',    push: true },
+  { key: 'title',         label: 'Job title',  push: true },
+  { key: 'status',        label: 'Status',     push: true },
+  { key: 'owner',         label: 'Owner',      push: false },
+  { key: 'deal_stage',    label: 'Deal stage', push: false },
+] as const;
+
+export type CrmSyncField = typeof CRM_SYNC_FIELDS[number]['key'];
+export type CrmValues = Partial<Record<CrmSyncField, string | null>>;
+
+export const DEFAULT_FIELD_RULES: Record<CrmSyncField, CrmFieldRule> = {
+  first_name: 'scaliyo',
+  last_name: 'scaliyo',
+  primary_email: 'scaliyo',
+  primary_phone: 'scaliyo',
+  company: 'scaliyo',
+  title: 'scaliyo',
+  status: 'newest',
+  owner: 'crm',
+  deal_stage: 'crm',
+};
+
+export const CRM_RULE_LABELS: Record<CrmFieldRule, { label: string; hint: string }> = {
+  scaliyo: { label: 'Scaliyo wins', hint: 'CRM edits are overwritten on the next push' },
+  crm:     { label: 'CRM wins',     hint: 'CRM edits are applied here; never pushed after create' },
+  newest:  { label: 'Newest wins',  hint: 'When both sides change, the later edit stands' },
+};
+
+export function fieldRules(raw: unknown): Record<CrmSyncField, CrmFieldRule> {
+  const rules = { ...DEFAULT_FIELD_RULES };
+  if (raw && typeof raw === 'object') {
+    for (const [k, v] of Object.entries(raw as Record<string, unknown>)) {
+      if (k in rules && (v === 'scaliyo' || v === 'crm' || v === 'newest')) rules[k as CrmSyncField] = v;
+    }
+  }
+  return rules;
+}
+
+export const CRM_STATUS_OUT: Record<CrmProvider, Record<string, string>> = {
+  hubspot: {
+    New: 'NEW',
+    Contacted: 'ATTEMPTED_TO_CONTACT',
+    Qualified: 'OPEN_DEAL',
+    Converted: 'CONNECTED',
+    Lost: 'UNQUALIFIED',
+  },
+  salesforce: {
+    New: 'Open - Not Contacted',
+    Contacted: 'Working - Contacted',
+    Qualified: 'Qualified',
+    Converted: 'Closed - Converted',
+    Lost: 'Closed - Not Converted',
+  },
+};
+
+const CRM_STATUS_IN: Record<CrmProvider, Record<string, string>> = {
+  hubspot: {
+    NEW: 'New',
+    OPEN: 'New',
+    ATTEMPTED_TO_CONTACT: 'Contacted',
+    IN_PROGRESS: 'Contacted',
+    BAD_TIMING: 'Contacted',
+    OPEN_DEAL: 'Qualified',
+    CONNECTED: 'Converted',
+    UNQUALIFIED: 'Lost',
+  },
+  salesforce: {
+    'Open - Not Contacted': 'New',
+    'Working - Contacted': 'Contacted',
+    Qualified: 'Qualified',
+    'Closed - Converted': 'Converted',
+    'Closed - Not Converted': 'Lost',
+  },
+};
+
+/** CRM status → lead status; null for values with no counterpart. */
+export function statusFromCrm(provider: CrmProvider, value: string | null | undefined): string | null {
+  return value ? CRM_STATUS_IN[provider][value] ?? null : null;
+}
+
+export interface FieldChange {
+  field: CrmSyncField;
+  from: string | null;
+  to: string | null;
+  winner: 'scaliyo' | 'crm';
+  conflict: boolean;
+  applied: boolean;
+  note?: string;
+}
+
+export function normalizeValue(field: CrmSyncField, value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const s = String(value).trim();
+  if (!s) return null;
+  return field === 'primary_email' || field === 'owner' ? s.toLowerCase() : s;
+}
+
+/** What a pull changes on the lead. See resolvePull in _shared/crm/fields.ts. */
+export function resolvePull(opts: {
+  rules: Record<CrmSyncField, CrmFieldRule>;
+  local: CrmValues;
+  remote: CrmValues;
+  synced: CrmValues;
+  localUpdatedAt: string | null;
+  remoteUpdatedAt: string | null;
+}): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const { key } of CRM_SYNC_FIELDS) {
+    if (!(key in opts.remote)) continue;
+    const remote = normalizeValue(key, opts.remote[key]);
+    const local = normalizeValue(key, opts.local[key]);
+    if (remote === null || remote === local) continue;
+
+    const synced = key in opts.synced ? normalizeValue(key, opts.synced[key]) : undefined;
+    if (synced !== undefined && remote === synced) continue;
+    const localChanged = synced !== undefined && local !== synced;
+
+    const rule = opts.rules[key];
+    let apply: boolean;
+    if (rule === 'crm') apply = true;
+    else if (rule === 'scaliyo') apply = false;
+    else if (!localChanged) apply = true;
+    else {
+      const localAt = opts.localUpdatedAt ? Date.parse(opts.localUpdatedAt) : 0;
+      const remoteAt = opts.remoteUpdatedAt ? Date.parse(opts.remoteUpdatedAt) : 0;
+      apply = remoteAt > localAt;
+    }
+    changes.push({ field: key, from: local, to: remote, winner: apply ? 'crm' : 'scaliyo', conflict: localChanged, applied: apply });
+  }
+  return changes;
+}
+
+/** Fields a push sends. See resolvePush in _shared/crm/fields.ts. */
+export function resolvePush(opts: {
+  rules: Record<CrmSyncField, CrmFieldRule>;
+  local: CrmValues;
+  synced: CrmValues;
+  isNew: boolean;
+}): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const { key, push } of CRM_SYNC_FIELDS) {
+    if (!push) continue;
+    const local = normalizeValue(key, opts.local[key]);
+    if (local === null) continue;
+    const synced = normalizeValue(key, opts.synced[key]);
+    if (!opts.isNew && (opts.rules[key] === 'crm' || local === synced)) continue;
+    changes.push({ field: key, from: synced, to: local, winner: 'scaliyo', conflict: false, applied: true });
+  }
+  return changes;
+}
+
+// ─── Settings ───
+
+export interface CrmSyncSettings {
+  provider: CrmProvider;
+  enabled: boolean;
+  rules: Record<CrmSyncField, CrmFieldRule>;
+  lastRunAt: string | null;
+  lastError: string | null;
+}
+
+export async function getCrmSyncSettings(provider: CrmProvider): Promise<CrmSyncSettings> {
+  const { data, error } = await supabase
+    .from('crm_sync_settings')
+    .select('provider, enabled, field_rules, last_run_at, last_error')
+    .eq('provider', provider)
+    .maybeSingle();
+  if (error) console.error('getCrmSyncSettings failed:', error.message);
+  return {
+    provider,
+    // No row yet: the schedule is off until the owner switches it on.
+    enabled: data?.enabled ?? false,
+    rules: fieldRules(data?.field_rules),
+    lastRunAt: data?.last_run_at ?? null,
+    lastError: data?.last_error ?? null,
+  };
+}
+
+export async function saveCrmSyncSettings(
+  provider: CrmProvider,
+  patch: { enabled: boolean; rules: Record<CrmSyncField, CrmFieldRule> },
+): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not signed in');
+  const { error } = await supabase.from('crm_sync_settings').upsert({
+    owner_id: user.id,
+    provider,
+    enabled: patch.enabled,
+    field_rules: patch.rules,
+    updated_at: new Date().toISOString(),
+  }, { onConflict: 'owner_id,provider' });
+  if (error) throw new Error(error.message);
+}
+
+// ─── Sync ───
+
+export type CrmSyncOutcome = 'created' | 'linked' | 'updated' | 'unchanged' | 'skipped' | 'failed';
+
+export interface CrmPushResult {
+  leadId: string;
+  outcome: CrmSyncOutcome;
+  externalId: string | null;
+  changes: FieldChange[];
+  error?: string;
+}
+
+export interface CrmPassResult {
+  pulled: number;
+  updated: number;
+  pushed: number;
+  failed: number;
+  error?: string;
+}
+
+/** crm-sync accepts at most this many leads per call. */
+const PUSH_BATCH = 100;
+
+/** Pushes leads through crm-sync: links or creates the CRM record, then sends changed fields. */
+export async function pushLeadsToCrm(
+  provider: CrmProvider,
+  leadIds: string[],
+  source: 'manual' | 'workflow' = 'manual',
+): Promise<CrmPushResult[]> {
+  const results: CrmPushResult[] = [];
+  for (let i = 0; i < leadIds.length; i += PUSH_BATCH) {
+    const { data, error } = await supabase.functions.invoke('crm-sync', {
+      body: { action: 'push', provider, lead_ids: leadIds.slice(i, i + PUSH_BATCH), source },
+    });
+    if (error) throw new Error(data?.error ?? error.message ?? 'crm-sync failed');
+    results.push(...((data?.results ?? []) as CrmPushResult[]));
+  }
+  return results;
+}
+
+/** Runs one pull-then-push pass now, outside the 10-minute schedule. */
+export async function runCrmSync(provider: CrmProvider): Promise<CrmPassResult> {
+  const { data, error } = await supabase.functions.invoke('crm-sync', {
+    body: { action: 'sync', provider },
+  });
+  if (error && !data?.error) throw new Error(error.message ?? 'crm-sync failed');
+  return data as CrmPassResult;
+}
+
+// ─── History ───
+
+export interface CrmSyncLogRow {
+  id: string;
+  run_id: string;
+  direction: 'push' | 'pull';
+  source: 'schedule' | 'manual' | 'workflow';
+  lead_id: string | null;
+  external_id: string | null;
+  outcome: CrmSyncOutcome;
+  changes: FieldChange[];
+  error: string | null;
+  created_at: string;
+  lead: { first_name: string | null; last_name: string | null; primary_email: string | null } | null;
+}
+
+export async function listCrmSyncLog(provider: CrmProvider, limit = 50): Promise<CrmSyncLogRow[]> {
+  const { data, error } = await supabase
+    .from('crm_sync_log')
+    .select('id, run_id, direction, source, lead_id, external_id, outcome, changes, error, created_at, lead:leads(first_name, last_name, primary_email)')
+    .eq('provider', provider)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) {
+    console.error('listCrmSyncLog failed:', error.message);
+    return [];
+  }
+  return (data ?? []) as unknown as CrmSyncLogRow[];
+}
+
+/** One-line summary of a log row's field changes, e.g. "Status New → Qualified". */
+export function describeChanges(changes: FieldChange[]): string {
+  const label = (f: CrmSyncField) => CRM_SYNC_FIELDS.find(x => x.key === f)?.label ?? f;
+  return changes
+    .map(c => {
+      const why = c.note ? ` (${c.note})` : c.applied ? '' : ' (kept ours)';
+      return `${label(c.field)} ${c.from ?? '—'} → ${c.to ?? '—'}${why}${c.conflict ? ' · conflict' : ''}`;
+    })
+    .join('; ');
+}
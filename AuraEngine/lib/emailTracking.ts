@@ -235,6 +235,8 @@ export interface BatchEmailSummary {
   hasOpened: boolean;   // non-bot open in last 30 days
   hasClicked: boolean;  // non-bot click in last 30 days
   openCount: number;    // for "Potential Lead" threshold (>=2)
+  lastOpenedAt: string | null;   // most recent non-bot open in the window
+  lastClickedAt: string | null;  // most recent non-bot click in the window
 }
 
 export async function fetchBatchEmailSummary(
@@ -264,7 +266,7 @@ export async function fetchBatchEmailSummary(
     for (const m of messages) {
       msgToLead.set(m.id, m.lead_id);
       if (!map.has(m.lead_id)) {
-        map.set(m.lead_id, { hasSent: true, hasOpened: false, hasClicked: false, openCount: 0 });
+        map.set(m.lead_id, { hasSent: true, hasOpened: false, hasClicked: false, openCount: 0, lastOpenedAt: null, lastClickedAt: null });
       }
     }
 
@@ -275,7 +277,7 @@ export async function fetchBatchEmailSummary(
     const thirtyDaysAgo = new Date(Date.now() - 30 * 86400000).toISOString();
     const { data: events, error: evtErr } = await supabase
       .from('email_events')
-      .select('message_id, event_type')
+      .select('message_id, event_type, created_at')
       .in('message_id', messageIds)
       .eq('is_bot', false)
       .gte('created_at', thirtyDaysAgo)
@@ -291,9 +293,11 @@ export async function fetchBatchEmailSummary(
       if (ev.event_type === 'open') {
         summary.hasOpened = true;
         summary.openCount++;
+        if (!summary.lastOpenedAt || ev.created_at > summary.lastOpenedAt) summary.lastOpenedAt = ev.created_at;
       }
       if (ev.event_type === 'click') {
         summary.hasClicked = true;
+        if (!summary.lastClickedAt || ev.created_at > summary.lastClickedAt) summary.lastClickedAt = ev.created_at;
       }
     }
   }));
@@ -29,6 +29,13 @@ export const PRIMITIVE_KINDS = [
   'team_task',           // Create a manual task in Team Hub
   'wait',                // Wait N hours/days before next step
   'checkpoint',          // Observer evaluates a metric vs threshold
+  'approval',            // Hold until a workspace admin approves
+  'discover_leads',      // Source new prospects via People Data Labs
+  'run_workflow',        // Enroll leads in a published automation workflow
+  'create_deal',         // Open pipeline deals for leads
+  'update_lead_status',  // Move leads to a new lead status
+  'send_webhook',        // Emit a goal.webhook event to subscribed endpoints
+  'generate_content',    // Draft channel content into generated assets
 ] as const;
 export type PrimitiveKind = typeof PRIMITIVE_KINDS[number];
 
@@ -205,6 +212,43 @@ AVAILABLE PRIMITIVES — use ONLY these kinds:
                              threshold: number, comparison: 'gte'|'lte' }
                    typical_duration_hours: 0
 
+  approval         Pause this branch until a workspace admin approves. The admin
+                   sees a preview of every step that depends on it.
+                   params: { message: text — what the admin should check }
+                   typical_duration_hours: 4 (human-driven)
+
+  discover_leads   Find new prospects (People Data Labs) and import them as leads.
+                   Outputs lead_ids, so later steps can use lead_filter: '<this step-id>'.
+                   params: { titles: text[], industries?: text[], locations?: text[],
+                             company_sizes?: text[], keywords?: text, count: int (max 50) }
+                   typical_duration_hours: 0.25
+
+  run_workflow     Enroll leads in an existing, published automation workflow.
+                   params: { workflow: '<workflow name>', lead_filter: '<step-id>' | 'workspace.hot' }
+                   typical_duration_hours: depends on the workflow
+
+  create_deal      Open a deal for each lead that has no open deal yet (max 25).
+                   params: { lead_filter: '<step-id>' | 'workspace.hot',
+                             stage: 'discovery'|'qualified'|'proposal'|'negotiation',
+                             value_amount: number, currency?: 'USD'|..., title?: text }
+                   typical_duration_hours: 0
+
+  update_lead_status  Move leads to a lead status.
+                   params: { lead_filter: '<step-id>' | 'workspace.hot',
+                             status: 'New'|'Contacted'|'Qualified'|'Converted'|'Lost' }
+                   typical_duration_hours: 0
+
+  send_webhook     Send a goal.webhook event to the workspace's subscribed endpoints
+                   (e.g. to notify another system of a milestone).
+                   params: { signal: short-machine-name, message?: text, lead_filter?: '<step-id>' }
+                   typical_duration_hours: 0
+
+  generate_content Draft one piece of content and save it to generated content.
+                   Nothing is sent or published.
+                   params: { channel: 'email'|'linkedin'|'facebook'|'instagram'|'blog'|'campaign',
+                             topic: text, tone?: text, audience?: text }
+                   typical_duration_hours: 0.25
+
 OUTPUT FORMAT — return a single JSON object matching this schema:
 
 {
@@ -229,6 +273,14 @@ OUTPUT FORMAT — return a single JSON object matching this schema:
 CONSTRAINTS:
 - Between 3 and 12 steps. Less = under-planned; more = over-engineered.
 - Place at least one checkpoint roughly halfway through.
+- Put an approval step before any email_sequence or social_post, with those
+  steps depending on it.
+- If the goal needs prospects the workspace doesn't have yet (e.g. "book 10
+  meetings with fintech CTOs"), start with discover_leads and point the
+  following steps' lead_filter at it.
+- Only use run_workflow with a name from AVAILABLE WORKFLOWS; never invent one.
+- Steps that don't depend on each other run in parallel; only add depends_on
+  where a step really needs the earlier one's result.
 - The final step's success_criteria should map directly to the goal's target.
 - If guardrails forbid an action (e.g. "no cold email"), do not include it.
 - Use workspace memory to bias toward winning_pattern and away from avoid.
@@ -261,6 +313,18 @@ export async function generateGoalPlan(opts: {
     workspaceKinds: ['winning_pattern', 'avoid', 'tone', 'preference', 'usp', 'fact'],
   }).catch(() => '');
 
+  // run_workflow can only target a published, unpaused workflow — list them
+  // so the planner names a real one instead of inventing it.
+  const { data: workflowRows } = await supabase
+    .from('workflows')
+    .select('name')
+    .eq('workspace_id', opts.workspaceId)
+    .not('current_version', 'is', null)
+    .neq('status', 'paused')
+    .order('updated_at', { ascending: false })
+    .limit(20);
+  const workflowCtx = ((workflowRows ?? []) as { name: string }[]).map((w) => `- ${w.name}`).join('\n');
+
   const bp = opts.businessProfile;
   const businessCtx = bp ? [
     bp.companyName     ? `Company: ${bp.companyName}` : null,
@@ -280,6 +344,10 @@ Guardrails:   ${opts.goal.guardrails ?? '(none)'}
 BUSINESS CONTEXT
 ================
 ${businessCtx || '(none provided)'}
+
+AVAILABLE WORKFLOWS (for run_workflow)
+======================================
+${workflowCtx || '(none — do not use run_workflow)'}
 ${memoryCtx}
 
 Generate the plan now. JSON only.`;
@@ -446,7 +514,12 @@ export interface ExecutorResponse {
   steps_skipped?: number;
   steps_failed: number;
   step_run_ids: string[];
-  final_status: 'completed' | 'failed';
+  /** Steps left on hold (waits not yet due, undecided approvals). */
+  paused_steps?: { step_id: string; not_before: string | null }[];
+  /** step_ids of the approval steps among paused_steps. */
+  awaiting_approval?: string[];
+  /** 'running' only on a cron resume while another invocation still runs steps. */
+  final_status: 'completed' | 'failed' | 'paused' | 'running';
 }
 
 async function invokeExecutor(goalId: string, mode: 'dry_run' | 'live'): Promise<ExecutorResponse> {
@@ -458,6 +531,83 @@ async function invokeExecutor(goalId: string, mode: 'dry_run' | 'live'): Promise
   return data as ExecutorResponse;
 }
 
+// ── Approvals (approval step kind) ──────────────────────────────────────
+
+export interface ApprovalPreviewStep {
+  step_id: string;
+  kind: string;
+  title: string;
+  status: 'succeeded' | 'failed' | 'skipped';
+  summary: string;
+}
+
+export interface StepApproval {
+  id: string;
+  goal_id: string;
+  plan_id: string;
+  workspace_id: string;
+  step_run_id: string;
+  step_id: string;
+  title: string;
+  message: string | null;
+  preview: ApprovalPreviewStep[];
+  status: 'pending' | 'approved' | 'rejected';
+  requested_at: string;
+  decided_by: string | null;
+  decided_at: string | null;
+  decision_note: string | null;
+}
+
+export async function listApprovalsForPlan(planId: string): Promise<StepApproval[]> {
+  const { data, error } = await supabase
+    .from('automation_step_approvals')
+    .select('*')
+    .eq('plan_id', planId)
+    .order('requested_at', { ascending: false });
+  if (error) throw error;
+  return (data ?? []) as StepApproval[];
+}
+
+/** goal_id → number of approvals still waiting on a decision. */
+export async function getPendingApprovalCounts(workspaceId: string): Promise<Record<string, number>> {
+  const { data, error } = await supabase
+    .from('automation_step_approvals')
+    .select('goal_id')
+    .eq('workspace_id', workspaceId)
+    .eq('status', 'pending');
+  if (error) throw error;
+  const counts: Record<string, number> = {};
+  for (const r of (data ?? []) as { goal_id: string }[]) counts[r.goal_id] = (counts[r.goal_id] ?? 0) + 1;
+  return counts;
+}
+
+/**
+ * Records an owner/admin decision and resumes the goal right away.
+ * Rejecting fails the approval step and skips everything downstream of it.
+ */
+export async function decideApproval(approvalId: string, approve: boolean, note?: string): Promise<StepApproval> {
+  const { data, error } = await supabase.rpc('decide_goal_approval', {
+    p_approval_id: approvalId,
+    p_approve: approve,
+    p_note: note ?? null,
+  });
+  if (error) throw new Error(error.message);
+  return data as StepApproval;
+}
+
+/** Owners and admins can decide approvals; other members only see them. */
+export async function isWorkspaceAdmin(workspaceId: string): Promise<boolean> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return false;
+  const { data } = await supabase
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', user.id)
+    .maybeSingle();
+  return data?.role === 'owner' || data?.role === 'admin';
+}
+
 // ── Workspace feature flags (Phase 6.2.b + 6.2.d) ────────────────────────
 
 export const LIVE_MODE_FLAG   = 'goal_executor_live';
@@ -598,4 +748,168 @@ export const OBSERVATION_LABELS: Record<string, { label: string; tone: string }>
   past_due_with_unmet_target: { label: 'Past due, target unmet',          tone: 'rose'   },
   paused_too_long:            { label: 'Paused over 12h',                  tone: 'amber'  },
   stalled_running:            { label: 'No step progress for 6h',          tone: 'amber'  },
+  falling_behind:             { label: 'Falling behind',                   tone: 'rose'   },
 };
+
+// ── Progress snapshots + forecast ───────────────────────────────────────
+//
+// cron_snapshot_goal_metrics (migration 20260823220000) appends a snapshot
+// of each open goal's metric every hour it moves, and once a day when flat.
+// The forecast below is the client half of goal_forecast() in that
+// migration, which drives the observer's falling_behind signal — keep the
+// two in step.
+
+/** Metrics the snapshot cron reads from live data, counted from goal creation. Mirrors goal_metric_value(). */
+export const GOAL_TRACKED_METRICS: Record<string, string> = {
+  meetings_booked: 'Meetings booked (not cancelled)',
+  demos:           'Meetings booked (not cancelled)',
+  replies:         'Inbound replies received',
+  qualified_leads: 'Leads moved to Qualified or Converted',
+  pipeline_value:  'Value of deals opened, excluding lost',
+  new_logos:       'Deals won',
+  new_leads:       'Leads created',
+  leads_total:     'Leads created',
+  emails_sent:     'Emails sent',
+};
+
+export const FORECAST_WINDOW_DAYS = 7;
+export const FORECAST_MIN_HISTORY_DAYS = 1;
+/** Projected value at due_at below this share of target counts as falling behind. */
+export const FORECAST_BEHIND_RATIO = 0.9;
+
+export interface GoalSnapshot {
+  value: number;
+  target_value: number;
+  source: 'metric' | 'progress';
+  captured_at: string;
+}
+
+export type GoalForecastStatus = 'insufficient_data' | 'achieved' | 'on_track' | 'behind' | 'no_deadline';
+
+export interface GoalForecast {
+  status: GoalForecastStatus;
+  current: number | null;
+  target: number;
+  velocityPerDay: number | null;
+  requiredPerDay: number | null;
+  projectedAtDue: number | null;
+  projectedCompletionAt: string | null;
+  asOf: string | null;
+}
+
+export async function listGoalSnapshots(goalId: string, sinceDays = 180): Promise<GoalSnapshot[]> {
+  const cutoff = new Date(Date.now() - sinceDays * 86_400_000).toISOString();
+  const { data, error } = await supabase
+    .from('automation_goal_snapshots')
+    .select('value, target_value, source, captured_at')
+    .eq('goal_id', goalId)
+    .gte('captured_at', cutoff)
+    .order('captured_at', { ascending: true })
+    .limit(2000);
+  if (error) throw error;
+  return ((data ?? []) as GoalSnapshot[]).map((r) => ({
+    ...r,
+    value: Number(r.value),
+    target_value: Number(r.target_value),
+  }));
+}
+
+const DAY_MS = 86_400_000;
+
+/**
+ * Velocity is the change between the latest snapshot and the one at least
+ * FORECAST_WINDOW_DAYS before it (or the first snapshot), per day; the
+ * projection extends it from the latest snapshot.
+ */
+export function forecastGoal(
+  goal: Pick<AutomationGoal, 'target_value' | 'due_at'>,
+  snapshots: GoalSnapshot[],
+): GoalForecast {
+  const target = Number(goal.target_value);
+  const empty: GoalForecast = {
+    status: 'insufficient_data', current: null, target, velocityPerDay: null,
+    requiredPerDay: null, projectedAtDue: null, projectedCompletionAt: null, asOf: null,
+  };
+  if (snapshots.length === 0) return empty;
+
+  const sorted = [...snapshots].sort((a, b) => Date.parse(a.captured_at) - Date.parse(b.captured_at));
+  const last = sorted[sorted.length - 1];
+  const lastAt = Date.parse(last.captured_at);
+  const base = { ...empty, current: last.value, asOf: last.captured_at };
+  if (last.value >= target) return { ...base, status: 'achieved' };
+
+  const windowStart = lastAt - FORECAST_WINDOW_DAYS * DAY_MS;
+  const baseline = [...sorted].reverse().find((s) => Date.parse(s.captured_at) <= windowStart) ?? sorted[0];
+  const spanDays = (lastAt - Date.parse(baseline.captured_at)) / DAY_MS;
+  if (spanDays < FORECAST_MIN_HISTORY_DAYS) return base;
+
+  const velocity = Math.max(0, (last.value - baseline.value) / spanDays);
+  const remaining = target - last.value;
+  const projectedCompletionAt = velocity > 0
+    ? new Date(lastAt + (remaining / velocity) * DAY_MS).toISOString()
+    : null;
+
+  if (!goal.due_at) {
+    return { ...base, status: 'no_deadline', velocityPerDay: velocity, projectedCompletionAt };
+  }
+  const daysLeft = (Date.parse(goal.due_at) - lastAt) / DAY_MS;
+  const projectedAtDue = last.value + velocity * Math.max(0, daysLeft);
+  return {
+    ...base,
+    status: projectedAtDue < target * FORECAST_BEHIND_RATIO ? 'behind' : 'on_track',
+    velocityPerDay: velocity,
+    requiredPerDay: daysLeft > 0 ? remaining / daysLeft : null,
+    projectedAtDue,
+    projectedCompletionAt,
+  };
+}
+
+export interface BurnUpPoint {
+  t: number;                 // epoch ms
+  actual?: number;           // snapshot value
+  pace?: number;             // straight line from 0 at creation to target at due_at
+  projected?: number;        // forecast from the latest snapshot
+}
+
+/**
+ * Chart rows for the burn-up: every snapshot, the ideal pace line when the
+ * goal has a due date, and the projection from the latest snapshot to
+ * due_at (or to the projected completion when there's no deadline).
+ */
+export function burnUpSeries(
+  goal: Pick<AutomationGoal, 'target_value' | 'due_at' | 'created_at'>,
+  snapshots: GoalSnapshot[],
+  forecast: GoalForecast,
+): BurnUpPoint[] {
+  const target = Number(goal.target_value);
+  const start = Date.parse(goal.created_at);
+  const due = goal.due_at ? Date.parse(goal.due_at) : null;
+  const paceAt = (t: number) => due && due > start
+    ? Math.min(target, Math.max(0, ((t - start) / (due - start)) * target))
+    : undefined;
+
+  const points: BurnUpPoint[] = [{ t: start, pace: paceAt(start) }];
+  for (const s of snapshots) {
+    const t = Date.parse(s.captured_at);
+    points.push({ t, actual: s.value, pace: paceAt(t) });
+  }
+
+  if (forecast.asOf && forecast.current !== null && forecast.velocityPerDay !== null) {
+    const from = Date.parse(forecast.asOf);
+    const anchor = points.find((p) => p.t === from && p.actual !== undefined);
+    if (anchor) anchor.projected = forecast.current;
+    const endIso = due ? goal.due_at : forecast.projectedCompletionAt;
+    const end = endIso ? Date.parse(endIso) : null;
+    if (end && end > from) {
+      points.push({
+        t: end,
+        pace: paceAt(end),
+        projected: forecast.current + forecast.velocityPerDay * ((end - from) / DAY_MS),
+      });
+    }
+  } else if (due && due > (points[points.length - 1]?.t ?? start)) {
+    points.push({ t: due, pace: target });
+  }
+
+  return points.sort((a, b) => a.t - b.t);
+}
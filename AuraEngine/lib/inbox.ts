@@ -1,10 +1,36 @@
 // AuraEngine/lib/inbox.ts
 //
 // Unified inbox data layer over inbound_emails (replies fed by the inbound-email
-// webhook). Owner-scoped by RLS.
+// webhook). Each reply carries the intent inbound-email classified it as and
+// the actions apply_reply_intent took for it.
+//
+// Replies and our outbound email_messages are grouped into inbox_threads (by
+// Message-Id / In-Reply-To, in the database). Threads are shared by the
+// workspace: assignable, open / snoozed / done, with internal notes and a
+// presence heartbeat so two reps don't answer the same conversation.
 
 import { supabase } from './supabase';
 import { scopeBusiness } from './businessScope';
+import { resolveWorkspaceId } from './tenancy';
+
+export type ReplyIntent =
+  | 'interested' | 'meeting_request' | 'objection' | 'out_of_office' | 'referral' | 'unsubscribe' | 'bounce';
+
+export const REPLY_INTENTS: Record<ReplyIntent, { label: string; tone: string }> = {
+  interested:      { label: 'Interested',      tone: 'bg-emerald-50 text-emerald-700' },
+  meeting_request: { label: 'Meeting request', tone: 'bg-indigo-50 text-indigo-700' },
+  objection:       { label: 'Objection',       tone: 'bg-amber-50 text-amber-700' },
+  out_of_office:   { label: 'Out of office',   tone: 'bg-slate-100 text-slate-600' },
+  referral:        { label: 'Referral',        tone: 'bg-sky-50 text-sky-700' },
+  unsubscribe:     { label: 'Unsubscribe',     tone: 'bg-rose-50 text-rose-700' },
+  bounce:          { label: 'Bounce',          tone: 'bg-rose-50 text-rose-700' },
+};
+
+export type IntentAction =
+  | { action: 'status'; status: string }
+  | { action: 'task' }
+  | { action: 'rescheduled'; until: string; items: number }
+  | { action: 'suppressed'; reason: 'unsub' | 'bounce' };
 
 export interface InboundEmail {
   id: string;
@@ -18,16 +44,25 @@ export interface InboundEmail {
   message_id: string | null;
   received_at: string;
   is_read: boolean;
+  intent: ReplyIntent | null;
+  intent_confidence: number | null;
+  intent_source: 'ai' | 'rules' | 'manual' | null;
+  ooo_return_date: string | null;
+  referral_email: string | null;
+  intent_actions: IntentAction[];
   leads: { first_name: string | null; last_name: string | null } | null;
 }
 
-export async function listInbound(userId: string, unreadOnly: boolean): Promise<InboundEmail[]> {
+const INBOUND_COLS = 'id, lead_id, from_email, from_name, to_email, subject, body_text, body_html, message_id, received_at, is_read, intent, intent_confidence, intent_source, ooo_return_date, referral_email, intent_actions, leads(first_name, last_name)';
+
+export async function listInbound(userId: string, unreadOnly: boolean, intent: ReplyIntent | null = null): Promise<InboundEmail[]> {
   let q = scopeBusiness(supabase.from('inbound_emails')
-    .select('id, lead_id, from_email, from_name, to_email, subject, body_text, body_html, message_id, received_at, is_read, leads(first_name, last_name)')
+    .select(INBOUND_COLS)
     .eq('owner_id', userId))
     .order('received_at', { ascending: false })
     .limit(200);
   if (unreadOnly) q = q.eq('is_read', false);
+  if (intent) q = q.eq('intent', intent);
   const { data } = await q;
   return (data ?? []) as unknown as InboundEmail[];
 }
@@ -36,6 +71,29 @@ export async function markInboundRead(id: string, isRead = true): Promise<void>
   await supabase.from('inbound_emails').update({ is_read: isRead }).eq('id', id);
 }
 
+/** Correct a reply's intent. Re-runs the intent's actions (status, task,
+ *  suppression, OOO hold) and returns the ones taken. */
+export async function setReplyIntent(id: string, intent: ReplyIntent, returnDate?: string): Promise<IntentAction[]> {
+  const { data, error } = await supabase.rpc('set_reply_intent', {
+    p_inbound_id: id, p_intent: intent, p_return_date: returnDate || null,
+  });
+  if (error) throw new Error(error.message);
+  return (data ?? []) as IntentAction[];
+}
+
+/** One line per action apply_reply_intent recorded, for the inbox detail. */
+export function describeIntentActions(actions: IntentAction[] | null | undefined): string[] {
+  return (actions ?? []).map(a => {
+    switch (a.action) {
+      case 'status': return `Lead moved to ${a.status}`;
+      case 'task': return 'Follow-up task created';
+      case 'rescheduled':
+        return `${a.items} pending step${a.items === 1 ? '' : 's'} held until ${new Date(a.until).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`;
+      case 'suppressed': return a.reason === 'bounce' ? 'Address suppressed (bounced)' : 'Address suppressed (unsubscribed)';
+    }
+  });
+}
+
 export async function unreadInboundCount(userId: string): Promise<number> {
   const { count } = await scopeBusiness(supabase.from('inbound_emails')
     .select('id', { count: 'exact', head: true })
@@ -77,3 +135,202 @@ export async function sendReply(m: InboundEmail, bodyHtml: string): Promise<{ ok
   if (!res.ok || data.success === false) return { ok: false, error: data.error || `Send failed (HTTP ${res.status})` };
   return { ok: true };
 }
+
+// ─── Threads ───
+
+export type ThreadStatus = 'open' | 'snoozed' | 'done';
+export type ThreadAssignee = 'all' | 'mine' | 'unassigned';
+
+export interface InboxThread {
+  id: string;
+  workspace_id: string;
+  lead_id: string | null;
+  subject: string | null;
+  status: ThreadStatus;
+  snoozed_until: string | null;
+  assigned_to: string | null;
+  last_message_at: string;
+  leads: { first_name: string | null; last_name: string | null } | null;
+  /** From the thread's replies (see summarizeThreads). */
+  unread: number;
+  replies: number;
+  latestIntent: ReplyIntent | null;
+  contactEmail: string | null;
+  contactName: string | null;
+}
+
+type ThreadRow = Omit<InboxThread, 'unread' | 'replies' | 'latestIntent' | 'contactEmail' | 'contactName'>;
+type ThreadReplyRow = Pick<InboundEmail, 'from_email' | 'from_name' | 'is_read' | 'intent' | 'received_at'> & { thread_id: string };
+
+/** A snoozed thread whose snooze has run out is open again. */
+export function effectiveStatus(t: Pick<InboxThread, 'status' | 'snoozed_until'>, now = new Date()): ThreadStatus {
+  if (t.status === 'snoozed' && (!t.snoozed_until || new Date(t.snoozed_until) <= now)) return 'open';
+  return t.status;
+}
+
+/** Fill each thread's unread count, reply count, latest intent and contact from its replies. */
+export function summarizeThreads(threads: ThreadRow[], replies: ThreadReplyRow[]): InboxThread[] {
+  const byThread = new Map<string, ThreadReplyRow[]>();
+  for (const r of replies) {
+    const list = byThread.get(r.thread_id) ?? [];
+    list.push(r);
+    byThread.set(r.thread_id, list);
+  }
+  return threads.map(t => {
+    const rs = (byThread.get(t.id) ?? []).sort((a, b) => b.received_at.localeCompare(a.received_at));
+    return {
+      ...t,
+      unread: rs.filter(r => !r.is_read).length,
+      replies: rs.length,
+      latestIntent: rs.find(r => r.intent)?.intent ?? null,
+      contactEmail: rs[0]?.from_email ?? null,
+      contactName: rs[0]?.from_name ?? null,
+    };
+  });
+}
+
+export const threadContactName = (t: InboxThread): string => {
+  const lead = `${t.leads?.first_name ?? ''} ${t.leads?.last_name ?? ''}`.trim();
+  return lead || t.contactName || t.contactEmail || '(unknown sender)';
+};
+
+export async function listThreads(userId: string, view: ThreadStatus, assignee: ThreadAssignee): Promise<InboxThread[]> {
+  const workspaceId = await resolveWorkspaceId(userId);
+  const now = new Date().toISOString();
+  let q = scopeBusiness(supabase.from('inbox_threads')
+    .select('id, workspace_id, lead_id, subject, status, snoozed_until, assigned_to, last_message_at, leads(first_name, last_name)')
+    .eq('workspace_id', workspaceId))
+    .order('last_message_at', { ascending: false })
+    .limit(200);
+  if (view === 'open') q = q.or(`status.eq.open,and(status.eq.snoozed,snoozed_until.lte.${now})`);
+  else if (view === 'snoozed') q = q.eq('status', 'snoozed').gt('snoozed_until', now);
+  else q = q.eq('status', 'done');
+  if (assignee === 'mine') q = q.eq('assigned_to', userId);
+  else if (assignee === 'unassigned') q = q.is('assigned_to', null);
+  const { data: threads } = await q;
+  const rows = (threads ?? []) as unknown as ThreadRow[];
+  if (rows.length === 0) return [];
+  const { data: replies } = await supabase.from('inbound_emails')
+    .select('thread_id, from_email, from_name, is_read, intent, received_at')
+    .in('thread_id', rows.map(t => t.id));
+  return summarizeThreads(rows, (replies ?? []) as ThreadReplyRow[]);
+}
+
+export interface OutboundEmail {
+  id: string;
+  from_email: string | null;
+  to_email: string | null;
+  subject: string | null;
+  body_html: string | null;
+  status: string | null;
+  sent_by: string | null;
+  created_at: string;
+}
+
+export type ThreadMessage =
+  | { kind: 'inbound'; at: string; email: InboundEmail }
+  | { kind: 'outbound'; at: string; email: OutboundEmail };
+
+const OUTBOUND_COLS = 'id, from_email, to_email, subject, body_html, status, sent_by, created_at';
+
+/** Replies and our sends interleaved, oldest first. */
+export function mergeThreadMessages(inbound: InboundEmail[], outbound: OutboundEmail[]): ThreadMessage[] {
+  const merged: ThreadMessage[] = [
+    ...inbound.map(email => ({ kind: 'inbound' as const, at: email.received_at, email })),
+    ...outbound.map(email => ({ kind: 'outbound' as const, at: email.created_at, email })),
+  ];
+  return merged.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+}
+
+export async function getThreadMessages(threadId: string): Promise<ThreadMessage[]> {
+  const [{ data: inbound }, { data: outbound }] = await Promise.all([
+    supabase.from('inbound_emails').select(INBOUND_COLS).eq('thread_id', threadId),
+    supabase.from('email_messages').select(OUTBOUND_COLS).eq('thread_id', threadId),
+  ]);
+  return mergeThreadMessages((inbound ?? []) as unknown as InboundEmail[], (outbound ?? []) as OutboundEmail[]);
+}
+
+export async function markThreadRead(threadId: string): Promise<void> {
+  await supabase.from('inbound_emails').update({ is_read: true }).eq('thread_id', threadId).eq('is_read', false);
+}
+
+export async function assignThread(threadId: string, assignee: string | null): Promise<void> {
+  const { error } = await supabase.from('inbox_threads').update({ assigned_to: assignee }).eq('id', threadId);
+  if (error) throw new Error(error.message);
+}
+
+/** Open, done, or snoozed until `snoozedUntil`. A new reply reopens it either way. */
+export async function setThreadStatus(threadId: string, status: ThreadStatus, snoozedUntil?: string): Promise<void> {
+  const { error } = await supabase.from('inbox_threads')
+    .update({ status, snoozed_until: status === 'snoozed' ? snoozedUntil ?? null : null })
+    .eq('id', threadId);
+  if (error) throw new Error(error.message);
+}
+
+// ─── Internal notes (never sent) ───
+
+export interface ThreadNote { id: string; author_id: string; body: string; created_at: string }
+
+export async function listThreadNotes(threadId: string): Promise<ThreadNote[]> {
+  const { data } = await supabase.from('inbox_thread_notes')
+    .select('id, author_id, body, created_at')
+    .eq('thread_id', threadId)
+    .order('created_at', { ascending: true });
+  return (data ?? []) as ThreadNote[];
+}
+
+export async function addThreadNote(thread: Pick<InboxThread, 'id' | 'workspace_id'>, userId: string, body: string): Promise<ThreadNote> {
+  const { data, error } = await supabase.from('inbox_thread_notes')
+    .insert({ thread_id: thread.id, workspace_id: thread.workspace_id, author_id: userId, body: body.trim() })
+    .select('id, author_id, body, created_at')
+    .single();
+  if (error || !data) throw new Error(error?.message || 'Could not save the note');
+  return data as ThreadNote;
+}
+
+export async function deleteThreadNote(id: string): Promise<void> {
+  await supabase.from('inbox_thread_notes').delete().eq('id', id);
+}
+
+// ─── Collision warning ───
+
+export type PresenceState = 'viewing' | 'replying';
+export interface ThreadPresence { user_id: string; state: PresenceState; seen_at: string }
+
+/** The inbox heartbeats this often while a thread is open; rows older than 3 beats are stale. */
+export const PRESENCE_HEARTBEAT_MS = 15_000;
+const PRESENCE_TTL_MS = PRESENCE_HEARTBEAT_MS * 3;
+
+/** Teammates (not `userId`) currently on the thread, repliers first. */
+export function activeTeammates(rows: ThreadPresence[], userId: string, now = new Date()): ThreadPresence[] {
+  return rows
+    .filter(r => r.user_id !== userId && now.getTime() - new Date(r.seen_at).getTime() < PRESENCE_TTL_MS)
+    .sort((a, b) => (a.state === b.state ? 0 : a.state === 'replying' ? -1 : 1));
+}
+
+export async function touchThreadPresence(thread: Pick<InboxThread, 'id' | 'workspace_id'>, userId: string, state: PresenceState): Promise<void> {
+  await supabase.from('inbox_thread_presence').upsert({
+    thread_id: thread.id, user_id: userId, workspace_id: thread.workspace_id, state, seen_at: new Date().toISOString(),
+  });
+}
+
+export async function leaveThread(threadId: string, userId: string): Promise<void> {
+  await supabase.from('inbox_thread_presence').delete().eq('thread_id', threadId).eq('user_id', userId);
+}
+
+export async function listThreadPresence(threadId: string): Promise<ThreadPresence[]> {
+  const { data } = await supabase.from('inbox_thread_presence')
+    .select('user_id, state, seen_at')
+    .eq('thread_id', threadId);
+  return (data ?? []) as ThreadPresence[];
+}
+
+/** Replies a teammate sent on the thread after `sinceIso` — checked right before sending. */
+export async function teammateRepliesSince(threadId: string, userId: string, sinceIso: string): Promise<OutboundEmail[]> {
+  const { data } = await supabase.from('email_messages')
+    .select(OUTBOUND_COLS)
+    .eq('thread_id', threadId)
+    .neq('sent_by', userId)
+    .gt('created_at', sinceIso);
+  return (data ?? []) as OutboundEmail[];
+}
@@ -0,0 +1,328 @@
+// AuraEngine/lib/leadConditions.ts
+//
+// The lead condition language. A condition is a tree of AND/OR groups whose
+// leaves compare one lead field against a value. Workflow condition nodes and
+// the Lead Management segment filters both evaluate through evaluateCondition()
+// here, so a rule means the same thing in both places. The workflow runner
+// carries a port in supabase/functions/_shared/workflow/conditions.ts — keep
+// the two in step.
+//
+// Fields:
+//   <lead column>          score, status, company, industry, tags, created_at, …
+//   custom_fields.<key>    imported custom columns
+//   lead_scores.<sub>      fit_score, intent_score, engagement_score, … (lead_scores row)
+//   email.<metric>         sent, opened, clicked, open_count (non-bot, last 30 days)
+
+import type { Lead } from '../types';
+import type { LeadScoreBreakdown } from './leadScoring';
+import type { BatchEmailSummary } from './emailTracking';
+
+// ─── Types ───
+
+export type ConditionOperator =
+  | 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte'
+  | 'contains' | 'not_contains'
+  | 'matches'
+  | 'in' | 'not_in'
+  | 'exists' | 'not_exists'
+  | 'between'
+  | 'older_than_days' | 'within_days';
+
+export type ConditionValue = string | number | boolean | (string | number)[];
+
+export interface ConditionRule {
+  field: string;
+  operator: ConditionOperator;
+  value?: ConditionValue;
+  /** Upper bound for `between` (inclusive). */
+  valueTo?: number;
+}
+
+export interface ConditionGroup {
+  combinator: 'and' | 'or';
+  rules: ConditionExpr[];
+}
+
+export type ConditionExpr = ConditionRule | ConditionGroup;
+
+/** Data that lives outside the leads row. Fields that need a missing piece evaluate as absent. */
+export interface ConditionContext {
+  scores?: Partial<LeadScoreBreakdown> | null;
+  engagement?: BatchEmailSummary | null;
+  /** Clock for date-relative operators; defaults to Date.now(). */
+  now?: number;
+}
+
+export type ConditionFieldType = 'number' | 'string' | 'date' | 'list' | 'boolean';
+
+export interface ConditionField {
+  key: string;
+  label: string;
+  type: ConditionFieldType;
+  /** 'Event' fields come from webhook payloads (lib/webhookSchemas.ts), not the lead catalog. */
+  group: 'Lead' | 'Score' | 'Email' | 'Event';
+  options?: string[];
+}
+
+// ─── Catalog ───
+
+export const CONDITION_FIELDS: ConditionField[] = [
+  { key: 'score', label: 'Lead Score', type: 'number', group: 'Lead' },
+  { key: 'status', label: 'Status', type: 'string', group: 'Lead', options: ['New', 'Contacted', 'Qualified', 'Converted', 'Lost'] },
+  { key: 'company', label: 'Company', type: 'string', group: 'Lead' },
+  { key: 'title', label: 'Job Title', type: 'string', group: 'Lead' },
+  { key: 'industry', label: 'Industry', type: 'string', group: 'Lead' },
+  { key: 'company_size', label: 'Company Size', type: 'string', group: 'Lead' },
+  { key: 'location', label: 'Location', type: 'string', group: 'Lead' },
+  { key: 'source', label: 'Source', type: 'string', group: 'Lead' },
+  { key: 'primary_email', label: 'Email Address', type: 'string', group: 'Lead' },
+  { key: 'assigned_to', label: 'Assigned To', type: 'string', group: 'Lead' },
+  { key: 'tags', label: 'Tags', type: 'list', group: 'Lead' },
+  { key: 'created_at', label: 'Created', type: 'date', group: 'Lead' },
+  { key: 'last_activity', label: 'Last Activity', type: 'date', group: 'Lead' },
+  { key: 'lead_scores.fit_score', label: 'Fit Score', type: 'number', group: 'Score' },
+  { key: 'lead_scores.intent_score', label: 'Intent Score', type: 'number', group: 'Score' },
+  { key: 'lead_scores.engagement_score', label: 'Engagement Score', type: 'number', group: 'Score' },
+  { key: 'lead_scores.data_quality_score', label: 'Data Quality Score', type: 'number', group: 'Score' },
+  { key: 'lead_scores.deliverability_score', label: 'Deliverability Score', type: 'number', group: 'Score' },
+  { key: 'lead_scores.urgency_score', label: 'Urgency Score', type: 'number', group: 'Score' },
+  { key: 'lead_scores.risk_score', label: 'Risk Penalty', type: 'number', group: 'Score' },
+  { key: 'lead_scores.confidence', label: 'Score Confidence (0-1)', type: 'number', group: 'Score' },
+  { key: 'email.sent', label: 'Emailed', type: 'boolean', group: 'Email' },
+  { key: 'email.opened', label: 'Opened (30d)', type: 'boolean', group: 'Email' },
+  { key: 'email.clicked', label: 'Clicked (30d)', type: 'boolean', group: 'Email' },
+  { key: 'email.open_count', label: 'Opens (30d)', type: 'number', group: 'Email' },
+];
+
+export const CONDITION_OPERATORS: { value: ConditionOperator; label: string; types: ConditionFieldType[] }[] = [
+  { value: 'eq', label: 'is', types: ['number', 'string', 'boolean'] },
+  { value: 'neq', label: 'is not', types: ['number', 'string', 'boolean'] },
+  { value: 'gt', label: 'greater than', types: ['number'] },
+  { value: 'gte', label: 'at least', types: ['number'] },
+  { value: 'lt', label: 'less than', types: ['number'] },
+  { value: 'lte', label: 'at most', types: ['number'] },
+  { value: 'between', label: 'between', types: ['number'] },
+  { value: 'contains', label: 'contains', types: ['string', 'list'] },
+  { value: 'not_contains', label: 'does not contain', types: ['string', 'list'] },
+  { value: 'matches', label: 'matches pattern', types: ['string', 'list'] },
+  { value: 'in', label: 'is one of', types: ['string', 'number', 'list'] },
+  { value: 'not_in', label: 'is none of', types: ['string', 'number', 'list'] },
+  { value: 'older_than_days', label: 'more than N days ago', types: ['date'] },
+  { value: 'within_days', label: 'within the last N days', types: ['date'] },
+  { value: 'exists', label: 'is set', types: ['number', 'string', 'date', 'list', 'boolean'] },
+  { value: 'not_exists', label: 'is empty', types: ['number', 'string', 'date', 'list', 'boolean'] },
+];
+
+const CUSTOM_FIELD_PREFIX = 'custom_fields.';
+
+/** Catalog entry for `key`; custom fields are described on the fly as text. */
+export function conditionField(key: string): ConditionField | undefined {
+  const known = CONDITION_FIELDS.find(f => f.key === key);
+  if (known) return known;
+  if (key.startsWith(CUSTOM_FIELD_PREFIX) && key.length > CUSTOM_FIELD_PREFIX.length) {
+    return { key, label: key.slice(CUSTOM_FIELD_PREFIX.length), type: 'string', group: 'Lead' };
+  }
+  return undefined;
+}
+
+export function operatorsForField(key: string): typeof CONDITION_OPERATORS {
+  const type = conditionField(key)?.type ?? 'string';
+  return CONDITION_OPERATORS.filter(o => o.types.includes(type));
+}
+
+// ─── Shape helpers ───
+
+export function isConditionGroup(expr: ConditionExpr): expr is ConditionGroup {
+  return (expr as ConditionGroup).rules !== undefined;
+}
+
+export function emptyConditionGroup(combinator: ConditionGroup['combinator'] = 'and'): ConditionGroup {
+  return { combinator, rules: [] };
+}
+
+/** Every field the expression reads, for deciding which context to load. */
+export function conditionFields(expr: ConditionExpr): string[] {
+  if (!isConditionGroup(expr)) return [expr.field];
+  return expr.rules.flatMap(conditionFields);
+}
+
+export function conditionNeeds(expr: ConditionExpr): { scores: boolean; engagement: boolean } {
+  const fields = conditionFields(expr);
+  return {
+    scores: fields.some(f => f.startsWith('lead_scores.')),
+    engagement: fields.some(f => f.startsWith('email.')),
+  };
+}
+
+/**
+ * A condition node saved before the condition language: a single
+ * { field, operator, value } in its config. The old email_* fields map onto
+ * email.*; everything else keeps its name.
+ */
+export function legacyConditionGroup(config: Record<string, unknown>): ConditionGroup {
+  const legacyFields: Record<string, string> = { email_opened: 'email.opened', email_clicked: 'email.clicked' };
+  const rawField = (config.field as string) || 'score';
+  const field = legacyFields[rawField] ?? rawField;
+  const operator = ((config.operator as string) || 'gt') as ConditionOperator;
+  const type = conditionField(field)?.type;
+  // email_opened > 0 / = 1 used to mean "has opened".
+  if (type === 'boolean' && (operator === 'gt' || operator === 'eq')) {
+    return { combinator: 'and', rules: [{ field, operator: 'eq', value: true }] };
+  }
+  return { combinator: 'and', rules: [{ field, operator, value: config.value as ConditionValue }] };
+}
+
+// ─── Evaluation ───
+
+const DAY_MS = 86_400_000;
+
+/** The value `field` has for this lead, or undefined when it has none. */
+export function resolveConditionField(field: string, lead: Lead, ctx: ConditionContext = {}): unknown {
+  if (field.startsWith(CUSTOM_FIELD_PREFIX)) {
+    return lead.custom_fields?.[field.slice(CUSTOM_FIELD_PREFIX.length)];
+  }
+  if (field.startsWith('lead_scores.')) {
+    return (ctx.scores as Record<string, unknown> | null | undefined)?.[field.slice('lead_scores.'.length)];
+  }
+  if (field.startsWith('email.')) {
+    const e = ctx.engagement;
+    switch (field) {
+      case 'email.sent': return e?.hasSent ?? false;
+      case 'email.opened': return e?.hasOpened ?? false;
+      case 'email.clicked': return e?.hasClicked ?? false;
+      case 'email.open_count': return e?.openCount ?? 0;
+      default: return undefined;
+    }
+  }
+  if (field === 'primary_email') return lead.primary_email || lead.email;
+  if (field === 'last_activity') return lead.last_activity || lead.lastActivity;
+  return (lead as unknown as Record<string, unknown>)[field];
+}
+
+const isBlank = (v: unknown) =>
+  v === undefined || v === null || (typeof v === 'string' && v.trim() === '') || (Array.isArray(v) && v.length === 0);
+
+const norm = (v: unknown) => String(v).trim().toLowerCase();
+
+/** `matches` takes a case-insensitive regular expression, e.g. `VP|Director`. Invalid patterns match nothing. */
+function patternOf(value: ConditionValue | undefined): RegExp | null {
+  try {
+    return new RegExp(String(value ?? ''), 'i');
+  } catch {
+    return null;
+  }
+}
+
+/** `in` accepts an array or a comma-separated string. */
+function listOf(value: ConditionValue | undefined): string[] {
+  if (Array.isArray(value)) return value.map(norm);
+  if (value === undefined || value === '') return [];
+  return String(value).split(',').map(norm).filter(Boolean);
+}
+
+function sameValue(actual: unknown, expected: ConditionValue | undefined): boolean {
+  if (typeof actual === 'boolean') return actual === (expected === true || norm(expected) === 'true');
+  if (typeof actual === 'number' && expected !== '' && !Number.isNaN(Number(expected))) return actual === Number(expected);
+  return norm(actual) === norm(expected);
+}
+
+function evaluateRule(rule: ConditionRule, lead: Lead, ctx: ConditionContext): boolean {
+  const actual = resolveConditionField(rule.field, lead, ctx);
+  const { operator, value } = rule;
+
+  if (operator === 'exists') return !isBlank(actual);
+  if (operator === 'not_exists') return isBlank(actual);
+  if (isBlank(actual)) return operator === 'neq' || operator === 'not_contains' || operator === 'not_in';
+
+  switch (operator) {
+    case 'eq': return sameValue(actual, value);
+    case 'neq': return !sameValue(actual, value);
+    case 'gt': return Number(actual) > Number(value);
+    case 'gte': return Number(actual) >= Number(value);
+    case 'lt': return Number(actual) < Number(value);
+    case 'lte': return Number(actual) <= Number(value);
+    case 'between': {
+      const n = Number(actual);
+      return n >= Number(value) && n <= Number(rule.valueTo);
+    }
+    case 'contains':
+    case 'not_contains': {
+      const hit = Array.isArray(actual)
+        ? actual.some(a => norm(a) === norm(value))
+        : norm(actual).includes(norm(value));
+      return operator === 'contains' ? hit : !hit;
+    }
+    case 'matches': {
+      const re = patternOf(value);
+      if (!re) return false;
+      return Array.isArray(actual) ? actual.some(a => re.test(String(a))) : re.test(String(actual));
+    }
+    case 'in':
+    case 'not_in': {
+      const allowed = listOf(value);
+      const hit = Array.isArray(actual) ? actual.some(a => allowed.includes(norm(a))) : allowed.includes(norm(actual));
+      return operator === 'in' ? hit : !hit;
+    }
+    case 'older_than_days':
+    case 'within_days': {
+      const t = new Date(String(actual)).getTime();
+      if (Number.isNaN(t)) return false;
+      const ageDays = ((ctx.now ?? Date.now()) - t) / DAY_MS;
+      return operator === 'older_than_days' ? ageDays > Number(value) : ageDays <= Number(value);
+    }
+    default:
+      return false;
+  }
+}
+
+/** True when the lead satisfies the expression. An empty group matches everything. */
+export function evaluateCondition(expr: ConditionExpr, lead: Lead, ctx: ConditionContext = {}): boolean {
+  if (!isConditionGroup(expr)) return evaluateRule(expr, lead, ctx);
+  if (expr.rules.length === 0) return true;
+  return expr.combinator === 'or'
+    ? expr.rules.some(r => evaluateCondition(r, lead, ctx))
+    : expr.rules.every(r => evaluateCondition(r, lead, ctx));
+}
+
+// ─── Description ───
+
+function describeValue(rule: ConditionRule): string {
+  if (rule.operator === 'between') return `${rule.value} and ${rule.valueTo}`;
+  if (rule.operator === 'older_than_days' || rule.operator === 'within_days') return `${rule.value} days`;
+  if (Array.isArray(rule.value)) return rule.value.join(', ');
+  return String(rule.value ?? '');
+}
+
+/** Human-readable form, e.g. `Lead Score at least 50 AND (Status is Qualified OR Opens (30d) greater than 2)`. */
+export function describeCondition(expr: ConditionExpr): string {
+  if (!isConditionGroup(expr)) {
+    const label = conditionField(expr.field)?.label ?? expr.field;
+    const op = CONDITION_OPERATORS.find(o => o.value === expr.operator)?.label ?? expr.operator;
+    if (expr.operator === 'exists' || expr.operator === 'not_exists') return `${label} ${op}`;
+    return `${label} ${op} ${describeValue(expr)}`;
+  }
+  if (expr.rules.length === 0) return 'any lead';
+  const joiner = expr.combinator === 'or' ? ' OR ' : ' AND ';
+  return expr.rules
+    .map(r => (isConditionGroup(r) && r.rules.length > 1 ? `(${describeCondition(r)})` : describeCondition(r)))
+    .join(joiner);
+}
+
+/** Problems that would make the expression misbehave, for the builder checklist. */
+export function validateCondition(expr: ConditionExpr): string[] {
+  if (isConditionGroup(expr)) return expr.rules.flatMap(validateCondition);
+  const field = conditionField(expr.field);
+  if (!field) return [`Unknown field "${expr.field}"`];
+  if (!operatorsForField(expr.field).some(o => o.value === expr.operator)) {
+    return [`"${CONDITION_OPERATORS.find(o => o.value === expr.operator)?.label ?? expr.operator}" doesn't apply to ${field.label}`];
+  }
+  if (expr.operator === 'exists' || expr.operator === 'not_exists') return [];
+  if (isBlank(expr.value)) return [`${field.label}: value is required`];
+  if (expr.operator === 'between' && (isBlank(expr.valueTo) || Number(expr.valueTo) < Number(expr.value))) {
+    return [`${field.label}: "between" needs an upper bound at or above the lower one`];
+  }
+  if (expr.operator === 'matches' && !patternOf(expr.value)) {
+    return [`${field.label}: "${expr.value}" is not a valid pattern`];
+  }
+  return [];
+}
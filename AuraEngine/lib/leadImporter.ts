@@ -31,6 +31,9 @@ export interface ImportResult {
   plan_limit: number;
   contacts_before: number;
   contacts_after: number;
+  /** Set when a chunk after the first failed: the counts cover the rows
+   *  before it, and the batch is closed as failed so it can be undone. */
+  error?: string;
 }
 
 export interface ContactsCapacity {
@@ -147,7 +150,13 @@ export async function checkContactsCapacity(
 
 const CHUNK_SIZE = 500;
 
-/** Execute a file import via the import_leads_batch RPC. Chunks large imports. */
+/**
+ * Execute a file import via the import_leads_batch RPC. Large files go up in
+ * chunks that all append to the one batch the first chunk opens, so the file
+ * has a single batch_id to review or undo. Throws if the first chunk fails;
+ * a later failure closes the batch (fail_import_batch) and returns what
+ * landed, with `error` set.
+ */
 export async function executeImport(
   workspaceId: string,
   mapping: ColumnMapping,
@@ -156,65 +165,165 @@ export async function executeImport(
   fileName: string,
   fileType: string
 ): Promise<ImportResult> {
-  // For small imports, single RPC call
-  if (rows.length <= CHUNK_SIZE) {
-    const { data, error } = await supabase.rpc('import_leads_batch', {
-      p_workspace_id: workspaceId,
-      p_file_name: fileName,
-      p_file_type: fileType,
-      p_rows: rows,
-      p_mapping: mapping,
-      p_options: options,
-    });
-
-    if (error) throw new Error(error.message);
-    return data as ImportResult;
-  }
-
-  // Chunk large imports
+  let batchId: string | null = null;
   let totalImported = 0;
   let totalUpdated = 0;
   let totalSkipped = 0;
   let allSkippedRows: ImportResult['skipped_rows'] = [];
+  let firstResult: ImportResult | null = null;
   let lastResult: ImportResult | null = null;
+  let failure: string | undefined;
 
-  for (let i = 0; i < rows.length; i += CHUNK_SIZE) {
-    const chunk = rows.slice(i, i + CHUNK_SIZE);
-    const chunkNum = Math.floor(i / CHUNK_SIZE) + 1;
-
+  for (let i = 0; i === 0 || i < rows.length; i += CHUNK_SIZE) {
     const { data, error } = await supabase.rpc('import_leads_batch', {
       p_workspace_id: workspaceId,
-      p_file_name: `${fileName} (chunk ${chunkNum})`,
+      p_file_name: fileName,
       p_file_type: fileType,
-      p_rows: chunk,
+      p_rows: rows.slice(i, i + CHUNK_SIZE),
       p_mapping: mapping,
-      p_options: options,
+      p_options: {
+        ...options,
+        batch_id: batchId ?? undefined,
+        row_offset: i,
+        total_rows: rows.length,
+        final: i + CHUNK_SIZE >= rows.length,
+      },
     });
 
-    if (error) throw new Error(error.message);
+    if (error) {
+      if (!batchId) throw new Error(error.message);
+      const { error: closeErr } = await supabase.rpc('fail_import_batch', { p_batch_id: batchId, p_error: error.message });
+      failure = `Stopped at row ${i + 1} of ${rows.length}: ${error.message}` +
+        (closeErr ? ` (the batch could not be marked failed: ${closeErr.message})` : '');
+      break;
+    }
     const result = data as ImportResult;
 
+    batchId = result.batch_id;
     totalImported += result.imported_count;
     totalUpdated += result.updated_count;
     totalSkipped += result.skipped_count;
-    allSkippedRows = allSkippedRows.concat(
-      result.skipped_rows.map(r => ({ ...r, row: r.row + i }))
-    );
+    // Row numbers are already file-wide (row_offset).
+    allSkippedRows = allSkippedRows.concat(result.skipped_rows);
+    firstResult ??= result;
     lastResult = result;
   }
 
   return {
-    batch_id: lastResult!.batch_id,
+    batch_id: batchId!,
     imported_count: totalImported,
     updated_count: totalUpdated,
     skipped_count: totalSkipped,
     skipped_rows: allSkippedRows,
     plan_limit: lastResult!.plan_limit,
-    contacts_before: lastResult!.contacts_before,
+    contacts_before: firstResult!.contacts_before,
     contacts_after: lastResult!.contacts_after,
+    ...(failure ? { error: failure } : {}),
   };
 }
 
+// ── Diff report + undo ──────────────────────────────────────────────────────
+
+export type ImportChangeAction = 'created' | 'updated' | 'skipped';
+
+/** One row of import_batch_changes (migration 20260823230000). */
+export interface ImportChange {
+  row_number: number;
+  action: ImportChangeAction;
+  reason: string | null;
+  identifier: string | null;
+  lead_id: string | null;
+  changed_fields: string[];
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}
+
+export interface ImportDiffReport {
+  created: ImportChange[];
+  updated: ImportChange[];
+  skipped: ImportChange[];
+  /** Skip reasons with their counts, most common first. */
+  skipReasons: { reason: string; count: number }[];
+}
+
+export interface UndoImportResult {
+  batch_id: string;
+  deleted: number;
+  restored: number;
+  conflicts: { lead_id: string; identifier: string | null; reason: 'edited_since_import' | 'updated_by_later_import'; fields?: string[] }[];
+}
+
+export const SKIP_REASON_LABELS: Record<string, string> = {
+  duplicate: 'Already in your leads (dedupe: skip)',
+  plan_limit: 'Over your plan\'s contact limit',
+};
+
+/** Group a batch's change rows for the diff report, in file order. */
+export function buildImportDiff(changes: ImportChange[]): ImportDiffReport {
+  const sorted = [...changes].sort((a, b) => a.row_number - b.row_number);
+  const skipped = sorted.filter((c) => c.action === 'skipped');
+  const counts = new Map<string, number>();
+  for (const c of skipped) {
+    const reason = c.reason ?? 'unknown';
+    counts.set(reason, (counts.get(reason) ?? 0) + 1);
+  }
+  return {
+    created: sorted.filter((c) => c.action === 'created'),
+    updated: sorted.filter((c) => c.action === 'updated'),
+    skipped,
+    skipReasons: [...counts.entries()]
+      .map(([reason, count]) => ({ reason, count }))
+      .sort((a, b) => b.count - a.count || a.reason.localeCompare(b.reason)),
+  };
+}
+
+function showValue(v: unknown): string {
+  if (v === null || v === undefined || v === '') return '—';
+  if (Array.isArray(v)) return v.length ? v.join(', ') : '—';
+  if (typeof v === 'object') return JSON.stringify(v);
+  return String(v);
+}
+
+/** "title: CTO → VP Engineering" lines for an updated row. */
+export function describeFieldChanges(change: ImportChange): string[] {
+  return change.changed_fields.map((f) =>
+    `${f}: ${showValue(change.before?.[f])} → ${showValue(change.after?.[f])}`,
+  );
+}
+
+// PostgREST caps a response at max-rows (1000 on Supabase), so the change
+// rows of a large import are read a page at a time.
+const DIFF_PAGE_SIZE = 1000;
+
+export async function getImportDiff(batchId: string): Promise<ImportDiffReport> {
+  const changes: ImportChange[] = [];
+  for (let from = 0; ; from += DIFF_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('import_batch_changes')
+      .select('row_number, action, reason, identifier, lead_id, changed_fields, before, after')
+      .eq('batch_id', batchId)
+      .order('row_number', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + DIFF_PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    const page = (data ?? []) as ImportChange[];
+    changes.push(...page);
+    if (page.length < DIFF_PAGE_SIZE) break;
+  }
+  return buildImportDiff(changes);
+}
+
+/**
+ * Undo a whole import: deletes the leads it created and restores the fields
+ * it overwrote. Fields edited since the import are left alone and come back
+ * as conflicts.
+ */
+export async function undoImport(batchId: string): Promise<UndoImportResult> {
+  const { data, error } = await supabase.rpc('undo_import_batch', { p_batch_id: batchId });
+  if (error) throw new Error(error.message);
+  return data as UndoImportResult;
+}
+
 /** All core fields the column mapper should show */
 export const CORE_FIELDS: { value: LeadField; label: string }[] = [
   { value: 'full_name', label: 'Full Name' },
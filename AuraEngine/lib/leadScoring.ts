@@ -5,12 +5,31 @@
 // suppression — never an AI guess and never random. Computes a 0-100 total from
 // weighted sub-scores, stores the breakdown in lead_scores, and syncs leads.score
 // so the existing UI reflects the real number.
+//
+// How much each sub-score is worth, plus any ICP rules on top, comes from the
+// workspace's active scoring profile (lib/scoringProfiles.ts); without one the
+// original weights apply.
+//
+// Intent and engagement decay with the age of the last open/click. Score
+// changes are snapshotted into lead_score_history by a trigger on lead_scores
+// (see lib/scoreHistory.ts), so a lead's score can be followed over time.
+// Idle leads are re-aged hourly by rescore_decayed_lead_scores() (pg_cron),
+// which mirrors the time-dependent parts of computeScore below — keep the two
+// in step when changing decay, recency or urgency.
 
 import { supabase } from './supabase';
 import { Lead } from '../types';
-import { fetchBatchEmailSummary } from './emailTracking';
+import { fetchBatchEmailSummary, type BatchEmailSummary } from './emailTracking';
 import { isFlagEnabledDefaultOn } from './goals';
 import { resolveWorkspaceForUser } from './memory';
+import {
+  DEFAULT_SCORE_WEIGHTS,
+  DEFAULT_SCORING_MODEL,
+  getActiveScoringModel,
+  matchScoringRules,
+  type ScoreCategory,
+  type ScoringModel,
+} from './scoringProfiles';
 
 // Lead intelligence (score / research / next-action panels) is ON by default —
 // a workspace_feature_flags row with enabled=false opts a workspace out. The
@@ -37,6 +56,8 @@ export interface LeadScoreBreakdown {
   reason_summary: string;
   scoring_inputs: Record<string, unknown>;
   contactable: boolean;
+  /** Scoring profile that produced the score; null for the built-in default. */
+  profile_id: string | null;
 }
 
 const clamp = (n: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, n));
@@ -51,10 +72,26 @@ function daysSince(iso?: string | null): number | null {
 
 interface Inputs {
   validation: { status?: string; is_disposable?: boolean; is_role?: boolean } | null;
-  engagement: { hasSent: boolean; hasOpened: boolean; hasClicked: boolean; openCount: number };
+  engagement: BatchEmailSummary;
   suppressed: boolean;
 }
 
+const NO_ENGAGEMENT: BatchEmailSummary = {
+  hasSent: false, hasOpened: false, hasClicked: false, openCount: 0, lastOpenedAt: null, lastClickedAt: null,
+};
+
+// Opens and clicks lose half their weight every half-life, so a lead that
+// clicked three weeks ago no longer scores like one that clicked today.
+export const INTENT_HALF_LIFE_DAYS = 7;
+export const ENGAGEMENT_HALF_LIFE_DAYS = 14;
+
+/** Share of a signal's points still earned `days` after it happened (1 → 0).
+ *  An unknown age (null) counts in full. */
+export function decayFactor(days: number | null, halfLifeDays: number): number {
+  if (days == null) return 1;
+  return Math.pow(0.5, Math.max(0, days) / halfLifeDays);
+}
+
 async function gather(businessId: string, lead: Lead): Promise<Inputs> {
   const email = (lead.primary_email ?? '').trim().toLowerCase();
 
@@ -71,29 +108,35 @@ async function gather(businessId: string, lead: Lead): Promise<Inputs> {
 
   return {
     validation: (valRes as { data: Inputs['validation'] }).data ?? null,
-    engagement: engMap.get(lead.id) ?? { hasSent: false, hasOpened: false, hasClicked: false, openCount: 0 },
+    engagement: engMap.get(lead.id) ?? NO_ENGAGEMENT,
     suppressed: !!(supRes as { data: unknown }).data,
   };
 }
 
-export function computeScore(lead: Lead, i: Inputs): LeadScoreBreakdown {
+export function computeScore(lead: Lead, i: Inputs, model: ScoringModel = DEFAULT_SCORING_MODEL): LeadScoreBreakdown {
   const eng = i.engagement;
   const vstatus = i.validation?.status;
-  const recency = daysSince((lead as { last_activity_at?: string }).last_activity_at ?? lead.last_activity ?? lead.created_at);
+  const activityAt = (lead as { last_activity_at?: string }).last_activity_at ?? lead.last_activity ?? lead.created_at;
+  const recency = daysSince(activityAt);
 
   // Fit /25 — firmographic completeness
   const fit = clamp(
     (has(lead.industry) ? 7 : 0) + (has(lead.company) ? 7 : 0) +
     (has(lead.title) ? 6 : 0) + (has(lead.company_size) ? 5 : 0), 0, 25);
 
-  // Intent /20 — buying signals (only real events)
-  const intent = clamp(
-    (eng.hasClicked ? 12 : 0) + (eng.hasOpened ? 6 : 0) + (eng.openCount >= 3 ? 2 : 0), 0, 20);
+  // Intent /20 — buying signals (only real events), decayed by age
+  const sinceOpen = daysSince(eng.lastOpenedAt);
+  const sinceClick = daysSince(eng.lastClickedAt);
+  const clickDecay = eng.hasClicked ? decayFactor(sinceClick, INTENT_HALF_LIFE_DAYS) : 0;
+  const openDecay = eng.hasOpened ? decayFactor(sinceOpen, INTENT_HALF_LIFE_DAYS) : 0;
+  const intent = clamp(Math.round(
+    12 * clickDecay + 6 * openDecay + (eng.openCount >= 3 ? 2 * openDecay : 0)), 0, 20);
 
-  // Engagement /20 — interaction volume + recency
+  // Engagement /20 — interaction volume (decayed) + recency
   const recencyPts = recency == null ? 0 : recency <= 7 ? 7 : recency <= 30 ? 4 : recency <= 90 ? 2 : 0;
+  const volumeDecay = eng.hasOpened ? decayFactor(sinceOpen, ENGAGEMENT_HALF_LIFE_DAYS) : 0;
   const engagement = clamp(
-    (eng.hasSent ? 4 : 0) + Math.min(eng.openCount * 3, 9) + recencyPts, 0, 20);
+    (eng.hasSent ? 4 : 0) + Math.round(Math.min(eng.openCount * 3, 9) * volumeDecay) + recencyPts, 0, 20);
 
   // Data quality /15 — contact completeness
   const dataQuality = clamp(
@@ -116,7 +159,23 @@ export function computeScore(lead: Lead, i: Inputs): LeadScoreBreakdown {
     (i.validation?.is_role ? 3 : 0) +
     (i.suppressed ? 20 : 0), 0, 20);
 
-  const total = clamp(fit + intent + engagement + dataQuality + deliverability + urgency - risk, 0, 100);
+  // Each sub-score above is on its default scale; the profile sets what it's worth.
+  const weigh = (raw: number, key: ScoreCategory) =>
+    Math.round((raw / DEFAULT_SCORE_WEIGHTS[key]) * model.weights[key]);
+  const weighted = {
+    fit: weigh(fit, 'fit'),
+    intent: weigh(intent, 'intent'),
+    engagement: weigh(engagement, 'engagement'),
+    data_quality: weigh(dataQuality, 'data_quality'),
+    deliverability: weigh(deliverability, 'deliverability'),
+    urgency: weigh(urgency, 'urgency'),
+  };
+  const matches = matchScoringRules(model.rules, lead, eng);
+  const rulePoints = matches.reduce((sum, m) => sum + m.points, 0);
+
+  const total = clamp(
+    weighted.fit + weighted.intent + weighted.engagement + weighted.data_quality +
+    weighted.deliverability + weighted.urgency + rulePoints - risk, 0, 100);
 
   // Confidence 0..1 — how much real data backed the score
   const confidence = clamp(
@@ -130,45 +189,58 @@ export function computeScore(lead: Lead, i: Inputs): LeadScoreBreakdown {
   else if (vstatus === 'risky') parts.push('email risky');
   else if (vstatus === 'valid') parts.push('email valid');
   else parts.push('email unvalidated');
-  if (eng.hasClicked) parts.push('clicked a recent email');
-  else if (eng.hasOpened) parts.push('opened a recent email');
+  if (eng.hasClicked) parts.push(clickDecay >= 0.5 ? 'clicked a recent email' : `last click ${Math.round(sinceClick ?? 0)}d ago — cooling off`);
+  else if (eng.hasOpened) parts.push(openDecay >= 0.5 ? 'opened a recent email' : `last open ${Math.round(sinceOpen ?? 0)}d ago — cooling off`);
   else if (eng.hasSent) parts.push('no engagement yet');
   if (fit >= 18) parts.push('strong firmographic fit');
   else if (fit <= 7) parts.push('thin firmographic data');
+  for (const m of matches) parts.push(`${m.label} (${m.points > 0 ? '+' : ''}${m.points})`);
   const reason_summary = parts.join('; ') + '.';
 
   return {
     lead_id: lead.id,
-    total_score: total, fit_score: fit, intent_score: intent, engagement_score: engagement,
-    data_quality_score: dataQuality, deliverability_score: deliverability, urgency_score: urgency,
+    total_score: total, fit_score: weighted.fit, intent_score: weighted.intent, engagement_score: weighted.engagement,
+    data_quality_score: weighted.data_quality, deliverability_score: weighted.deliverability, urgency_score: weighted.urgency,
     risk_score: risk, confidence: Math.round(confidence * 100) / 100, reason_summary,
     scoring_inputs: {
       validation: vstatus ?? 'none', is_disposable: !!i.validation?.is_disposable, is_role: !!i.validation?.is_role,
       suppressed: i.suppressed, hasSent: eng.hasSent, hasOpened: eng.hasOpened, hasClicked: eng.hasClicked,
       openCount: eng.openCount, days_since_activity: recency == null ? null : Math.round(recency),
+      days_since_open: sinceOpen == null ? null : Math.round(sinceOpen),
+      days_since_click: sinceClick == null ? null : Math.round(sinceClick),
+      intent_decay: Math.round(Math.max(clickDecay, openDecay) * 100) / 100,
+      // Raw timestamps let rescore_decayed_lead_scores() re-age the score in SQL.
+      last_opened_at: eng.lastOpenedAt, last_clicked_at: eng.lastClickedAt, last_activity_at: activityAt ?? null,
+      weights: model.weights, rule_points: rulePoints, matched_rules: matches,
     },
     contactable: !i.suppressed,
+    profile_id: model.id,
   };
 }
 
-/** Compute, persist to lead_scores, and sync leads.score. */
-export async function recalcLeadScore(
-  businessId: string, workspaceId: string, lead: Lead,
-): Promise<LeadScoreBreakdown> {
-  const inputs = await gather(businessId, lead);
-  const s = computeScore(lead, inputs);
-
-  const { error } = await supabase.from('lead_scores').upsert({
+function toScoreRow(s: LeadScoreBreakdown, businessId: string, workspaceId: string) {
+  return {
     lead_id: s.lead_id, business_id: businessId, workspace_id: workspaceId,
     total_score: s.total_score, fit_score: s.fit_score, intent_score: s.intent_score,
     engagement_score: s.engagement_score, data_quality_score: s.data_quality_score,
     deliverability_score: s.deliverability_score, urgency_score: s.urgency_score,
     risk_score: s.risk_score, confidence: s.confidence, reason_summary: s.reason_summary,
-    scoring_inputs: s.scoring_inputs, last_calculated_at: new Date().toISOString(),
-  }, { onConflict: 'lead_id' });
+    scoring_inputs: s.scoring_inputs, profile_id: s.profile_id, last_calculated_at: new Date().toISOString(),
+  };
+}
+
+/** Compute with the workspace's active profile, persist to lead_scores, and sync leads.score. */
+export async function recalcLeadScore(
+  businessId: string, workspaceId: string, lead: Lead,
+): Promise<LeadScoreBreakdown> {
+  const [inputs, model] = await Promise.all([gather(businessId, lead), getActiveScoringModel(workspaceId)]);
+  const s = computeScore(lead, inputs, model);
+
+  const { error } = await supabase.from('lead_scores').upsert(toScoreRow(s, businessId, workspaceId), { onConflict: 'lead_id' });
   if (error) throw new Error(error.message);
 
-  // Keep the denormalized leads.score in sync (existing UI reads it).
+  // Keep the denormalized leads.score in sync (existing UI reads it). This write
+  // is also what fires score_change workflow triggers (trg_wf_lead_score_update).
   await supabase.from('leads').update({ score: s.total_score }).eq('id', lead.id);
   return s;
 }
@@ -192,8 +264,44 @@ export async function getLeadScoresBulk(leadIds: string[]): Promise<Map<string,
   return map;
 }
 
-/** Batched recompute for many leads. Gathers validation / engagement /
- *  suppression once per chunk (instead of per lead), bulk-upserts lead_scores,
+/** Scoring inputs for a batch of leads: validation / engagement / suppression
+ *  fetched once for the whole batch instead of per lead. */
+async function gatherBulk(businessId: string, batch: Lead[]): Promise<Map<string, Inputs>> {
+  const emails = [...new Set(batch.map(l => (l.primary_email ?? '').trim().toLowerCase()).filter(Boolean))];
+  const ids = batch.map(l => l.id);
+
+  const [valRes, engMap, supRes] = await Promise.all([
+    emails.length
+      ? supabase.from('email_validations').select('email,status,is_disposable,is_role').eq('business_id', businessId).in('email', emails)
+      : Promise.resolve({ data: [] as Record<string, unknown>[] }),
+    fetchBatchEmailSummary(ids),
+    emails.length
+      ? supabase.from('suppressions').select('email').in('email', emails)
+      : Promise.resolve({ data: [] as Record<string, unknown>[] }),
+  ]);
+
+  const valByEmail = new Map<string, Inputs['validation']>();
+  for (const v of ((valRes as { data: Record<string, unknown>[] | null }).data ?? [])) {
+    valByEmail.set(String(v.email).toLowerCase(), v as Inputs['validation']);
+  }
+  const suppressed = new Set<string>(
+    ((supRes as { data: Record<string, unknown>[] | null }).data ?? []).map(s => String(s.email).toLowerCase()),
+  );
+
+  const inputs = new Map<string, Inputs>();
+  for (const lead of batch) {
+    const email = (lead.primary_email ?? '').trim().toLowerCase();
+    inputs.set(lead.id, {
+      validation: valByEmail.get(email) ?? null,
+      engagement: engMap.get(lead.id) ?? NO_ENGAGEMENT,
+      suppressed: suppressed.has(email),
+    });
+  }
+  return inputs;
+}
+
+/** Batched recompute for many leads with the workspace's active profile.
+ *  Gathers inputs once per chunk (gatherBulk), bulk-upserts lead_scores,
  *  and syncs leads.score. Deterministic — no AI, no credits. Returns count
  *  scored; calls onProgress(done,total) after each chunk. */
 export async function recalcLeadScoresBulk(
@@ -205,47 +313,13 @@ export async function recalcLeadScoresBulk(
   const total = leads.length;
   if (total === 0) return 0;
   const CHUNK = 100;
+  const model = await getActiveScoringModel(workspaceId);
   let done = 0;
 
   for (let i = 0; i < total; i += CHUNK) {
     const batch = leads.slice(i, i + CHUNK);
-    const emails = [...new Set(batch.map(l => (l.primary_email ?? '').trim().toLowerCase()).filter(Boolean))];
-    const ids = batch.map(l => l.id);
-
-    const [valRes, engMap, supRes] = await Promise.all([
-      emails.length
-        ? supabase.from('email_validations').select('email,status,is_disposable,is_role').eq('business_id', businessId).in('email', emails)
-        : Promise.resolve({ data: [] as Record<string, unknown>[] }),
-      fetchBatchEmailSummary(ids),
-      emails.length
-        ? supabase.from('suppressions').select('email').in('email', emails)
-        : Promise.resolve({ data: [] as Record<string, unknown>[] }),
-    ]);
-
-    const valByEmail = new Map<string, Inputs['validation']>();
-    for (const v of ((valRes as { data: Record<string, unknown>[] | null }).data ?? [])) {
-      valByEmail.set(String(v.email).toLowerCase(), v as Inputs['validation']);
-    }
-    const suppressed = new Set<string>(
-      ((supRes as { data: Record<string, unknown>[] | null }).data ?? []).map(s => String(s.email).toLowerCase()),
-    );
-
-    const scoreRows = batch.map(lead => {
-      const email = (lead.primary_email ?? '').trim().toLowerCase();
-      const s = computeScore(lead, {
-        validation: valByEmail.get(email) ?? null,
-        engagement: engMap.get(lead.id) ?? { hasSent: false, hasOpened: false, hasClicked: false, openCount: 0 },
-        suppressed: suppressed.has(email),
-      });
-      return {
-        lead_id: s.lead_id, business_id: businessId, workspace_id: workspaceId,
-        total_score: s.total_score, fit_score: s.fit_score, intent_score: s.intent_score,
-        engagement_score: s.engagement_score, data_quality_score: s.data_quality_score,
-        deliverability_score: s.deliverability_score, urgency_score: s.urgency_score,
-        risk_score: s.risk_score, confidence: s.confidence, reason_summary: s.reason_summary,
-        scoring_inputs: s.scoring_inputs, last_calculated_at: new Date().toISOString(),
-      };
-    });
+    const inputs = await gatherBulk(businessId, batch);
+    const scoreRows = batch.map(lead => toScoreRow(computeScore(lead, inputs.get(lead.id)!, model), businessId, workspaceId));
 
     const { error } = await supabase.from('lead_scores').upsert(scoreRows, { onConflict: 'lead_id' });
     if (error) throw new Error(error.message);
@@ -258,3 +332,63 @@ export async function recalcLeadScoresBulk(
   }
   return done;
 }
+
+// ─── Profile preview ───
+
+export interface ScorePreviewRow {
+  lead: Lead;
+  current: number;
+  proposed: number;
+  delta: number;
+}
+
+export interface ScorePreview {
+  rows: ScorePreviewRow[];
+  avgCurrent: number;
+  avgProposed: number;
+  raised: number;
+  lowered: number;
+  /** Lead counts per 20-point band (0-19 … 80-100), before and after. */
+  bandsCurrent: number[];
+  bandsProposed: number[];
+}
+
+const band = (score: number) => Math.min(4, Math.floor(score / 20));
+
+/** Scores every lead under both models from the same inputs, without
+ *  persisting anything, so the difference is purely the profile's. */
+export async function previewScoringModel(
+  businessId: string,
+  leads: Lead[],
+  current: ScoringModel,
+  proposed: ScoringModel,
+  onProgress?: (done: number, total: number) => void,
+): Promise<ScorePreview> {
+  const CHUNK = 100;
+  const rows: ScorePreviewRow[] = [];
+  for (let i = 0; i < leads.length; i += CHUNK) {
+    const batch = leads.slice(i, i + CHUNK);
+    const inputs = await gatherBulk(businessId, batch);
+    for (const lead of batch) {
+      const input = inputs.get(lead.id)!;
+      const before = computeScore(lead, input, current).total_score;
+      const after = computeScore(lead, input, proposed).total_score;
+      rows.push({ lead, current: before, proposed: after, delta: after - before });
+    }
+    onProgress?.(Math.min(i + CHUNK, leads.length), leads.length);
+  }
+
+  const n = rows.length || 1;
+  const bandsCurrent = [0, 0, 0, 0, 0];
+  const bandsProposed = [0, 0, 0, 0, 0];
+  for (const r of rows) { bandsCurrent[band(r.current)]++; bandsProposed[band(r.proposed)]++; }
+  return {
+    rows: rows.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta)),
+    avgCurrent: Math.round(rows.reduce((s, r) => s + r.current, 0) / n),
+    avgProposed: Math.round(rows.reduce((s, r) => s + r.proposed, 0) / n),
+    raised: rows.filter(r => r.delta > 0).length,
+    lowered: rows.filter(r => r.delta < 0).length,
+    bandsCurrent,
+    bandsProposed,
+  };
+}
@@ -0,0 +1,134 @@
+// Per-lead local send time. Client mirror of the gating in
+// process-sequence-sends: a lead's zone is leads.timezone (manual override) or
+// leads.inferred_timezone (set by trg_leads_infer_timezone from location,
+// phone or enrichment), and send windows / best-send hours are checked in it.
+// Used for the delivery-spread preview on a campaign and the lead override.
+
+export type TimezoneSource = 'manual' | 'location' | 'phone' | 'enrichment';
+
+/** Zones offered in pickers; anything Intl knows is accepted. */
+export const COMMON_TIMEZONES = [
+  'UTC',
+  'America/Los_Angeles', 'America/Denver', 'America/Phoenix', 'America/Chicago', 'America/New_York',
+  'America/Halifax', 'America/Sao_Paulo', 'America/Mexico_City',
+  'Europe/London', 'Europe/Dublin', 'Europe/Paris', 'Europe/Berlin', 'Europe/Madrid', 'Europe/Amsterdam',
+  'Europe/Stockholm', 'Europe/Warsaw', 'Europe/Istanbul',
+  'Africa/Lagos', 'Africa/Johannesburg', 'Africa/Cairo',
+  'Asia/Dubai', 'Asia/Karachi', 'Asia/Kolkata', 'Asia/Singapore', 'Asia/Shanghai', 'Asia/Tokyo',
+  'Australia/Sydney', 'Pacific/Auckland',
+];
+
+/** Best-time default when a lead has no learned hour (see process-sequence-sends). */
+export const DEFAULT_LOCAL_BEST_HOUR = 10;
+export const DEFAULT_UTC_BEST_HOUR = 14;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let f = formatters.get(timeZone);
+  if (!f) {
+    f = new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', hour12: false, weekday: 'short' });
+    formatters.set(timeZone, f);
+  }
+  return f;
+}
+
+export function isValidTimezone(tz: string | null | undefined): tz is string {
+  if (!tz) return false;
+  try { formatterFor(tz); return true; } catch { return false; }
+}
+
+/** Hour (0-23) and short weekday ("Mon") of `at` in `timeZone`; UTC if the zone is unknown. */
+export function zonedParts(timeZone: string | null | undefined, at: Date = new Date()): { hour: number; weekday: string } {
+  const parts = formatterFor(isValidTimezone(timeZone) ? timeZone : 'UTC').formatToParts(at);
+  let hour = parseInt(parts.find(p => p.type === 'hour')?.value ?? '0', 10);
+  if (hour === 24) hour = 0;
+  return { hour, weekday: parts.find(p => p.type === 'weekday')?.value ?? '' };
+}
+
+/** The zone a lead's emails are timed in: override first, then inference. */
+export function leadZone(lead: { timezone?: string | null; inferred_timezone?: string | null }): string | null {
+  return lead.timezone || lead.inferred_timezone || null;
+}
+
+export interface SendSchedule {
+  /** Campaign best-time send; the window is ignored while on. */
+  bestTime: boolean;
+  window: { start: number; end: number; weekdaysOnly: boolean; timezone: string } | null;
+  /** Check the window in each lead's zone (campaign send_in_lead_timezone). */
+  leadLocalTime: boolean;
+}
+
+/** The zone a lead's send time is checked in under `schedule`. */
+export function scheduleZone(schedule: SendSchedule, leadTz: string | null): string {
+  if (schedule.bestTime) return leadTz ?? 'UTC';
+  return (schedule.leadLocalTime ? leadTz : null) || schedule.window?.timezone || 'UTC';
+}
+
+function sendableAt(schedule: SendSchedule, leadTz: string | null, at: Date): boolean {
+  const zone = scheduleZone(schedule, leadTz);
+  if (schedule.bestTime) {
+    return zonedParts(zone, at).hour === (leadTz ? DEFAULT_LOCAL_BEST_HOUR : DEFAULT_UTC_BEST_HOUR);
+  }
+  const w = schedule.window;
+  if (!w) return true;
+  const { hour, weekday } = zonedParts(zone, at);
+  if (w.weekdaysOnly && (weekday === 'Sat' || weekday === 'Sun')) return false;
+  return w.start <= w.end ? (hour >= w.start && hour < w.end) : (hour >= w.start || hour < w.end);
+}
+
+const STEP_MS = 15 * 60_000;        // quarter hours, so +5:30 / +5:45 zones line up
+const HORIZON_MS = 8 * 86_400_000;  // a weekdays-only window is open within 3 days
+
+/**
+ * First moment at or after `from` when the sender would release an email to a
+ * lead in `leadTz` (null = unplaced). Null if the schedule never opens.
+ */
+export function nextSendTime(schedule: SendSchedule, leadTz: string | null, from: Date = new Date()): Date | null {
+  if (sendableAt(schedule, leadTz, from)) return from;
+  let t = Math.ceil(from.getTime() / STEP_MS) * STEP_MS;
+  for (const end = from.getTime() + HORIZON_MS; t <= end; t += STEP_MS) {
+    const at = new Date(t);
+    if (sendableAt(schedule, leadTz, at)) return at;
+  }
+  return null;
+}
+
+export interface DeliverySpread {
+  /** Leads by the hour (0-23, in `viewerTz`) their first email would go out. */
+  hours: number[];
+  /**
+   * Leads per zone, largest first; zone null = unplaced. `localHour` is the
+   * hour at send in `timedIn`, the zone the schedule was checked in.
+   */
+  zones: { zone: string | null; count: number; sendAt: Date | null; timedIn: string; localHour: number | null }[];
+  /** Leads whose first email would go out right away. */
+  now: number;
+  unplaced: number;
+}
+
+/** Where a campaign's first step would land for these leads if launched at `from`. */
+export function deliverySpread(
+  leads: { timezone: string | null }[],
+  schedule: SendSchedule,
+  viewerTz: string,
+  from: Date = new Date(),
+): DeliverySpread {
+  const counts = new Map<string | null, number>();
+  for (const l of leads) counts.set(l.timezone, (counts.get(l.timezone) ?? 0) + 1);
+
+  const hours = new Array(24).fill(0);
+  let now = 0;
+  const zones: DeliverySpread['zones'] = [];
+  for (const [zone, count] of counts) {
+    const sendAt = nextSendTime(schedule, zone, from);
+    if (sendAt) {
+      hours[zonedParts(viewerTz, sendAt).hour] += count;
+      if (sendAt.getTime() === from.getTime()) now += count;
+    }
+    const timedIn = scheduleZone(schedule, zone);
+    zones.push({ zone, count, sendAt, timedIn, localHour: sendAt ? zonedParts(timedIn, sendAt).hour : null });
+  }
+  zones.sort((a, b) => b.count - a.count);
+  return { hours, zones, now, unplaced: counts.get(null) ?? 0 };
+}
@@ -0,0 +1,219 @@
+// AuraEngine/lib/scoreCalibration.ts
+//
+// Score → outcome calibration. Every closed deal (stage won / lost) with a lead
+// is paired with the lead's score at the moment the deal was created, read from
+// lead_score_history (lib/scoreHistory.ts). From those pairs the report shows
+// win rate per score band, how well each sub-score separates won from lost,
+// and a suggested set of category weights the team can accept into its scoring
+// profile (lib/scoringProfiles.ts) or ignore.
+//
+// Deals created before any snapshot existed fall back to the lead's earliest
+// recorded score and are counted as approximate.
+
+import { supabase } from './supabase';
+import { SCORE_CATEGORIES, type ScoreCategory, type ScoreWeights } from './scoringProfiles';
+
+// ─── Types ───
+
+export interface CalibrationSample {
+  dealId: string;
+  leadId: string;
+  won: boolean;
+  totalScore: number;
+  subScores: Record<ScoreCategory, number>;
+  /** No snapshot at or before deal creation; the lead's earliest score was used. */
+  approximate: boolean;
+}
+
+export interface CalibrationBucket {
+  label: string;
+  min: number;
+  max: number;
+  deals: number;
+  won: number;
+  /** 0..1; null for an empty bucket. */
+  winRate: number | null;
+}
+
+export interface SubScoreSignal {
+  category: ScoreCategory;
+  label: string;
+  avgWon: number;
+  avgLost: number;
+  /** Point-biserial correlation with winning, -1..1; null when the sub-score never varies. */
+  correlation: number | null;
+}
+
+export interface CalibrationReport {
+  deals: number;
+  won: number;
+  lost: number;
+  winRate: number | null;
+  approximate: number;
+  buckets: CalibrationBucket[];
+  signals: SubScoreSignal[];
+  /** False until there are enough closed deals on both sides to trust the numbers. */
+  enoughData: boolean;
+  /** Proposed weights (summing to 100); null without enough data or signal. */
+  suggestedWeights: ScoreWeights | null;
+}
+
+export const MIN_CALIBRATION_DEALS = 20;
+export const MIN_DEALS_PER_OUTCOME = 5;
+
+const BANDS: [number, number][] = [[0, 19], [20, 39], [40, 59], [60, 79], [80, 100]];
+
+const SNAPSHOT_COLS =
+  'lead_id,recorded_at,total_score,fit_score,intent_score,engagement_score,data_quality_score,deliverability_score,urgency_score';
+
+// ─── Loading ───
+
+interface SnapshotRow {
+  lead_id: string;
+  recorded_at: string;
+  total_score: number;
+  fit_score: number;
+  intent_score: number;
+  engagement_score: number;
+  data_quality_score: number;
+  deliverability_score: number;
+  urgency_score: number;
+}
+
+/** Latest snapshot at or before `atMs`, else the earliest one (approximate).
+ *  `snaps` must be oldest first. */
+export function snapshotAt<T extends { recorded_at: string }>(snaps: T[], atMs: number): { snap: T; approximate: boolean } | null {
+  if (snaps.length === 0) return null;
+  let found: T | null = null;
+  for (const s of snaps) {
+    if (new Date(s.recorded_at).getTime() > atMs) break;
+    found = s;
+  }
+  return found ? { snap: found, approximate: false } : { snap: snaps[0], approximate: true };
+}
+
+export async function loadCalibrationSamples(businessId: string): Promise<CalibrationSample[]> {
+  const { data: deals, error } = await supabase
+    .from('deals')
+    .select('id,lead_id,stage,created_at')
+    .eq('business_id', businessId)
+    .in('stage', ['won', 'lost'])
+    .not('lead_id', 'is', null);
+  if (error) throw error;
+  if (!deals || deals.length === 0) return [];
+
+  const leadIds = [...new Set(deals.map(d => d.lead_id as string))];
+  const byLead = new Map<string, SnapshotRow[]>();
+  const CHUNK = 200;
+  for (let i = 0; i < leadIds.length; i += CHUNK) {
+    const { data, error: histErr } = await supabase
+      .from('lead_score_history')
+      .select(SNAPSHOT_COLS)
+      .in('lead_id', leadIds.slice(i, i + CHUNK))
+      .order('recorded_at', { ascending: true });
+    if (histErr) throw histErr;
+    for (const row of (data ?? []) as SnapshotRow[]) {
+      const list = byLead.get(row.lead_id);
+      if (list) list.push(row); else byLead.set(row.lead_id, [row]);
+    }
+  }
+
+  const samples: CalibrationSample[] = [];
+  for (const d of deals) {
+    const hit = snapshotAt(byLead.get(d.lead_id as string) ?? [], new Date(d.created_at).getTime());
+    if (!hit) continue;
+    const s = hit.snap;
+    samples.push({
+      dealId: d.id,
+      leadId: d.lead_id as string,
+      won: d.stage === 'won',
+      totalScore: s.total_score,
+      subScores: {
+        fit: s.fit_score, intent: s.intent_score, engagement: s.engagement_score,
+        data_quality: s.data_quality_score, deliverability: s.deliverability_score, urgency: s.urgency_score,
+      },
+      approximate: hit.approximate,
+    });
+  }
+  return samples;
+}
+
+// ─── Report ───
+
+const mean = (xs: number[]) => (xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0);
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+function correlation(xs: number[], ys: number[]): number | null {
+  const mx = mean(xs), my = mean(ys);
+  let cov = 0, vx = 0, vy = 0;
+  for (let i = 0; i < xs.length; i++) {
+    cov += (xs[i] - mx) * (ys[i] - my);
+    vx += (xs[i] - mx) ** 2;
+    vy += (ys[i] - my) ** 2;
+  }
+  if (vx === 0 || vy === 0) return null;
+  return Math.round((cov / Math.sqrt(vx * vy)) * 100) / 100;
+}
+
+/**
+ * Weights that lean toward the sub-scores that predicted wins: half of each
+ * category's current share, half its share of the positive correlation. The
+ * 50/50 blend keeps a small sample from swinging the model wholesale; categories
+ * with no or negative correlation keep only half their weight. Null when no
+ * sub-score correlates positively.
+ */
+export function suggestWeights(signals: SubScoreSignal[], current: ScoreWeights): ScoreWeights | null {
+  const strength = (c: ScoreCategory) => Math.max(0, signals.find(s => s.category === c)?.correlation ?? 0);
+  const totalStrength = SCORE_CATEGORIES.reduce((s, c) => s + strength(c.key), 0);
+  const totalCurrent = SCORE_CATEGORIES.reduce((s, c) => s + current[c.key], 0);
+  if (totalStrength === 0 || totalCurrent === 0) return null;
+
+  const raw = SCORE_CATEGORIES.map(c => ({
+    key: c.key,
+    value: 100 * (0.5 * (current[c.key] / totalCurrent) + 0.5 * (strength(c.key) / totalStrength)),
+  }));
+  const weights = Object.fromEntries(raw.map(r => [r.key, Math.round(r.value)])) as ScoreWeights;
+  // Put any rounding drift on the largest category so the total is exactly 100.
+  const drift = 100 - SCORE_CATEGORIES.reduce((s, c) => s + weights[c.key], 0);
+  const largest = raw.reduce((a, b) => (b.value > a.value ? b : a)).key;
+  weights[largest] += drift;
+  return weights;
+}
+
+export function buildCalibrationReport(samples: CalibrationSample[], current: ScoreWeights): CalibrationReport {
+  const won = samples.filter(s => s.won).length;
+  const lost = samples.length - won;
+
+  const buckets = BANDS.map(([min, max]) => {
+    const inBand = samples.filter(s => s.totalScore >= min && s.totalScore <= max);
+    const w = inBand.filter(s => s.won).length;
+    return { label: `${min}–${max}`, min, max, deals: inBand.length, won: w, winRate: inBand.length ? w / inBand.length : null };
+  });
+
+  const outcome = samples.map(s => (s.won ? 1 : 0));
+  const signals = SCORE_CATEGORIES.map(c => {
+    const values = samples.map(s => s.subScores[c.key]);
+    return {
+      category: c.key,
+      label: c.label,
+      avgWon: round1(mean(samples.filter(s => s.won).map(s => s.subScores[c.key]))),
+      avgLost: round1(mean(samples.filter(s => !s.won).map(s => s.subScores[c.key]))),
+      correlation: correlation(values, outcome),
+    };
+  });
+
+  const enoughData =
+    samples.length >= MIN_CALIBRATION_DEALS && won >= MIN_DEALS_PER_OUTCOME && lost >= MIN_DEALS_PER_OUTCOME;
+
+  return {
+    deals: samples.length,
+    won,
+    lost,
+    winRate: samples.length ? won / samples.length : null,
+    approximate: samples.filter(s => s.approximate).length,
+    buckets,
+    signals,
+    enoughData,
+    suggestedWeights: enoughData ? suggestWeights(signals, current) : null,
+  };
+}
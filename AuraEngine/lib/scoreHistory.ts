@@ -0,0 +1,109 @@
+// AuraEngine/lib/scoreHistory.ts
+//
+// Lead score history (supabase/migrations/20260822120000). lead_scores holds
+// only the latest score; a trigger copies each change into lead_score_history,
+// which this module reads for per-lead sparklines and the "biggest movers"
+// list. Nothing here writes — recalcLeadScore / recalcLeadScoresBulk in
+// lib/leadScoring.ts remain the only score writers.
+
+import { supabase } from './supabase';
+
+export interface ScoreSnapshot {
+  leadId: string;
+  totalScore: number;
+  intentScore: number;
+  engagementScore: number;
+  recordedAt: string;
+}
+
+export interface ScoreMover {
+  leadId: string;
+  firstName: string | null;
+  lastName: string | null;
+  company: string | null;
+  scoreBefore: number;
+  scoreNow: number;
+  delta: number;
+}
+
+const SNAPSHOT_COLS = 'lead_id,total_score,intent_score,engagement_score,recorded_at';
+
+function rowToSnapshot(row: any): ScoreSnapshot {
+  return {
+    leadId: row.lead_id,
+    totalScore: row.total_score,
+    intentScore: row.intent_score,
+    engagementScore: row.engagement_score,
+    recordedAt: row.recorded_at,
+  };
+}
+
+const since = (days: number) => new Date(Date.now() - days * 86_400_000).toISOString();
+
+/** Snapshots from the last `days` days, oldest first, preceded by the last
+ *  snapshot before the window (when there is one) so the line starts at the
+ *  score the lead already had. */
+export async function getLeadScoreHistory(leadId: string, days = 30): Promise<ScoreSnapshot[]> {
+  const from = since(days);
+  const [before, within] = await Promise.all([
+    supabase.from('lead_score_history').select(SNAPSHOT_COLS)
+      .eq('lead_id', leadId).lt('recorded_at', from)
+      .order('recorded_at', { ascending: false }).limit(1),
+    supabase.from('lead_score_history').select(SNAPSHOT_COLS)
+      .eq('lead_id', leadId).gte('recorded_at', from)
+      .order('recorded_at', { ascending: true }),
+  ]);
+  if (within.error) throw within.error;
+  return [...(before.data ?? []), ...(within.data ?? [])].map(rowToSnapshot);
+}
+
+/** Window snapshots for many leads at once, oldest first per lead. Chunked to
+ *  stay under PostgREST .in() URL limits. */
+export async function getLeadScoreHistoryBulk(leadIds: string[], days = 30): Promise<Map<string, ScoreSnapshot[]>> {
+  const map = new Map<string, ScoreSnapshot[]>();
+  const from = since(days);
+  const CHUNK = 200;
+  for (let i = 0; i < leadIds.length; i += CHUNK) {
+    const { data, error } = await supabase.from('lead_score_history').select(SNAPSHOT_COLS)
+      .in('lead_id', leadIds.slice(i, i + CHUNK)).gte('recorded_at', from)
+      .order('recorded_at', { ascending: true });
+    if (error) throw error;
+    for (const row of data ?? []) {
+      const snap = rowToSnapshot(row);
+      const list = map.get(snap.leadId);
+      if (list) list.push(snap); else map.set(snap.leadId, [snap]);
+    }
+  }
+  return map;
+}
+
+/** Leads whose score moved most (either way) over the last `days` days. */
+export async function getScoreMovers(businessId: string, days = 7, limit = 5): Promise<ScoreMover[]> {
+  const { data, error } = await supabase.rpc('lead_score_movers', {
+    p_business_id: businessId,
+    p_since: since(days),
+    p_limit: limit,
+  });
+  if (error) throw error;
+  return ((data ?? []) as any[]).map(r => ({
+    leadId: r.lead_id,
+    firstName: r.first_name,
+    lastName: r.last_name,
+    company: r.company,
+    scoreBefore: r.score_before,
+    scoreNow: r.score_now,
+    delta: r.delta,
+  }));
+}
+
+/** Change in total score across a window of snapshots (oldest first): the
+ *  latest score minus the one in effect at `fromMs`. Null with no history. */
+export function scoreChange(history: ScoreSnapshot[], fromMs: number): number | null {
+  if (history.length === 0) return null;
+  let baseline = history[0].totalScore;
+  for (const s of history) {
+    if (new Date(s.recordedAt).getTime() > fromMs) break;
+    baseline = s.totalScore;
+  }
+  return history[history.length - 1].totalScore - baseline;
+}
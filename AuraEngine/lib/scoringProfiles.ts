@@ -0,0 +1,214 @@
+// AuraEngine/lib/scoringProfiles.ts
+//
+// Per-workspace scoring profiles (supabase/migrations/20260822110000). A
+// profile re-weights computeScore()'s six categories and adds ICP rules on top,
+// e.g. "industry is one of SaaS, Fintech → +10". Rules are lead conditions
+// (lib/leadConditions.ts), so they read and evaluate exactly like workflow
+// conditions and segment filters.
+//
+// With no active profile a workspace scores on DEFAULT_SCORE_WEIGHTS and no
+// rules — the original fixed formula.
+
+import { supabase } from './supabase';
+import type { Lead } from '../types';
+import type { BatchEmailSummary } from './emailTracking';
+import {
+  CONDITION_FIELDS,
+  conditionFields,
+  describeCondition,
+  evaluateCondition,
+  validateCondition,
+  type ConditionField,
+  type ConditionGroup,
+} from './leadConditions';
+
+// ─── Types ───
+
+export type ScoreCategory = 'fit' | 'intent' | 'engagement' | 'data_quality' | 'deliverability' | 'urgency';
+
+/** Max points per category. */
+export type ScoreWeights = Record<ScoreCategory, number>;
+
+export interface ScoringRule {
+  id: string;
+  label: string;
+  condition: ConditionGroup;
+  /** Added to the total when the condition matches; negative to penalise. */
+  points: number;
+}
+
+export interface ScoringProfile {
+  id: string;
+  workspaceId: string;
+  name: string;
+  description: string;
+  weights: ScoreWeights;
+  rules: ScoringRule[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** What computeScore needs from a profile. `id` is null for the built-in default. */
+export interface ScoringModel {
+  id: string | null;
+  weights: ScoreWeights;
+  rules: ScoringRule[];
+}
+
+// ─── Catalog ───
+
+export const SCORE_CATEGORIES: { key: ScoreCategory; label: string; hint: string }[] = [
+  { key: 'fit', label: 'Fit', hint: 'Industry, company, title and size on file' },
+  { key: 'intent', label: 'Intent', hint: 'Clicks and opens on recent email' },
+  { key: 'engagement', label: 'Engagement', hint: 'Emails sent, open volume, recent activity' },
+  { key: 'data_quality', label: 'Data quality', hint: 'Email, name, phone, LinkedIn on file' },
+  { key: 'deliverability', label: 'Deliverability', hint: 'Email validation result' },
+  { key: 'urgency', label: 'Urgency', hint: 'How recently the lead was active' },
+];
+
+/** The original fixed formula; also each category's native scale in computeScore. */
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
+  fit: 25, intent: 20, engagement: 20, data_quality: 15, deliverability: 10, urgency: 10,
+};
+
+export const DEFAULT_SCORING_MODEL: ScoringModel = { id: null, weights: DEFAULT_SCORE_WEIGHTS, rules: [] };
+
+export const MAX_RULE_POINTS = 50;
+
+/**
+ * Fields a scoring rule may test. The score itself and its sub-scores are left
+ * out — a rule reading the score it is about to change would feed on itself.
+ */
+export const SCORING_RULE_FIELDS: ConditionField[] = CONDITION_FIELDS.filter(
+  f => f.key !== 'score' && f.group !== 'Score',
+);
+
+const isScoreField = (field: string) => field === 'score' || field.startsWith('lead_scores.');
+
+// ─── Rules ───
+
+export interface RuleMatch {
+  ruleId: string;
+  label: string;
+  points: number;
+}
+
+export function ruleLabel(rule: ScoringRule): string {
+  return rule.label.trim() || describeCondition(rule.condition);
+}
+
+/** Rules the lead satisfies. An empty condition never matches — it would otherwise award every lead. */
+export function matchScoringRules(
+  rules: ScoringRule[],
+  lead: Lead,
+  engagement: BatchEmailSummary | null,
+): RuleMatch[] {
+  return rules
+    .filter(r => r.condition.rules.length > 0 && evaluateCondition(r.condition, lead, { engagement }))
+    .map(r => ({ ruleId: r.id, label: ruleLabel(r), points: r.points }));
+}
+
+// ─── Validation ───
+
+/** Problems that block saving a profile; empty when it's usable. */
+export function validateScoringProfile(profile: Pick<ScoringProfile, 'name' | 'weights' | 'rules'>): string[] {
+  const errors: string[] = [];
+  if (!profile.name.trim()) errors.push('Name is required');
+
+  for (const c of SCORE_CATEGORIES) {
+    const w = profile.weights[c.key];
+    if (!Number.isFinite(w) || w < 0 || w > 100) errors.push(`${c.label} weight must be between 0 and 100`);
+  }
+  const total = SCORE_CATEGORIES.reduce((s, c) => s + (profile.weights[c.key] || 0), 0);
+  if (total === 0) errors.push('At least one category needs a weight above 0');
+
+  profile.rules.forEach((rule, i) => {
+    const name = rule.label.trim() || `Rule ${i + 1}`;
+    if (rule.condition.rules.length === 0) errors.push(`${name}: add at least one condition`);
+    if (conditionFields(rule.condition).some(isScoreField)) errors.push(`${name}: rules can't depend on the score itself`);
+    for (const msg of validateCondition(rule.condition)) errors.push(`${name}: ${msg}`);
+    if (!Number.isFinite(rule.points) || rule.points === 0 || Math.abs(rule.points) > MAX_RULE_POINTS) {
+      errors.push(`${name}: points must be non-zero and within ±${MAX_RULE_POINTS}`);
+    }
+  });
+  return errors;
+}
+
+// ─── Persistence ───
+
+function rowToProfile(row: any): ScoringProfile {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    name: row.name,
+    description: row.description || '',
+    weights: { ...DEFAULT_SCORE_WEIGHTS, ...(row.weights || {}) },
+    rules: (row.rules || []) as ScoringRule[],
+    isActive: !!row.is_active,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function toScoringModel(profile: ScoringProfile | null): ScoringModel {
+  return profile ? { id: profile.id, weights: profile.weights, rules: profile.rules } : DEFAULT_SCORING_MODEL;
+}
+
+export async function listScoringProfiles(workspaceId: string): Promise<ScoringProfile[]> {
+  const { data, error } = await supabase
+    .from('scoring_profiles')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return (data ?? []).map(rowToProfile);
+}
+
+/** The workspace's active profile as a scoring model; the built-in default when none is active. */
+export async function getActiveScoringModel(workspaceId: string): Promise<ScoringModel> {
+  const { data, error } = await supabase
+    .from('scoring_profiles')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .eq('is_active', true)
+    .maybeSingle();
+  if (error) {
+    console.warn('[scoring] active profile lookup failed, using default weights:', error.message);
+    return DEFAULT_SCORING_MODEL;
+  }
+  return toScoringModel(data ? rowToProfile(data) : null);
+}
+
+export async function saveScoringProfile(
+  workspaceId: string,
+  profile: Pick<ScoringProfile, 'name' | 'description' | 'weights' | 'rules'> & { id?: string },
+): Promise<ScoringProfile> {
+  const row = {
+    workspace_id: workspaceId,
+    name: profile.name.trim(),
+    description: profile.description,
+    weights: profile.weights,
+    rules: profile.rules,
+  };
+  const query = profile.id
+    ? supabase.from('scoring_profiles').update(row).eq('id', profile.id)
+    : supabase.from('scoring_profiles').insert({ ...row, created_by: (await supabase.auth.getUser()).data.user?.id ?? null });
+  const { data, error } = await query.select('*').single();
+  if (error) throw error;
+  return rowToProfile(data);
+}
+
+export async function deleteScoringProfile(id: string): Promise<void> {
+  const { error } = await supabase.from('scoring_profiles').delete().eq('id', id);
+  if (error) throw error;
+}
+
+/** Makes `profileId` the workspace's active profile; null reverts to the built-in default. */
+export async function activateScoringProfile(workspaceId: string, profileId: string | null): Promise<void> {
+  const { error } = await supabase.rpc('activate_scoring_profile', {
+    p_workspace_id: workspaceId,
+    p_profile_id: profileId,
+  });
+  if (error) throw error;
+}
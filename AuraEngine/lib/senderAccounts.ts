@@ -127,11 +127,12 @@ export async function updateSenderStatus(
   if (error) throw new Error(error.message);
 }
 
-/** Toggle warm-up for a sender account. */
+/** Toggle warm-up for a sender account. Enabling restarts the ramp at day 0. */
 export async function toggleWarmup(senderId: string, enabled: boolean): Promise<void> {
+  const now = new Date().toISOString();
   const { error } = await supabase
     .from('sender_accounts')
-    .update({ warmup_enabled: enabled, updated_at: new Date().toISOString() })
+    .update({ warmup_enabled: enabled, ...(enabled ? { warmup_started_at: now } : {}), updated_at: now })
     .eq('id', senderId);
 
   if (error) throw new Error(error.message);
@@ -160,6 +161,124 @@ export async function updateSenderDetails(
   if (error) throw new Error(error.message);
 }
 
+// ── Sequence rotation ────────────────────────────────────────────────────────
+
+/** Mirrors the eligibility rules of pick_sequence_sender. */
+export const ROTATION_MIN_HEALTH = 50;
+export const ROTATION_MAX_BOUNCE_RATE = 0.05;
+
+/** Why a sender would be skipped by sequence rotation, or null when eligible. */
+export function rotationBlocker(sender: SenderAccount): string | null {
+  if (sender.status === 'needs_reauth') return 'Needs re-auth';
+  if (sender.status === 'disabled') return 'Disabled';
+  if (!sender.use_for_outreach) return 'Not used for outreach';
+  if ((sender.health_score ?? 100) < ROTATION_MIN_HEALTH) return 'Low health';
+  if ((sender.bounce_rate_7d ?? 0) >= ROTATION_MAX_BOUNCE_RATE) return 'High bounce rate';
+  return null;
+}
+
+/** Today's sends for a sender (the stored counter resets lazily). */
+export function sentToday(sender: SenderAccount): number {
+  return sender.daily_sent_date === new Date().toISOString().slice(0, 10) ? sender.daily_sent_today : 0;
+}
+
+// ── Warmup ───────────────────────────────────────────────────────────────────
+
+export type WarmupSettings = Pick<
+  SenderAccount,
+  'warmup_start_volume' | 'warmup_daily_increase' | 'warmup_max_volume' | 'warmup_reply_rate'
+>;
+
+export const DEFAULT_WARMUP_SETTINGS: WarmupSettings = {
+  warmup_start_volume: 5,
+  warmup_daily_increase: 3,
+  warmup_max_volume: 40,
+  warmup_reply_rate: 0.3,
+};
+
+/** Update a sender's warmup curve (bounds match sender_accounts_warmup_curve_check). */
+export async function updateWarmupSettings(senderId: string, settings: Partial<WarmupSettings>): Promise<void> {
+  const clamp = (n: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, n));
+  const updates: Partial<WarmupSettings> = {};
+  if (settings.warmup_start_volume != null) updates.warmup_start_volume = clamp(Math.round(settings.warmup_start_volume), 1, 200);
+  if (settings.warmup_daily_increase != null) updates.warmup_daily_increase = clamp(Math.round(settings.warmup_daily_increase), 0, 50);
+  if (settings.warmup_max_volume != null) updates.warmup_max_volume = clamp(Math.round(settings.warmup_max_volume), 1, 200);
+  if (settings.warmup_reply_rate != null) updates.warmup_reply_rate = clamp(settings.warmup_reply_rate, 0, 1);
+
+  const { error } = await supabase
+    .from('sender_accounts')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', senderId);
+
+  if (error) throw new Error(error.message);
+}
+
+/** Today's warmup target — mirrors warmup_daily_target(): start + increase × days, capped at max. */
+export function warmupTargetFor(sender: SenderAccount, now: Date = new Date()): number {
+  if (!sender.warmup_enabled) return 0;
+  const start = sender.warmup_started_at ?? sender.created_at;
+  const days = Math.max(0, Math.floor((Date.parse(now.toISOString().slice(0, 10)) - Date.parse(start.slice(0, 10))) / 86_400_000));
+  const startVolume = sender.warmup_start_volume ?? DEFAULT_WARMUP_SETTINGS.warmup_start_volume;
+  const increase = sender.warmup_daily_increase ?? DEFAULT_WARMUP_SETTINGS.warmup_daily_increase;
+  return Math.min(sender.warmup_max_volume ?? DEFAULT_WARMUP_SETTINGS.warmup_max_volume, startVolume + increase * days);
+}
+
+/** Today's warmup sends for a sender (the stored counter resets lazily). */
+export function warmupSentToday(sender: SenderAccount): number {
+  return sender.warmup_sent_date === new Date().toISOString().slice(0, 10) ? sender.warmup_daily_sent : 0;
+}
+
+export interface WarmupStats {
+  sent: number;
+  replies: number;
+  checked: number;
+  inbox: number;
+  spam: number;
+  missing: number;
+  rescued: number;
+  /** inbox / checked, or null until any warmup mail has been checked. */
+  inboxRate: number | null;
+}
+
+export interface WarmupMessageRow {
+  from_sender_id: string;
+  kind: 'sent' | 'reply';
+  status: 'sent' | 'failed';
+  placement: 'inbox' | 'spam' | 'missing' | null;
+  rescued: boolean;
+}
+
+/** Roll warmup_messages rows up per sending inbox. */
+export function summarizeWarmup(rows: WarmupMessageRow[]): Record<string, WarmupStats> {
+  const out: Record<string, WarmupStats> = {};
+  for (const r of rows) {
+    if (r.status !== 'sent') continue;
+    const s = (out[r.from_sender_id] ??= { sent: 0, replies: 0, checked: 0, inbox: 0, spam: 0, missing: 0, rescued: 0, inboxRate: null });
+    if (r.kind === 'reply') s.replies++;
+    else s.sent++;
+    if (r.placement) {
+      s.checked++;
+      s[r.placement]++;
+    }
+    if (r.rescued) s.rescued++;
+  }
+  for (const s of Object.values(out)) s.inboxRate = s.checked > 0 ? s.inbox / s.checked : null;
+  return out;
+}
+
+/** Last 7 days of warmup traffic and placement, keyed by sender id. */
+export async function getWarmupStats(workspaceId: string): Promise<Record<string, WarmupStats>> {
+  const since = new Date(Date.now() - 7 * 86_400_000).toISOString();
+  const { data, error } = await supabase
+    .from('warmup_messages')
+    .select('from_sender_id, kind, status, placement, rescued')
+    .eq('workspace_id', workspaceId)
+    .gte('sent_at', since);
+
+  if (error) throw new Error(error.message);
+  return summarizeWarmup((data ?? []) as WarmupMessageRow[]);
+}
+
 // ── Provider helpers ─────────────────────────────────────────────────────────
 
 export const PROVIDER_META: Record<SenderProvider, {
@@ -0,0 +1,383 @@
+// AuraEngine/lib/webhookSchemas.ts
+//
+// Published payload schemas for outbound webhook events. Mirrors the
+// `webhooks:` section of docs/api/openapi.yaml and the jsonb the _wh_*
+// triggers build (migrations 20260510000000, 20260823170000, 20260823180000)
+// or, for goal.webhook, _shared/goal-steps/webhook.ts — change all three together. Fields may be added within a version;
+// removing, renaming or retyping one means a new version.
+
+import type { WebhookEvent } from './webhooks';
+import type { ConditionField, ConditionFieldType } from './leadConditions';
+
+export type WebhookFieldType =
+  | 'uuid' | 'string' | 'integer' | 'number' | 'boolean' | 'timestamp' | 'date' | 'array' | 'object';
+
+export interface WebhookField {
+  name: string;
+  type: WebhookFieldType;
+  nullable?: boolean;
+  description: string;
+  /** Known values, offered when building an endpoint filter. */
+  options?: string[];
+}
+
+export interface WebhookEventSchema {
+  version: number;
+  description: string;
+  /** What writes the row the trigger fires on — helps receivers reason about timing. */
+  firedWhen: string;
+  fields: WebhookField[];
+}
+
+/** Envelope every delivery is wrapped in (webhook-dispatcher). */
+export const WEBHOOK_ENVELOPE_FIELDS: WebhookField[] = [
+  { name: 'id',           type: 'uuid',      description: 'Delivery id; also sent as X-Scaliyo-Delivery. Stable across retries — use it to de-duplicate.' },
+  { name: 'event_type',   type: 'string',    description: 'Event name; also sent as X-Scaliyo-Event.' },
+  { name: 'version',      type: 'integer',   description: 'Payload schema version; also sent as X-Scaliyo-Event-Version.' },
+  { name: 'created_at',   type: 'timestamp', description: 'When the event happened (delivery queued), not when this attempt was sent.' },
+  { name: 'workspace_id', type: 'uuid',      description: 'Workspace the event belongs to.' },
+  { name: 'payload',      type: 'object',    description: 'Event-specific body described below.' },
+];
+
+const LEAD_STATUSES = ['New', 'Contacted', 'Qualified', 'Converted', 'Lost'];
+const DEAL_STAGES = ['discovery', 'qualified', 'proposal', 'negotiation', 'won', 'lost'];
+
+const LEAD_FIELDS: WebhookField[] = [
+  { name: 'id',            type: 'uuid',      description: 'Lead id.' },
+  { name: 'workspace_id',  type: 'uuid',      description: 'Workspace id.' },
+  { name: 'first_name',    type: 'string',    nullable: true, description: 'First name.' },
+  { name: 'last_name',     type: 'string',    nullable: true, description: 'Last name.' },
+  { name: 'primary_email', type: 'string',    nullable: true, description: 'Primary email address.' },
+  { name: 'company',       type: 'string',    nullable: true, description: 'Company name.' },
+  { name: 'status',        type: 'string',    description: 'Pipeline status.', options: LEAD_STATUSES },
+  { name: 'score',         type: 'integer',   nullable: true, description: 'Lead score 0–100.' },
+  { name: 'source',        type: 'string',    nullable: true, description: 'Where the lead came from.' },
+  { name: 'tags',          type: 'array',     description: 'Manual tags (strings).' },
+  { name: 'custom_fields', type: 'object',    description: 'Imported custom columns, keyed by column name.' },
+  { name: 'created_at',    type: 'timestamp', description: 'Created.' },
+  { name: 'updated_at',    type: 'timestamp', description: 'Last updated.' },
+];
+
+const DEAL_FIELDS: WebhookField[] = [
+  { name: 'id',                  type: 'uuid',      description: 'Deal id.' },
+  { name: 'workspace_id',        type: 'uuid',      description: 'Workspace id.' },
+  { name: 'business_id',         type: 'uuid',      nullable: true, description: 'Business the deal belongs to.' },
+  { name: 'lead_id',             type: 'uuid',      nullable: true, description: 'Linked lead.' },
+  { name: 'title',               type: 'string',    description: 'Deal title.' },
+  { name: 'value_amount',        type: 'number',    description: 'Deal value in `currency`.' },
+  { name: 'currency',            type: 'string',    description: 'ISO 4217 code.' },
+  { name: 'stage',               type: 'string',    description: 'Pipeline stage.', options: DEAL_STAGES },
+  { name: 'probability',         type: 'integer',   description: 'Win probability 0–100.' },
+  { name: 'expected_close_date', type: 'date',      nullable: true, description: 'Expected close date.' },
+  { name: 'assigned_to',         type: 'uuid',      nullable: true, description: 'Owning user.' },
+  { name: 'won_at',              type: 'timestamp', nullable: true, description: 'Set when the deal is won.' },
+  { name: 'lost_at',             type: 'timestamp', nullable: true, description: 'Set when the deal is lost.' },
+  { name: 'lost_reason',         type: 'string',    nullable: true, description: 'Why it was lost.' },
+  { name: 'created_at',          type: 'timestamp', description: 'Created.' },
+  { name: 'updated_at',          type: 'timestamp', description: 'Last updated.' },
+];
+
+const PREVIOUS_STAGE: WebhookField =
+  { name: 'previous_stage', type: 'string', description: 'Stage before this change.', options: DEAL_STAGES };
+
+const TASK_FIELDS: WebhookField[] = [
+  { name: 'id',           type: 'uuid',      description: 'Task id.' },
+  { name: 'workspace_id', type: 'uuid',      description: 'Workspace id.' },
+  { name: 'business_id',  type: 'uuid',      nullable: true, description: 'Business the task belongs to.' },
+  { name: 'lead_id',      type: 'uuid',      nullable: true, description: 'Linked lead.' },
+  { name: 'deal_id',      type: 'uuid',      nullable: true, description: 'Linked deal.' },
+  { name: 'title',        type: 'string',    description: 'Task title.' },
+  { name: 'description',  type: 'string',    nullable: true, description: 'Details.' },
+  { name: 'priority',     type: 'string',    description: 'low, normal or high.' },
+  { name: 'status',       type: 'string',    description: 'open, done or cancelled.' },
+  { name: 'due_at',       type: 'timestamp', nullable: true, description: 'Due date.' },
+  { name: 'assigned_to',  type: 'uuid',      nullable: true, description: 'Assignee.' },
+  { name: 'created_by',   type: 'uuid',      description: 'Creator.' },
+  { name: 'completed_at', type: 'timestamp', nullable: true, description: 'Set when the task is done.' },
+  { name: 'created_at',   type: 'timestamp', description: 'Created.' },
+];
+
+// email.bounced / email.spam_complaint / email.unsubscribed share one shape
+// whether the provider reported it or the lead unsubscribed in-app.
+const DELIVERABILITY_FIELDS: WebhookField[] = [
+  { name: 'id',                type: 'uuid',      description: 'Id of the dead-letter or suppression row.' },
+  { name: 'workspace_id',      type: 'uuid',      description: 'Workspace id.' },
+  { name: 'lead_id',           type: 'uuid',      nullable: true, description: 'Matching lead, when known.' },
+  { name: 'sender_account_id', type: 'uuid',      nullable: true, description: 'Mailbox that sent the message (provider events only).' },
+  { name: 'message_id',        type: 'string',    nullable: true, description: 'Provider message id (provider events only).' },
+  { name: 'to_email',          type: 'string',    description: 'Recipient address.' },
+  { name: 'kind',              type: 'string',    description: 'hard_bounce, spam_complaint or unsubscribed.' },
+  { name: 'reason',            type: 'string',    nullable: true, description: 'Provider diagnostic text.' },
+  { name: 'source',            type: 'string',    description: '`provider` for ESP events; otherwise how the address was suppressed (e.g. `reply_intent`, `manual`).' },
+  { name: 'first_failed_at',   type: 'timestamp', description: 'First occurrence.' },
+  { name: 'last_failed_at',    type: 'timestamp', description: 'Latest occurrence.' },
+];
+
+const SCORE_BREAKDOWN =
+  'Sub-scores: fit (/25), intent (/20), engagement (/20), data_quality (/15), deliverability (/10), urgency (/10), risk (penalty 0–20).';
+
+export const WEBHOOK_EVENT_SCHEMAS: Partial<Record<WebhookEvent, WebhookEventSchema>> = {
+  'lead.created': {
+    version: 1,
+    description: 'A lead was added to the workspace.',
+    firedWhen: 'Manual add, CSV import, enrichment or API create.',
+    fields: LEAD_FIELDS,
+  },
+  'lead.updated': {
+    version: 1,
+    description: 'A tracked lead field changed. Today only status is tracked, so new integrations should use lead.status_changed.',
+    firedWhen: 'Status changes.',
+    fields: [
+      ...LEAD_FIELDS,
+      { name: 'previous_status', type: 'string', nullable: true, description: 'Status before this change.', options: LEAD_STATUSES },
+      { name: 'changed_field',   type: 'string', description: 'Which field changed (status).' },
+    ],
+  },
+  'lead.status_changed': {
+    version: 1,
+    description: 'A lead moved to a different pipeline status.',
+    firedWhen: 'Status changes only — prefer this over lead.updated for pipeline automation.',
+    fields: [...LEAD_FIELDS, { name: 'previous_status', type: 'string', nullable: true, description: 'Status before this change.', options: LEAD_STATUSES }],
+  },
+  'lead.score_changed': {
+    version: 1,
+    description: 'A lead\'s total score was calculated for the first time or changed.',
+    firedWhen: 'Score recalculation produced a different total.',
+    fields: [
+      { name: 'lead_id',            type: 'uuid',      description: 'Lead id.' },
+      { name: 'workspace_id',       type: 'uuid',      description: 'Workspace id.' },
+      { name: 'business_id',        type: 'uuid',      description: 'Business the lead belongs to.' },
+      { name: 'old_score',          type: 'integer',   nullable: true, description: 'Previous total; null on the first calculation.' },
+      { name: 'new_score',          type: 'integer',   description: 'New total 0–100.' },
+      { name: 'delta',              type: 'integer',   description: 'new_score − old_score (old_score taken as 0 when null).' },
+      { name: 'breakdown',          type: 'object',    description: SCORE_BREAKDOWN },
+      { name: 'previous_breakdown', type: 'object',    nullable: true, description: 'Sub-scores before the change; null on the first calculation.' },
+      { name: 'profile_id',         type: 'uuid',      nullable: true, description: 'Scoring profile used; null for the built-in weights.' },
+      { name: 'reason_summary',     type: 'string',    nullable: true, description: 'Human-readable explanation.' },
+      { name: 'calculated_at',      type: 'timestamp', description: 'When the score was calculated.' },
+    ],
+  },
+  'sequence.completed': {
+    version: 1,
+    description: 'A sequence run finished every step.',
+    firedWhen: 'The run\'s status moves to completed.',
+    fields: [
+      { name: 'id',           type: 'uuid',      description: 'Sequence run id.' },
+      { name: 'workspace_id', type: 'uuid',      description: 'Workspace id.' },
+      { name: 'lead_count',   type: 'integer',   description: 'Leads enrolled.' },
+      { name: 'step_count',   type: 'integer',   description: 'Steps in the sequence.' },
+      { name: 'items_total',  type: 'integer',   description: 'Scheduled sends.' },
+      { name: 'items_done',   type: 'integer',   description: 'Sends delivered.' },
+      { name: 'items_failed', type: 'integer',   description: 'Sends that failed.' },
+      { name: 'started_at',   type: 'timestamp', nullable: true, description: 'Run start.' },
+      { name: 'completed_at', type: 'timestamp', nullable: true, description: 'Run end.' },
+      { name: 'config',       type: 'object',    nullable: true, description: 'Sequence configuration snapshot.' },
+    ],
+  },
+  'email.sent': {
+    version: 1,
+    description: 'An email was accepted by the sending provider.',
+    firedWhen: 'One-off sends and every sequence step.',
+    fields: [
+      { name: 'id',                type: 'uuid',      description: 'Message id.' },
+      { name: 'workspace_id',      type: 'uuid',      description: 'Workspace id.' },
+      { name: 'lead_id',           type: 'uuid',      nullable: true, description: 'Recipient lead.' },
+      { name: 'sender_account_id', type: 'uuid',      nullable: true, description: 'Sending mailbox.' },
+      { name: 'sequence_id',       type: 'string',    nullable: true, description: 'Sequence, for sequence steps.' },
+      { name: 'sequence_step',     type: 'integer',   nullable: true, description: 'Step index, for sequence steps.' },
+      { name: 'provider',          type: 'string',    description: 'Sending provider.' },
+      { name: 'to_email',          type: 'string',    description: 'Recipient.' },
+      { name: 'from_email',        type: 'string',    nullable: true, description: 'Sender.' },
+      { name: 'subject',           type: 'string',    nullable: true, description: 'Subject line.' },
+      { name: 'created_at',        type: 'timestamp', description: 'Sent.' },
+    ],
+  },
+  'email.replied': {
+    version: 1,
+    description: 'A lead replied. Out-of-office and bounce notifications are not replies and do not fire this.',
+    firedWhen: 'An inbound reply is received and classified.',
+    fields: [
+      { name: 'id',                  type: 'uuid',      description: 'Inbound email id.' },
+      { name: 'workspace_id',        type: 'uuid',      description: 'Workspace id.' },
+      { name: 'lead_id',             type: 'uuid',      nullable: true, description: 'Matching lead.' },
+      { name: 'thread_id',           type: 'uuid',      nullable: true, description: 'Inbox thread.' },
+      { name: 'reply_to_message_id', type: 'uuid',      nullable: true, description: 'Our message being answered (email.sent id).' },
+      { name: 'from_email',          type: 'string',    description: 'Sender.' },
+      { name: 'from_name',           type: 'string',    nullable: true, description: 'Sender display name.' },
+      { name: 'to_email',            type: 'string',    nullable: true, description: 'Our mailbox.' },
+      { name: 'subject',             type: 'string',    nullable: true, description: 'Subject line.' },
+      { name: 'snippet',             type: 'string',    description: 'First 280 characters of the plain-text body.' },
+      { name: 'intent',              type: 'string',    nullable: true, description: 'Classified reply intent; null when unclassified.', options: ['interested', 'meeting_request', 'objection', 'referral', 'unsubscribe'] },
+      { name: 'intent_confidence',   type: 'number',    nullable: true, description: 'Classifier confidence 0–1.' },
+      { name: 'received_at',         type: 'timestamp', description: 'Received.' },
+    ],
+  },
+  'email.bounced': {
+    version: 1,
+    description: 'The provider reported a hard bounce.',
+    firedWhen: 'A bounce webhook from the sending provider.',
+    fields: DELIVERABILITY_FIELDS,
+  },
+  'email.unsubscribed': {
+    version: 1,
+    description: 'A recipient opted out.',
+    firedWhen: 'A provider unsubscribe event, or the address is suppressed in-app (unsubscribe reply or manual).',
+    fields: DELIVERABILITY_FIELDS,
+  },
+  'deal.created': {
+    version: 1,
+    description: 'A deal was opened.',
+    firedWhen: 'A deal is created from the pipeline or a lead.',
+    fields: DEAL_FIELDS,
+  },
+  'deal.stage_changed': {
+    version: 1,
+    description: 'A deal moved to another stage, including won and lost.',
+    firedWhen: 'Every stage change.',
+    fields: [...DEAL_FIELDS, PREVIOUS_STAGE],
+  },
+  'deal.won': {
+    version: 1,
+    description: 'A deal was marked won. Sent in addition to deal.stage_changed.',
+    firedWhen: 'Stage moves to won.',
+    fields: [...DEAL_FIELDS, PREVIOUS_STAGE],
+  },
+  'deal.lost': {
+    version: 1,
+    description: 'A deal was marked lost. Sent in addition to deal.stage_changed.',
+    firedWhen: 'Stage moves to lost.',
+    fields: [...DEAL_FIELDS, PREVIOUS_STAGE],
+  },
+  'task.created': {
+    version: 1,
+    description: 'A task was created.',
+    firedWhen: 'Manual tasks and tasks created by automations or reply handling.',
+    fields: TASK_FIELDS,
+  },
+  'task.completed': {
+    version: 1,
+    description: 'A task was marked done.',
+    firedWhen: 'Status moves to done.',
+    fields: TASK_FIELDS,
+  },
+  'call.completed': {
+    version: 1,
+    description: 'A call ended or was logged.',
+    firedWhen: 'A manual call log is saved, or an in-app call reaches a final status.',
+    fields: [
+      { name: 'id',               type: 'uuid',      description: 'Call log id.' },
+      { name: 'workspace_id',     type: 'uuid',      description: 'Workspace id.' },
+      { name: 'lead_id',          type: 'uuid',      nullable: true, description: 'Lead called.' },
+      { name: 'direction',        type: 'string',    description: 'outbound or inbound.' },
+      { name: 'phone_number',     type: 'string',    nullable: true, description: 'Number dialled.' },
+      { name: 'outcome',          type: 'string',    description: 'connected, voicemail, no_answer, busy or wrong_number.' },
+      { name: 'status',           type: 'string',    description: 'completed, no-answer, busy, failed or canceled.' },
+      { name: 'duration_seconds', type: 'integer',   nullable: true, description: 'Talk time.' },
+      { name: 'recording_url',    type: 'string',    nullable: true, description: 'Recording, when enabled. Usually arrives after the call ends — may be null here.' },
+      { name: 'notes',            type: 'string',    nullable: true, description: 'Call notes.' },
+      { name: 'created_by',       type: 'uuid',      nullable: true, description: 'User who placed or logged the call.' },
+      { name: 'created_at',       type: 'timestamp', description: 'Call start.' },
+    ],
+  },
+  'goal.webhook': {
+    version: 1,
+    description: "A goal plan's send_webhook step fired.",
+    firedWhen: 'A live goal run reaches a send_webhook step (goal-executor), not a database trigger.',
+    fields: [
+      { name: 'goal_id',        type: 'uuid',      description: 'Goal id.' },
+      { name: 'goal_statement', type: 'string',    description: 'The goal as the user wrote it.' },
+      { name: 'plan_id',        type: 'uuid',      description: 'Plan version that ran the step.' },
+      { name: 'step_id',        type: 'string',    description: 'Step id within the plan (s1, s2, …).' },
+      { name: 'step_title',     type: 'string',    description: 'Step label.' },
+      { name: 'signal',         type: 'string',    description: 'Machine name the plan gave this signal — route on it.' },
+      { name: 'message',        type: 'string',    nullable: true, description: 'Free-text message from the plan.' },
+      { name: 'lead_ids',       type: 'array',     description: 'Leads from the step\'s lead_filter (max 100); empty when it has none.' },
+      { name: 'sent_at',        type: 'timestamp', description: 'When the step ran.' },
+    ],
+  },
+};
+
+const SAMPLE_VALUE: Record<WebhookFieldType, unknown> = {
+  uuid: '00000000-0000-0000-0000-000000000000',
+  string: 'string',
+  integer: 0,
+  number: 0,
+  boolean: false,
+  timestamp: '2026-01-01T00:00:00Z',
+  date: '2026-01-01',
+  array: [],
+  object: {},
+};
+
+// ─── Payload versions ───
+// Body layouts an endpoint can pin (webhook_endpoints.payload_version). Port
+// of supabase/functions/_shared/webhookEnvelope.ts — keep the two in step.
+
+export const PAYLOAD_VERSIONS = [
+  { version: 1, label: 'v1 — flat payload', description: 'payload holds every field, including previous_* / old_* values.' },
+  { version: 2, label: 'v2 — object + previous', description: 'data.object is the current state; data.previous holds the values that changed.' },
+] as const;
+export type PayloadVersion = typeof PAYLOAD_VERSIONS[number]['version'];
+export const LATEST_PAYLOAD_VERSION: PayloadVersion = 2;
+
+/** previous_<k> / old_<k> → previous.<k>, new_<k> → object.<k>, everything else stays on object. */
+export function splitPrevious(payload: Record<string, unknown>): {
+  object: Record<string, unknown>;
+  previous: Record<string, unknown> | null;
+} {
+  const object: Record<string, unknown> = {};
+  const previous: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(payload)) {
+    const prior = /^(?:previous|old)_(.+)$/.exec(key);
+    const next = /^new_(.+)$/.exec(key);
+    if (prior) previous[prior[1]] = value;
+    else if (next) object[next[1]] = value;
+    else object[key] = value;
+  }
+  return { object, previous: Object.keys(previous).length > 0 ? previous : null };
+}
+
+/** Example delivery body for an event in a given layout, built from its schema — for docs and the UI. */
+export function sampleWebhookBody(
+  event: WebhookEvent,
+  payloadVersion: number = 1,
+): Record<string, unknown> | null {
+  const schema = WEBHOOK_EVENT_SCHEMAS[event];
+  if (!schema) return null;
+  const payload = Object.fromEntries(schema.fields.map(f => [f.name, SAMPLE_VALUE[f.type]]));
+  const base = { id: SAMPLE_VALUE.uuid, event_type: event, version: schema.version };
+  if (payloadVersion === 2) {
+    return {
+      ...base,
+      payload_version: 2,
+      created_at: SAMPLE_VALUE.timestamp,
+      workspace_id: SAMPLE_VALUE.uuid,
+      replayed: false,
+      data: splitPrevious(payload),
+    };
+  }
+  return { ...base, created_at: SAMPLE_VALUE.timestamp, workspace_id: SAMPLE_VALUE.uuid, payload };
+}
+
+// ─── Filter fields ───
+
+const FILTER_TYPE: Partial<Record<WebhookFieldType, ConditionFieldType>> = {
+  uuid: 'string', string: 'string', integer: 'number', number: 'number',
+  boolean: 'boolean', timestamp: 'date', date: 'date', array: 'list',
+};
+
+/**
+ * Payload fields an endpoint filter can test for this event, in the shape the
+ * condition builder takes. Objects are left out (except custom_fields, reached
+ * through the builder's "Custom field…" entry on lead events).
+ */
+export function webhookFilterFields(event: WebhookEvent): ConditionField[] {
+  const schema = WEBHOOK_EVENT_SCHEMAS[event];
+  if (!schema) return [];
+  const group: ConditionField['group'] = schema.fields.some(f => f.name === 'custom_fields') ? 'Lead' : 'Event';
+  return schema.fields.flatMap(f => {
+    const type = FILTER_TYPE[f.type];
+    if (!type || f.name === 'workspace_id') return [];
+    return [{ key: f.name, label: f.name, type, group, options: f.options }];
+  });
+}
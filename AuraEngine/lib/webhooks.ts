@@ -3,6 +3,11 @@
 // Phase 4.3 (UI side) — workspace webhook endpoint CRUD.
 
 import { supabase } from './supabase';
+import type { ConditionGroup } from './leadConditions';
+
+/** Per-event filters: an event type's condition group must match its payload
+ *  for the delivery to be sent (migration 20260823180000). */
+export type WebhookFilters = Partial<Record<string, ConditionGroup>>;
 
 export interface WebhookEndpoint {
   id: string;
@@ -11,9 +16,13 @@ export interface WebhookEndpoint {
   url: string;
   description: string | null;
   event_types: string[];
+  filters: WebhookFilters;
+  payload_version: number;
   enabled: boolean;
   failure_count: number;
   disabled_at: string | null;
+  /** 'failing' when auto-disabled by the dispatcher, 'manual' when switched off. */
+  disabled_reason: 'failing' | 'manual' | null;
   last_attempt_at: string | null;
   last_success_at: string | null;
   created_at: string;
@@ -26,8 +35,11 @@ export interface WebhookDelivery {
   workspace_id: string;
   event_type: string;
   payload: unknown;
-  status: 'pending' | 'succeeded' | 'failed' | 'dead' | 'processing';
+  schema_version: number;
+  status: 'pending' | 'succeeded' | 'failed' | 'dead' | 'processing' | 'skipped';
   attempt_count: number;
+  replay_count: number;
+  replayed_at: string | null;
   last_status_code: number | null;
   last_error: string | null;
   next_attempt_at: string;
@@ -36,18 +48,31 @@ export interface WebhookDelivery {
 }
 
 /** Curated event-type catalogue surfaced in the UI. Empty event_types[] on
- *  the endpoint = subscribe to all of these. */
+ *  the endpoint = subscribe to all of these. Payload schemas live in
+ *  ./webhookSchemas. */
 export const WEBHOOK_EVENTS = [
   'lead.created',
   'lead.updated',
+  'lead.status_changed',
+  'lead.score_changed',
   'lead.deleted',
   'sequence.started',
   'sequence.completed',
   'email.sent',
   'email.opened',
   'email.clicked',
+  'email.replied',
   'email.bounced',
+  'email.unsubscribed',
+  'deal.created',
+  'deal.stage_changed',
+  'deal.won',
+  'deal.lost',
+  'task.created',
+  'task.completed',
+  'call.completed',
   'campaign.launched',
+  'goal.webhook',
 ] as const;
 export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
 
@@ -63,8 +88,8 @@ export function mintWebhookSecret(): string {
  *  to the browser (migration 20260819110000). A `select('*')` here would now be
  *  rejected outright, not silently trimmed. */
 const ENDPOINT_SAFE_COLS =
-  'id, workspace_id, created_by, url, description, event_types, enabled, ' +
-  'failure_count, disabled_at, last_attempt_at, last_success_at, created_at, updated_at';
+  'id, workspace_id, created_by, url, description, event_types, filters, payload_version, enabled, ' +
+  'failure_count, disabled_at, disabled_reason, last_attempt_at, last_success_at, created_at, updated_at';
 
 export async function listWebhookEndpoints(workspaceId: string): Promise<WebhookEndpoint[]> {
   const { data, error } = await supabase
@@ -86,6 +111,8 @@ export async function createWebhookEndpoint(opts: {
   url: string;
   description?: string;
   eventTypes?: string[];
+  filters?: WebhookFilters;
+  payloadVersion?: number;
 }): Promise<{ endpoint: WebhookEndpoint; secret: string }> {
   if (!/^https:\/\//i.test(opts.url)) throw new Error('URL must start with https://');
   const secret = mintWebhookSecret();
@@ -97,6 +124,8 @@ export async function createWebhookEndpoint(opts: {
       secret,
       description:  opts.description ?? null,
       event_types:  opts.eventTypes ?? [],
+      filters:      opts.filters ?? {},
+      ...(opts.payloadVersion ? { payload_version: opts.payloadVersion } : {}),
     })
     .select(ENDPOINT_SAFE_COLS)
     .single();
@@ -114,7 +143,7 @@ export async function rotateWebhookSecret(id: string): Promise<string> {
 
 export async function updateWebhookEndpoint(
   id: string,
-  patch: Partial<Pick<WebhookEndpoint, 'url' | 'description' | 'event_types' | 'enabled'>>,
+  patch: Partial<Pick<WebhookEndpoint, 'url' | 'description' | 'event_types' | 'filters' | 'payload_version' | 'enabled'>>,
 ): Promise<WebhookEndpoint> {
   if (patch.url && !/^https:\/\//i.test(patch.url)) throw new Error('URL must start with https://');
   const { data, error } = await supabase
@@ -146,18 +175,47 @@ export async function listRecentDeliveries(
   return (data ?? []) as WebhookDelivery[];
 }
 
-/** Re-queue a failed/dead delivery for one more attempt. */
+/** Re-queue a failed/dead/skipped delivery for one more attempt. Goes through
+ *  an RPC: members can read deliveries but not update them. */
 export async function retryDelivery(deliveryId: string): Promise<void> {
-  const { error } = await supabase
-    .from('webhook_deliveries')
-    .update({
-      status: 'pending',
-      next_attempt_at: new Date().toISOString(),
-    })
-    .eq('id', deliveryId);
+  const { error } = await supabase.rpc('retry_webhook_delivery', { p_delivery_id: deliveryId });
   if (error) throw error;
 }
 
+/** How far back replay_webhook_deliveries() reaches. */
+export const REPLAY_WINDOW_DAYS = 30;
+
+/** Re-queue every failed/dead delivery (plus delivered ones when asked) the
+ *  endpoint received in [from, to), keeping their ids so receivers can
+ *  de-duplicate. Returns how many were queued. */
+export async function replayDeliveries(opts: {
+  endpointId: string;
+  from: Date;
+  to: Date;
+  includeDelivered?: boolean;
+}): Promise<number> {
+  const { data, error } = await supabase.rpc('replay_webhook_deliveries', {
+    p_endpoint_id:       opts.endpointId,
+    p_from:              opts.from.toISOString(),
+    p_to:                opts.to.toISOString(),
+    p_include_delivered: opts.includeDelivered ?? false,
+  });
+  if (error) throw error;
+  return (data as number | null) ?? 0;
+}
+
+/** Drop empty groups and events the endpoint no longer subscribes to, so the
+ *  stored filters only hold rules that can apply. */
+export function normalizeWebhookFilters(filters: WebhookFilters, eventTypes: string[]): WebhookFilters {
+  const out: WebhookFilters = {};
+  for (const [event, group] of Object.entries(filters)) {
+    if (!group || group.rules.length === 0) continue;
+    if (eventTypes.length > 0 && !eventTypes.includes(event)) continue;
+    out[event] = group;
+  }
+  return out;
+}
+
 /** Fire a synthetic test event into the endpoint. Goes through the same
  *  fan-out path as real events. */
 export async function sendTestEvent(opts: {
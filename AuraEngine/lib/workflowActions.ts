@@ -0,0 +1,177 @@
+// AuraEngine/lib/workflowActions.ts
+//
+// Config schemas for workflow action nodes. Every action node carries an
+// explicit `actionType` (see WorkflowNode in automationEngine.ts); the schema
+// for that type says which config keys it reads, which are required, and what
+// a fresh node starts with. The builder validates against it and both
+// executors refuse to run an action node without a type — a node's title
+// never decides what it does.
+
+import type { ActionType } from '../types';
+import type { WorkflowNode } from './automationEngine';
+
+type ConfigValue = string | number | boolean;
+type NodeConfig = Record<string, ConfigValue>;
+
+export interface ActionConfigField {
+  key: string;
+  label: string;
+  kind: 'text' | 'textarea' | 'select' | 'number' | 'boolean';
+  required?: boolean;
+  /** Allowed values for a select. Omitted when the UI supplies its own list. */
+  options?: { value: string; label: string }[];
+  placeholder?: string;
+  /** Only shown / validated when this returns true for the current config. */
+  when?: (config: NodeConfig) => boolean;
+}
+
+export interface ActionConfigSchema {
+  fields: ActionConfigField[];
+  defaults: NodeConfig;
+}
+
+const LEAD_STATUSES = ['New', 'Contacted', 'Qualified', 'Converted', 'Lost'];
+
+export const ACTION_CONFIG_SCHEMAS: Record<ActionType, ActionConfigSchema> = {
+  send_email: {
+    fields: [
+      { key: 'template', label: 'Email Template', kind: 'select', required: true },
+      { key: 'customSubject', label: 'Subject Line', kind: 'text', required: true, when: c => c.template === '__custom__' },
+      { key: 'customBody', label: 'Email Body (HTML)', kind: 'textarea', required: true, when: c => c.template === '__custom__' },
+      { key: 'aiPersonalization', label: 'AI Personalization', kind: 'boolean' },
+      {
+        key: 'timing', label: 'Timing', kind: 'select', required: true,
+        options: [
+          { value: 'immediate', label: 'Send immediately' },
+          { value: 'optimal', label: 'AI optimal time' },
+          { value: 'morning', label: 'Next morning (9 AM)' },
+          { value: 'afternoon', label: 'Next afternoon (2 PM)' },
+        ],
+      },
+      { key: 'fallbackEnabled', label: 'Fallback Action', kind: 'boolean' },
+      {
+        key: 'fallbackAction', label: 'If this step fails', kind: 'select', required: true, when: c => !!c.fallbackEnabled,
+        options: [
+          { value: 'create_task', label: 'Create a follow-up task' },
+          { value: 'create_alert', label: 'Create an alert' },
+          { value: 'retry', label: 'Retry after 1 hour' },
+          { value: 'skip', label: 'Skip and continue' },
+        ],
+      },
+    ],
+    defaults: { template: 'welcome', aiPersonalization: false, timing: 'immediate', fallbackEnabled: false },
+  },
+  update_status: {
+    fields: [
+      {
+        key: 'newStatus', label: 'New Status', kind: 'select', required: true,
+        options: LEAD_STATUSES.filter(s => s !== 'New').map(s => ({ value: s, label: s })),
+      },
+    ],
+    defaults: { newStatus: 'Contacted' },
+  },
+  add_tag: {
+    fields: [{ key: 'tag', label: 'Tag Name', kind: 'text', required: true, placeholder: 'e.g. Hot Lead, VIP, Nurture' }],
+    defaults: { tag: '' },
+  },
+  assign_user: {
+    fields: [{ key: 'assignee', label: 'Assign To', kind: 'text', required: true, placeholder: 'e.g. sales@company.com' }],
+    defaults: { assignee: '' },
+  },
+  // Not wired to a side effect yet — the executors log the step and move on.
+  generate_content: { fields: [], defaults: {} },
+  create_alert: {
+    fields: [{ key: 'alertMessage', label: 'Alert Message', kind: 'textarea', placeholder: 'Leave blank for the default alert text' }],
+    defaults: { alertMessage: '' },
+  },
+  move_to_segment: { fields: [], defaults: {} },
+  notify_slack: {
+    fields: [{ key: 'messageTemplate', label: 'Message Template', kind: 'textarea' }],
+    defaults: { messageTemplate: '' },
+  },
+  sync_crm: {
+    fields: [
+      {
+        key: 'crmProvider', label: 'CRM Provider', kind: 'select', required: true,
+        options: [{ value: 'hubspot', label: 'HubSpot' }, { value: 'salesforce', label: 'Salesforce' }],
+      },
+    ],
+    defaults: { crmProvider: 'hubspot' },
+  },
+};
+
+export const ACTION_TYPES = Object.keys(ACTION_CONFIG_SCHEMAS) as ActionType[];
+
+export function isActionType(value: unknown): value is ActionType {
+  return typeof value === 'string' && (ACTION_TYPES as string[]).includes(value);
+}
+
+/** Fresh config for a node switched to (or created as) `actionType`. */
+export function defaultActionConfig(actionType: ActionType): NodeConfig {
+  return { ...ACTION_CONFIG_SCHEMAS[actionType].defaults };
+}
+
+/** The fields that apply to `config` right now (conditional fields filtered). */
+export function visibleActionFields(actionType: ActionType, config: NodeConfig): ActionConfigField[] {
+  return ACTION_CONFIG_SCHEMAS[actionType].fields.filter(f => !f.when || f.when(config));
+}
+
+/** Problems with an action's config, keyed by config key. Empty when valid. */
+export function validateActionConfig(actionType: ActionType | undefined, config: NodeConfig): Record<string, string> {
+  if (!actionType) return { actionType: 'Choose what this action does' };
+  const errors: Record<string, string> = {};
+  for (const field of visibleActionFields(actionType, config)) {
+    const value = config[field.key];
+    const blank = value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+    if (field.required && blank) {
+      errors[field.key] = `${field.label} is required`;
+    } else if (!blank && field.options && !field.options.some(o => o.value === value)) {
+      errors[field.key] = `${field.label} has an unsupported value "${String(value)}"`;
+    } else if (!blank && field.kind === 'number' && Number.isNaN(Number(value))) {
+      errors[field.key] = `${field.label} must be a number`;
+    }
+  }
+  return errors;
+}
+
+/** One line per action node whose config doesn't validate, for the pre-flight checklist. */
+export function validateWorkflowActions(nodes: WorkflowNode[]): string[] {
+  const issues: string[] = [];
+  for (const node of nodes) {
+    if (node.type !== 'action') continue;
+    const errors = Object.values(validateActionConfig(node.actionType, node.config));
+    if (errors.length > 0) issues.push(`"${node.title}": ${errors.join('; ')}`);
+  }
+  return issues;
+}
+
+/**
+ * The keyword guess the engine used to make from a node's title. Only used to
+ * upgrade workflows saved before actionType existed, so they keep doing what
+ * they did — the result is then stored and shown, never re-derived.
+ */
+function legacyActionType(title: string): ActionType | undefined {
+  const t = title.toLowerCase();
+  if (t.includes('email') || t.includes('send')) return 'send_email';
+  if (t.includes('status') || t.includes('update')) return 'update_status';
+  if (t.includes('tag')) return 'add_tag';
+  if (t.includes('slack')) return 'notify_slack';
+  if (t.includes('crm') || t.includes('hubspot') || t.includes('salesforce')) return 'sync_crm';
+  if (t.includes('alert') || t.includes('notify')) return 'create_alert';
+  if (t.includes('assign')) return 'assign_user';
+  return undefined;
+}
+
+/**
+ * Lifts `config.actionType` (or, failing that, the legacy title guess) onto
+ * `node.actionType` and fills the type's default config keys. Mirrors the
+ * 20260821120000_workflow_action_types migration for rows saved by an older
+ * client. Nodes that already have an actionType are returned untouched.
+ */
+export function migrateActionNode(node: WorkflowNode): WorkflowNode {
+  if (node.type !== 'action' || node.actionType) return node;
+  const { actionType: legacy, ...config } = node.config;
+  const actionType = isActionType(legacy) ? legacy : legacyActionType(node.title);
+  if (!actionType) return { ...node, config };
+  return { ...node, actionType, config: { ...ACTION_CONFIG_SCHEMAS[actionType].defaults, ...config } };
+}
@@ -0,0 +1,172 @@
+// AuraEngine/lib/workflowVersions.ts
+//
+// Published workflow versions (supabase/migrations/20260822100000).
+//
+// The builder saves into the workflow's draft; publishing freezes the draft as
+// the next immutable version and makes it live. Runs are pinned to the version
+// they were enrolled on, so a publish only affects leads that start afterwards.
+// Rolling back publishes a copy of an older version — history is append-only.
+
+import { supabase } from './supabase';
+import { nodeCondition, resolveEdges, type WorkflowEdge, type WorkflowNode } from './automationEngine';
+import { describeCondition } from './leadConditions';
+
+export interface WorkflowVersion {
+  id: string;
+  workflowId: string;
+  version: number;
+  name: string;
+  nodes: WorkflowNode[];
+  edges: WorkflowEdge[];
+  note: string | null;
+  rolledBackFrom: number | null;
+  publishedBy: string | null;
+  publishedAt: string;
+}
+
+export type NodeChangeKind = 'added' | 'removed' | 'changed';
+
+export interface NodeChange {
+  nodeId: string;
+  title: string;
+  kind: NodeChangeKind;
+  /** Human-readable field changes, e.g. `Template: "welcome" → "follow-up"`. Empty for added/removed. */
+  details: string[];
+}
+
+export interface WorkflowDiff {
+  nodes: NodeChange[];
+  edgesAdded: WorkflowEdge[];
+  edgesRemoved: WorkflowEdge[];
+}
+
+function rowToVersion(row: any): WorkflowVersion {
+  return {
+    id: row.id,
+    workflowId: row.workflow_id,
+    version: row.version,
+    name: row.name,
+    nodes: (row.nodes || []) as WorkflowNode[],
+    edges: (row.edges || []) as WorkflowEdge[],
+    note: row.note ?? null,
+    rolledBackFrom: row.rolled_back_from ?? null,
+    publishedBy: row.published_by ?? null,
+    publishedAt: row.published_at,
+  };
+}
+
+/** Newest first. */
+export async function loadWorkflowVersions(workflowId: string): Promise<WorkflowVersion[]> {
+  const { data, error } = await supabase
+    .from('workflow_versions')
+    .select('*')
+    .eq('workflow_id', workflowId)
+    .order('version', { ascending: false })
+    .limit(100);
+
+  if (error) {
+    console.error('Failed to load workflow versions:', error.message);
+    return [];
+  }
+  return (data || []).map(rowToVersion);
+}
+
+/** Publishes the saved draft as the next version. Returns the new version number. */
+export async function publishWorkflow(workflowId: string, note?: string): Promise<number> {
+  const { data, error } = await supabase.rpc('publish_workflow', {
+    p_workflow_id: workflowId,
+    p_note: note ?? null,
+  });
+  if (error) throw error;
+  return data as number;
+}
+
+/** Publishes a copy of `version` as the next version, discarding the draft. Returns the new version number. */
+export async function rollbackWorkflow(workflowId: string, version: number): Promise<number> {
+  const { data, error } = await supabase.rpc('rollback_workflow', {
+    p_workflow_id: workflowId,
+    p_version: version,
+  });
+  if (error) throw error;
+  return data as number;
+}
+
+// ─── Diff ───
+
+const stable = (v: unknown): string =>
+  JSON.stringify(v, (_key, value) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+      : value
+  ) ?? '';
+
+const show = (v: unknown): string => {
+  if (v === undefined || v === null || v === '') return '—';
+  return typeof v === 'string' ? `"${v}"` : stable(v);
+};
+
+function nodeChanges(before: WorkflowNode, after: WorkflowNode): string[] {
+  const details: string[] = [];
+  if (before.title !== after.title) details.push(`Title: ${show(before.title)} → ${show(after.title)}`);
+  if (before.type !== after.type) details.push(`Type: ${before.type} → ${after.type}`);
+  if (before.actionType !== after.actionType) {
+    details.push(`Action: ${show(before.actionType)} → ${show(after.actionType)}`);
+  }
+  if (after.type === 'condition' && before.type === 'condition') {
+    const a = describeCondition(nodeCondition(before));
+    const b = describeCondition(nodeCondition(after));
+    if (a !== b) details.push(`Condition: ${a} → ${b}`);
+  }
+  const keys = new Set([...Object.keys(before.config ?? {}), ...Object.keys(after.config ?? {})]);
+  for (const key of [...keys].sort()) {
+    const a = before.config?.[key];
+    const b = after.config?.[key];
+    if (stable(a) !== stable(b)) details.push(`${key}: ${show(a)} → ${show(b)}`);
+  }
+  return details;
+}
+
+const edgeKey = (e: WorkflowEdge) => `${e.source}|${e.branch ?? ''}|${e.target}`;
+
+/**
+ * What changed going from `before` to `after`: nodes matched by id (added,
+ * removed, or changed with a line per differing field) and edges matched by
+ * source/branch/target (legacy flat workflows get their implied edges).
+ * Description-only edits are ignored — they don't change what the workflow
+ * does.
+ */
+export function diffWorkflowVersions(
+  before: { nodes: WorkflowNode[]; edges: WorkflowEdge[] },
+  after: { nodes: WorkflowNode[]; edges: WorkflowEdge[] },
+): WorkflowDiff {
+  const beforeById = new Map(before.nodes.map(n => [n.id, n]));
+  const afterIds = new Set(after.nodes.map(n => n.id));
+  const nodes: NodeChange[] = [];
+
+  for (const node of after.nodes) {
+    const prev = beforeById.get(node.id);
+    if (!prev) {
+      nodes.push({ nodeId: node.id, title: node.title, kind: 'added', details: [] });
+      continue;
+    }
+    const details = nodeChanges(prev, node);
+    if (details.length > 0) nodes.push({ nodeId: node.id, title: node.title, kind: 'changed', details });
+  }
+  for (const node of before.nodes) {
+    if (!afterIds.has(node.id)) nodes.push({ nodeId: node.id, title: node.title, kind: 'removed', details: [] });
+  }
+
+  const oldEdges = resolveEdges(before);
+  const newEdges = resolveEdges(after);
+  const oldKeys = new Set(oldEdges.map(edgeKey));
+  const newKeys = new Set(newEdges.map(edgeKey));
+  return {
+    nodes,
+    edgesAdded: newEdges.filter(e => !oldKeys.has(edgeKey(e))),
+    edgesRemoved: oldEdges.filter(e => !newKeys.has(edgeKey(e))),
+  };
+}
+
+export function isEmptyDiff(diff: WorkflowDiff): boolean {
+  return diff.nodes.length === 0 && diff.edgesAdded.length === 0 && diff.edgesRemoved.length === 0;
+}
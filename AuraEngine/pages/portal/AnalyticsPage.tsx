@@ -6,6 +6,8 @@ import { generateProgrammaticInsights } from '../../lib/insights';
 import { useAnalyticsData, computeTrend } from '../../hooks/useAnalyticsData';
 import { PageHeader } from '../../components/layout/PageHeader';
 import { AdvancedOnly } from '../../components/ui-mode';
+import { useCurrentBusiness } from '../../components/business/BusinessProvider';
+import ScoreCalibrationReport from '../../components/leads/ScoreCalibrationReport';
 import {
   ChartIcon, TrendUpIcon, TrendDownIcon, TargetIcon, SparklesIcon, CreditCardIcon,
   PieChartIcon, DownloadIcon, FilterIcon, AlertTriangleIcon, BellIcon, RefreshIcon,
@@ -143,6 +145,7 @@ const PIE_COLORS = ['#6366f1', '#8b5cf6', '#a855f7', '#f59e0b', '#10b981', '#f43
 
 const AnalyticsPage: React.FC = () => {
   const { user } = useOutletContext<LayoutContext>();
+  const { currentBusinessId } = useCurrentBusiness();
   const [leads, setLeads] = useState<Lead[]>([]);
   const [leadsLoading, setLeadsLoading] = useState(true);
   const [dateRange, setDateRange] = useState<DateRangePreset>('30d');
@@ -987,6 +990,9 @@ const AnalyticsPage: React.FC = () => {
             </div>
           </div>
 
+          {/* SCORE CALIBRATION — score at deal creation vs. won/lost */}
+          <ScoreCalibrationReport userId={user.id} businessId={currentBusinessId} />
+
           {/* EMAIL ENGAGEMENT CHART (NEW — real data) */}
           {analyticsData.emailTimeSeries.length > 0 && analyticsData.emailTimeSeries.some(d => d.sent > 0) ? (
             <div className="bg-white rounded-2xl p-6 border border-slate-100 shadow-sm">
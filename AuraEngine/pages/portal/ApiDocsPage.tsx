@@ -11,7 +11,7 @@ import {
 } from 'lucide-react';
 
 interface Endpoint {
-  method: 'GET' | 'POST' | 'PATCH';
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE';
   path: string;
   scope: string;
   summary: string;
@@ -27,8 +27,17 @@ const ENDPOINTS: Endpoint[] = [
     path:   '/v1-leads',
     scope:  'leads.read',
     summary: 'List leads',
-    description: 'Cursor-paginated list of leads in your workspace. Filter by status. Default limit 50, max 200.',
-    example: `curl ${BASE}/v1-leads?limit=20 \\
+    description: 'Cursor-paginated list of leads in your workspace. Filter by status, score_min / score_max, updated_since, source, company, email, tags (all must match) and custom_fields.<key>. Sort with sort=created_at|updated_at|score (prefix - for descending) and pick columns with fields=. Default limit 50, max 200.',
+    example: `curl "${BASE}/v1-leads?score_min=60&tags=enterprise&sort=-score&fields=first_name,primary_email,score" \\
+  -H "Authorization: Bearer scal_..."`,
+  },
+  {
+    method: 'GET',
+    path:   '/v1-leads/<uuid>',
+    scope:  'leads.read',
+    summary: 'Get a lead',
+    description: 'A single lead by id. Accepts fields= like the list. 404 if it does not exist in your workspace.',
+    example: `curl ${BASE}/v1-leads/<lead-uuid> \\
   -H "Authorization: Bearer scal_..."`,
   },
   {
@@ -52,15 +61,27 @@ const ENDPOINTS: Endpoint[] = [
   },
   {
     method: 'PATCH',
-    path:   '/v1-leads?id=<uuid>',
+    path:   '/v1-leads/<uuid>',
     scope:  'leads.write',
     summary: 'Update a lead',
-    description: 'Partial update. Only fields you supply are changed. Workspace-scoped — you cannot patch another workspace\'s lead even if you know its UUID.',
-    example: `curl "${BASE}/v1-leads?id=<lead-uuid>" \\
+    description: 'Partial update. Only fields you supply are changed. Workspace-scoped — you cannot patch another workspace\'s lead even if you know its UUID. The older ?id=<uuid> form still works.',
+    example: `curl ${BASE}/v1-leads/<lead-uuid> \\
   -X PATCH \\
   -H "Authorization: Bearer scal_..." \\
   -H "Content-Type: application/json" \\
-  -d '{ "status": "Qualified", "score": 85 }'`,
+  -H "Idempotency-Key: \$(uuidgen)" \\
+  -d '{ "status": "Qualified", "score": 85, "tags": ["enterprise"] }'`,
+  },
+  {
+    method: 'DELETE',
+    path:   '/v1-leads/<uuid>',
+    scope:  'leads.write',
+    summary: 'Delete a lead',
+    description: 'Permanently deletes the lead. With an Idempotency-Key, retries replay the original response instead of returning 404.',
+    example: `curl ${BASE}/v1-leads/<lead-uuid> \\
+  -X DELETE \\
+  -H "Authorization: Bearer scal_..." \\
+  -H "Idempotency-Key: \$(uuidgen)"`,
   },
   {
     method: 'GET',
@@ -123,6 +144,7 @@ const METHOD_TONE: Record<Endpoint['method'], string> = {
   GET:   'bg-emerald-100 text-emerald-800',
   POST:  'bg-indigo-100 text-indigo-800',
   PATCH: 'bg-amber-100 text-amber-800',
+  DELETE: 'bg-rose-100 text-rose-800',
 };
 
 const ApiDocsPage: React.FC = () => {
@@ -177,7 +199,8 @@ const ApiDocsPage: React.FC = () => {
             <p className="text-xs font-bold text-slate-500 uppercase tracking-wide flex items-center gap-1">
               <AlertCircle size={11} /> Rate limit
             </p>
-            <p className="text-xs mt-1">60 requests / minute / key</p>
+            <p className="text-xs mt-1">Per key, by plan: Free 30 · Starter 60 · Growth 300 · Scale 1200 / minute</p>
+            <p className="text-xs text-slate-500 mt-0.5">See <span className="font-mono">X-RateLimit-Remaining</span> / <span className="font-mono">-Reset</span></p>
           </div>
         </div>
         <p className="text-xs text-slate-500">
@@ -237,13 +260,15 @@ const ApiDocsPage: React.FC = () => {
           <ErrorRow status="401" code="missing_auth"        msg="No Authorization header" />
           <ErrorRow status="401" code="invalid_key"         msg="Token missing, expired, or revoked" />
           <ErrorRow status="403" code="missing_scope"       msg="Key lacks the scope required by the endpoint" />
+          <ErrorRow status="403" code="ip_not_allowed"      msg="Caller address is not on the key's IP allowlist" />
+          <ErrorRow status="403" code="business_scope_unsupported" msg="Endpoint not available to business-restricted keys" />
           <ErrorRow status="400" code="bad_request"         msg="Body or query parameters are malformed" />
           <ErrorRow status="400" code="invalid_status"      msg="status field not in allowed enum" />
           <ErrorRow status="400" code="invalid_score"       msg="score outside 0..100" />
           <ErrorRow status="400" code="missing_id"          msg="PATCH requires ?id=<uuid>" />
           <ErrorRow status="404" code="not_found"           msg="Resource not in this workspace" />
           <ErrorRow status="409" code="idempotency_conflict" msg="Idempotency-Key reused with a different request body" />
-          <ErrorRow status="429" code="rate_limited"        msg="60 req/min/key exceeded" />
+          <ErrorRow status="429" code="rate_limited"        msg="Plan's per-key limit exceeded; see Retry-After" />
           <ErrorRow status="500" code="query_failed"        msg="Server-side error; retry with backoff" />
         </div>
       </section>
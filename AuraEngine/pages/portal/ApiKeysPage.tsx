@@ -2,8 +2,10 @@
 //
 // Phase 4.1 — API key management UI.
 //
-//   - List existing keys (label, prefix, scopes, last_used, expiry, revoke)
-//   - Mint a new key: choose label, scopes, optional expiry
+//   - List existing keys (label, prefix, scopes, restrictions, last_used,
+//     expiry, revoke) with a per-key usage chart (api_key_usage_hourly)
+//   - Mint a new key: choose label, scopes, optional expiry, business,
+//     IP allowlist and rate cap
 //   - Show the plaintext exactly once after mint; user must copy it now.
 //
 // Plaintext is never re-fetchable — the migration only stores the hash.
@@ -11,11 +13,14 @@
 import React, { useEffect, useState, useCallback } from 'react';
 import { useOutletContext } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
-import { Key, Plus, Trash2, Check, Clipboard, AlertTriangle, ShieldCheck } from 'lucide-react';
+import { Key, Plus, Trash2, Check, Clipboard, AlertTriangle, ShieldCheck, BarChart3 } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import type { User } from '../../types';
 import { supabase } from '../../lib/supabase';
+import { listBusinesses, type Business } from '../../lib/businesses';
 import {
-  listApiKeys, createApiKey, revokeApiKey, SCOPES, type ApiKeyRow, type ApiScope,
+  listApiKeys, createApiKey, revokeApiKey, scopesByResource, effectiveRateLimit, parseIpAllowlist,
+  listApiKeyUsage, usageByDay, type ApiKeyRow, type ApiScope,
 } from '../../lib/apiKeys';
 
 interface LayoutContext { user: User }
@@ -39,7 +44,17 @@ const ApiKeysPage: React.FC = () => {
     staleTime: 5 * 60_000,
   });
 
+  const { data: businesses = [] } = useQuery<Business[]>({
+    queryKey: ['api-keys-businesses', workspaceId],
+    queryFn: async () => (await listBusinesses()).filter((b) => b.workspace_id === workspaceId),
+    enabled: !!workspaceId,
+    staleTime: 5 * 60_000,
+  });
+  const businessName = (id: string | null) => businesses.find((b) => b.id === id)?.name ?? 'one business';
+  const planLimit = effectiveRateLimit(user.plan, null);
+
   const [keys, setKeys] = useState<ApiKeyRow[]>([]);
+  const [usageKeyId, setUsageKeyId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [showCreate, setShowCreate] = useState(false);
   const [justCreatedToken, setJustCreatedToken] = useState<string | null>(null);
@@ -98,7 +113,8 @@ const ApiKeysPage: React.FC = () => {
   -H "Authorization: Bearer scal_..."`}</code></pre>
         <p className="text-xs text-slate-500 mt-2">
           Endpoints: <code className="font-mono">v1-leads</code>, <code className="font-mono">v1-sequences</code>, <code className="font-mono">v1-campaigns</code>, <code className="font-mono">v1-analytics</code>.
-          Rate limit: 60 req/min/key.
+          Rate limit: {planLimit} req/min/key on your plan; every response carries
+          {' '}<code className="font-mono">X-RateLimit-Remaining</code> and <code className="font-mono">X-RateLimit-Reset</code>.
           {' '}<a href="/portal/api-docs" className="text-indigo-600 hover:underline">In-app reference →</a>
           {' '}·{' '}
           <a href="https://github.com/ZsnSolutions9920/AuraEngine/blob/main/docs/api/openapi.yaml" target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:underline">OpenAPI 3.1 spec ↗</a>
@@ -124,6 +140,7 @@ const ApiKeysPage: React.FC = () => {
                   <th className="px-4 py-2.5 text-left">Label</th>
                   <th className="px-4 py-2.5 text-left">Prefix</th>
                   <th className="px-4 py-2.5 text-left">Scopes</th>
+                  <th className="px-4 py-2.5 text-left">Restrictions</th>
                   <th className="px-4 py-2.5 text-left">Last used</th>
                   <th className="px-4 py-2.5 text-left">Expires</th>
                   <th className="px-4 py-2.5"></th>
@@ -131,7 +148,8 @@ const ApiKeysPage: React.FC = () => {
               </thead>
               <tbody>
                 {activeKeys.map((k) => (
-                  <tr key={k.id} className="border-t border-slate-100">
+                  <React.Fragment key={k.id}>
+                  <tr className="border-t border-slate-100">
                     <td className="px-4 py-3 font-medium text-slate-900">{k.label}</td>
                     <td className="px-4 py-3 font-mono text-xs text-slate-600">{k.key_prefix}…</td>
                     <td className="px-4 py-3">
@@ -141,13 +159,29 @@ const ApiKeysPage: React.FC = () => {
                         ))}
                       </div>
                     </td>
+                    <td className="px-4 py-3 text-xs text-slate-500 space-y-0.5">
+                      <div>{k.business_id ? businessName(k.business_id) : 'All businesses'}</div>
+                      <div>{k.ip_allowlist?.length ? `${k.ip_allowlist.length} IP range${k.ip_allowlist.length === 1 ? '' : 's'}` : 'Any IP'}</div>
+                      <div>{effectiveRateLimit(user.plan, k.rate_limit_per_min)} req/min</div>
+                    </td>
                     <td className="px-4 py-3 text-xs text-slate-500">
                       {k.last_used_at ? new Date(k.last_used_at).toLocaleString() : 'never'}
                     </td>
                     <td className="px-4 py-3 text-xs text-slate-500">
-                      {k.expires_at ? new Date(k.expires_at).toLocaleDateString() : 'never'}
+                      {!k.expires_at
+                        ? 'never'
+                        : new Date(k.expires_at).getTime() <= Date.now()
+                          ? <span className="font-semibold text-rose-600">expired</span>
+                          : new Date(k.expires_at).toLocaleDateString()}
                     </td>
-                    <td className="px-4 py-3 text-right">
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => setUsageKeyId(usageKeyId === k.id ? null : k.id)}
+                        className={`p-1.5 rounded-lg transition ${usageKeyId === k.id ? 'text-indigo-600 bg-indigo-50' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'}`}
+                        title="Usage"
+                      >
+                        <BarChart3 size={14} />
+                      </button>
                       <button
                         onClick={() => handleRevoke(k.id, k.label)}
                         className="p-1.5 rounded-lg text-slate-400 hover:text-rose-600 hover:bg-rose-50 transition"
@@ -157,6 +191,14 @@ const ApiKeysPage: React.FC = () => {
                       </button>
                     </td>
                   </tr>
+                  {usageKeyId === k.id && (
+                    <tr className="border-t border-slate-100 bg-slate-50/50">
+                      <td colSpan={7} className="px-4 py-3">
+                        <KeyUsageChart keyId={k.id} />
+                      </td>
+                    </tr>
+                  )}
+                  </React.Fragment>
                 ))}
               </tbody>
             </table>
@@ -192,6 +234,8 @@ const ApiKeysPage: React.FC = () => {
       {showCreate && workspaceId && (
         <CreateKeyModal
           workspaceId={workspaceId}
+          businesses={businesses}
+          planLimit={planLimit}
           onClose={() => setShowCreate(false)}
           onCreated={(plaintext) => {
             setShowCreate(false);
@@ -242,16 +286,55 @@ const ApiKeysPage: React.FC = () => {
   );
 };
 
+// ── Per-key usage (last 7 days) ──────────────────────────────────────────
+
+const KeyUsageChart: React.FC<{ keyId: string }> = ({ keyId }) => {
+  const { data: rows, isLoading } = useQuery({
+    queryKey: ['api-key-usage', keyId],
+    queryFn: () => listApiKeyUsage(keyId, 7),
+    staleTime: 60_000,
+  });
+
+  if (isLoading) return <div className="h-40 rounded-xl bg-slate-100 animate-pulse" />;
+  const days = usageByDay(rows ?? [], 7);
+  const total = days.reduce((a, d) => a + d.requests, 0);
+  const throttled = days.reduce((a, d) => a + d.throttled, 0);
+
+  return (
+    <div>
+      <p className="text-xs text-slate-500 mb-2">
+        <span className="font-semibold text-slate-700">{total.toLocaleString()}</span> requests in the last 7 days
+        {throttled > 0 && <> · <span className="font-semibold text-rose-600">{throttled.toLocaleString()}</span> rate-limited</>}
+      </p>
+      <ResponsiveContainer width="100%" height={160}>
+        <BarChart data={days.map((d) => ({ ...d, ok: d.requests - d.throttled, label: d.day.slice(5) }))}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" vertical={false} />
+          <XAxis dataKey="label" tick={{ fontSize: 10 }} stroke="#94a3b8" />
+          <YAxis allowDecimals={false} tick={{ fontSize: 10 }} stroke="#94a3b8" width={40} />
+          <Tooltip contentStyle={{ borderRadius: '10px', border: '1px solid #e2e8f0', fontSize: '11px' }} />
+          <Bar dataKey="ok" name="Served" stackId="r" fill="#6366f1" />
+          <Bar dataKey="throttled" name="Rate-limited" stackId="r" fill="#f43f5e" radius={[4, 4, 0, 0]} />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
 // ── Create-key modal ─────────────────────────────────────────────────────
 
 const CreateKeyModal: React.FC<{
   workspaceId: string;
+  businesses: Business[];
+  planLimit: number;
   onClose: () => void;
   onCreated: (plaintext: string) => void;
-}> = ({ workspaceId, onClose, onCreated }) => {
+}> = ({ workspaceId, businesses, planLimit, onClose, onCreated }) => {
   const [label, setLabel] = useState('');
   const [scopes, setScopes] = useState<ApiScope[]>(['leads.read']);
   const [expiry, setExpiry] = useState<string>(''); // ISO date string or ''
+  const [businessId, setBusinessId] = useState<string>('');
+  const [ipText, setIpText] = useState('');
+  const [rateCap, setRateCap] = useState<string>('');
   const [creating, setCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -262,6 +345,10 @@ const CreateKeyModal: React.FC<{
   const handleCreate = async () => {
     if (!label.trim()) { setError('Label is required'); return; }
     if (scopes.length === 0) { setError('Pick at least one scope'); return; }
+    const ips = parseIpAllowlist(ipText);
+    if (ips.invalid.length > 0) { setError(`Not an IP address or CIDR range: ${ips.invalid.join(', ')}`); return; }
+    const cap = rateCap ? Number(rateCap) : null;
+    if (cap !== null && (!Number.isInteger(cap) || cap < 1)) { setError('Rate cap must be a whole number above 0'); return; }
     setCreating(true);
     setError(null);
     try {
@@ -270,6 +357,9 @@ const CreateKeyModal: React.FC<{
         label: label.trim(),
         scopes,
         expiresAt: expiry ? new Date(expiry) : null,
+        businessId: businessId || null,
+        ipAllowlist: ips.entries,
+        rateLimitPerMin: cap,
       });
       onCreated(plaintext);
     } catch (e) {
@@ -282,7 +372,7 @@ const CreateKeyModal: React.FC<{
   return (
     <div className="fixed inset-0 z-[9998] flex items-center justify-center p-4">
       <div className="absolute inset-0 bg-black/50" onClick={onClose} />
-      <div className="relative bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 space-y-4">
+      <div className="relative bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 space-y-4 max-h-[90vh] overflow-y-auto">
         <h3 className="text-lg font-bold text-slate-900">New API key</h3>
 
         <div>
@@ -299,16 +389,21 @@ const CreateKeyModal: React.FC<{
         <div>
           <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-1">Scopes</label>
           <div className="space-y-1.5">
-            {SCOPES.map((s) => (
-              <label key={s} className="flex items-center gap-2 text-sm cursor-pointer">
-                <input
-                  type="checkbox"
-                  checked={scopes.includes(s)}
-                  onChange={() => toggleScope(s)}
-                  className="rounded"
-                />
-                <span className="font-mono text-slate-700">{s}</span>
-              </label>
+            {scopesByResource().map(({ resource, scopes: group }) => (
+              <div key={resource} className="flex items-center gap-4">
+                <span className="w-24 text-sm text-slate-700 capitalize">{resource}</span>
+                {group.map((s) => (
+                  <label key={s} className="flex items-center gap-1.5 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={scopes.includes(s)}
+                      onChange={() => toggleScope(s)}
+                      className="rounded"
+                    />
+                    <span className="font-mono text-xs text-slate-600">{s.split('.')[1]}</span>
+                  </label>
+                ))}
+              </div>
             ))}
           </div>
         </div>
@@ -324,6 +419,47 @@ const CreateKeyModal: React.FC<{
           <p className="text-xs text-slate-400 mt-1">Leave blank to never expire.</p>
         </div>
 
+        {businesses.length > 1 && (
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-1">Business</label>
+            <select
+              value={businessId}
+              onChange={(e) => setBusinessId(e.target.value)}
+              className="w-full px-3 py-2 rounded-xl border border-slate-200 text-sm focus:outline-none focus:border-indigo-500"
+            >
+              <option value="">All businesses</option>
+              {businesses.map((b) => <option key={b.id} value={b.id}>{b.name}</option>)}
+            </select>
+            <p className="text-xs text-slate-400 mt-1">A restricted key only sees that business's leads and sequences.</p>
+          </div>
+        )}
+
+        <div>
+          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-1">IP allowlist (optional)</label>
+          <textarea
+            value={ipText}
+            onChange={(e) => setIpText(e.target.value)}
+            rows={2}
+            placeholder="203.0.113.7, 198.51.100.0/24"
+            className="w-full px-3 py-2 rounded-xl border border-slate-200 text-sm font-mono focus:outline-none focus:border-indigo-500"
+          />
+          <p className="text-xs text-slate-400 mt-1">Addresses or CIDR ranges. Leave blank to allow any address.</p>
+        </div>
+
+        <div>
+          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-1">Rate cap (optional)</label>
+          <input
+            type="number"
+            min={1}
+            max={planLimit}
+            value={rateCap}
+            onChange={(e) => setRateCap(e.target.value)}
+            placeholder={`${planLimit}`}
+            className="w-full px-3 py-2 rounded-xl border border-slate-200 text-sm focus:outline-none focus:border-indigo-500"
+          />
+          <p className="text-xs text-slate-400 mt-1">Requests per minute. Your plan allows up to {planLimit}.</p>
+        </div>
+
         {error && <div className="text-sm text-rose-600 bg-rose-50 border border-rose-200 rounded-lg p-2">{error}</div>}
 
         <div className="flex items-center gap-2 pt-2">
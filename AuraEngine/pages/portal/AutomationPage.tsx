@@ -3,7 +3,7 @@ import { useOutletContext } from 'react-router-dom';
 import type { User } from '../../types';
 import {
   PlusIcon, CheckIcon, GitBranchIcon, ArrowLeftIcon, ArrowRightIcon,
-  SendIcon, KeyboardIcon, XIcon, CopyIcon,
+  SendIcon, KeyboardIcon, XIcon, CopyIcon, ClockIcon,
   ActivityIcon, ShieldIcon, PieChartIcon, TrendUpIcon, BoltIcon, MailIcon,
 } from '../../components/Icons';
 import { PageHeader } from '../../components/layout/PageHeader';
@@ -30,6 +30,7 @@ import { ROICalculatorDrawer } from '../../components/automation/ROICalculatorDr
 import { TriggerAnalyticsDrawer } from '../../components/automation/TriggerAnalyticsDrawer';
 import { TemplateEffectivenessDrawer } from '../../components/automation/TemplateEffectivenessDrawer';
 import { CampaignsDrawer } from '../../components/automation/CampaignsDrawer';
+import { VersionHistoryDrawer } from '../../components/automation/VersionHistoryDrawer';
 import { KeyboardShortcutsModal } from '../../components/automation/KeyboardShortcutsModal';
 
 interface LayoutContext {
@@ -235,11 +236,30 @@ export default function AutomationPage() {
                   <span className={`w-1.5 h-1.5 rounded-full ${sc.dot} ${h.workflow.status === 'active' ? 'animate-pulse' : ''}`}></span>
                   <span>{h.workflow.status}</span>
                 </button>
+                <span className="text-[10px] font-bold text-slate-400">
+                  {h.workflow.version ? `v${h.workflow.version}` : 'Unpublished'}
+                </span>
+                {h.workflow.hasDraft && h.workflow.version && (
+                  <span className="px-2 py-0.5 bg-amber-50 text-amber-700 rounded-full text-[10px] font-black uppercase tracking-wider">
+                    Draft changes
+                  </span>
+                )}
               </div>
               <div className="flex items-center space-x-2">
+                <button onClick={() => h.togglePanel('versionHistory')} className="flex items-center space-x-2 px-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-600 hover:bg-slate-50 transition-all shadow-sm">
+                  <ClockIcon className="w-3.5 h-3.5" />
+                  <span>History</span>
+                </button>
                 <button onClick={h.handleSave} className="flex items-center space-x-2 px-4 py-2 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-700 hover:bg-slate-50 transition-all shadow-sm">
                   <CheckIcon className="w-3.5 h-3.5 text-emerald-500" />
-                  <span>Save</span>
+                  <span>Save draft</span>
+                </button>
+                <button
+                  onClick={() => h.handlePublish()}
+                  disabled={h.publishing || (!h.workflow.hasDraft && !!h.workflow.version)}
+                  className="flex items-center space-x-2 px-4 py-2 bg-white border border-indigo-200 rounded-xl text-xs font-bold text-indigo-700 hover:bg-indigo-50 transition-all shadow-sm disabled:opacity-50"
+                >
+                  <span>{h.publishing ? 'Publishing...' : 'Publish'}</span>
                 </button>
                 <button onClick={h.handleTest} disabled={h.testRunning} className="flex items-center space-x-2 px-4 py-2 bg-indigo-600 text-white rounded-xl text-xs font-bold hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-200 disabled:opacity-50">
                   {h.testRunning ? <div className="w-3.5 h-3.5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div> : <SendIcon className="w-3.5 h-3.5" />}
@@ -255,7 +275,7 @@ export default function AutomationPage() {
               <div className="flex items-center justify-between">
                 <div>
                   <h2 className="text-lg font-black text-slate-900 font-heading">{h.workflow.name}</h2>
-                  <p className="text-xs text-slate-400 mt-0.5">Drag nodes from the palette to build your workflow. Click any node to configure it.</p>
+                  <p className="text-xs text-slate-400 mt-0.5">Add steps from the palette below the selected node. Pick a condition's Yes or No side to build that branch.</p>
                 </div>
                 <div className="flex items-center space-x-2">
                   <button onClick={() => h.setWizardStep(1)} className="flex items-center space-x-1.5 px-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-600 hover:bg-slate-50 transition-all">
@@ -280,10 +300,10 @@ export default function AutomationPage() {
               <WorkflowCanvas
                 workflow={h.workflow}
                 selectedNodeId={h.selectedNodeId}
-                onSelectNode={h.setSelectedNodeId}
+                selectedBranch={h.selectedBranch}
+                onSelectNode={h.selectNode}
                 onRemoveNode={h.removeNode}
                 onAddNode={h.addNode}
-                onReorderNodes={h.reorderNodes}
                 onAiOptimize={h.handleAiOptimize}
                 aiOptimizing={h.aiOptimizing}
                 aiSuggestions={h.aiSuggestions}
@@ -295,9 +315,13 @@ export default function AutomationPage() {
               <NodeConfigPanel
                 selectedNode={h.selectedNode}
                 onUpdateConfig={h.updateNodeConfig}
+                onUpdateActionType={h.updateNodeActionType}
+                onUpdateCondition={h.updateNodeCondition}
                 onUpdateTitle={h.updateNodeTitle}
                 onUpdateDescription={h.updateNodeDescription}
-                onMoveNode={h.moveNode}
+                workflowNodes={h.workflow.nodes}
+                edges={h.workflow.edges}
+                onUpdateTargets={h.updateNodeTargets}
                 integrationStatuses={h.integrationStatuses}
               />
             </div>
@@ -428,6 +452,19 @@ export default function AutomationPage() {
         onSelectCampaign={h.setSelectedCampaignId}
         onClearRecipients={() => h.setCampaignRecipients([])}
       />
+      <VersionHistoryDrawer
+        open={h.panelVisibility.versionHistory}
+        onClose={() => h.closePanel('versionHistory')}
+        versions={h.workflowVersions}
+        loading={h.versionsLoading}
+        busy={h.publishing}
+        currentVersion={h.workflow.version ?? null}
+        hasDraft={!!h.workflow.hasDraft}
+        draft={{ nodes: h.workflow.nodes, edges: h.workflow.edges }}
+        onPublish={h.handlePublish}
+        onRollback={h.handleRollback}
+        onRefresh={h.refreshVersions}
+      />
       <KeyboardShortcutsModal
         open={h.panelVisibility.shortcuts}
         onClose={() => h.closePanel('shortcuts')}
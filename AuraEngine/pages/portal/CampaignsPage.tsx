@@ -5,19 +5,24 @@
 // campaigns were created (e.g. from Leads → "Create campaign") but had no
 // surface to view or launch.
 
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useOutletContext } from 'react-router-dom';
-import { Megaphone, Plus, Trash2, Send, X, Users, Mail, Loader2, RefreshCw, Search, UserPlus, Eye, Braces, ChevronUp, ChevronDown, Copy, FileText, Save } from 'lucide-react';
+import { Megaphone, Plus, Trash2, Send, X, Users, Mail, Loader2, RefreshCw, Search, UserPlus, Eye, Braces, ChevronUp, ChevronDown, Copy, FileText, Save, Globe } from 'lucide-react';
 import TemplatePickerModal from '../../components/campaigns/TemplatePickerModal';
-import type { User } from '../../types';
+import type { SenderAccount, User } from '../../types';
 import { useToast } from '../../components/ui/Toast';
 import { consumeCredits, CREDIT_COSTS } from '../../lib/credits';
 import { supabase } from '../../lib/supabase';
+import { resolveWorkspaceId } from '../../lib/tenancy';
+import { listSenderAccounts, rotationBlocker, sentToday } from '../../lib/senderAccounts';
+import { deliverySpread } from '../../lib/leadTimezone';
+import { winProbabilities, seededRng } from '../../lib/abBandit';
 import {
   listCampaigns, getSteps, getEnrolledLeads, removeEnrollment, updateCampaign, addStep, updateStep, deleteStep,
   deleteCampaign, launchCampaign, searchLeadsForCampaign, addLeadToCampaign, previewStepForLead, previewVerbatimForLead,
-  getVariantStats, MERGE_FIELDS,
+  getVariantStats, getStoppedLeads, MERGE_FIELDS, EXIT_CONDITIONS,
   type Campaign, type CampaignStep, type CampaignStatus, type EnrolledLead, type LeadHit, type VariantStat,
+  type ExitCondition, type StoppedLead, type AbMode, type AbObjective,
 } from '../../lib/campaigns';
 
 const variantLabel = (v: number) => String.fromCharCode(65 + v);
@@ -33,6 +38,14 @@ const STATUS_META: Record<CampaignStatus, string> = {
 };
 const STATUS_ORDER: CampaignStatus[] = ['draft', 'active', 'paused', 'completed', 'archived'];
 
+const EXIT_REASON_LABEL: Record<ExitCondition, string> = {
+  replied:        'Replied',
+  unsubscribed:   'Unsubscribed',
+  bounced:        'Bounced',
+  meeting_booked: 'Meeting booked',
+  converted:      'Converted',
+};
+
 const CampaignsPage: React.FC = () => {
   const { user } = useOutletContext<LayoutContext>();
   const { toast } = useToast();
@@ -125,6 +138,8 @@ const CampaignDrawer: React.FC<DrawerProps> = ({ campaign, userId, onClose, onCh
   const [status, setStatus] = useState<CampaignStatus>(campaign.status);
   const [aiPersonalize, setAiPersonalize] = useState(campaign.ai_personalize);
   const [abAuto, setAbAuto] = useState(campaign.ab_auto_optimize);
+  const [abMode, setAbMode] = useState<AbMode>(campaign.ab_mode ?? 'ztest');
+  const [abObjective, setAbObjective] = useState<AbObjective>(campaign.ab_objective ?? 'reply');
   const [bestTime, setBestTime] = useState(campaign.send_best_time);
   const browserTz = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
   const [winOn, setWinOn] = useState(campaign.send_window_start != null);
@@ -132,6 +147,33 @@ const CampaignDrawer: React.FC<DrawerProps> = ({ campaign, userId, onClose, onCh
   const [winEnd, setWinEnd] = useState(campaign.send_window_end ?? 17);
   const [winWeekdays, setWinWeekdays] = useState(campaign.send_weekdays_only);
   const [winTz, setWinTz] = useState(campaign.send_timezone ?? browserTz);
+  const [leadLocal, setLeadLocal] = useState(campaign.send_in_lead_timezone ?? true);
+  const [exitOn, setExitOn] = useState<ExitCondition[]>(campaign.exit_conditions ?? EXIT_CONDITIONS.map(c => c.key));
+  const [rotate, setRotate] = useState(campaign.rotate_senders ?? false);
+  const [pool, setPool] = useState<string[]>(campaign.sender_pool ?? []);
+  const [senders, setSenders] = useState<SenderAccount[] | null>(null);
+  useEffect(() => {
+    if (!rotate || senders) return;
+    resolveWorkspaceId(userId)
+      .then(ws => listSenderAccounts(ws))
+      .then(list => setSenders(list.filter(s => s.use_for_outreach)))
+      .catch(() => setSenders([]));
+  }, [rotate, senders, userId]);
+  const toggleRotate = () => {
+    const next = !rotate;
+    setRotate(next);
+    void updateCampaign(campaign.id, { rotate_senders: next }).then(() => onChanged());
+  };
+  const togglePoolSender = (id: string) => {
+    const next = pool.includes(id) ? pool.filter(p => p !== id) : [...pool, id];
+    setPool(next);
+    void updateCampaign(campaign.id, { sender_pool: next }).then(() => onChanged());
+  };
+  const toggleExit = (key: ExitCondition) => {
+    const next = exitOn.includes(key) ? exitOn.filter(k => k !== key) : [...exitOn, key];
+    setExitOn(next);
+    void updateCampaign(campaign.id, { exit_conditions: next }).then(() => onChanged());
+  };
   const persistWindow = useCallback((on: boolean, start: number, end: number, weekdays: boolean, tz: string) => {
     void updateCampaign(campaign.id, on
       ? { send_window_start: start, send_window_end: end, send_weekdays_only: weekdays, send_timezone: tz }
@@ -144,11 +186,22 @@ const CampaignDrawer: React.FC<DrawerProps> = ({ campaign, userId, onClose, onCh
   const [busy, setBusy] = useState(false);
   const [sending, setSending] = useState(false);
 
+  // Where the first step would land per hour (viewer's clock) if launched now.
+  const spread = useMemo(() => audience && audience.length
+    ? deliverySpread(audience, {
+        bestTime,
+        window: winOn ? { start: winStart, end: winEnd, weekdaysOnly: winWeekdays, timezone: winTz } : null,
+        leadLocalTime: leadLocal,
+      }, browserTz)
+    : null, [audience, bestTime, winOn, winStart, winEnd, winWeekdays, winTz, leadLocal, browserTz]);
+
   const [variantStats, setVariantStats] = useState<VariantStat[]>([]);
+  const [stopped, setStopped] = useState<StoppedLead[]>([]);
   const reload = useCallback(async () => {
     setSteps(await getSteps(campaign.id));
     setAudience(await getEnrolledLeads(campaign.id));
     setVariantStats(await getVariantStats(campaign.id));
+    setStopped(await getStoppedLeads(campaign.id));
   }, [campaign.id]);
   useEffect(() => { void reload(); }, [reload]);
 
@@ -181,7 +234,7 @@ const CampaignDrawer: React.FC<DrawerProps> = ({ campaign, userId, onClose, onCh
     const enrollmentId = await addLeadToCampaign(campaign.id, userId, hit.id);
     setAdding(null);
     if (enrollmentId) {
-      setAudience(prev => [{ enrollmentId, leadId: hit.id, name: hit.name, email: hit.email, company: hit.company, status: 'active' }, ...(prev ?? [])]);
+      setAudience(prev => [{ enrollmentId, leadId: hit.id, name: hit.name, email: hit.email, company: hit.company, status: 'active', timezone: hit.timezone, timezoneSource: hit.timezoneSource }, ...(prev ?? [])]);
       setHits(prev => prev.filter(h => h.id !== hit.id));
       onChanged();
     } else {
@@ -283,10 +336,23 @@ const CampaignDrawer: React.FC<DrawerProps> = ({ campaign, userId, onClose, onCh
   const blurBodyVariant = useCallback((s: CampaignStep) => onStepBlur(s.id, { body_variants: (s.body_variants ?? []).map(v => v.trim()).filter(Boolean) }), [onStepBlur]);
   const removeBodyVariant = useCallback((s: CampaignStep, idx: number) => setBodyVariants(s, (s.body_variants ?? []).filter((_, i) => i !== idx)), [setBodyVariants]);
 
+  // A/B CTA variants (the step's main CTA is variant A).
+  const setCtaVariants = useCallback((s: CampaignStep, variants: string[]) => {
+    patchLocalStep(s.id, { cta_variants: variants });
+    void onStepBlur(s.id, { cta_variants: variants.map(v => v.trim()).filter(Boolean) });
+  }, [onStepBlur]);
+  const addCtaVariant = useCallback((s: CampaignStep) => setCtaVariants(s, [...(s.cta_variants ?? []), '']), [setCtaVariants]);
+  const patchCtaVariant = useCallback((s: CampaignStep, idx: number, val: string) => {
+    const arr = [...(s.cta_variants ?? [])]; arr[idx] = val; patchLocalStep(s.id, { cta_variants: arr });
+  }, []);
+  const blurCtaVariant = useCallback((s: CampaignStep) => onStepBlur(s.id, { cta_variants: (s.cta_variants ?? []).map(v => v.trim()).filter(Boolean) }), [onStepBlur]);
+  const removeCtaVariant = useCallback((s: CampaignStep, idx: number) => setCtaVariants(s, (s.cta_variants ?? []).filter((_, i) => i !== idx)), [setCtaVariants]);
+  const isAbStep = (s: CampaignStep) => (s.subject_variants?.length ?? 0) > 0 || (s.body_variants?.length ?? 0) > 0 || (s.cta_variants?.length ?? 0) > 0;
+
   const onDuplicateStep = useCallback(async (s: CampaignStep) => {
     setBusy(true);
     const next = (steps[steps.length - 1]?.step_number ?? 0) + 1;
-    const created = await addStep(campaign.id, { subject: s.subject, body_html: s.body_html, delay_days: s.delay_days, step_number: next, subject_variants: s.subject_variants, body_variants: s.body_variants });
+    const created = await addStep(campaign.id, { subject: s.subject, body_html: s.body_html, delay_days: s.delay_days, step_number: next, subject_variants: s.subject_variants, body_variants: s.body_variants, cta: s.cta, cta_variants: s.cta_variants });
     setBusy(false);
     if (created) { setSteps(prev => [...prev, created]); onChanged(); } else toast('Could not duplicate step', 'error');
   }, [campaign.id, steps, onChanged, toast]);
@@ -406,8 +472,12 @@ const CampaignDrawer: React.FC<DrawerProps> = ({ campaign, userId, onClose, onCh
                       {Array.from({ length: 24 }, (_, h) => <option key={h} value={h}>{String(h).padStart(2, '0')}:00</option>)}
                     </select>
                   </div>
+                  <label className="flex items-center gap-2 text-xs text-slate-600">
+                    <input type="checkbox" checked={leadLocal} onChange={e => { setLeadLocal(e.target.checked); void updateCampaign(campaign.id, { send_in_lead_timezone: e.target.checked }).then(() => onChanged()); }} />
+                    In each lead's local time (inferred from location or phone)
+                  </label>
                   <div className="flex items-center gap-2 text-xs">
-                    <span className="text-slate-400 font-semibold">Timezone</span>
+                    <span className="text-slate-400 font-semibold">{leadLocal ? 'Fallback timezone' : 'Timezone'}</span>
                     <select value={winTz} onChange={e => { setWinTz(e.target.value); persistWindow(true, winStart, winEnd, winWeekdays, e.target.value); }}
                       className="flex-1 px-2 py-1 border border-slate-200 rounded-lg outline-none focus:border-indigo-300">
                       {Array.from(new Set([browserTz, 'UTC', 'America/New_York', 'America/Chicago', 'America/Denver', 'America/Los_Angeles', 'Europe/London', 'Asia/Karachi', 'Asia/Dubai'])).map(tz => <option key={tz} value={tz}>{tz}</option>)}
@@ -420,6 +490,96 @@ const CampaignDrawer: React.FC<DrawerProps> = ({ campaign, userId, onClose, onCh
                 </div>
               )}
             </div>
+
+            {/* Delivery spread */}
+            {spread && (
+              <div className="rounded-xl border border-slate-200 p-3 space-y-2">
+                <div className="flex items-center justify-between gap-3">
+                  <p className="text-xs font-bold text-slate-800 flex items-center gap-1.5"><Globe className="w-3.5 h-3.5 text-slate-400" />Expected delivery if launched now</p>
+                  <span className="text-[10px] text-slate-400">your time ({browserTz})</span>
+                </div>
+                <div className="flex items-end gap-px h-12">
+                  {spread.hours.map((n, h) => {
+                    const max = Math.max(...spread.hours, 1);
+                    return (
+                      <div key={h} className="flex-1 flex flex-col justify-end h-full" title={`${String(h).padStart(2, '0')}:00 — ${n} lead${n !== 1 ? 's' : ''}`}>
+                        <div className={`rounded-sm ${n ? 'bg-indigo-500' : 'bg-slate-100'}`} style={{ height: n ? `${Math.max(8, (n / max) * 100)}%` : '2px' }} />
+                      </div>
+                    );
+                  })}
+                </div>
+                <div className="flex justify-between text-[9px] text-slate-400 tabular-nums"><span>00</span><span>06</span><span>12</span><span>18</span><span>23</span></div>
+                <div className="space-y-0.5">
+                  {spread.zones.slice(0, 6).map(z => (
+                    <div key={z.zone ?? 'unplaced'} className="flex items-center gap-2 text-[11px] text-slate-500">
+                      <span className="flex-1 truncate">{z.zone ?? 'Timezone unknown'}</span>
+                      <span className="tabular-nums text-slate-400">{z.count} lead{z.count !== 1 ? 's' : ''}</span>
+                      <span className="tabular-nums w-28 text-right truncate">
+                        {z.sendAt ? `${String(z.localHour).padStart(2, '0')}:00 ${z.timedIn === z.zone ? 'local' : z.timedIn.split('/').pop()?.replace(/_/g, ' ')}` : 'never'}
+                      </span>
+                    </div>
+                  ))}
+                  {spread.zones.length > 6 && <p className="text-[10px] text-slate-400">+{spread.zones.length - 6} more zones</p>}
+                </div>
+                <p className="text-[10px] text-slate-400">
+                  {spread.now} of {audience?.length ?? 0} would go out right away.
+                  {spread.unplaced > 0 && ` ${spread.unplaced} lead${spread.unplaced !== 1 ? 's have' : ' has'} no known timezone — set one on the lead profile or add a location.`}
+                  {bestTime && ' Uses the default hour for leads without open history.'}
+                </p>
+              </div>
+            )}
+
+            {/* Exit conditions */}
+            <div className="rounded-xl border border-slate-200 p-3 space-y-2">
+              <div>
+                <p className="text-xs font-bold text-slate-800">Stop the sequence for a lead when they…</p>
+                <p className="text-[11px] text-slate-400 mt-0.5">Their remaining steps are skipped and the reason is shown below. Takes effect from the next launch.</p>
+              </div>
+              <div className="grid grid-cols-2 gap-x-3 gap-y-1.5">
+                {EXIT_CONDITIONS.map(c => (
+                  <label key={c.key} className="flex items-center gap-2 text-xs text-slate-600">
+                    <input type="checkbox" checked={exitOn.includes(c.key)} onChange={() => toggleExit(c.key)} />
+                    {c.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {/* Sender rotation */}
+            <div className="rounded-xl border border-slate-200 p-3 space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <div className="pr-2">
+                  <p className="text-xs font-bold text-slate-800">Rotate across sender inboxes</p>
+                  <p className="text-[11px] text-slate-400 mt-0.5">Spreads leads over your outreach inboxes within each one's daily cap. A lead stays on the same inbox for every follow-up so the thread isn't split.</p>
+                </div>
+                <button onClick={toggleRotate}
+                  className={`relative w-12 h-7 rounded-full transition-colors shrink-0 ${rotate ? 'bg-indigo-600' : 'bg-slate-300'}`} title="Toggle sender rotation">
+                  <div className={`absolute top-1 w-5 h-5 bg-white rounded-full shadow-sm transition-transform ${rotate ? 'left-6' : 'left-1'}`} />
+                </button>
+              </div>
+              {rotate && (
+                senders === null ? (
+                  <p className="text-[11px] text-slate-400">Loading inboxes…</p>
+                ) : senders.length === 0 ? (
+                  <p className="text-[11px] text-slate-400">No outreach inboxes connected. Add one under Sender Accounts.</p>
+                ) : (
+                  <div className="space-y-1.5 pt-1">
+                    <p className="text-[11px] text-slate-400">{pool.length === 0 ? 'Using every eligible inbox. Tick inboxes to limit the pool.' : `Pool: ${pool.length} inbox${pool.length !== 1 ? 'es' : ''}.`}</p>
+                    {senders.map(s => {
+                      const blocker = rotationBlocker(s);
+                      return (
+                        <label key={s.id} className="flex items-center gap-2 text-xs text-slate-600">
+                          <input type="checkbox" checked={pool.includes(s.id)} onChange={() => togglePoolSender(s.id)} />
+                          <span className="flex-1 truncate">{s.from_email}</span>
+                          <span className="tabular-nums text-[11px] text-slate-400">{sentToday(s)} sent today</span>
+                          {blocker && <span className="text-[9px] font-bold uppercase tracking-wide text-rose-500">{blocker}</span>}
+                        </label>
+                      );
+                    })}
+                  </div>
+                )
+              )}
+            </div>
           </div>
 
           {/* Target audience */}
@@ -440,6 +600,11 @@ const CampaignDrawer: React.FC<DrawerProps> = ({ campaign, userId, onClose, onCh
                       <p className="text-xs font-bold text-slate-800 truncate">{a.name}</p>
                       <p className="text-[11px] text-slate-400 truncate">{a.email}{a.company ? ` · ${a.company}` : ''}</p>
                     </div>
+                    {a.timezone && (
+                      <span className="text-[10px] text-slate-400 truncate max-w-[8rem]" title={a.timezoneSource === 'manual' ? 'Set manually' : `Inferred from ${a.timezoneSource}`}>
+                        {a.timezone.split('/').pop()?.replace(/_/g, ' ')}
+                      </span>
+                    )}
                     <span className="text-[9px] font-bold uppercase tracking-wide text-slate-400">{a.status}</span>
                     <button onClick={() => onRemoveLead(a)} title="Remove from campaign"
                       className="p-1 text-slate-300 hover:text-rose-500 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -477,6 +642,29 @@ const CampaignDrawer: React.FC<DrawerProps> = ({ campaign, userId, onClose, onCh
             <p className="text-[11px] text-slate-400">…or from the Leads page: select leads and choose “Add to campaign”.</p>
           </div>
 
+          {/* Stopped early */}
+          {stopped.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-bold text-slate-800">Stopped early</h3>
+                <span className="text-[11px] text-slate-400">{stopped.length} lead{stopped.length !== 1 ? 's' : ''}</span>
+              </div>
+              <div className="border border-slate-200 rounded-xl divide-y divide-slate-50 max-h-56 overflow-y-auto">
+                {stopped.map(l => (
+                  <div key={l.leadId} className="flex items-center gap-3 px-3 py-2">
+                    <div className="min-w-0 flex-1">
+                      <p className="text-xs font-bold text-slate-800 truncate">{l.name}</p>
+                      <p className="text-[11px] text-slate-400 truncate">
+                        {l.stepsSkipped} step{l.stepsSkipped !== 1 ? 's' : ''} skipped{l.stoppedAt ? ` · ${new Date(l.stoppedAt).toLocaleDateString()}` : ''}
+                      </p>
+                    </div>
+                    <span className="text-[9px] font-bold uppercase tracking-wide text-amber-600">{EXIT_REASON_LABEL[l.reason] ?? l.reason}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Steps */}
           <div className="space-y-3">
             <div className="flex items-center justify-between">
@@ -594,6 +782,24 @@ const CampaignDrawer: React.FC<DrawerProps> = ({ campaign, userId, onClose, onCh
                   </div>
                 ))}
                 <button onClick={() => addBodyVariant(s)} className="text-[11px] font-bold text-slate-400 hover:text-indigo-600">+ A/B body variant</button>
+                <div className="flex items-center gap-2">
+                  <input value={s.cta ?? ''} placeholder="Call to action (optional) — goes at {{cta}}, or at the end"
+                    onChange={e => patchLocalStep(s.id, { cta: e.target.value })}
+                    onBlur={() => onStepBlur(s.id, { cta: (s.cta ?? '').trim() })}
+                    className="flex-1 px-3 py-2 text-sm border border-slate-200 rounded-lg outline-none focus:border-indigo-300" />
+                  {(s.cta_variants?.length ?? 0) > 0 && <span className="text-[9px] font-black text-slate-400 uppercase">A</span>}
+                </div>
+                {(s.cta_variants ?? []).map((v, vi) => (
+                  <div key={vi} className="flex items-center gap-2">
+                    <input value={v} placeholder={`CTA variant ${String.fromCharCode(66 + vi)}`}
+                      onChange={e => patchCtaVariant(s, vi, e.target.value)}
+                      onBlur={() => blurCtaVariant(s)}
+                      className="flex-1 px-3 py-2 text-sm border border-slate-200 rounded-lg outline-none focus:border-indigo-300" />
+                    <span className="text-[9px] font-black text-slate-400 uppercase">{String.fromCharCode(66 + vi)}</span>
+                    <button onClick={() => removeCtaVariant(s, vi)} className="p-1 text-slate-300 hover:text-rose-500"><X className="w-3.5 h-3.5" /></button>
+                  </div>
+                ))}
+                {(s.cta ?? '').trim() && <button onClick={() => addCtaVariant(s)} className="text-[11px] font-bold text-slate-400 hover:text-indigo-600">+ A/B CTA variant</button>}
 
                 {previews[s.id] && !previews[s.id].loading && (
                   previews[s.id].error ? (
@@ -611,7 +817,7 @@ const CampaignDrawer: React.FC<DrawerProps> = ({ campaign, userId, onClose, onCh
           </div>
 
           {/* A/B results */}
-          {steps.some(s => (s.subject_variants?.length ?? 0) > 0 || (s.body_variants?.length ?? 0) > 0) && (
+          {steps.some(isAbStep) && (
             <div className="space-y-3">
               <div className="flex items-center justify-between gap-3">
                 <h3 className="text-sm font-bold text-slate-800">A/B results</h3>
@@ -623,23 +829,59 @@ const CampaignDrawer: React.FC<DrawerProps> = ({ campaign, userId, onClose, onCh
                   </button>
                 </label>
               </div>
-              {abAuto && <p className="text-[11px] text-slate-400 -mt-1">Once a variant is a clear winner (enough sends + a significant lead on the relevant metric), remaining unsent emails switch to it automatically.</p>}
-              {steps.filter(s => (s.subject_variants?.length ?? 0) > 0 || (s.body_variants?.length ?? 0) > 0).map(s => {
+              {abAuto && (
+                <div className="flex flex-wrap items-center gap-2 text-xs -mt-1">
+                  <select value={abMode} onChange={e => { const v = e.target.value as AbMode; setAbMode(v); void updateCampaign(campaign.id, { ab_mode: v }).then(() => onChanged()); }}
+                    className="px-2 py-1 border border-slate-200 rounded-lg outline-none focus:border-indigo-300">
+                    <option value="ztest">Switch to a clear winner</option>
+                    <option value="bandit">Shift traffic gradually (bandit)</option>
+                  </select>
+                  {abMode === 'bandit' && (
+                    <select value={abObjective} onChange={e => { const v = e.target.value as AbObjective; setAbObjective(v); void updateCampaign(campaign.id, { ab_objective: v }).then(() => onChanged()); }}
+                      className="px-2 py-1 border border-slate-200 rounded-lg outline-none focus:border-indigo-300">
+                      <option value="reply">optimizing for replies</option>
+                      <option value="meeting">optimizing for booked meetings</option>
+                    </select>
+                  )}
+                </div>
+              )}
+              {abAuto && (
+                <p className="text-[11px] text-slate-400 -mt-1">
+                  {abMode === 'bandit'
+                    ? `Every 15 minutes, unsent emails are re-dealt across variants in proportion to each one's chance of being best on ${abObjective === 'meeting' ? 'meetings booked' : 'replies'} — opens are ignored.`
+                    : 'Once a variant is a clear winner (enough sends + a significant lead on the relevant metric), remaining unsent emails switch to it automatically.'}
+                </p>
+              )}
+              {steps.filter(isAbStep).map(s => {
                 const stStats = variantStats.filter(v => v.step === s.step_number);
                 const hasBody = (s.body_variants?.length ?? 0) > 0;
                 const hasSubj = (s.subject_variants?.length ?? 0) > 0;
-                // Replies are the strongest signal — judge by reply rate once enough land,
-                // else click rate (body tests), else open rate (subject tests). Mirrors ab-autopause.
+                const hasCta = (s.cta_variants?.length ?? 0) > 0;
+                // Bandit mode judges by its objective. Otherwise replies are the strongest
+                // signal — judge by reply rate once enough land, else click rate (body/CTA
+                // tests), else open rate (subject tests). Mirrors ab-autopause.
                 const totalReplies = stStats.reduce((n, v) => n + v.replied, 0);
-                const metric: 'reply' | 'click' | 'open' = totalReplies >= 3 ? 'reply' : hasBody ? 'click' : 'open';
-                const total = Math.max((s.subject_variants?.length ?? 0), (s.body_variants?.length ?? 0), ...stStats.map(v => v.variant)) + 1;
-                const rate = (v?: VariantStat) => (v && v.sent > 0 ? (metric === 'reply' ? v.replied : metric === 'click' ? v.clicked : v.opened) / v.sent : -1);
+                const totalMeetings = stStats.reduce((n, v) => n + v.meetings, 0);
+                const metric: 'meeting' | 'reply' | 'click' | 'open' = abAuto && abMode === 'bandit'
+                  ? abObjective
+                  : totalReplies >= 3 ? 'reply' : (hasBody || hasCta) ? 'click' : 'open';
+                const total = Math.max((s.subject_variants?.length ?? 0), (s.body_variants?.length ?? 0), (s.cta_variants?.length ?? 0), ...stStats.map(v => v.variant)) + 1;
+                const hits = (v: VariantStat) => metric === 'meeting' ? v.meetings : metric === 'reply' ? v.replied : metric === 'click' ? v.clicked : v.opened;
+                const rate = (v?: VariantStat) => (v && v.sent > 0 ? hits(v) / v.sent : -1);
                 const best = Math.max(-1, ...stStats.map(rate));
                 const anySent = stStats.some(v => v.sent > 0);
-                const testLabel = hasBody && hasSubj ? 'subject + body test' : hasBody ? 'body test' : 'subject test';
+                const probs = anySent
+                  ? winProbabilities(Array.from({ length: total }, (_, v) => {
+                      const st = stStats.find(x => x.variant === v);
+                      return { variant: v, sent: st?.sent ?? 0, successes: st ? hits(st) : 0 };
+                    }), seededRng(s.step_number))
+                  : null;
+                const parts = [hasSubj && 'subject', hasBody && 'body', hasCta && 'CTA'].filter(Boolean).join(' + ');
+                const testLabel = `${parts} test`;
+                const metricLabel = metric === 'meeting' ? 'meetings' : metric === 'reply' ? 'replies' : metric === 'click' ? 'clicks' : 'opens';
                 return (
                   <div key={s.id} className="border border-slate-200 rounded-xl p-3 space-y-1.5">
-                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Step {steps.indexOf(s) + 1} · {testLabel} · winner by {metric === 'reply' ? 'replies' : metric === 'click' ? 'clicks' : 'opens'}</p>
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Step {steps.indexOf(s) + 1} · {testLabel} · winner by {metricLabel}</p>
                     {Array.from({ length: total }, (_, v) => {
                       const st = stStats.find(x => x.variant === v);
                       const subj = v === 0 ? s.subject : (s.subject_variants?.[v - 1] ?? s.subject);
@@ -655,6 +897,8 @@ const CampaignDrawer: React.FC<DrawerProps> = ({ campaign, userId, onClose, onCh
                           <span className={`tabular-nums w-16 text-right ${metric === 'open' ? 'text-slate-700 font-semibold' : 'text-slate-400'}`}>{openPct == null ? '—' : `${openPct}% open`}</span>
                           <span className={`tabular-nums w-16 text-right ${metric === 'click' ? 'text-slate-700 font-semibold' : 'text-slate-400'}`}>{clickPct == null ? '' : `${clickPct}% click`}</span>
                           {totalReplies > 0 && <span className={`tabular-nums w-16 text-right ${metric === 'reply' ? 'text-emerald-700 font-semibold' : 'text-slate-400'}`}>{replyPct == null ? '' : `${replyPct}% reply`}</span>}
+                          {(totalMeetings > 0 || metric === 'meeting') && <span className={`tabular-nums w-16 text-right ${metric === 'meeting' ? 'text-emerald-700 font-semibold' : 'text-slate-400'}`}>{st && st.sent > 0 ? `${st.meetings} mtg` : ''}</span>}
+                          {probs && <span className="tabular-nums w-14 text-right text-indigo-600 font-semibold" title={`Chance this variant has the best ${metric} rate`}>{Math.round((probs[v] ?? 0) * 100)}% best</span>}
                           {isWinner && <span className="text-[9px] font-black text-emerald-600 uppercase">Win</span>}
                         </div>
                       );
@@ -15,6 +15,8 @@ import { supabase } from '../../lib/supabase';
 import { resolveWorkspaceId } from '../../lib/tenancy';
 import { activeBusinessId } from '../../lib/businessScope';
 import { normalizeLeads, useLeads, useLeadCounts, useEmailSummaries, useSocialStats } from '../../lib/queries';
+import { leadIntelligenceEnabled } from '../../lib/leadScoring';
+import { useCurrentBusiness } from '../../components/business/BusinessProvider';
 import { consumeCredits, resolvePlanName } from '../../lib/credits';
 import { useOutletContext, useNavigate } from 'react-router-dom';
 import { generateProgrammaticInsights } from '../../lib/insights';
@@ -29,6 +31,7 @@ import LeadActionsModal from '../../components/dashboard/LeadActionsModal';
 import LeadSegmentation from '../../components/dashboard/LeadSegmentation';
 import EmailPerformanceCard from '../../components/dashboard/EmailPerformanceCard';
 import ActivationChecklist from '../../components/dashboard/ActivationChecklist';
+import ScoreMoversCard from '../../components/leads/ScoreMoversCard';
 import { AdvancedOnly } from '../../components/ui-mode';
 
 const LISTS_STORAGE_KEY = 'scaliyo_manual_lists';
@@ -72,6 +75,9 @@ const ClientDashboard: React.FC<ClientDashboardProps> = ({ user: initialUser })
   const { data: cachedLeads = [], isLoading: queryLoading, refetch: refetchLeads } = useLeads(user.id);
   const { data: leadCounts } = useLeadCounts(user.id);
   const { data: socialStats = { scheduled: 0, published: 0 } } = useSocialStats(user.id);
+  const { currentBusinessId } = useCurrentBusiness();
+  const [intelEnabled, setIntelEnabled] = useState(false);
+  useEffect(() => { leadIntelligenceEnabled(user.id).then(setIntelEnabled).catch(() => {}); }, [user.id]);
 
   // Local state seeded from cache (supports optimistic updates)
   const [leads, setLeads] = useState<Lead[]>([]);
@@ -856,6 +862,11 @@ const ClientDashboard: React.FC<ClientDashboardProps> = ({ user: initialUser })
             manualLists={manualLists}
             onManualListsChange={setManualLists}
           />
+          {intelEnabled && (
+            <div className="mt-6">
+              <ScoreMoversCard businessId={currentBusinessId} enabled={intelEnabled} />
+            </div>
+          )}
         </div>
 
         {/* Priority Prospect List */}
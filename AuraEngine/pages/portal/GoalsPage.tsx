@@ -6,12 +6,13 @@
 
 import React, { useEffect, useState, useCallback, useMemo } from 'react';
 import { useOutletContext } from 'react-router-dom';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import {
   Target, Plus, Trash2, Sparkles, Loader2, AlertCircle, CheckCircle,
   Clock, TrendingUp, ChevronDown, ChevronRight, RefreshCw, Play, XCircle,
-  Zap, ShieldAlert, Wand2, Activity, Mail, Share2,
+  Zap, ShieldAlert, Wand2, Activity, Mail, Share2, ShieldCheck,
 } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
 import type { User } from '../../types';
 import { supabase } from '../../lib/supabase';
 import {
@@ -22,8 +23,12 @@ import {
   isFlagEnabled, setFlagEnabled, SEND_EMAIL_FLAG, SEND_SOCIAL_FLAG,
   listGoalObservations, getGoalObservationCounts, runReplan,
   OBSERVATION_LABELS,
+  listApprovalsForPlan, getPendingApprovalCounts, decideApproval, isWorkspaceAdmin,
+  listGoalSnapshots, forecastGoal, burnUpSeries, GOAL_TRACKED_METRICS,
+  type GoalSnapshot, type GoalForecast,
   type AutomationGoal, type AutomationPlanRow, type PlanStep,
   type AutomationStepRun, type GoalObservation, type GoalObservationCount,
+  type StepApproval,
 } from '../../lib/goals';
 
 interface LayoutContext { user: User }
@@ -93,17 +98,20 @@ const GoalsPage: React.FC = () => {
   const [sendToggling, setSendToggling] = useState<'' | 'email' | 'social'>('');
 
   const [observationCounts, setObservationCounts] = useState<Record<string, GoalObservationCount>>({});
+  const [approvalCounts, setApprovalCounts] = useState<Record<string, number>>({});
 
   const refresh = useCallback(async () => {
     if (!workspaceId) return;
     setLoading(true);
     try {
-      const [list, counts] = await Promise.all([
+      const [list, counts, approvals] = await Promise.all([
         listGoals(workspaceId),
         getGoalObservationCounts(workspaceId).catch(() => ({} as Record<string, GoalObservationCount>)),
+        getPendingApprovalCounts(workspaceId).catch(() => ({} as Record<string, number>)),
       ]);
       setGoals(list);
       setObservationCounts(counts);
+      setApprovalCounts(approvals);
     } finally { setLoading(false); }
   }, [workspaceId]);
 
@@ -157,7 +165,11 @@ const GoalsPage: React.FC = () => {
         '• enrich_leads / lead_score — Gemini calls per lead\n' +
         '• team_task — creates real cards on the AI Goals board\n' +
         '• checkpoint — reads workspace metrics\n' +
-        '• wait — schedules longer waits via cron\n\n' +
+        '• wait — schedules longer waits via cron\n' +
+        '• approval — holds its branch until an owner/admin approves\n' +
+        '• discover_leads / generate_content — People Data Labs and Gemini credits\n' +
+        '• run_workflow / create_deal / update_lead_status — enrolls leads, opens deals, changes lead status\n' +
+        '• send_webhook — delivers goal.webhook events to your endpoints\n\n' +
         'Email sending and social publishing remain off by default — turn them on separately ' +
         'with the per-channel toggles after Live is enabled.\n\n' +
         'Enable Live mode for this workspace?'
@@ -186,6 +198,12 @@ const GoalsPage: React.FC = () => {
       await refresh();
       setExpanded(g.id);
       console.log('[goals] live result', result);
+      if (result.awaiting_approval?.length) {
+        alert(
+          `Paused for approval: ${result.awaiting_approval.length} step(s) are waiting on a workspace owner or admin. ` +
+          `Independent steps carried on; the rest resume once the request is approved.`
+        );
+      }
     } catch (e) {
       alert(`Live execution failed: ${(e as Error).message}`);
     }
@@ -336,12 +354,14 @@ const GoalsPage: React.FC = () => {
               planning={planning === g.id}
               liveMode={liveMode}
               observationCount={observationCounts[g.id]}
+              pendingApprovals={approvalCounts[g.id] ?? 0}
               onExpand={() => setExpanded(expanded === g.id ? null : g.id)}
               onPlan={() => handlePlan(g)}
               onRunPreview={() => handleRunPreview(g)}
               onRunLive={() => handleRunLive(g)}
               onDelete={() => handleDelete(g)}
               onReplanned={refresh}
+              onApprovalDecided={refresh}
             />
           ))}
         </div>
@@ -372,13 +392,15 @@ const GoalCard: React.FC<{
   planning: boolean;
   liveMode: boolean;
   observationCount?: GoalObservationCount;
+  pendingApprovals: number;
   onExpand: () => void;
   onPlan: () => void;
   onRunPreview: () => void;
   onRunLive: () => void;
   onDelete: () => void;
   onReplanned: () => void;
-}> = ({ goal: g, workspaceId, expanded, planning, liveMode, observationCount, onExpand, onPlan, onRunPreview, onRunLive, onDelete, onReplanned }) => {
+  onApprovalDecided: () => void;
+}> = ({ goal: g, workspaceId, expanded, planning, liveMode, observationCount, pendingApprovals, onExpand, onPlan, onRunPreview, onRunLive, onDelete, onReplanned, onApprovalDecided }) => {
   const [previewing, setPreviewing] = useState(false);
   const [liveRunning, setLiveRunning] = useState(false);
   const [replanning, setReplanning] = useState(false);
@@ -441,6 +463,15 @@ const GoalCard: React.FC<{
                 <AlertCircle size={11} /> guardrails
               </span>
             )}
+            {pendingApprovals > 0 && (
+              <span
+                className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded-full text-[10px] font-bold bg-violet-50 text-violet-700 border border-violet-200"
+                title="Steps are on hold until a workspace owner or admin approves them"
+              >
+                <ShieldCheck size={10} /> Approval needed
+                {pendingApprovals > 1 && <span className="opacity-70">·{pendingApprovals}</span>}
+              </span>
+            )}
             {driftBadge && (
               <span
                 className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded-full text-[10px] font-bold bg-${driftBadge.tone}-50 text-${driftBadge.tone}-700 border border-${driftBadge.tone}-200`}
@@ -517,14 +548,116 @@ const GoalCard: React.FC<{
         </div>
       </div>
 
-      {expanded && <PlanPanel goalId={g.id} workspaceId={workspaceId} />}
+      {expanded && (
+        <>
+          <ProgressPanel goal={g} />
+          <PlanPanel goalId={g.id} workspaceId={workspaceId} onApprovalDecided={onApprovalDecided} />
+        </>
+      )}
+    </div>
+  );
+};
+
+// ── Progress: burn-up chart + forecast ─────────────────────────────────
+
+const FORECAST_BADGE: Record<GoalForecast['status'], { tone: string; label: string }> = {
+  insufficient_data: { tone: 'slate',   label: 'Not enough history' },
+  achieved:          { tone: 'emerald', label: 'Target reached' },
+  on_track:          { tone: 'emerald', label: 'On track' },
+  behind:            { tone: 'rose',    label: 'Falling behind' },
+  no_deadline:       { tone: 'slate',   label: 'No deadline' },
+};
+
+function fmtRate(n: number | null): string {
+  if (n === null) return '—';
+  return n >= 10 ? Math.round(n).toLocaleString() : n.toFixed(n >= 1 ? 1 : 2);
+}
+
+const ProgressPanel: React.FC<{ goal: AutomationGoal }> = ({ goal }) => {
+  const { data: snapshots = [], isLoading } = useQuery<GoalSnapshot[]>({
+    queryKey: ['goal-snapshots', goal.id],
+    queryFn: () => listGoalSnapshots(goal.id),
+    staleTime: 5 * 60_000,
+  });
+  const forecast = useMemo(() => forecastGoal(goal, snapshots), [goal, snapshots]);
+  const series = useMemo(() => burnUpSeries(goal, snapshots, forecast), [goal, snapshots, forecast]);
+  const badge = FORECAST_BADGE[forecast.status];
+  const tracked = GOAL_TRACKED_METRICS[goal.target_metric];
+  const fmtDate = (t: number) => new Date(t).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+  if (isLoading) return <div className="border-t border-slate-100 p-5 text-xs text-slate-400">Loading progress…</div>;
+
+  return (
+    <div className="border-t border-slate-100 p-5 space-y-3">
+      <header className="flex items-start justify-between gap-3 flex-wrap">
+        <div>
+          <p className="text-xs font-bold text-slate-500 uppercase tracking-wide">Progress</p>
+          <p className="text-[11px] text-slate-400 mt-0.5">
+            {tracked
+              ? `${tracked} since ${new Date(goal.created_at).toLocaleDateString()} — updated hourly.`
+              : `"${goal.target_metric}" isn't tracked automatically; the chart follows the goal's recorded progress.`}
+          </p>
+        </div>
+        <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold bg-${badge.tone}-50 text-${badge.tone}-700 border border-${badge.tone}-200`}>
+          {badge.label}
+        </span>
+      </header>
+
+      {snapshots.length === 0 ? (
+        <p className="text-xs text-slate-400 italic">No snapshots yet — the first one is taken within the hour.</p>
+      ) : (
+        <ResponsiveContainer width="100%" height={180}>
+          <LineChart data={series}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" vertical={false} />
+            <XAxis dataKey="t" type="number" scale="time" domain={['dataMin', 'dataMax']} tickFormatter={fmtDate} tick={{ fontSize: 10 }} stroke="#94a3b8" />
+            <YAxis tick={{ fontSize: 10 }} stroke="#94a3b8" width={40} />
+            <Tooltip
+              labelFormatter={(t) => new Date(Number(t)).toLocaleString()}
+              formatter={(v) => (typeof v === 'number' ? Math.round(v * 100) / 100 : v)}
+              contentStyle={{ borderRadius: '10px', border: '1px solid #e2e8f0', fontSize: '11px' }}
+            />
+            <ReferenceLine y={Number(goal.target_value)} stroke="#10b981" strokeDasharray="4 4" label={{ value: 'Target', fontSize: 10, fill: '#10b981', position: 'insideTopLeft' }} />
+            <Line dataKey="pace" name="Pace to due date" stroke="#cbd5e1" strokeDasharray="2 4" dot={false} connectNulls isAnimationActive={false} />
+            <Line dataKey="actual" name="Actual" stroke="#6366f1" strokeWidth={2} dot={false} connectNulls isAnimationActive={false} />
+            <Line dataKey="projected" name="Projected" stroke={forecast.status === 'behind' ? '#f43f5e' : '#6366f1'} strokeDasharray="6 4" dot={false} connectNulls isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+
+      {forecast.velocityPerDay !== null && (
+        <div className="flex flex-wrap gap-x-5 gap-y-1 text-xs text-slate-600">
+          <span>Velocity <span className="font-mono font-semibold">{fmtRate(forecast.velocityPerDay)}</span>/day</span>
+          {forecast.requiredPerDay !== null && (
+            <span>Needed <span className="font-mono font-semibold">{fmtRate(forecast.requiredPerDay)}</span>/day</span>
+          )}
+          {forecast.projectedAtDue !== null && (
+            <span>Projected at due <span className="font-mono font-semibold">{fmtRate(forecast.projectedAtDue)}</span> of {goal.target_value}</span>
+          )}
+          <span>
+            Est. completion{' '}
+            <span className="font-semibold">
+              {forecast.projectedCompletionAt ? new Date(forecast.projectedCompletionAt).toLocaleDateString() : 'not at current velocity'}
+            </span>
+          </span>
+        </div>
+      )}
+      {forecast.status === 'behind' && (
+        <p className="text-[11px] text-rose-600">
+          The observer raises a "Falling behind" signal for goals like this, which queues an automatic replan.
+        </p>
+      )}
     </div>
   );
 };
 
 // ── Plan rendering ──────────────────────────────────────────────────────
 
-const PlanPanel: React.FC<{ goalId: string; workspaceId: string }> = ({ goalId, workspaceId }) => {
+const PlanPanel: React.FC<{
+  goalId: string;
+  workspaceId: string;
+  onApprovalDecided: () => void;
+}> = ({ goalId, workspaceId, onApprovalDecided }) => {
+  const queryClient = useQueryClient();
   const { data: plan, isLoading } = useQuery<AutomationPlanRow | null>({
     queryKey: ['active-plan', goalId],
     queryFn: () => getActivePlan(goalId),
@@ -550,6 +683,28 @@ const PlanPanel: React.FC<{ goalId: string; workspaceId: string }> = ({ goalId,
     enabled: !!workspaceId,
     staleTime: 30_000,
   });
+  // Approval requests raised by approval steps; only pending ones need a
+  // decision, decided ones are reflected in the step's own result line.
+  const { data: approvals = [] } = useQuery<StepApproval[]>({
+    queryKey: ['goal-approvals', plan?.id],
+    queryFn: () => plan ? listApprovalsForPlan(plan.id) : Promise.resolve([]),
+    enabled: !!plan?.id,
+    staleTime: 5_000,
+  });
+  const { data: canApprove = false } = useQuery<boolean>({
+    queryKey: ['workspace-admin', workspaceId],
+    queryFn: () => isWorkspaceAdmin(workspaceId),
+    enabled: !!workspaceId,
+    staleTime: 5 * 60_000,
+  });
+  const pendingApprovals = approvals.filter((a) => a.status === 'pending');
+
+  const handleDecided = () => {
+    queryClient.invalidateQueries({ queryKey: ['goal-approvals', plan?.id] });
+    queryClient.invalidateQueries({ queryKey: ['step-runs', plan?.id] });
+    onApprovalDecided();
+  };
+
   // Index by step_id for fast lookup inside StepRow
   const runsByStep = useMemo(() => {
     const m: Record<string, AutomationStepRun> = {};
@@ -627,6 +782,10 @@ const PlanPanel: React.FC<{ goalId: string; workspaceId: string }> = ({ goalId,
         </div>
       )}
 
+      {pendingApprovals.map((a) => (
+        <ApprovalCard key={a.id} approval={a} canDecide={canApprove} onDecided={handleDecided} />
+      ))}
+
       <ol className="space-y-2">
         {plan.plan.steps.map((s, i) => (
           <StepRow key={s.id} step={s} index={i} run={runsByStep[s.id]} />
@@ -683,6 +842,13 @@ const KIND_BADGE: Record<string, { tone: string; label: string }> = {
   team_task:       { tone: 'amber',   label: 'Task' },
   wait:            { tone: 'slate',   label: 'Wait' },
   checkpoint:      { tone: 'rose',    label: 'Checkpoint' },
+  approval:        { tone: 'violet',  label: 'Approval' },
+  discover_leads:  { tone: 'indigo',  label: 'Discover' },
+  run_workflow:    { tone: 'emerald', label: 'Workflow' },
+  create_deal:     { tone: 'amber',   label: 'Deal' },
+  update_lead_status: { tone: 'slate', label: 'Lead status' },
+  send_webhook:    { tone: 'sky',     label: 'Webhook' },
+  generate_content: { tone: 'violet', label: 'Content' },
 };
 
 const RUN_TONE: Record<AutomationStepRun['status'], string> = {
@@ -749,6 +915,96 @@ const StepRow: React.FC<{
   );
 };
 
+// ── Approval request ───────────────────────────────────────────────────
+
+const ApprovalCard: React.FC<{
+  approval: StepApproval;
+  canDecide: boolean;
+  onDecided: () => void;
+}> = ({ approval: a, canDecide, onDecided }) => {
+  const [note, setNote] = useState('');
+  const [deciding, setDeciding] = useState<'' | 'approve' | 'reject'>('');
+
+  const handleDecide = async (approve: boolean) => {
+    if (!approve && !confirm(
+      `Reject "${a.title}"?\n\nThe ${a.preview.length} step(s) below will be skipped. Other branches of the plan are not affected.`
+    )) return;
+    setDeciding(approve ? 'approve' : 'reject');
+    try {
+      await decideApproval(a.id, approve, note.trim() || undefined);
+      onDecided();
+    } catch (e) {
+      alert(`Could not record the decision: ${(e as Error).message}`);
+    } finally {
+      setDeciding('');
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-violet-200 bg-violet-50/60 p-3 space-y-2">
+      <div className="flex items-start justify-between gap-3 flex-wrap">
+        <div>
+          <p className="text-[11px] font-bold text-violet-900 uppercase tracking-wide inline-flex items-center gap-1.5">
+            <ShieldCheck size={12} /> Approval needed · {a.title}
+          </p>
+          {a.message && <p className="text-xs text-violet-900 mt-1">{a.message}</p>}
+        </div>
+        <span className="text-[10px] text-violet-700/80">
+          requested {new Date(a.requested_at).toLocaleString()}
+        </span>
+      </div>
+
+      {a.preview.length > 0 ? (
+        <ul className="space-y-1">
+          {a.preview.map((p) => {
+            const badge = KIND_BADGE[p.kind] ?? { tone: 'slate', label: p.kind };
+            return (
+              <li key={p.step_id} className="text-[11px] bg-white border border-violet-100 rounded p-2 text-slate-700">
+                <span className={`px-1.5 py-0.5 mr-1.5 rounded text-[10px] font-bold bg-${badge.tone}-50 text-${badge.tone}-700`}>
+                  {badge.label}
+                </span>
+                <span className="font-semibold">{p.title}</span>
+                {p.summary && <span className="block mt-1 text-slate-600">Preview: {p.summary}</span>}
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-[11px] text-violet-800/80 italic">No steps depend on this approval.</p>
+      )}
+
+      {canDecide ? (
+        <div className="flex items-center gap-2 flex-wrap pt-1">
+          <input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note (optional)"
+            className="flex-1 min-w-[12rem] px-2.5 py-1.5 rounded-lg border border-violet-200 bg-white text-xs focus:outline-none focus:border-violet-500"
+          />
+          <button
+            onClick={() => handleDecide(false)}
+            disabled={deciding !== ''}
+            className="inline-flex items-center gap-1 px-2.5 py-1.5 rounded-lg bg-white border border-rose-200 text-rose-700 text-xs font-bold hover:bg-rose-50 disabled:opacity-50"
+          >
+            {deciding === 'reject' ? <Loader2 size={11} className="animate-spin" /> : <XCircle size={11} />}
+            Reject
+          </button>
+          <button
+            onClick={() => handleDecide(true)}
+            disabled={deciding !== ''}
+            className="inline-flex items-center gap-1 px-2.5 py-1.5 rounded-lg bg-emerald-600 text-white text-xs font-bold hover:bg-emerald-700 disabled:opacity-50"
+          >
+            {deciding === 'approve' ? <Loader2 size={11} className="animate-spin" /> : <CheckCircle size={11} />}
+            Approve
+          </button>
+        </div>
+      ) : (
+        <p className="text-[10px] text-violet-800/80">Waiting for a workspace owner or admin to decide.</p>
+      )}
+    </div>
+  );
+};
+
 // ── Create-goal modal ──────────────────────────────────────────────────
 
 const CreateGoalModal: React.FC<{
@@ -818,6 +1074,11 @@ const CreateGoalModal: React.FC<{
             <datalist id="metric-presets">
               {METRIC_PRESETS.map((m) => <option key={m} value={m} />)}
             </datalist>
+            <p className="text-[10px] text-slate-400 mt-1">
+              {GOAL_TRACKED_METRICS[targetMetric.trim()]
+                ? `Tracked automatically: ${GOAL_TRACKED_METRICS[targetMetric.trim()].toLowerCase()}.`
+                : 'Not tracked automatically.'}
+            </p>
           </div>
           <div>
             <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-1">Target</label>
@@ -1,16 +1,31 @@
 // AuraEngine/pages/portal/InboxPage.tsx
 //
-// Unified inbox — replies to your campaigns/outreach, matched to the lead and the
-// message they replied to. Fed by the inbound-email webhook. Read a reply, jump
-// to the lead, or reply from your mail client.
+// Unified inbox — conversations with leads, shared by the workspace. Replies
+// (fed by the inbound-email webhook) and our sends are grouped into threads;
+// each thread can be assigned to a teammate, snoozed or marked done, and
+// carries internal notes. While a thread is open the page heartbeats its
+// presence so a teammate opening the same thread sees who's already on it.
+// Each reply shows the intent it was classified as and what that did;
+// correcting the intent re-runs it.
 
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useOutletContext, useNavigate } from 'react-router-dom';
-import { Inbox as InboxIcon, RefreshCw, ArrowRight, Send, Search, Mail, Loader2 } from 'lucide-react';
+import {
+  Inbox as InboxIcon, RefreshCw, ArrowRight, Send, Search, Mail, Loader2, Tag,
+  CheckCircle2, Clock, RotateCcw, StickyNote, AlertTriangle, Trash2, UserCircle2,
+} from 'lucide-react';
 import type { User } from '../../types';
 import { useToast } from '../../components/ui/Toast';
 import RichReplyEditor, { type RichReplyHandle } from '../../components/portal/RichReplyEditor';
-import { listInbound, markInboundRead, sendReply, inboundSenderName, type InboundEmail } from '../../lib/inbox';
+import {
+  sendReply, inboundSenderName, setReplyIntent, describeIntentActions, REPLY_INTENTS,
+  listThreads, getThreadMessages, markThreadRead, assignThread, setThreadStatus, threadContactName, effectiveStatus,
+  listThreadNotes, addThreadNote, deleteThreadNote,
+  touchThreadPresence, leaveThread, listThreadPresence, activeTeammates, teammateRepliesSince, PRESENCE_HEARTBEAT_MS,
+  type InboundEmail, type ReplyIntent, type InboxThread, type ThreadMessage, type ThreadNote,
+  type ThreadStatus, type ThreadAssignee, type ThreadPresence,
+} from '../../lib/inbox';
+import { listWorkspaceMembers, type WorkspaceMember } from '../../lib/members';
 
 interface LayoutContext { user: User }
 
@@ -23,58 +38,183 @@ const relTime = (iso: string): string => {
   return new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
 };
 
+const SNOOZE_OPTIONS: [label: string, hours: number][] = [['1 day', 24], ['3 days', 72], ['1 week', 168]];
+
+// Untrusted email HTML — isolate it: sandbox blocks scripts, forms,
+// same-origin access, and top-level navigation.
+const MessageBody: React.FC<{ html: string | null; text?: string | null }> = ({ html, text }) => html ? (
+  <iframe
+    title="Email body"
+    sandbox=""
+    srcDoc={`<!doctype html><meta name="color-scheme" content="light"><base target="_blank"><div style="font:14px/1.5 -apple-system,Segoe UI,Roboto,sans-serif;color:#334155;padding:4px">${html}</div>`}
+    className="w-full h-56 border border-slate-100 rounded-xl bg-white"
+  />
+) : (
+  <div className="text-sm text-slate-700 whitespace-pre-wrap max-h-96 overflow-y-auto border border-slate-100 rounded-xl bg-white p-3">
+    {text || '(empty message)'}
+  </div>
+);
+
 const InboxPage: React.FC = () => {
   const { user } = useOutletContext<LayoutContext>();
   const navigate = useNavigate();
   const { toast } = useToast();
 
-  const [rows, setRows] = useState<InboundEmail[]>([]);
+  const [threads, setThreads] = useState<InboxThread[]>([]);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
   const [loading, setLoading] = useState(true);
-  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [view, setView] = useState<ThreadStatus>('open');
+  const [assignee, setAssignee] = useState<ThreadAssignee>('all');
+  const [intentFilter, setIntentFilter] = useState<ReplyIntent | ''>('');
   const [query, setQuery] = useState('');
+
   const [openId, setOpenId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<ThreadMessage[]>([]);
+  const [notes, setNotes] = useState<ThreadNote[]>([]);
+  const [noteDraft, setNoteDraft] = useState('');
+  const [presence, setPresence] = useState<ThreadPresence[]>([]);
+  const [openedAt, setOpenedAt] = useState('');
   const [replyEmpty, setReplyEmpty] = useState(true);
   const [sending, setSending] = useState(false);
   const editorRef = useRef<RichReplyHandle>(null);
 
   const load = useCallback(async () => {
     setLoading(true);
-    setRows(await listInbound(user.id, unreadOnly));
+    setThreads(await listThreads(user.id, view, assignee));
     setLoading(false);
-  }, [user.id, unreadOnly]);
+  }, [user.id, view, assignee]);
   useEffect(() => { void load(); }, [load]);
+  useEffect(() => { void listWorkspaceMembers(user.id).then(setMembers); }, [user.id]);
+
+  const memberName = useCallback((id: string | null) =>
+    id === user.id ? 'You' : members.find(m => m.userId === id)?.name ?? 'A teammate', [members, user.id]);
+
+  const openThread = threads.find(t => t.id === openId) ?? null;
 
-  const open = useCallback(async (m: InboundEmail) => {
-    const next = openId === m.id ? null : m.id;
+  const loadThread = useCallback(async (id: string) => {
+    const [msgs, ns] = await Promise.all([getThreadMessages(id), listThreadNotes(id)]);
+    setMessages(msgs);
+    setNotes(ns);
+  }, []);
+
+  const open = useCallback(async (t: InboxThread) => {
+    const next = openId === t.id ? null : t.id;
     setOpenId(next);
+    setMessages([]);
+    setNotes([]);
+    setNoteDraft('');
+    setPresence([]);
     setReplyEmpty(true);
-    if (next && !m.is_read) {
-      setRows(prev => prev.map(r => r.id === m.id ? { ...r, is_read: true } : r));
-      await markInboundRead(m.id, true);
+    if (!next) return;
+    setOpenedAt(new Date().toISOString());
+    await loadThread(t.id);
+    if (t.unread > 0) {
+      setThreads(prev => prev.map(r => r.id === t.id ? { ...r, unread: 0 } : r));
+      await markThreadRead(t.id);
     }
-  }, [openId]);
+  }, [openId, loadThread]);
+
+  // Presence heartbeat for the open thread: 'replying' once a draft exists.
+  const presenceState = replyEmpty ? 'viewing' : 'replying';
+  useEffect(() => {
+    if (!openThread) return;
+    const thread = { id: openThread.id, workspace_id: openThread.workspace_id };
+    const beat = async () => {
+      await touchThreadPresence(thread, user.id, presenceState);
+      setPresence(await listThreadPresence(thread.id));
+    };
+    void beat();
+    const timer = setInterval(beat, PRESENCE_HEARTBEAT_MS);
+    return () => clearInterval(timer);
+  }, [openThread?.id, openThread?.workspace_id, user.id, presenceState]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Leave on switching threads or unmounting so nobody sees a stale warning.
+  useEffect(() => {
+    if (!openId) return;
+    return () => { void leaveThread(openId, user.id); };
+  }, [openId, user.id]);
 
-  const onSendReply = useCallback(async (m: InboundEmail) => {
+  const others = activeTeammates(presence, user.id);
+  const latestReply = [...messages].reverse().find(m => m.kind === 'inbound')?.email as InboundEmail | undefined;
+
+  const onSendReply = useCallback(async (t: InboxThread, m: InboundEmail) => {
     const html = editorRef.current?.getHtml() ?? '';
+    const sentMeanwhile = await teammateRepliesSince(t.id, user.id, openedAt);
+    if (sentMeanwhile.length > 0 && !confirm(`${memberName(sentMeanwhile[0].sent_by)} already replied on this thread since you opened it. Send anyway?`)) {
+      await loadThread(t.id);
+      setOpenedAt(new Date().toISOString());
+      return;
+    }
     setSending(true);
     const res = await sendReply(m, html);
     setSending(false);
     if (!res.ok) { toast(res.error || 'Reply failed', 'error'); return; }
     toast(`Reply sent to ${inboundSenderName(m)}`, 'success');
     editorRef.current?.clear();
-    setOpenId(null);
+    setReplyEmpty(true);
+    setOpenedAt(new Date().toISOString());
+    await loadThread(t.id);
+  }, [toast, user.id, openedAt, memberName, loadThread]);
+
+  const onSetIntent = useCallback(async (m: InboundEmail, intent: ReplyIntent, returnDate?: string) => {
+    try {
+      const actions = await setReplyIntent(m.id, intent, returnDate);
+      setMessages(prev => prev.map(x => x.kind === 'inbound' && x.email.id === m.id ? {
+        ...x,
+        email: {
+          ...x.email, intent, intent_source: 'manual' as const, intent_confidence: 1, intent_actions: actions,
+          ooo_return_date: intent === 'out_of_office' ? (returnDate || x.email.ooo_return_date) : null,
+        },
+      } : x));
+      toast(`Marked as ${REPLY_INTENTS[intent].label.toLowerCase()}`, 'success');
+    } catch (e) {
+      toast((e as Error).message || 'Could not update intent', 'error');
+    }
   }, [toast]);
 
+  const onAssign = useCallback(async (t: InboxThread, to: string | null) => {
+    try {
+      await assignThread(t.id, to);
+      setThreads(prev => prev.map(r => r.id === t.id ? { ...r, assigned_to: to } : r));
+    } catch (e) {
+      toast((e as Error).message || 'Could not assign', 'error');
+    }
+  }, [toast]);
+
+  const onStatus = useCallback(async (t: InboxThread, status: ThreadStatus, snoozeHours?: number) => {
+    const until = snoozeHours ? new Date(Date.now() + snoozeHours * 3_600_000).toISOString() : undefined;
+    try {
+      await setThreadStatus(t.id, status, until);
+      // Leaves the current view unless it's the one it moved to.
+      setThreads(prev => status === view ? prev : prev.filter(r => r.id !== t.id));
+      if (status !== view) setOpenId(null);
+      toast(status === 'done' ? 'Marked done' : status === 'snoozed' ? 'Snoozed' : 'Reopened', 'success');
+    } catch (e) {
+      toast((e as Error).message || 'Could not update the thread', 'error');
+    }
+  }, [toast, view]);
+
+  const onAddNote = useCallback(async (t: InboxThread) => {
+    if (!noteDraft.trim()) return;
+    try {
+      const note = await addThreadNote(t, user.id, noteDraft);
+      setNotes(prev => [...prev, note]);
+      setNoteDraft('');
+    } catch (e) {
+      toast((e as Error).message || 'Could not save the note', 'error');
+    }
+  }, [noteDraft, toast, user.id]);
+
   const filtered = useMemo(() => {
     const q = query.trim().toLowerCase();
-    if (!q) return rows;
-    return rows.filter(m =>
-      inboundSenderName(m).toLowerCase().includes(q) ||
-      m.from_email.toLowerCase().includes(q) ||
-      (m.subject ?? '').toLowerCase().includes(q));
-  }, [rows, query]);
+    return threads.filter(t =>
+      (!intentFilter || t.latestIntent === intentFilter) &&
+      (!q || threadContactName(t).toLowerCase().includes(q) ||
+        (t.contactEmail ?? '').toLowerCase().includes(q) ||
+        (t.subject ?? '').toLowerCase().includes(q)));
+  }, [threads, query, intentFilter]);
 
-  const unread = rows.filter(r => !r.is_read).length;
+  const unread = threads.filter(t => t.unread > 0).length;
 
   return (
     <div className="px-6 py-8 max-w-4xl mx-auto space-y-6">
@@ -84,7 +224,7 @@ const InboxPage: React.FC = () => {
             <InboxIcon className="w-6 h-6 text-indigo-600" /> Inbox
             {unread > 0 && <span className="text-[11px] font-bold px-2 py-0.5 rounded-full bg-indigo-600 text-white">{unread}</span>}
           </h1>
-          <p className="text-sm text-slate-500 mt-1">Replies to your outreach, matched to each lead.</p>
+          <p className="text-sm text-slate-500 mt-1">Conversations with your leads, shared with your team.</p>
         </div>
         <button onClick={() => void load()} disabled={loading}
           className="flex items-center gap-2 px-3 py-2 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-xl hover:bg-slate-50 disabled:opacity-50 transition-colors">
@@ -93,17 +233,28 @@ const InboxPage: React.FC = () => {
       </div>
 
       <div className="flex items-center justify-between gap-3 flex-wrap">
-        <div className="flex items-center gap-2">
-          {([['all', 'All'], ['unread', 'Unread']] as const).map(([k, label]) => (
-            <button key={k} onClick={() => setUnreadOnly(k === 'unread')}
-              className={`px-3.5 py-2 rounded-xl text-xs font-bold transition-colors ${(k === 'unread') === unreadOnly ? 'bg-indigo-600 text-white' : 'bg-white text-slate-600 border border-slate-200 hover:border-indigo-200'}`}>
+        <div className="flex items-center gap-2 flex-wrap">
+          {([['open', 'Open'], ['snoozed', 'Snoozed'], ['done', 'Done']] as const).map(([k, label]) => (
+            <button key={k} onClick={() => { setView(k); setOpenId(null); }}
+              className={`px-3.5 py-2 rounded-xl text-xs font-bold transition-colors ${view === k ? 'bg-indigo-600 text-white' : 'bg-white text-slate-600 border border-slate-200 hover:border-indigo-200'}`}>
               {label}
             </button>
           ))}
+          <select value={assignee} onChange={e => setAssignee(e.target.value as ThreadAssignee)}
+            className="px-3 py-2 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-xl outline-none focus:border-indigo-300">
+            <option value="all">Everyone</option>
+            <option value="mine">Assigned to me</option>
+            <option value="unassigned">Unassigned</option>
+          </select>
+          <select value={intentFilter} onChange={e => setIntentFilter(e.target.value as ReplyIntent | '')}
+            className="px-3 py-2 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-xl outline-none focus:border-indigo-300">
+            <option value="">Any intent</option>
+            {(Object.keys(REPLY_INTENTS) as ReplyIntent[]).map(k => <option key={k} value={k}>{REPLY_INTENTS[k].label}</option>)}
+          </select>
         </div>
         <div className="relative">
           <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
-          <input value={query} onChange={e => setQuery(e.target.value)} placeholder="Search sender or subject…"
+          <input value={query} onChange={e => setQuery(e.target.value)} placeholder="Search contact or subject…"
             className="pl-9 pr-3 py-2 text-sm bg-white border border-slate-200 rounded-xl outline-none focus:border-indigo-300 transition-colors w-56" />
         </div>
       </div>
@@ -114,59 +265,171 @@ const InboxPage: React.FC = () => {
         ) : filtered.length === 0 ? (
           <div className="p-12 text-center">
             <Mail className="w-8 h-8 mx-auto text-slate-300 mb-2" />
-            <p className="text-sm font-semibold text-slate-500">{rows.length === 0 ? 'No replies yet' : 'No matches'}</p>
+            <p className="text-sm font-semibold text-slate-500">{threads.length === 0 ? (view === 'open' ? 'No open conversations' : `Nothing ${view}`) : 'No matches'}</p>
             <p className="text-xs text-slate-400 mt-1">When leads reply to your campaigns, they show up here.</p>
           </div>
-        ) : filtered.map(m => {
-          const isOpen = openId === m.id;
+        ) : filtered.map(t => {
+          const isOpen = openId === t.id;
           return (
-            <div key={m.id} className={`${!m.is_read ? 'bg-indigo-50/30' : ''}`}>
-              <button onClick={() => open(m)} className="w-full flex items-center gap-3 px-5 py-3.5 text-left hover:bg-slate-50/60 transition-colors">
-                {!m.is_read && <span className="w-2 h-2 rounded-full bg-indigo-500 shrink-0" />}
-                {m.is_read && <span className="w-2 shrink-0" />}
+            <div key={t.id} className={`${t.unread > 0 ? 'bg-indigo-50/30' : ''}`}>
+              <button onClick={() => open(t)} className="w-full flex items-center gap-3 px-5 py-3.5 text-left hover:bg-slate-50/60 transition-colors">
+                {t.unread > 0 ? <span className="w-2 h-2 rounded-full bg-indigo-500 shrink-0" /> : <span className="w-2 shrink-0" />}
                 <div className="min-w-0 flex-1">
-                  <p className={`text-sm truncate ${!m.is_read ? 'font-bold text-slate-900' : 'font-semibold text-slate-700'}`}>{inboundSenderName(m)}</p>
-                  <p className="text-xs text-slate-500 truncate">{m.subject || '(no subject)'}</p>
+                  <p className={`text-sm truncate ${t.unread > 0 ? 'font-bold text-slate-900' : 'font-semibold text-slate-700'}`}>
+                    {threadContactName(t)}
+                    {t.replies > 1 && <span className="ml-1.5 text-[11px] font-semibold text-slate-400">{t.replies}</span>}
+                  </p>
+                  <p className="text-xs text-slate-500 truncate">{t.subject || '(no subject)'}</p>
                 </div>
-                <span className="text-[11px] text-slate-400 shrink-0">{relTime(m.received_at)}</span>
+                {t.status === 'snoozed' && effectiveStatus(t) === 'open' && (
+                  <span className="text-[10px] font-bold px-2 py-0.5 rounded-full shrink-0 bg-amber-50 text-amber-700">Snooze ended</span>
+                )}
+                {t.latestIntent && (
+                  <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full shrink-0 ${REPLY_INTENTS[t.latestIntent].tone}`}>
+                    {REPLY_INTENTS[t.latestIntent].label}
+                  </span>
+                )}
+                {t.assigned_to && (
+                  <span className="flex items-center gap-1 text-[11px] font-semibold text-slate-500 shrink-0">
+                    <UserCircle2 className="w-3.5 h-3.5" /> {memberName(t.assigned_to)}
+                  </span>
+                )}
+                <span className="text-[11px] text-slate-400 shrink-0">{relTime(t.last_message_at)}</span>
               </button>
 
               {isOpen && (
                 <div className="px-5 pb-4 pt-1 space-y-3 bg-slate-50/40">
-                  <p className="text-[11px] text-slate-400">{m.from_name ? `${m.from_name} · ` : ''}{m.from_email}{m.to_email ? ` → ${m.to_email}` : ''}</p>
-                  {m.body_html ? (
-                    // Untrusted email HTML — isolate it: sandbox blocks scripts,
-                    // forms, same-origin access, and top-level navigation.
-                    <iframe
-                      title="Email body"
-                      sandbox=""
-                      srcDoc={`<!doctype html><meta name="color-scheme" content="light"><base target="_blank"><div style="font:14px/1.5 -apple-system,Segoe UI,Roboto,sans-serif;color:#334155;padding:4px">${m.body_html}</div>`}
-                      className="w-full h-72 border border-slate-100 rounded-xl bg-white"
-                    />
-                  ) : (
-                    <div className="text-sm text-slate-700 whitespace-pre-wrap max-h-96 overflow-y-auto border border-slate-100 rounded-xl bg-white p-3">
-                      {m.body_text || '(empty message)'}
+                  {/* Assignment + status */}
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <select value={t.assigned_to ?? ''} onChange={e => void onAssign(t, e.target.value || null)}
+                      className="px-2.5 py-1.5 text-[11px] font-bold bg-white border border-slate-200 rounded-lg outline-none focus:border-indigo-300">
+                      <option value="">Unassigned</option>
+                      {members.map(m => <option key={m.userId} value={m.userId}>{m.userId === user.id ? `${m.name} (you)` : m.name}</option>)}
+                    </select>
+                    {view !== 'done' && (
+                      <button onClick={() => void onStatus(t, 'done')}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[11px] font-bold text-emerald-700 bg-emerald-50 hover:bg-emerald-100 transition-colors">
+                        <CheckCircle2 className="w-3.5 h-3.5" /> Done
+                      </button>
+                    )}
+                    {view !== 'open' && (
+                      <button onClick={() => void onStatus(t, 'open')}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[11px] font-bold text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 transition-colors">
+                        <RotateCcw className="w-3.5 h-3.5" /> Reopen
+                      </button>
+                    )}
+                    <span className="flex items-center gap-1 text-[11px] text-slate-500">
+                      <Clock className="w-3.5 h-3.5 text-slate-400" /> Snooze
+                      {SNOOZE_OPTIONS.map(([label, hours]) => (
+                        <button key={hours} onClick={() => void onStatus(t, 'snoozed', hours)}
+                          className="px-2 py-1 rounded-md font-bold text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 transition-colors">
+                          {label}
+                        </button>
+                      ))}
+                    </span>
+                  </div>
+
+                  {/* Collision warning */}
+                  {others.length > 0 && (
+                    <div className={`flex items-center gap-2 px-3 py-2 rounded-xl text-xs font-semibold ${others[0].state === 'replying' ? 'bg-amber-50 text-amber-800 border border-amber-200' : 'bg-slate-100 text-slate-600'}`}>
+                      <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                      {others.map(p => `${memberName(p.user_id)} is ${p.state === 'replying' ? 'replying' : 'viewing'}`).join(' · ')}
                     </div>
                   )}
-                  {/* In-app reply */}
-                  <div className="space-y-2">
-                    <RichReplyEditor ref={editorRef} placeholder={`Reply to ${inboundSenderName(m)}…`}
-                      onInput={() => setReplyEmpty(editorRef.current?.isEmpty() ?? true)} />
+
+                  {/* Conversation */}
+                  {messages.length === 0 && <p className="text-xs text-slate-400">Loading conversation…</p>}
+                  {messages.map(msg => msg.kind === 'outbound' ? (
+                    <div key={`o-${msg.email.id}`} className="ml-8 space-y-1">
+                      <p className="text-[11px] text-slate-400">
+                        {msg.email.sent_by ? memberName(msg.email.sent_by) : 'Sequence'} → {msg.email.to_email} · {relTime(msg.at)}
+                        {msg.email.status && msg.email.status !== 'sent' && <span className="ml-1 text-rose-500">({msg.email.status})</span>}
+                      </p>
+                      <MessageBody html={msg.email.body_html} text={`${msg.email.subject ?? ''}\n\n(sent before message bodies were kept)`.trim()} />
+                    </div>
+                  ) : (
+                    <div key={`i-${msg.email.id}`} className="mr-8 space-y-1.5">
+                      <p className="text-[11px] text-slate-400">{msg.email.from_name ? `${msg.email.from_name} · ` : ''}{msg.email.from_email}{msg.email.to_email ? ` → ${msg.email.to_email}` : ''} · {relTime(msg.at)}</p>
+                      <div className="flex items-center gap-2 flex-wrap text-[11px] text-slate-500">
+                        <Tag className="w-3.5 h-3.5 text-slate-400" />
+                        <select value={msg.email.intent ?? ''} onChange={e => e.target.value && void onSetIntent(msg.email, e.target.value as ReplyIntent)}
+                          className="px-2 py-1 text-[11px] font-bold bg-white border border-slate-200 rounded-lg outline-none focus:border-indigo-300">
+                          {!msg.email.intent && <option value="">Unclassified</option>}
+                          {(Object.keys(REPLY_INTENTS) as ReplyIntent[]).map(k => <option key={k} value={k}>{REPLY_INTENTS[k].label}</option>)}
+                        </select>
+                        {msg.email.intent && msg.email.intent_source && (
+                          <span className="text-slate-400">
+                            {msg.email.intent_source === 'manual' ? 'set manually' : `${msg.email.intent_source === 'ai' ? 'AI' : 'rules'}${msg.email.intent_confidence != null ? ` · ${Math.round(msg.email.intent_confidence * 100)}%` : ''}`}
+                          </span>
+                        )}
+                        {msg.email.intent === 'out_of_office' && (
+                          <label className="flex items-center gap-1">
+                            back
+                            <input type="date" value={msg.email.ooo_return_date ?? ''}
+                              onChange={e => e.target.value && void onSetIntent(msg.email, 'out_of_office', e.target.value)}
+                              className="px-2 py-0.5 text-[11px] bg-white border border-slate-200 rounded-lg outline-none focus:border-indigo-300" />
+                          </label>
+                        )}
+                        {msg.email.intent === 'referral' && msg.email.referral_email && <span>→ {msg.email.referral_email}</span>}
+                      </div>
+                      {describeIntentActions(msg.email.intent_actions).length > 0 && (
+                        <ul className="text-[11px] text-slate-500 list-disc pl-5">
+                          {describeIntentActions(msg.email.intent_actions).map((a, i) => <li key={i}>{a}</li>)}
+                        </ul>
+                      )}
+                      <MessageBody html={msg.email.body_html} text={msg.email.body_text} />
+                    </div>
+                  ))}
+
+                  {/* Internal notes */}
+                  <div className="rounded-xl border border-amber-100 bg-amber-50/40 p-3 space-y-2">
+                    <p className="flex items-center gap-1.5 text-[11px] font-bold text-amber-800"><StickyNote className="w-3.5 h-3.5" /> Internal notes — only your team sees these</p>
+                    {notes.map(n => (
+                      <div key={n.id} className="group flex items-start gap-2 text-xs text-slate-700">
+                        <span className="font-bold shrink-0">{memberName(n.author_id)}</span>
+                        <span className="flex-1 whitespace-pre-wrap">{n.body}</span>
+                        <span className="text-[10px] text-slate-400 shrink-0">{relTime(n.created_at)}</span>
+                        {n.author_id === user.id && (
+                          <button onClick={() => { void deleteThreadNote(n.id); setNotes(prev => prev.filter(x => x.id !== n.id)); }}
+                            className="opacity-0 group-hover:opacity-100 text-slate-400 hover:text-rose-500 transition-opacity" title="Delete note">
+                            <Trash2 className="w-3 h-3" />
+                          </button>
+                        )}
+                      </div>
+                    ))}
                     <div className="flex items-center gap-2">
-                      <button onClick={() => onSendReply(m)} disabled={sending || replyEmpty}
-                        className="flex items-center gap-1.5 px-3.5 py-2 rounded-lg text-xs font-bold bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 transition-colors">
-                        {sending ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Send className="w-3.5 h-3.5" />} Send reply
+                      <input value={noteDraft} onChange={e => setNoteDraft(e.target.value)}
+                        onKeyDown={e => { if (e.key === 'Enter') void onAddNote(t); }}
+                        placeholder="Add a note for your team…"
+                        className="flex-1 px-3 py-1.5 text-xs bg-white border border-amber-100 rounded-lg outline-none focus:border-amber-300" />
+                      <button onClick={() => void onAddNote(t)} disabled={!noteDraft.trim()}
+                        className="px-3 py-1.5 rounded-lg text-[11px] font-bold text-amber-800 bg-amber-100 hover:bg-amber-200 disabled:opacity-50 transition-colors">
+                        Add note
                       </button>
-                      {m.lead_id && (
-                        <button onClick={() => navigate(`/portal/leads/${m.lead_id}`)}
-                          className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs font-bold text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 transition-colors">
-                          <ArrowRight className="w-3.5 h-3.5" /> Open lead
-                        </button>
-                      )}
-                      {!m.lead_id && <span className="text-[11px] text-slate-400">Not matched to a lead</span>}
                     </div>
-                    <p className="text-[11px] text-slate-400">Sends from your connected sender and threads into the conversation.</p>
                   </div>
+
+                  {/* In-app reply, to the latest message from the lead */}
+                  {latestReply ? (
+                    <div className="space-y-2">
+                      <RichReplyEditor ref={editorRef} placeholder={`Reply to ${inboundSenderName(latestReply)}…`}
+                        onInput={() => setReplyEmpty(editorRef.current?.isEmpty() ?? true)} />
+                      <div className="flex items-center gap-2">
+                        <button onClick={() => onSendReply(t, latestReply)} disabled={sending || replyEmpty}
+                          className="flex items-center gap-1.5 px-3.5 py-2 rounded-lg text-xs font-bold bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 transition-colors">
+                          {sending ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Send className="w-3.5 h-3.5" />} Send reply
+                        </button>
+                        {t.lead_id && (
+                          <button onClick={() => navigate(`/portal/leads/${t.lead_id}`)}
+                            className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs font-bold text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 transition-colors">
+                            <ArrowRight className="w-3.5 h-3.5" /> Open lead
+                          </button>
+                        )}
+                        {!t.lead_id && <span className="text-[11px] text-slate-400">Not matched to a lead</span>}
+                      </div>
+                      <p className="text-[11px] text-slate-400">Sends from your connected sender and threads into the conversation.</p>
+                    </div>
+                  ) : null}
                 </div>
               )}
             </div>
@@ -19,6 +19,7 @@ import {
 } from '../../components/Icons';
 import { PageHeader } from '../../components/layout/PageHeader';
 import { AdvancedOnly } from '../../components/ui-mode';
+import CrmSyncPanel from '../../components/portal/CrmSyncPanel';
 import {
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip,
   ResponsiveContainer, Cell
@@ -2239,6 +2240,8 @@ const IntegrationHub: React.FC = () => {
                   <span className="text-[10px] text-emerald-600">Last sync: {integ.lastSync}</span>
                 </div>
 
+                {(integ.id === 'hubspot' || integ.id === 'salesforce') && <CrmSyncPanel provider={integ.id} />}
+
                 {/* Sync Direction */}
                 <div>
                   <label className="text-[10px] font-black text-slate-400 uppercase tracking-wider block mb-2">Sync Direction</label>
@@ -1,88 +1,258 @@
-import React from 'react';
-import { useOutletContext, useNavigate } from 'react-router-dom';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useOutletContext } from 'react-router-dom';
 import { User } from '../../types';
 import { PageHeader } from '../../components/layout/PageHeader';
-import { BrainIcon, MailIcon, GlobeIcon, ChartIcon, ArrowRightIcon } from '../../components/Icons';
+import { BrainIcon, PlusIcon, CheckIcon } from '../../components/Icons';
+import { useToast } from '../../components/ui/Toast';
+import { useCurrentBusiness } from '../../components/business/BusinessProvider';
+import { useLeads } from '../../lib/queries';
+import { resolveWorkspaceId } from '../../lib/tenancy';
+import { recalcLeadScoresBulk } from '../../lib/leadScoring';
+import {
+  DEFAULT_SCORE_WEIGHTS,
+  SCORE_CATEGORIES,
+  activateScoringProfile,
+  deleteScoringProfile,
+  listScoringProfiles,
+  ruleLabel,
+  saveScoringProfile,
+  toScoringModel,
+  type ScoringProfile,
+} from '../../lib/scoringProfiles';
+import { ScoringProfileEditor, type ScoringProfileDraft } from '../../components/leads/ScoringProfileEditor';
 
 interface LayoutContext {
   user: User;
   refreshProfile: () => Promise<void>;
 }
 
-// ── Phase 0: honest replacement ──────────────────────────────────────────────
-// The previous version of this page rendered a full "AI lead scoring" dashboard
-// (score history timelines, per-factor breakdowns, engagement heatmaps) that was
-// entirely synthesized with Math.random() from a lead's score — which was itself
-// random. None of it reflected real behaviour. That fabricated intelligence has
-// been removed. Real lead scoring will be rebuilt on genuine signals
-// (email engagement, enrichment, website/CRM activity) in a later phase.
-// Until then this page points users to the surfaces that show REAL data today.
+// Scoring profiles: how this workspace's lead scores are weighted. Scores are
+// computed deterministically in lib/leadScoring from real signals; a profile
+// re-weights the categories and adds ICP rules (lib/scoringProfiles). Edits are
+// previewed against current leads before a profile is switched on, and an
+// active profile only affects leads once they are rescored.
+
+const BLANK_DRAFT: ScoringProfileDraft = { name: '', description: '', weights: DEFAULT_SCORE_WEIGHTS, rules: [] };
 
 const LeadIntelligence: React.FC = () => {
   const { user } = useOutletContext<LayoutContext>();
-  const navigate = useNavigate();
-
-  const real = [
-    {
-      icon: <MailIcon className="w-5 h-5" />,
-      title: 'Email engagement',
-      body: 'Real opens, clicks and send history per lead — tracked from actual email events.',
-      cta: 'Open Analytics', to: '/portal/analytics',
-    },
-    {
-      icon: <GlobeIcon className="w-5 h-5" />,
-      title: 'Lead research',
-      body: 'AI website research runs on demand from a lead profile and grounds outreach in real facts.',
-      cta: 'Go to Leads', to: '/portal/leads',
-    },
-    {
-      icon: <ChartIcon className="w-5 h-5" />,
-      title: 'Pipeline insights',
-      body: 'Deterministic pipeline stats — status distribution, multi-contact accounts, pipeline age.',
-      cta: 'Open Analytics', to: '/portal/analytics',
-    },
-  ];
+  const { toast } = useToast();
+  const { currentBusinessId } = useCurrentBusiness();
+  const { data: leads = [], refetch: refetchLeads } = useLeads(user.id);
+
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [profiles, setProfiles] = useState<ScoringProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<ScoringProfileDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [rescoring, setRescoring] = useState<{ done: number; total: number } | null>(null);
+  // Set after the active profile changes, until leads are rescored with it.
+  const [needsRescore, setNeedsRescore] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const ws = await resolveWorkspaceId(user.id);
+      setWorkspaceId(ws);
+      setProfiles(await listScoringProfiles(ws));
+    } catch (e) {
+      toast((e as Error).message || 'Could not load scoring profiles', 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [user.id, toast]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const active = profiles.find(p => p.isActive) ?? null;
+  const activeModel = useMemo(() => toScoringModel(active), [active]);
+  const customFieldKeys = useMemo(
+    () => [...new Set(leads.flatMap(l => Object.keys(l.custom_fields ?? {})))].sort(),
+    [leads],
+  );
+
+  const activate = async (profileId: string | null) => {
+    if (!workspaceId) return;
+    try {
+      await activateScoringProfile(workspaceId, profileId);
+      setProfiles(prev => prev.map(p => ({ ...p, isActive: p.id === profileId })));
+      setNeedsRescore(true);
+      toast(profileId ? 'Scoring profile activated.' : 'Back on the default scoring.', 'success');
+    } catch (e) {
+      toast((e as Error).message || 'Could not switch scoring profile', 'error');
+    }
+  };
+
+  const handleSave = async (draft: ScoringProfileDraft, andActivate: boolean) => {
+    if (!workspaceId) return;
+    setSaving(true);
+    try {
+      const saved = await saveScoringProfile(workspaceId, draft);
+      setProfiles(prev => (prev.some(p => p.id === saved.id) ? prev.map(p => (p.id === saved.id ? saved : p)) : [...prev, saved]));
+      setEditing(null);
+      if (andActivate) await activate(saved.id);
+      else {
+        if (saved.isActive) setNeedsRescore(true);
+        toast('Scoring profile saved.', 'success');
+      }
+    } catch (e) {
+      toast((e as Error).message || 'Could not save scoring profile', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (profile: ScoringProfile) => {
+    const extra = profile.isActive ? ' It is active — scoring will fall back to the default.' : '';
+    if (!confirm(`Delete "${profile.name}"?${extra}`)) return;
+    try {
+      await deleteScoringProfile(profile.id);
+      setProfiles(prev => prev.filter(p => p.id !== profile.id));
+      if (profile.isActive) setNeedsRescore(true);
+    } catch (e) {
+      toast((e as Error).message || 'Could not delete scoring profile', 'error');
+    }
+  };
+
+  const handleRescore = async () => {
+    if (!currentBusinessId || !workspaceId) { toast('Select a business first.', 'error'); return; }
+    setRescoring({ done: 0, total: leads.length });
+    try {
+      const n = await recalcLeadScoresBulk(currentBusinessId, workspaceId, leads, (done, total) => setRescoring({ done, total }));
+      await refetchLeads();
+      setNeedsRescore(false);
+      toast(`Recalculated ${n.toLocaleString()} lead score${n === 1 ? '' : 's'}.`, 'success');
+    } catch (e) {
+      toast((e as Error).message || 'Could not recalculate scores', 'error');
+    } finally {
+      setRescoring(null);
+    }
+  };
 
   return (
     <div className="max-w-4xl mx-auto px-6 py-8">
       <PageHeader
         title="Lead Intelligence"
-        description="Signal-based lead scoring — rebuilding on real data"
+        description="Scoring profiles — how lead scores are weighted in this workspace"
+        actions={!editing && (
+          <button
+            onClick={() => setEditing({ ...BLANK_DRAFT, weights: { ...activeModel.weights } })}
+            className="inline-flex items-center gap-1.5 px-4 py-2 bg-indigo-600 text-white rounded-lg text-xs font-bold hover:bg-indigo-700"
+          >
+            <PlusIcon className="w-4 h-4" /> New profile
+          </button>
+        )}
       />
 
-      <div className="mt-6 rounded-2xl border border-slate-200 bg-white p-8 text-center">
-        <div className="w-14 h-14 mx-auto rounded-2xl bg-indigo-50 text-indigo-600 flex items-center justify-center mb-4">
-          <BrainIcon className="w-7 h-7" />
+      {needsRescore && (
+        <div className="mt-6 flex items-center justify-between rounded-xl border border-indigo-200 bg-indigo-50 px-4 py-3">
+          <p className="text-xs text-indigo-800">
+            Existing scores still use the previous weights. Rescore {leads.length.toLocaleString()} leads to apply the change.
+          </p>
+          <button
+            onClick={handleRescore}
+            disabled={!!rescoring}
+            className="px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-xs font-bold hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {rescoring ? `Scoring ${rescoring.done}/${rescoring.total}…` : 'Rescore leads'}
+          </button>
+        </div>
+      )}
+
+      {editing ? (
+        <div className="mt-6">
+          <ScoringProfileEditor
+            key={editing.id ?? 'new'}
+            initial={editing}
+            activeModel={activeModel}
+            leads={leads}
+            businessId={currentBusinessId}
+            customFieldKeys={customFieldKeys}
+            saving={saving}
+            onSave={handleSave}
+            onCancel={() => setEditing(null)}
+          />
         </div>
-        <h2 className="text-xl font-bold text-slate-900">Real lead scoring is on the way</h2>
-        <p className="text-sm text-slate-600 mt-2 max-w-lg mx-auto leading-relaxed">
-          We removed the old scoring dashboard because its scores, timelines and "buying signals"
-          were generated randomly, not measured. A real model — driven by email engagement,
-          enrichment and activity — is being built. We'd rather show you nothing than show you
-          numbers that aren't true.
-        </p>
-        <p className="text-xs text-slate-400 mt-3">
-          Signed in as {user.name || user.email}. Meanwhile, here's what's real today:
-        </p>
-      </div>
-
-      <div className="mt-5 grid gap-4 sm:grid-cols-3">
-        {real.map((c) => (
-          <div key={c.title} className="rounded-2xl border border-slate-200 bg-white p-5 flex flex-col">
-            <div className="w-10 h-10 rounded-xl bg-slate-50 text-slate-600 flex items-center justify-center mb-3">
-              {c.icon}
+      ) : (
+        <div className="mt-6 space-y-3">
+          {/* Built-in default */}
+          <div className={`rounded-2xl border bg-white p-5 ${active ? 'border-slate-200' : 'border-emerald-200'}`}>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-xl bg-slate-50 text-slate-600 flex items-center justify-center">
+                  <BrainIcon className="w-5 h-5" />
+                </div>
+                <div>
+                  <h3 className="text-sm font-bold text-slate-900 flex items-center gap-2">
+                    Default scoring
+                    {!active && <span className="px-1.5 py-0.5 rounded bg-emerald-50 text-emerald-700 text-[9px] font-black uppercase tracking-wider">Active</span>}
+                  </h3>
+                  <p className="text-xs text-slate-500">
+                    {SCORE_CATEGORIES.map(c => `${c.label} ${DEFAULT_SCORE_WEIGHTS[c.key]}`).join(' · ')}
+                  </p>
+                </div>
+              </div>
+              {active && (
+                <button onClick={() => activate(null)} className="text-xs font-bold text-slate-600 hover:text-slate-800">
+                  Use default
+                </button>
+              )}
             </div>
-            <h3 className="text-sm font-bold text-slate-900">{c.title}</h3>
-            <p className="text-xs text-slate-500 mt-1 leading-relaxed flex-1">{c.body}</p>
-            <button
-              onClick={() => navigate(c.to)}
-              className="mt-3 inline-flex items-center gap-1 text-xs font-bold text-indigo-600 hover:text-indigo-700"
-            >
-              {c.cta} <ArrowRightIcon className="w-3.5 h-3.5" />
-            </button>
           </div>
-        ))}
-      </div>
+
+          {loading && <div className="text-center py-8 text-sm text-slate-400">Loading profiles…</div>}
+          {!loading && profiles.length === 0 && (
+            <div className="text-center py-8 text-sm text-slate-400">
+              No custom profiles yet. Create one to re-weight categories or reward your ICP.
+            </div>
+          )}
+
+          {profiles.map(p => (
+            <div key={p.id} className={`rounded-2xl border bg-white p-5 ${p.isActive ? 'border-emerald-200' : 'border-slate-200'}`}>
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <h3 className="text-sm font-bold text-slate-900 flex items-center gap-2">
+                    {p.name}
+                    {p.isActive && <span className="px-1.5 py-0.5 rounded bg-emerald-50 text-emerald-700 text-[9px] font-black uppercase tracking-wider">Active</span>}
+                  </h3>
+                  {p.description && <p className="text-xs text-slate-500 mt-0.5">{p.description}</p>}
+                  <p className="text-[11px] text-slate-400 mt-1.5">
+                    {SCORE_CATEGORIES.map(c => `${c.label} ${p.weights[c.key]}`).join(' · ')}
+                  </p>
+                  {p.rules.length > 0 && (
+                    <ul className="mt-2 space-y-0.5">
+                      {p.rules.map(r => (
+                        <li key={r.id} className="text-[11px] text-slate-600">
+                          <span className={`font-bold ${r.points > 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                            {r.points > 0 ? '+' : ''}{r.points}
+                          </span>{' '}
+                          {ruleLabel(r)}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  {!p.isActive && (
+                    <button onClick={() => activate(p.id)} className="inline-flex items-center gap-1 text-xs font-bold text-emerald-600 hover:text-emerald-700">
+                      <CheckIcon className="w-3.5 h-3.5" /> Activate
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setEditing({ id: p.id, name: p.name, description: p.description, weights: p.weights, rules: p.rules })}
+                    className="text-xs font-bold text-indigo-600 hover:text-indigo-700"
+                  >
+                    Edit &amp; preview
+                  </button>
+                  <button onClick={() => handleDelete(p)} className="text-xs font-bold text-rose-600 hover:text-rose-700">
+                    Delete
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
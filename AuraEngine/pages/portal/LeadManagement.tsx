@@ -13,8 +13,9 @@ import { emailValidationEnabled, validateEmails, validateEmail, getValidations,
 import { sendTrackedEmailBatch } from '../../lib/emailTracking';
 import { resolveWorkspaceForUser } from '../../lib/memory';
 import type { BatchEmailSummary } from '../../lib/emailTracking';
-import { loadWorkflows, executeWorkflow as executeWorkflowEngine, type Workflow as DbWorkflow, type ExecutionResult } from '../../lib/automationEngine';
-import { useIntegrations, fetchIntegration } from '../../lib/integrations';
+import { loadWorkflows, enrollLeadsInWorkflow, type Workflow as DbWorkflow, type ExecutionResult } from '../../lib/automationEngine';
+import { useIntegrations } from '../../lib/integrations';
+import { pushLeadsToCrm } from '../../lib/crmSync';
 import LeadActionsModal from '../../components/dashboard/LeadActionsModal';
 import ImportLeadsWizard from '../../components/portal/ImportLeadsWizard';
 import { resolvePlanName, consumeCredits } from '../../lib/credits';
@@ -27,6 +28,8 @@ import { AdvancedOnly } from '../../components/ui-mode';
 import { listActivities, logActivity } from '../../lib/leadActivities';
 import { recalcLeadScoresBulk, getLeadScoresBulk, type LeadScoreBreakdown } from '../../lib/leadScoring';
 import { setLeadStatus } from '../../lib/leads';
+import { evaluateCondition, emptyConditionGroup, describeCondition, type ConditionExpr, type ConditionGroup } from '../../lib/leadConditions';
+import { ConditionBuilder } from '../../components/leads/ConditionBuilder';
 
 // ── Helpers ──
 const formatRelativeTime = (dateStr: string): string => {
@@ -146,6 +149,9 @@ const STAGE_COLORS: Record<Lead['status'], { dot: string; active: string }> = {
   Lost: { dot: 'bg-red-400', active: 'bg-red-500' },
 };
 const ACTIVITY_OPTIONS = ['Today', 'This Week', 'This Month', 'All Time'] as const;
+const ACTIVITY_WINDOW_DAYS: Record<Exclude<typeof ACTIVITY_OPTIONS[number], 'All Time'>, number> = {
+  'Today': 1, 'This Week': 7, 'This Month': 30,
+};
 const COMPANY_SIZES = ['1-10', '11-50', '51-200', '201-500', '500+'] as const;
 const PAGE_SIZE_OPTIONS = [25, 50, 100] as const;
 
@@ -220,6 +226,8 @@ const LeadManagement: React.FC = () => {
   const [tagFilter, setTagFilter] = useState<Set<LeadTag>>(new Set());
   const [emailEngagementFilter, setEmailEngagementFilter] = useState<Set<'sent' | 'opened' | 'clicked'>>(new Set());
   const [followUpFilter, setFollowUpFilter] = useState(false);
+  // Free-form rules in the same condition language as workflow condition nodes.
+  const [advancedRules, setAdvancedRules] = useState<ConditionGroup>(() => emptyConditionGroup());
 
   // ── Selection State ──
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
@@ -282,6 +290,10 @@ const LeadManagement: React.FC = () => {
 
   // ── Email Summary Map (React Query — cached) ──
   const leadIds = useMemo(() => allLeads.map(l => l.id), [allLeads]);
+  const customFieldKeys = useMemo(
+    () => [...new Set(allLeads.flatMap(l => Object.keys(l.custom_fields ?? {})))].sort(),
+    [allLeads],
+  );
   const { data: emailSummaryMap = new Map() } = useEmailSummaries(user.id, leadIds);
 
   // ── Inline Status Edit ──
@@ -355,43 +367,33 @@ const LeadManagement: React.FC = () => {
   }, [user]);
 
   // ── Filtering ──
+  // The quick filters are shorthand for condition rules; together with the
+  // advanced rules they form one expression, evaluated exactly like a workflow
+  // condition node (lib/leadConditions).
+  const segmentCondition = useMemo<ConditionGroup>(() => {
+    const rules: ConditionExpr[] = [];
+    if (statusFilter !== 'All') rules.push({ field: 'status', operator: 'eq', value: statusFilter });
+    if (scoreFilter === '50-100') rules.push({ field: 'score', operator: 'gte', value: 50 });
+    if (scoreFilter === 'below-50') rules.push({ field: 'score', operator: 'lt', value: 50 });
+    if (activityFilter !== 'All Time') rules.push({ field: 'created_at', operator: 'within_days', value: ACTIVITY_WINDOW_DAYS[activityFilter] });
+    if (emailEngagementFilter.has('sent')) rules.push({ field: 'email.sent', operator: 'eq', value: true });
+    if (emailEngagementFilter.has('opened')) rules.push({ field: 'email.opened', operator: 'eq', value: true });
+    if (emailEngagementFilter.has('clicked')) rules.push({ field: 'email.clicked', operator: 'eq', value: true });
+    if (followUpFilter) rules.push({ field: 'email.open_count', operator: 'gte', value: 2 });
+    if (advancedRules.rules.length > 0) rules.push(advancedRules);
+    return { combinator: 'and', rules };
+  }, [statusFilter, scoreFilter, activityFilter, emailEngagementFilter, followUpFilter, advancedRules]);
+
   const filteredLeads = useMemo(() => {
     // Note: text search (name/email/company) is applied SERVER-SIDE in useLeads,
     // so `allLeads` is already the search-narrowed set — no client search here.
-    let result = [...allLeads];
-    if (statusFilter !== 'All') result = result.filter(l => l.status === statusFilter);
-    if (scoreFilter === '50-100') result = result.filter(l => l.score >= 50);
-    if (scoreFilter === 'below-50') result = result.filter(l => l.score < 50);
-    if (activityFilter !== 'All Time') {
-      const now = new Date();
-      result = result.filter(l => {
-        if (!l.created_at) return false;
-        const d = new Date(l.created_at);
-        if (isNaN(d.getTime())) return true;
-        const diffDays = (now.getTime() - d.getTime()) / (1000 * 60 * 60 * 24);
-        if (activityFilter === 'Today') return diffDays < 1;
-        if (activityFilter === 'This Week') return diffDays < 7;
-        if (activityFilter === 'This Month') return diffDays < 30;
-        return true;
-      });
-    }
+    let result = segmentCondition.rules.length === 0
+      ? [...allLeads]
+      : allLeads.filter(l => evaluateCondition(segmentCondition, l, {
+        engagement: emailSummaryMap.get(l.id) ?? null,
+        scores: scoreDetails.get(l.id) ?? null,
+      }));
     if (tagFilter.size > 0) result = result.filter(l => leadTagsOf(l).some(t => tagFilter.has(t)));
-    if (emailEngagementFilter.size > 0) {
-      result = result.filter(l => {
-        const summary = emailSummaryMap.get(l.id);
-        if (!summary) return false;
-        if (emailEngagementFilter.has('sent') && !summary.hasSent) return false;
-        if (emailEngagementFilter.has('opened') && !summary.hasOpened) return false;
-        if (emailEngagementFilter.has('clicked') && !summary.hasClicked) return false;
-        return true;
-      });
-    }
-    if (followUpFilter) {
-      result = result.filter(l => {
-        const summary = emailSummaryMap.get(l.id);
-        return summary && summary.openCount >= 2;
-      });
-    }
     if (validationFilter !== 'All') {
       result = result.filter(l => {
         const st = l.email ? valMap.get(l.email.toLowerCase()) : undefined;
@@ -418,7 +420,7 @@ const LeadManagement: React.FC = () => {
     });
 
     return result;
-  }, [allLeads, searchQuery, statusFilter, scoreFilter, activityFilter, companySizeFilter, tagFilter, emailEngagementFilter, followUpFilter, validationFilter, enrichmentFilter, valMap, emailSummaryMap, sortBy, sortDir]);
+  }, [allLeads, searchQuery, segmentCondition, companySizeFilter, tagFilter, validationFilter, enrichmentFilter, valMap, emailSummaryMap, scoreDetails, sortBy, sortDir]);
 
   // ── KPI Stats ──
   const kpiStats = useMemo(() => {
@@ -562,7 +564,7 @@ const LeadManagement: React.FC = () => {
   }, [valEnabled, currentBusinessId, allLeads]);
   useEffect(() => { void loadValMap(); }, [loadValMap]);
 
-  useEffect(() => { setCurrentPage(1); setFocusedIndex(-1); }, [statusFilter, validationFilter, enrichmentFilter, scoreFilter, activityFilter, companySizeFilter, tagFilter, emailEngagementFilter, followUpFilter, searchQuery, perPage]);
+  useEffect(() => { setCurrentPage(1); setFocusedIndex(-1); }, [statusFilter, validationFilter, enrichmentFilter, scoreFilter, activityFilter, companySizeFilter, tagFilter, emailEngagementFilter, followUpFilter, advancedRules, searchQuery, perPage]);
 
   // ── Selection Helpers ──
   const allOnPageSelected = paginatedLeads.length > 0 && paginatedLeads.every(l => selectedIds.has(l.id));
@@ -608,6 +610,7 @@ const LeadManagement: React.FC = () => {
     setTagFilter(new Set());
     setEmailEngagementFilter(new Set());
     setFollowUpFilter(false);
+    setAdvancedRules(emptyConditionGroup());
     setSearchQuery('');
   };
 
@@ -680,53 +683,30 @@ const LeadManagement: React.FC = () => {
     URL.revokeObjectURL(url);
   };
 
-  const handleSyncToCrm = useCallback(async (leadId: string) => {
-    setSyncingCrm(leadId);
+  const handleSyncToCrm = useCallback(async (leadIds: string[]) => {
+    // Determine which CRM is connected
+    const hubspot = integrationStatuses.find(i => i.provider === 'hubspot' && i.status === 'connected');
+    const salesforce = integrationStatuses.find(i => i.provider === 'salesforce' && i.status === 'connected');
+    const provider = hubspot ? 'hubspot' : salesforce ? 'salesforce' : null;
+    if (!provider || leadIds.length === 0) return;
+
+    setSyncingCrm(leadIds.length === 1 ? leadIds[0] : 'bulk');
     try {
-      const lead = allLeads.find(l => l.id === leadId);
-      if (!lead) return;
-
-      // Determine which CRM is connected
-      const hubspot = integrationStatuses.find(i => i.provider === 'hubspot' && i.status === 'connected');
-      const salesforce = integrationStatuses.find(i => i.provider === 'salesforce' && i.status === 'connected');
-      const provider = hubspot ? 'hubspot' : salesforce ? 'salesforce' : null;
-      if (!provider) return;
-
-      const integration = await fetchIntegration(provider);
-      if (!integration) return;
-
-      if (provider === 'hubspot' && integration.credentials.apiKey) {
-        await fetch('https://api.hubapi.com/crm/v3/objects/contacts', {
-          method: 'POST',
-          headers: { Authorization: `Bearer ${integration.credentials.apiKey}`, 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            properties: {
-              email: lead.email,
-              firstname: (lead.name || '').split(' ')[0] || lead.name || '',
-              lastname: (lead.name || '').split(' ').slice(1).join(' ') || '',
-              company: lead.company,
-            },
-          }),
-        });
-      } else if (provider === 'salesforce' && integration.credentials.instanceUrl && integration.credentials.accessToken) {
-        const baseUrl = integration.credentials.instanceUrl.replace(/\/$/, '');
-        await fetch(`${baseUrl}/services/data/v59.0/sobjects/Lead`, {
-          method: 'POST',
-          headers: { Authorization: `Bearer ${integration.credentials.accessToken}`, 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            Email: lead.email,
-            FirstName: (lead.name || '').split(' ')[0] || lead.name || '',
-            LastName: (lead.name || '').split(' ').slice(1).join(' ') || lead.name || '',
-            Company: lead.company || 'Unknown',
-          }),
-        });
+      // crm-sync links each lead to one CRM record, so repeat syncs update it.
+      const results = await pushLeadsToCrm(provider, leadIds);
+      const failed = results.filter(r => r.outcome === 'failed' || r.outcome === 'skipped');
+      const label = provider === 'hubspot' ? 'HubSpot' : 'Salesforce';
+      if (failed.length === 0) {
+        toast(`Synced ${results.length} lead${results.length !== 1 ? 's' : ''} to ${label}`, 'success');
+      } else {
+        toast(`${failed.length} of ${results.length} lead${results.length !== 1 ? 's' : ''} not synced to ${label}: ${failed[0].error ?? 'unknown error'}`, 'error');
       }
     } catch (err) {
-      console.error('CRM sync failed:', err);
+      toast(`CRM sync failed: ${(err as Error).message}`, 'error');
     } finally {
       setSyncingCrm(null);
     }
-  }, [allLeads, integrationStatuses]);
+  }, [integrationStatuses, toast]);
 
   const handleAddLead = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -1183,7 +1163,7 @@ const LeadManagement: React.FC = () => {
     setBulkProgress({ action: `Enroll in "${wf.name}"`, total, processed: 0, errors: 0, running: true });
 
     try {
-      const results = await executeWorkflowEngine(wf, selectedLeads);
+      const results = await enrollLeadsInWorkflow(wf.id, selectedLeads);
       const errors = results.filter(r => r.status === 'failed').length;
       setBulkProgress({ action: `Enroll in "${wf.name}"`, total, processed: total, errors, running: false });
     } catch {
@@ -1326,6 +1306,7 @@ const LeadManagement: React.FC = () => {
   const activeFilterCount = [
     statusFilter !== 'All', validationFilter !== 'All', enrichmentFilter !== 'All', scoreFilter !== 'all', activityFilter !== 'All Time',
     companySizeFilter.size > 0, tagFilter.size > 0, emailEngagementFilter.size > 0, followUpFilter,
+    advancedRules.rules.length > 0,
   ].filter(Boolean).length;
 
   const rangeStart = (currentPage - 1) * perPage + 1;
@@ -1848,6 +1829,15 @@ const LeadManagement: React.FC = () => {
               </button>
             </div>
 
+            {/* Advanced Rules */}
+            <div className="mb-5">
+              <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Advanced Rules</label>
+              <ConditionBuilder value={advancedRules} onChange={setAdvancedRules} customFieldKeys={customFieldKeys} />
+              {advancedRules.rules.length > 0 && (
+                <p className="text-[10px] text-slate-400 mt-2 leading-relaxed">{describeCondition(advancedRules)}</p>
+              )}
+            </div>
+
             {/* Score Distribution */}
             {allLeads.length > 0 && (
               <div className="mb-5">
@@ -2097,7 +2087,7 @@ const LeadManagement: React.FC = () => {
                 {/* Sync to CRM */}
                 {crmConnected && (
                   <button
-                    onClick={() => { selectedIds.forEach(id => handleSyncToCrm(id)); }}
+                    onClick={() => handleSyncToCrm([...selectedIds])}
                     disabled={!!syncingCrm}
                     className="flex items-center space-x-1.5 px-3 py-1.5 bg-white border border-indigo-200 text-indigo-700 rounded-lg text-xs font-bold hover:bg-indigo-100 transition-all disabled:opacity-50"
                   >
@@ -3495,7 +3485,7 @@ const LeadManagement: React.FC = () => {
                     <PhoneIcon className="w-3.5 h-3.5 text-emerald-500" /> Call
                   </button>
                   {crmConnected && (
-                    <button onClick={(ev) => { ev.stopPropagation(); handleSyncToCrm(lead.id); setActionsDropdownId(null); }} disabled={syncingCrm === lead.id} className="w-full flex items-center gap-2 px-3 py-1.5 text-[11px] font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50">
+                    <button onClick={(ev) => { ev.stopPropagation(); handleSyncToCrm([lead.id]); setActionsDropdownId(null); }} disabled={syncingCrm === lead.id} className="w-full flex items-center gap-2 px-3 py-1.5 text-[11px] font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50">
                       <GlobeIcon className="w-3.5 h-3.5 text-violet-500" /> Sync CRM
                     </button>
                   )}
@@ -15,6 +15,7 @@ import { emailValidationEnabled, validateEmail } from '../../lib/emailValidation
 import EmailValidationControl from '../../components/validation/EmailValidationControl';
 import { leadIntelligenceEnabled, recalcLeadScore } from '../../lib/leadScoring';
 import LeadScorePanel from '../../components/leads/LeadScorePanel';
+import ScoreMoversCard from '../../components/leads/ScoreMoversCard';
 import LeadResearchPanel from '../../components/leads/LeadResearchPanel';
 import NextActionPanel from '../../components/leads/NextActionPanel';
 import LeadCallPanel from '../../components/portal/LeadCallPanel';
@@ -26,7 +27,7 @@ import { consumeCredits } from '../../lib/credits';
 import { useOutletContext, useParams, useNavigate } from 'react-router-dom';
 import { generateLeadContent, generateLeadResearch, parseLeadResearchResponse } from '../../lib/gemini';
 import { fetchLeadEmailEngagement, sendTrackedEmail } from '../../lib/emailTracking';
-import { loadWorkflows, executeWorkflow as executeWorkflowEngine, type Workflow as DbWorkflow, type ExecutionResult } from '../../lib/automationEngine';
+import { loadWorkflows, enrollLeadsInWorkflow, type Workflow as DbWorkflow, type ExecutionResult } from '../../lib/automationEngine';
 import type { EmailEngagement } from '../../types';
 import EmailEngagementCard from '../../components/dashboard/EmailEngagementCard';
 import LeadInvoicesTab from '../../components/invoices/LeadInvoicesTab';
@@ -40,6 +41,7 @@ import { listActivities } from '../../lib/leadActivities';
 import { resolveWorkspaceId } from '../../lib/tenancy';
 import { listDealsForLead, createDeal, setDealStage, deleteDeal, DEAL_STAGES, type Deal, type DealStage } from '../../lib/deals';
 import { listCampaigns, addLeadToCampaign, type Campaign } from '../../lib/campaigns';
+import { COMMON_TIMEZONES } from '../../lib/leadTimezone';
 import { listWorkspaceMembers, type WorkspaceMember } from '../../lib/members';
 import type { ColorToken, StageColorMap, ColorOverrideMap } from '../../lib/leadColors';
 
@@ -320,7 +322,7 @@ const LeadProfile: React.FC = () => {
 
   // ── Edit Lead ──
   const [isEditOpen, setIsEditOpen] = useState(false);
-  const [editForm, setEditForm] = useState({ name: '', email: '', company: '', phone: '', insights: '' });
+  const [editForm, setEditForm] = useState({ name: '', email: '', company: '', phone: '', insights: '', timezone: '' });
   const [editKb, setEditKb] = useState({ website: '', linkedin: '', instagram: '', facebook: '', twitter: '', youtube: '' });
   const [editKbVisible, setEditKbVisible] = useState<Set<string>>(new Set());
   const [editError, setEditError] = useState('');
@@ -334,7 +336,7 @@ const LeadProfile: React.FC = () => {
     setLoading(true);
     const { data, error } = await supabase
       .from('leads')
-      .select('id,client_id,first_name,last_name,primary_email,primary_phone,company,score,status,last_activity,insights,created_at,updated_at,knowledgeBase,emails,phones,tags,assigned_to,linkedin_url,location,title,source,industry,company_size,import_batch_id,imported_at,custom_fields')
+      .select('id,client_id,first_name,last_name,primary_email,primary_phone,company,score,status,last_activity,insights,created_at,updated_at,knowledgeBase,emails,phones,tags,assigned_to,linkedin_url,location,title,source,industry,company_size,import_batch_id,imported_at,custom_fields,timezone,inferred_timezone,inferred_timezone_source')
       .eq('id', leadId)
       .single();
     if (error) {
@@ -385,6 +387,7 @@ const LeadProfile: React.FC = () => {
       company: lead.company || '',
       phone: lead.primary_phone || (kb as Record<string, string>).phone || '',
       insights: lead.insights || '',
+      timezone: lead.timezone || '',
     });
     setEditKb({
       website: kb.website || '',
@@ -427,6 +430,7 @@ const LeadProfile: React.FC = () => {
         primary_email: editForm.email.trim(),
         company: editForm.company.trim(),
         insights: editForm.insights.trim() || '',
+        timezone: editForm.timezone || null,
       };
       if (knowledgeBase !== undefined) payload.knowledgeBase = knowledgeBase;
 
@@ -1358,6 +1362,11 @@ const LeadProfile: React.FC = () => {
                     <LeadScorePanel lead={lead} businessId={currentBusinessId} workspaceId={currentBusiness?.workspace_id ?? null} enabled={intelEnabled} />
                   </div>
                 )}
+                {intelEnabled && (
+                  <div className="md:col-span-3">
+                    <ScoreMoversCard businessId={currentBusinessId} enabled={intelEnabled} currentLeadId={lead.id} />
+                  </div>
+                )}
                 {intelEnabled && (
                   <div className="md:col-span-3">
                     <LeadResearchPanel lead={lead} businessId={currentBusinessId} workspaceId={currentBusiness?.workspace_id ?? null} userId={user.id} enabled={intelEnabled} />
@@ -2645,6 +2654,14 @@ const LeadProfile: React.FC = () => {
                 <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Phone Number</label>
                 <input type="tel" value={editForm.phone} onChange={e => setEditForm({...editForm, phone: e.target.value})} placeholder="+1 (555) 123-4567" className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none focus:border-indigo-300 transition-colors" />
               </div>
+              <div>
+                <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Timezone</label>
+                <select value={editForm.timezone} onChange={e => setEditForm({...editForm, timezone: e.target.value})} className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none focus:border-indigo-300 transition-colors">
+                  <option value="">{lead?.inferred_timezone ? `Auto — ${lead.inferred_timezone} (from ${lead.inferred_timezone_source})` : 'Auto — not detected yet'}</option>
+                  {Array.from(new Set([...(lead?.timezone ? [lead.timezone] : []), ...COMMON_TIMEZONES])).map(tz => <option key={tz} value={tz}>{tz}</option>)}
+                </select>
+                <p className="text-[11px] text-slate-400 mt-1.5">Campaign emails are timed to this zone. Auto uses the lead's location or phone number.</p>
+              </div>
               <div>
                 <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Key Insights</label>
                 <textarea rows={3} value={editForm.insights} onChange={e => setEditForm({...editForm, insights: e.target.value})} placeholder="What do we know?" className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none resize-none focus:border-indigo-300 transition-colors"></textarea>
@@ -3051,9 +3068,17 @@ const LeadProfile: React.FC = () => {
                   </div>
                   {workflowResult && (
                     <div className={`p-3 rounded-xl text-sm ${
-                      workflowResult.status === 'success' ? 'bg-emerald-50 text-emerald-700' : 'bg-rose-50 text-rose-700'
+                      workflowResult.status === 'success' ? 'bg-emerald-50 text-emerald-700'
+                        : workflowResult.status === 'failed' ? 'bg-rose-50 text-rose-700'
+                        : 'bg-amber-50 text-amber-700'
                     }`}>
-                      <p className="font-bold mb-1">{workflowResult.status === 'success' ? 'Workflow completed successfully' : 'Workflow failed'}</p>
+                      <p className="font-bold mb-1">
+                        {workflowResult.status === 'success' ? 'Workflow completed successfully'
+                          : workflowResult.status === 'failed' ? 'Workflow failed'
+                          : workflowResult.status === 'waiting'
+                            ? (workflowResult.resumesAt ? `Waiting — resumes ${new Date(workflowResult.resumesAt).toLocaleString()}` : 'Running in the background')
+                            : workflowResult.errorMessage}
+                      </p>
                       {workflowResult.steps.map((s, i) => (
                         <p key={i} className="text-xs">
                           {s.status === 'pass' ? '\u2713' : s.status === 'fail' ? '\u2717' : '\u2015'} {s.nodeTitle}: {s.message}
@@ -3069,7 +3094,7 @@ const LeadProfile: React.FC = () => {
                       setWorkflowRunning(true);
                       setWorkflowResult(null);
                       try {
-                        const results = await executeWorkflowEngine(wf, [lead]);
+                        const results = await enrollLeadsInWorkflow(wf.id, [lead]);
                         if (results[0]) setWorkflowResult(results[0]);
                       } catch (err) {
                         setWorkflowResult({
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useOutletContext } from 'react-router-dom';
-import { Mail, Plus, Shield, Trash2, Star, AlertTriangle, CheckCircle, RefreshCw, ToggleLeft, ToggleRight } from 'lucide-react';
+import { Mail, Plus, Shield, Trash2, Star, AlertTriangle, CheckCircle, RefreshCw, ToggleLeft, ToggleRight, Flame } from 'lucide-react';
 import type { User, SenderAccount, SenderProvider } from '../../types';
 import {
   listSenderAccounts,
@@ -8,9 +8,15 @@ import {
   removeSenderAccount,
   updateSenderStatus,
   toggleWarmup,
+  updateWarmupSettings,
+  getWarmupStats,
+  warmupTargetFor,
+  warmupSentToday,
   canAddInbox,
   PROVIDER_META,
   getProviderLabel,
+  type WarmupSettings,
+  type WarmupStats,
 } from '../../lib/senderAccounts';
 import { resolvePlanName } from '../../lib/credits';
 import { getOutboundLimits } from '../../lib/planLimits';
@@ -36,6 +42,9 @@ const SenderAccountsPage: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [showAddModal, setShowAddModal] = useState(false);
   const [removing, setRemoving] = useState<string | null>(null);
+  const [warmupStats, setWarmupStats] = useState<Record<string, WarmupStats>>({});
+  const [editingWarmup, setEditingWarmup] = useState<string | null>(null);
+  const [warmupDraft, setWarmupDraft] = useState<WarmupSettings | null>(null);
 
   const currentPlan = resolvePlanName(user.subscription?.plan_name || user.plan || 'Free');
   const limits = getOutboundLimits(currentPlan);
@@ -45,6 +54,9 @@ const SenderAccountsPage: React.FC = () => {
     try {
       const data = await listSenderAccounts(user.id);
       setAccounts(data);
+      if (data.some(a => a.warmup_enabled)) {
+        setWarmupStats(await getWarmupStats(user.id).catch(() => ({})));
+      }
     } catch (err) {
       console.error('Failed to load sender accounts:', err);
     } finally {
@@ -79,6 +91,24 @@ const SenderAccountsPage: React.FC = () => {
     fetchAccounts();
   };
 
+  const openWarmupSettings = (account: SenderAccount) => {
+    if (editingWarmup === account.id) { setEditingWarmup(null); return; }
+    setEditingWarmup(account.id);
+    setWarmupDraft({
+      warmup_start_volume: account.warmup_start_volume,
+      warmup_daily_increase: account.warmup_daily_increase,
+      warmup_max_volume: account.warmup_max_volume,
+      warmup_reply_rate: account.warmup_reply_rate,
+    });
+  };
+
+  const handleSaveWarmup = async (id: string) => {
+    if (!warmupDraft) return;
+    await updateWarmupSettings(id, warmupDraft);
+    setEditingWarmup(null);
+    fetchAccounts();
+  };
+
   const handleReauth = async (id: string) => {
     await updateSenderStatus(id, 'connected');
     fetchAccounts();
@@ -177,6 +207,7 @@ const SenderAccountsPage: React.FC = () => {
             const dailySent = account.daily_sent_date === new Date().toISOString().slice(0, 10)
               ? account.daily_sent_today
               : 0;
+            const warmup = warmupStats[account.id];
 
             return (
               <div
@@ -277,6 +308,81 @@ const SenderAccountsPage: React.FC = () => {
                     </button>
                   </div>
                 </div>
+
+                {/* Warm-up progress */}
+                {account.warmup_enabled && (
+                  <div className="mt-4 pt-4 border-t border-slate-100">
+                    <div className="flex flex-wrap items-center gap-x-5 gap-y-1 text-xs">
+                      <span className="flex items-center gap-1.5 font-bold text-orange-600">
+                        <Flame size={13} /> Warming up
+                      </span>
+                      <span className="text-slate-500">
+                        Today <span className="font-bold text-slate-800">{warmupSentToday(account)}/{warmupTargetFor(account)}</span>
+                      </span>
+                      <span className="text-slate-500">
+                        Inbox placement (7d){' '}
+                        <span className={`font-bold ${
+                          warmup?.inboxRate == null ? 'text-slate-400' : warmup.inboxRate >= 0.9 ? 'text-emerald-600' : warmup.inboxRate >= 0.7 ? 'text-amber-600' : 'text-red-600'
+                        }`}>
+                          {warmup?.inboxRate == null ? '—' : `${Math.round(warmup.inboxRate * 100)}%`}
+                        </span>
+                        {warmup && warmup.checked > 0 && <span className="text-slate-400"> of {warmup.checked}</span>}
+                      </span>
+                      {warmup && warmup.rescued > 0 && (
+                        <span className="text-slate-500">Rescued from spam <span className="font-bold text-slate-800">{warmup.rescued}</span></span>
+                      )}
+                      <button
+                        onClick={() => openWarmupSettings(account)}
+                        className="ml-auto text-[11px] font-bold text-indigo-600 hover:text-indigo-700"
+                      >
+                        {editingWarmup === account.id ? 'Close' : 'Ramp settings'}
+                      </button>
+                    </div>
+
+                    {editingWarmup === account.id && warmupDraft && (
+                      <div className="mt-3 grid grid-cols-2 sm:grid-cols-5 gap-3 items-end">
+                        {([
+                          ['warmup_start_volume', 'Start / day', 1, 200],
+                          ['warmup_daily_increase', 'Increase / day', 0, 50],
+                          ['warmup_max_volume', 'Max / day', 1, 200],
+                        ] as const).map(([key, label, min, max]) => (
+                          <label key={key} className="block">
+                            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{label}</span>
+                            <input
+                              type="number"
+                              min={min}
+                              max={max}
+                              value={warmupDraft[key]}
+                              onChange={e => setWarmupDraft({ ...warmupDraft, [key]: Number(e.target.value) })}
+                              className="mt-1 w-full px-2.5 py-1.5 border border-slate-200 rounded-lg text-sm"
+                            />
+                          </label>
+                        ))}
+                        <label className="block">
+                          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Reply rate %</span>
+                          <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={Math.round(warmupDraft.warmup_reply_rate * 100)}
+                            onChange={e => setWarmupDraft({ ...warmupDraft, warmup_reply_rate: Number(e.target.value) / 100 })}
+                            className="mt-1 w-full px-2.5 py-1.5 border border-slate-200 rounded-lg text-sm"
+                          />
+                        </label>
+                        <button
+                          onClick={() => handleSaveWarmup(account.id)}
+                          className="px-3 py-2 bg-indigo-600 text-white rounded-lg text-xs font-bold hover:bg-indigo-700 transition-all"
+                        >
+                          Save
+                        </button>
+                        <p className="col-span-full text-[10px] text-slate-400">
+                          Sends to your other connected inboxes, ramping from the start volume by the daily increase up to the max.
+                          Placement feeds this inbox's health score.
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
             );
           })}
@@ -7,23 +7,34 @@ import { useOutletContext } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import {
   Webhook, Plus, Trash2, Power, AlertTriangle, CheckCircle, Send, Clipboard, Check,
-  ChevronDown, ChevronRight, RefreshCw, KeyRound,
+  ChevronDown, ChevronRight, RefreshCw, KeyRound, BookOpen, Filter, History,
 } from 'lucide-react';
 import type { User } from '../../types';
 import { supabase } from '../../lib/supabase';
 import {
   listWebhookEndpoints, createWebhookEndpoint, updateWebhookEndpoint,
   deleteWebhookEndpoint, listRecentDeliveries, retryDelivery, sendTestEvent,
-  rotateWebhookSecret, WEBHOOK_EVENTS, type WebhookEndpoint,
+  rotateWebhookSecret, replayDeliveries, normalizeWebhookFilters, REPLAY_WINDOW_DAYS,
+  WEBHOOK_EVENTS, type WebhookEndpoint, type WebhookEvent, type WebhookFilters,
 } from '../../lib/webhooks';
+import {
+  WEBHOOK_EVENT_SCHEMAS, WEBHOOK_ENVELOPE_FIELDS, PAYLOAD_VERSIONS, LATEST_PAYLOAD_VERSION,
+  sampleWebhookBody, webhookFilterFields,
+} from '../../lib/webhookSchemas';
+import { describeCondition, emptyConditionGroup } from '../../lib/leadConditions';
+import { ConditionBuilder } from '../../components/leads/ConditionBuilder';
 
 interface LayoutContext { user: User }
 
 const STATUS_TONE: Record<string, string> = {
   succeeded: 'emerald', pending: 'slate', processing: 'indigo',
-  failed: 'amber', dead: 'rose',
+  failed: 'amber', dead: 'rose', skipped: 'slate',
 };
 
+/** `datetime-local` value for a Date, in the browser's zone. */
+const toLocalInput = (d: Date) =>
+  new Date(d.getTime() - d.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+
 const WebhooksPage: React.FC = () => {
   const { user } = useOutletContext<LayoutContext>();
 
@@ -125,10 +136,14 @@ expected = hmac_sha256(secret, f"{ts}.{body}")
 assert hmac.compare_digest(expected, sig)`}</code></pre>
         <p className="text-xs text-slate-500 mt-2">
           Backoff schedule: 1m → 5m → 30m → 2h → 12h → dead at 5 attempts.
-          Endpoints auto-disable after 50 consecutive failures.
+          Endpoints auto-disable after 50 consecutive failures, or 10+ with no success for 72 hours,
+          and the endpoint's creator is notified. Undelivered events wait until you re-enable it;
+          replay anything that died during the outage from the endpoint's panel.
         </p>
       </div>
 
+      <EventReference />
+
       {loading ? (
         <div className="h-24 rounded-2xl bg-slate-100 animate-pulse" />
       ) : endpoints.length === 0 ? (
@@ -147,6 +162,7 @@ assert hmac.compare_digest(expected, sig)`}</code></pre>
               onTest={() => test(e)}
               onDelete={() => remove(e)}
               onRotate={() => rotate(e)}
+              onChanged={refresh}
             />
           ))}
         </div>
@@ -184,7 +200,9 @@ const EndpointCard: React.FC<{
   onTest: () => void;
   onDelete: () => void;
   onRotate: () => void;
-}> = ({ endpoint: e, expanded, onExpand, onToggle, onTest, onDelete, onRotate }) => {
+  onChanged: () => void;
+}> = ({ endpoint: e, expanded, onExpand, onToggle, onTest, onDelete, onRotate, onChanged }) => {
+  const filterCount = Object.values(e.filters ?? {}).filter(g => g && g.rules.length > 0).length;
   return (
     <div className="rounded-2xl border border-slate-200 bg-white">
       <div className="p-4 flex items-start gap-3">
@@ -198,11 +216,26 @@ const EndpointCard: React.FC<{
               <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-emerald-50 text-emerald-700 text-[10px] font-bold">
                 <CheckCircle size={10} /> Enabled
               </span>
+            ) : e.disabled_reason === 'failing' ? (
+              <span
+                className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-rose-50 text-rose-700 text-[10px] font-bold"
+                title={e.disabled_at ? `Since ${new Date(e.disabled_at).toLocaleString()}` : undefined}
+              >
+                <AlertTriangle size={10} /> Auto-disabled — failing
+              </span>
             ) : (
               <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-slate-100 text-slate-500 text-[10px] font-bold">
                 Disabled
               </span>
             )}
+            <span className="px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 text-[10px] font-bold" title="Pinned payload version">
+              payload v{e.payload_version ?? 1}
+            </span>
+            {filterCount > 0 && (
+              <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-700 text-[10px] font-bold">
+                <Filter size={10} /> {filterCount} filter{filterCount === 1 ? '' : 's'}
+              </span>
+            )}
             {e.failure_count > 0 && (
               <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-50 text-amber-700 text-[10px] font-bold">
                 <AlertTriangle size={10} /> {e.failure_count} fails
@@ -237,7 +270,174 @@ const EndpointCard: React.FC<{
           </button>
         </div>
       </div>
-      {expanded && <DeliveriesPanel endpointId={e.id} />}
+      {expanded && (
+        <>
+          <EndpointSettings endpoint={e} onSaved={onChanged} />
+          <ReplayPanel endpoint={e} />
+          <DeliveriesPanel endpointId={e.id} />
+        </>
+      )}
+    </div>
+  );
+};
+
+// ── Filters + pinned payload version ────────────────────────────────────
+
+const EndpointSettings: React.FC<{ endpoint: WebhookEndpoint; onSaved: () => void }> = ({ endpoint: e, onSaved }) => {
+  // Events a filter can apply to: the subscription, or every event with a
+  // published schema when the endpoint takes all events.
+  const filterable = (e.event_types.length > 0 ? e.event_types : [...WEBHOOK_EVENTS])
+    .filter((t): t is WebhookEvent => !!WEBHOOK_EVENT_SCHEMAS[t as WebhookEvent]);
+  const [filters, setFilters] = useState<WebhookFilters>(e.filters ?? {});
+  const [version, setVersion] = useState<number>(e.payload_version ?? 1);
+  const [event, setEvent] = useState<WebhookEvent | ''>(filterable[0] ?? '');
+  const [saving, setSaving] = useState(false);
+
+  const group = event ? filters[event] ?? emptyConditionGroup() : null;
+  const active = Object.entries(filters).filter(([, g]) => g && g.rules.length > 0);
+
+  const save = async () => {
+    if (version !== (e.payload_version ?? 1) && !confirm(
+      `Switch this endpoint to payload v${version}?\n\n` +
+      `The body layout changes on the very next delivery, including retries and replays. ` +
+      `Make sure your receiver handles it first.`
+    )) return;
+    setSaving(true);
+    try {
+      await updateWebhookEndpoint(e.id, {
+        filters: normalizeWebhookFilters(filters, e.event_types),
+        payload_version: version,
+      });
+      onSaved();
+    } catch (err) {
+      alert((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="border-t border-slate-100 px-4 py-3 space-y-3">
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <p className="text-xs font-bold text-slate-500 uppercase tracking-wide inline-flex items-center gap-1">
+          <Filter size={11} /> Filters &amp; payload version
+        </p>
+        <label className="text-xs text-slate-600 inline-flex items-center gap-2">
+          Payload
+          <select
+            value={version}
+            onChange={(ev) => setVersion(Number(ev.target.value))}
+            className="px-2 py-1 rounded-lg border border-slate-200 text-xs"
+          >
+            {PAYLOAD_VERSIONS.map((v) => (
+              <option key={v.version} value={v.version}>{v.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {active.length > 0 && (
+        <ul className="space-y-0.5">
+          {active.map(([t, g]) => (
+            <li key={t} className="text-xs text-slate-600">
+              <span className="font-mono text-slate-800">{t}</span> only when {describeCondition(g!)}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {filterable.length === 0 ? (
+        <p className="text-xs text-slate-400 italic">None of the subscribed events publish a payload schema, so they can't be filtered.</p>
+      ) : (
+        <div className="space-y-2">
+          <select
+            value={event}
+            onChange={(ev) => setEvent(ev.target.value as WebhookEvent)}
+            className="px-2 py-1 rounded-lg border border-slate-200 text-xs font-mono"
+          >
+            {filterable.map((t) => (
+              <option key={t} value={t}>{t}{filters[t]?.rules.length ? ' •' : ''}</option>
+            ))}
+          </select>
+          {event && group && (
+            <ConditionBuilder
+              value={group}
+              onChange={(next) => setFilters((prev) => ({ ...prev, [event]: next }))}
+              fields={webhookFilterFields(event)}
+            />
+          )}
+          <p className="text-[10px] text-slate-400">
+            Deliveries whose payload doesn't match are marked <span className="font-mono">skipped</span> instead of sent.
+            Events without rules are always sent.
+          </p>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          onClick={save}
+          disabled={saving}
+          className="px-3 py-1.5 rounded-lg bg-slate-900 text-white text-xs font-semibold hover:bg-slate-800 disabled:opacity-50"
+        >
+          {saving ? 'Saving…' : 'Save settings'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// ── Bulk replay ─────────────────────────────────────────────────────────
+
+const ReplayPanel: React.FC<{ endpoint: WebhookEndpoint }> = ({ endpoint: e }) => {
+  const now = new Date();
+  const [from, setFrom] = useState(() =>
+    toLocalInput(e.last_success_at ? new Date(e.last_success_at) : new Date(now.getTime() - 24 * 3_600_000)));
+  const [to, setTo] = useState(() => toLocalInput(now));
+  const [includeDelivered, setIncludeDelivered] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const earliest = toLocalInput(new Date(now.getTime() - REPLAY_WINDOW_DAYS * 86_400_000));
+
+  const replay = async () => {
+    const range = { from: new Date(from), to: new Date(to) };
+    if (!(range.to > range.from)) { alert('Pick an end time after the start time.'); return; }
+    setBusy(true);
+    try {
+      const n = await replayDeliveries({ endpointId: e.id, ...range, includeDelivered });
+      alert(n === 0
+        ? 'Nothing to replay in that window.'
+        : `${n} deliver${n === 1 ? 'y' : 'ies'} re-queued.` +
+          (e.enabled ? '' : ' The endpoint is disabled — they will go out once you re-enable it.'));
+    } catch (err) {
+      alert((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="border-t border-slate-100 px-4 py-3 space-y-2">
+      <p className="text-xs font-bold text-slate-500 uppercase tracking-wide inline-flex items-center gap-1">
+        <History size={11} /> Replay
+      </p>
+      <div className="flex items-center gap-2 flex-wrap text-xs text-slate-600">
+        <input type="datetime-local" value={from} min={earliest} onChange={(ev) => setFrom(ev.target.value)} className="px-2 py-1 rounded-lg border border-slate-200" />
+        <span>to</span>
+        <input type="datetime-local" value={to} min={earliest} onChange={(ev) => setTo(ev.target.value)} className="px-2 py-1 rounded-lg border border-slate-200" />
+        <label className="inline-flex items-center gap-1">
+          <input type="checkbox" checked={includeDelivered} onChange={(ev) => setIncludeDelivered(ev.target.checked)} />
+          include delivered &amp; skipped
+        </label>
+        <button
+          onClick={replay}
+          disabled={busy}
+          className="px-3 py-1 rounded-lg border border-slate-200 font-semibold hover:bg-slate-50 disabled:opacity-50"
+        >
+          {busy ? 'Queuing…' : 'Replay'}
+        </button>
+      </div>
+      <p className="text-[10px] text-slate-400">
+        Re-sends failed and dead deliveries from the last {REPLAY_WINDOW_DAYS} days with their original ids, so receivers can de-duplicate.
+      </p>
     </div>
   );
 };
@@ -271,13 +471,17 @@ const DeliveriesPanel: React.FC<{ endpointId: string }> = ({ endpointId }) => {
               <div key={d.id} className="flex items-center gap-2 text-xs py-1.5 px-2 rounded hover:bg-white">
                 <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold bg-${tone}-50 text-${tone}-700 shrink-0`}>{d.status}</span>
                 <span className="font-mono text-slate-700 shrink-0">{d.event_type}</span>
+                <span className="text-slate-400 shrink-0">v{d.schema_version ?? 1}</span>
+                {d.replay_count > 0 && <span className="text-indigo-500 shrink-0" title={d.replayed_at ? `Last replayed ${new Date(d.replayed_at).toLocaleString()}` : undefined}>replayed</span>}
                 <span className="text-slate-400 shrink-0">attempt {d.attempt_count}</span>
                 {d.last_status_code != null && <span className="text-slate-400 shrink-0">HTTP {d.last_status_code}</span>}
                 <span className="text-slate-500 truncate flex-1">{d.last_error || ''}</span>
                 <span className="text-slate-400 shrink-0">{new Date(d.created_at).toLocaleString()}</span>
-                {(d.status === 'failed' || d.status === 'dead') && (
+                {(d.status === 'failed' || d.status === 'dead' || d.status === 'skipped') && (
                   <button
-                    onClick={async () => { await retryDelivery(d.id); refetch(); }}
+                    onClick={async () => {
+                      try { await retryDelivery(d.id); refetch(); } catch (err) { alert((err as Error).message); }
+                    }}
                     className="text-indigo-600 hover:underline shrink-0"
                   >
                     retry
@@ -292,6 +496,101 @@ const DeliveriesPanel: React.FC<{ endpointId: string }> = ({ endpointId }) => {
   );
 };
 
+// ── Event payload reference ────────────────────────────────────────────
+
+const EventReference: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const [event, setEvent] = useState<WebhookEvent>('email.replied');
+  const [payloadVersion, setPayloadVersion] = useState<number>(LATEST_PAYLOAD_VERSION);
+  const schema = WEBHOOK_EVENT_SCHEMAS[event];
+
+  return (
+    <div className="rounded-2xl border border-slate-200 bg-white">
+      <button onClick={() => setOpen(o => !o)} className="w-full p-4 flex items-center gap-2 text-left">
+        {open ? <ChevronDown size={16} className="text-slate-400" /> : <ChevronRight size={16} className="text-slate-400" />}
+        <BookOpen size={15} className="text-indigo-500" />
+        <span className="text-sm font-semibold text-slate-900">Event reference</span>
+        <span className="text-xs text-slate-400">payload schemas and versions</span>
+      </button>
+      {open && (
+        <div className="border-t border-slate-100 p-4 space-y-4">
+          <p className="text-xs text-slate-500">
+            A payload v1 delivery is a JSON envelope:{' '}
+            {WEBHOOK_ENVELOPE_FIELDS.map((f, i) => (
+              <React.Fragment key={f.name}>
+                {i > 0 && ', '}<code className="font-mono" title={f.description}>{f.name}</code>
+              </React.Fragment>
+            ))}.
+            Payload v2 moves the fields into <code className="font-mono">data.object</code> and the values they changed from
+            into <code className="font-mono">data.previous</code>. Each endpoint is pinned to one layout.
+            Within an event version fields are only ever added; a breaking change ships as a new version,
+            announced in <code className="font-mono">X-Scaliyo-Event-Version</code>.
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {WEBHOOK_EVENTS.map((t) => {
+              const s = WEBHOOK_EVENT_SCHEMAS[t];
+              return (
+                <button
+                  key={t}
+                  onClick={() => setEvent(t)}
+                  disabled={!s}
+                  title={s ? s.description : 'No published schema yet'}
+                  className={`px-2 py-1 rounded-lg text-[11px] font-mono border ${event === t ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'border-slate-200 text-slate-600 hover:bg-slate-50'} disabled:opacity-40`}
+                >
+                  {t}
+                </button>
+              );
+            })}
+          </div>
+          {schema && (
+            <div className="space-y-3">
+              <div>
+                <p className="text-sm font-semibold text-slate-900">
+                  <span className="font-mono">{event}</span>
+                  <span className="ml-2 px-1.5 py-0.5 rounded bg-slate-100 text-slate-600 text-[10px] font-bold">v{schema.version}</span>
+                </p>
+                <p className="text-xs text-slate-600 mt-1">{schema.description}</p>
+                <p className="text-xs text-slate-400 mt-0.5">Fired: {schema.firedWhen}</p>
+              </div>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-slate-400 uppercase tracking-wide text-[10px]">
+                    <th className="py-1 pr-3 font-bold">Field</th>
+                    <th className="py-1 pr-3 font-bold">Type</th>
+                    <th className="py-1 font-bold">Description</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {schema.fields.map((f) => (
+                    <tr key={f.name} className="border-t border-slate-100 align-top">
+                      <td className="py-1 pr-3 font-mono text-slate-800">{f.name}</td>
+                      <td className="py-1 pr-3 text-slate-500 whitespace-nowrap">{f.type}{f.nullable ? ' | null' : ''}</td>
+                      <td className="py-1 text-slate-600">{f.description}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="flex gap-1">
+                {PAYLOAD_VERSIONS.map((v) => (
+                  <button
+                    key={v.version}
+                    onClick={() => setPayloadVersion(v.version)}
+                    title={v.description}
+                    className={`px-2 py-0.5 rounded-md text-[10px] font-bold ${payloadVersion === v.version ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+                  >
+                    payload v{v.version}
+                  </button>
+                ))}
+              </div>
+              <pre className="text-[11px] bg-slate-900 text-slate-100 rounded-lg p-3 overflow-x-auto max-h-64"><code>{JSON.stringify(sampleWebhookBody(event, payloadVersion), null, 2)}</code></pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
 // ── Create-endpoint modal ──────────────────────────────────────────────
 
 const CreateModal: React.FC<{
@@ -302,6 +601,7 @@ const CreateModal: React.FC<{
   const [url, setUrl] = useState('');
   const [description, setDescription] = useState('');
   const [eventTypes, setEventTypes] = useState<string[]>([]);
+  const [payloadVersion, setPayloadVersion] = useState<number>(LATEST_PAYLOAD_VERSION);
   const [creating, setCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -318,6 +618,7 @@ const CreateModal: React.FC<{
         url: url.trim(),
         description: description.trim() || undefined,
         eventTypes,
+        payloadVersion,
       });
       onCreated(secret);
     } catch (e) {
@@ -360,13 +661,29 @@ const CreateModal: React.FC<{
           </label>
           <div className="grid grid-cols-2 gap-1 max-h-44 overflow-y-auto p-2 rounded-xl border border-slate-200">
             {WEBHOOK_EVENTS.map((t) => (
-              <label key={t} className="flex items-center gap-2 text-xs cursor-pointer p-1 rounded hover:bg-slate-50">
+              <label key={t} title={WEBHOOK_EVENT_SCHEMAS[t]?.description} className="flex items-center gap-2 text-xs cursor-pointer p-1 rounded hover:bg-slate-50">
                 <input type="checkbox" checked={eventTypes.includes(t)} onChange={() => toggleEvt(t)} />
                 <span className="font-mono">{t}</span>
               </label>
             ))}
           </div>
-          <p className="text-[10px] text-slate-400 mt-1">Select none to subscribe to all events.</p>
+          <p className="text-[10px] text-slate-400 mt-1">Select none to subscribe to all events. Filters can be added once the endpoint exists.</p>
+        </div>
+
+        <div>
+          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wide mb-1">Payload version</label>
+          <select
+            value={payloadVersion}
+            onChange={(e) => setPayloadVersion(Number(e.target.value))}
+            className="w-full px-3 py-2 rounded-xl border border-slate-200 text-sm focus:outline-none focus:border-indigo-500"
+          >
+            {PAYLOAD_VERSIONS.map((v) => (
+              <option key={v.version} value={v.version}>{v.label}</option>
+            ))}
+          </select>
+          <p className="text-[10px] text-slate-400 mt-1">
+            {PAYLOAD_VERSIONS.find((v) => v.version === payloadVersion)?.description} Pinned until you change it.
+          </p>
         </div>
 
         {error && <div className="text-sm text-rose-600 bg-rose-50 border border-rose-200 rounded-lg p-2">{error}</div>}
@@ -176,6 +176,11 @@ export interface Lead {
   import_batch_id?: string;
   imported_at?: string;
   custom_fields?: Record<string, string>;
+  /** Manual timezone override (IANA); wins over inferred_timezone for send times. */
+  timezone?: string | null;
+  /** Set by trg_leads_infer_timezone from location, phone or enrichment data. */
+  inferred_timezone?: string | null;
+  inferred_timezone_source?: 'location' | 'phone' | 'enrichment' | null;
   // ─── Legacy (deprecated — read-only, removed next release) ───
   /** @deprecated Use primary_email */ email?: string;
   /** @deprecated Use first_name + last_name */ name?: string;
@@ -720,6 +725,14 @@ export interface SenderAccount {
   daily_sent_date: string;
   warmup_enabled: boolean;
   warmup_daily_sent: number;
+  // Warmup curve (process-warmup)
+  warmup_start_volume: number;
+  warmup_daily_increase: number;
+  warmup_max_volume: number;
+  warmup_reply_rate: number;
+  warmup_started_at: string | null;
+  warmup_sent_date: string | null;
+  warmup_inbox_rate_7d: number | null;
   last_health_check_at: string | null;
   health_score: number | null;
   // Phase 3.1 health columns
@@ -5,51 +5,114 @@
 // Public-API endpoints (function names prefixed `v1-...`) call
 // authenticateApiKey() at the top of every request. It:
 //   1. Reads the `Authorization: Bearer scal_...` header
-//   2. Calls the verify_api_key() RPC (service-role, hashes server-side)
-//   3. Enforces 60 req/min in-memory rate limit per api_key_id
+//   2. Calls the verify_api_key() RPC (service-role, hashes server-side),
+//      which also checks the caller's address against the key's allowlist
+//   3. Enforces the per-key rate limit (plan tier, optionally lowered per key)
 //   4. Validates the requested scope against the key's granted scopes
 //
 // Returns the workspace_id + scopes on success, or a Response with the
-// appropriate 401/403/429 to bail with.
+// appropriate 401/403/429 to bail with. Successful calls carry
+// X-RateLimit-* headers in auth.rateLimitHeaders; endpoints pass them on
+// with every response (see withRateLimitHeaders).
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getApiRateLimit } from "./plans.ts";
+import { clientIp } from "./clientIp.ts";
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL") ?? "";
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+// Proxies in front of the function that append to X-Forwarded-For. 1 = the
+// platform proxy only; raise it when e.g. nginx also sits in front.
+const TRUSTED_PROXY_HOPS = Math.max(1, Number(Deno.env.get("API_TRUSTED_PROXY_HOPS")) || 1);
 
 // Phase 4.2 — Postgres-backed cluster-wide rate limit via consume_api_rate_limit
-// RPC. Fixed-window (1-min bucket), 60 req/min/key. Falls back to "allow"
-// on RPC failure so transient Postgres issues don't take the API offline.
-const RATE_LIMIT_PER_MIN = 60;
+// RPC. Fixed-window (1-min bucket). The limit comes from the workspace
+// owner's plan (API_RATE_LIMITS), lowered by api_keys.rate_limit_per_min when
+// set. Falls back to "allow" on RPC failure so transient Postgres issues
+// don't take the API offline.
+
+interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number | null;
+  resetAt: string | null;
+}
 
 async function checkRateLimit(
   admin: ReturnType<typeof createClient>,
   keyId: string,
-): Promise<{ allowed: boolean; resetAt: string | null }> {
+  limit: number,
+): Promise<RateLimitResult> {
   try {
     const { data, error } = await admin.rpc("consume_api_rate_limit", {
       p_key_id: keyId,
-      p_max_per_min: RATE_LIMIT_PER_MIN,
+      p_max_per_min: limit,
     });
     if (error) {
       console.warn("[api-auth] rate-limit RPC error, allowing:", error.message);
-      return { allowed: true, resetAt: null };
+      return { allowed: true, limit, remaining: null, resetAt: null };
     }
     const row = Array.isArray(data) ? data[0] : data;
+    const count = Number(row?.current_count);
     return {
       allowed: row?.allowed !== false,
+      limit,
+      remaining: Number.isFinite(count) ? Math.max(0, limit - count) : null,
       resetAt: (row?.reset_at as string | undefined) ?? null,
     };
   } catch (e) {
     console.warn("[api-auth] rate-limit threw, allowing:", (e as Error).message);
-    return { allowed: true, resetAt: null };
+    return { allowed: true, limit, remaining: null, resetAt: null };
   }
 }
 
+/** X-RateLimit-Limit / -Remaining / -Reset (reset as epoch seconds). */
+function rateLimitHeaders(rl: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = { "X-RateLimit-Limit": String(rl.limit) };
+  if (rl.remaining !== null) headers["X-RateLimit-Remaining"] = String(rl.remaining);
+  if (rl.resetAt) headers["X-RateLimit-Reset"] = String(Math.ceil(new Date(rl.resetAt).getTime() / 1000));
+  return headers;
+}
+
 export interface ApiAuth {
   apiKeyId: string;
   workspaceId: string;
+  /** Set when the key is restricted to one business. */
+  businessId: string | null;
   scopes: string[];
+  rateLimitHeaders: Record<string, string>;
+}
+
+/** CORS headers plus the request's X-RateLimit-* headers. */
+export function withRateLimitHeaders(
+  corsHeaders: Record<string, string>,
+  auth: ApiAuth,
+): Record<string, string> {
+  return { ...corsHeaders, ...auth.rateLimitHeaders };
+}
+
+/** Narrow a query on a business_id-bearing table to the key's business, if any. */
+export function scopeToBusiness<Q extends { eq(column: string, value: unknown): Q }>(q: Q, auth: ApiAuth): Q {
+  return auth.businessId ? q.eq("business_id", auth.businessId) : q;
+}
+
+/**
+ * 403 for endpoints whose tables carry no business_id, so a key restricted
+ * to one business can't read across the workspace. Null when the key is
+ * workspace-wide.
+ */
+export function rejectBusinessScopedKey(
+  auth: ApiAuth,
+  corsHeaders: Record<string, string>,
+): Response | null {
+  if (!auth.businessId) return null;
+  return new Response(
+    JSON.stringify({
+      error: "This endpoint is not available to keys restricted to a business",
+      code: "business_scope_unsupported",
+    }),
+    { status: 403, headers: { ...corsHeaders, ...auth.rateLimitHeaders, "Content-Type": "application/json" } },
+  );
 }
 
 /**
@@ -93,7 +156,10 @@ export async function authenticateApiKey(
   }
 
   const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
-  const { data, error } = await admin.rpc("verify_api_key", { p_plaintext: plaintext });
+  const { data, error } = await admin.rpc("verify_api_key", {
+    p_plaintext: plaintext,
+    p_client_ip: clientIp(req.headers, TRUSTED_PROXY_HOPS),
+  });
   if (error) {
     console.error("[api-auth] verify_api_key error:", error.message);
     return {
@@ -116,7 +182,21 @@ export async function authenticateApiKey(
     };
   }
 
-  const rl = await checkRateLimit(admin, row.api_key_id);
+  if (row.ip_allowed === false) {
+    return {
+      ok: false,
+      response: new Response(
+        JSON.stringify({ error: "Request address is not on this key's IP allowlist", code: "ip_not_allowed" }),
+        { status: 403, headers: headersJson },
+      ),
+    };
+  }
+
+  const planLimit = getApiRateLimit(row.plan as string | null);
+  const keyLimit = Number(row.rate_limit_per_min);
+  const limit = Number.isFinite(keyLimit) && keyLimit > 0 ? Math.min(planLimit, keyLimit) : planLimit;
+  const rl = await checkRateLimit(admin, row.api_key_id, limit);
+  const limitHeaders = rateLimitHeaders(rl);
   if (!rl.allowed) {
     const retryAfter = rl.resetAt
       ? Math.max(1, Math.ceil((new Date(rl.resetAt).getTime() - Date.now()) / 1000))
@@ -125,11 +205,11 @@ export async function authenticateApiKey(
       ok: false,
       response: new Response(
         JSON.stringify({
-          error: `Rate limit exceeded (${RATE_LIMIT_PER_MIN} req/min per key)`,
+          error: `Rate limit exceeded (${limit} req/min per key)`,
           code: "rate_limited",
           reset_at: rl.resetAt,
         }),
-        { status: 429, headers: { ...headersJson, "Retry-After": String(retryAfter) } },
+        { status: 429, headers: { ...headersJson, ...limitHeaders, "Retry-After": String(retryAfter) } },
       ),
     };
   }
@@ -144,7 +224,7 @@ export async function authenticateApiKey(
           code: "missing_scope",
           granted_scopes: scopes,
         }),
-        { status: 403, headers: headersJson },
+        { status: 403, headers: { ...headersJson, ...limitHeaders } },
       ),
     };
   }
@@ -154,7 +234,9 @@ export async function authenticateApiKey(
     auth: {
       apiKeyId: row.api_key_id as string,
       workspaceId: row.workspace_id as string,
+      businessId: (row.business_id as string | null) ?? null,
       scopes,
+      rateLimitHeaders: limitHeaders,
     },
   };
 }
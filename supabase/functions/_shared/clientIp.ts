@@ -0,0 +1,25 @@
+// supabase/functions/_shared/clientIp.ts
+//
+// The caller's address for the API-key IP allowlist (see api-auth.ts).
+//
+// X-Forwarded-For reads "client, proxy1, proxy2": each proxy appends the
+// address it received the request from, and everything to the left of the
+// hops our own proxies appended is whatever the caller chose to send. The
+// first entry is therefore trivially spoofed; the entry appended by the
+// outermost trusted proxy — the rightmost one behind a single platform proxy
+// — is the only one the caller cannot pick. Kept free of Deno/remote imports
+// so the client test suite can cover it.
+
+/**
+ * Address appended by the outermost of `trustedHops` proxies, or null when
+ * the header is missing or shorter than that (a key with an allowlist then
+ * refuses the call).
+ */
+export function clientIp(headers: Headers, trustedHops = 1): string | null {
+  const hops = (headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((h) => h.trim())
+    .filter(Boolean);
+  const hop = hops[hops.length - Math.max(1, Math.floor(trustedHops))];
+  return hop || null;
+}
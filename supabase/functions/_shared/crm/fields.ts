@@ -0,0 +1,217 @@
+// supabase/functions/_shared/crm/fields.ts
+//
+// Which lead fields the CRM sync moves, how their values map onto HubSpot and
+// Salesforce, and the field-level source-of-truth rules that settle a change
+// made on both sides. AuraEngine/lib/crmSync.ts carries the same tables and
+// resolver for the settings UI and its tests — keep the two in step.
+//
+// Values are compared in Scaliyo's vocabulary: status is a lead status, owner
+// is the owner's email, deal_stage is a deals.stage key.
+
+export type CrmProvider = "hubspot" | "salesforce";
+export type CrmFieldRule = "scaliyo" | "crm" | "newest";
+
+export const CRM_SYNC_FIELDS = [
+  { key: "first_name",    label: "First name", push: true },
+  { key: "last_name",     label: "Last name",  push: true },
+  { key: "primary_email", label: "Email",      push: true },
+  { key: "primary_phone", label: "Phone",      push: true },
+  { key: "company",       label: "Company",    push: true },
+  { key: "title",         label: "Job title",  push: true },
+  { key: "status",        label: "Status",     push: true },
+  { key: "owner",         label: "Owner",      push: false },
+  { key: "deal_stage",    label: "Deal stage", push: false },
+] as const;
+
+export type CrmSyncField = typeof CRM_SYNC_FIELDS[number]["key"];
+export type CrmValues = Partial<Record<CrmSyncField, string | null>>;
+
+export const DEFAULT_FIELD_RULES: Record<CrmSyncField, CrmFieldRule> = {
+  first_name: "scaliyo",
+  last_name: "scaliyo",
+  primary_email: "scaliyo",
+  primary_phone: "scaliyo",
+  company: "scaliyo",
+  title: "scaliyo",
+  status: "newest",
+  owner: "crm",
+  deal_stage: "crm",
+};
+
+export function fieldRules(raw: unknown): Record<CrmSyncField, CrmFieldRule> {
+  const rules = { ...DEFAULT_FIELD_RULES };
+  if (raw && typeof raw === "object") {
+    for (const [k, v] of Object.entries(raw as Record<string, unknown>)) {
+      if (k in rules && (v === "scaliyo" || v === "crm" || v === "newest")) rules[k as CrmSyncField] = v;
+    }
+  }
+  return rules;
+}
+
+// ── Status / stage vocabularies ─────────────────────────────────────────
+// Each status maps to one CRM value and back again, so a pushed status never
+// comes back as a different one on the next pull.
+
+export const CRM_STATUS_OUT: Record<CrmProvider, Record<string, string>> = {
+  hubspot: {
+    New: "NEW",
+    Contacted: "ATTEMPTED_TO_CONTACT",
+    Qualified: "OPEN_DEAL",
+    Converted: "CONNECTED",
+    Lost: "UNQUALIFIED",
+  },
+  salesforce: {
+    New: "Open - Not Contacted",
+    Contacted: "Working - Contacted",
+    Qualified: "Qualified",
+    Converted: "Closed - Converted",
+    Lost: "Closed - Not Converted",
+  },
+};
+
+const CRM_STATUS_IN: Record<CrmProvider, Record<string, string>> = {
+  hubspot: {
+    NEW: "New",
+    OPEN: "New",
+    ATTEMPTED_TO_CONTACT: "Contacted",
+    IN_PROGRESS: "Contacted",
+    BAD_TIMING: "Contacted",
+    OPEN_DEAL: "Qualified",
+    CONNECTED: "Converted",
+    UNQUALIFIED: "Lost",
+  },
+  salesforce: {
+    "Open - Not Contacted": "New",
+    "Working - Contacted": "Contacted",
+    Qualified: "Qualified",
+    "Closed - Converted": "Converted",
+    "Closed - Not Converted": "Lost",
+  },
+};
+
+/** CRM status → lead status; null for values with no counterpart. */
+export function statusFromCrm(provider: CrmProvider, value: string | null | undefined): string | null {
+  return value ? CRM_STATUS_IN[provider][value] ?? null : null;
+}
+
+// HubSpot's default sales pipeline and Salesforce's standard opportunity
+// stages. Custom stages have no mapping and are left alone.
+const CRM_STAGE_IN: Record<CrmProvider, Record<string, string>> = {
+  hubspot: {
+    appointmentscheduled: "discovery",
+    qualifiedtobuy: "qualified",
+    presentationscheduled: "proposal",
+    decisionmakerboughtin: "proposal",
+    contractsent: "negotiation",
+    closedwon: "won",
+    closedlost: "lost",
+  },
+  salesforce: {
+    Prospecting: "discovery",
+    Qualification: "qualified",
+    "Needs Analysis": "qualified",
+    "Value Proposition": "proposal",
+    "Id. Decision Makers": "proposal",
+    "Perception Analysis": "proposal",
+    "Proposal/Price Quote": "proposal",
+    "Negotiation/Review": "negotiation",
+    "Closed Won": "won",
+    "Closed Lost": "lost",
+  },
+};
+
+export function dealStageFromCrm(provider: CrmProvider, value: string | null | undefined): string | null {
+  return value ? CRM_STAGE_IN[provider][value] ?? null : null;
+}
+
+// ── Conflict resolution ─────────────────────────────────────────────────
+
+export interface FieldChange {
+  field: CrmSyncField;
+  from: string | null;
+  to: string | null;
+  /** Side whose value stands after this sync. */
+  winner: "scaliyo" | "crm";
+  /** Both sides changed the field since the last sync. */
+  conflict: boolean;
+  applied: boolean;
+  note?: string;
+}
+
+export function normalizeValue(field: CrmSyncField, value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const s = String(value).trim();
+  if (!s) return null;
+  return field === "primary_email" || field === "owner" ? s.toLowerCase() : s;
+}
+
+/**
+ * Decide what a pull changes on the lead. Only fields the CRM changed since
+ * the last sync are considered, and an empty CRM value never clears ours.
+ *   crm      the CRM value is applied
+ *   scaliyo  ours stands (the next push writes it back over the CRM's)
+ *   newest   applied unless we also changed it, later than the CRM did
+ */
+export function resolvePull(opts: {
+  rules: Record<CrmSyncField, CrmFieldRule>;
+  local: CrmValues;
+  remote: CrmValues;
+  synced: CrmValues;
+  localUpdatedAt: string | null;
+  remoteUpdatedAt: string | null;
+}): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const { key } of CRM_SYNC_FIELDS) {
+    if (!(key in opts.remote)) continue;
+    const remote = normalizeValue(key, opts.remote[key]);
+    const local = normalizeValue(key, opts.local[key]);
+    if (remote === null || remote === local) continue;
+
+    const synced = key in opts.synced ? normalizeValue(key, opts.synced[key]) : undefined;
+    if (synced !== undefined && remote === synced) continue; // only our side moved — a push matter
+    const localChanged = synced !== undefined && local !== synced;
+
+    const rule = opts.rules[key];
+    let apply: boolean;
+    if (rule === "crm") apply = true;
+    else if (rule === "scaliyo") apply = false;
+    else if (!localChanged) apply = true;
+    else {
+      const localAt = opts.localUpdatedAt ? Date.parse(opts.localUpdatedAt) : 0;
+      const remoteAt = opts.remoteUpdatedAt ? Date.parse(opts.remoteUpdatedAt) : 0;
+      apply = remoteAt > localAt;
+    }
+    changes.push({
+      field: key,
+      from: local,
+      to: remote,
+      winner: apply ? "crm" : "scaliyo",
+      conflict: localChanged,
+      applied: apply,
+    });
+  }
+  return changes;
+}
+
+/**
+ * Fields a push sends. A new CRM record gets every non-empty pushable field;
+ * an existing one gets the fields we changed since the last sync, except
+ * those the CRM owns.
+ */
+export function resolvePush(opts: {
+  rules: Record<CrmSyncField, CrmFieldRule>;
+  local: CrmValues;
+  synced: CrmValues;
+  isNew: boolean;
+}): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const { key, push } of CRM_SYNC_FIELDS) {
+    if (!push) continue;
+    const local = normalizeValue(key, opts.local[key]);
+    if (local === null) continue;
+    const synced = normalizeValue(key, opts.synced[key]);
+    if (!opts.isNew && (opts.rules[key] === "crm" || local === synced)) continue;
+    changes.push({ field: key, from: synced, to: local, winner: "scaliyo", conflict: false, applied: true });
+  }
+  return changes;
+}
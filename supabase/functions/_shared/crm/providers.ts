@@ -0,0 +1,422 @@
+// supabase/functions/_shared/crm/providers.ts
+//
+// Thin HubSpot / Salesforce clients for the CRM sync. Both speak Scaliyo's
+// field vocabulary (fields.ts) on the way in and out, so sync.ts never sees a
+// provider property name.
+//
+//   HubSpot     contacts (private-app token in credentials.apiKey). Pulls also
+//               read deals changed since the cursor and hand their stage to the
+//               associated contacts; owners resolve to their email.
+//   Salesforce  Lead sobject (credentials.instanceUrl + accessToken). Deal
+//               stage is the converted opportunity's StageName.
+//
+// changedSince reads record and deal changes as two feeds and hands back the
+// cursor with the records (nextCursor), so a feed cut off at the limit is
+// picked up again where it stopped.
+
+import {
+  CRM_STATUS_OUT,
+  dealStageFromCrm,
+  statusFromCrm,
+  type CrmProvider,
+  type CrmValues,
+} from "./fields.ts";
+
+export interface CrmRecord {
+  externalId: string;
+  values: CrmValues;
+  /** Latest modification of the record (or its deal) on the CRM side. */
+  updatedAt: string | null;
+}
+
+export interface CrmChanges {
+  records: CrmRecord[];
+  /** Where the next pull starts; null when nothing changed. */
+  cursor: string | null;
+}
+
+export interface CrmClient {
+  provider: CrmProvider;
+  findByEmail(email: string): Promise<string | null>;
+  create(values: CrmValues): Promise<string>;
+  update(externalId: string, values: CrmValues): Promise<void>;
+  /** Records changed at or after `since`, reading at most `limit` per source. */
+  changedSince(since: string, limit: number): Promise<CrmChanges>;
+}
+
+const PAGE_SIZE = 100;
+
+/** Error bodies: HubSpot sends one object, Salesforce an array of them. */
+interface ApiMessage {
+  message?: string;
+}
+
+async function readJson(res: Response): Promise<unknown> {
+  const text = await res.text();
+  if (!text) return {};
+  try { return JSON.parse(text); } catch { return { message: text.slice(0, 200) }; }
+}
+
+function apiError(label: string, res: Response, data: unknown): Error {
+  const msg = Array.isArray(data)
+    ? (data as ApiMessage[]).map((e) => e?.message).filter(Boolean).join("; ")
+    : (data as ApiMessage | null)?.message ?? "";
+  return new Error(`${label} ${res.status}${msg ? `: ${msg}` : ""}`);
+}
+
+function later(a: string | null, b: string | null): string | null {
+  if (!a) return b;
+  if (!b) return a;
+  return Date.parse(b) > Date.parse(a) ? b : a;
+}
+
+function earlier(a: string | null, b: string | null): string | null {
+  if (!a) return b;
+  if (!b) return a;
+  return Date.parse(b) < Date.parse(a) ? b : a;
+}
+
+/** One change feed read oldest first by `stamps`' field, up to a limit. */
+interface FeedRead {
+  stamps: (string | null)[];
+  truncated: boolean;
+}
+
+/**
+ * Cursor after reading several feeds. A truncated feed has unread changes
+ * after its last stamp, so the cursor stops at the earliest such point even
+ * when another feed got further; otherwise every feed is exhausted and the
+ * cursor moves to the newest change seen.
+ */
+function nextCursor(feeds: FeedRead[]): string | null {
+  let cut: string | null = null;
+  let newest: string | null = null;
+  for (const feed of feeds) {
+    const stamps = feed.stamps.filter((t): t is string => !!t);
+    const last = stamps.length > 0 ? stamps[stamps.length - 1] : null;
+    if (feed.truncated) cut = earlier(cut, last);
+    for (const t of stamps) newest = later(newest, t);
+  }
+  return cut ?? newest;
+}
+
+// ── HubSpot ─────────────────────────────────────────────────────────────
+
+const HUBSPOT_API = "https://api.hubapi.com";
+
+interface HubSpotObject {
+  id: string;
+  updatedAt?: string;
+  properties?: Record<string, string | null | undefined>;
+}
+
+interface HubSpotSearchPage {
+  results?: HubSpotObject[];
+  paging?: { next?: { after?: string } };
+}
+
+interface HubSpotAssociations {
+  results?: { from?: { id?: string }; to?: { toObjectId: string | number }[] }[];
+}
+
+const HUBSPOT_PROPS: Record<string, string> = {
+  first_name: "firstname",
+  last_name: "lastname",
+  primary_email: "email",
+  primary_phone: "phone",
+  company: "company",
+  title: "jobtitle",
+  status: "hs_lead_status",
+};
+
+function hubspotClient(apiKey: string): CrmClient {
+  const owners = new Map<string, string | null>();
+
+  async function call<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const res = await fetch(`${HUBSPOT_API}${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data = await readJson(res);
+    if (!res.ok) throw apiError("HubSpot", res, data);
+    return data as T;
+  }
+
+  function toProperties(values: CrmValues): Record<string, string> {
+    const props: Record<string, string> = {};
+    for (const [field, value] of Object.entries(values)) {
+      const prop = HUBSPOT_PROPS[field];
+      if (!prop || value == null) continue;
+      props[prop] = field === "status" ? CRM_STATUS_OUT.hubspot[value] ?? value : value;
+    }
+    return props;
+  }
+
+  async function ownerEmail(ownerId: string | null | undefined): Promise<string | null> {
+    if (!ownerId) return null;
+    if (!owners.has(ownerId)) {
+      try {
+        const owner = await call<{ email?: string | null }>("GET", `/crm/v3/owners/${encodeURIComponent(ownerId)}`);
+        owners.set(ownerId, owner.email ?? null);
+      } catch {
+        owners.set(ownerId, null);
+      }
+    }
+    return owners.get(ownerId) ?? null;
+  }
+
+  async function search(
+    object: string, filterProp: string, since: string, properties: string[], limit: number,
+  ): Promise<HubSpotObject[]> {
+    const out: HubSpotObject[] = [];
+    let after: string | undefined;
+    while (out.length < limit) {
+      const page = await call<HubSpotSearchPage>("POST", `/crm/v3/objects/${object}/search`, {
+        filterGroups: [{ filters: [{ propertyName: filterProp, operator: "GTE", value: String(Date.parse(since)) }] }],
+        sorts: [{ propertyName: filterProp, direction: "ASCENDING" }],
+        properties,
+        limit: Math.min(PAGE_SIZE, limit - out.length),
+        ...(after ? { after } : {}),
+      });
+      out.push(...(page.results ?? []));
+      after = page.paging?.next?.after;
+      if (!after) break;
+    }
+    return out;
+  }
+
+  return {
+    provider: "hubspot",
+
+    async findByEmail(email) {
+      const data = await call<HubSpotSearchPage>("POST", "/crm/v3/objects/contacts/search", {
+        filterGroups: [{ filters: [{ propertyName: "email", operator: "EQ", value: email }] }],
+        properties: ["email"],
+        limit: 1,
+      });
+      return data.results?.[0]?.id ?? null;
+    },
+
+    async create(values) {
+      const data = await call<HubSpotObject>("POST", "/crm/v3/objects/contacts", { properties: toProperties(values) });
+      return String(data.id);
+    },
+
+    async update(externalId, values) {
+      await call<unknown>("PATCH", `/crm/v3/objects/contacts/${encodeURIComponent(externalId)}`, { properties: toProperties(values) });
+    },
+
+    async changedSince(since, limit) {
+      const records = new Map<string, CrmRecord>();
+
+      // Contacts and deals are separate feeds, each read up to `limit`.
+      const contacts = await search(
+        "contacts", "lastmodifieddate", since,
+        [...Object.values(HUBSPOT_PROPS), "hubspot_owner_id", "lastmodifieddate"], limit,
+      );
+      for (const c of contacts) {
+        const p = c.properties ?? {};
+        records.set(String(c.id), {
+          externalId: String(c.id),
+          values: {
+            first_name: p.firstname ?? null,
+            last_name: p.lastname ?? null,
+            primary_email: p.email ?? null,
+            primary_phone: p.phone ?? null,
+            company: p.company ?? null,
+            title: p.jobtitle ?? null,
+            status: statusFromCrm("hubspot", p.hs_lead_status),
+            owner: await ownerEmail(p.hubspot_owner_id),
+          },
+          updatedAt: p.lastmodifieddate ?? c.updatedAt ?? null,
+        });
+      }
+
+      const deals = await search("deals", "hs_lastmodifieddate", since, ["dealstage", "hs_lastmodifieddate"], limit);
+      if (deals.length > 0) {
+        const assoc = await call<HubSpotAssociations>("POST", "/crm/v4/associations/deals/contacts/batch/read", {
+          inputs: deals.map((d) => ({ id: String(d.id) })),
+        });
+        const byDeal = new Map(deals.map((d) => [String(d.id), d]));
+        for (const row of assoc.results ?? []) {
+          const deal = byDeal.get(String(row.from?.id));
+          const stage = dealStageFromCrm("hubspot", deal?.properties?.dealstage);
+          if (!deal || !stage) continue;
+          const dealAt = deal.properties?.hs_lastmodifieddate ?? deal.updatedAt ?? null;
+          for (const to of row.to ?? []) {
+            const id = String(to.toObjectId);
+            const rec = records.get(id) ?? { externalId: id, values: {}, updatedAt: null };
+            rec.values.deal_stage = stage;
+            rec.updatedAt = later(rec.updatedAt, dealAt);
+            records.set(id, rec);
+          }
+        }
+      }
+
+      return {
+        records: [...records.values()]
+          .sort((a, b) => Date.parse(a.updatedAt ?? "") - Date.parse(b.updatedAt ?? "")),
+        cursor: nextCursor([
+          {
+            stamps: contacts.map((c) => c.properties?.lastmodifieddate ?? c.updatedAt ?? null),
+            truncated: contacts.length >= limit,
+          },
+          {
+            stamps: deals.map((d) => d.properties?.hs_lastmodifieddate ?? d.updatedAt ?? null),
+            truncated: deals.length >= limit,
+          },
+        ]),
+      };
+    },
+  };
+}
+
+// ── Salesforce ──────────────────────────────────────────────────────────
+
+const SALESFORCE_FIELDS: Record<string, string> = {
+  first_name: "FirstName",
+  last_name: "LastName",
+  primary_email: "Email",
+  primary_phone: "Phone",
+  company: "Company",
+  title: "Title",
+  status: "Status",
+};
+
+interface SalesforceLead {
+  Id: string;
+  FirstName?: string | null;
+  LastName?: string | null;
+  Email?: string | null;
+  Phone?: string | null;
+  Company?: string | null;
+  Title?: string | null;
+  Status?: string | null;
+  LastModifiedDate?: string | null;
+  Owner?: { Email?: string | null } | null;
+  ConvertedOpportunity?: { StageName?: string | null; LastModifiedDate?: string | null } | null;
+}
+
+interface SalesforceQueryPage<T> {
+  records?: T[];
+  done?: boolean;
+  nextRecordsUrl?: string;
+}
+
+function soqlString(value: string): string {
+  return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+/** SOQL datetime literals take no quotes and no milliseconds. */
+function soqlDateTime(iso: string): string {
+  return new Date(iso).toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+function salesforceClient(instanceUrl: string, accessToken: string): CrmClient {
+  const base = `${instanceUrl.replace(/\/$/, "")}/services/data/v59.0`;
+
+  async function call<T>(method: string, url: string, body?: unknown): Promise<T> {
+    const res = await fetch(url.startsWith("http") ? url : `${instanceUrl.replace(/\/$/, "")}${url}`, {
+      method,
+      headers: { Authorization: `Bearer ${accessToken}`, "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data = await readJson(res);
+    if (!res.ok) throw apiError("Salesforce", res, data);
+    return data as T;
+  }
+
+  function toFields(values: CrmValues): Record<string, string> {
+    const fields: Record<string, string> = {};
+    for (const [field, value] of Object.entries(values)) {
+      const name = SALESFORCE_FIELDS[field];
+      if (!name || value == null) continue;
+      fields[name] = field === "status" ? CRM_STATUS_OUT.salesforce[value] ?? value : value;
+    }
+    return fields;
+  }
+
+  async function query(stampField: string, at: string, limit: number): Promise<SalesforceLead[]> {
+    const q = "SELECT Id, FirstName, LastName, Email, Phone, Company, Title, Status, Owner.Email, " +
+      "ConvertedOpportunity.StageName, ConvertedOpportunity.LastModifiedDate, LastModifiedDate " +
+      `FROM Lead WHERE ${stampField} >= ${at} ORDER BY ${stampField} ASC LIMIT ${limit}`;
+    const rows: SalesforceLead[] = [];
+    let page = await call<SalesforceQueryPage<SalesforceLead>>("GET", `${base}/query?q=${encodeURIComponent(q)}`);
+    while (true) {
+      rows.push(...(page.records ?? []));
+      if (page.done || !page.nextRecordsUrl || rows.length >= limit) break;
+      page = await call<SalesforceQueryPage<SalesforceLead>>("GET", page.nextRecordsUrl);
+    }
+    return rows.slice(0, limit);
+  }
+
+  return {
+    provider: "salesforce",
+
+    async findByEmail(email) {
+      const q = `SELECT Id FROM Lead WHERE Email = ${soqlString(email)} AND IsConverted = false LIMIT 1`;
+      const data = await call<SalesforceQueryPage<{ Id: string }>>("GET", `${base}/query?q=${encodeURIComponent(q)}`);
+      return data.records?.[0]?.Id ?? null;
+    },
+
+    async create(values) {
+      const fields = toFields(values);
+      // LastName and Company are required on a Salesforce Lead.
+      fields.LastName ??= values.primary_email ?? "Unknown";
+      fields.Company ??= "Unknown";
+      const data = await call<{ id: string }>("POST", `${base}/sobjects/Lead`, fields);
+      return String(data.id);
+    },
+
+    async update(externalId, values) {
+      await call<unknown>("PATCH", `${base}/sobjects/Lead/${encodeURIComponent(externalId)}`, toFields(values));
+    },
+
+    async changedSince(since, limit) {
+      // Lead edits and opportunity edits are separate feeds, each filtered,
+      // ordered and cut off by its own LastModifiedDate.
+      const at = soqlDateTime(since);
+      const leads = await query("LastModifiedDate", at, limit);
+      const opportunities = await query("ConvertedOpportunity.LastModifiedDate", at, limit);
+
+      const records = new Map<string, CrmRecord>();
+      for (const r of [...leads, ...opportunities]) {
+        if (records.has(String(r.Id))) continue;
+        records.set(String(r.Id), {
+          externalId: String(r.Id),
+          values: {
+            first_name: r.FirstName ?? null,
+            last_name: r.LastName ?? null,
+            primary_email: r.Email ?? null,
+            primary_phone: r.Phone ?? null,
+            company: r.Company ?? null,
+            title: r.Title ?? null,
+            status: statusFromCrm("salesforce", r.Status),
+            owner: r.Owner?.Email ?? null,
+            deal_stage: dealStageFromCrm("salesforce", r.ConvertedOpportunity?.StageName),
+          },
+          updatedAt: later(r.LastModifiedDate ?? null, r.ConvertedOpportunity?.LastModifiedDate ?? null),
+        });
+      }
+
+      return {
+        records: [...records.values()]
+          .sort((a, b) => Date.parse(a.updatedAt ?? "") - Date.parse(b.updatedAt ?? "")),
+        cursor: nextCursor([
+          { stamps: leads.map((r) => r.LastModifiedDate ?? null), truncated: leads.length >= limit },
+          {
+            stamps: opportunities.map((r) => r.ConvertedOpportunity?.LastModifiedDate ?? null),
+            truncated: opportunities.length >= limit,
+          },
+        ]),
+      };
+    },
+  };
+}
+
+/** Client for decrypted integration credentials, or null when they are incomplete. */
+export function crmClient(provider: CrmProvider, creds: Record<string, string>): CrmClient | null {
+  if (provider === "hubspot") return creds.apiKey ? hubspotClient(creds.apiKey) : null;
+  return creds.instanceUrl && creds.accessToken ? salesforceClient(creds.instanceUrl, creds.accessToken) : null;
+}
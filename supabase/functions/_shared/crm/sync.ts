@@ -0,0 +1,465 @@
+// supabase/functions/_shared/crm/sync.ts
+//
+// The CRM sync itself, shared by the crm-sync edge function and the sync_crm
+// workflow node.
+//
+//   push  A lead with no crm_record_links row for this owner is matched to
+//         an existing CRM record by email and linked, or created. A linked
+//         lead sends only the fields it changed since the last sync
+//         (resolvePush).
+//   pull  Records the CRM changed since the cursor are matched to linked
+//         leads; resolvePull decides field by field what lands on the lead.
+//         CRM records with no linked lead are not imported.
+//
+// Every record touched gets a crm_sync_log row, except scheduled pushes that
+// found nothing to send. A pass holds a lease on its crm_sync_settings row
+// (claim_crm_sync), so the cron and a manual "sync now" never pull the same
+// connection at once.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { decryptCredentials } from "../tokenCrypto.ts";
+import {
+  CRM_SYNC_FIELDS,
+  fieldRules,
+  normalizeValue,
+  resolvePull,
+  resolvePush,
+  type CrmFieldRule,
+  type CrmProvider,
+  type CrmSyncField,
+  type CrmValues,
+  type FieldChange,
+} from "./fields.ts";
+import { crmClient, type CrmClient } from "./providers.ts";
+
+type Admin = ReturnType<typeof createClient>;
+
+export type SyncSource = "schedule" | "manual" | "workflow";
+export type SyncOutcome = "created" | "linked" | "updated" | "unchanged" | "skipped" | "failed";
+
+export interface CrmSession {
+  admin: Admin;
+  ownerId: string;
+  provider: CrmProvider;
+  client: CrmClient;
+  rules: Record<CrmSyncField, CrmFieldRule>;
+  runId: string;
+  source: SyncSource;
+}
+
+export interface PushResult {
+  leadId: string;
+  outcome: SyncOutcome;
+  externalId: string | null;
+  changes: FieldChange[];
+  error?: string;
+}
+
+export interface PullResult {
+  seen: number;
+  updated: number;
+  /** Cursor for the next pull; held at the first record that failed to apply so it is read again. */
+  cursor: string;
+}
+
+const LEAD_COLS = "id, workspace_id, updated_at, assigned_to, first_name, last_name, primary_email, primary_phone, company, title, status";
+const LEAD_FIELDS = ["first_name", "last_name", "primary_email", "primary_phone", "company", "title", "status"] as const;
+/** Matches DEAL_STAGES in AuraEngine/lib/deals.ts. */
+const STAGE_PROBABILITY: Record<string, number> = {
+  discovery: 10, qualified: 25, proposal: 50, negotiation: 75, won: 100, lost: 0,
+};
+const PULL_LIMIT = 500;
+const PUSH_BATCH = 200;
+
+interface LinkRow {
+  id: string;
+  lead_id: string;
+  external_id: string;
+  synced_values: CrmValues;
+}
+
+interface LeadRow {
+  id: string;
+  workspace_id: string;
+  updated_at: string | null;
+  assigned_to: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  primary_email: string | null;
+  primary_phone: string | null;
+  company: string | null;
+  title: string | null;
+  status: string | null;
+}
+
+/**
+ * Connects to the owner's CRM with their saved field rules. Null when the
+ * integration is missing, disconnected or lacks credentials.
+ */
+export async function openSession(admin: Admin, ownerId: string, provider: CrmProvider, source: SyncSource): Promise<CrmSession | null> {
+  const { data: integration } = await admin
+    .from("integrations")
+    .select("status, credentials")
+    .eq("owner_id", ownerId)
+    .eq("provider", provider)
+    .limit(1)
+    .maybeSingle();
+  if (!integration || integration.status !== "connected") return null;
+  const creds = ((await decryptCredentials(admin, integration.credentials)) ?? {}) as Record<string, string>;
+  const client = crmClient(provider, creds);
+  if (!client) return null;
+
+  const { data: settings } = await admin
+    .from("crm_sync_settings")
+    .select("field_rules")
+    .eq("owner_id", ownerId)
+    .eq("provider", provider)
+    .maybeSingle();
+
+  return {
+    admin, ownerId, provider, client,
+    rules: fieldRules(settings?.field_rules),
+    runId: crypto.randomUUID(),
+    source,
+  };
+}
+
+async function writeLog(s: CrmSession, row: {
+  direction: "push" | "pull";
+  workspaceId: string | null;
+  leadId: string | null;
+  externalId: string | null;
+  outcome: SyncOutcome;
+  changes: FieldChange[];
+  error?: string | null;
+}) {
+  const { error } = await s.admin.from("crm_sync_log").insert({
+    run_id: s.runId,
+    owner_id: s.ownerId,
+    workspace_id: row.workspaceId,
+    provider: s.provider,
+    direction: row.direction,
+    source: s.source,
+    lead_id: row.leadId,
+    external_id: row.externalId,
+    outcome: row.outcome,
+    changes: row.changes,
+    error: row.error ? row.error.slice(0, 500) : null,
+  });
+  if (error) console.error("[crm-sync] log insert failed:", error.message);
+}
+
+function leadValues(lead: LeadRow): CrmValues {
+  const values: CrmValues = {};
+  for (const f of LEAD_FIELDS) values[f] = lead[f] ?? null;
+  return values;
+}
+
+function valuesOf(changes: FieldChange[]): CrmValues {
+  const values: CrmValues = {};
+  for (const c of changes) values[c.field] = c.to;
+  return values;
+}
+
+// ── Push ────────────────────────────────────────────────────────────────
+
+async function pushLead(s: CrmSession, lead: LeadRow, link: LinkRow | null): Promise<PushResult> {
+  const local = leadValues(lead);
+  const now = new Date().toISOString();
+
+  if (link) {
+    const changes = resolvePush({ rules: s.rules, local, synced: link.synced_values ?? {}, isNew: false });
+    if (changes.length > 0) await s.client.update(link.external_id, valuesOf(changes));
+    await s.admin.from("crm_record_links").update({
+      synced_values: { ...(link.synced_values ?? {}), ...valuesOf(changes) },
+      needs_push: false,
+      last_pushed_at: changes.length > 0 ? now : undefined,
+      updated_at: now,
+    }).eq("id", link.id);
+    return { leadId: lead.id, outcome: changes.length > 0 ? "updated" : "unchanged", externalId: link.external_id, changes };
+  }
+
+  // No link yet: adopt a record the CRM already has for this email.
+  const email = normalizeValue("primary_email", lead.primary_email);
+  let externalId = email ? await s.client.findByEmail(email) : null;
+  let outcome: SyncOutcome;
+  let changes: FieldChange[];
+  if (externalId) {
+    const { data: taken } = await s.admin
+      .from("crm_record_links")
+      .select("lead_id")
+      .eq("owner_id", s.ownerId)
+      .eq("provider", s.provider)
+      .eq("external_id", externalId)
+      .maybeSingle();
+    if (taken) {
+      return {
+        leadId: lead.id, outcome: "skipped", externalId, changes: [],
+        error: "The matching CRM record is already linked to another lead",
+      };
+    }
+    changes = resolvePush({ rules: s.rules, local, synced: {}, isNew: false });
+    if (changes.length > 0) await s.client.update(externalId, valuesOf(changes));
+    outcome = "linked";
+  } else {
+    changes = resolvePush({ rules: s.rules, local, synced: {}, isNew: true });
+    externalId = await s.client.create(valuesOf(changes));
+    outcome = "created";
+  }
+
+  const { error } = await s.admin.from("crm_record_links").insert({
+    workspace_id: lead.workspace_id,
+    owner_id: s.ownerId,
+    lead_id: lead.id,
+    provider: s.provider,
+    external_id: externalId,
+    synced_values: valuesOf(changes),
+    last_pushed_at: now,
+  });
+  if (error) throw new Error(`Saved to ${s.provider} (ID: ${externalId}) but the link could not be stored: ${error.message}`);
+  return { leadId: lead.id, outcome, externalId, changes };
+}
+
+/** Pushes the given leads, linking or creating CRM records as needed. */
+export async function pushLeads(s: CrmSession, leadIds: string[]): Promise<PushResult[]> {
+  const results: PushResult[] = [];
+  if (leadIds.length === 0) return results;
+
+  const [{ data: leads }, { data: links }] = await Promise.all([
+    s.admin.from("leads").select(LEAD_COLS).in("id", leadIds),
+    s.admin.from("crm_record_links")
+      .select("id, lead_id, external_id, synced_values")
+      .eq("owner_id", s.ownerId)
+      .eq("provider", s.provider)
+      .in("lead_id", leadIds),
+  ]);
+  const linkByLead = new Map(((links ?? []) as LinkRow[]).map((l) => [l.lead_id, l]));
+
+  for (const lead of (leads ?? []) as LeadRow[]) {
+    let result: PushResult;
+    try {
+      result = await pushLead(s, lead, linkByLead.get(lead.id) ?? null);
+    } catch (err) {
+      result = {
+        leadId: lead.id, outcome: "failed", externalId: linkByLead.get(lead.id)?.external_id ?? null, changes: [],
+        error: err instanceof Error ? err.message : String(err),
+      };
+    }
+    results.push(result);
+    if (s.source === "schedule" && result.outcome === "unchanged") continue;
+    await writeLog(s, {
+      direction: "push",
+      workspaceId: lead.workspace_id,
+      leadId: lead.id,
+      externalId: result.externalId,
+      outcome: result.outcome,
+      changes: result.changes,
+      error: result.error,
+    });
+  }
+  return results;
+}
+
+/** Pushes every linked lead whose synced columns changed since its last push. */
+export async function pushPending(s: CrmSession): Promise<PushResult[]> {
+  const { data } = await s.admin
+    .from("crm_record_links")
+    .select("lead_id")
+    .eq("owner_id", s.ownerId)
+    .eq("provider", s.provider)
+    .eq("needs_push", true)
+    .limit(PUSH_BATCH);
+  return pushLeads(s, ((data ?? []) as { lead_id: string }[]).map((r) => r.lead_id));
+}
+
+// ── Pull ────────────────────────────────────────────────────────────────
+
+/** Applies CRM-side changes since `since` to linked leads. */
+export async function pullChanges(s: CrmSession, since: string): Promise<PullResult> {
+  const { records, cursor } = await s.client.changedSince(since, PULL_LIMIT);
+  const result: PullResult = { seen: records.length, updated: 0, cursor: cursor ?? since };
+  if (records.length === 0) return result;
+  let firstFailure: string | null = null;
+
+  const { data: linkRows } = await s.admin
+    .from("crm_record_links")
+    .select("id, lead_id, external_id, synced_values")
+    .eq("owner_id", s.ownerId)
+    .eq("provider", s.provider)
+    .in("external_id", records.map((r) => r.externalId));
+  const links = new Map(((linkRows ?? []) as LinkRow[]).map((l) => [l.external_id, l]));
+  if (links.size === 0) return result;
+
+  const { data: leadRows } = await s.admin
+    .from("leads").select(LEAD_COLS).in("id", [...links.values()].map((l) => l.lead_id));
+  const leads = new Map(((leadRows ?? []) as LeadRow[]).map((l) => [l.id, l]));
+
+  // Owners are compared by email: the CRM's owner against the assignee's.
+  const assignees = [...new Set([...leads.values()].map((l) => l.assigned_to).filter(Boolean))];
+  const { data: assigneeRows } = assignees.length > 0
+    ? await s.admin.from("profiles").select("id, email").in("id", assignees)
+    : { data: [] };
+  const emailById = new Map(((assigneeRows ?? []) as { id: string; email: string | null }[]).map((p) => [p.id, p.email]));
+
+  for (const record of records) {
+    const link = links.get(record.externalId);
+    const lead = link ? leads.get(link.lead_id) : undefined;
+    if (!link || !lead) continue;
+
+    const local: CrmValues = {
+      ...leadValues(lead),
+      owner: lead.assigned_to ? emailById.get(lead.assigned_to) ?? null : null,
+    };
+    let deal: { id: string; stage: string } | null = null;
+    if (record.values.deal_stage) {
+      const { data } = await s.admin
+        .from("deals").select("id, stage").eq("lead_id", lead.id)
+        .order("updated_at", { ascending: false }).limit(1).maybeSingle();
+      deal = data as { id: string; stage: string } | null;
+      local.deal_stage = deal?.stage ?? null;
+    }
+
+    const changes = resolvePull({
+      rules: s.rules,
+      local,
+      remote: record.values,
+      synced: link.synced_values ?? {},
+      localUpdatedAt: lead.updated_at ?? null,
+      remoteUpdatedAt: record.updatedAt,
+    });
+
+    let error: string | null = null;
+    try {
+      const patch: Record<string, unknown> = {};
+      for (const c of changes) {
+        if (!c.applied) continue;
+        if (c.field === "owner") {
+          const userId = await memberByEmail(s.admin, lead.workspace_id, c.to);
+          if (userId) patch.assigned_to = userId;
+          else { c.applied = false; c.note = "No workspace member has this email"; }
+        } else if (c.field === "deal_stage") {
+          if (!deal) { c.applied = false; c.note = "Lead has no deal"; continue; }
+          const { error: dealErr } = await s.admin.from("deals").update({
+            stage: c.to,
+            probability: STAGE_PROBABILITY[c.to ?? ""] ?? 10,
+            won_at: c.to === "won" ? new Date().toISOString() : null,
+            lost_at: c.to === "lost" ? new Date().toISOString() : null,
+          }).eq("id", deal.id);
+          if (dealErr) throw new Error(`Deal update failed: ${dealErr.message}`);
+        } else {
+          patch[c.field] = c.to;
+        }
+      }
+      if (Object.keys(patch).length > 0) {
+        const { error: leadErr } = await s.admin
+          .from("leads").update({ ...patch, updated_at: new Date().toISOString() }).eq("id", lead.id);
+        if (leadErr) throw new Error(`Lead update failed: ${leadErr.message}`);
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    if (!error) {
+      // The CRM's values become the agreed baseline, so a field our rules
+      // kept is now "changed on our side" and goes back out on the next push.
+      const synced: CrmValues = { ...(link.synced_values ?? {}) };
+      for (const { key } of CRM_SYNC_FIELDS) {
+        const v = normalizeValue(key, record.values[key]);
+        if (v !== null) synced[key] = v;
+      }
+      await s.admin.from("crm_record_links").update({
+        synced_values: synced,
+        last_pulled_at: new Date().toISOString(),
+        remote_updated_at: record.updatedAt,
+        updated_at: new Date().toISOString(),
+      }).eq("id", link.id);
+    }
+
+    const applied = changes.some((c) => c.applied);
+    if (applied && !error) result.updated++;
+    // Records arrive oldest first, so the first failure is the earliest one.
+    if (error && !firstFailure) firstFailure = record.updatedAt ?? since;
+    if (changes.length === 0 && !error) continue;
+    await writeLog(s, {
+      direction: "pull",
+      workspaceId: lead.workspace_id,
+      leadId: lead.id,
+      externalId: record.externalId,
+      outcome: error ? "failed" : applied ? "updated" : "unchanged",
+      changes,
+      error,
+    });
+  }
+  // Re-reading from the failed record repeats the ones after it; synced_values
+  // makes those no-ops.
+  if (firstFailure && Date.parse(firstFailure) < Date.parse(result.cursor)) result.cursor = firstFailure;
+  return result;
+}
+
+async function memberByEmail(admin: Admin, workspaceId: string, email: string | null): Promise<string | null> {
+  if (!email) return null;
+  const { data: profiles } = await admin.from("profiles").select("id").eq("email", email.toLowerCase());
+  const ids = ((profiles ?? []) as { id: string }[]).map((p) => p.id);
+  if (ids.length === 0) return null;
+  const { data: member } = await admin
+    .from("workspace_members")
+    .select("user_id")
+    .eq("workspace_id", workspaceId)
+    .in("user_id", ids)
+    .limit(1)
+    .maybeSingle();
+  return (member as { user_id: string } | null)?.user_id ?? null;
+}
+
+// ── Full pass ───────────────────────────────────────────────────────────
+
+export interface PassResult {
+  pulled: number;
+  updated: number;
+  pushed: number;
+  failed: number;
+  /** Another pass for this owner + provider holds the lease; nothing was done. */
+  busy?: boolean;
+  error?: string;
+}
+
+/** Lease a pass holds on its connection; outlasts the edge runtime's wall clock. */
+const SYNC_LEASE_SECONDS = 300;
+
+/**
+ * One sync pass for an owner + provider: pull CRM-side changes, then push
+ * leads changed on our side. Records the outcome on crm_sync_settings and
+ * releases the lease taken at the start.
+ */
+export async function runSyncPass(admin: Admin, ownerId: string, provider: CrmProvider, source: SyncSource): Promise<PassResult> {
+  const now = new Date().toISOString();
+  const result: PassResult = { pulled: 0, updated: 0, pushed: 0, failed: 0 };
+  const { data: claimed, error: claimErr } = await admin.rpc("claim_crm_sync", {
+    p_owner_id: ownerId, p_provider: provider, p_lease_seconds: SYNC_LEASE_SECONDS,
+  });
+  if (claimErr) return { ...result, error: `Could not start the sync: ${claimErr.message}` };
+  const settings = ((claimed ?? []) as { pull_cursor: string | null }[])[0];
+  if (!settings) return { ...result, busy: true, error: `A ${provider} sync is already running` };
+
+  let cursor: string | null = settings.pull_cursor;
+  try {
+    const s = await openSession(admin, ownerId, provider, source);
+    if (!s) throw new Error(`${provider} is not connected`);
+
+    const pull = await pullChanges(s, cursor ?? new Date(Date.now() - 86_400_000).toISOString());
+    result.pulled = pull.seen;
+    result.updated = pull.updated;
+    cursor = pull.cursor;
+
+    const pushed = await pushPending(s);
+    result.pushed = pushed.filter((r) => r.outcome === "updated" || r.outcome === "created" || r.outcome === "linked").length;
+    result.failed = pushed.filter((r) => r.outcome === "failed").length;
+  } catch (err) {
+    result.error = err instanceof Error ? err.message : String(err);
+  }
+
+  await admin.from("crm_sync_settings").update({
+    pull_cursor: cursor, last_run_at: now, last_error: result.error ?? null, syncing_until: null, updated_at: now,
+  }).eq("owner_id", ownerId).eq("provider", provider);
+  return result;
+}
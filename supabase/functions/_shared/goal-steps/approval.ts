@@ -0,0 +1,134 @@
+// supabase/functions/_shared/goal-steps/approval.ts
+//
+// approval: holds the plan until a workspace owner/admin decides.
+//   live    writes an automation_step_approvals row with the dry-run preview of
+//           every downstream step, notifies the owners/admins and pauses with
+//           no not_before — the cron sweep leaves it alone.
+//   resume  decide_goal_approval (migration 20260823210000) sets not_before
+//           and kicks the sweep. Approved → succeeded, rejected → failed with
+//           halt_downstream so the executor skips everything that waited on it.
+//   Independent branches of the plan keep running while the request is open.
+
+import { notifyUser } from "../notify.ts";
+import { downstreamOf } from "./topo.ts";
+import type { PausedSentinel, PlanStep, StepContext, StepResult } from "./types.ts";
+
+export const kind = "approval";
+
+const DEFAULT_MESSAGE = "Review the next steps before they run.";
+
+export function dryRun(step: PlanStep): StepResult {
+  const p = step.params ?? {};
+  return {
+    status: "succeeded",
+    output: {
+      dry_run: true,
+      summary: `Would pause for admin approval: ${p.message ?? DEFAULT_MESSAGE}`,
+    },
+  };
+}
+
+export async function live(ctx: StepContext, step: PlanStep): Promise<StepResult | PausedSentinel> {
+  const message = String(step.params?.message ?? DEFAULT_MESSAGE);
+  const preview = downstreamOf(ctx.planSteps, step.id).map((s) => {
+    const r = ctx.previewStep(s);
+    return {
+      step_id: s.id,
+      kind: s.kind,
+      title: s.title,
+      status: r.status,
+      summary: String(r.output.summary ?? r.error ?? ""),
+    };
+  });
+
+  const { data: row, error } = await ctx.admin
+    .from("automation_step_approvals")
+    .upsert({
+      goal_id: ctx.goalId,
+      plan_id: ctx.planId,
+      workspace_id: ctx.workspaceId,
+      step_run_id: ctx.stepRunId,
+      step_id: step.id,
+      title: step.title,
+      message,
+      preview,
+      status: "pending",
+      requested_at: new Date().toISOString(),
+      decided_by: null,
+      decided_at: null,
+      decision_note: null,
+    }, { onConflict: "step_run_id" })
+    .select("id")
+    .single();
+  if (error || !row) {
+    return { status: "failed", output: { live: true }, error: `approval request failed: ${error?.message ?? "no row"}` };
+  }
+
+  const { data: admins } = await ctx.admin
+    .from("workspace_members")
+    .select("user_id")
+    .eq("workspace_id", ctx.workspaceId)
+    .in("role", ["owner", "admin"]);
+  for (const m of (admins ?? []) as { user_id: string }[]) {
+    await notifyUser(ctx.admin, {
+      userId: m.user_id,
+      type: "warning",
+      title: `Approval needed: ${step.title}`,
+      message: `"${ctx.goal.statement}" is paused. ${message}`,
+      link: "/portal/goals",
+      workspaceId: ctx.workspaceId,
+    });
+  }
+
+  return {
+    paused: true,
+    not_before: null,
+    output: {
+      approval_id: row.id,
+      awaiting_approval: true,
+      summary: `Waiting for admin approval — ${preview.length} downstream step(s) on hold.`,
+    },
+  };
+}
+
+export async function resume(
+  ctx: StepContext,
+  step: PlanStep,
+  prior: Record<string, unknown>,
+): Promise<StepResult | PausedSentinel> {
+  const { data: approval } = await ctx.admin
+    .from("automation_step_approvals")
+    .select("id, status, decided_by, decided_at, decision_note")
+    .eq("step_run_id", ctx.stepRunId)
+    .maybeSingle();
+
+  // Still open (or the row is gone): hold again without re-notifying.
+  if (!approval || approval.status === "pending") {
+    return {
+      paused: true,
+      not_before: null,
+      output: {
+        approval_id: approval?.id ?? prior.approval_id ?? null,
+        awaiting_approval: true,
+        summary: String(prior.summary ?? "Waiting for admin approval."),
+      },
+    };
+  }
+
+  const decision = {
+    live: true,
+    approval_id: approval.id,
+    decided_by: approval.decided_by,
+    decided_at: approval.decided_at,
+    note: approval.decision_note,
+  };
+  const note = approval.decision_note ? ` — "${approval.decision_note}"` : "";
+  if (approval.status === "approved") {
+    return { status: "succeeded", output: { ...decision, approved: true, summary: `Approved${note}.` } };
+  }
+  return {
+    status: "failed",
+    output: { ...decision, approved: false, halt_downstream: true, summary: `Rejected${note}. Downstream steps will not run.` },
+    error: `Approval "${step.title}" was rejected.`,
+  };
+}
@@ -0,0 +1,127 @@
+// supabase/functions/_shared/goal-steps/content.ts
+//
+// generate_content: Gemini writes one piece of channel content (email, social
+// post, blog, campaign angle) for the goal and saves it as a draft in
+// generated_assets under the workspace's first active business, where the
+// Image Studio drafts live. Nothing is sent or published — pair it with
+// email_sequence / social_post (behind an approval) to use it.
+
+import { geminiGenerate, enforceGoalQuota } from "./gemini.ts";
+import type { PlanStep, StepContext, StepResult } from "./types.ts";
+
+export const kind = "generate_content";
+
+const CHANNELS = ["email", "linkedin", "facebook", "instagram", "blog", "campaign"];
+
+const SHAPE: Record<string, string> = {
+  email:    '{"title": subject line under 60 chars, "preview_text": inbox preview, "content": plain-text body under 160 words, "cta": call to action}',
+  blog:     '{"title": post title, "content": article of 600-900 words, "cta": call to action}',
+  campaign: '{"title": campaign name, "content": the campaign angle and a short rollout plan, "cta": call to action}',
+};
+const SOCIAL_SHAPE = '{"content": the post, "hashtags": array of at most 5 hashtags, "cta": call to action}';
+
+function channelOf(step: PlanStep): string {
+  const c = String(step.params?.channel ?? "email").toLowerCase().trim();
+  return CHANNELS.includes(c) ? c : "email";
+}
+
+export function dryRun(step: PlanStep): StepResult {
+  const p = step.params ?? {};
+  return {
+    status: "succeeded",
+    output: {
+      dry_run: true,
+      summary: `Would draft ${channelOf(step)} content about "${p.topic ?? step.title}" and save it to generated content.`,
+      channel: channelOf(step),
+      topic: p.topic,
+    },
+  };
+}
+
+export async function live(ctx: StepContext, step: PlanStep): Promise<StepResult> {
+  const { admin, userId, workspaceId, goal, geminiApiKey } = ctx;
+  const p = step.params ?? {};
+  const channel = channelOf(step);
+  const topic = String(p.topic ?? step.title ?? "").trim();
+  if (!topic) return { status: "failed", output: { live: true }, error: "generate_content requires params.topic." };
+  const tone = typeof p.tone === "string" ? p.tone : null;
+  const audience = typeof p.audience === "string" ? p.audience : null;
+
+  const { data: biz } = await admin
+    .from("businesses")
+    .select("id, name, default_tone")
+    .eq("workspace_id", workspaceId)
+    .eq("status", "active")
+    .order("created_at", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+  const { data: profile } = biz?.id
+    ? await admin
+      .from("business_profiles")
+      .select("products_services, value_prop, audience, tone")
+      .eq("business_id", biz.id)
+      .maybeSingle()
+    : { data: null };
+
+  const gate = await enforceGoalQuota(admin, workspaceId, "content_generation");
+  if (!gate.allowed) {
+    return { status: "skipped", output: { live: true, summary: "Deferred — workspace is over its AI credit ceiling." }, error: `AI ceiling reached (${gate.reason ?? "insufficient_credits"}).` };
+  }
+
+  let piece: { title?: string; preview_text?: string; content?: string; hashtags?: string[]; cta?: string };
+  try {
+    const prompt = `Write ${channel} content about: "${topic}".
+Goal it serves: ${goal.statement}.
+Audience: ${audience ?? profile?.audience ?? "the business's B2B buyers"}. Tone: ${tone ?? profile?.tone ?? biz?.default_tone ?? "professional"}.
+Business: ${biz?.name ?? "n/a"}; products = ${profile?.products_services ?? "n/a"}; value = ${profile?.value_prop ?? "n/a"}.
+Do not invent product claims. Use {{first_name}} and {{company}} merge tokens only in email.
+
+Return ONLY JSON: ${SHAPE[channel] ?? SOCIAL_SHAPE}`;
+    const { text } = await geminiGenerate(geminiApiKey, prompt, "You are a senior B2B copywriter. Output strict JSON only.", { responseMimeType: "application/json" });
+    piece = JSON.parse(text.replace(/^```(?:json)?\s*/i, "").replace(/```\s*$/i, "").trim());
+    if (!piece.content) throw new Error("empty content");
+  } catch (e) {
+    return { status: "failed", output: { live: true }, error: `Content generation failed: ${(e as Error).message}` };
+  }
+
+  let assetId: string | null = null;
+  if (biz?.id) {
+    const { data: row, error } = await admin
+      .from("generated_assets")
+      .insert({
+        workspace_id: workspaceId,
+        business_id: biz.id,
+        created_by: userId,
+        kind: channel,
+        channel,
+        goal: goal.statement,
+        tone,
+        audience,
+        variant: "long",
+        title: piece.title ?? null,
+        preview_text: piece.preview_text ?? null,
+        content: String(piece.content),
+        hashtags: Array.isArray(piece.hashtags) ? piece.hashtags.slice(0, 10) : null,
+        cta: piece.cta ?? null,
+        metadata: { source: "goal", goal_id: ctx.goalId, step_id: step.id },
+      })
+      .select("id")
+      .single();
+    if (error) console.warn(`[content] save failed:`, error.message);
+    assetId = (row?.id as string | undefined) ?? null;
+  }
+
+  return {
+    status: "succeeded",
+    output: {
+      live: true,
+      summary: `Drafted ${channel} content${piece.title ? ` "${piece.title}"` : ""} (${String(piece.content).length} chars)` +
+        (assetId ? " — saved to generated content." : " — not saved: the workspace has no active business."),
+      channel,
+      asset_id: assetId,
+      title: piece.title ?? null,
+      content: String(piece.content),
+      cta: piece.cta ?? null,
+    },
+  };
+}
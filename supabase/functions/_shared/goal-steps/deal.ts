@@ -0,0 +1,112 @@
+// supabase/functions/_shared/goal-steps/deal.ts
+//
+// create_deal: opens a deal for each lead from lead_filter that has no open
+// deal yet (stage other than won/lost), so pipeline value shows up on the
+// deals board and in the forecast. Capped at DEAL_MAX_LEADS per step.
+
+import { resolveLeads } from "./leads.ts";
+import type { PlanStep, StepContext, StepResult } from "./types.ts";
+
+export const kind = "create_deal";
+const DEAL_MAX_LEADS = 25;
+
+// Mirrors DEAL_STAGES in AuraEngine/lib/deals.ts.
+const STAGE_PROBABILITY: Record<string, number> = {
+  discovery: 10,
+  qualified: 25,
+  proposal: 50,
+  negotiation: 75,
+};
+
+function dealParams(step: PlanStep) {
+  const p = step.params ?? {};
+  const stage = String(p.stage ?? "discovery").toLowerCase();
+  return {
+    stage: stage in STAGE_PROBABILITY ? stage : "discovery",
+    value: Math.max(0, Number(p.value_amount ?? 0) || 0),
+    currency: String(p.currency ?? "USD").toUpperCase().slice(0, 3),
+    title: typeof p.title === "string" && p.title.trim() ? p.title.trim() : null,
+  };
+}
+
+export function dryRun(step: PlanStep): StepResult {
+  const p = step.params ?? {};
+  const d = dealParams(step);
+  return {
+    status: "succeeded",
+    output: {
+      dry_run: true,
+      summary: `Would open a ${d.stage} deal worth ${d.value} ${d.currency} for each lead from ${p.lead_filter ?? "workspace.hot"} without an open deal (max ${DEAL_MAX_LEADS}).`,
+      stage: d.stage,
+      value_amount: d.value,
+    },
+  };
+}
+
+export async function live(ctx: StepContext, step: PlanStep): Promise<StepResult> {
+  const { admin, userId, workspaceId, stepOutputs } = ctx;
+  const p = step.params ?? {};
+  const d = dealParams(step);
+  const filterRaw = typeof p.lead_filter === "string" ? p.lead_filter : "workspace.hot";
+
+  const { leads, source } = await resolveLeads(admin, workspaceId, filterRaw, stepOutputs);
+  if (leads.length === 0) {
+    return {
+      status: "skipped",
+      output: { live: true, summary: `No leads matched filter "${filterRaw}". Resolved as: ${source}.`, lead_filter: filterRaw },
+      error: `No leads matched lead_filter="${filterRaw}".`,
+    };
+  }
+
+  try {
+    const ids = leads.map((l) => l.id);
+    const { data: open } = await admin
+      .from("deals").select("lead_id").in("lead_id", ids).not("stage", "in", "(won,lost)");
+    const hasOpen = new Set(((open ?? []) as { lead_id: string }[]).map((r) => r.lead_id));
+    const targets = leads.filter((l) => !hasOpen.has(l.id)).slice(0, DEAL_MAX_LEADS);
+    if (targets.length === 0) {
+      return {
+        status: "succeeded",
+        output: { live: true, summary: `All ${leads.length} lead(s) already have an open deal.`, created: 0, deal_ids: [] },
+      };
+    }
+
+    const { data: bizRows } = await admin
+      .from("leads").select("id, business_id").in("id", targets.map((l) => l.id));
+    const businessOf = new Map(((bizRows ?? []) as { id: string; business_id: string | null }[]).map((r) => [r.id, r.business_id]));
+
+    const { data: created, error } = await admin
+      .from("deals")
+      .insert(targets.map((l) => ({
+        workspace_id: workspaceId,
+        business_id: businessOf.get(l.id) ?? null,
+        lead_id: l.id,
+        created_by: userId,
+        title: d.title ?? `${l.company || [l.first_name, l.last_name].filter(Boolean).join(" ") || l.primary_email} — ${step.title}`,
+        value_amount: d.value,
+        currency: d.currency,
+        stage: d.stage,
+        probability: STAGE_PROBABILITY[d.stage],
+        notes: `Opened by goal "${ctx.goal.statement}".`,
+      })))
+      .select("id");
+    if (error) return { status: "failed", output: { live: true }, error: `create_deal insert failed: ${error.message}` };
+
+    const dealIds = ((created ?? []) as { id: string }[]).map((r) => r.id);
+    return {
+      status: "succeeded",
+      output: {
+        live: true,
+        summary: `Opened ${dealIds.length} ${d.stage} deal(s) worth ${d.value * dealIds.length} ${d.currency} in total` +
+          (hasOpen.size ? `; ${hasOpen.size} lead(s) already had an open deal.` : "."),
+        created: dealIds.length,
+        deal_ids: dealIds,
+        lead_ids: targets.map((l) => l.id),
+        stage: d.stage,
+        lead_filter_used: source,
+      },
+    };
+  } catch (e) {
+    return { status: "failed", output: { live: true }, error: `create_deal threw: ${(e as Error).message}` };
+  }
+}
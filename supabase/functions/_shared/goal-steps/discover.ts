@@ -0,0 +1,190 @@
+// supabase/functions/_shared/goal-steps/discover.ts
+//
+// discover_leads: searches People Data Labs through pdl-search with the
+// planner's filters and imports the matches through import_leads_batch — the
+// same path the Discover page uses, so workspace_id / business_id / source /
+// import_batch_id are stamped the same way. Duplicates are skipped. The new lead ids go in
+// output.lead_ids so downstream steps can use `lead_filter: 'step:sN'`.
+
+import { isServiceRoleToken } from "../auth.ts";
+import { enforceGoalQuota } from "./gemini.ts";
+import type { PlanStep, StepContext, StepResult } from "./types.ts";
+
+export const kind = "discover_leads";
+const DISCOVER_MAX_LEADS = 50;
+
+// Column headers we send to import_leads_batch, each mapped to a lead field.
+// Same mapping as AuraEngine/lib/discovery.ts.
+const IMPORT_MAPPING: Record<string, string> = {
+  first_name: "first_name",
+  last_name: "last_name",
+  primary_email: "primary_email",
+  primary_phone: "primary_phone",
+  company: "company",
+  website: "website",
+  linkedin_url: "linkedin_url",
+  title: "title",
+  location: "location",
+  industry: "industry",
+  company_size: "company_size",
+  source: "source",
+};
+
+interface DiscoveredPerson {
+  first_name: string; last_name: string; title: string; company: string; website: string;
+  email: string; linkedin_url: string; location: string; industry: string; company_size: string; phone: string;
+}
+
+function list(v: unknown): string[] {
+  if (Array.isArray(v)) return v.map(String).map((s) => s.trim()).filter(Boolean);
+  if (typeof v === "string" && v.trim()) return v.split(",").map((s) => s.trim()).filter(Boolean);
+  return [];
+}
+
+function searchParams(step: PlanStep) {
+  const p = step.params ?? {};
+  return {
+    titles: list(p.titles),
+    industries: list(p.industries),
+    locations: list(p.locations),
+    company_sizes: list(p.company_sizes),
+    keywords: typeof p.keywords === "string" ? p.keywords : undefined,
+    require_email: true,
+    size: Math.max(1, Math.min(DISCOVER_MAX_LEADS, Number(p.count ?? 25))),
+  };
+}
+
+function describeFilters(s: ReturnType<typeof searchParams>): string {
+  return [
+    s.titles.length ? `titles ${s.titles.join("/")}` : "",
+    s.industries.length ? `in ${s.industries.join("/")}` : "",
+    s.locations.length ? `located in ${s.locations.join("/")}` : "",
+    s.company_sizes.length ? `company size ${s.company_sizes.join("/")}` : "",
+    s.keywords ? `matching "${s.keywords}"` : "",
+  ].filter(Boolean).join(", ") || "no filters";
+}
+
+/**
+ * The acting user's default business — their oldest in the workspace, as
+ * get_or_create_default_business() picks — else the workspace's oldest.
+ * Leads without a business_id are hidden by the active-business filter.
+ */
+async function defaultBusinessId(admin: StepContext["admin"], workspaceId: string, userId: string): Promise<string | null> {
+  const { data: businesses } = await admin
+    .from("businesses")
+    .select("id")
+    .eq("workspace_id", workspaceId)
+    .eq("status", "active")
+    .order("created_at", { ascending: true });
+  const ids = ((businesses ?? []) as { id: string }[]).map((b) => b.id);
+  if (ids.length === 0) return null;
+  const { data: memberships } = await admin
+    .from("business_members")
+    .select("business_id")
+    .eq("user_id", userId)
+    .in("business_id", ids);
+  const mine = new Set(((memberships ?? []) as { business_id: string }[]).map((m) => m.business_id));
+  return ids.find((id) => mine.has(id)) ?? ids[0];
+}
+
+export function dryRun(step: PlanStep): StepResult {
+  const s = searchParams(step);
+  return {
+    status: "succeeded",
+    output: {
+      dry_run: true,
+      summary: `Would find up to ${s.size} prospects with a work email (${describeFilters(s)}) and import the new ones.`,
+      filters: s,
+    },
+  };
+}
+
+export async function live(ctx: StepContext, step: PlanStep): Promise<StepResult> {
+  const { admin, userToken, userId, workspaceId, supabaseUrl } = ctx;
+
+  const s = searchParams(step);
+  if (s.titles.length + s.industries.length + s.locations.length + s.company_sizes.length === 0 && !s.keywords) {
+    return { status: "failed", output: { live: true }, error: "discover_leads needs at least one of titles, industries, locations, company_sizes or keywords." };
+  }
+
+  const gate = await enforceGoalQuota(admin, workspaceId, "lead_discovery");
+  if (!gate.allowed) {
+    return { status: "skipped", output: { live: true, summary: "Deferred — workspace is over its AI credit ceiling." }, error: `AI ceiling reached (${gate.reason ?? "insufficient_credits"}).` };
+  }
+
+  let people: DiscoveredPerson[];
+  try {
+    const res = await fetch(`${supabaseUrl}/functions/v1/pdl-search`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${userToken}` },
+      // On the cron-resume path the search runs for the user the executor acts as.
+      body: JSON.stringify(isServiceRoleToken(userToken) ? { ...s, on_behalf_of: userId } : s),
+    });
+    const data = await res.json().catch(() => ({})) as { people?: DiscoveredPerson[]; error?: string; not_configured?: boolean };
+    if (data.not_configured) {
+      return { status: "skipped", output: { live: true, summary: "Lead discovery isn't set up (PDL_API_KEY missing)." }, error: data.error };
+    }
+    if (!res.ok || data.error) {
+      return { status: "failed", output: { live: true }, error: `pdl-search: ${data.error ?? `HTTP ${res.status}`}` };
+    }
+    people = (data.people ?? []).filter((p) => p.email);
+  } catch (e) {
+    return { status: "failed", output: { live: true }, error: `pdl-search threw: ${(e as Error).message}` };
+  }
+
+  if (people.length === 0) {
+    return {
+      status: "succeeded",
+      output: { live: true, summary: `No prospects matched ${describeFilters(s)}.`, imported: 0, lead_ids: [] },
+    };
+  }
+
+  const { data: profile } = await admin.from("profiles").select("plan").eq("id", userId).maybeSingle();
+  const businessId = await defaultBusinessId(admin, workspaceId, userId);
+  const { data: imported, error: impErr } = await admin.rpc("import_leads_batch", {
+    p_workspace_id: workspaceId,
+    p_file_name: `Goal step: ${step.title}`,
+    p_file_type: "discovery",
+    p_rows: people.map((p) => ({
+      first_name: p.first_name,
+      last_name: p.last_name,
+      primary_email: p.email,
+      primary_phone: p.phone,
+      company: p.company,
+      website: p.website,
+      linkedin_url: p.linkedin_url,
+      title: p.title,
+      location: p.location,
+      industry: p.industry,
+      company_size: p.company_size,
+      source: "discovery",
+    })),
+    p_mapping: IMPORT_MAPPING,
+    p_options: {
+      dedupe_strategy: "skip",
+      plan_name: (profile?.plan as string | undefined) ?? "Starter",
+      business_id: businessId,
+    },
+  });
+  if (impErr || !imported) {
+    return { status: "failed", output: { live: true, found: people.length }, error: `import_leads_batch failed: ${impErr?.message ?? "no result"}` };
+  }
+
+  const result = imported as { batch_id: string; imported_count: number; skipped_count: number };
+  const { data: leadRows } = await admin
+    .from("leads").select("id").eq("import_batch_id", result.batch_id);
+  const leadIds = ((leadRows ?? []) as { id: string }[]).map((l) => l.id);
+
+  return {
+    status: "succeeded",
+    output: {
+      live: true,
+      summary: `Found ${people.length} prospect(s) (${describeFilters(s)}); imported ${result.imported_count}, skipped ${result.skipped_count} already in the workspace or over the plan limit.`,
+      found: people.length,
+      imported: result.imported_count,
+      skipped: result.skipped_count,
+      import_batch_id: result.batch_id,
+      lead_ids: leadIds,
+    },
+  };
+}
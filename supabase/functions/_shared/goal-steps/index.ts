@@ -2,7 +2,7 @@
 //
 // Step registry + dispatcher for goal-executor. Each entry is one of the
 // per-step handler modules (enrich.ts, score.ts, …) exposing the StepHandler
-// shape { kind, dryRun, live }. Adding a new step kind = create a new
+// shape { kind, dryRun, live, resume? }. Adding a new step kind = create a new
 // module and register it here — no edits to the index.ts of goal-executor.
 
 import * as enrich from "./enrich.ts";
@@ -12,6 +12,13 @@ import * as wait from "./wait.ts";
 import * as checkpoint from "./checkpoint.ts";
 import * as email from "./email.ts";
 import * as social from "./social.ts";
+import * as approval from "./approval.ts";
+import * as discover from "./discover.ts";
+import * as workflow from "./workflow.ts";
+import * as deal from "./deal.ts";
+import * as status from "./status.ts";
+import * as webhook from "./webhook.ts";
+import * as content from "./content.ts";
 import type {
   PausedSentinel,
   PlanStep,
@@ -28,6 +35,13 @@ const HANDLERS: Record<string, StepHandler> = {
   [checkpoint.kind]: checkpoint,
   [email.kind]:      email,
   [social.kind]:     social,
+  [approval.kind]:   approval,
+  [discover.kind]:   discover,
+  [workflow.kind]:   workflow,
+  [deal.kind]:       deal,
+  [status.kind]:     status,
+  [webhook.kind]:    webhook,
+  [content.kind]:    content,
 };
 
 function unknownStep(step: PlanStep, mode: "dry_run" | "live"): StepResult {
@@ -53,6 +67,18 @@ export async function executeStepLive(
   return h.live(ctx, step);
 }
 
+/** Picks a paused step back up; `prior` is the output stored when it paused. */
+export async function resumeStepLive(
+  ctx: StepContext,
+  step: PlanStep,
+  prior: Record<string, unknown>,
+): Promise<StepResult | PausedSentinel> {
+  const h = HANDLERS[step.kind];
+  if (!h) return unknownStep(step, "live");
+  if (h.resume) return h.resume(ctx, step, prior);
+  return { status: "succeeded", output: { live: true, summary: "Resumed." } };
+}
+
 export const STEP_KINDS = Object.keys(HANDLERS);
 
 export type { PausedSentinel, PlanStep, StepContext, StepResult } from "./types.ts";
@@ -0,0 +1,78 @@
+// supabase/functions/_shared/goal-steps/status.ts
+//
+// update_lead_status: moves every lead from lead_filter to params.status.
+// Leads already there are left alone, so a re-run doesn't re-fire
+// lead.status_changed webhooks or workflow triggers.
+
+import { resolveLeads } from "./leads.ts";
+import type { PlanStep, StepContext, StepResult } from "./types.ts";
+
+export const kind = "update_lead_status";
+
+const LEAD_STATUSES = ["New", "Contacted", "Qualified", "Converted", "Lost"];
+
+function targetStatus(step: PlanStep): string | null {
+  const raw = String(step.params?.status ?? "").trim().toLowerCase();
+  return LEAD_STATUSES.find((s) => s.toLowerCase() === raw) ?? null;
+}
+
+export function dryRun(step: PlanStep): StepResult {
+  const p = step.params ?? {};
+  const status = targetStatus(step);
+  if (!status) {
+    return {
+      status: "failed",
+      output: { dry_run: true, summary: `"${p.status ?? ""}" is not a lead status.` },
+      error: `update_lead_status needs params.status: one of ${LEAD_STATUSES.join(", ")}.`,
+    };
+  }
+  return {
+    status: "succeeded",
+    output: {
+      dry_run: true,
+      summary: `Would set leads from ${p.lead_filter ?? "workspace.hot"} to "${status}".`,
+      status,
+    },
+  };
+}
+
+export async function live(ctx: StepContext, step: PlanStep): Promise<StepResult> {
+  const { admin, workspaceId, stepOutputs } = ctx;
+  const status = targetStatus(step);
+  if (!status) {
+    return { status: "failed", output: { live: true }, error: `update_lead_status needs params.status: one of ${LEAD_STATUSES.join(", ")}.` };
+  }
+  const filterRaw = typeof step.params?.lead_filter === "string" ? step.params.lead_filter : "workspace.hot";
+
+  const { leads, source } = await resolveLeads(admin, workspaceId, filterRaw, stepOutputs);
+  if (leads.length === 0) {
+    return {
+      status: "skipped",
+      output: { live: true, summary: `No leads matched filter "${filterRaw}". Resolved as: ${source}.`, lead_filter: filterRaw },
+      error: `No leads matched lead_filter="${filterRaw}".`,
+    };
+  }
+
+  const toMove = leads.filter((l) => l.status !== status).map((l) => l.id);
+  if (toMove.length > 0) {
+    const { error } = await admin
+      .from("leads")
+      .update({ status, updated_at: new Date().toISOString() })
+      .eq("workspace_id", workspaceId)
+      .in("id", toMove);
+    if (error) return { status: "failed", output: { live: true }, error: `update_lead_status failed: ${error.message}` };
+  }
+
+  return {
+    status: "succeeded",
+    output: {
+      live: true,
+      summary: `Set ${toMove.length} lead(s) to "${status}"` +
+        (toMove.length < leads.length ? `; ${leads.length - toMove.length} already were.` : "."),
+      status,
+      updated: toMove.length,
+      lead_ids: leads.map((l) => l.id),
+      lead_filter_used: source,
+    },
+  };
+}
@@ -2,6 +2,7 @@
 //
 // Topological sort over PlanStep[] using each step's `depends_on`. Returns
 // the sorted list, or { error } on a missing dependency / cycle.
+// downstreamOf lists every step that (transitively) depends on a given one.
 
 import type { PlanStep } from "./types.ts";
 
@@ -29,3 +30,18 @@ export function topoSort(steps: PlanStep[]): PlanStep[] | { error: string } {
   if (ordered.length !== steps.length) return { error: "plan has dependency cycle" };
   return ordered;
 }
+
+export function downstreamOf(steps: PlanStep[], id: string): PlanStep[] {
+  const found = new Set<string>([id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const s of steps) {
+      if (!found.has(s.id) && (s.depends_on ?? []).some((d) => found.has(d))) {
+        found.add(s.id);
+        grew = true;
+      }
+    }
+  }
+  return steps.filter((s) => s.id !== id && found.has(s.id));
+}
@@ -26,7 +26,17 @@ export interface StepResult {
   error?: string;
 }
 
-export interface PausedSentinel { paused: true; not_before: string; }
+/**
+ * Returned by a live handler that cannot finish yet. `not_before` is when the
+ * cron resume sweep may pick the step up again; null parks it until something
+ * else (e.g. an approval decision) sets the time. `output` is merged into the
+ * paused row so the UI can explain the hold.
+ */
+export interface PausedSentinel {
+  paused: true;
+  not_before: string | null;
+  output?: Record<string, unknown>;
+}
 
 /** Dispatch context passed to every live step handler. */
 export interface StepContext {
@@ -39,6 +49,13 @@ export interface StepContext {
   /** Internal-function URL base (no trailing slash) for cross-fn POSTs. */
   supabaseUrl: string;
   geminiApiKey: string;
+  goalId: string;
+  planId: string;
+  /** automation_step_runs.id of the step being dispatched. */
+  stepRunId: string;
+  planSteps: PlanStep[];
+  /** Dry-run of another step, for handlers that describe what comes next. */
+  previewStep(step: PlanStep): StepResult;
 }
 
 /** Each step module exports this shape. */
@@ -46,4 +63,9 @@ export interface StepHandler {
   kind: string;
   dryRun(step: PlanStep): StepResult;
   live(ctx: StepContext, step: PlanStep): Promise<StepResult | PausedSentinel>;
+  /**
+   * Called instead of `live` when a paused step is picked up again. `prior`
+   * is the paused row's output. Without it the step counts as succeeded.
+   */
+  resume?(ctx: StepContext, step: PlanStep, prior: Record<string, unknown>): Promise<StepResult | PausedSentinel>;
 }
@@ -4,7 +4,8 @@
 //   ≤30s wait: inline sleep, succeed immediately.
 //   >30s wait: return a PausedSentinel so the dispatcher persists not_before
 //              and pauses the goal. pg_cron resumes the executor in resume
-//              mode when not_before <= now().
+//              mode when not_before <= now(), and `resume` closes the step
+//              out instead of starting the wait over.
 
 import type { PausedSentinel, PlanStep, StepContext, StepResult } from "./types.ts";
 
@@ -39,3 +40,21 @@ export async function live(_ctx: StepContext, step: PlanStep): Promise<StepResul
   const notBefore = new Date(Date.now() + ms).toISOString();
   return { paused: true, not_before: notBefore };
 }
+
+export async function resume(
+  _ctx: StepContext,
+  step: PlanStep,
+  prior: Record<string, unknown>,
+): Promise<StepResult> {
+  const hours = Number(step.params?.hours ?? 0);
+  return {
+    status: "succeeded",
+    output: {
+      live: true,
+      summary: `Waited ${hours}h — resumed.`,
+      hours,
+      reason: String(step.params?.reason ?? ""),
+      waited_until: prior.not_before ?? null,
+    },
+  };
+}
@@ -0,0 +1,82 @@
+// supabase/functions/_shared/goal-steps/webhook.ts
+//
+// send_webhook: queues a `goal.webhook` event for the workspace's webhook
+// endpoints (queue_webhook_event), so it is signed, filtered, retried and
+// logged by webhook-dispatcher like every other event. The step never POSTs
+// to an arbitrary URL itself — receivers subscribe in /portal/webhooks.
+// Payload schema: docs/api/openapi.yaml (webhooks → goal.webhook).
+
+import { resolveLeads } from "./leads.ts";
+import type { PlanStep, StepContext, StepResult } from "./types.ts";
+
+export const kind = "send_webhook";
+export const EVENT_TYPE = "goal.webhook";
+const WEBHOOK_MAX_LEADS = 100;
+
+function signal(step: PlanStep): string {
+  return String(step.params?.signal ?? step.id).trim().slice(0, 100) || step.id;
+}
+
+export function dryRun(step: PlanStep): StepResult {
+  const p = step.params ?? {};
+  return {
+    status: "succeeded",
+    output: {
+      dry_run: true,
+      summary: `Would send a ${EVENT_TYPE} event ("${signal(step)}") to subscribed webhook endpoints` +
+        (p.lead_filter ? ` with leads from ${p.lead_filter}.` : "."),
+      signal: signal(step),
+    },
+  };
+}
+
+export async function live(ctx: StepContext, step: PlanStep): Promise<StepResult> {
+  const { admin, workspaceId, stepOutputs } = ctx;
+  const p = step.params ?? {};
+
+  let leadIds: string[] = [];
+  if (typeof p.lead_filter === "string" && p.lead_filter.trim()) {
+    const { leads } = await resolveLeads(admin, workspaceId, p.lead_filter, stepOutputs);
+    leadIds = leads.slice(0, WEBHOOK_MAX_LEADS).map((l) => l.id);
+  }
+
+  const payload = {
+    goal_id: ctx.goalId,
+    goal_statement: ctx.goal.statement,
+    plan_id: ctx.planId,
+    step_id: step.id,
+    step_title: step.title,
+    signal: signal(step),
+    message: typeof p.message === "string" ? p.message : null,
+    lead_ids: leadIds,
+    sent_at: new Date().toISOString(),
+  };
+
+  const { data: queued, error } = await admin.rpc("queue_webhook_event", {
+    p_workspace_id: workspaceId,
+    p_event_type: EVENT_TYPE,
+    p_payload: payload,
+    p_version: 1,
+  });
+  if (error) return { status: "failed", output: { live: true }, error: `queue_webhook_event failed: ${error.message}` };
+
+  const count = Number(queued ?? 0);
+  if (count === 0) {
+    return {
+      status: "skipped",
+      output: { live: true, summary: `No enabled webhook endpoint subscribes to ${EVENT_TYPE}.`, signal: payload.signal },
+      error: `Add an endpoint for ${EVENT_TYPE} in /portal/webhooks to receive goal signals.`,
+    };
+  }
+  return {
+    status: "succeeded",
+    output: {
+      live: true,
+      summary: `Queued ${EVENT_TYPE} "${payload.signal}" for ${count} endpoint(s)` +
+        (leadIds.length ? ` with ${leadIds.length} lead(s).` : "."),
+      signal: payload.signal,
+      endpoints: count,
+      lead_ids: leadIds,
+    },
+  };
+}
@@ -0,0 +1,91 @@
+// supabase/functions/_shared/goal-steps/workflow.ts
+//
+// run_workflow: enrolls leads (lead_filter) on a published automation
+// workflow. Runs are created here and handed to the workflow-runner cron
+// sweep (every minute) rather than advanced inline, so a long workflow never
+// eats the executor's wall clock and the step behaves the same on the
+// cron-resume path.
+
+import { enrollLeads, WORKFLOW_COLS } from "../workflow/runner.ts";
+import type { WorkflowRow } from "../workflow/types.ts";
+import { resolveLeads } from "./leads.ts";
+import type { PlanStep, StepContext, StepResult } from "./types.ts";
+
+export const kind = "run_workflow";
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function dryRun(step: PlanStep): StepResult {
+  const p = step.params ?? {};
+  return {
+    status: "succeeded",
+    output: {
+      dry_run: true,
+      summary: `Would enroll leads from ${p.lead_filter ?? "workspace.hot"} in workflow "${p.workflow ?? "?"}".`,
+      workflow: p.workflow,
+      lead_filter: p.lead_filter,
+    },
+  };
+}
+
+export async function live(ctx: StepContext, step: PlanStep): Promise<StepResult> {
+  const { admin, workspaceId, stepOutputs } = ctx;
+  const p = step.params ?? {};
+  const ref = String(p.workflow ?? "").trim();
+  if (!ref) return { status: "failed", output: { live: true }, error: "run_workflow requires params.workflow (name or id)." };
+
+  // The planner names workflows; accept an id too.
+  let q = admin.from("workflows").select(WORKFLOW_COLS).eq("workspace_id", workspaceId);
+  q = UUID_RE.test(ref) ? q.eq("id", ref) : q.ilike("name", ref);
+  const { data: matches } = await q.limit(2);
+  const rows = (matches ?? []) as WorkflowRow[];
+  if (rows.length === 0) {
+    return { status: "skipped", output: { live: true, summary: `No workflow named "${ref}" in this workspace.` }, error: `Workflow "${ref}" not found.` };
+  }
+  if (rows.length > 1) {
+    return { status: "skipped", output: { live: true, summary: `More than one workflow is named "${ref}" — use its id.` }, error: `Workflow "${ref}" is ambiguous.` };
+  }
+  const workflow = rows[0];
+  if (workflow.current_version === null) {
+    return { status: "skipped", output: { live: true, summary: `Workflow "${workflow.name}" has never been published.` }, error: "Publish the workflow before a goal can enroll leads." };
+  }
+  if (workflow.status === "paused") {
+    return { status: "skipped", output: { live: true, summary: `Workflow "${workflow.name}" is paused.` }, error: "Resume the workflow before a goal can enroll leads." };
+  }
+
+  const filterRaw = typeof p.lead_filter === "string" ? p.lead_filter : "workspace.hot";
+  const { leads, source } = await resolveLeads(admin, workspaceId, filterRaw, stepOutputs);
+  if (leads.length === 0) {
+    return {
+      status: "skipped",
+      output: { live: true, summary: `No leads matched filter "${filterRaw}". Resolved as: ${source}.`, lead_filter: filterRaw },
+      error: `No leads matched lead_filter="${filterRaw}".`,
+    };
+  }
+
+  try {
+    const { enrolled, alreadyRunning } = await enrollLeads(admin, workflow, leads.map((l) => l.id));
+    if (enrolled.length > 0) {
+      // Release the enrollment lock so the next workflow-runner sweep claims them.
+      await admin.from("workflow_runs")
+        .update({ locked_until: new Date().toISOString() })
+        .in("id", enrolled.map((r) => r.id));
+    }
+    return {
+      status: "succeeded",
+      output: {
+        live: true,
+        summary: `Enrolled ${enrolled.length} lead(s) in "${workflow.name}" v${workflow.current_version}` +
+          (alreadyRunning.length ? `; ${alreadyRunning.length} already in progress.` : "."),
+        workflow_id: workflow.id,
+        workflow_version: workflow.current_version,
+        run_ids: enrolled.map((r) => r.id),
+        already_running: alreadyRunning.length,
+        lead_ids: leads.map((l) => l.id),
+        lead_filter_used: source,
+      },
+    };
+  } catch (e) {
+    return { status: "failed", output: { live: true }, error: `run_workflow enroll failed: ${(e as Error).message}` };
+  }
+}
@@ -0,0 +1,105 @@
+// Minimal hand-rolled IMAP client (Deno.connectTls) plus the header/body
+// decoding helpers around it. Single-literal FETCHes keep parsing simple.
+// Used by poll-imap-inbox (inbound replies) and process-warmup (placement
+// checks, rescuing warmup mail out of spam, auto-replies).
+
+export function withTimeout<T>(p: Promise<T>, ms: number, label: string): Promise<T> {
+  return Promise.race([p, new Promise<never>((_, rej) => setTimeout(() => rej(new Error(`${label} timed out`)), ms))]);
+}
+
+// Map an SMTP host to its IMAP host (best-effort; overridable via metadata).
+export function imapHostFor(smtpHost: string): string {
+  const h = smtpHost.toLowerCase();
+  if (h.includes("gmail")) return "imap.gmail.com";
+  if (h.includes("office365") || h.includes("outlook")) return "outlook.office365.com";
+  if (h.startsWith("smtp.")) return "imap." + h.slice(5);
+  return smtpHost;
+}
+
+export const decodeQP = (s: string) => s.replace(/=\r?\n/g, "").replace(/=([0-9A-Fa-f]{2})/g, (_, h) => String.fromCharCode(parseInt(h, 16)));
+export const decodeB64 = (s: string) => { try { return decodeURIComponent(escape(atob(s.replace(/\s+/g, "")))); } catch { try { return atob(s.replace(/\s+/g, "")); } catch { return s; } } };
+
+export function parseHeaders(raw: string): Record<string, string> {
+  const unfolded = raw.replace(/\r?\n[ \t]+/g, " ");
+  const h: Record<string, string> = {};
+  for (const line of unfolded.split(/\r?\n/)) {
+    const i = line.indexOf(":");
+    if (i > 0) h[line.slice(0, i).trim().toLowerCase()] = line.slice(i + 1).trim();
+  }
+  return h;
+}
+
+export function decodeBody(s: string, cte: string): string {
+  if (cte.includes("quoted-printable")) return decodeQP(s);
+  if (cte.includes("base64")) return decodeB64(s);
+  return s;
+}
+
+// Best-effort text extraction: pick text/plain out of multipart, else decode.
+export function extractText(headers: Record<string, string>, body: string): string {
+  const ct = (headers["content-type"] || "").toLowerCase();
+  const cte = (headers["content-transfer-encoding"] || "").toLowerCase();
+  if (ct.startsWith("multipart/")) {
+    const bm = ct.match(/boundary="?([^";]+)"?/);
+    if (bm) {
+      for (const part of body.split("--" + bm[1])) {
+        const [ph, ...rest] = part.split(/\r?\n\r?\n/);
+        if (ph.toLowerCase().includes("text/plain")) {
+          const pcte = (ph.match(/content-transfer-encoding:\s*([^\r\n;]+)/i) || [])[1] || "";
+          return decodeBody(rest.join("\n\n"), pcte.trim().toLowerCase()).trim();
+        }
+      }
+    }
+  }
+  return decodeBody(body, cte).trim();
+}
+
+export class Imap {
+  private buf = new Uint8Array(0);
+  private tag = 0;
+  private enc = new TextEncoder();
+  private dec = new TextDecoder("utf-8", { fatal: false });
+  constructor(private conn: Deno.TlsConn) {}
+
+  private async fill(): Promise<boolean> {
+    const chunk = new Uint8Array(65536);
+    const n = await this.conn.read(chunk);
+    if (n === null) return false;
+    const merged = new Uint8Array(this.buf.length + n);
+    merged.set(this.buf); merged.set(chunk.subarray(0, n), this.buf.length);
+    this.buf = merged;
+    return true;
+  }
+  private async readLine(): Promise<string> {
+    while (true) {
+      const idx = this.buf.indexOf(10);
+      if (idx >= 0) { const l = this.dec.decode(this.buf.subarray(0, idx)); this.buf = this.buf.subarray(idx + 1); return l.replace(/\r$/, ""); }
+      if (!(await this.fill())) throw new Error("connection closed");
+    }
+  }
+  private async readBytes(n: number): Promise<string> {
+    while (this.buf.length < n) if (!(await this.fill())) throw new Error("connection closed");
+    const out = this.dec.decode(this.buf.subarray(0, n)); this.buf = this.buf.subarray(n); return out;
+  }
+  async greeting() { return this.readLine(); }
+  // Send a command; collect untagged lines + literals until the tagged result.
+  async cmd(command: string): Promise<{ ok: boolean; lines: string[]; literals: string[]; result: string }> {
+    const t = `A${++this.tag}`;
+    await this.conn.write(this.enc.encode(`${t} ${command}\r\n`));
+    const lines: string[] = []; const literals: string[] = []; let cur = "";
+    while (true) {
+      const phys = await this.readLine();
+      const m = phys.match(/\{(\d+)\}$/);
+      if (m) { cur += phys.slice(0, -m[0].length); literals.push(await this.readBytes(parseInt(m[1], 10))); continue; }
+      cur += phys;
+      if (cur.startsWith(t + " ")) {
+        const result = cur.slice(t.length + 1).split(" ")[0].toUpperCase();
+        return { ok: result === "OK", lines, literals, result: cur };
+      }
+      lines.push(cur); cur = "";
+    }
+  }
+  async logout() { try { await this.cmd("LOGOUT"); } catch { /* noop */ } }
+}
+
+export const qstr = (s: string) => `"${s.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
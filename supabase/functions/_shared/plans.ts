@@ -24,3 +24,15 @@ export const MONTHLY_EMAIL_LIMITS: Record<string, number> = {
 export function getMonthlyEmailLimit(planName: string | null | undefined): number {
   return MONTHLY_EMAIL_LIMITS[resolvePlanName(planName)] ?? MONTHLY_EMAIL_LIMITS.Starter;
 }
+
+/** Public API requests per minute per key. Mirrors lib/apiKeys.ts API_RATE_LIMITS. */
+export const API_RATE_LIMITS: Record<string, number> = {
+  Free: 30,
+  Starter: 60,
+  Growth: 300,
+  Scale: 1200,
+};
+
+export function getApiRateLimit(planName: string | null | undefined): number {
+  return API_RATE_LIMITS[resolvePlanName(planName)] ?? API_RATE_LIMITS.Starter;
+}
@@ -0,0 +1,225 @@
+// supabase/functions/_shared/replyIntent.ts
+//
+// Reply intent classification for inbound-email. Gemini classifies when the
+// workspace is under its AI ceiling; otherwise — and for machine-generated
+// mail (bounces, auto-replies), which the rules recognise reliably — the
+// keyword rules below decide, so classification never needs AI credits.
+// Actions per intent live in apply_reply_intent (20260823150000_reply_intent).
+
+import { AI_MODELS, geminiEndpoint } from "./aiModels.ts";
+
+export const REPLY_INTENTS = [
+  "interested", "meeting_request", "objection", "out_of_office", "referral", "unsubscribe", "bounce",
+] as const;
+export type ReplyIntent = typeof REPLY_INTENTS[number];
+
+export interface ReplyInput { fromEmail: string; subject: string; text: string; receivedAt: Date }
+
+export interface ReplyClassification {
+  intent: ReplyIntent | null;
+  confidence: number;
+  /** out_of_office only: YYYY-MM-DD the sender says they're back. */
+  returnDate: string | null;
+  /** referral only: the address the sender pointed us to. */
+  referralEmail: string | null;
+  source: "ai" | "rules";
+}
+
+// Only the new part of the reply: drop the quoted thread so our own copy
+// ("book a call…") can't match.
+export function stripQuoted(text: string): string {
+  const lines = (text || "").replace(/\r\n/g, "\n").split("\n");
+  const out: string[] = [];
+  for (const [i, line] of lines.entries()) {
+    if (/^\s*On .{4,200}wrote:\s*$/i.test(line)) break;
+    if (/^\s*-{2,}\s*(Original|Forwarded) Message/i.test(line)) break;
+    if (i > 0 && /^\s*(From|Sent|De|Von):\s/i.test(line) && out.some(l => l.trim())) break;
+    if (/^\s*>/.test(line)) continue;
+    out.push(line);
+  }
+  return out.join("\n").trim();
+}
+
+export const htmlToText = (html: string): string =>
+  (html || "").replace(/<(br|\/p|\/div)\b[^>]*>/gi, "\n").replace(/<[^>]+>/g, " ").replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&").replace(/[ \t]+/g, " ").trim();
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const MONTH_RE = "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)";
+
+const isoDate = (d: Date) => d.toISOString().slice(0, 10);
+
+// A date without a year is the next one on or after the day the reply arrived.
+function resolve(month: number, day: number, year: number | null, receivedAt: Date): string | null {
+  if (month < 0 || month > 11 || day < 1 || day > 31) return null;
+  let y = year ?? receivedAt.getUTCFullYear();
+  if (y < 100) y += 2000;
+  let d = new Date(Date.UTC(y, month, day));
+  if (d.getUTCMonth() !== month) return null;
+  if (year == null && d.getTime() < receivedAt.getTime() - 86_400_000) d = new Date(Date.UTC(y + 1, month, day));
+  return isoDate(d);
+}
+
+function parseDateAt(s: string, receivedAt: Date): string | null {
+  let m = s.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (m) return resolve(+m[2] - 1, +m[3], +m[1], receivedAt);
+  m = s.match(new RegExp(`\\b${MONTH_RE}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4}))?`, "i"));
+  if (m) return resolve(MONTHS.indexOf(m[1].slice(0, 3).toLowerCase()), +m[2], m[3] ? +m[3] : null, receivedAt);
+  m = s.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_RE}\\b(?:,?\\s+(\\d{4}))?`, "i"));
+  if (m) return resolve(MONTHS.indexOf(m[2].slice(0, 3).toLowerCase()), +m[1], m[3] ? +m[3] : null, receivedAt);
+  m = s.match(/\b(\d{1,2})[/.](\d{1,2})(?:[/.](\d{2,4}))?\b/);
+  if (m) {
+    // US order unless the first number can't be a month.
+    const [a, b] = [+m[1], +m[2]];
+    return a > 12 ? resolve(b - 1, a, m[3] ? +m[3] : null, receivedAt) : resolve(a - 1, b, m[3] ? +m[3] : null, receivedAt);
+  }
+  if (/\btomorrow\b/i.test(s)) return isoDate(new Date(receivedAt.getTime() + 86_400_000));
+  m = s.match(/\b(sun|mon|tue|wed|thu|fri|sat)[a-z]*\b/i);
+  if (m) {
+    const target = WEEKDAYS.indexOf(m[1].toLowerCase());
+    const ahead = ((target - receivedAt.getUTCDay() + 7) % 7) || 7;
+    return isoDate(new Date(receivedAt.getTime() + ahead * 86_400_000));
+  }
+  return null;
+}
+
+/** The return date an out-of-office reply mentions ("back on March 3rd", "until 14/03"). */
+export function parseReturnDate(text: string, receivedAt: Date): string | null {
+  const re = /\b(back|return(?:ing|s)?|until|till|through|thru|resume)\b/gi;
+  for (const m of text.matchAll(re)) {
+    const found = parseDateAt(text.slice(m.index! + m[0].length, m.index! + m[0].length + 60), receivedAt);
+    if (found) return found;
+  }
+  return null;
+}
+
+function otherEmail(text: string, fromEmail: string): string | null {
+  for (const m of text.matchAll(/[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi)) {
+    if (m[0].toLowerCase() !== fromEmail.toLowerCase()) return m[0].toLowerCase();
+  }
+  return null;
+}
+
+// Checked in order — the first hit wins, so "not interested, remove me" is an
+// unsubscribe and "not interested" an objection before "interested" matches.
+const RULES: { intent: ReplyIntent; confidence: number; subject?: RegExp; body?: RegExp; from?: RegExp }[] = [
+  { intent: "bounce", confidence: 0.95, from: /^(mailer-daemon|postmaster)@/i,
+    subject: /undeliver|delivery (status notification|has failed|failure)|returned mail|mail delivery (failed|subsystem)|failure notice/i },
+  { intent: "out_of_office", confidence: 0.9,
+    subject: /out of (the )?office|automatic reply|auto[- ]?reply|autoreply|on (vacation|holiday|leave)|\booo\b|away from (the )?office/i,
+    body: /\b(i('m| am)|i will be) (currently )?(out of (the )?office|away|on (annual |parental |maternity |paternity )?(leave|vacation|holiday))|limited access to (my )?e-?mail|will (respond|reply|get back to you) (to your (e-?mail|message) )?(when|upon) (i|my) return/i },
+  { intent: "unsubscribe", confidence: 0.85,
+    body: /\bunsubscribe\b|remove me|take me off|stop (e-?mailing|contacting|sending)|do not (contact|e-?mail)|don'?t (contact|e-?mail)|opt(-| )?out|no (more|further) e-?mails/i },
+  { intent: "referral", confidence: 0.75,
+    body: /wrong person|not the (right|best) (person|contact)|no longer (with|at|work)|(has|have) left (the company|[A-Z])|not my (area|department)|(better|right) person|you should (talk|speak|reach out) to|(reach|reaching) out to [A-Z]|(cc'?d|cc-ing|copying) (my colleague|[A-Z])|handles? (this|that)\b/i },
+  { intent: "meeting_request", confidence: 0.8,
+    body: /\b(book|schedule|set up|arrange|find) (a )?(time|call|meeting|chat|demo|slot)|calendly\.com|what time works|(are|is) you free|available (on|at|this|next|tomorrow)|let'?s (talk|chat|meet|hop on|jump on)|send (me |over )?(a |an )?(calendar )?invite|happy to (jump|hop) on/i },
+  { intent: "objection", confidence: 0.7,
+    body: /\bnot interested\b|no,? thanks|not a (good )?fit|too expensive|no budget|(already )(use|have|work with|using)|not (right )?now|bad timing|we('re| are) (all )?(set|good)|not a priority|circle back (in|next)/i },
+  { intent: "interested", confidence: 0.65,
+    body: /\binterested\b|sounds (good|great|interesting)|tell me more|more (info|information|details)|learn more|keen to|love to|would like to (hear|see|know)|send (me )?(some )?(more|details|pricing)|\bpricing\b/i },
+];
+
+export function classifyByRules(input: ReplyInput): ReplyClassification {
+  const text = stripQuoted(input.text);
+  const none: ReplyClassification = { intent: null, confidence: 0, returnDate: null, referralEmail: null, source: "rules" };
+  for (const r of RULES) {
+    const hit = (r.from?.test(input.fromEmail) ?? false)
+      || (r.subject?.test(input.subject || "") ?? false)
+      || (r.body?.test(text) ?? false);
+    if (!hit) continue;
+    return {
+      ...none,
+      intent: r.intent,
+      confidence: r.confidence,
+      returnDate: r.intent === "out_of_office" ? parseReturnDate(`${input.subject}\n${text}`, input.receivedAt) : null,
+      referralEmail: r.intent === "referral" ? otherEmail(text, input.fromEmail) : null,
+    };
+  }
+  return none;
+}
+
+const SYSTEM = `You classify replies to B2B sales outreach emails. Pick exactly one intent:
+interested — positive, wants to learn more;
+meeting_request — asks for or proposes a call/meeting/time;
+objection — declines or raises a reason not to buy (price, timing, already has a vendor);
+out_of_office — an automatic away/vacation reply;
+referral — the sender is the wrong person and/or points to someone else;
+unsubscribe — asks not to be contacted again;
+bounce — a delivery failure notification;
+other — none of these.
+For out_of_office give return_date (YYYY-MM-DD) if stated. For referral give referral_email if an address is given.`;
+
+async function classifyWithAi(apiKey: string, input: ReplyInput, text: string): Promise<ReplyClassification | null> {
+  const res = await fetch(`${geminiEndpoint(AI_MODELS.text)}?key=${apiKey}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      systemInstruction: { parts: [{ text: SYSTEM }] },
+      contents: [{ role: "user", parts: [{ text: `Received: ${isoDate(input.receivedAt)}\nFrom: ${input.fromEmail}\nSubject: ${input.subject}\n\n${text.slice(0, 4000)}` }] }],
+      generationConfig: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: "OBJECT",
+          properties: {
+            intent: { type: "STRING", enum: [...REPLY_INTENTS, "other"] },
+            confidence: { type: "NUMBER" },
+            return_date: { type: "STRING" },
+            referral_email: { type: "STRING" },
+          },
+          required: ["intent", "confidence"],
+        },
+        temperature: 0,
+        maxOutputTokens: 256,
+        thinkingConfig: { thinkingBudget: 0 },
+      },
+    }),
+  });
+  if (!res.ok) throw new Error(`Gemini API error ${res.status}: ${(await res.text()).slice(0, 200)}`);
+  const data = await res.json();
+  const out = JSON.parse(data?.candidates?.[0]?.content?.parts?.[0]?.text ?? "{}") as
+    { intent?: string; confidence?: number; return_date?: string; referral_email?: string };
+  if (!out.intent) return null;
+  const intent = (REPLY_INTENTS as readonly string[]).includes(out.intent) ? out.intent as ReplyIntent : null;
+  return {
+    intent,
+    confidence: Math.max(0, Math.min(1, Number(out.confidence) || 0)),
+    returnDate: intent === "out_of_office" && /^\d{4}-\d{2}-\d{2}$/.test(out.return_date ?? "") ? out.return_date! : null,
+    referralEmail: intent === "referral" && out.referral_email?.includes("@") ? out.referral_email.toLowerCase() : null,
+    source: "ai",
+  };
+}
+
+interface QuotaClient { rpc(fn: string, args: Record<string, unknown>): PromiseLike<{ data: unknown; error: unknown }> }
+
+/**
+ * Classify a reply. Uses Gemini when a key is configured and the workspace is
+ * under its AI ceiling; falls back to the rules on any AI error or refusal.
+ */
+export async function classifyReply(
+  admin: QuotaClient, workspaceId: string | null, input: ReplyInput,
+): Promise<ReplyClassification> {
+  const rules = classifyByRules(input);
+  if (rules.intent === "bounce" || rules.intent === "out_of_office") return rules;
+
+  const apiKey = Deno.env.get("GEMINI_API_KEY") ?? "";
+  const text = stripQuoted(input.text);
+  if (!apiKey || !workspaceId || !text) return rules;
+  try {
+    const { data, error } = await admin.rpc("enforce_ai_proxy_quota_ws", {
+      p_workspace_id: workspaceId, p_operation: "reply_classification", p_kind: "content",
+    });
+    if (error || (data as { allowed?: boolean } | null)?.allowed === false) return rules;
+    const ai = await classifyWithAi(apiKey, input, text);
+    if (!ai) return rules;
+    return {
+      ...ai,
+      returnDate: ai.returnDate ?? (ai.intent === "out_of_office" ? parseReturnDate(text, input.receivedAt) : null),
+      referralEmail: ai.referralEmail ?? (ai.intent === "referral" ? otherEmail(text, input.fromEmail) : null),
+    };
+  } catch (e) {
+    console.warn(`[reply-intent] AI classification failed, using rules: ${(e as Error).message}`);
+    return rules;
+  }
+}
@@ -0,0 +1,135 @@
+// Shared SMTP sender (implicit TLS on 465, STARTTLS otherwise, AUTH LOGIN).
+// Used by send-email for smtp/gmail senders and by process-warmup, which adds
+// its own Message-ID and X-Scaliyo-Warmup headers via extraHeaders.
+
+export interface SmtpCreds {
+  smtp_host?: string;
+  smtp_port?: number;
+  smtp_user?: string;
+  smtp_pass?: string;
+  from_name?: string;
+}
+
+export async function sendViaSmtp(
+  to: string,
+  from: string,
+  subject: string,
+  html: string,
+  creds: SmtpCreds,
+  inReplyTo?: string,
+  extraHeaders: Record<string, string> = {},
+): Promise<{ success: boolean; providerMessageId?: string; error?: string }> {
+  const host = creds.smtp_host;
+  if (!host)
+    return {
+      success: false,
+      error:
+        "SMTP host not configured. Go to Settings → Integrations → SMTP/Gmail to add your credentials.",
+    };
+
+  try {
+    const port = creds.smtp_port ?? 587;
+    const encoder = new TextEncoder();
+    const decoder = new TextDecoder();
+
+    // Port 465 = implicit TLS (SMTPS) — connect with TLS directly
+    // Port 587/25 = plain connect, then upgrade via STARTTLS
+    let activeConn: Deno.Conn;
+    if (port === 465) {
+      activeConn = await Deno.connectTls({ hostname: host, port });
+    } else {
+      activeConn = await Deno.connect({ hostname: host, port });
+    }
+
+    // Read a full SMTP response (handles multi-line responses like EHLO)
+    // Multi-line: "250-..." continuation, final line: "250 ..."
+    async function readResponse(): Promise<string> {
+      let full = "";
+      const buf = new Uint8Array(4096);
+      while (true) {
+        const n = await activeConn.read(buf);
+        if (!n) break;
+        full += decoder.decode(buf.subarray(0, n));
+        // Check if we have a complete response:
+        // Final line starts with "NNN " (code + space) or is a single-line response
+        const lines = full.trimEnd().split("\n");
+        const lastLine = lines[lines.length - 1].trimStart();
+        if (/^\d{3}\s/.test(lastLine) || /^\d{3}$/.test(lastLine)) break;
+      }
+      return full.trim();
+    }
+
+    async function send(cmd: string): Promise<string> {
+      await activeConn.write(encoder.encode(cmd + "\r\n"));
+      return await readResponse();
+    }
+
+    // Read server greeting
+    await readResponse();
+
+    // Initial EHLO
+    const ehloResp = await send("EHLO localhost");
+
+    // For non-465 ports: upgrade to TLS if server supports STARTTLS
+    if (port !== 465 && (ehloResp.includes("STARTTLS") || port === 587)) {
+      const starttlsResp = await send("STARTTLS");
+      if (starttlsResp.startsWith("220")) {
+        const tlsConn = await (Deno as any).startTls(activeConn, { hostname: host });
+        activeConn = tlsConn;
+        // Re-issue EHLO after TLS upgrade (required by RFC 3207)
+        await send("EHLO localhost");
+      }
+    }
+
+    if (creds.smtp_user && creds.smtp_pass) {
+      await send("AUTH LOGIN");
+      await send(btoa(creds.smtp_user));
+      const authResp = await send(btoa(creds.smtp_pass));
+      if (authResp.startsWith("535") || authResp.startsWith("534")) {
+        activeConn.close();
+        return { success: false, error: `SMTP authentication failed: ${authResp}` };
+      }
+    }
+
+    const fromDisplay = creds.from_name
+      ? `${creds.from_name} <${from}>`
+      : from;
+
+    await send(`MAIL FROM:<${from}>`);
+    await send(`RCPT TO:<${to}>`);
+    await send("DATA");
+
+    const boundary = `boundary-${crypto.randomUUID()}`;
+    // Thread the reply into the original conversation when replying.
+    const threadId = inReplyTo ? `<${inReplyTo.replace(/^<|>$/g, "")}>` : "";
+    const message = [
+      `From: ${fromDisplay}`,
+      `To: ${to}`,
+      `Subject: ${subject}`,
+      ...(threadId ? [`In-Reply-To: ${threadId}`, `References: ${threadId}`] : []),
+      ...Object.entries(extraHeaders).map(([k, v]) => `${k}: ${v}`),
+      `MIME-Version: 1.0`,
+      `Content-Type: multipart/alternative; boundary="${boundary}"`,
+      ``,
+      `--${boundary}`,
+      `Content-Type: text/html; charset=UTF-8`,
+      ``,
+      html,
+      ``,
+      `--${boundary}--`,
+      `.`,
+    ].join("\r\n");
+
+    const resp = await send(message);
+    await send("QUIT");
+    activeConn.close();
+
+    const idMatch = resp.match(/<([^>]+)>/);
+    return {
+      success: true,
+      providerMessageId: idMatch?.[1] ?? undefined,
+    };
+  } catch (err) {
+    return { success: false, error: `SMTP error: ${(err as Error).message}` };
+  }
+}
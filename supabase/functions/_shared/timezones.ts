@@ -0,0 +1,28 @@
+// Local wall-clock helpers for per-lead send scheduling. Lead zones come from
+// leads.timezone / leads.inferred_timezone (see 20260823130000_lead_timezones);
+// these only turn an instant into hour + weekday in a zone.
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let f = formatters.get(timeZone);
+  if (!f) {
+    f = new Intl.DateTimeFormat("en-US", { timeZone, hour: "numeric", hour12: false, weekday: "short" });
+    formatters.set(timeZone, f);
+  }
+  return f;
+}
+
+/** True when Intl knows the zone. */
+export function isValidTimezone(tz: string | null | undefined): tz is string {
+  if (!tz) return false;
+  try { formatterFor(tz); return true; } catch { return false; }
+}
+
+/** Hour (0-23) and short weekday ("Mon") of `at` in `timeZone`; UTC if the zone is unknown. */
+export function zonedParts(timeZone: string | null | undefined, at: Date = new Date()): { hour: number; weekday: string } {
+  const parts = formatterFor(isValidTimezone(timeZone) ? timeZone : "UTC").formatToParts(at);
+  let hour = parseInt(parts.find(p => p.type === "hour")?.value ?? "0", 10);
+  if (hour === 24) hour = 0;
+  return { hour, weekday: parts.find(p => p.type === "weekday")?.value ?? "" };
+}
@@ -0,0 +1,24 @@
+// A/B lanes for sequence steps. Lane 0 is the step's main subject / body /
+// CTA; lane n uses the (n-1)th alternate of each, falling back to the main
+// one where a part has fewer alternates.
+
+export function laneValue(main: string, extras: string[] | null | undefined, lane: number): string {
+  return lane === 0 ? main : (extras?.[lane - 1] ?? main);
+}
+
+/** Number of lanes a step has: the longest alternate list plus the main one. */
+export function laneCount(...extras: (string[] | null | undefined)[]): number {
+  return Math.max(0, ...extras.map(e => e?.length ?? 0)) + 1;
+}
+
+/**
+ * Place the CTA line in a body: at {{cta}} when the body has one, else as a
+ * closing paragraph. An empty CTA just removes the token.
+ */
+export function withCta(body: string, cta: string | null | undefined): string {
+  const line = (cta ?? "").trim();
+  if (/\{\{\s*cta\s*\}\}/i.test(body)) return body.replace(/\{\{\s*cta\s*\}\}/gi, line);
+  if (!line) return body;
+  const html = /<(p|br|div|ul|ol|table|a|strong|em|span|h[1-6])\b/i.test(body);
+  return html ? `${body}<p>${line}</p>` : `${body.replace(/\s+$/, "")}\n\n${line}`;
+}
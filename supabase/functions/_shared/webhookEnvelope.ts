@@ -0,0 +1,88 @@
+// supabase/functions/_shared/webhookEnvelope.ts
+//
+// Delivery body layouts for outbound webhooks, one per
+// webhook_endpoints.payload_version (migration 20260823180000), and the
+// per-endpoint event filter. AuraEngine/lib/webhookSchemas.ts renders the same
+// layouts for the event reference — keep the two in step.
+//
+//   v1  { id, event_type, version, created_at, workspace_id, payload }
+//   v2  { id, event_type, version, payload_version: 2, created_at,
+//         workspace_id, replayed, data: { object, previous } }
+//
+// In v2, payload keys that describe the prior state move to data.previous:
+// previous_<k> and old_<k> become previous.<k>, and new_<k> becomes
+// object.<k>. Everything else stays on data.object.
+
+import { evaluateCondition, type ConditionGroup } from "./workflow/conditions.ts";
+import type { Lead } from "./workflow/types.ts";
+
+export const PAYLOAD_VERSIONS = [1, 2] as const;
+export type PayloadVersion = typeof PAYLOAD_VERSIONS[number];
+
+export interface EnvelopeInput {
+  delivery_id:    string;
+  event_type:     string;
+  workspace_id:   string;
+  payload:        unknown;
+  schema_version: number;
+  created_at:     string;
+  replay_count:   number;
+}
+
+/** Split a flat payload into its current state and the values it changed from. */
+export function splitPrevious(payload: Record<string, unknown>): {
+  object: Record<string, unknown>;
+  previous: Record<string, unknown> | null;
+} {
+  const object: Record<string, unknown> = {};
+  const previous: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(payload)) {
+    const prior = /^(?:previous|old)_(.+)$/.exec(key);
+    const next = /^new_(.+)$/.exec(key);
+    if (prior) previous[prior[1]] = value;
+    else if (next) object[next[1]] = value;
+    else object[key] = value;
+  }
+  return { object, previous: Object.keys(previous).length > 0 ? previous : null };
+}
+
+export function buildWebhookBody(d: EnvelopeInput, version: number): Record<string, unknown> {
+  const base = {
+    id:           d.delivery_id,
+    event_type:   d.event_type,
+    version:      d.schema_version ?? 1,
+  };
+  if (version === 2) {
+    const flat = (d.payload && typeof d.payload === "object" ? d.payload : {}) as Record<string, unknown>;
+    return {
+      ...base,
+      payload_version: 2,
+      created_at:      d.created_at,
+      workspace_id:    d.workspace_id,
+      replayed:        (d.replay_count ?? 0) > 0,
+      data:            splitPrevious(flat),
+    };
+  }
+  return {
+    ...base,
+    created_at:   d.created_at,
+    workspace_id: d.workspace_id,
+    payload:      d.payload,
+  };
+}
+
+/**
+ * True when the endpoint wants this event. Filters are keyed by event type;
+ * an event with no entry (or an empty group) always passes. Rules read the
+ * flat payload, so `status`, `tags`, `custom_fields.<key>` etc. work as in
+ * lead segments.
+ */
+export function passesWebhookFilter(
+  filters: Record<string, ConditionGroup> | null | undefined,
+  eventType: string,
+  payload: unknown,
+): boolean {
+  const group = filters?.[eventType];
+  if (!group || !Array.isArray(group.rules) || group.rules.length === 0) return true;
+  return evaluateCondition(group, (payload ?? {}) as Lead);
+}
@@ -0,0 +1,241 @@
+// supabase/functions/_shared/workflow/conditions.ts
+//
+// Deno port of AuraEngine/lib/leadConditions.ts — the AND/OR condition
+// language used by workflow condition nodes and Lead Management segment
+// filters. A condition must branch the same way in the runner as in a builder
+// test run, so keep the two in lock-step when either changes.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { Lead, WorkflowNode } from "./types.ts";
+
+export type ConditionOperator =
+  | "eq" | "neq" | "gt" | "gte" | "lt" | "lte"
+  | "contains" | "not_contains"
+  | "matches"
+  | "in" | "not_in"
+  | "exists" | "not_exists"
+  | "between"
+  | "older_than_days" | "within_days";
+
+export type ConditionValue = string | number | boolean | (string | number)[];
+
+export interface ConditionRule {
+  field: string;
+  operator: ConditionOperator;
+  value?: ConditionValue;
+  valueTo?: number;
+}
+
+export interface ConditionGroup {
+  combinator: "and" | "or";
+  rules: ConditionExpr[];
+}
+
+export type ConditionExpr = ConditionRule | ConditionGroup;
+
+export interface ConditionContext {
+  scores?: Record<string, unknown> | null;
+  engagement?: { hasSent: boolean; hasOpened: boolean; hasClicked: boolean; openCount: number } | null;
+  now?: number;
+}
+
+const DAY_MS = 86_400_000;
+const CUSTOM_FIELD_PREFIX = "custom_fields.";
+
+const FIELD_LABELS: Record<string, string> = {
+  score: "Lead Score", status: "Status", company: "Company", title: "Job Title", industry: "Industry",
+  company_size: "Company Size", location: "Location", source: "Source", primary_email: "Email Address",
+  assigned_to: "Assigned To", tags: "Tags", created_at: "Created", last_activity: "Last Activity",
+  "lead_scores.fit_score": "Fit Score", "lead_scores.intent_score": "Intent Score",
+  "lead_scores.engagement_score": "Engagement Score", "lead_scores.data_quality_score": "Data Quality Score",
+  "lead_scores.deliverability_score": "Deliverability Score", "lead_scores.urgency_score": "Urgency Score",
+  "lead_scores.risk_score": "Risk Penalty", "lead_scores.confidence": "Score Confidence (0-1)",
+  "email.sent": "Emailed", "email.opened": "Opened (30d)", "email.clicked": "Clicked (30d)",
+  "email.open_count": "Opens (30d)",
+};
+
+const OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  eq: "is", neq: "is not", gt: "greater than", gte: "at least", lt: "less than", lte: "at most",
+  between: "between", contains: "contains", not_contains: "does not contain", matches: "matches pattern", in: "is one of",
+  not_in: "is none of", older_than_days: "more than N days ago", within_days: "within the last N days",
+  exists: "is set", not_exists: "is empty",
+};
+
+const BOOLEAN_FIELDS = new Set(["email.sent", "email.opened", "email.clicked"]);
+
+function isGroup(expr: ConditionExpr): expr is ConditionGroup {
+  return (expr as ConditionGroup).rules !== undefined;
+}
+
+function fieldsOf(expr: ConditionExpr): string[] {
+  return isGroup(expr) ? expr.rules.flatMap(fieldsOf) : [expr.field];
+}
+
+/** The node's rule tree, upgrading a legacy single field/operator/value config. */
+export function nodeCondition(node: WorkflowNode): ConditionGroup {
+  if (node.condition) return node.condition;
+  const legacyFields: Record<string, string> = { email_opened: "email.opened", email_clicked: "email.clicked" };
+  const rawField = (node.config.field as string) || "score";
+  const field = legacyFields[rawField] ?? rawField;
+  const operator = ((node.config.operator as string) || "gt") as ConditionOperator;
+  if (BOOLEAN_FIELDS.has(field) && (operator === "gt" || operator === "eq")) {
+    return { combinator: "and", rules: [{ field, operator: "eq", value: true }] };
+  }
+  return { combinator: "and", rules: [{ field, operator, value: node.config.value as ConditionValue }] };
+}
+
+/** Loads only the out-of-row data the expression reads (lead_scores row, 30-day email engagement). */
+export async function loadConditionContext(
+  admin: ReturnType<typeof createClient>,
+  expr: ConditionExpr,
+  leadId: string,
+): Promise<ConditionContext> {
+  const fields = fieldsOf(expr);
+  const ctx: ConditionContext = {};
+  if (fields.some((f) => f.startsWith("lead_scores."))) {
+    const { data } = await admin.from("lead_scores").select("*").eq("lead_id", leadId).maybeSingle();
+    ctx.scores = data ?? null;
+  }
+  if (fields.some((f) => f.startsWith("email."))) {
+    const { data: messages } = await admin.from("email_messages").select("id").eq("lead_id", leadId);
+    const ids = ((messages ?? []) as { id: string }[]).map((m) => m.id);
+    const engagement = { hasSent: ids.length > 0, hasOpened: false, hasClicked: false, openCount: 0 };
+    if (ids.length > 0) {
+      const { data: events } = await admin
+        .from("email_events")
+        .select("event_type")
+        .in("message_id", ids)
+        .eq("is_bot", false)
+        .gte("created_at", new Date(Date.now() - 30 * DAY_MS).toISOString())
+        .in("event_type", ["open", "click"]);
+      for (const ev of (events ?? []) as { event_type: string }[]) {
+        if (ev.event_type === "open") { engagement.hasOpened = true; engagement.openCount++; }
+        if (ev.event_type === "click") engagement.hasClicked = true;
+      }
+    }
+    ctx.engagement = engagement;
+  }
+  return ctx;
+}
+
+function resolveField(field: string, lead: Lead, ctx: ConditionContext): unknown {
+  if (field.startsWith(CUSTOM_FIELD_PREFIX)) return lead.custom_fields?.[field.slice(CUSTOM_FIELD_PREFIX.length)];
+  if (field.startsWith("lead_scores.")) return ctx.scores?.[field.slice("lead_scores.".length)];
+  if (field.startsWith("email.")) {
+    const e = ctx.engagement;
+    switch (field) {
+      case "email.sent": return e?.hasSent ?? false;
+      case "email.opened": return e?.hasOpened ?? false;
+      case "email.clicked": return e?.hasClicked ?? false;
+      case "email.open_count": return e?.openCount ?? 0;
+      default: return undefined;
+    }
+  }
+  if (field === "primary_email") return lead.primary_email || lead.email;
+  if (field === "last_activity") return lead.last_activity || lead.lastActivity;
+  return lead[field];
+}
+
+const isBlank = (v: unknown) =>
+  v === undefined || v === null || (typeof v === "string" && v.trim() === "") || (Array.isArray(v) && v.length === 0);
+
+const norm = (v: unknown) => String(v).trim().toLowerCase();
+
+function listOf(value: ConditionValue | undefined): string[] {
+  if (Array.isArray(value)) return value.map(norm);
+  if (value === undefined || value === "") return [];
+  return String(value).split(",").map(norm).filter(Boolean);
+}
+
+function patternOf(value: ConditionValue | undefined): RegExp | null {
+  try {
+    return new RegExp(String(value ?? ""), "i");
+  } catch {
+    return null;
+  }
+}
+
+function sameValue(actual: unknown, expected: ConditionValue | undefined): boolean {
+  if (typeof actual === "boolean") return actual === (expected === true || norm(expected) === "true");
+  if (typeof actual === "number" && expected !== "" && !Number.isNaN(Number(expected))) return actual === Number(expected);
+  return norm(actual) === norm(expected);
+}
+
+function evaluateRule(rule: ConditionRule, lead: Lead, ctx: ConditionContext): boolean {
+  const actual = resolveField(rule.field, lead, ctx);
+  const { operator, value } = rule;
+
+  if (operator === "exists") return !isBlank(actual);
+  if (operator === "not_exists") return isBlank(actual);
+  if (isBlank(actual)) return operator === "neq" || operator === "not_contains" || operator === "not_in";
+
+  switch (operator) {
+    case "eq": return sameValue(actual, value);
+    case "neq": return !sameValue(actual, value);
+    case "gt": return Number(actual) > Number(value);
+    case "gte": return Number(actual) >= Number(value);
+    case "lt": return Number(actual) < Number(value);
+    case "lte": return Number(actual) <= Number(value);
+    case "between": {
+      const n = Number(actual);
+      return n >= Number(value) && n <= Number(rule.valueTo);
+    }
+    case "contains":
+    case "not_contains": {
+      const hit = Array.isArray(actual)
+        ? actual.some((a) => norm(a) === norm(value))
+        : norm(actual).includes(norm(value));
+      return operator === "contains" ? hit : !hit;
+    }
+    case "matches": {
+      const re = patternOf(value);
+      if (!re) return false;
+      return Array.isArray(actual) ? actual.some((a) => re.test(String(a))) : re.test(String(actual));
+    }
+    case "in":
+    case "not_in": {
+      const allowed = listOf(value);
+      const hit = Array.isArray(actual) ? actual.some((a) => allowed.includes(norm(a))) : allowed.includes(norm(actual));
+      return operator === "in" ? hit : !hit;
+    }
+    case "older_than_days":
+    case "within_days": {
+      const t = new Date(String(actual)).getTime();
+      if (Number.isNaN(t)) return false;
+      const ageDays = ((ctx.now ?? Date.now()) - t) / DAY_MS;
+      return operator === "older_than_days" ? ageDays > Number(value) : ageDays <= Number(value);
+    }
+    default:
+      return false;
+  }
+}
+
+export function evaluateCondition(expr: ConditionExpr, lead: Lead, ctx: ConditionContext = {}): boolean {
+  if (!isGroup(expr)) return evaluateRule(expr, lead, ctx);
+  if (expr.rules.length === 0) return true;
+  return expr.combinator === "or"
+    ? expr.rules.some((r) => evaluateCondition(r, lead, ctx))
+    : expr.rules.every((r) => evaluateCondition(r, lead, ctx));
+}
+
+function describeValue(rule: ConditionRule): string {
+  if (rule.operator === "between") return `${rule.value} and ${rule.valueTo}`;
+  if (rule.operator === "older_than_days" || rule.operator === "within_days") return `${rule.value} days`;
+  if (Array.isArray(rule.value)) return rule.value.join(", ");
+  return String(rule.value ?? "");
+}
+
+export function describeCondition(expr: ConditionExpr): string {
+  if (!isGroup(expr)) {
+    const label = FIELD_LABELS[expr.field] ??
+      (expr.field.startsWith(CUSTOM_FIELD_PREFIX) ? expr.field.slice(CUSTOM_FIELD_PREFIX.length) : expr.field);
+    const op = OPERATOR_LABELS[expr.operator] ?? expr.operator;
+    if (expr.operator === "exists" || expr.operator === "not_exists") return `${label} ${op}`;
+    return `${label} ${op} ${describeValue(expr)}`;
+  }
+  if (expr.rules.length === 0) return "any lead";
+  const joiner = expr.combinator === "or" ? " OR " : " AND ";
+  return expr.rules
+    .map((r) => (isGroup(r) && r.rules.length > 1 ? `(${describeCondition(r)})` : describeCondition(r)))
+    .join(joiner);
+}
@@ -0,0 +1,54 @@
+// supabase/functions/_shared/workflow/graph.ts
+//
+// Deno port of the graph helpers in AuraEngine/lib/automationEngine.ts
+// (linearEdges / resolveEdges / topoSortNodes / isEdgeTaken). The runner must
+// walk a workflow exactly the way a builder test run does, so keep the two in
+// lock-step when either changes.
+
+import type { NodeStatus, WorkflowEdge, WorkflowNode } from "./types.ts";
+
+/** Legacy flat workflows: each node flows into the next; a failed condition ends the run. */
+function linearEdges(nodes: WorkflowNode[]): WorkflowEdge[] {
+  const edges: WorkflowEdge[] = [];
+  for (let i = 0; i < nodes.length - 1; i++) {
+    const branch = nodes[i].type === "condition" ? "yes" : undefined;
+    const id = branch ? `e-${nodes[i].id}-${branch}-${nodes[i + 1].id}` : `e-${nodes[i].id}-${nodes[i + 1].id}`;
+    edges.push({ id, source: nodes[i].id, target: nodes[i + 1].id, branch });
+  }
+  return edges;
+}
+
+export function resolveEdges(nodes: WorkflowNode[], edges: WorkflowEdge[] | null): WorkflowEdge[] {
+  if (!edges || edges.length === 0) return linearEdges(nodes);
+  const ids = new Set(nodes.map((n) => n.id));
+  return edges.filter((e) => ids.has(e.source) && ids.has(e.target));
+}
+
+/** Stable Kahn's algorithm. Returns null when the graph has a cycle. */
+export function topoSortNodes(nodes: WorkflowNode[], edges: WorkflowEdge[]): WorkflowNode[] | null {
+  const indegree = new Map(nodes.map((n) => [n.id, 0]));
+  for (const e of edges) indegree.set(e.target, (indegree.get(e.target) ?? 0) + 1);
+
+  const sorted: WorkflowNode[] = [];
+  const done = new Set<string>();
+  while (sorted.length < nodes.length) {
+    const next = nodes.find((n) => !done.has(n.id) && indegree.get(n.id) === 0);
+    if (!next) return null;
+    sorted.push(next);
+    done.add(next.id);
+    for (const e of edges) {
+      if (e.source === next.id) indegree.set(e.target, (indegree.get(e.target) ?? 0) - 1);
+    }
+  }
+  return sorted;
+}
+
+export function entryNodeIds(nodes: WorkflowNode[], edges: WorkflowEdge[]): string[] {
+  const incoming = new Set(edges.map((e) => e.target));
+  return nodes.filter((n) => !incoming.has(n.id)).map((n) => n.id);
+}
+
+export function isEdgeTaken(node: WorkflowNode, edge: WorkflowEdge, status: NodeStatus): boolean {
+  if (node.type !== "condition") return true;
+  return (edge.branch ?? "yes") === (status === "pass" ? "yes" : "no");
+}
@@ -0,0 +1,382 @@
+// supabase/functions/_shared/workflow/nodes.ts
+//
+// Server-side node execution for workflow-runner. Mirrors executeNode() in
+// AuraEngine/lib/automationEngine.ts node-for-node, with two differences:
+//   • `wait` really waits — it returns resumeAt and the runner parks the run.
+//   • Everything runs as service role on behalf of the workflow owner
+//     (emails via send-email with owner_id, integration secrets decrypted
+//     with app_decrypt_jsonb).
+
+import { decryptCredentials } from "../tokenCrypto.ts";
+import { openSession, pushLeads } from "../crm/sync.ts";
+import { enforceGoalQuota, geminiGenerate } from "../goal-steps/gemini.ts";
+import { describeCondition, evaluateCondition, loadConditionContext, nodeCondition } from "./conditions.ts";
+import type { Lead, NodeContext, NodeResult, WorkflowNode } from "./types.ts";
+
+const DAY_MS = 86_400_000;
+
+function leadName(lead: Lead): string {
+  const full = [lead.first_name, lead.last_name].filter(Boolean).join(" ");
+  return full || lead.primary_email || "Unknown lead";
+}
+
+/** Subset of lib/personalization.ts resolvePersonalizationTags — lead fields only. */
+function personalize(text: string, lead: Lead): string {
+  const kb = lead.knowledgeBase ?? {};
+  const fullName = [lead.first_name, lead.last_name].filter(Boolean).join(" ");
+  const insights = lead.insights ?? "";
+  const tags: Record<string, string> = {
+    first_name: lead.first_name ?? "",
+    last_name: lead.last_name ?? "",
+    full_name: fullName,
+    name: fullName,
+    lead_name: fullName,
+    company: lead.company ?? "",
+    email: lead.primary_email ?? "",
+    title: kb.title ?? "",
+    job_title: kb.title ?? "",
+    industry: kb.industry ?? "",
+    location: kb.location ?? "",
+    company_overview: kb.companyOverview ?? "",
+    talking_point: kb.talkingPoints?.[0] ?? "",
+    outreach_angle: kb.outreachAngle ?? "",
+    mentioned_on_website: kb.mentionedOnWebsite ?? "",
+    company_size: kb.employeeCount ?? "",
+    employee_count: kb.employeeCount ?? "",
+    ai_insight: insights,
+    insights,
+    insight_1: insights,
+    recent_activity: lead.last_activity ?? insights,
+    score: lead.score != null ? String(lead.score) : "",
+  };
+  // Unknown tags resolve to "" so raw placeholders never reach customers.
+  return text.replace(/\{\{([a-z_0-9]+)\}\}/gi, (_m, key: string) => tags[key.toLowerCase()] ?? "");
+}
+
+/** Same slots as calculateScheduledTime() in the browser, evaluated in UTC. */
+function scheduledTime(timing: string): Date {
+  const now = new Date();
+  const at = new Date(now);
+  const nextAt = (h: number, m: number) => {
+    at.setUTCHours(h, m, 0, 0);
+    if (at <= now) at.setUTCDate(at.getUTCDate() + 1);
+  };
+  if (timing === "morning") nextAt(9, 0);
+  else if (timing === "afternoon") nextAt(14, 0);
+  else if (timing === "optimal") {
+    nextAt(10, 30);
+    const day = at.getUTCDay();
+    if (day === 0) at.setUTCDate(at.getUTCDate() + 1);
+    if (day === 6) at.setUTCDate(at.getUTCDate() + 2);
+  }
+  return at;
+}
+
+async function loadIntegration(ctx: NodeContext, provider: string) {
+  const { data } = await ctx.admin
+    .from("integrations")
+    .select("status, credentials")
+    .eq("owner_id", ctx.userId)
+    .eq("provider", provider)
+    .limit(1)
+    .maybeSingle();
+  if (!data || data.status !== "connected") return null;
+  return ((await decryptCredentials(ctx.admin, data.credentials)) ?? {}) as Record<string, string>;
+}
+
+async function audit(ctx: NodeContext, action: string, details: string) {
+  return await ctx.admin.from("audit_logs").insert({ user_id: ctx.userId, action, details });
+}
+
+function executeTrigger(node: WorkflowNode, lead: Lead): NodeResult {
+  const triggerType = node.config.triggerType as string;
+  switch (triggerType) {
+    case "lead_created":
+      return { status: "pass", message: `Trigger matched — lead "${leadName(lead)}" exists in pipeline` };
+    case "score_change": {
+      const threshold = Number(node.config.threshold) || 50;
+      const score = Number(lead.score ?? 0);
+      if (score >= threshold) return { status: "pass", message: `Lead score ${score} meets threshold ${threshold}` };
+      return { status: "skip", message: `Lead score ${score} below threshold ${threshold}` };
+    }
+    case "status_change": {
+      const toStatus = node.config.toStatus as string | undefined;
+      if (toStatus && lead.status !== toStatus) {
+        return { status: "skip", message: `Lead status is "${lead.status}", not "${toStatus}"` };
+      }
+      return { status: "pass", message: `Trigger matched — lead status is "${lead.status}"` };
+    }
+    case "time_elapsed":
+      return { status: "pass", message: "Scheduled trigger — proceeding" };
+    case "tag_added":
+      return { status: "pass", message: "Custom trigger — proceeding" };
+    default:
+      return { status: "pass", message: `Trigger "${triggerType}" matched` };
+  }
+}
+
+async function executeCondition(ctx: NodeContext, node: WorkflowNode, lead: Lead): Promise<NodeResult> {
+  const condition = nodeCondition(node);
+  const conditionCtx = await loadConditionContext(ctx.admin, condition, lead.id);
+  const text = describeCondition(condition);
+  if (evaluateCondition(condition, lead, conditionCtx)) return { status: "pass", message: `Condition met: ${text}` };
+  return { status: "skip", message: `Condition not met: ${text} — taking the "no" branch` };
+}
+
+function executeWait(node: WorkflowNode): NodeResult {
+  const n = Number(node.config.days);
+  const days = Number.isFinite(n) ? Math.max(0, n) : 1;
+  const resumeAt = new Date(Date.now() + days * DAY_MS).toISOString();
+  return { status: "pass", message: `Waiting ${days} day(s) — resumes ${resumeAt}`, resumeAt };
+}
+
+async function aiRewrite(ctx: NodeContext, lead: Lead, subject: string, htmlBody: string) {
+  const quota = await enforceGoalQuota(ctx.admin, ctx.workspaceId, "workflow_email_personalization");
+  if (!quota.allowed) return null;
+  const { text } = await geminiGenerate(
+    ctx.geminiApiKey,
+    `Rewrite the following email to feel more natural and tailored to this specific prospect. Keep the overall structure and CTA intact. Keep the body under 200 words. Output HTML for the body.
+
+PROSPECT CONTEXT:
+Name: ${leadName(lead)}
+Company: ${lead.company ?? ""}
+Score: ${lead.score ?? 0}/100
+${lead.insights ? `Insights: ${lead.insights}` : ""}
+
+CURRENT SUBJECT:
+${subject}
+
+CURRENT BODY:
+${htmlBody}
+
+Respond in EXACTLY this format:
+SUBJECT: [rewritten subject line]
+BODY: [rewritten HTML email body]`,
+    "You are an expert B2B email copywriter. Rewrite emails to feel personally crafted for each recipient. Keep them concise, human, and action-oriented. Always use the exact output format requested.",
+  );
+  const m = text.match(/SUBJECT:\s*(.+?)\s*BODY:\s*([\s\S]+)/);
+  return m ? { subject: m[1].trim(), htmlBody: m[2].trim() } : null;
+}
+
+async function emailFallback(
+  ctx: NodeContext, node: WorkflowNode, lead: Lead, errMsg: string, content: { subject: string; htmlBody: string },
+): Promise<NodeResult> {
+  switch ((node.config.fallbackAction as string) || "skip") {
+    case "create_alert":
+      await audit(ctx, "AUTOMATION_ALERT",
+        `Fallback alert: Email to ${leadName(lead)} (${lead.primary_email}) failed at node "${node.title}". Error: ${errMsg}`);
+      return { status: "pass", message: `Email failed but fallback alert created. Error: ${errMsg}` };
+    case "create_task":
+      await audit(ctx, "AUTOMATION_TASK_CREATED",
+        `Fallback task: Manually send email to ${leadName(lead)} (${lead.primary_email}). Original node: "${node.title}". Error: ${errMsg}`);
+      return { status: "pass", message: `Email failed but follow-up task created. Error: ${errMsg}` };
+    case "retry": {
+      const retryAt = new Date(Date.now() + 60 * 60 * 1000);
+      const { error } = await ctx.admin.from("scheduled_emails").insert({
+        owner_id: ctx.userId,
+        lead_id: lead.id,
+        to_email: lead.primary_email,
+        subject: content.subject,
+        html_body: content.htmlBody,
+        scheduled_at: retryAt.toISOString(),
+        block_index: 0,
+        sequence_id: `retry-${node.id}-${Date.now()}`,
+        status: "pending",
+      });
+      if (error) return { status: "fail", message: `Email failed and retry scheduling also failed: ${error.message}` };
+      return { status: "pass", message: `Email failed but retry scheduled for ${retryAt.toISOString()}. Error: ${errMsg}` };
+    }
+    default:
+      return { status: "pass", message: `Email failed, skipping per fallback config. Error: ${errMsg}` };
+  }
+}
+
+async function sendEmail(ctx: NodeContext, node: WorkflowNode, lead: Lead): Promise<NodeResult> {
+  if (!lead.primary_email) return { status: "fail", message: "No email address for this lead" };
+
+  const templateCategory = (node.config.template as string) || "welcome";
+  const aiEnabled = !!node.config.aiPersonalization;
+  const timing = (node.config.timing as string) || "immediate";
+
+  let subject: string;
+  let htmlBody: string;
+  if (templateCategory === "__custom__") {
+    subject = (node.config.customSubject as string) || `${node.title} — ${lead.company}`;
+    htmlBody = (node.config.customBody as string) || `<p>Hi ${lead.first_name || leadName(lead)},</p><p>This is a message from ${node.title}.</p>`;
+  } else {
+    const { data: templates } = await ctx.admin
+      .from("email_templates")
+      .select("subject_template, body_template")
+      .eq("category", templateCategory)
+      .or(`owner_id.eq.${ctx.userId},owner_id.is.null`)
+      .order("owner_id", { ascending: false, nullsFirst: false })
+      .limit(1);
+    const template = templates?.[0] as { subject_template: string; body_template: string } | undefined;
+    subject = template?.subject_template ?? `${node.title} — ${lead.company}`;
+    htmlBody = template?.body_template ??
+      `<p>Hi ${lead.first_name || leadName(lead)},</p><p>This is an automated email from "${node.title}".</p>`;
+  }
+
+  subject = personalize(subject, lead);
+  htmlBody = personalize(htmlBody, lead);
+
+  if (aiEnabled) {
+    try {
+      const rewritten = await aiRewrite(ctx, lead, subject, htmlBody);
+      if (rewritten) ({ subject, htmlBody } = rewritten);
+    } catch (err) {
+      console.warn("[workflow-runner] AI personalization failed, sending tag-resolved version:", err);
+    }
+  }
+
+  try {
+    if (timing === "immediate") {
+      const res = await fetch(`${ctx.supabaseUrl}/functions/v1/send-email`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${ctx.serviceKey}` },
+        body: JSON.stringify({
+          owner_id: ctx.userId,
+          lead_id: lead.id,
+          to_email: lead.primary_email,
+          subject,
+          html_body: htmlBody,
+          track_opens: true,
+          track_clicks: true,
+        }),
+      });
+      const result = await res.json().catch(() => ({} as { success?: boolean; error?: string }));
+      if (!res.ok || !result.success) throw new Error(result.error ?? `send-email failed (HTTP ${res.status})`);
+      return { status: "pass", message: `Email sent to ${lead.primary_email} (template: ${templateCategory}${aiEnabled ? ", AI-enhanced" : ""})` };
+    }
+
+    const scheduledAt = scheduledTime(timing);
+    const { error } = await ctx.admin.from("scheduled_emails").insert({
+      owner_id: ctx.userId,
+      lead_id: lead.id,
+      to_email: lead.primary_email,
+      subject,
+      html_body: htmlBody,
+      scheduled_at: scheduledAt.toISOString(),
+      block_index: 0,
+      sequence_id: `wf-${node.id}-${Date.now()}`,
+      status: "pending",
+    });
+    if (error) throw new Error(error.message);
+    return { status: "pass", message: `Email scheduled for ${scheduledAt.toISOString()} to ${lead.primary_email} (template: ${templateCategory}, timing: ${timing}${aiEnabled ? ", AI-enhanced" : ""})` };
+  } catch (sendErr) {
+    const errMsg = sendErr instanceof Error ? sendErr.message : "Unknown send error";
+    if (node.config.fallbackEnabled) return emailFallback(ctx, node, lead, errMsg, { subject, htmlBody });
+    return { status: "fail", message: `Email failed: ${errMsg}` };
+  }
+}
+
+async function syncCrm(ctx: NodeContext, node: WorkflowNode, lead: Lead): Promise<NodeResult> {
+  const provider = (node.config.crmProvider as string) === "salesforce" ? "salesforce" : "hubspot";
+  const label = provider === "salesforce" ? "Salesforce" : "HubSpot";
+  try {
+    const session = await openSession(ctx.admin, ctx.userId, provider, "workflow");
+    if (!session) return { status: "fail", message: `${label} is not connected. Connect it in Integration Hub first.` };
+    const [result] = await pushLeads(session, [lead.id]);
+    if (!result) return { status: "fail", message: `Lead "${leadName(lead)}" not found` };
+    switch (result.outcome) {
+      case "created":
+        return { status: "pass", message: `Created "${leadName(lead)}" in ${label} (ID: ${result.externalId})` };
+      case "linked":
+        return { status: "pass", message: `Linked "${leadName(lead)}" to existing ${label} record ${result.externalId}` };
+      case "updated":
+        return { status: "pass", message: `Updated ${result.changes.map((c) => c.field).join(", ")} on ${label} record ${result.externalId}` };
+      case "unchanged":
+        return { status: "pass", message: `${label} record ${result.externalId} already up to date` };
+      case "skipped":
+        return { status: "skip", message: `${label} sync skipped: ${result.error}` };
+      default:
+        return { status: "fail", message: `${label} sync failed: ${result.error}` };
+    }
+  } catch (err) {
+    return { status: "fail", message: `CRM sync failed: ${(err as Error).message}` };
+  }
+}
+
+async function executeAction(ctx: NodeContext, node: WorkflowNode, lead: Lead): Promise<NodeResult> {
+  const actionType = node.actionType;
+  if (!actionType) return { status: "fail", message: `Action "${node.title}" has no action type set` };
+
+  switch (actionType) {
+    case "send_email":
+      return sendEmail(ctx, node, lead);
+
+    case "update_status": {
+      const newStatus = (node.config.newStatus as string) || "Contacted";
+      const { error } = await ctx.admin.from("leads").update({ status: newStatus }).eq("id", lead.id);
+      if (error) return { status: "fail", message: `Status update failed: ${error.message}` };
+      lead.status = newStatus;
+      return { status: "pass", message: `Lead status updated to "${newStatus}"` };
+    }
+
+    case "add_tag": {
+      const tag = (node.config.tag as string) || "Automated";
+      const kb = { ...(lead.knowledgeBase ?? {}) };
+      const existing: string = kb.extraNotes || "";
+      const marker = `[tag:${tag}]`;
+      if (!existing.includes(marker)) kb.extraNotes = existing ? `${existing} ${marker}` : marker;
+      const { error } = await ctx.admin.from("leads").update({ knowledgeBase: kb }).eq("id", lead.id);
+      if (error) return { status: "fail", message: `Tag add failed: ${error.message}` };
+      lead.knowledgeBase = kb;
+      return { status: "pass", message: `Tag "${tag}" added to lead` };
+    }
+
+    case "create_alert": {
+      const { error } = await audit(ctx, "AUTOMATION_ALERT",
+        (node.config.alertMessage as string) ||
+          `Alert from workflow node "${node.title}" for lead ${leadName(lead)} (${lead.company})`);
+      if (error) return { status: "fail", message: `Alert creation failed: ${error.message}` };
+      return { status: "pass", message: `Alert created for "${leadName(lead)}"` };
+    }
+
+    case "assign_user": {
+      const assignee = (node.config.assignee as string) || "";
+      const kb = { ...(lead.knowledgeBase ?? {}), assignedTo: assignee };
+      const { error } = await ctx.admin.from("leads").update({ knowledgeBase: kb }).eq("id", lead.id);
+      if (error) return { status: "fail", message: `Assignment failed: ${error.message}` };
+      lead.knowledgeBase = kb;
+      return { status: "pass", message: `Lead assigned to "${assignee}"` };
+    }
+
+    case "notify_slack": {
+      const creds = await loadIntegration(ctx, "slack");
+      if (!creds) return { status: "fail", message: "Slack is not connected. Connect it in Integration Hub first." };
+      if (!creds.webhookUrl) return { status: "fail", message: "Slack webhook URL not configured" };
+      const messageTemplate = (node.config.messageTemplate as string) || "";
+      const text = messageTemplate
+        ? personalize(messageTemplate, lead)
+        : `*New lead activity* — ${leadName(lead)} (${lead.company})\nScore: ${lead.score} | Status: ${lead.status}\nEmail: ${lead.primary_email}`;
+      try {
+        const res = await fetch(creds.webhookUrl, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ text }),
+        });
+        if (res.ok) return { status: "pass", message: `Slack notification sent for "${leadName(lead)}"` };
+        return { status: "fail", message: `Slack returned ${res.status}` };
+      } catch (err) {
+        return { status: "fail", message: `Slack notification failed: ${(err as Error).message}` };
+      }
+    }
+
+    case "sync_crm":
+      return syncCrm(ctx, node, lead);
+
+    default:
+      return { status: "pass", message: `Action "${node.title}" executed (type: ${actionType})` };
+  }
+}
+
+export async function executeNode(ctx: NodeContext, node: WorkflowNode, lead: Lead): Promise<NodeResult> {
+  switch (node.type) {
+    case "trigger":   return executeTrigger(node, lead);
+    case "condition": return executeCondition(ctx, node, lead);
+    case "wait":      return executeWait(node);
+    case "action":    return executeAction(ctx, node, lead);
+    default:          return { status: "skip", message: `Unknown node type: ${node.type}` };
+  }
+}
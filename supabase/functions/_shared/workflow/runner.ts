@@ -0,0 +1,257 @@
+// supabase/functions/_shared/workflow/runner.ts
+//
+// Durable graph walk for workflow-runner. A run is one lead's trip through one
+// workflow; its progress (done_nodes + reachable) lives on workflow_runs so
+// the walk can stop at a wait node, or die with the isolate, and carry on from
+// the same node later.
+//
+// The walk itself is the browser engine's: nodes in topological order, a node
+// runs only once an executed parent took an edge into it, unreached nodes are
+// logged as skipped. Every step is flushed to workflow_executions as soon as
+// it finishes, so the execution log shows a run that is mid-wait.
+//
+// A run is pinned to the published version it was enrolled on and walks that
+// version's graph (workflow_versions) to the end, so publishing an edit never
+// changes the path of a lead that is already part-way through.
+//
+// A member can cancel a run while it is in flight (cancel_workflow_run). Every
+// write back to workflow_runs skips a canceled row, and the walk stops at the
+// first write that finds the run canceled.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { entryNodeIds, isEdgeTaken, resolveEdges, topoSortNodes } from "./graph.ts";
+import { executeNode } from "./nodes.ts";
+import type { ExecutionStep, Lead, NodeContext, NodeStatus, RunRow, WorkflowEdge, WorkflowRow } from "./types.ts";
+
+type Admin = ReturnType<typeof createClient>;
+
+export const LOCK_MS = 5 * 60 * 1000;
+
+export const WORKFLOW_COLS = "id, user_id, workspace_id, name, status, nodes, edges, current_version";
+
+export type RunOutcome = "completed" | "failed" | "waiting" | "canceled";
+
+/** Writes to a run unless a member canceled it meanwhile; false when it was canceled. */
+export async function updateLiveRun(admin: Admin, runId: string, patch: Record<string, unknown>): Promise<boolean> {
+  const { data, error } = await admin
+    .from("workflow_runs").update(patch).eq("id", runId).neq("status", "canceled").select("id");
+  if (error) throw new Error(`Could not update run ${runId}: ${error.message}`);
+  return (data ?? []).length > 0;
+}
+
+export interface EnrollResult {
+  enrolled: RunRow[];
+  /** Leads already mid-way through this workflow. */
+  alreadyRunning: string[];
+}
+
+/**
+ * Starts one run per lead on the workflow's live version. The partial unique
+ * index on workflow_runs rejects a second live run for the same
+ * (workflow, lead), which is reported back rather than treated as an error.
+ */
+export async function enrollLeads(admin: Admin, workflow: WorkflowRow, leadIds: string[]): Promise<EnrollResult> {
+  const result: EnrollResult = { enrolled: [], alreadyRunning: [] };
+
+  for (const leadId of leadIds) {
+    const { data: run, error } = await admin
+      .from("workflow_runs")
+      .insert({
+        workflow_id: workflow.id,
+        workspace_id: workflow.workspace_id,
+        user_id: workflow.user_id,
+        lead_id: leadId,
+        workflow_version: workflow.current_version,
+        status: "running",
+        locked_until: new Date(Date.now() + LOCK_MS).toISOString(),
+      })
+      .select("*")
+      .single();
+    if (error) {
+      if (error.code === "23505") { result.alreadyRunning.push(leadId); continue; }
+      throw new Error(`Could not enroll lead ${leadId}: ${error.message}`);
+    }
+    result.enrolled.push(run as RunRow);
+  }
+  return result;
+}
+
+// Published versions never change, so they can be cached for the isolate's life.
+const versionCache = new Map<string, Pick<WorkflowRow, "nodes" | "edges">>();
+
+/**
+ * The workflow as of the run's pinned version. Runs enrolled before versioning
+ * (workflow_version null) fall back to the live graph.
+ */
+async function workflowForRun(admin: Admin, run: RunRow, workflow: WorkflowRow): Promise<WorkflowRow> {
+  const version = run.workflow_version;
+  if (version === null || version === workflow.current_version) return workflow;
+
+  const key = `${workflow.id}:${version}`;
+  let graph = versionCache.get(key);
+  if (!graph) {
+    const { data, error } = await admin
+      .from("workflow_versions")
+      .select("nodes, edges")
+      .eq("workflow_id", workflow.id)
+      .eq("version", version)
+      .maybeSingle();
+    if (error) throw new Error(`Could not load v${version}: ${error.message}`);
+    if (!data) throw new Error(`Version ${version} of this workflow no longer exists`);
+    graph = data as Pick<WorkflowRow, "nodes" | "edges">;
+    versionCache.set(key, graph);
+  }
+  return { ...workflow, nodes: graph.nodes, edges: graph.edges };
+}
+
+/**
+ * A run that hasn't taken its first step yet — enrolled from the UI or queued
+ * by a lead trigger (enqueue_workflow_trigger) — gets its entry nodes and its
+ * workflow_executions row here, so both paths start the same way.
+ */
+async function startRun(admin: Admin, run: RunRow, workflow: WorkflowRow, edges: WorkflowEdge[]): Promise<boolean> {
+  if (run.done_nodes.length === 0 && run.reachable.length === 0) {
+    run.reachable = entryNodeIds(workflow.nodes, edges);
+  }
+  if (!run.execution_id) {
+    const { data: execution, error } = await admin
+      .from("workflow_executions")
+      .insert({
+        workflow_id: workflow.id,
+        user_id: workflow.user_id,
+        lead_id: run.lead_id,
+        workflow_version: run.workflow_version,
+        status: "running",
+        steps: [],
+      })
+      .select("id")
+      .single();
+    if (error) throw new Error(`Could not create execution row: ${error.message}`);
+    run.execution_id = execution.id;
+    return await updateLiveRun(admin, run.id, { execution_id: execution.id, reachable: run.reachable });
+  }
+  return true;
+}
+
+/** Closes the run and its execution row; false (nothing written) when the run was canceled. */
+async function finishExecution(
+  admin: Admin, run: RunRow, steps: ExecutionStep[], status: "success" | "failed", errorMessage: string | null,
+): Promise<boolean> {
+  const live = await updateLiveRun(admin, run.id, {
+    status: status === "success" ? "completed" : "failed",
+    current_node: null, not_before: null, locked_until: null, last_error: errorMessage,
+  });
+  if (!live) return false;
+  if (run.execution_id) {
+    await admin.from("workflow_executions").update({
+      status, steps, current_node: null, completed_at: new Date().toISOString(), error_message: errorMessage,
+    }).eq("id", run.execution_id);
+  }
+  return true;
+}
+
+async function bumpWorkflowStats(admin: Admin, workflowId: string, succeeded: boolean) {
+  const { error } = await admin.rpc("bump_workflow_stats", { p_workflow_id: workflowId, p_succeeded: succeeded });
+  if (error) console.error(`[workflow-runner] stats for ${workflowId} not updated:`, error.message);
+}
+
+/**
+ * Advances a claimed run until it finishes or parks on a wait node. Returns
+ * the run's new status. Never throws for node failures — those are recorded
+ * as failed steps, like a builder test run.
+ */
+export async function advanceRun(
+  ctx: Omit<NodeContext, "userId" | "workspaceId">,
+  run: RunRow,
+  live: WorkflowRow,
+): Promise<RunOutcome> {
+  const { admin } = ctx;
+  const workflow = await workflowForRun(admin, run, live);
+  const edges = resolveEdges(workflow.nodes, workflow.edges);
+  if (!(await startRun(admin, run, workflow, edges))) return "canceled";
+
+  const { data: execution } = await admin
+    .from("workflow_executions").select("steps").eq("id", run.execution_id).maybeSingle();
+  const steps = ((execution?.steps ?? []) as ExecutionStep[]);
+
+  const ordered = topoSortNodes(workflow.nodes, edges);
+  if (!ordered) {
+    const closed = await finishExecution(admin, run, steps, "failed", "Workflow contains a loop — fix the connections before running it");
+    return closed ? "failed" : "canceled";
+  }
+
+  const { data: lead } = await admin.from("leads").select("*").eq("id", run.lead_id).maybeSingle();
+  if (!lead) {
+    const closed = await finishExecution(admin, run, steps, "failed", "Lead no longer exists");
+    return closed ? "failed" : "canceled";
+  }
+
+  const nodeCtx: NodeContext = { ...ctx, userId: workflow.user_id, workspaceId: workflow.workspace_id };
+  const reachable = new Set(run.reachable);
+  const done = new Set(run.done_nodes);
+  // A failure before an earlier wait still fails the run as a whole.
+  let errorMessage: string | null = [...steps].reverse().find((s) => s.status === "fail")?.message ?? null;
+
+  // False once the run has been canceled; the walk stops there.
+  const flush = async (currentNode: string | null, extra: Record<string, unknown> = {}): Promise<boolean> => {
+    const stillLive = await updateLiveRun(admin, run.id, {
+      reachable: [...reachable],
+      done_nodes: [...done],
+      current_node: currentNode,
+      locked_until: new Date(Date.now() + LOCK_MS).toISOString(),
+      ...extra,
+    });
+    if (stillLive && run.execution_id) {
+      await admin.from("workflow_executions").update({ steps, current_node: currentNode }).eq("id", run.execution_id);
+    }
+    return stillLive;
+  };
+
+  for (const node of ordered) {
+    if (done.has(node.id)) continue;
+
+    if (!reachable.has(node.id)) {
+      steps.push({
+        nodeId: node.id,
+        nodeTitle: node.title,
+        nodeType: node.type,
+        status: "skip",
+        message: "Skipped — not on the branch this lead took",
+        durationMs: 0,
+      });
+      done.add(node.id);
+      if (!(await flush(node.id))) return "canceled";
+      continue;
+    }
+
+    const stepStart = Date.now();
+    let status: NodeStatus;
+    let message: string;
+    let resumeAt: string | undefined;
+    try {
+      ({ status, message, resumeAt } = await executeNode(nodeCtx, node, lead as Lead));
+    } catch (err) {
+      status = "fail";
+      message = err instanceof Error ? err.message : "Unknown error";
+    }
+    if (status === "fail") errorMessage = message;
+
+    steps.push({ nodeId: node.id, nodeTitle: node.title, nodeType: node.type, status, message, durationMs: Date.now() - stepStart });
+    done.add(node.id);
+    for (const edge of edges) {
+      if (edge.source === node.id && isEdgeTaken(node, edge, status)) reachable.add(edge.target);
+    }
+
+    if (resumeAt) {
+      // Reaching a wait is progress: the claim's retry budget starts over.
+      const parked = await flush(node.id, { status: "waiting", not_before: resumeAt, locked_until: null, attempt_count: 0 });
+      return parked ? "waiting" : "canceled";
+    }
+    if (!(await flush(node.id))) return "canceled";
+  }
+
+  const succeeded = errorMessage === null;
+  if (!(await finishExecution(admin, run, steps, succeeded ? "success" : "failed", errorMessage))) return "canceled";
+  await bumpWorkflowStats(admin, workflow.id, succeeded);
+  return succeeded ? "completed" : "failed";
+}
@@ -0,0 +1,90 @@
+// supabase/functions/_shared/workflow/types.ts
+//
+// Types shared by the server-side workflow runner. The node / edge shapes are
+// the JSON the builder saves into workflows.nodes / workflows.edges (see
+// AuraEngine/lib/automationEngine.ts), so they must stay in step with it.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { ConditionGroup } from "./conditions.ts";
+
+export type NodeType = "trigger" | "action" | "condition" | "wait";
+export type EdgeBranch = "yes" | "no";
+export type NodeStatus = "pass" | "fail" | "skip";
+
+export interface WorkflowNode {
+  id: string;
+  type: NodeType;
+  title: string;
+  description?: string;
+  /** Set on every action node (20260821120000_workflow_action_types); never inferred from the title. */
+  actionType?: string;
+  /** Condition nodes: AND/OR rule tree. Older nodes keep a single field/operator/value in config. */
+  condition?: ConditionGroup;
+  config: Record<string, unknown>;
+}
+
+export interface WorkflowEdge {
+  id: string;
+  source: string;
+  target: string;
+  branch?: EdgeBranch;
+}
+
+export interface WorkflowRow {
+  id: string;
+  user_id: string;
+  workspace_id: string;
+  name: string;
+  status: string;
+  nodes: WorkflowNode[];
+  edges: WorkflowEdge[] | null;
+  /** Published version the nodes/edges above belong to; null until first publish. */
+  current_version: number | null;
+}
+
+export interface RunRow {
+  id: string;
+  workflow_id: string;
+  workspace_id: string;
+  user_id: string;
+  lead_id: string;
+  execution_id: string | null;
+  /** Published version the run was enrolled on; it walks that graph to the end. */
+  workflow_version: number | null;
+  status: "running" | "waiting" | "completed" | "failed" | "canceled";
+  reachable: string[];
+  done_nodes: string[];
+  current_node: string | null;
+  not_before: string | null;
+}
+
+/** Same shape the browser engine writes into workflow_executions.steps. */
+export interface ExecutionStep {
+  nodeId: string;
+  nodeTitle: string;
+  nodeType: string;
+  status: NodeStatus;
+  message: string;
+  durationMs: number;
+}
+
+// deno-lint-ignore no-explicit-any
+export type Lead = Record<string, any> & { id: string };
+
+export interface NodeResult {
+  status: NodeStatus;
+  message: string;
+  /** Set by wait nodes: the run parks until this instant. */
+  resumeAt?: string;
+}
+
+export interface NodeContext {
+  admin: ReturnType<typeof createClient>;
+  /** Workflow owner — emails go out from their sender, audit rows carry their id. */
+  userId: string;
+  workspaceId: string;
+  /** Internal-function URL base (no trailing slash) for cross-fn POSTs. */
+  supabaseUrl: string;
+  serviceKey: string;
+  geminiApiKey: string;
+}
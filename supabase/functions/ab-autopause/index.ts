@@ -1,15 +1,22 @@
 // supabase/functions/ab-autopause/index.ts
 //
-// A/B auto-optimize. For each opted-in campaign, per step with subject variants:
-// once one variant is a statistically clear winner (min sample + one-sided
-// two-proportion z-test on open rate), reassign all NOT-yet-sent items of the
-// losing variants to the winner — so the rest of the sequence uses the winner.
+// A/B auto-optimize. For each opted-in campaign, per step with subject, body
+// or CTA variants, by the campaign's ab_mode:
+//  • ztest — once one variant is a statistically clear winner (min sample +
+//    one-sided two-proportion z-test), reassign all NOT-yet-sent items of the
+//    losing variants to the winner — so the rest of the sequence uses it.
+//  • bandit — Thompson sampling: every run re-deals each NOT-yet-sent item to
+//    the variant with the highest draw from its Beta posterior on the
+//    campaign's ab_objective (replies or booked meetings), so traffic shifts
+//    toward the leader gradually while the test is still running.
 // Already-sent messages are untouched. Invoked by the invoke_ab_autopause cron.
 //
 // Deploy: supabase functions deploy ab-autopause
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { seededRng, thompsonPick, winProbabilities, type LaneOutcome } from "../_shared/bandit.ts";
+import { laneCount, laneValue, withCta } from "../_shared/variants.ts";
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL") ?? "";
 const SERVICE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
@@ -51,27 +58,92 @@ function mergeFields(tpl: string, lead: Record<string, unknown>, fromName = ""):
   });
 }
 
+interface AbStep {
+  step_number: number; subject: string; subject_variants: string[]; body_html: string; body_variants: string[];
+  cta: string; cta_variants: string[];
+}
+interface UnsentItem { id: string; status: string; subject_variant: number | null; lead_name: string; lead_company: string; lead_context: Record<string, unknown> }
+interface Outcome { step: number; variant: number; sent: number; replied: number; meetings: number }
+
+function laneTemplate(step: AbStep, lane: number): { subject: string; body: string } {
+  return {
+    subject: laneValue(step.subject, step.subject_variants, lane),
+    body: withCta(laneValue(step.body_html, step.body_variants, lane), laneValue(step.cta ?? "", step.cta_variants, lane)),
+  };
+}
+
+// Move an unsent item to `lane`. Written (verbatim) items are re-merged.
+function lanePatch(step: AbStep, lane: number, it: UnsentItem): Record<string, unknown> {
+  const t = laneTemplate(step, lane);
+  const patch: Record<string, unknown> = { subject_variant: lane, template_subject: t.subject, template_body: t.body, updated_at: new Date().toISOString() };
+  if (it.status === "written") {
+    const lead = { name: it.lead_name, company: it.lead_company, ...(it.lead_context ?? {}) };
+    patch.ai_subject = mergeFields(t.subject, lead);
+    patch.ai_body_html = nl2brHtml(mergeFields(t.body, lead));
+  }
+  return patch;
+}
+
+// Bandit mode: one Thompson draw per unsent item. Returns items moved.
+async function rebalance(
+  admin: SupabaseClient, campaignId: string, objective: string, runIds: string[], steps: AbStep[], outcomes: string[],
+): Promise<number> {
+  const { data: stats } = await admin.rpc("ab_variant_outcomes", { p_campaign_id: campaignId });
+  let moved = 0;
+  for (const step of steps) {
+    const lanes: LaneOutcome[] = [];
+    const n = laneCount(step.subject_variants, step.body_variants, step.cta_variants);
+    for (let v = 0; v < n; v++) {
+      const o = ((stats ?? []) as Outcome[]).find(r => r.step === step.step_number && r.variant === v);
+      lanes.push({ variant: v, sent: Number(o?.sent ?? 0), successes: Number((objective === "meeting" ? o?.meetings : o?.replied) ?? 0) });
+    }
+    // Nothing observed yet: launch already dealt lanes evenly.
+    if (!lanes.some(l => l.sent > 0)) continue;
+
+    const { data: items } = await admin.from("email_sequence_run_items")
+      .select("id, status, subject_variant, lead_name, lead_company, lead_context")
+      .in("run_id", runIds).eq("step_index", step.step_number)
+      .in("status", ["pending", "written"]);
+    let stepMoved = 0;
+    for (const it of (items ?? []) as UnsentItem[]) {
+      const lane = thompsonPick(lanes, Math.random);
+      if (lane === (it.subject_variant ?? 0)) continue;
+      await admin.from("email_sequence_run_items").update(lanePatch(step, lane, it)).eq("id", it.id);
+      stepMoved++;
+    }
+    moved += stepMoved;
+    const probs = winProbabilities(lanes, seededRng(step.step_number));
+    outcomes.push(`${campaignId.slice(0, 8)} step ${step.step_number}: bandit on ${objective}s, P(best) ${
+      lanes.map(l => `${String.fromCharCode(65 + l.variant)}=${Math.round(probs[l.variant] * 100)}%`).join(" ")}, ${stepMoved} moved`);
+  }
+  return moved;
+}
+
 serve(async () => {
   const admin = createClient(SUPABASE_URL, SERVICE_KEY);
   try {
     const { data: campaigns } = await admin.from("email_sequences")
-      .select("id, status").eq("ab_auto_optimize", true).in("status", ["active", "processing"]);
+      .select("id, status, ab_mode, ab_objective").eq("ab_auto_optimize", true).in("status", ["active", "processing"]);
 
     let switched = 0; const outcomes: string[] = [];
-    for (const c of (campaigns ?? []) as { id: string }[]) {
+    for (const c of (campaigns ?? []) as { id: string; ab_mode: string | null; ab_objective: string | null }[]) {
       const { data: steps } = await admin.from("sequence_steps")
-        .select("step_number, subject, subject_variants, body_html, body_variants").eq("sequence_id", c.id);
-      const abSteps = (steps ?? []).filter((s: { subject_variants?: string[]; body_variants?: string[] }) =>
-        (s.subject_variants?.length ?? 0) > 0 || (s.body_variants?.length ?? 0) > 0);
+        .select("step_number, subject, subject_variants, body_html, body_variants, cta, cta_variants").eq("sequence_id", c.id);
+      const abSteps = ((steps ?? []) as AbStep[]).filter(s => laneCount(s.subject_variants, s.body_variants, s.cta_variants) > 1);
       if (!abSteps.length) continue;
 
       const { data: runs } = await admin.from("email_sequence_runs").select("id").eq("sequence_config->>campaignId", c.id);
       const runIds = (runs ?? []).map((r: { id: string }) => r.id);
       if (!runIds.length) continue;
 
-      for (const step of abSteps as { step_number: number; subject: string; subject_variants: string[]; body_html: string; body_variants: string[] }[]) {
-        // Body differences drive clicks, not opens → judge body tests by click rate.
-        const useClicks = (step.body_variants?.length ?? 0) > 0;
+      if (c.ab_mode === "bandit") {
+        switched += await rebalance(admin, c.id, c.ab_objective ?? "reply", runIds, abSteps, outcomes);
+        continue;
+      }
+
+      for (const step of abSteps) {
+        // Body and CTA differences drive clicks, not opens → judge those tests by click rate.
+        const useClicks = (step.body_variants?.length ?? 0) > 0 || (step.cta_variants?.length ?? 0) > 0;
         const { data: msgs } = await admin.from("email_messages")
           .select("id, subject_variant").eq("sequence_id", c.id).eq("sequence_step", step.step_number);
         if (!msgs || msgs.length < MIN_TOTAL) continue;
@@ -115,22 +187,14 @@ serve(async () => {
         if (zTest(leader.wins, leader.sent, runner.wins, runner.sent) < Z_THRESHOLD) continue;
 
         const winner = leader.variant;
-        const winnerSubject = winner === 0 ? step.subject : (step.subject_variants?.[winner - 1] ?? step.subject);
-        const winnerBody = winner === 0 ? step.body_html : (step.body_variants?.[winner - 1] ?? step.body_html);
 
-        // Reassign not-yet-sent losers → winner (subject + body).
+        // Reassign not-yet-sent losers → winner (subject + body + CTA).
         const { data: items } = await admin.from("email_sequence_run_items")
-          .select("id, status, lead_name, lead_company, lead_context")
+          .select("id, status, subject_variant, lead_name, lead_company, lead_context")
           .in("run_id", runIds).eq("step_index", step.step_number)
           .neq("subject_variant", winner).in("status", ["pending", "written"]);
-        for (const it of (items ?? []) as { id: string; status: string; lead_name: string; lead_company: string; lead_context: Record<string, unknown> }[]) {
-          const patch: Record<string, unknown> = { subject_variant: winner, template_subject: winnerSubject, template_body: winnerBody, updated_at: new Date().toISOString() };
-          if (it.status === "written") {
-            const lead = { name: it.lead_name, company: it.lead_company, ...(it.lead_context ?? {}) };
-            patch.ai_subject = mergeFields(winnerSubject, lead);
-            patch.ai_body_html = nl2brHtml(mergeFields(winnerBody, lead));
-          }
-          await admin.from("email_sequence_run_items").update(patch).eq("id", it.id);
+        for (const it of (items ?? []) as UnsentItem[]) {
+          await admin.from("email_sequence_run_items").update(lanePatch(step, winner, it)).eq("id", it.id);
           switched++;
         }
         outcomes.push(`${c.id.slice(0, 8)} step ${step.step_number}: winner ${String.fromCharCode(65 + winner)} by ${metric}, ${items?.length ?? 0} reassigned`);
@@ -0,0 +1,122 @@
+// supabase/functions/crm-sync/index.ts
+//
+// Two-way HubSpot / Salesforce sync. The work is in _shared/crm/.
+//
+//   POST /functions/v1/crm-sync
+//   Auth: Supabase user JWT
+//     body: { action: "push", provider, lead_ids: <uuid[]>, source?: "manual" | "workflow" }
+//       Pushes the leads to the caller's CRM — links each to an existing
+//       record by email or creates one, then sends only changed fields.
+//       Every lead must be in a workspace the caller belongs to.
+//     body: { action: "sync", provider }
+//       Runs one full pass (pull, then push) for the caller now. 409 while
+//       another pass (the cron's) holds the connection.
+//   Auth: service-role token (invoke_crm_sync cron, every 10 minutes)
+//     body: {}
+//     Runs a pass for every connected CRM with sync enabled.
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { getCorsHeaders, handleCors } from "../_shared/cors.ts";
+import { adminClient, bearerToken, isServiceRoleToken } from "../_shared/auth.ts";
+import type { CrmProvider } from "../_shared/crm/fields.ts";
+import { openSession, pushLeads, runSyncPass, type SyncSource } from "../_shared/crm/sync.ts";
+
+const MAX_LEADS_PER_CALL = 100;
+/** Leave room under the edge runtime's wall clock; owners not reached run on the next tick. */
+const TIME_BUDGET_MS = 110_000;
+
+function jsonResponse(b: unknown, status: number, h: Record<string, string>): Response {
+  return new Response(JSON.stringify(b), { status, headers: { ...h, "Content-Type": "application/json" } });
+}
+
+function asProvider(value: unknown): CrmProvider | null {
+  return value === "hubspot" || value === "salesforce" ? value : null;
+}
+
+serve(async (req) => {
+  const cors = handleCors(req);
+  if (cors) return cors;
+  const corsHeaders = getCorsHeaders(req);
+
+  if (req.method !== "POST") return jsonResponse({ error: "Method not allowed" }, 405, corsHeaders);
+
+  const token = bearerToken(req);
+  if (!token) return jsonResponse({ error: "Missing Authorization" }, 401, corsHeaders);
+
+  const admin = adminClient();
+
+  try {
+    // ── Cron path: scheduled pass for every enabled CRM ───────────────────
+    if (isServiceRoleToken(token)) {
+      const startedAt = Date.now();
+      const { data: due } = await admin
+        .from("crm_sync_settings")
+        .select("owner_id, provider")
+        .eq("enabled", true)
+        .order("last_run_at", { ascending: true, nullsFirst: true });
+
+      const tally = { owners: 0, pulled: 0, updated: 0, pushed: 0, failed: 0, errors: 0 };
+      for (const row of (due ?? []) as { owner_id: string; provider: CrmProvider }[]) {
+        if (Date.now() - startedAt > TIME_BUDGET_MS) break;
+        const pass = await runSyncPass(admin, row.owner_id, row.provider, "schedule");
+        if (pass.busy) continue; // a manual sync is on it
+        tally.owners++;
+        tally.pulled += pass.pulled;
+        tally.updated += pass.updated;
+        tally.pushed += pass.pushed;
+        tally.failed += pass.failed;
+        if (pass.error) {
+          tally.errors++;
+          console.error(`[crm-sync] ${row.provider} for ${row.owner_id}:`, pass.error);
+        }
+      }
+      return jsonResponse(tally, 200, corsHeaders);
+    }
+
+    // ── User path ─────────────────────────────────────────────────────────
+    const { data: userRes, error: authErr } = await admin.auth.getUser(token);
+    if (authErr || !userRes?.user) return jsonResponse({ error: "Invalid token" }, 401, corsHeaders);
+    const userId = userRes.user.id;
+
+    const body = await req.json().catch(() => ({}));
+    const provider = asProvider(body.provider);
+    if (!provider) return jsonResponse({ error: "provider must be hubspot or salesforce" }, 400, corsHeaders);
+
+    if (body.action === "sync") {
+      const pass = await runSyncPass(admin, userId, provider, "manual");
+      return jsonResponse(pass, pass.busy ? 409 : pass.error ? 502 : 200, corsHeaders);
+    }
+
+    if (body.action !== "push") return jsonResponse({ error: "action must be push or sync" }, 400, corsHeaders);
+
+    const leadIds = Array.isArray(body.lead_ids)
+      ? [...new Set(body.lead_ids.filter((id: unknown): id is string => typeof id === "string"))]
+      : [];
+    if (leadIds.length === 0) return jsonResponse({ error: "lead_ids required" }, 400, corsHeaders);
+    if (leadIds.length > MAX_LEADS_PER_CALL) {
+      return jsonResponse({ error: `At most ${MAX_LEADS_PER_CALL} leads per call` }, 400, corsHeaders);
+    }
+
+    // Only leads from the caller's own workspaces can be pushed.
+    const { data: memberships } = await admin
+      .from("workspace_members").select("workspace_id").eq("user_id", userId);
+    const workspaceIds = ((memberships ?? []) as { workspace_id: string }[]).map((m) => m.workspace_id);
+    const { data: leadRows } = workspaceIds.length > 0
+      ? await admin.from("leads").select("id").in("workspace_id", workspaceIds).in("id", leadIds)
+      : { data: [] };
+    const validIds = ((leadRows ?? []) as { id: string }[]).map((l) => l.id);
+    if (validIds.length === 0) return jsonResponse({ error: "No matching leads in your workspaces" }, 404, corsHeaders);
+
+    const source: SyncSource = body.source === "workflow" ? "workflow" : "manual";
+    const session = await openSession(admin, userId, provider, source);
+    if (!session) {
+      return jsonResponse({ error: `${provider} is not connected. Connect it in Integration Hub first.` }, 409, corsHeaders);
+    }
+    const results = await pushLeads(session, validIds);
+    return jsonResponse({ run_id: session.runId, results }, 200, corsHeaders);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error("[crm-sync] error:", msg);
+    return jsonResponse({ error: msg }, 500, corsHeaders);
+  }
+});
@@ -15,6 +15,18 @@
 // Live primitives are registered in _shared/goal-steps/index.ts. Adding a new
 // step kind = create a new module under _shared/goal-steps/ and register it
 // there — no edits needed in this file.
+//
+// Scheduling: steps whose depends_on are all settled run concurrently (up to
+// MAX_PARALLEL_STEPS). A paused step (wait, approval) holds only its own
+// dependents; independent branches carry on, and the goal ends "paused" until
+// the cron sweep resumes the held steps.
+//
+// Ownership: two invocations can work on one plan at once (separate sweeps
+// each resumed a paused branch). An invocation only runs step_runs it
+// claimed (claimed_by was null) or inserted itself; a step another
+// invocation is running is "elsewhere". Before giving up on steps that wait
+// on those, it re-reads the plan's step_runs, and it leaves the goal status
+// to whichever invocation finishes with nothing running elsewhere.
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { getCorsHeaders, handleCors } from "../_shared/cors.ts";
@@ -22,8 +34,10 @@ import { SUPABASE_URL, adminClient, bearerToken, isServiceRoleToken } from "../_
 import {
   dryRunStep,
   executeStepLive,
+  resumeStepLive,
   type PausedSentinel,
   type Plan,
+  type PlanStep,
   type StepResult,
 } from "../_shared/goal-steps/index.ts";
 import { topoSort } from "../_shared/goal-steps/topo.ts";
@@ -31,8 +45,18 @@ import { LIVE_MODE_FLAG } from "../_shared/goal-steps/flags.ts";
 
 const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY") ?? "";
 const MAX_STEPS_PER_PLAN = 25;
+/** Ready steps started at once; keeps cross-function fan-out modest. */
+const MAX_PARALLEL_STEPS = 4;
+const TERMINAL_STATUSES = ["succeeded", "skipped", "failed"];
 type Mode = "dry_run" | "live";
 
+interface PriorRun {
+  id: string;
+  status: string;
+  output: Record<string, unknown>;
+  claimedBy: string | null;
+}
+
 function jsonResponse(b: unknown, status: number, h: Record<string, string>): Response {
   return new Response(JSON.stringify(b), { status, headers: { ...h, "Content-Type": "application/json" } });
 }
@@ -67,7 +91,7 @@ serve(async (req) => {
 
   const { data: goal, error: goalErr } = await admin
     .from("automation_goals")
-    .select("id, workspace_id, statement, status, target_value, target_metric")
+    .select("id, workspace_id, statement, status, target_value, target_metric, created_by")
     .eq("id", body.goal_id)
     .maybeSingle();
   if (goalErr || !goal) return jsonResponse({ error: "Goal not found" }, 404, corsHeaders);
@@ -82,11 +106,25 @@ serve(async (req) => {
       .maybeSingle();
     if (!membership) return jsonResponse({ error: "Forbidden" }, 403, corsHeaders);
   } else {
-    // Cron path: act as the workspace owner so user-scoped steps (social/team)
-    // resolve the right accounts. Falls back to the ws==user.id convention.
-    const { data: ws } = await admin
-      .from("workspaces").select("owner_id").eq("id", goal.workspace_id).maybeSingle();
-    userId = (ws?.owner_id as string | undefined) ?? goal.workspace_id;
+    // Cron path: act as the goal's creator while they are still a member, so
+    // user-scoped steps (social/team, discovery) run with the goal owner's
+    // accounts and limits; else the workspace owner, falling back to the
+    // ws==user.id convention.
+    const { data: creator } = goal.created_by
+      ? await admin
+        .from("workspace_members")
+        .select("user_id")
+        .eq("workspace_id", goal.workspace_id)
+        .eq("user_id", goal.created_by)
+        .maybeSingle()
+      : { data: null };
+    if (creator) {
+      userId = goal.created_by as string;
+    } else {
+      const { data: ws } = await admin
+        .from("workspaces").select("owner_id").eq("id", goal.workspace_id).maybeSingle();
+      userId = (ws?.owner_id as string | undefined) ?? goal.workspace_id;
+    }
   }
 
   if (mode === "live") {
@@ -125,42 +163,85 @@ serve(async (req) => {
   const ordered = topoSort(plan.steps);
   if ("error" in ordered) return jsonResponse({ error: ordered.error }, 400, corsHeaders);
 
-  // In resume mode (called by cron), pick up where we left off.
-  let alreadyDoneStepIds = new Set<string>();
-  if (resume) {
+  const invocationId = crypto.randomUUID();
+
+  // Latest step_run per step of this plan.
+  const loadRuns = async () => {
+    const runs = new Map<string, PriorRun>();
     const { data: existing } = await admin
       .from("automation_step_runs")
-      .select("step_id, status")
+      .select("id, step_id, status, output, claimed_by")
       .eq("plan_id", planRow.id)
-      .in("status", ["succeeded", "skipped", "failed"]);
-    alreadyDoneStepIds = new Set((existing ?? []).map((r) => r.step_id as string));
-  }
+      .order("attempt_count", { ascending: false });
+    for (const r of existing ?? []) {
+      if (runs.has(r.step_id as string)) continue;
+      runs.set(r.step_id as string, {
+        id: r.id as string,
+        status: r.status as string,
+        output: (r.output && typeof r.output === "object" ? r.output : {}) as Record<string, unknown>,
+        claimedBy: (r.claimed_by as string | null) ?? null,
+      });
+    }
+    return runs;
+  };
+
+  // In resume mode (called by cron), pick up where we left off: the latest
+  // row per step says whether it finished, is still held, was claimed by
+  // claim_resumable_goal_step_runs and should be picked back up, or is being
+  // run by another invocation.
+  const priorRuns = resume ? await loadRuns() : new Map<string, PriorRun>();
 
   await admin.rpc("set_goal_status", { p_goal_id: goal.id, p_status: "running" });
 
-  const progressIncrement = goal.target_value > 0
-    ? Math.max(1, Math.floor(goal.target_value / Math.max(1, ordered.length)))
-    : 0;
+  // progress_value has one writer. For metrics goal_metric_value() can read,
+  // that is cron_snapshot_goal_metrics; only an untracked metric falls back to
+  // a share per succeeded live step. Dry runs never move progress.
+  let progressIncrement = 0;
+  if (mode === "live" && goal.target_value > 0) {
+    const { data: metricValue, error: metricErr } = await admin.rpc("goal_metric_value", { p_goal_id: goal.id });
+    if (!metricErr && metricValue == null) {
+      progressIncrement = Math.max(1, Math.floor(goal.target_value / Math.max(1, ordered.length)));
+    }
+  }
 
   const stepRunIds: string[] = [];
+  let succeeded = 0;
   let failures = 0;
   let skipped = 0;
-  let pausedAt: { step_id: string; not_before: string } | null = null;
+  const pausedSteps: { step_id: string; not_before: string | null }[] = [];
+  const awaitingApproval: string[] = [];
+
+  // A step is settled once it has a terminal status; dependents start only
+  // after every depends_on is settled. Paused steps never settle in this
+  // invocation, so their dependents wait for a later resume. A step whose
+  // output carries halt_downstream (a rejected approval) settles, but its
+  // dependents are skipped rather than run.
+  const settled = new Set<string>();
+  const halted = new Set<string>();
+  /** Steps another invocation is running (or a sweep claimed for one). */
+  const elsewhere = new Set<string>();
 
   // Step-output passing: downstream primitives (currently email_sequence)
   // can reference upstream step outputs by id via `lead_filter: 'step:s1'`.
   // We preload completed step outputs on resume so the chain stays intact.
   const stepOutputs: Record<string, Record<string, unknown>> = {};
-  if (resume) {
-    const { data: priorRuns } = await admin
-      .from("automation_step_runs")
-      .select("step_id, output, status")
-      .eq("plan_id", planRow.id)
-      .eq("status", "succeeded");
-    for (const r of priorRuns ?? []) {
-      if (r.output && typeof r.output === "object") {
-        stepOutputs[r.step_id as string] = r.output as Record<string, unknown>;
-      }
+  const settleFrom = (stepId: string, prior: PriorRun) => {
+    settled.add(stepId);
+    if (prior.output.halt_downstream === true) halted.add(stepId);
+    if (prior.status === "succeeded") stepOutputs[stepId] = prior.output;
+  };
+  const hold = (stepId: string, prior: PriorRun) => {
+    pausedSteps.push({ step_id: stepId, not_before: (prior.output.not_before as string | null) ?? null });
+    if (prior.output.awaiting_approval === true) awaitingApproval.push(stepId);
+  };
+  for (const [stepId, prior] of priorRuns) {
+    if (TERMINAL_STATUSES.includes(prior.status)) {
+      settleFrom(stepId, prior);
+    } else if (prior.status === "pending" && prior.output.paused === true) {
+      // Still held (wait not due yet, approval undecided) — not ours to run.
+      hold(stepId, prior);
+    } else if (prior.status === "running" && prior.claimedBy) {
+      elsewhere.add(stepId);
     }
   }
 
@@ -173,68 +254,48 @@ serve(async (req) => {
     stepOutputs,
     supabaseUrl: SUPABASE_URL,
     geminiApiKey: GEMINI_API_KEY,
+    goalId: goal.id,
+    planId: planRow.id,
+    stepRunId: "",
+    planSteps: ordered,
+    previewStep: dryRunStep,
   };
 
-  for (const step of ordered) {
-    if (alreadyDoneStepIds.has(step.id)) continue;
-
-    // Insert or claim the step_run row. In resume mode the row may exist;
-    // reuse it. Otherwise insert a fresh one.
-    let stepRunId: string;
-    if (resume) {
-      const { data: existing } = await admin
+  // Claim or insert the step_run row. In resume mode the row may exist; take
+  // it over only if no invocation has yet. Otherwise insert a fresh one — the
+  // (plan_id, step_id, attempt_count) unique key means a concurrent
+  // invocation that got there first wins. "elsewhere" = not ours to run.
+  const openRun = async (step: PlanStep): Promise<string | "elsewhere" | null> => {
+    const prior = priorRuns.get(step.id);
+    if (prior) {
+      const { data: claimed } = await admin
         .from("automation_step_runs")
+        .update({ status: "running", started_at: new Date().toISOString(), claimed_by: invocationId })
+        .eq("id", prior.id)
+        .in("status", ["pending", "running"])
+        .is("claimed_by", null)
         .select("id")
-        .eq("plan_id", planRow.id)
-        .eq("step_id", step.id)
-        .order("attempt_count", { ascending: false })
-        .limit(1)
         .maybeSingle();
-      if (existing?.id) {
-        stepRunId = existing.id;
-        await admin.from("automation_step_runs").update({ status: "running", started_at: new Date().toISOString() }).eq("id", stepRunId);
-      } else {
-        const { data: inserted, error: insErr } = await admin
-          .from("automation_step_runs")
-          .insert({
-            plan_id: planRow.id, goal_id: goal.id, workspace_id: goal.workspace_id,
-            step_id: step.id, step_kind: step.kind, status: "running", mode,
-            attempt_count: 1, input_params: step.params ?? {}, started_at: new Date().toISOString(),
-          })
-          .select("id").single();
-        if (insErr || !inserted) { failures++; continue; }
-        stepRunId = inserted.id;
-      }
-    } else {
-      const { data: inserted, error: insErr } = await admin
-        .from("automation_step_runs")
-        .insert({
-          plan_id: planRow.id, goal_id: goal.id, workspace_id: goal.workspace_id,
-          step_id: step.id, step_kind: step.kind, status: "running", mode,
-          attempt_count: 1, input_params: step.params ?? {}, started_at: new Date().toISOString(),
-        })
-        .select("id").single();
-      if (insErr || !inserted) { failures++; continue; }
-      stepRunId = inserted.id;
-    }
-    stepRunIds.push(stepRunId);
-
-    const result: StepResult | PausedSentinel = mode === "live"
-      ? await executeStepLive(stepCtx, step)
-      : dryRunStep(step);
-
-    if ("paused" in result && result.paused) {
-      await admin.from("automation_step_runs").update({
-        status: "pending", not_before: result.not_before, started_at: null,
-        output: { live: true, paused: true, summary: `Paused — will resume at ${result.not_before}.`, not_before: result.not_before },
-      }).eq("id", stepRunId);
-      pausedAt = { step_id: step.id, not_before: result.not_before };
-      break;
+      return claimed ? prior.id : "elsewhere";
     }
+    const { data: inserted, error: insErr } = await admin
+      .from("automation_step_runs")
+      .insert({
+        plan_id: planRow.id, goal_id: goal.id, workspace_id: goal.workspace_id,
+        step_id: step.id, step_kind: step.kind, status: "running", mode,
+        attempt_count: 1, input_params: step.params ?? {}, started_at: new Date().toISOString(),
+        claimed_by: invocationId,
+      })
+      .select("id").single();
+    if (insErr?.code === "23505" && resume) return "elsewhere";
+    return insErr || !inserted ? null : inserted.id as string;
+  };
 
+  const finish = async (step: PlanStep, stepRunId: string, result: StepResult): Promise<void> => {
+    if (result.status === "succeeded") { succeeded++; stepOutputs[step.id] = result.output; }
     if (result.status === "failed") failures++;
     if (result.status === "skipped") skipped++;
-    if (result.status === "succeeded") stepOutputs[step.id] = result.output;
+    if (result.output.halt_downstream === true) halted.add(step.id);
 
     await admin
       .from("automation_step_runs")
@@ -252,21 +313,132 @@ serve(async (req) => {
         p_increment: progressIncrement,
       });
     }
+    settled.add(step.id);
+  };
+
+  const runStep = async (step: PlanStep, blockedBy: string | undefined): Promise<void> => {
+    const stepRunId = await openRun(step);
+    if (stepRunId === "elsewhere") { elsewhere.add(step.id); return; }
+    if (!stepRunId) { failures++; settled.add(step.id); return; }
+    stepRunIds.push(stepRunId);
+
+    if (blockedBy) {
+      await finish(step, stepRunId, {
+        status: "skipped",
+        output: { [mode]: true, halt_downstream: true, blocked_by: blockedBy, summary: `Not run — step ${blockedBy} halted this branch.` },
+      });
+      return;
+    }
+
+    const prior = priorRuns.get(step.id);
+    const ctx = { ...stepCtx, stepRunId };
+    let result: StepResult | PausedSentinel;
+    try {
+      result = mode !== "live"
+        ? dryRunStep(step)
+        : prior?.output.paused === true
+          ? await resumeStepLive(ctx, step, prior.output)
+          : await executeStepLive(ctx, step);
+    } catch (e) {
+      result = { status: "failed", output: { [mode]: true }, error: `step threw: ${(e as Error).message}` };
+    }
+
+    if ("paused" in result && result.paused) {
+      const notBefore = result.not_before;
+      await admin.from("automation_step_runs").update({
+        status: "pending", not_before: notBefore, started_at: null, claimed_by: null,
+        output: {
+          live: true, paused: true, not_before: notBefore,
+          summary: notBefore ? `Paused — will resume at ${notBefore}.` : "Paused.",
+          ...result.output,
+        },
+      }).eq("id", stepRunId);
+      pausedSteps.push({ step_id: step.id, not_before: notBefore });
+      held.add(step.id);
+      if (result.output?.awaiting_approval === true) awaitingApproval.push(step.id);
+      return;
+    }
+
+    await finish(step, stepRunId, result);
+  };
+
+  // Independent branches of the depends_on DAG run side by side, at most
+  // MAX_PARALLEL_STEPS at a time. `waiting` stays in topo order so ready
+  // steps start in the same order the sequential executor used.
+  const held = new Set(pausedSteps.map((p) => p.step_id));
+  const waiting = ordered.filter((s) => !settled.has(s.id) && !held.has(s.id) && !elsewhere.has(s.id));
+  const inFlight = new Map<string, Promise<void>>();
+
+  // Resume mode: re-read the steps this invocation is not running — what
+  // other invocations settled, parked or started since we looked. True when
+  // a step settled, so its dependents may now be ready here.
+  const refresh = async (): Promise<boolean> => {
+    let progressed = false;
+    for (const [stepId, run] of await loadRuns()) {
+      if (settled.has(stepId) || run.claimedBy === invocationId) continue;
+      const terminal = TERMINAL_STATUSES.includes(run.status);
+      const parked = run.status === "pending" && run.output.paused === true;
+      if (!terminal && !parked && run.status !== "running") continue;
+
+      const queued = waiting.findIndex((s) => s.id === stepId);
+      if (queued >= 0) waiting.splice(queued, 1);
+      elsewhere.delete(stepId);
+      if (!parked && held.delete(stepId)) {
+        pausedSteps.splice(pausedSteps.findIndex((p) => p.step_id === stepId), 1);
+        if (awaitingApproval.includes(stepId)) awaitingApproval.splice(awaitingApproval.indexOf(stepId), 1);
+      }
+
+      if (terminal) {
+        settleFrom(stepId, run);
+        progressed = true;
+      } else if (parked) {
+        if (!held.has(stepId)) { held.add(stepId); hold(stepId, run); }
+      } else {
+        elsewhere.add(stepId);
+      }
+    }
+    return progressed;
+  };
+
+  while (waiting.length > 0 || inFlight.size > 0) {
+    for (let i = 0; i < waiting.length && inFlight.size < MAX_PARALLEL_STEPS;) {
+      const step = waiting[i];
+      const deps = step.depends_on ?? [];
+      if (!deps.every((d) => settled.has(d))) { i++; continue; }
+      waiting.splice(i, 1);
+      const run = runStep(step, deps.find((d) => halted.has(d)))
+        .finally(() => inFlight.delete(step.id));
+      inFlight.set(step.id, run);
+    }
+    if (inFlight.size === 0) {
+      // Nothing running here and nothing ready: the rest sit behind paused
+      // steps or steps running elsewhere — unless those settled meanwhile.
+      if (resume && await refresh()) continue;
+      break;
+    }
+    await Promise.race(inFlight.values());
   }
+  if (elsewhere.size > 0) await refresh();
 
-  const finalStatus = pausedAt
-    ? "paused"
-    : failures === 0 ? "completed" : "failed";
-  await admin.rpc("set_goal_status", { p_goal_id: goal.id, p_status: finalStatus });
+  // While another invocation still runs steps of this plan, it sets the
+  // final status when it finishes.
+  const finalStatus = elsewhere.size > 0
+    ? "running"
+    : pausedSteps.length > 0
+      ? "paused"
+      : failures === 0 ? "completed" : "failed";
+  if (elsewhere.size === 0) await admin.rpc("set_goal_status", { p_goal_id: goal.id, p_status: finalStatus });
 
   return jsonResponse({
     goal_id:       goal.id,
     plan_id:       planRow.id,
     mode,
     resume,
-    paused_at:     pausedAt,
+    paused_at:     pausedSteps[0] ?? null,
+    paused_steps:  pausedSteps,
+    awaiting_approval: awaitingApproval,
     steps_total:   ordered.length,
-    steps_succeeded: stepRunIds.length - failures - skipped - (pausedAt ? 1 : 0),
+    steps_succeeded: succeeded,
     steps_skipped: skipped,
     steps_failed:  failures,
     step_run_ids:  stepRunIds,
@@ -12,6 +12,7 @@
 //   - automation_step_runs for the active plan (what actually happened)
 //   - workspace_memory observation rows for this goal (drift signals)
 //   - workspace_memory winning_pattern / avoid rows (general learning)
+//   - goal_forecast() — velocity vs. the rate needed to hit due_at
 //
 // Writes:
 //   - new automation_plans row via store_plan_version() — prior version
@@ -37,7 +38,9 @@ const MAX_STEPS = 12;
 
 const PRIMITIVE_KINDS = [
   "enrich_leads", "lead_score", "email_sequence",
-  "social_post", "team_task", "wait", "checkpoint",
+  "social_post", "team_task", "wait", "checkpoint", "approval",
+  "discover_leads", "run_workflow", "create_deal", "update_lead_status",
+  "send_webhook", "generate_content",
 ] as const;
 
 function jsonResponse(b: unknown, status: number, h: Record<string, string>): Response {
@@ -80,7 +83,7 @@ Produce a REVISED plan as JSON. Schema is identical to the original planner outp
     "steps": [
       {
         "id": "s1",
-        "kind": one of [enrich_leads, lead_score, email_sequence, social_post, team_task, wait, checkpoint],
+        "kind": one of [enrich_leads, lead_score, email_sequence, social_post, team_task, wait, checkpoint, approval, discover_leads, run_workflow, create_deal, update_lead_status, send_webhook, generate_content],
         "title": "short label",
         "rationale": "why this step now, given the drift",
         "params": { ... },
@@ -95,8 +98,12 @@ Produce a REVISED plan as JSON. Schema is identical to the original planner outp
 
 REVISION RULES:
 - Address the OBSERVATIONS explicitly. If 'stalled_running' was observed, the revised plan should remove or fix the stalled step.
+- If 'falling_behind' was observed, the revised plan must close the gap between velocity and the per-day rate needed (see FORECAST): more prospects, more touches or a faster cadence — not just more waiting or checkpoints.
 - DON'T redo work that already succeeded. If enrich_leads produced research on 50 leads, the revised plan shouldn't include another enrich_leads unless that's the actual issue.
 - Lean on workspace learning: winning_pattern rows describe what's worked; avoid rows describe what hasn't.
+- Keep an approval step (params: { message }) in front of every email_sequence and social_post. If an approval was rejected, don't bring the rejected action back without a new approval.
+- If the drift is a shortfall of leads (e.g. few qualified_leads, nothing left to email), add a discover_leads step (params: { titles, industries?, locations?, company_sizes?, keywords?, count ≤ 50 }) and point the following steps' lead_filter at its step id.
+- run_workflow (params: { workflow, lead_filter }) only for a workflow the original plan already used. create_deal (params: { lead_filter, stage, value_amount }), update_lead_status (params: { lead_filter, status: New|Contacted|Qualified|Converted|Lost }), send_webhook (params: { signal, message? }) and generate_content (params: { channel, topic }) follow the original planner's params.
 - Between 3 and 12 steps. Same primitive constraints as the original planner.
 - Output ONLY JSON. No prose preamble. No code-fence wrappers.`;
 
@@ -206,6 +213,14 @@ serve(async (req) => {
     .order("updated_at", { ascending: false })
     .limit(15);
 
+  // Forecast from the hourly metric snapshots (goal_forecast, migration
+  // 20260823220000) — how far behind, not just that it is.
+  const { data: forecast } = await admin.rpc("goal_forecast", { p_goal_id: goal.id });
+  const fc = (forecast ?? null) as {
+    status?: string; velocity_per_day?: number | null; required_per_day?: number | null;
+    projected_at_due?: number | null; projected_completion_at?: string | null;
+  } | null;
+
   // Build the prompt.
   const userPrompt = [
     "ORIGINAL GOAL",
@@ -215,6 +230,18 @@ serve(async (req) => {
     `Due by:    ${goal.due_at ?? "no deadline"}`,
     `Guardrails: ${goal.guardrails ?? "(none)"}`,
     "",
+    "FORECAST",
+    "========",
+    fc?.status
+      ? [
+        `Status:            ${fc.status}`,
+        `Velocity:          ${fc.velocity_per_day ?? "n/a"} ${goal.target_metric}/day over the last 7 days`,
+        `Needed to hit due: ${fc.required_per_day ?? "n/a"} ${goal.target_metric}/day`,
+        `Projected at due:  ${fc.projected_at_due ?? "n/a"}`,
+        `Projected done:    ${fc.projected_completion_at ?? "not at current velocity"}`,
+      ].join("\n")
+      : "(no metric snapshots yet)",
+    "",
     `PRIOR PLAN (v${planRow.version})`,
     "==============",
     `Summary: ${(planRow.plan as { summary?: string }).summary ?? "(no summary)"}`,
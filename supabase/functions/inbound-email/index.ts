@@ -9,11 +9,17 @@
 //   1. In-Reply-To → email_messages.provider_message_id (exact thread) → owner+lead
 //   2. To address   → sender_accounts.from_email → owner; From → lead by email
 //
+// Each stored reply is classified by intent (interested, meeting request,
+// objection, out-of-office, referral, unsubscribe, bounce — see
+// _shared/replyIntent.ts) before the insert, so the sequence stop rules never
+// see an auto-reply as a real one; apply_reply_intent then runs the actions.
+//
 // Auth: if INBOUND_EMAIL_SECRET is set, require header X-Inbound-Secret to match.
 // PUBLIC — deploy with: supabase functions deploy inbound-email --no-verify-jwt
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { adminClient } from "../_shared/auth.ts";
+import { classifyReply, htmlToText } from "../_shared/replyIntent.ts";
 
 const INBOUND_SECRET = Deno.env.get("INBOUND_EMAIL_SECRET") ?? "";
 
@@ -125,18 +131,37 @@ serve(async (req) => {
 
     if (!ownerId) return json({ ok: true, stored: false, reason: "no matching sender/owner" }, 200);
 
-    const { error } = await admin.from("inbound_emails").insert({
+    // Already ingested (provider retry, IMAP re-poll): don't spend a classification on it.
+    if (messageId) {
+      const { data: seen } = await admin.from("inbound_emails")
+        .select("id").eq("owner_id", ownerId).eq("message_id", messageId).maybeSingle();
+      if (seen) return json({ ok: true, stored: false, reason: "duplicate" }, 200);
+    }
+
+    const intent = await classifyReply(admin, workspaceId, {
+      fromEmail, subject, text: bodyText || htmlToText(bodyHtml), receivedAt: new Date(receivedAt),
+    });
+
+    const { data: row, error } = await admin.from("inbound_emails").insert({
       owner_id: ownerId, workspace_id: workspaceId, lead_id: leadId,
       sender_account_id: senderAccountId, reply_to_message_id: replyToMessageId,
       from_email: fromEmail, from_name: nameOnly(fromRaw), to_email: toEmail,
       subject, body_text: bodyText || null, body_html: bodyHtml || null,
       message_id: messageId || null, in_reply_to: inReplyTo || null, received_at: receivedAt,
-    });
+      intent: intent.intent, intent_confidence: intent.intent ? intent.confidence : null,
+      intent_source: intent.intent ? intent.source : null,
+      ooo_return_date: intent.returnDate, referral_email: intent.referralEmail,
+      classified_at: new Date().toISOString(),
+    }).select("id").single();
     // Duplicate message_id (already ingested) is a success, not an error.
     if (error && !String(error.message).includes("duplicate")) {
       return json({ error: error.message }, 500);
     }
-    return json({ ok: true, stored: true, lead_matched: Boolean(leadId) }, 200);
+    if (row && intent.intent) {
+      const { error: applyErr } = await admin.rpc("apply_reply_intent", { p_inbound_id: row.id });
+      if (applyErr) console.warn(`[inbound-email] apply_reply_intent failed: ${applyErr.message}`);
+    }
+    return json({ ok: true, stored: true, lead_matched: Boolean(leadId), intent: intent.intent }, 200);
   } catch (e) {
     return json({ error: (e as Error).message }, 500);
   }
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { getCorsHeaders, handleCors } from "../_shared/cors.ts";
+import { isServiceRoleToken } from "../_shared/auth.ts";
 
 // ── Lead discovery via People Data Labs (PDL) Person Search ──────────────────
 // Roadmap 1.4. Holds the PDL_API_KEY server-side and turns a small set of form
@@ -8,6 +9,9 @@ import { getCorsHeaders, handleCors } from "../_shared/cors.ts";
 // client imports the selected ones workspace-correctly via the import_leads_batch
 // RPC. Gated: with no key set it returns a clear "not configured" message (200)
 // so the UI can show a setup state instead of a hard error.
+//
+// The goal executor's cron resume calls with the service-role token and names
+// the user it acts for in `on_behalf_of`; the rate limit applies to that user.
 
 const PDL_API_KEY = Deno.env.get("PDL_API_KEY") ?? "";
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL") ?? "";
@@ -38,6 +42,8 @@ interface DiscoveryParams {
   company_sizes?: string[];
   require_email?: boolean;
   size?: number;
+  /** Service-role callers only: the user the search is run for. */
+  on_behalf_of?: string;
 }
 
 /** Build a PDL Elasticsearch bool query from the form filters. Each provided
@@ -97,17 +103,25 @@ serve(async (req) => {
     const authHeader = req.headers.get("Authorization");
     if (!authHeader) return json({ error: "Missing authorization header" }, cors);
 
-    const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
-    const { data: { user }, error: authError } = await admin.auth.getUser(authHeader.replace("Bearer ", ""));
-    if (authError || !user) return json({ error: "Invalid token" }, cors);
+    const token = authHeader.replace("Bearer ", "");
+    const params = (await req.json()) as DiscoveryParams;
+    let userId: string;
+    if (isServiceRoleToken(token)) {
+      if (!params.on_behalf_of) return json({ error: "on_behalf_of required with a service-role token" }, cors);
+      userId = params.on_behalf_of;
+    } else {
+      const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+      const { data: { user }, error: authError } = await admin.auth.getUser(token);
+      if (authError || !user) return json({ error: "Invalid token" }, cors);
+      userId = user.id;
+    }
 
-    if (!checkRateLimit(user.id)) return json({ error: "Rate limit exceeded. Max 10 searches per minute." }, cors);
+    if (!checkRateLimit(userId)) return json({ error: "Rate limit exceeded. Max 10 searches per minute." }, cors);
 
     if (!PDL_API_KEY) {
       return json({ error: "Lead discovery isn't set up yet — PDL_API_KEY is not configured. Add it in Supabase secrets.", not_configured: true }, cors);
     }
 
-    const params = (await req.json()) as DiscoveryParams;
     const { query, clauseCount } = buildPdlQuery(params);
     if (clauseCount === 0) {
       return json({ error: "Add at least one filter (title, industry, location, company size, or keywords)." }, cors);
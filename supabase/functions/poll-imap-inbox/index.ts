@@ -6,12 +6,12 @@
 // (which matches + stores them for the unified inbox). State per sender lives in
 // imap_poll_state. Invoked by the invoke_imap_poll cron.
 //
-// Minimal hand-rolled IMAP client (Deno.connectTls) — single-literal FETCHes to
-// keep parsing simple. Deploy: supabase functions deploy poll-imap-inbox
+// IMAP client lives in _shared/imap.ts. Deploy: supabase functions deploy poll-imap-inbox
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { decryptToken } from "../_shared/tokenCrypto.ts";
+import { Imap, extractText, imapHostFor, parseHeaders, qstr, withTimeout } from "../_shared/imap.ts";
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL") ?? "";
 const SERVICE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
@@ -22,106 +22,6 @@ const json = (b: unknown, s = 200) => new Response(JSON.stringify(b), { status:
 
 const CONNECT_MS = 10_000;
 const ACCOUNT_MS = 20_000;
-function withTimeout<T>(p: Promise<T>, ms: number, label: string): Promise<T> {
-  return Promise.race([p, new Promise<never>((_, rej) => setTimeout(() => rej(new Error(`${label} timed out`)), ms))]);
-}
-
-// Map an SMTP host to its IMAP host (best-effort; overridable via metadata).
-function imapHostFor(smtpHost: string): string {
-  const h = smtpHost.toLowerCase();
-  if (h.includes("gmail")) return "imap.gmail.com";
-  if (h.includes("office365") || h.includes("outlook")) return "outlook.office365.com";
-  if (h.startsWith("smtp.")) return "imap." + h.slice(5);
-  return smtpHost;
-}
-
-const decodeQP = (s: string) => s.replace(/=\r?\n/g, "").replace(/=([0-9A-Fa-f]{2})/g, (_, h) => String.fromCharCode(parseInt(h, 16)));
-const decodeB64 = (s: string) => { try { return decodeURIComponent(escape(atob(s.replace(/\s+/g, "")))); } catch { try { return atob(s.replace(/\s+/g, "")); } catch { return s; } } };
-
-function parseHeaders(raw: string): Record<string, string> {
-  const unfolded = raw.replace(/\r?\n[ \t]+/g, " ");
-  const h: Record<string, string> = {};
-  for (const line of unfolded.split(/\r?\n/)) {
-    const i = line.indexOf(":");
-    if (i > 0) h[line.slice(0, i).trim().toLowerCase()] = line.slice(i + 1).trim();
-  }
-  return h;
-}
-
-function decodeBody(s: string, cte: string): string {
-  if (cte.includes("quoted-printable")) return decodeQP(s);
-  if (cte.includes("base64")) return decodeB64(s);
-  return s;
-}
-
-// Best-effort text extraction: pick text/plain out of multipart, else decode.
-function extractText(headers: Record<string, string>, body: string): string {
-  const ct = (headers["content-type"] || "").toLowerCase();
-  const cte = (headers["content-transfer-encoding"] || "").toLowerCase();
-  if (ct.startsWith("multipart/")) {
-    const bm = ct.match(/boundary="?([^";]+)"?/);
-    if (bm) {
-      for (const part of body.split("--" + bm[1])) {
-        const [ph, ...rest] = part.split(/\r?\n\r?\n/);
-        if (ph.toLowerCase().includes("text/plain")) {
-          const pcte = (ph.match(/content-transfer-encoding:\s*([^\r\n;]+)/i) || [])[1] || "";
-          return decodeBody(rest.join("\n\n"), pcte.trim().toLowerCase()).trim();
-        }
-      }
-    }
-  }
-  return decodeBody(body, cte).trim();
-}
-
-class Imap {
-  private buf = new Uint8Array(0);
-  private tag = 0;
-  private enc = new TextEncoder();
-  private dec = new TextDecoder("utf-8", { fatal: false });
-  constructor(private conn: Deno.TlsConn) {}
-
-  private async fill(): Promise<boolean> {
-    const chunk = new Uint8Array(65536);
-    const n = await this.conn.read(chunk);
-    if (n === null) return false;
-    const merged = new Uint8Array(this.buf.length + n);
-    merged.set(this.buf); merged.set(chunk.subarray(0, n), this.buf.length);
-    this.buf = merged;
-    return true;
-  }
-  private async readLine(): Promise<string> {
-    while (true) {
-      const idx = this.buf.indexOf(10);
-      if (idx >= 0) { const l = this.dec.decode(this.buf.subarray(0, idx)); this.buf = this.buf.subarray(idx + 1); return l.replace(/\r$/, ""); }
-      if (!(await this.fill())) throw new Error("connection closed");
-    }
-  }
-  private async readBytes(n: number): Promise<string> {
-    while (this.buf.length < n) if (!(await this.fill())) throw new Error("connection closed");
-    const out = this.dec.decode(this.buf.subarray(0, n)); this.buf = this.buf.subarray(n); return out;
-  }
-  async greeting() { return this.readLine(); }
-  // Send a command; collect untagged lines + literals until the tagged result.
-  async cmd(command: string): Promise<{ ok: boolean; lines: string[]; literals: string[]; result: string }> {
-    const t = `A${++this.tag}`;
-    await this.conn.write(this.enc.encode(`${t} ${command}\r\n`));
-    const lines: string[] = []; const literals: string[] = []; let cur = "";
-    while (true) {
-      const phys = await this.readLine();
-      const m = phys.match(/\{(\d+)\}$/);
-      if (m) { cur += phys.slice(0, -m[0].length); literals.push(await this.readBytes(parseInt(m[1], 10))); continue; }
-      cur += phys;
-      if (cur.startsWith(t + " ")) {
-        const result = cur.slice(t.length + 1).split(" ")[0].toUpperCase();
-        return { ok: result === "OK", lines, literals, result: cur };
-      }
-      lines.push(cur); cur = "";
-    }
-  }
-  async logout() { try { await this.cmd("LOGOUT"); } catch { /* noop */ } }
-}
-
-const qstr = (s: string) => `"${s.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
 
 async function pollAccount(admin: ReturnType<typeof createClient>, acct: {
   id: string; from_email: string; smtp_host: string; smtp_user: string; smtp_pass: string;
@@ -161,9 +61,12 @@ async function pollAccount(admin: ReturnType<typeof createClient>, acct: {
     let ingested = 0, maxUid = lastUid;
     for (const uid of uids) {
       try {
-        const hf = await imap.cmd(`UID FETCH ${uid} (BODY.PEEK[HEADER.FIELDS (FROM TO SUBJECT MESSAGE-ID IN-REPLY-TO DATE CONTENT-TYPE CONTENT-TRANSFER-ENCODING)])`);
-        const tf = await imap.cmd(`UID FETCH ${uid} (BODY.PEEK[TEXT])`);
+        const hf = await imap.cmd(`UID FETCH ${uid} (BODY.PEEK[HEADER.FIELDS (FROM TO SUBJECT MESSAGE-ID IN-REPLY-TO DATE CONTENT-TYPE CONTENT-TRANSFER-ENCODING X-SCALIYO-WARMUP)])`);
         const headers = parseHeaders(hf.literals[0] ?? "");
+        // Warmup traffic between the workspace's own inboxes is handled by
+        // process-warmup — keep it out of the unified inbox.
+        if (headers["x-scaliyo-warmup"]) { if (uid > maxUid) maxUid = uid; continue; }
+        const tf = await imap.cmd(`UID FETCH ${uid} (BODY.PEEK[TEXT])`);
         const text = extractText(headers, tf.literals[0] ?? "");
         const payload = {
           from: headers["from"] ?? "", to: headers["to"] ?? acct.from_email,
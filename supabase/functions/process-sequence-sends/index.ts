@@ -2,16 +2,33 @@
 //
 // The missing send stage of the email-sequence pipeline. process-email-writing-
 // queue writes each run item's AI body and marks it 'written'; this function
-// takes 'written' items whose send time is due (created_at + delay_days), sends
+// takes 'written' items whose send time is due (created_at + delay_days, and
+// past hold_until when an out-of-office reply postponed the lead), sends
 // them via send-email (auto-picking the workspace sender), and marks them 'sent'
 // (or retries/fails). Invoked every minute by the invoke_sequence_sends cron.
 //
+// Before sending, stop_exited_sequence_leads applies each run's exit conditions
+// (replied / unsubscribed / bounced / meeting booked / converted): a lead that
+// meets one has all its unsent items marked 'skipped' with the reason, so no
+// later step goes out.
+//
+// Campaigns with sender rotation (sequence_config.senderRotation) get their
+// inbox per lead from pick_sequence_sender: sticky for the lead's whole thread,
+// within each inbox's daily cap, skipping disconnected or unhealthy inboxes.
+// When no pool inbox has capacity the item is released and retried next tick.
+//
+// Send times are local to the lead: each item carries lead_timezone (stamped at
+// launch from leads.timezone or the inferred zone) and best_send_hour is checked
+// in it. The send window is too unless the run was launched with
+// leadLocalTime: false; items with no zone fall back to the campaign zone.
+//
 // Deploy: supabase functions deploy process-sequence-sends
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { getCorsHeaders, handleCors } from "../_shared/cors.ts";
 import { notifyUser } from "../_shared/notify.ts";
+import { zonedParts } from "../_shared/timezones.ts";
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL") ?? "";
 const SERVICE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
@@ -28,21 +45,34 @@ interface Item {
   ai_subject: string | null; ai_body_html: string | null;
   delay_days: number; attempt_count: number; created_at: string;
   step_index: number | null; subject_variant: number | null; best_send_hour: number | null;
+  lead_timezone: string | null;
 }
 interface Run { id: string; owner_id: string; status: string; sequence_config: Record<string, unknown> | null }
+interface PickedSender { sender_id: string; provider: string; from_email: string; daily_cap: number; daily_sent: number }
+
+// Best-time default when a lead has no learned hour: 10:00 in their zone, or
+// 14:00 UTC when the zone is unknown (the pre-timezone default).
+const DEFAULT_LOCAL_BEST_HOUR = 10;
+const DEFAULT_UTC_BEST_HOUR = 14;
+
+interface SendWindow { start?: number; end?: number; weekdaysOnly?: boolean; timezone?: string }
 
-// Only send within the campaign's configured hours/weekdays (in its timezone).
+// The zone an item's send window is judged in: the lead's own when the run
+// sends in lead time and the lead could be placed, else the campaign's.
+function windowZone(cfg: Record<string, unknown> | null, it: Item): string | null {
+  const w = (cfg?.sendWindow ?? null) as SendWindow | null;
+  const perLead = cfg?.leadLocalTime !== false;
+  return (perLead ? it.lead_timezone : null) || w?.timezone || null;
+}
+
+// Only send within the campaign's configured hours/weekdays, in `zone`.
 // No window configured → send anytime.
-function inSendWindow(cfg: Record<string, unknown> | null): boolean {
-  const w = (cfg?.sendWindow ?? null) as { start?: number; end?: number; weekdaysOnly?: boolean; timezone?: string } | null;
+function inSendWindow(cfg: Record<string, unknown> | null, zone: string | null): boolean {
+  const w = (cfg?.sendWindow ?? null) as SendWindow | null;
   if (!w || w.start == null || w.end == null) return true;
-  try {
-    const parts = new Intl.DateTimeFormat("en-US", { timeZone: w.timezone || "UTC", hour: "numeric", hour12: false, weekday: "short" }).formatToParts(new Date());
-    let hour = parseInt(parts.find(p => p.type === "hour")?.value ?? "0", 10); if (hour === 24) hour = 0;
-    const wd = parts.find(p => p.type === "weekday")?.value ?? "";
-    if (w.weekdaysOnly && (wd === "Sat" || wd === "Sun")) return false;
-    return w.start <= w.end ? (hour >= w.start && hour < w.end) : (hour >= w.start || hour < w.end);
-  } catch { return true; }
+  const { hour, weekday } = zonedParts(zone ?? "UTC");
+  if (w.weekdaysOnly && (weekday === "Sat" || weekday === "Sun")) return false;
+  return w.start <= w.end ? (hour >= w.start && hour < w.end) : (hour >= w.start || hour < w.end);
 }
 
 serve(async (req) => {
@@ -58,14 +88,15 @@ serve(async (req) => {
       .eq("status", "sending").lt("locked_until", nowIso);
 
     const { data: rawItems } = await admin.from("email_sequence_run_items")
-      .select("id, run_id, lead_id, lead_email, ai_subject, ai_body_html, delay_days, attempt_count, created_at, step_index, subject_variant, best_send_hour")
+      .select("id, run_id, lead_id, lead_email, ai_subject, ai_body_html, delay_days, attempt_count, created_at, step_index, subject_variant, best_send_hour, lead_timezone")
       .eq("status", "written")
+      .or(`hold_until.is.null,hold_until.lte.${nowIso}`)
       .limit(BATCH);
 
     const due = ((rawItems ?? []) as Item[]).filter(
       it => new Date(it.created_at).getTime() + (it.delay_days ?? 0) * 86_400_000 <= Date.now(),
     );
-    if (due.length === 0) return json({ sent: 0, failed: 0, message: "nothing due" }, 200, cors);
+    if (due.length === 0) return json({ sent: 0, failed: 0, skipped: 0, message: "nothing due" }, 200, cors);
 
     const runIds = [...new Set(due.map(i => i.run_id))];
     const { data: runs } = await admin.from("email_sequence_runs")
@@ -82,19 +113,39 @@ serve(async (req) => {
       for (const s of (seqs ?? []) as { id: string; business_id: string | null }[]) bizByCampaign.set(s.id, s.business_id);
     }
 
-    let sent = 0, failed = 0;
+    let sent = 0, failed = 0, skipped = 0, held = 0;
     const touched = new Set<string>();
 
+    // Exit conditions — stop leads who replied, bounced, unsubscribed, booked a
+    // meeting or converted since their run started.
+    const liveRunIds = runIds.filter(id => {
+      const r = runMap.get(id);
+      return r && r.status !== "paused" && r.status !== "canceled";
+    });
+    const stoppedLeads = new Set<string>();
+    if (liveRunIds.length) {
+      const { data: stops, error: stopErr } = await admin.rpc("stop_exited_sequence_leads", { p_run_ids: liveRunIds });
+      if (stopErr) console.warn("[process-sequence-sends] exit check failed, sending anyway:", stopErr.message);
+      for (const s of (stops ?? []) as { run_id: string; lead_id: string; reason: string; items_skipped: number }[]) {
+        stoppedLeads.add(`${s.run_id}:${s.lead_id}`);
+        touched.add(s.run_id);
+        skipped += s.items_skipped;
+      }
+    }
+
     for (const it of due) {
       const run = runMap.get(it.run_id);
       if (!run || run.status === "paused" || run.status === "canceled") continue;
-      // Send-time gating (re-checked each cron):
-      //  • best-time on → hold until this lead's learned hour (default 14 UTC).
+      if (stoppedLeads.has(`${it.run_id}:${it.lead_id}`)) continue;
+      // Send-time gating (re-checked each cron), in the lead's local zone:
+      //  • best-time on → hold until this lead's learned hour (learned in
+      //    lead_timezone; default 10 local, or 14 UTC when the zone is unknown).
       //  • else → hold until inside the fixed send window.
       if (run.sequence_config?.sendBestTime) {
-        const target = it.best_send_hour ?? 14;
-        if (new Date().getUTCHours() !== target) continue;
-      } else if (!inSendWindow(run.sequence_config)) continue;
+        const zone = it.lead_timezone;
+        const target = it.best_send_hour ?? (zone ? DEFAULT_LOCAL_BEST_HOUR : DEFAULT_UTC_BEST_HOUR);
+        if (zonedParts(zone ?? "UTC").hour !== target) continue;
+      } else if (!inSendWindow(run.sequence_config, windowZone(run.sequence_config, it))) continue;
 
       // Atomic claim so concurrent invocations can't double-send.
       const { data: claimed } = await admin.from("email_sequence_run_items")
@@ -111,6 +162,23 @@ serve(async (req) => {
       }
 
       const cfg = run.sequence_config ?? {};
+
+      // Sender rotation: the lead's pinned inbox, or the least-used eligible one.
+      let sender: PickedSender | null = null;
+      if ((cfg.senderRotation as { enabled?: boolean } | undefined)?.enabled) {
+        const { data: picked, error: pickErr } = await admin.rpc("pick_sequence_sender", { p_run_id: it.run_id, p_lead_id: it.lead_id });
+        sender = (Array.isArray(picked) ? picked[0] : picked) as PickedSender | null;
+        if (pickErr || !sender) {
+          await admin.from("email_sequence_run_items")
+            .update({
+              status: "written", locked_until: null, updated_at: new Date().toISOString(),
+              error_message: pickErr ? `Sender pick failed: ${pickErr.message}`.slice(0, 300) : "Waiting for sender capacity (all pool inboxes at their daily cap or unavailable)",
+            })
+            .eq("id", it.id);
+          held++; continue;
+        }
+      }
+
       try {
         const res = await fetch(`${SUPABASE_URL}/functions/v1/send-email`, {
           method: "POST",
@@ -121,8 +189,9 @@ serve(async (req) => {
             to_email: it.lead_email,
             subject: it.ai_subject ?? "",
             html_body: it.ai_body_html,
-            provider: (cfg.provider as string) || undefined,
-            from_email: (cfg.from_email as string) || undefined,
+            provider: sender?.provider ?? ((cfg.provider as string) || undefined),
+            from_email: sender?.from_email ?? ((cfg.from_email as string) || undefined),
+            sender_account_id: sender?.sender_id,
             track_opens: true,
             track_clicks: true,
             // Campaign attribution for A/B analytics.
@@ -172,6 +241,7 @@ serve(async (req) => {
       };
       const done = await cnt("sent");
       const failedC = await cnt("failed");
+      const skippedC = await cnt("skipped");
       const inFlight = await cnt(["pending", "writing", "written", "sending"]);
       const patch: Record<string, unknown> = { items_done: done, items_failed: failedC, updated_at: new Date().toISOString() };
       if (inFlight === 0) { patch.status = "completed"; patch.completed_at = new Date().toISOString(); }
@@ -189,13 +259,13 @@ serve(async (req) => {
           title:  failedC > 0
             ? `Sequence finished with ${failedC} failed send${failedC === 1 ? "" : "s"}`
             : "Sequence finished sending",
-          message: `${done} email${done === 1 ? "" : "s"} sent${failedC > 0 ? `, ${failedC} failed` : ""}.`,
+          message: `${done} email${done === 1 ? "" : "s"} sent${failedC > 0 ? `, ${failedC} failed` : ""}${skippedC > 0 ? `, ${skippedC} skipped after leads met an exit condition` : ""}.`,
           link:   campaignId ? `/portal/campaigns/${campaignId}` : "/portal/campaigns",
         });
       }
     }
 
-    return json({ sent, failed, considered: due.length }, 200, cors);
+    return json({ sent, failed, skipped, held, considered: due.length }, 200, cors);
   } catch (e) {
     return json({ error: (e as Error).message }, 500, cors);
   }
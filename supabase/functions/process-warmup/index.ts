@@ -0,0 +1,313 @@
+// supabase/functions/process-warmup/index.ts
+//
+// Inbox warmup worker. Invoked every 15 min by the invoke_warmup cron.
+//
+//   1. Send — every warmup_enabled password-based sender sends its share of
+//      warmup_daily_target (spread over the runs left in the UTC day) to other
+//      connected inboxes in the same workspace. Each message carries a
+//      Message-ID and an X-Scaliyo-Warmup token and gets a warmup_messages row.
+//   2. Check — each receiving inbox looks for its unchecked warmup mail over
+//      IMAP: INBOX first, then the Junk/Spam folder. Spam hits are moved to
+//      INBOX; everything found is marked \Seen + \Flagged. Placement is stored
+//      (mail not found after 6h is 'missing'), and warmup_reply_rate of the
+//      found messages get an in-thread reply.
+//   3. Score — compute_sender_health folds the 7-day inbox rate into
+//      health_score for every sender touched.
+//
+// poll-imap-inbox skips X-Scaliyo-Warmup mail, so none of this reaches the
+// unified inbox. Deploy: supabase functions deploy process-warmup
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { decryptToken } from "../_shared/tokenCrypto.ts";
+import { Imap, imapHostFor, qstr, withTimeout } from "../_shared/imap.ts";
+import { sendViaSmtp } from "../_shared/smtp.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL") ?? "";
+const SERVICE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+
+const RUN_INTERVAL_MS = 15 * 60_000;      // cron cadence
+const MAX_SENDS_PER_SENDER = 4;           // per run
+const CHECK_AFTER_MS = 2 * 60_000;        // give delivery a moment
+const MISSING_AFTER_MS = 6 * 3_600_000;
+const GIVE_UP_AFTER_MS = 48 * 3_600_000;  // unreachable inbox — stop retrying
+const MAX_CHECKS_PER_INBOX = 40;
+const CONNECT_MS = 10_000;
+const INBOX_MS = 45_000;
+
+const json = (b: unknown, s = 200) => new Response(JSON.stringify(b), { status: s, headers: { "Content-Type": "application/json" } });
+
+type Admin = ReturnType<typeof createClient>;
+
+interface Inbox {
+  id: string; workspace_id: string; from_email: string; from_name: string; reply_rate: number;
+  smtp_host: string; smtp_port: number; smtp_user: string; smtp_pass: string;
+  imap_host?: string; imap_port?: number;
+}
+
+interface Pending {
+  id: string; from_sender_id: string; to_sender_id: string; kind: "sent" | "reply";
+  token: string; message_id: string; subject: string; sent_at: string;
+}
+
+// ── Content ────────────────────────────────────────────────────────────────
+// Short, varied, link-free notes — warmup mail should look like ordinary
+// correspondence between colleagues.
+
+const TOPICS = ["the Q3 plan", "next week's sync", "the onboarding doc", "the vendor shortlist", "Thursday's agenda", "the budget draft", "the offsite", "the hiring loop"];
+const SUBJECTS = ["Quick question about {t}", "Re-check on {t}", "Thoughts on {t}?", "Following up: {t}", "Notes on {t}", "{T} — small update"];
+const OPENERS = ["Hi there,", "Hey,", "Hello,", "Hi,", "Morning,"];
+const LINES = [
+  "I had another look at {t} and I think we're mostly aligned.",
+  "Could you take a quick pass over {t} when you get a minute?",
+  "I moved a couple of items around in {t}, nothing major.",
+  "Wanted to check whether {t} still works for your side.",
+  "No rush on this — just keeping {t} on your radar.",
+  "I added a few notes to {t}; happy to talk them through.",
+];
+const REPLIES = [
+  "Thanks, that works for me.",
+  "Looks good — I'll take a closer look this afternoon.",
+  "Appreciate the heads-up, all fine on my end.",
+  "Got it, thanks for sending this over.",
+  "Sounds good. Let's pick it up next week.",
+];
+const SIGNOFFS = ["Thanks,", "Best,", "Cheers,", "Talk soon,"];
+
+const pick = <T,>(a: T[]): T => a[Math.floor(Math.random() * a.length)];
+const esc = (s: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+const firstName = (i: Inbox) => (i.from_name || i.from_email.split("@")[0]).split(/\s+/)[0];
+
+function composeWarmup(from: Inbox): { subject: string; html: string } {
+  const t = pick(TOPICS);
+  const subject = pick(SUBJECTS).replace("{t}", t).replace("{T}", t[0].toUpperCase() + t.slice(1));
+  const body = [pick(OPENERS), pick(LINES).replace("{t}", t), `${pick(SIGNOFFS)}<br>${esc(firstName(from))}`];
+  return { subject, html: body.map(p => `<p>${p}</p>`).join("") };
+}
+
+function composeReply(from: Inbox): string {
+  return [pick(OPENERS), pick(REPLIES), `${pick(SIGNOFFS)}<br>${esc(firstName(from))}`].map(p => `<p>${p}</p>`).join("");
+}
+
+// Spread what's left of today's target over the runs left in the UTC day
+// (current_date on the DB side). The fractional share is sent with matching
+// probability so low volumes don't all go out in the first hour.
+function dueThisRun(target: number, sentToday: number, now = Date.now()): number {
+  const remaining = target - sentToday;
+  if (remaining <= 0) return 0;
+  const runsLeft = Math.max(1, Math.ceil((86_400_000 - (now % 86_400_000)) / RUN_INTERVAL_MS));
+  const share = remaining / runsLeft;
+  const n = Math.floor(share) + (Math.random() < share % 1 ? 1 : 0);
+  return Math.min(MAX_SENDS_PER_SENDER, remaining, n);
+}
+
+// ── Send ───────────────────────────────────────────────────────────────────
+
+async function sendWarmup(
+  admin: Admin, from: Inbox, to: Inbox, subject: string, html: string,
+  parent?: { id: string; message_id: string },
+): Promise<{ ok: boolean; error?: string }> {
+  const token = crypto.randomUUID();
+  const messageId = `${token}@${from.from_email.split("@")[1] || "warmup.scaliyo"}`;
+  const res = await sendViaSmtp(to.from_email, from.from_email, subject, html, from, parent?.message_id, {
+    "Message-ID": `<${messageId}>`,
+    "X-Scaliyo-Warmup": token,
+  });
+  await admin.from("warmup_messages").insert({
+    workspace_id: from.workspace_id, from_sender_id: from.id, to_sender_id: to.id,
+    parent_id: parent?.id ?? null, kind: parent ? "reply" : "sent",
+    token, message_id: messageId, subject,
+    status: res.success ? "sent" : "failed", error: res.error?.slice(0, 300) ?? null,
+  });
+  if (res.success) await admin.rpc("record_warmup_sent", { p_sender_id: from.id, p_token: token });
+  return { ok: res.success, error: res.error };
+}
+
+// ── Check ──────────────────────────────────────────────────────────────────
+
+// The spam folder: the \Junk special-use attribute, else a Spam/Junk name.
+async function findJunkMailbox(imap: Imap): Promise<string | null> {
+  const list = await imap.cmd('LIST "" "*"');
+  let byName: string | null = null;
+  for (const l of list.lines) {
+    const m = l.match(/^\* LIST \(([^)]*)\) (?:"(?:[^"\\]|\\.)*"|NIL) (.+)$/i);
+    if (!m) continue;
+    const name = m[2].trim().replace(/^"|"$/g, "").replace(/\\(["\\])/g, "$1");
+    if (/\\Junk\b/i.test(m[1])) return name;
+    if (!byName && /(^|[/.])(spam|junk)( e-?mail)?$/i.test(name)) byName = name;
+  }
+  return byName;
+}
+
+async function findByToken(imap: Imap, token: string): Promise<number | null> {
+  const r = await imap.cmd(`UID SEARCH HEADER X-Scaliyo-Warmup ${qstr(token)}`);
+  const uid = (r.lines.find(l => /^\* SEARCH/i.test(l)) || "").replace(/^\* SEARCH/i, "").trim().split(/\s+/).map(Number).find(u => u > 0);
+  return uid ?? null;
+}
+
+async function moveToInbox(imap: Imap, uid: number): Promise<boolean> {
+  if ((await imap.cmd(`UID MOVE ${uid} INBOX`)).ok) return true;
+  // No MOVE extension: copy, then delete the original.
+  if (!(await imap.cmd(`UID COPY ${uid} INBOX`)).ok) return false;
+  await imap.cmd(`UID STORE ${uid} +FLAGS.SILENT (\\Deleted)`);
+  await imap.cmd(`UID EXPUNGE ${uid}`);
+  return true;
+}
+
+async function checkInbox(
+  admin: Admin, inbox: Inbox, pending: Pending[], inboxes: Map<string, Inbox>,
+): Promise<{ checked: number; rescued: number; replied: number; error?: string }> {
+  const host = inbox.imap_host || imapHostFor(inbox.smtp_host);
+  const port = inbox.imap_port || 993;
+  let conn: Deno.TlsConn | null = null;
+  const out = { checked: 0, rescued: 0, replied: 0 };
+  try {
+    conn = await withTimeout(Deno.connectTls({ hostname: host, port }), CONNECT_MS, `connect ${host}:${port}`);
+    const imap = new Imap(conn);
+    await imap.greeting();
+    const login = await imap.cmd(`LOGIN ${qstr(inbox.smtp_user)} ${qstr(inbox.smtp_pass)}`);
+    if (!login.ok) throw new Error(`IMAP login failed: ${login.result.slice(0, 120)}`);
+
+    const placement = new Map<string, "inbox" | "spam">();
+    const rescued = new Set<string>();
+    const seenFlag = async (uid: number) => { await imap.cmd(`UID STORE ${uid} +FLAGS.SILENT (\\Seen \\Flagged)`); };
+
+    if (!(await imap.cmd("SELECT INBOX")).ok) throw new Error("SELECT INBOX failed");
+    for (const p of pending) {
+      const uid = await findByToken(imap, p.token);
+      if (uid) { placement.set(p.id, "inbox"); await seenFlag(uid); }
+    }
+
+    const junk = pending.some(p => !placement.has(p.id)) ? await findJunkMailbox(imap) : null;
+    if (junk && (await imap.cmd(`SELECT ${qstr(junk)}`)).ok) {
+      for (const p of pending) {
+        if (placement.has(p.id)) continue;
+        const uid = await findByToken(imap, p.token);
+        if (!uid) continue;
+        placement.set(p.id, "spam");
+        if (await moveToInbox(imap, uid)) rescued.add(p.id);
+      }
+      if (rescued.size > 0 && (await imap.cmd("SELECT INBOX")).ok) {
+        for (const p of pending) {
+          if (!rescued.has(p.id)) continue;
+          const uid = await findByToken(imap, p.token);
+          if (uid) await seenFlag(uid);
+        }
+      }
+    }
+    await imap.logout();
+
+    const now = Date.now();
+    for (const p of pending) {
+      const where = placement.get(p.id) ?? (now - Date.parse(p.sent_at) > MISSING_AFTER_MS ? "missing" : null);
+      if (!where) continue;   // not delivered yet — look again next run
+
+      const update: Record<string, unknown> = { placement: where, rescued: rescued.has(p.id), checked_at: new Date().toISOString() };
+      const sender = inboxes.get(p.from_sender_id);
+      if (where !== "missing" && p.kind === "sent" && sender && Math.random() < sender.reply_rate) {
+        const subject = /^re:/i.test(p.subject) ? p.subject : `Re: ${p.subject}`;
+        const r = await sendWarmup(admin, inbox, sender, subject, composeReply(inbox), { id: p.id, message_id: p.message_id });
+        if (r.ok) { update.replied_at = new Date().toISOString(); out.replied++; }
+      }
+      await admin.from("warmup_messages").update(update).eq("id", p.id);
+      out.checked++;
+      if (rescued.has(p.id)) out.rescued++;
+    }
+    return out;
+  } catch (e) {
+    return { ...out, error: (e as Error).message };
+  } finally {
+    try { conn?.close(); } catch { /* noop */ }
+  }
+}
+
+// ── Entry ──────────────────────────────────────────────────────────────────
+
+serve(async () => {
+  const admin = createClient(SUPABASE_URL, SERVICE_KEY);
+  try {
+    const { data: due, error: dueErr } = await admin.rpc("warmup_due_senders");
+    if (dueErr) throw new Error(dueErr.message);
+
+    const { data: pendingRows } = await admin.from("warmup_messages")
+      .select("id, workspace_id, from_sender_id, to_sender_id, kind, token, message_id, subject, sent_at")
+      .eq("status", "sent").is("placement", null)
+      .lte("sent_at", new Date(Date.now() - CHECK_AFTER_MS).toISOString())
+      .gte("sent_at", new Date(Date.now() - GIVE_UP_AFTER_MS).toISOString())
+      .order("sent_at", { ascending: true })
+      .limit(500);
+
+    const workspaces = new Set<string>([
+      ...((due ?? []) as { workspace_id: string }[]).map(d => d.workspace_id),
+      ...((pendingRows ?? []) as { workspace_id: string }[]).map(p => p.workspace_id),
+    ]);
+    if (workspaces.size === 0) return json({ senders: 0, sent: 0, checked: 0, rescued: 0, replied: 0, errors: [] });
+
+    // Every connected password-based inbox in those workspaces can receive.
+    const { data: rows } = await admin.from("sender_accounts")
+      .select("id, workspace_id, from_email, from_name, warmup_reply_rate, metadata, sender_account_secrets(smtp_host, smtp_port, smtp_user, smtp_pass)")
+      .eq("status", "connected")
+      .in("workspace_id", [...workspaces]);
+
+    const inboxes = new Map<string, Inbox>();
+    for (const r of (rows ?? []) as Record<string, unknown>[]) {
+      const sec = Array.isArray(r.sender_account_secrets) ? r.sender_account_secrets[0] : r.sender_account_secrets;
+      if (!sec?.smtp_pass || !sec?.smtp_host || !sec?.smtp_user) continue;
+      const meta = (r.metadata ?? {}) as { imap_host?: string; imap_port?: number };
+      inboxes.set(r.id as string, {
+        id: r.id as string, workspace_id: r.workspace_id as string,
+        from_email: r.from_email as string, from_name: (r.from_name as string) ?? "",
+        reply_rate: Number(r.warmup_reply_rate ?? 0.3),
+        smtp_host: sec.smtp_host as string, smtp_port: (sec.smtp_port as number) ?? 587, smtp_user: sec.smtp_user as string,
+        // smtp_pass is encrypted at rest (legacy plaintext passes through).
+        smtp_pass: (await decryptToken(admin, sec.smtp_pass)) as string,
+        imap_host: meta.imap_host, imap_port: meta.imap_port,
+      });
+    }
+
+    const errors: string[] = [];
+    const touched = new Set<string>();
+    let sent = 0, checked = 0, rescued = 0, replied = 0;
+
+    // 1. Send
+    for (const d of (due ?? []) as { sender_id: string; workspace_id: string; target: number; sent_today: number }[]) {
+      const from = inboxes.get(d.sender_id);
+      if (!from) continue;
+      touched.add(from.id);
+      const peers = [...inboxes.values()].filter(i => i.workspace_id === d.workspace_id && i.id !== from.id);
+      if (peers.length === 0) { errors.push(`${from.from_email}: warmup needs another connected inbox in the workspace`); continue; }
+      const n = dueThisRun(d.target, d.sent_today);
+      for (let k = 0; k < n; k++) {
+        const { subject, html } = composeWarmup(from);
+        const r = await sendWarmup(admin, from, pick(peers), subject, html);
+        if (r.ok) sent++;
+        else { errors.push(`${from.from_email}: ${r.error}`); break; }
+      }
+    }
+
+    // 2. Check, grouped by receiving inbox
+    const byInbox = new Map<string, Pending[]>();
+    for (const p of (pendingRows ?? []) as Pending[]) {
+      if (!inboxes.has(p.to_sender_id)) continue;
+      const list = byInbox.get(p.to_sender_id) ?? [];
+      if (list.length < MAX_CHECKS_PER_INBOX) list.push(p);
+      byInbox.set(p.to_sender_id, list);
+    }
+    for (const [inboxId, list] of byInbox) {
+      const inbox = inboxes.get(inboxId)!;
+      // Bound each inbox so one slow/unreachable IMAP host can't stall the run.
+      const r = await withTimeout(checkInbox(admin, inbox, list, inboxes), INBOX_MS, `check ${inbox.from_email}`)
+        .catch((e: Error) => ({ checked: 0, rescued: 0, replied: 0, error: e.message }));
+      checked += r.checked; rescued += r.rescued; replied += r.replied;
+      if (r.error) errors.push(`${inbox.from_email}: ${r.error}`);
+      for (const p of list) touched.add(p.from_sender_id);
+    }
+
+    // 3. Score
+    for (const id of touched) await admin.rpc("compute_sender_health", { p_sender_id: id });
+
+    return json({ senders: (due ?? []).length, sent, checked, rescued, replied, errors });
+  } catch (e) {
+    return json({ error: (e as Error).message }, 500);
+  }
+});
@@ -3,6 +3,7 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { getCorsHeaders, handleCors } from "../_shared/cors.ts";
 import { adminClient, bearerToken, isServiceRoleJwt } from "../_shared/auth.ts";
 import { decryptToken } from "../_shared/tokenCrypto.ts";
+import { sendViaSmtp } from "../_shared/smtp.ts";
 
 const TRACKING_BASE_URL = Deno.env.get("TRACKING_BASE_URL") ?? "";
 
@@ -222,129 +223,6 @@ async function sendViaSendGrid(
   return { success: true, providerMessageId: messageId };
 }
 
-// ── Send via SMTP (with STARTTLS support) ──
-async function sendViaSmtp(
-  to: string,
-  from: string,
-  subject: string,
-  html: string,
-  creds: ProviderCreds,
-  inReplyTo?: string
-): Promise<{ success: boolean; providerMessageId?: string; error?: string }> {
-  const host = creds.smtp_host;
-  if (!host)
-    return {
-      success: false,
-      error:
-        "SMTP host not configured. Go to Settings → Integrations → SMTP/Gmail to add your credentials.",
-    };
-
-  try {
-    const port = creds.smtp_port ?? 587;
-    const encoder = new TextEncoder();
-    const decoder = new TextDecoder();
-
-    // Port 465 = implicit TLS (SMTPS) — connect with TLS directly
-    // Port 587/25 = plain connect, then upgrade via STARTTLS
-    let activeConn: Deno.Conn;
-    if (port === 465) {
-      activeConn = await Deno.connectTls({ hostname: host, port });
-    } else {
-      activeConn = await Deno.connect({ hostname: host, port });
-    }
-
-    // Read a full SMTP response (handles multi-line responses like EHLO)
-    // Multi-line: "250-..." continuation, final line: "250 ..."
-    async function readResponse(): Promise<string> {
-      let full = "";
-      const buf = new Uint8Array(4096);
-      while (true) {
-        const n = await activeConn.read(buf);
-        if (!n) break;
-        full += decoder.decode(buf.subarray(0, n));
-        // Check if we have a complete response:
-        // Final line starts with "NNN " (code + space) or is a single-line response
-        const lines = full.trimEnd().split("\n");
-        const lastLine = lines[lines.length - 1].trimStart();
-        if (/^\d{3}\s/.test(lastLine) || /^\d{3}$/.test(lastLine)) break;
-      }
-      return full.trim();
-    }
-
-    async function send(cmd: string): Promise<string> {
-      await activeConn.write(encoder.encode(cmd + "\r\n"));
-      return await readResponse();
-    }
-
-    // Read server greeting
-    await readResponse();
-
-    // Initial EHLO
-    const ehloResp = await send("EHLO localhost");
-
-    // For non-465 ports: upgrade to TLS if server supports STARTTLS
-    if (port !== 465 && (ehloResp.includes("STARTTLS") || port === 587)) {
-      const starttlsResp = await send("STARTTLS");
-      if (starttlsResp.startsWith("220")) {
-        const tlsConn = await (Deno as any).startTls(activeConn, { hostname: host });
-        activeConn = tlsConn;
-        // Re-issue EHLO after TLS upgrade (required by RFC 3207)
-        await send("EHLO localhost");
-      }
-    }
-
-    if (creds.smtp_user && creds.smtp_pass) {
-      await send("AUTH LOGIN");
-      await send(btoa(creds.smtp_user));
-      const authResp = await send(btoa(creds.smtp_pass));
-      if (authResp.startsWith("535") || authResp.startsWith("534")) {
-        activeConn.close();
-        return { success: false, error: `SMTP authentication failed: ${authResp}` };
-      }
-    }
-
-    const fromDisplay = creds.from_name
-      ? `${creds.from_name} <${from}>`
-      : from;
-
-    await send(`MAIL FROM:<${from}>`);
-    await send(`RCPT TO:<${to}>`);
-    await send("DATA");
-
-    const boundary = `boundary-${crypto.randomUUID()}`;
-    // Thread the reply into the original conversation when replying.
-    const threadId = inReplyTo ? `<${inReplyTo.replace(/^<|>$/g, "")}>` : "";
-    const message = [
-      `From: ${fromDisplay}`,
-      `To: ${to}`,
-      `Subject: ${subject}`,
-      ...(threadId ? [`In-Reply-To: ${threadId}`, `References: ${threadId}`] : []),
-      `MIME-Version: 1.0`,
-      `Content-Type: multipart/alternative; boundary="${boundary}"`,
-      ``,
-      `--${boundary}`,
-      `Content-Type: text/html; charset=UTF-8`,
-      ``,
-      html,
-      ``,
-      `--${boundary}--`,
-      `.`,
-    ].join("\r\n");
-
-    const resp = await send(message);
-    await send("QUIT");
-    activeConn.close();
-
-    const idMatch = resp.match(/<([^>]+)>/);
-    return {
-      success: true,
-      providerMessageId: idMatch?.[1] ?? undefined,
-    };
-  } catch (err) {
-    return { success: false, error: `SMTP error: ${(err as Error).message}` };
-  }
-}
-
 serve(async (req) => {
   const corsResp = handleCors(req);
   if (corsResp) return corsResp;
@@ -380,7 +258,9 @@ serve(async (req) => {
     // Allow service role key for internal calls (e.g. from process-scheduled-emails)
     let userId: string;
     if (isServiceRoleJwt(token)) {
-      const body = await req.json();
+      // `var`, not `const`: later steps read body.sender_account_id /
+      // body.sequence_id etc. outside this branch.
+      var body = await req.json();
       if (!body.owner_id) {
         return new Response(
           JSON.stringify({ error: "owner_id required for service role calls" }),
@@ -489,6 +369,9 @@ serve(async (req) => {
     // ── Phase 3.2.1 + 3.2.3: resolve workspace_id + sender_account_id ──
     // Order:
     //   A. Resolve workspaceId from workspace_members.
+    //   A2. Caller pinned a sender (`sender_account_id`, e.g. a rotating
+    //      sequence keeping a lead's thread on one inbox) — use it if it is
+    //      a connected sender in this workspace.
     //   B. Phase 3.2.3 — if caller did not supply `provider`, auto-pick
     //      via pick_outreach_sender(workspace_id). Lets us use the
     //      healthiest available sender without making the caller decide.
@@ -527,8 +410,33 @@ serve(async (req) => {
     // so sends don't hard-fail for owners without a workspace_members row.
     if (!workspaceId) workspaceId = userId;
 
+    // ── A2. Pinned sender ──
+    const pinnedSenderId =
+      body && typeof body === "object" && typeof body.sender_account_id === "string" ? body.sender_account_id : null;
+    if (pinnedSenderId && workspaceId) {
+      try {
+        const { data: pinned } = await supabaseAdmin
+          .from("sender_accounts")
+          .select("id, provider, from_email")
+          .eq("id", pinnedSenderId)
+          .eq("workspace_id", workspaceId)
+          .eq("status", "connected")
+          .maybeSingle();
+        if (pinned) {
+          provider = pinned.provider;
+          senderAccountId = pinned.id;
+          senderAccountFromEmail = pinned.from_email ?? null;
+          from_email = senderAccountFromEmail ?? from_email;
+        } else {
+          console.warn(`[send-email] pinned sender ${pinnedSenderId} not usable; falling back`);
+        }
+      } catch (e) {
+        console.warn("[send-email] pinned sender lookup failed:", (e as Error).message);
+      }
+    }
+
     // ── B. Auto-pick when no provider supplied ──
-    if (!providerWasSpecified && workspaceId) {
+    if (!senderAccountId && !providerWasSpecified && workspaceId) {
       try {
         const { data: picked } = await supabaseAdmin.rpc("pick_outreach_sender", {
           p_workspace_id: workspaceId,
@@ -666,6 +574,11 @@ serve(async (req) => {
         sequence_id: body.sequence_id ?? null,
         sequence_step: body.sequence_step ?? null,
         subject_variant: body.subject_variant ?? null,
+        // Threading for the shared inbox: the trigger files in-app replies into
+        // the thread of the message they answer; the body is what teammates see.
+        in_reply_to: body.in_reply_to ?? null,
+        body_html: html_body,
+        sent_by: userId,
       })
       .select()
       .single();
@@ -3,6 +3,8 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { getCorsHeaders, handleCors } from "../_shared/cors.ts";
 import { getMonthlyEmailLimit, resolvePlanName } from "../_shared/plans.ts";
 import { resolveWorkspaceId } from "../_shared/tenancy.ts";
+import { zonedParts } from "../_shared/timezones.ts";
+import { laneCount, laneValue, withCta } from "../_shared/variants.ts";
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL") ?? "";
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
@@ -35,6 +37,9 @@ interface StepInput {
   subjectVariants?: string[];
   bodyVariants?: string[];
   body: string;
+  /** Call-to-action line for lane A, placed at {{cta}} or appended. */
+  cta?: string;
+  ctaVariants?: string[];
 }
 
 // Mail-merge: substitute {{field}} tokens from the lead. Known tokens get sensible
@@ -199,6 +204,9 @@ serve(async (req) => {
           campaignId: (config as { campaignId?: string }).campaignId,
           sendWindow: (config as { sendWindow?: unknown }).sendWindow,
           sendBestTime: (config as { sendBestTime?: boolean }).sendBestTime,
+          leadLocalTime: (config as { leadLocalTime?: boolean }).leadLocalTime,
+          exitOn: (config as { exitOn?: string[] }).exitOn,
+          senderRotation: (config as { senderRotation?: unknown }).senderRotation,
         },
         started_at: new Date().toISOString(),
       })
@@ -215,9 +223,24 @@ serve(async (req) => {
     const aiPersonalize = (config as { aiPersonalize?: boolean }).aiPersonalize !== false;
     const fromName = (config as { fromName?: string }).fromName || "";
 
-    // Send-time optimization: learn each lead's most-engaged hour (UTC) from
-    // their historical opens. Opens already reflect local active time, so no
-    // per-lead timezone is needed. Requires >=2 opens; else null (sender defaults).
+    // Each lead's zone: manual override, else the one inferred from location /
+    // phone / enrichment by trg_leads_infer_timezone. Stamped on every item so
+    // process-sequence-sends checks windows and best hours in local time.
+    const tzByLead: Record<string, string> = {};
+    if (leads.length) {
+      const { data: zoneRows } = await supabaseAdmin
+        .from("leads")
+        .select("id, timezone, inferred_timezone")
+        .in("id", leads.map((l) => l.id));
+      for (const r of (zoneRows ?? []) as { id: string; timezone: string | null; inferred_timezone: string | null }[]) {
+        const tz = r.timezone || r.inferred_timezone;
+        if (tz) tzByLead[r.id] = tz;
+      }
+    }
+
+    // Send-time optimization: learn each lead's most-engaged hour from their
+    // historical opens, as a local hour in the lead's zone (UTC when unknown).
+    // Requires >=2 opens; else null (sender defaults).
     const bestHourByLead: Record<string, number> = {};
     if ((config as { sendBestTime?: boolean }).sendBestTime && leads.length) {
       const since = new Date(Date.now() - 90 * 86_400_000).toISOString();
@@ -232,7 +255,7 @@ serve(async (req) => {
       for (const o of (opens ?? []) as { created_at: string; email_messages: { lead_id: string } | { lead_id: string }[] }[]) {
         const em = Array.isArray(o.email_messages) ? o.email_messages[0] : o.email_messages;
         const lid = em?.lead_id; if (!lid) continue;
-        (hist[lid] ??= new Array(24).fill(0))[new Date(o.created_at).getUTCHours()]++;
+        (hist[lid] ??= new Array(24).fill(0))[zonedParts(tzByLead[lid] ?? "UTC", new Date(o.created_at)).hour]++;
       }
       for (const [lid, counts] of Object.entries(hist)) {
         if (counts.reduce((a, b) => a + b, 0) < 2) continue;
@@ -248,14 +271,15 @@ serve(async (req) => {
     let leadIndex = 0;
     for (const lead of leads) {
       for (const step of steps) {
-        // A "variant" selects both a subject and a body (independent counts;
+        // A "variant" selects a subject, a body and a CTA (independent counts;
         // missing lane falls back to variant A).
         const subjExtras = (step.subjectVariants ?? []).filter(v => (v ?? "").trim());
         const bodyExtras = (step.bodyVariants ?? []).filter(v => (v ?? "").trim());
-        const variantCount = Math.max(subjExtras.length, bodyExtras.length) + 1;
+        const ctaExtras = (step.ctaVariants ?? []).filter(v => (v ?? "").trim());
+        const variantCount = laneCount(subjExtras, bodyExtras, ctaExtras);
         const vIdx = variantCount > 1 ? leadIndex % variantCount : 0;
-        const chosenSubject = vIdx === 0 ? step.subject : (subjExtras[vIdx - 1] ?? step.subject);
-        const chosenBody = vIdx === 0 ? step.body : (bodyExtras[vIdx - 1] ?? step.body);
+        const chosenSubject = laneValue(step.subject, subjExtras, vIdx);
+        const chosenBody = withCta(laneValue(step.body, bodyExtras, vIdx), laneValue(step.cta ?? "", ctaExtras, vIdx));
         const base = {
           run_id: run.id,
           lead_id: lead.id,
@@ -283,6 +307,7 @@ serve(async (req) => {
           attempt_count: 0,
           subject_variant: vIdx,
           best_send_hour: bestHourByLead[lead.id] ?? null,
+          lead_timezone: tzByLead[lead.id] ?? null,
         };
         if (aiPersonalize) {
           items.push({ ...base, status: "pending" });
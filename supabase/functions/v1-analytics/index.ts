@@ -11,7 +11,9 @@
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { getCorsHeaders, handleCors } from "../_shared/cors.ts";
-import { authenticateApiKey, adminClient } from "../_shared/api-auth.ts";
+import {
+  authenticateApiKey, adminClient, rejectBusinessScopedKey, withRateLimitHeaders,
+} from "../_shared/api-auth.ts";
 
 const RANGE_DAYS: Record<string, number> = { "7d": 7, "30d": 30, "90d": 90 };
 
@@ -27,6 +29,10 @@ serve(async (req) => {
 
   const auth = await authenticateApiKey(req, { requiredScope: "analytics.read", corsHeaders });
   if (!auth.ok) return auth.response;
+  // Sequence runs, DLQ rows and senders carry no business_id.
+  const rejected = rejectBusinessScopedKey(auth.auth, corsHeaders);
+  if (rejected) return rejected;
+  const headers = withRateLimitHeaders(corsHeaders, auth.auth);
 
   const url = new URL(req.url);
   const range = url.searchParams.get("range") ?? "30d";
@@ -80,5 +86,5 @@ serve(async (req) => {
     },
     dlq: { count_in_range: (dlqRows.data ?? []).length, by_kind: dlqByKind },
     senders: { count: senders.length, avg_health_score: avg_health },
-  }), { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+  }), { status: 200, headers: { ...headers, "Content-Type": "application/json" } });
 });
@@ -7,7 +7,9 @@
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { getCorsHeaders, handleCors } from "../_shared/cors.ts";
-import { authenticateApiKey, adminClient } from "../_shared/api-auth.ts";
+import {
+  authenticateApiKey, adminClient, rejectBusinessScopedKey, withRateLimitHeaders,
+} from "../_shared/api-auth.ts";
 
 const COLUMNS = "id,status,lead_count,step_count,items_total,items_done,items_failed,started_at,completed_at,created_at,updated_at,sequence_config";
 const MAX_LIMIT = 200;
@@ -25,6 +27,10 @@ serve(async (req) => {
 
   const auth = await authenticateApiKey(req, { requiredScope: "campaigns.read", corsHeaders });
   if (!auth.ok) return auth.response;
+  // email_sequence_runs carries no business_id.
+  const rejected = rejectBusinessScopedKey(auth.auth, corsHeaders);
+  if (rejected) return rejected;
+  const headers = withRateLimitHeaders(corsHeaders, auth.auth);
 
   const url = new URL(req.url);
   const limitRaw = parseInt(url.searchParams.get("limit") ?? "", 10);
@@ -44,7 +50,7 @@ serve(async (req) => {
   const { data, error } = await q;
   if (error) {
     return new Response(JSON.stringify({ error: "Query failed", code: "query_failed" }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      { status: 500, headers: { ...headers, "Content-Type": "application/json" } });
   }
   const rows = data ?? [];
   const has_more = rows.length > limit;
@@ -52,5 +58,5 @@ serve(async (req) => {
   const next_cursor = has_more ? (result[result.length - 1] as { created_at: string }).created_at : null;
 
   return new Response(JSON.stringify({ data: result, next_cursor, has_more, limit }),
-    { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+    { status: 200, headers: { ...headers, "Content-Type": "application/json" } });
 });
@@ -2,34 +2,56 @@
 //
 // Phase 4.1 (read) + 4.2 (write) — Public REST API endpoint: leads.
 //
-//   GET   /functions/v1/v1-leads          (scope: leads.read)
-//   POST  /functions/v1/v1-leads          (scope: leads.write, optional Idempotency-Key header)
+//   GET    /functions/v1/v1-leads          (scope: leads.read)   list + filters
+//   GET    /functions/v1/v1-leads/{id}     (scope: leads.read)
+//   POST   /functions/v1/v1-leads          (scope: leads.write, optional Idempotency-Key header)
+//   PATCH  /functions/v1/v1-leads/{id}     (scope: leads.write, optional Idempotency-Key header)
+//   DELETE /functions/v1/v1-leads/{id}     (scope: leads.write, optional Idempotency-Key header)
+//
+// PATCH also accepts the original `?id=<uuid>` form.
+//
+// List filters: status (comma list), score_min, score_max, updated_since,
+// source, company, email, tags (comma list, all must match) and
+// custom_fields.<key>=<value>. `sort` is one of created_at / updated_at /
+// score, prefixed with `-` for descending (default -created_at). `fields`
+// selects a subset of columns (id is always returned). Pagination is keyset:
+// next_cursor is opaque and only valid with the same sort.
 //
 // Workspace scope is derived from the API key — no workspace_id body
-// or query param is honored.
+// or query param is honored. A key restricted to a business only sees and
+// creates that business's leads.
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { getCorsHeaders, handleCors } from "../_shared/cors.ts";
-import { authenticateApiKey, adminClient, type ApiAuth } from "../_shared/api-auth.ts";
+import {
+  authenticateApiKey, adminClient, scopeToBusiness, withRateLimitHeaders, type ApiAuth,
+} from "../_shared/api-auth.ts";
 
-const COLUMNS = [
+const SELECTABLE = [
   "id", "first_name", "last_name", "primary_email", "primary_phone",
   "company", "title", "industry", "company_size", "linkedin_url",
-  "location", "source", "score", "status", "insights",
-  "last_activity", "created_at", "updated_at",
-].join(",");
+  "location", "source", "score", "status", "insights", "tags", "custom_fields",
+  "timezone", "inferred_timezone", "last_activity", "created_at", "updated_at",
+];
+const COLUMNS = SELECTABLE.join(",");
+const SELECTABLE_SET = new Set(SELECTABLE);
 
 const MAX_LIMIT = 200;
 const DEFAULT_LIMIT = 50;
 
 const ALLOWED_STATUSES = new Set(["New", "Contacted", "Qualified", "Converted", "Lost"]);
 
-const ALLOWED_LEAD_FIELDS = new Set<keyof Record<string, unknown>>([
+const SORTABLE = new Set(["created_at", "updated_at", "score"]);
+
+const WRITABLE_FIELDS = [
   "first_name", "last_name", "primary_email", "primary_phone",
   "company", "title", "industry", "company_size", "linkedin_url",
-  "location", "source", "score", "status", "insights",
-  "custom_fields",
-] as const);
+  "location", "source", "score", "status", "insights", "tags",
+  "custom_fields", "timezone",
+];
+
+const UUID_RE = /^[0-9a-f-]{36}$/i;
+const CUSTOM_FIELD_KEY_RE = /^[A-Za-z0-9_]{1,64}$/;
 
 async function sha256Hex(input: string): Promise<string> {
   const buf = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(input));
@@ -43,43 +65,312 @@ function jsonResponse(body: unknown, status: number, corsHeaders: Record<string,
   });
 }
 
-// ── GET handler ─────────────────────────────────────────────────────────
+/** Lead id from /v1-leads/{id}, falling back to ?id=. Null when absent. */
+function leadIdFrom(url: URL): string | null {
+  const parts = url.pathname.split("/").filter(Boolean);
+  const at = parts.lastIndexOf("v1-leads");
+  return (at >= 0 ? parts[at + 1] : undefined) ?? url.searchParams.get("id");
+}
+
+// ── Idempotency (shared by POST / PATCH / DELETE) ───────────────────────
 
-async function handleGet(
+/** Cached response for a replayed key, a 409 for a reused key, or null to proceed. */
+async function idempotentReplay(
+  admin: ReturnType<typeof adminClient>,
+  auth: ApiAuth,
+  key: string | null,
+  requestHash: string,
+  corsHeaders: Record<string, string>,
+): Promise<Response | null> {
+  if (!key) return null;
+  const { data: cached } = await admin
+    .from("api_idempotency")
+    .select("request_hash, response_status, response_body")
+    .eq("workspace_id", auth.workspaceId)
+    .eq("key", key)
+    .maybeSingle();
+  if (!cached) return null;
+  if (cached.request_hash !== requestHash) {
+    return jsonResponse({
+      error: "Idempotency-Key was reused with a different request",
+      code: "idempotency_conflict",
+    }, 409, corsHeaders);
+  }
+  return new Response(JSON.stringify(cached.response_body), {
+    status: cached.response_status,
+    headers: { ...corsHeaders, "Content-Type": "application/json", "X-Scaliyo-Idempotent-Replay": "true" },
+  });
+}
+
+/** Persist the response for `key` (fire-and-forget — failure mustn't block the write). */
+function rememberIdempotent(
+  admin: ReturnType<typeof adminClient>,
+  auth: ApiAuth,
+  key: string | null,
+  endpoint: string,
+  requestHash: string,
+  responseStatus: number,
+  responseBody: unknown,
+): void {
+  if (!key) return;
+  admin.from("api_idempotency").insert({
+    workspace_id:    auth.workspaceId,
+    key,
+    api_key_id:      auth.apiKeyId,
+    endpoint,
+    request_hash:    requestHash,
+    response_status: responseStatus,
+    response_body:   responseBody,
+  }).then(({ error }) => {
+    if (error) console.warn(`[v1-leads ${endpoint}] idempotency persist failed:`, error.message);
+  });
+}
+
+// ── Body parsing + validation (POST / PATCH) ────────────────────────────
+
+async function readJsonObject(
+  req: Request,
+  corsHeaders: Record<string, string>,
+): Promise<{ ok: true; text: string; body: Record<string, unknown> } | { ok: false; response: Response }> {
+  let text: string;
+  try {
+    text = await req.text();
+  } catch {
+    return { ok: false, response: jsonResponse({ error: "Failed to read body", code: "bad_request" }, 400, corsHeaders) };
+  }
+  if (!text) return { ok: false, response: jsonResponse({ error: "Empty body", code: "bad_request" }, 400, corsHeaders) };
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return { ok: false, response: jsonResponse({ error: "Invalid JSON", code: "bad_request" }, 400, corsHeaders) };
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { ok: false, response: jsonResponse({ error: "Body must be a JSON object", code: "bad_request" }, 400, corsHeaders) };
+  }
+  return { ok: true, text, body: body as Record<string, unknown> };
+}
+
+/** Validates and normalizes enum / numeric / array fields in place. Returns an error response or null. */
+function validateLeadFields(fields: Record<string, unknown>, corsHeaders: Record<string, string>): Response | null {
+  if (fields.status !== undefined && !ALLOWED_STATUSES.has(String(fields.status))) {
+    return jsonResponse({
+      error: `status must be one of ${[...ALLOWED_STATUSES].join(", ")}`,
+      code: "invalid_status",
+    }, 400, corsHeaders);
+  }
+  if (fields.score !== undefined) {
+    const s = Number(fields.score);
+    if (!Number.isFinite(s) || s < 0 || s > 100) {
+      return jsonResponse({ error: "score must be a number 0..100", code: "invalid_score" }, 400, corsHeaders);
+    }
+    fields.score = Math.round(s);
+  }
+  if (fields.tags !== undefined) {
+    if (!Array.isArray(fields.tags) || fields.tags.some((t) => typeof t !== "string")) {
+      return jsonResponse({ error: "tags must be an array of strings", code: "invalid_tags" }, 400, corsHeaders);
+    }
+    fields.tags = [...new Set((fields.tags as string[]).map((t) => t.trim()).filter(Boolean))];
+  }
+  if (fields.custom_fields !== undefined &&
+      (typeof fields.custom_fields !== "object" || fields.custom_fields === null || Array.isArray(fields.custom_fields))) {
+    return jsonResponse({ error: "custom_fields must be an object", code: "invalid_custom_fields" }, 400, corsHeaders);
+  }
+  if (fields.timezone !== undefined && fields.timezone !== null) {
+    // Manual send-time zone override; null clears it back to the inferred zone.
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: String(fields.timezone) });
+    } catch {
+      return jsonResponse({ error: "timezone must be an IANA zone like America/New_York", code: "invalid_timezone" }, 400, corsHeaders);
+    }
+  }
+  if (typeof fields.primary_email === "string") {
+    fields.primary_email = fields.primary_email.trim().toLowerCase();
+  }
+  return null;
+}
+
+// ── GET handlers ────────────────────────────────────────────────────────
+
+interface Sort { column: string; ascending: boolean }
+
+function parseSort(raw: string | null): Sort | null {
+  if (!raw) return { column: "created_at", ascending: false };
+  const ascending = !raw.startsWith("-");
+  const column = raw.replace(/^[-+]/, "");
+  return SORTABLE.has(column) ? { column, ascending } : null;
+}
+
+function encodeCursor(value: unknown, id: string): string {
+  return btoa(JSON.stringify({ v: value, id })).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/** Keyset position from an opaque cursor. A bare timestamp is the pre-sort
+ *  cursor format (created_at, descending) and is still accepted. */
+function decodeCursor(raw: string): { v: unknown; id: string | null } | null {
+  if (!Number.isNaN(Date.parse(raw)) && /^\d{4}-/.test(raw)) return { v: raw, id: null };
+  try {
+    const parsed = JSON.parse(atob(raw.replace(/-/g, "+").replace(/_/g, "/")));
+    if (parsed && typeof parsed === "object" && "v" in parsed && typeof parsed.id === "string" && UUID_RE.test(parsed.id)) {
+      return { v: parsed.v, id: parsed.id };
+    }
+  } catch { /* fall through */ }
+  return null;
+}
+
+/** Requested columns, always including id and the sort column (needed for the cursor). */
+function parseFields(raw: string | null, sort: Sort): { select: string; output: string[] | null } | { error: string } {
+  if (!raw) return { select: COLUMNS, output: null };
+  const requested = [...new Set(raw.split(",").map((f) => f.trim()).filter(Boolean))];
+  const unknown = requested.filter((f) => !SELECTABLE_SET.has(f));
+  if (unknown.length > 0) return { error: `Unknown field(s): ${unknown.join(", ")}` };
+  const output = [...new Set(["id", ...requested])];
+  return { select: [...new Set([...output, sort.column])].join(","), output };
+}
+
+function pick(row: Record<string, unknown>, fields: string[] | null): Record<string, unknown> {
+  if (!fields) return row;
+  return Object.fromEntries(fields.map((f) => [f, row[f]]));
+}
+
+/** PostgREST double-quoted filter value: backslash and quote are the escapes. */
+const quote = (v: unknown) => `"${String(v).replace(/[\\"]/g, (c) => `\\${c}`)}"`;
+
+async function handleList(
   req: Request,
   auth: ApiAuth,
   corsHeaders: Record<string, string>,
 ): Promise<Response> {
   const url = new URL(req.url);
-  const limitRaw = parseInt(url.searchParams.get("limit") ?? "", 10);
+  const params = url.searchParams;
+  const bad = (error: string, code = "invalid_filter") => jsonResponse({ error, code }, 400, corsHeaders);
+
+  const limitRaw = parseInt(params.get("limit") ?? "", 10);
   const limit = Number.isFinite(limitRaw) && limitRaw > 0
     ? Math.min(MAX_LIMIT, limitRaw) : DEFAULT_LIMIT;
-  const cursor = url.searchParams.get("cursor");
-  const statusFilter = url.searchParams.get("status");
+
+  const sort = parseSort(params.get("sort"));
+  if (!sort) return bad(`sort must be one of ${[...SORTABLE].join(", ")} (prefix - for descending)`, "invalid_sort");
+
+  const fields = parseFields(params.get("fields"), sort);
+  if ("error" in fields) return bad(fields.error, "invalid_fields");
 
   const admin = adminClient();
-  let q = admin
+  let q = scopeToBusiness(admin
     .from("leads")
-    .select(COLUMNS)
-    .eq("workspace_id", auth.workspaceId)
-    .order("created_at", { ascending: false })
+    .select(fields.select)
+    .eq("workspace_id", auth.workspaceId), auth)
+    // Nulls (a lead never scored) sort last either way, so the cursor knows where they are.
+    .order(sort.column, { ascending: sort.ascending, nullsFirst: false })
+    .order("id", { ascending: sort.ascending })
     .limit(limit + 1);
-  if (cursor) q = q.lt("created_at", cursor);
-  if (statusFilter) q = q.eq("status", statusFilter);
+
+  // ── Filters ──
+  const status = params.get("status");
+  if (status) {
+    const statuses = status.split(",").map((s) => s.trim()).filter(Boolean);
+    const invalid = statuses.filter((s) => !ALLOWED_STATUSES.has(s));
+    if (invalid.length > 0) return bad(`status must be one of ${[...ALLOWED_STATUSES].join(", ")}`, "invalid_status");
+    q = statuses.length === 1 ? q.eq("status", statuses[0]) : q.in("status", statuses);
+  }
+
+  for (const [param, op] of [["score_min", "gte"], ["score_max", "lte"]] as const) {
+    const raw = params.get(param);
+    if (raw === null) continue;
+    const n = Number(raw);
+    if (raw === "" || !Number.isFinite(n) || n < 0 || n > 100) return bad(`${param} must be a number 0..100`);
+    q = op === "gte" ? q.gte("score", n) : q.lte("score", n);
+  }
+
+  const updatedSince = params.get("updated_since");
+  if (updatedSince) {
+    if (Number.isNaN(Date.parse(updatedSince))) return bad("updated_since must be an ISO 8601 timestamp");
+    q = q.gte("updated_at", new Date(updatedSince).toISOString());
+  }
+
+  const source = params.get("source");
+  if (source) q = q.eq("source", source);
+
+  // Case-insensitive exact match; escape LIKE wildcards so "100%" means 100%.
+  const company = params.get("company");
+  if (company) q = q.ilike("company", company.replace(/[\\%_]/g, (c) => `\\${c}`));
+
+  const email = params.get("email");
+  if (email) q = q.eq("primary_email", email.trim().toLowerCase());
+
+  const tags = params.get("tags");
+  if (tags) {
+    const list = tags.split(",").map((t) => t.trim()).filter(Boolean);
+    if (list.length > 0) q = q.contains("tags", list);
+  }
+
+  for (const [param, value] of params) {
+    if (!param.startsWith("custom_fields.")) continue;
+    const key = param.slice("custom_fields.".length);
+    if (!CUSTOM_FIELD_KEY_RE.test(key)) return bad(`Invalid custom field key: ${key}`);
+    q = q.eq(`custom_fields->>${key}`, value);
+  }
+
+  // ── Keyset cursor ──
+  const cursorRaw = params.get("cursor");
+  if (cursorRaw) {
+    const cursor = decodeCursor(cursorRaw);
+    if (!cursor) return bad("Invalid cursor", "invalid_cursor");
+    const op = sort.ascending ? "gt" : "lt";
+    if (cursor.id === null) {
+      if (sort.column !== "created_at" || sort.ascending) return bad("Cursor does not match sort", "invalid_cursor");
+      q = q.lt("created_at", cursor.v as string);
+    } else if (cursor.v === null) {
+      // Already into the trailing nulls: only other nulls can follow.
+      const nulls = q.is(sort.column, null);
+      q = op === "gt" ? nulls.gt("id", cursor.id) : nulls.lt("id", cursor.id);
+    } else {
+      const v = quote(cursor.v);
+      q = q.or(`${sort.column}.${op}.${v},and(${sort.column}.eq.${v},id.${op}.${cursor.id}),${sort.column}.is.null`);
+    }
+  }
 
   const { data, error } = await q;
   if (error) {
     console.error("[v1-leads GET] query error:", error.message);
     return jsonResponse({ error: "Query failed", code: "query_failed" }, 500, corsHeaders);
   }
-  const rows = data ?? [];
+  const rows = (data ?? []) as unknown as Record<string, unknown>[];
   const has_more = rows.length > limit;
-  const result = has_more ? rows.slice(0, limit) : rows;
-  const next_cursor = has_more
-    ? (result[result.length - 1] as { created_at: string }).created_at
-    : null;
+  const page = has_more ? rows.slice(0, limit) : rows;
+  const last = page[page.length - 1];
+  const next_cursor = has_more && last ? encodeCursor(last[sort.column], String(last.id)) : null;
+
+  return jsonResponse({
+    data: page.map((r) => pick(r, fields.output)),
+    next_cursor,
+    has_more,
+    limit,
+  }, 200, corsHeaders);
+}
 
-  return jsonResponse({ data: result, next_cursor, has_more, limit }, 200, corsHeaders);
+async function handleGetOne(
+  req: Request,
+  auth: ApiAuth,
+  id: string,
+  corsHeaders: Record<string, string>,
+): Promise<Response> {
+  const fields = parseFields(new URL(req.url).searchParams.get("fields"), { column: "id", ascending: true });
+  if ("error" in fields) return jsonResponse({ error: fields.error, code: "invalid_fields" }, 400, corsHeaders);
+
+  const { data, error } = await scopeToBusiness(adminClient()
+    .from("leads")
+    .select(fields.select)
+    .eq("id", id)
+    .eq("workspace_id", auth.workspaceId), auth)
+    .maybeSingle();
+  if (error) {
+    console.error("[v1-leads GET one] query error:", error.message);
+    return jsonResponse({ error: "Query failed", code: "query_failed" }, 500, corsHeaders);
+  }
+  if (!data) return jsonResponse({ error: "Lead not found", code: "not_found" }, 404, corsHeaders);
+  return jsonResponse({ data: pick(data as unknown as Record<string, unknown>, fields.output) }, 200, corsHeaders);
 }
 
 // ── POST handler with idempotency ───────────────────────────────────────
@@ -90,25 +381,9 @@ async function handlePost(
   corsHeaders: Record<string, string>,
 ): Promise<Response> {
   // Read body once (we need it for both validation and idempotency hash).
-  let bodyText: string;
-  try {
-    bodyText = await req.text();
-  } catch {
-    return jsonResponse({ error: "Failed to read body", code: "bad_request" }, 400, corsHeaders);
-  }
-  if (!bodyText) {
-    return jsonResponse({ error: "Empty body", code: "bad_request" }, 400, corsHeaders);
-  }
-
-  let body: Record<string, unknown>;
-  try {
-    body = JSON.parse(bodyText);
-  } catch {
-    return jsonResponse({ error: "Invalid JSON", code: "bad_request" }, 400, corsHeaders);
-  }
-  if (typeof body !== "object" || body === null || Array.isArray(body)) {
-    return jsonResponse({ error: "Body must be a JSON object", code: "bad_request" }, 400, corsHeaders);
-  }
+  const parsed = await readJsonObject(req, corsHeaders);
+  if (!parsed.ok) return parsed.response;
+  const body = parsed.body;
 
   // Validation: at least one identifier.
   const email    = typeof body.primary_email === "string" ? body.primary_email.trim().toLowerCase() : null;
@@ -121,61 +396,27 @@ async function handlePost(
     }, 400, corsHeaders);
   }
 
-  // Validate enum-shaped fields.
-  if (body.status !== undefined && !ALLOWED_STATUSES.has(String(body.status))) {
-    return jsonResponse({
-      error: `status must be one of ${[...ALLOWED_STATUSES].join(", ")}`,
-      code: "invalid_status",
-    }, 400, corsHeaders);
-  }
-  if (body.score !== undefined) {
-    const s = Number(body.score);
-    if (!Number.isFinite(s) || s < 0 || s > 100) {
-      return jsonResponse({ error: "score must be a number 0..100", code: "invalid_score" }, 400, corsHeaders);
-    }
-    body.score = Math.round(s);
-  }
+  const invalid = validateLeadFields(body, corsHeaders);
+  if (invalid) return invalid;
 
   // ── Idempotency check ──
   const idempotencyKey = req.headers.get("Idempotency-Key");
-  const requestHash = await sha256Hex(bodyText);
+  const requestHash = await sha256Hex(parsed.text);
   const admin = adminClient();
-
-  if (idempotencyKey) {
-    const { data: cached } = await admin
-      .from("api_idempotency")
-      .select("request_hash, response_status, response_body")
-      .eq("workspace_id", auth.workspaceId)
-      .eq("key", idempotencyKey)
-      .maybeSingle();
-    if (cached) {
-      if (cached.request_hash !== requestHash) {
-        return jsonResponse({
-          error: "Idempotency-Key was reused with a different request body",
-          code: "idempotency_conflict",
-        }, 409, corsHeaders);
-      }
-      // Cache hit — replay the original response.
-      return new Response(JSON.stringify(cached.response_body), {
-        status: cached.response_status,
-        headers: { ...corsHeaders, "Content-Type": "application/json", "X-Scaliyo-Idempotent-Replay": "true" },
-      });
-    }
-  }
+  const replay = await idempotentReplay(admin, auth, idempotencyKey, requestHash, corsHeaders);
+  if (replay) return replay;
 
   // ── Build insert row ──
   const row: Record<string, unknown> = {
     workspace_id: auth.workspaceId,
     client_id:    auth.workspaceId,   // legacy column still NOT NULL on leads
+    ...(auth.businessId ? { business_id: auth.businessId } : {}),
     primary_email: email,
     primary_phone: phone,
     linkedin_url:  linkedin,
   };
-  for (const key of [
-    "first_name", "last_name", "company", "title", "industry",
-    "company_size", "location", "source", "score", "status", "insights",
-    "custom_fields",
-  ]) {
+  for (const key of WRITABLE_FIELDS) {
+    if (key === "primary_email" || key === "primary_phone" || key === "linkedin_url") continue;
     if (body[key] !== undefined) row[key] = body[key];
   }
   if (row.score === undefined) row.score = 0;
@@ -196,113 +437,47 @@ async function handlePost(
   }
 
   const responseBody = { data: inserted };
-  const responseStatus = 201;
-
-  // Persist idempotency entry (fire-and-forget — failure mustn't block the create).
-  if (idempotencyKey) {
-    admin.from("api_idempotency").insert({
-      workspace_id:    auth.workspaceId,
-      key:             idempotencyKey,
-      api_key_id:      auth.apiKeyId,
-      endpoint:        "POST /v1-leads",
-      request_hash:    requestHash,
-      response_status: responseStatus,
-      response_body:   responseBody,
-    }).then(({ error }) => {
-      if (error) console.warn("[v1-leads POST] idempotency persist failed:", error.message);
-    });
-  }
-
-  return jsonResponse(responseBody, responseStatus, corsHeaders);
+  rememberIdempotent(admin, auth, idempotencyKey, "POST /v1-leads", requestHash, 201, responseBody);
+  return jsonResponse(responseBody, 201, corsHeaders);
 }
 
-// ── PATCH handler (partial update by ?id=<uuid>) ────────────────────────
+// ── PATCH handler (partial update of /{id}) ─────────────────────────────
 
 async function handlePatch(
   req: Request,
   auth: ApiAuth,
+  id: string,
   corsHeaders: Record<string, string>,
 ): Promise<Response> {
-  const url = new URL(req.url);
-  const id = url.searchParams.get("id");
-  if (!id || !/^[0-9a-f-]{36}$/i.test(id)) {
-    return jsonResponse({ error: "?id=<uuid> required", code: "missing_id" }, 400, corsHeaders);
-  }
-
-  let bodyText: string;
-  try { bodyText = await req.text(); } catch { return jsonResponse({ error: "Failed to read body", code: "bad_request" }, 400, corsHeaders); }
-  if (!bodyText) return jsonResponse({ error: "Empty body", code: "bad_request" }, 400, corsHeaders);
-
-  let body: Record<string, unknown>;
-  try { body = JSON.parse(bodyText); } catch { return jsonResponse({ error: "Invalid JSON", code: "bad_request" }, 400, corsHeaders); }
-  if (typeof body !== "object" || body === null || Array.isArray(body)) {
-    return jsonResponse({ error: "Body must be a JSON object", code: "bad_request" }, 400, corsHeaders);
-  }
+  const parsed = await readJsonObject(req, corsHeaders);
+  if (!parsed.ok) return parsed.response;
+  const body = parsed.body;
 
   // Build update payload from allowed fields only.
   const patch: Record<string, unknown> = {};
-  const updatable = [
-    "first_name", "last_name", "primary_email", "primary_phone",
-    "company", "title", "industry", "company_size", "linkedin_url",
-    "location", "source", "score", "status", "insights", "custom_fields",
-  ];
-  for (const k of updatable) if (body[k] !== undefined) patch[k] = body[k];
+  for (const k of WRITABLE_FIELDS) if (body[k] !== undefined) patch[k] = body[k];
 
   if (Object.keys(patch).length === 0) {
     return jsonResponse({ error: "No updatable fields provided", code: "no_fields" }, 400, corsHeaders);
   }
-  if (patch.status !== undefined && !ALLOWED_STATUSES.has(String(patch.status))) {
-    return jsonResponse({
-      error: `status must be one of ${[...ALLOWED_STATUSES].join(", ")}`,
-      code: "invalid_status",
-    }, 400, corsHeaders);
-  }
-  if (patch.score !== undefined) {
-    const s = Number(patch.score);
-    if (!Number.isFinite(s) || s < 0 || s > 100) {
-      return jsonResponse({ error: "score must be 0..100", code: "invalid_score" }, 400, corsHeaders);
-    }
-    patch.score = Math.round(s);
-  }
-  if (typeof patch.primary_email === "string") {
-    patch.primary_email = patch.primary_email.trim().toLowerCase();
-  }
+  const invalid = validateLeadFields(patch, corsHeaders);
+  if (invalid) return invalid;
 
-  // Idempotency check (same shape as POST).
   const idempotencyKey = req.headers.get("Idempotency-Key");
-  const requestHash = await sha256Hex(`PATCH:${id}:${bodyText}`);
+  const requestHash = await sha256Hex(`PATCH:${id}:${parsed.text}`);
   const admin = adminClient();
-
-  if (idempotencyKey) {
-    const { data: cached } = await admin
-      .from("api_idempotency")
-      .select("request_hash, response_status, response_body")
-      .eq("workspace_id", auth.workspaceId)
-      .eq("key", idempotencyKey)
-      .maybeSingle();
-    if (cached) {
-      if (cached.request_hash !== requestHash) {
-        return jsonResponse({
-          error: "Idempotency-Key was reused with a different request",
-          code: "idempotency_conflict",
-        }, 409, corsHeaders);
-      }
-      return new Response(JSON.stringify(cached.response_body), {
-        status: cached.response_status,
-        headers: { ...corsHeaders, "Content-Type": "application/json", "X-Scaliyo-Idempotent-Replay": "true" },
-      });
-    }
-  }
+  const replay = await idempotentReplay(admin, auth, idempotencyKey, requestHash, corsHeaders);
+  if (replay) return replay;
 
   // Apply update with workspace_id + id constraint so an attacker can't
   // patch another workspace's lead by guessing a UUID.
-  const { data: updated, error: updateErr } = await admin
+  const { data: updated, error: updateErr } = await scopeToBusiness(admin
     .from("leads")
     .update(patch)
     .eq("id", id)
-    .eq("workspace_id", auth.workspaceId)
+    .eq("workspace_id", auth.workspaceId), auth)
     .select(COLUMNS)
-    .single();
+    .maybeSingle();
 
   if (updateErr) {
     console.error("[v1-leads PATCH] update error:", updateErr.message);
@@ -313,23 +488,46 @@ async function handlePatch(
   }
 
   const responseBody = { data: updated };
-  const responseStatus = 200;
-
-  if (idempotencyKey) {
-    admin.from("api_idempotency").insert({
-      workspace_id:    auth.workspaceId,
-      key:             idempotencyKey,
-      api_key_id:      auth.apiKeyId,
-      endpoint:        "PATCH /v1-leads",
-      request_hash:    requestHash,
-      response_status: responseStatus,
-      response_body:   responseBody,
-    }).then(({ error }) => {
-      if (error) console.warn("[v1-leads PATCH] idempotency persist failed:", error.message);
-    });
+  rememberIdempotent(admin, auth, idempotencyKey, "PATCH /v1-leads", requestHash, 200, responseBody);
+  return jsonResponse(responseBody, 200, corsHeaders);
+}
+
+// ── DELETE handler (/{id}) ──────────────────────────────────────────────
+//
+// A retry with the same Idempotency-Key replays the original 200 instead of
+// answering 404 for the now-missing lead.
+
+async function handleDelete(
+  req: Request,
+  auth: ApiAuth,
+  id: string,
+  corsHeaders: Record<string, string>,
+): Promise<Response> {
+  const idempotencyKey = req.headers.get("Idempotency-Key");
+  const requestHash = await sha256Hex(`DELETE:${id}`);
+  const admin = adminClient();
+  const replay = await idempotentReplay(admin, auth, idempotencyKey, requestHash, corsHeaders);
+  if (replay) return replay;
+
+  const { data: deleted, error } = await scopeToBusiness(admin
+    .from("leads")
+    .delete()
+    .eq("id", id)
+    .eq("workspace_id", auth.workspaceId), auth)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    console.error("[v1-leads DELETE] delete error:", error.message);
+    return jsonResponse({ error: "Delete failed", code: "delete_failed" }, 500, corsHeaders);
+  }
+  if (!deleted) {
+    return jsonResponse({ error: "Lead not found", code: "not_found" }, 404, corsHeaders);
   }
 
-  return jsonResponse(responseBody, responseStatus, corsHeaders);
+  const responseBody = { data: { id, deleted: true } };
+  rememberIdempotent(admin, auth, idempotencyKey, "DELETE /v1-leads", requestHash, 200, responseBody);
+  return jsonResponse(responseBody, 200, corsHeaders);
 }
 
 // ── Entry point ─────────────────────────────────────────────────────────
@@ -339,20 +537,32 @@ serve(async (req) => {
   if (cors) return cors;
   const corsHeaders = getCorsHeaders(req);
 
+  const id = leadIdFrom(new URL(req.url));
+  if (id !== null && !UUID_RE.test(id)) {
+    return jsonResponse({ error: "Lead id must be a UUID", code: "invalid_id" }, 400, corsHeaders);
+  }
+  const requireId = () => jsonResponse({ error: "/v1-leads/{id} required", code: "missing_id" }, 400, corsHeaders);
+
   if (req.method === "GET") {
     const auth = await authenticateApiKey(req, { requiredScope: "leads.read", corsHeaders });
     if (!auth.ok) return auth.response;
-    return handleGet(req, auth.auth, corsHeaders);
+    const headers = withRateLimitHeaders(corsHeaders, auth.auth);
+    return id ? handleGetOne(req, auth.auth, id, headers) : handleList(req, auth.auth, headers);
   }
   if (req.method === "POST") {
     const auth = await authenticateApiKey(req, { requiredScope: "leads.write", corsHeaders });
     if (!auth.ok) return auth.response;
-    return handlePost(req, auth.auth, corsHeaders);
+    return handlePost(req, auth.auth, withRateLimitHeaders(corsHeaders, auth.auth));
   }
   if (req.method === "PATCH") {
     const auth = await authenticateApiKey(req, { requiredScope: "leads.write", corsHeaders });
     if (!auth.ok) return auth.response;
-    return handlePatch(req, auth.auth, corsHeaders);
+    return id ? handlePatch(req, auth.auth, id, withRateLimitHeaders(corsHeaders, auth.auth)) : requireId();
+  }
+  if (req.method === "DELETE") {
+    const auth = await authenticateApiKey(req, { requiredScope: "leads.write", corsHeaders });
+    if (!auth.ok) return auth.response;
+    return id ? handleDelete(req, auth.auth, id, withRateLimitHeaders(corsHeaders, auth.auth)) : requireId();
   }
   return jsonResponse({ error: "Method not allowed", code: "method_not_allowed" }, 405, corsHeaders);
 });
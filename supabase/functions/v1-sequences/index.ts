@@ -7,11 +7,14 @@
 // Creating a sequence ROW does not start a sequence run — that happens
 // via the existing start-email-sequence-run edge function which writes
 // to a different table and requires the AI writer queue. This API
-// exposes the sequence-as-template surface only.
+// exposes the sequence-as-template surface only. A key restricted to a
+// business only sees and creates that business's sequences.
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { getCorsHeaders, handleCors } from "../_shared/cors.ts";
-import { authenticateApiKey, adminClient, type ApiAuth } from "../_shared/api-auth.ts";
+import {
+  authenticateApiKey, adminClient, scopeToBusiness, withRateLimitHeaders, type ApiAuth,
+} from "../_shared/api-auth.ts";
 
 const COLUMNS = "id,name,description,status,goal,tone,total_leads,total_sent,created_at,updated_at";
 const MAX_LIMIT = 200;
@@ -40,10 +43,10 @@ async function handleGet(req: Request, auth: ApiAuth, h: Record<string, string>)
   const cursor = url.searchParams.get("cursor");
   const statusFilter = url.searchParams.get("status");
 
-  let q = adminClient()
+  let q = scopeToBusiness(adminClient()
     .from("email_sequences")
     .select(COLUMNS)
-    .eq("workspace_id", auth.workspaceId)
+    .eq("workspace_id", auth.workspaceId), auth)
     .order("created_at", { ascending: false })
     .limit(limit + 1);
   if (cursor) q = q.lt("created_at", cursor);
@@ -108,6 +111,7 @@ async function handlePost(req: Request, auth: ApiAuth, h: Record<string, string>
 
   const row: Record<string, unknown> = {
     workspace_id: auth.workspaceId,
+    ...(auth.businessId ? { business_id: auth.businessId } : {}),
     created_by:   auth.apiKeyId,        // attribution: which API key created this draft
     name,
     description:  typeof body.description === "string" ? body.description : null,
@@ -201,11 +205,11 @@ async function handlePatch(req: Request, auth: ApiAuth, h: Record<string, string
     }
   }
 
-  const { data: updated, error: updateErr } = await admin
+  const { data: updated, error: updateErr } = await scopeToBusiness(admin
     .from("email_sequences")
     .update(patch)
     .eq("id", id)
-    .eq("workspace_id", auth.workspaceId)
+    .eq("workspace_id", auth.workspaceId), auth)
     .select(COLUMNS)
     .single();
 
@@ -245,17 +249,17 @@ serve(async (req) => {
   if (req.method === "GET") {
     const auth = await authenticateApiKey(req, { requiredScope: "campaigns.read", corsHeaders });
     if (!auth.ok) return auth.response;
-    return handleGet(req, auth.auth, corsHeaders);
+    return handleGet(req, auth.auth, withRateLimitHeaders(corsHeaders, auth.auth));
   }
   if (req.method === "POST") {
     const auth = await authenticateApiKey(req, { requiredScope: "campaigns.write", corsHeaders });
     if (!auth.ok) return auth.response;
-    return handlePost(req, auth.auth, corsHeaders);
+    return handlePost(req, auth.auth, withRateLimitHeaders(corsHeaders, auth.auth));
   }
   if (req.method === "PATCH") {
     const auth = await authenticateApiKey(req, { requiredScope: "campaigns.write", corsHeaders });
     if (!auth.ok) return auth.response;
-    return handlePatch(req, auth.auth, corsHeaders);
+    return handlePatch(req, auth.auth, withRateLimitHeaders(corsHeaders, auth.auth));
   }
   return jsonResponse({ error: "Method not allowed", code: "method_not_allowed" }, 405, corsHeaders);
 });
@@ -4,17 +4,25 @@
 //
 // Invokes per-tick (cron / external scheduler / manual) to drain
 // webhook_deliveries.status='pending' rows. For each delivery:
-//   1. Claim via claim_pending_webhook_deliveries (atomic, status='processing')
-//   2. POST the payload to the endpoint's URL with headers:
+//   1. Claim via claim_pending_webhook_deliveries (atomic, status='processing';
+//      disabled endpoints are left pending until re-enabled)
+//   2. Skip it (status='skipped') when the endpoint's filter for this event
+//      doesn't match the payload (migration 20260823180000)
+//   3. POST the body in the endpoint's pinned payload_version layout
+//      (_shared/webhookEnvelope.ts) with headers:
 //        Content-Type: application/json
 //        X-Scaliyo-Signature: t=<unix>,v1=<hex hmac-sha256(t.body, secret)>
 //        X-Scaliyo-Event:    <event_type>
+//        X-Scaliyo-Event-Version: <payload schema version>
+//        X-Scaliyo-Payload-Version: <body layout, 1 or 2>
 //        X-Scaliyo-Delivery: <delivery id>
 //        X-Scaliyo-Attempt:  <attempt count>
-//   3. mark_webhook_delivery_result with success/failure
+//      Payload schemas per event + version: docs/api/openapi.yaml (webhooks).
+//   4. mark_webhook_delivery_result with success/failure
 //      Success: HTTP 2xx within 8s
 //      Failure: anything else (bumps attempt_count, sets next_attempt_at
-//               via backoff schedule in the SQL function)
+//               via backoff schedule in the SQL function; may auto-disable
+//               the endpoint, in which case its creator is notified)
 //
 // Auth: service_role only — use the function URL with the service-role
 // key as Authorization. NOT a public endpoint.
@@ -22,6 +30,9 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { adminClient, bearerToken, isServiceRoleToken } from "../_shared/auth.ts";
 import { decryptToken } from "../_shared/tokenCrypto.ts";
+import { notifyUser } from "../_shared/notify.ts";
+import { buildWebhookBody, passesWebhookFilter } from "../_shared/webhookEnvelope.ts";
+import type { ConditionGroup } from "../_shared/workflow/conditions.ts";
 
 const BATCH_SIZE = 50;
 const TIMEOUT_MS = 8_000;
@@ -35,6 +46,11 @@ interface PendingDelivery {
   event_type:     string;
   payload:        unknown;
   attempt_count:  number;
+  schema_version: number;
+  created_at:     string;
+  replay_count:   number;
+  filters:        Record<string, ConditionGroup> | null;
+  payload_version: number;
 }
 
 async function hmacSha256Hex(secret: string, message: string): Promise<string> {
@@ -51,12 +67,7 @@ async function hmacSha256Hex(secret: string, message: string): Promise<string> {
 }
 
 async function deliver(d: PendingDelivery): Promise<{ ok: boolean; status?: number; error?: string }> {
-  const body = JSON.stringify({
-    id:           d.delivery_id,
-    event_type:   d.event_type,
-    workspace_id: d.workspace_id,
-    payload:      d.payload,
-  });
+  const body = JSON.stringify(buildWebhookBody(d, d.payload_version ?? 1));
   const ts = Math.floor(Date.now() / 1000).toString();
   const sig = await hmacSha256Hex(d.secret, `${ts}.${body}`);
 
@@ -69,6 +80,8 @@ async function deliver(d: PendingDelivery): Promise<{ ok: boolean; status?: numb
         "Content-Type":          "application/json",
         "X-Scaliyo-Signature":   `t=${ts},v1=${sig}`,
         "X-Scaliyo-Event":       d.event_type,
+        "X-Scaliyo-Event-Version": String(d.schema_version ?? 1),
+        "X-Scaliyo-Payload-Version": String(d.payload_version ?? 1),
         "X-Scaliyo-Delivery":    d.delivery_id,
         "X-Scaliyo-Attempt":     String(d.attempt_count),
       },
@@ -90,6 +103,9 @@ serve(async (req) => {
   }
 
   const admin = adminClient();
+  // Lower bound for "disabled during this tick"; taken before the claim so
+  // a little clock skew against the database can't hide a disable.
+  const tickStart = new Date(Date.now() - 60_000).toISOString();
 
   const { data, error } = await admin.rpc("claim_pending_webhook_deliveries", {
     p_limit: BATCH_SIZE,
@@ -106,7 +122,17 @@ serve(async (req) => {
     });
   }
 
+  let skipped = 0;
+
   const results = await Promise.all(pending.map(async (d) => {
+    if (!passesWebhookFilter(d.filters, d.event_type, d.payload)) {
+      skipped++;
+      await admin.rpc("mark_webhook_delivery_skipped", {
+        p_delivery_id: d.delivery_id,
+        p_reason:      "filtered out by endpoint filter",
+      });
+      return null;
+    }
     // The signing key is encrypted at rest (migration 20260819110000). Decrypt
     // per use, right before the HMAC — plaintext never outlives this call.
     // A decrypt failure must NOT be signed with ciphertext (the customer's
@@ -127,12 +153,38 @@ serve(async (req) => {
     return r;
   }));
 
-  const succeeded = results.filter((r) => r.ok).length;
+  const sent = results.filter((r): r is NonNullable<typeof r> => r !== null);
+  const succeeded = sent.filter((r) => r.ok).length;
+
+  // Endpoints this tick's failures pushed over the auto-disable threshold.
+  const failedEndpoints = [...new Set(pending.filter((_, i) => results[i] && !results[i]!.ok).map((d) => d.endpoint_id))];
+  if (failedEndpoints.length > 0) {
+    const { data: disabled } = await admin
+      .from("webhook_endpoints")
+      .select("id, workspace_id, created_by, url, failure_count")
+      .in("id", failedEndpoints)
+      .eq("disabled_reason", "failing")
+      .gte("disabled_at", tickStart);
+    for (const ep of (disabled ?? []) as { id: string; workspace_id: string; created_by: string | null; url: string; failure_count: number }[]) {
+      if (!ep.created_by) continue;
+      await notifyUser(admin, {
+        userId:      ep.created_by,
+        workspaceId: ep.workspace_id,
+        type:        "error",
+        title:       "Webhook endpoint disabled",
+        message:     `${ep.url} failed ${ep.failure_count} deliveries in a row and was turned off. ` +
+                     `New events keep queuing and are sent once you fix the receiver and re-enable it; ` +
+                     `replay the outage window for the deliveries that failed.`,
+        link:        "/portal/webhooks",
+      });
+    }
+  }
 
   return new Response(JSON.stringify({
     processed: pending.length,
     succeeded,
-    failed: pending.length - succeeded,
+    skipped,
+    failed: sent.length - succeeded,
   }), {
     status: 200,
     headers: { "Content-Type": "application/json" },
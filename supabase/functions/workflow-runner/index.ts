@@ -0,0 +1,174 @@
+// supabase/functions/workflow-runner/index.ts
+//
+// Durable workflow runner. Walks leads through a saved workflow server-side,
+// parking each run on `wait` nodes and picking it up again when the wait ends.
+//
+//   POST /functions/v1/workflow-runner
+//   Auth: Supabase user JWT (member of the workflow's workspace)
+//     body: { workflow_id: <uuid>, lead_ids: <uuid[]> }
+//     Enrolls the leads on the workflow's published version and runs each one
+//     up to its first wait (or the end). 409 if it has never been published.
+//     Leads it runs out of time for are finished by the cron sweep.
+//   Auth: service-role token (invoke_workflow_runner cron, every minute)
+//     body: {}
+//     Claims due runs — queued by a lead trigger (enqueue_workflow_trigger),
+//     past their wait, or orphaned by a worker that died mid-step — and
+//     advances them. A run that keeps dying is failed by the claim after
+//     five attempts; runs a member canceled are left alone.
+//
+// Run state lives in workflow_runs; the per-step log keeps going to
+// workflow_executions. Node behaviour is in _shared/workflow/nodes.ts.
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { getCorsHeaders, handleCors } from "../_shared/cors.ts";
+import {
+  SUPABASE_SERVICE_ROLE_KEY,
+  SUPABASE_URL,
+  adminClient,
+  bearerToken,
+  isServiceRoleToken,
+} from "../_shared/auth.ts";
+import { advanceRun, enrollLeads, updateLiveRun, WORKFLOW_COLS } from "../_shared/workflow/runner.ts";
+import type { RunRow, WorkflowRow } from "../_shared/workflow/types.ts";
+
+const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY") ?? "";
+const CLAIM_BATCH = 25;
+const MAX_LEADS_PER_CALL = 100;
+/** Leave room under the edge runtime's wall clock; unfinished claims are re-claimed once their lock lapses. */
+const TIME_BUDGET_MS = 110_000;
+/** How long a paused workflow's due runs are held before being looked at again. */
+const PAUSED_RECHECK_MS = 60 * 60 * 1000;
+
+function jsonResponse(b: unknown, status: number, h: Record<string, string>): Response {
+  return new Response(JSON.stringify(b), { status, headers: { ...h, "Content-Type": "application/json" } });
+}
+
+serve(async (req) => {
+  const cors = handleCors(req);
+  if (cors) return cors;
+  const corsHeaders = getCorsHeaders(req);
+
+  if (req.method !== "POST") return jsonResponse({ error: "Method not allowed" }, 405, corsHeaders);
+
+  const token = bearerToken(req);
+  if (!token) return jsonResponse({ error: "Missing Authorization" }, 401, corsHeaders);
+
+  const admin = adminClient();
+  const ctx = { admin, supabaseUrl: SUPABASE_URL, serviceKey: SUPABASE_SERVICE_ROLE_KEY, geminiApiKey: GEMINI_API_KEY };
+
+  try {
+    // ── Cron path: resume due runs ────────────────────────────────────────
+    if (isServiceRoleToken(token)) {
+      const startedAt = Date.now();
+      const { data: claimed, error: claimErr } = await admin.rpc("claim_due_workflow_runs", { p_limit: CLAIM_BATCH });
+      if (claimErr) throw new Error(`claim failed: ${claimErr.message}`);
+      const runs = (claimed ?? []) as RunRow[];
+      if (runs.length === 0) return jsonResponse({ resumed: 0, message: "nothing due" }, 200, corsHeaders);
+
+      const { data: wfRows } = await admin
+        .from("workflows").select(WORKFLOW_COLS).in("id", [...new Set(runs.map((r) => r.workflow_id))]);
+      const workflows = new Map(((wfRows ?? []) as WorkflowRow[]).map((w) => [w.id, w]));
+
+      const tally: Record<string, number> = { completed: 0, failed: 0, waiting: 0, canceled: 0, held: 0 };
+      for (const run of runs) {
+        if (Date.now() - startedAt > TIME_BUDGET_MS) break;
+        const workflow = workflows.get(run.workflow_id);
+        if (!workflow) continue; // deleted — the FK cascade removes the run
+        // Pausing a workflow holds its in-flight leads where they are.
+        if (workflow.status === "paused") {
+          await updateLiveRun(admin, run.id, {
+            status: "waiting",
+            not_before: new Date(Date.now() + PAUSED_RECHECK_MS).toISOString(),
+            locked_until: null,
+            attempt_count: 0,
+          });
+          tally.held++;
+          continue;
+        }
+        try {
+          tally[await advanceRun(ctx, run, workflow)]++;
+        } catch (err) {
+          // Leave the lock in place: the run is re-claimed once it lapses,
+          // and failed by the claim once it runs out of attempts.
+          const msg = err instanceof Error ? err.message : String(err);
+          console.error(`[workflow-runner] run ${run.id} errored:`, msg);
+          await updateLiveRun(admin, run.id, { last_error: msg.slice(0, 300) }).catch(() => false);
+        }
+      }
+      return jsonResponse({ resumed: runs.length, ...tally }, 200, corsHeaders);
+    }
+
+    // ── User path: enroll leads ───────────────────────────────────────────
+    const { data: userRes, error: authErr } = await admin.auth.getUser(token);
+    if (authErr || !userRes?.user) return jsonResponse({ error: "Invalid token" }, 401, corsHeaders);
+
+    const body = await req.json().catch(() => ({} as { workflow_id?: string; lead_ids?: string[] }));
+    if (!body.workflow_id || typeof body.workflow_id !== "string") {
+      return jsonResponse({ error: "workflow_id required" }, 400, corsHeaders);
+    }
+    const leadIds = Array.isArray(body.lead_ids)
+      ? [...new Set(body.lead_ids.filter((id: unknown): id is string => typeof id === "string"))]
+      : [];
+    if (leadIds.length === 0) return jsonResponse({ error: "lead_ids required" }, 400, corsHeaders);
+    if (leadIds.length > MAX_LEADS_PER_CALL) {
+      return jsonResponse({ error: `At most ${MAX_LEADS_PER_CALL} leads per call` }, 400, corsHeaders);
+    }
+
+    const { data: workflow } = await admin
+      .from("workflows").select(WORKFLOW_COLS).eq("id", body.workflow_id).maybeSingle();
+    if (!workflow) return jsonResponse({ error: "Workflow not found" }, 404, corsHeaders);
+
+    const { data: membership } = await admin
+      .from("workspace_members")
+      .select("user_id")
+      .eq("workspace_id", workflow.workspace_id)
+      .eq("user_id", userRes.user.id)
+      .maybeSingle();
+    if (!membership) return jsonResponse({ error: "Forbidden" }, 403, corsHeaders);
+    if (workflow.current_version === null) {
+      return jsonResponse({ error: "Publish the workflow before enrolling leads" }, 409, corsHeaders);
+    }
+
+    // Only leads from the workflow's own workspace can be enrolled.
+    const { data: leadRows } = await admin
+      .from("leads").select("id").eq("workspace_id", workflow.workspace_id).in("id", leadIds);
+    const validIds = ((leadRows ?? []) as { id: string }[]).map((l) => l.id);
+    if (validIds.length === 0) return jsonResponse({ error: "No matching leads in this workspace" }, 404, corsHeaders);
+
+    const { enrolled, alreadyRunning } = await enrollLeads(admin, workflow as WorkflowRow, validIds);
+    const startedAt = Date.now();
+    for (const run of enrolled) {
+      if (Date.now() - startedAt > TIME_BUDGET_MS) {
+        // Out of time: hand the rest to the next cron sweep.
+        await updateLiveRun(admin, run.id, { locked_until: new Date().toISOString() });
+        continue;
+      }
+      try {
+        await advanceRun(ctx, run, workflow as WorkflowRow);
+      } catch (err) {
+        // The cron picks the run back up once its lock lapses.
+        console.error(`[workflow-runner] run ${run.id} errored:`, err instanceof Error ? err.message : err);
+      }
+    }
+
+    await admin.from("audit_logs").insert({
+      user_id: userRes.user.id,
+      action: "AUTOMATION_EXECUTED",
+      details: `Workflow "${workflow.name}" v${workflow.current_version} started for ${enrolled.length} lead(s)` +
+        (alreadyRunning.length ? ` — ${alreadyRunning.length} already in progress` : ""),
+    });
+
+    const { data: runs } = enrolled.length
+      ? await admin
+        .from("workflow_runs")
+        .select("id, lead_id, status, not_before, execution:workflow_executions(id, status, steps, started_at, completed_at, error_message)")
+        .in("id", enrolled.map((r) => r.id))
+      : { data: [] };
+
+    return jsonResponse({ runs: runs ?? [], already_running: alreadyRunning }, 200, corsHeaders);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error("[workflow-runner] error:", msg);
+    return jsonResponse({ error: msg }, 500, corsHeaders);
+  }
+});
@@ -0,0 +1,16 @@
+-- ============================================================================
+-- 20260820100000_workflow_edges.sql
+-- Branching workflows. `nodes` stays the node list; `edges` holds the directed
+-- connections between them ({id, source, target, branch?}), where `branch` is
+-- 'yes' | 'no' on edges leaving a condition node.
+--
+-- Existing rows keep an empty array: the engine (resolveEdges in
+-- lib/automationEngine.ts) treats that as the legacy linear chain, so no
+-- backfill is needed and old workflows run exactly as before.
+-- ============================================================================
+
+alter table public.workflows
+  add column if not exists edges jsonb not null default '[]'::jsonb;
+
+comment on column public.workflows.edges is
+  'Directed edges between workflow nodes. Empty = legacy linear order of nodes.';
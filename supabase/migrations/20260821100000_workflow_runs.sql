@@ -0,0 +1,247 @@
+-- ============================================================================
+-- 20260821100000_workflow_runs.sql
+-- Durable, server-side workflow execution.
+--
+-- Until now a workflow only ran inside the browser tab that pressed "Run":
+-- `wait` nodes were logged and skipped ("continuing immediately in manual
+-- run"), and closing the tab abandoned whatever was left. This adds the state
+-- the new `workflow-runner` edge fn needs to walk a lead through a workflow
+-- across days:
+--
+--   • workflow_runs — one row per (workflow, lead) enrollment. Holds the graph
+--     walk's progress (which nodes are done, which became reachable) so a run
+--     can stop at a wait node and pick up exactly where it left off, even
+--     after a deploy or crash. At most one live run per (workflow, lead).
+--   • claim_due_workflow_runs() — atomic `for update skip locked` claim of
+--     waiting runs whose not_before has passed, plus runs whose worker lock
+--     expired mid-step (crashed invocation). A run that keeps dying before it
+--     reaches a wait or the end is failed after p_max_attempts claims.
+--   • cancel_workflow_run() — the only change members can make to a run.
+--   • bump_workflow_stats() — counts a finished run into workflows.stats in
+--     one UPDATE, so runs finishing together don't overwrite each other.
+--   • invoke_workflow_runner() + a per-minute cron — mirrors
+--     invoke_sequence_sends; POSTs the runner only when something is due.
+--
+-- The runner keeps writing the existing `workflow_executions` row step by step
+-- (current_node + steps), so the execution log UI needs no changes. Idempotent.
+-- ============================================================================
+
+create table if not exists public.workflow_runs (
+  id            uuid primary key default gen_random_uuid(),
+  workflow_id   uuid not null references public.workflows(id) on delete cascade,
+  workspace_id  uuid not null,
+  user_id       uuid not null references auth.users(id) on delete cascade,
+  lead_id       uuid not null references public.leads(id) on delete cascade,
+  execution_id  uuid references public.workflow_executions(id) on delete set null,
+  status        text not null default 'running'
+                check (status in ('running', 'waiting', 'completed', 'failed', 'canceled')),
+  -- Graph-walk progress. Node ids, not indexes, so edits to a workflow's
+  -- layout don't scramble in-flight runs.
+  reachable     jsonb not null default '[]'::jsonb,
+  done_nodes    jsonb not null default '[]'::jsonb,
+  current_node  text,
+  not_before    timestamptz,
+  locked_until  timestamptz,
+  attempt_count int not null default 0,
+  last_error    text,
+  created_at    timestamptz not null default now(),
+  updated_at    timestamptz not null default now()
+);
+
+-- A lead can only be mid-way through a given workflow once.
+create unique index if not exists uq_workflow_runs_active
+  on public.workflow_runs (workflow_id, lead_id)
+  where status in ('running', 'waiting');
+
+create index if not exists idx_workflow_runs_due
+  on public.workflow_runs (not_before)
+  where status = 'waiting';
+
+create index if not exists idx_workflow_runs_workspace
+  on public.workflow_runs (workspace_id, created_at desc);
+
+drop trigger if exists trg_workflow_runs_updated_at on public.workflow_runs;
+create trigger trg_workflow_runs_updated_at
+  before update on public.workflow_runs
+  for each row execute function public.update_updated_at();
+
+alter table public.workflow_runs enable row level security;
+
+-- Read-only for members; only the runner (service_role) writes.
+do $$ begin
+  create policy workflow_runs_select on public.workflow_runs
+    for select using (public.is_workspace_member(workspace_id));
+exception when duplicate_object then null; end $$;
+
+-- Members cancel runs through cancel_workflow_run(), not a direct update.
+drop policy if exists workflow_runs_cancel on public.workflow_runs;
+
+-- ── claim_due_workflow_runs ────────────────────────────────────────────────
+--
+-- Flips due runs to 'running' with a short lock so concurrent invocations
+-- can't advance the same lead twice. A 'running' run whose lock lapsed was
+-- orphaned by a crashed worker and is reclaimed — unless it has already been
+-- claimed p_max_attempts times without parking on a wait (the runner resets
+-- attempt_count there), in which case it is failed with its last error.
+
+drop function if exists public.claim_due_workflow_runs(int, int);
+
+create or replace function public.claim_due_workflow_runs(
+  p_limit        int default 25,
+  p_lock_ms      int default 300000,
+  p_max_attempts int default 5
+)
+returns setof public.workflow_runs
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  with exhausted as (
+    update public.workflow_runs r
+       set status       = 'failed',
+           locked_until = null,
+           not_before   = null,
+           last_error   = 'Gave up after ' || r.attempt_count || ' attempts'
+                          || coalesce(': ' || r.last_error, '')
+     where r.status = 'running'
+       and r.locked_until is not null and r.locked_until < now()
+       and r.attempt_count >= p_max_attempts
+    returning r.execution_id, r.last_error
+  )
+  update public.workflow_executions e
+     set status = 'failed', current_node = null, completed_at = now(), error_message = x.last_error
+    from exhausted x
+   where e.id = x.execution_id;
+
+  return query
+  update public.workflow_runs r
+     set status        = 'running',
+         locked_until  = now() + make_interval(secs => p_lock_ms / 1000.0),
+         attempt_count = r.attempt_count + 1
+   where r.id in (
+     select id
+       from public.workflow_runs
+      where (status = 'waiting' and not_before <= now())
+         or (status = 'running' and locked_until is not null and locked_until < now())
+      order by coalesce(not_before, locked_until) asc
+      for update skip locked
+      limit p_limit
+   )
+  returning r.*;
+end;
+$$;
+
+revoke all on function public.claim_due_workflow_runs(int, int, int) from public;
+grant execute on function public.claim_due_workflow_runs(int, int, int) to service_role;
+
+-- ── cancel_workflow_run ────────────────────────────────────────────────────
+--
+-- Stops a live run for a member of its workspace. Only the status (and the
+-- lock/wait that would pick it up again) changes; the runner checks for
+-- 'canceled' before each write and stops advancing.
+
+create or replace function public.cancel_workflow_run(p_run_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_execution uuid;
+begin
+  update public.workflow_runs
+     set status = 'canceled', not_before = null, locked_until = null
+   where id = p_run_id
+     and status in ('running', 'waiting')
+     and public.is_workspace_member(workspace_id)
+  returning execution_id into v_execution;
+  if not found then return false; end if;
+
+  update public.workflow_executions
+     set status = 'failed', current_node = null, completed_at = now(), error_message = 'Canceled'
+   where id = v_execution and status = 'running';
+  return true;
+end;
+$$;
+
+revoke all on function public.cancel_workflow_run(uuid) from public, anon;
+grant execute on function public.cancel_workflow_run(uuid) to authenticated;
+
+-- ── bump_workflow_stats ────────────────────────────────────────────────────
+--
+-- Same arithmetic as the browser engine's stats update (2.2 hrs saved per
+-- lead), done under the row lock rather than on a copy read earlier.
+
+create or replace function public.bump_workflow_stats(p_workflow_id uuid, p_succeeded boolean)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_stats jsonb;
+  v_prev  numeric;
+begin
+  select stats into v_stats from public.workflows where id = p_workflow_id for update;
+  if not found then return; end if;
+  v_prev := coalesce((v_stats ->> 'leadsProcessed')::numeric, 0);
+
+  update public.workflows
+     set stats = v_stats || jsonb_build_object(
+           'leadsProcessed', v_prev + 1,
+           'conversionRate', round((v_prev * coalesce((v_stats ->> 'conversionRate')::numeric, 0) / 100
+                                    + case when p_succeeded then 1 else 0 end) / (v_prev + 1) * 100, 1),
+           'timeSavedHrs',   round(coalesce((v_stats ->> 'timeSavedHrs')::numeric, 0) + 2.2),
+           'roi',            coalesce(v_stats -> 'roi', '0'::jsonb))
+   where id = p_workflow_id;
+end;
+$$;
+
+revoke all on function public.bump_workflow_stats(uuid, boolean) from public, anon, authenticated;
+grant execute on function public.bump_workflow_stats(uuid, boolean) to service_role;
+
+-- ── invoke_workflow_runner ─────────────────────────────────────────────────
+
+create or replace function public.invoke_workflow_runner()
+returns bigint language plpgsql security definer set search_path to 'public', 'vault' as $$
+declare
+  v_url    text := 'https://utvydxqiqedaaxmmpfpf.functions.supabase.co/workflow-runner';
+  v_token  text;
+  v_req_id bigint;
+  v_due    int;
+begin
+  -- Only fire when a wait has elapsed or a worker lock has gone stale.
+  select count(*) into v_due
+    from public.workflow_runs
+   where (status = 'waiting' and not_before <= now())
+      or (status = 'running' and locked_until is not null and locked_until < now())
+   limit 1;
+  if v_due = 0 then
+    return null;
+  end if;
+
+  v_token := nullif(current_setting('app.settings.service_role_key', true), '');
+  if v_token is null then
+    select decrypted_secret into v_token
+      from vault.decrypted_secrets where name = 'webhook_dispatcher_service_key' limit 1;
+  end if;
+  if v_token is null or v_token = '' then
+    raise warning 'invoke_workflow_runner: no service-role token in GUC or vault — skipping';
+    return null;
+  end if;
+
+  select net.http_post(
+    url     := v_url,
+    headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer ' || v_token),
+    body    := '{}'::jsonb,
+    timeout_milliseconds := 30000
+  ) into v_req_id;
+  return v_req_id;
+end;
+$$;
+
+do $$ begin
+  perform cron.unschedule('invoke-workflow-runner');
+exception when others then null; end $$;
+select cron.schedule('invoke-workflow-runner', '* * * * *', 'select public.invoke_workflow_runner();');
@@ -0,0 +1,160 @@
+-- ============================================================================
+-- 20260821110000_workflow_event_triggers.sql
+-- Event-driven workflow starts.
+--
+-- A workflow's trigger node (lead_created / score_change / status_change) was
+-- only ever evaluated when someone ran the workflow by hand against a list of
+-- leads. This subscribes active workflows to the events themselves, the same
+-- way 20260510000000 wires webhook events: AFTER triggers on public.leads that
+-- enqueue a workflow_runs row for every matching active workflow.
+--
+--   lead_created   — leads INSERT
+--   score_change   — leads UPDATE OF score, when the score crosses the trigger's
+--                    threshold upward (old < threshold <= new). recalcLeadScore /
+--                    recalcLeadScoresBulk sync leads.score, so rescoring fires it.
+--   status_change  — leads UPDATE OF status, when it actually changes (and, if
+--                    the trigger names a toStatus, only into that status)
+--
+-- Runs are queued as 'waiting' with not_before = now(), so the per-minute
+-- invoke_workflow_runner cron picks them up; the runner lays out the entry
+-- nodes and the execution row on first advance.
+--
+-- Dedupe: an event never enrolls a lead in a workflow it has already been
+-- through (any prior run, whatever its outcome). The partial unique index from
+-- 20260821100000 backs this up against two events racing for the same lead.
+--
+-- Safety: like the webhook triggers, failures RAISE WARNING and are swallowed
+-- — a workflow enqueue problem must never block a lead write. Idempotent.
+-- ============================================================================
+
+alter table public.workflow_runs
+  add column if not exists trigger_event text not null default 'manual';
+
+comment on column public.workflow_runs.trigger_event is
+  'What started the run: manual (enrolled from the UI) or the trigger type that fired (lead_created, score_change, status_change).';
+
+-- ── enqueue_workflow_trigger ───────────────────────────────────────────────
+
+create or replace function public.enqueue_workflow_trigger(
+  p_lead       public.leads,
+  p_trigger    text,
+  p_old_score  numeric default null
+)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count     int := 0;
+  v_rows      int;
+  v_threshold numeric;
+  v_wf        record;
+begin
+  if p_lead.workspace_id is null then
+    return 0;
+  end if;
+
+  for v_wf in
+    select w.id, w.user_id, w.workspace_id, t.node -> 'config' as cfg
+      from public.workflows w
+      cross join lateral (
+        select n as node
+          from jsonb_array_elements(w.nodes) n
+         where n ->> 'type' = 'trigger'
+           and n -> 'config' ->> 'triggerType' = p_trigger
+         limit 1
+      ) t
+     where w.workspace_id = p_lead.workspace_id
+       and w.status = 'active'
+  loop
+    if p_trigger = 'score_change' then
+      -- Same default as executeTrigger() when no threshold is configured.
+      v_threshold := coalesce(nullif(v_wf.cfg ->> 'threshold', '')::numeric, 50);
+      continue when not (coalesce(p_old_score, 0) < v_threshold and coalesce(p_lead.score, 0) >= v_threshold);
+    elsif p_trigger = 'status_change' then
+      continue when nullif(v_wf.cfg ->> 'toStatus', '') is not null
+                and p_lead.status is distinct from v_wf.cfg ->> 'toStatus';
+    end if;
+
+    continue when exists (
+      select 1 from public.workflow_runs r
+       where r.workflow_id = v_wf.id and r.lead_id = p_lead.id
+    );
+
+    insert into public.workflow_runs
+      (workflow_id, workspace_id, user_id, lead_id, status, not_before, trigger_event)
+    values
+      (v_wf.id, v_wf.workspace_id, v_wf.user_id, p_lead.id, 'waiting', now(), p_trigger)
+    on conflict (workflow_id, lead_id) where status in ('running', 'waiting') do nothing;
+
+    get diagnostics v_rows = row_count;
+    v_count := v_count + v_rows;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+revoke all on function public.enqueue_workflow_trigger(public.leads, text, numeric) from public;
+
+-- ── leads INSERT → lead_created ───────────────────────────────────────────
+
+create or replace function public._wf_after_lead_insert()
+returns trigger language plpgsql security definer
+set search_path = public as $$
+begin
+  perform public.enqueue_workflow_trigger(new, 'lead_created');
+  return null;
+exception when others then
+  raise warning '[wf] lead_created enqueue failed: % %', sqlstate, sqlerrm;
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_wf_lead_insert on public.leads;
+create trigger trg_wf_lead_insert
+  after insert on public.leads
+  for each row execute function public._wf_after_lead_insert();
+
+-- ── leads UPDATE OF score → score_change ──────────────────────────────────
+
+create or replace function public._wf_after_lead_score_update()
+returns trigger language plpgsql security definer
+set search_path = public as $$
+begin
+  if new.score is distinct from old.score and coalesce(new.score, 0) > coalesce(old.score, 0) then
+    perform public.enqueue_workflow_trigger(new, 'score_change', old.score);
+  end if;
+  return null;
+exception when others then
+  raise warning '[wf] score_change enqueue failed: % %', sqlstate, sqlerrm;
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_wf_lead_score_update on public.leads;
+create trigger trg_wf_lead_score_update
+  after update of score on public.leads
+  for each row execute function public._wf_after_lead_score_update();
+
+-- ── leads UPDATE OF status → status_change ────────────────────────────────
+
+create or replace function public._wf_after_lead_status_update()
+returns trigger language plpgsql security definer
+set search_path = public as $$
+begin
+  if new.status is distinct from old.status then
+    perform public.enqueue_workflow_trigger(new, 'status_change');
+  end if;
+  return null;
+exception when others then
+  raise warning '[wf] status_change enqueue failed: % %', sqlstate, sqlerrm;
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_wf_lead_status_update on public.leads;
+create trigger trg_wf_lead_status_update
+  after update of status on public.leads
+  for each row execute function public._wf_after_lead_status_update();
@@ -0,0 +1,65 @@
+-- ============================================================================
+-- 20260821120000_workflow_action_types.sql
+-- Explicit action types on workflow nodes.
+--
+-- Action nodes used to keep their type in config.actionType, and when that was
+-- missing both executors guessed it from the node title ("Send …" → email,
+-- "Update …" → status, …). Renaming a step could therefore change what it did.
+-- Action nodes now carry a top-level "actionType" and the executors refuse to
+-- run one without it.
+--
+-- This rewrites saved workflows.nodes so every action node has that key:
+--   • config.actionType, when it names a known action type, is moved up;
+--   • otherwise the old title guess is applied once, so existing workflows keep
+--     doing exactly what they did — the result is stored, never re-derived;
+--   • nodes the guess can't place are left without a type and show up in the
+--     builder as needing one (they previously ran as a no-op "generic" step).
+-- config.actionType is removed either way. Nodes that already have a top-level
+-- actionType are untouched, so the migration is idempotent.
+--
+-- lib/workflowActions.ts migrateActionNode() does the same for rows saved by
+-- a client that predates this change.
+-- ============================================================================
+
+create or replace function public._wf_legacy_action_type(p_title text)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when t like '%email%' or t like '%send%'                                  then 'send_email'
+    when t like '%status%' or t like '%update%'                               then 'update_status'
+    when t like '%tag%'                                                       then 'add_tag'
+    when t like '%slack%'                                                     then 'notify_slack'
+    when t like '%crm%' or t like '%hubspot%' or t like '%salesforce%'        then 'sync_crm'
+    when t like '%alert%' or t like '%notify%'                                then 'create_alert'
+    when t like '%assign%'                                                    then 'assign_user'
+  end
+  from (select lower(coalesce(p_title, '')) as t) s;
+$$;
+
+update public.workflows w
+   set nodes = (
+     select jsonb_agg(
+              case
+                when n ->> 'type' = 'action' and not (n ? 'actionType') then
+                  (n - 'config')
+                  || jsonb_build_object('config', coalesce(n -> 'config', '{}'::jsonb) - 'actionType')
+                  || jsonb_strip_nulls(jsonb_build_object('actionType', coalesce(
+                       case when n -> 'config' ->> 'actionType' in (
+                              'send_email', 'update_status', 'add_tag', 'assign_user', 'generate_content',
+                              'create_alert', 'move_to_segment', 'notify_slack', 'sync_crm')
+                            then n -> 'config' ->> 'actionType' end,
+                       public._wf_legacy_action_type(n ->> 'title'))))
+                else n
+              end
+              order by ord)
+       from jsonb_array_elements(w.nodes) with ordinality as e(n, ord)
+   )
+ where jsonb_typeof(w.nodes) = 'array'
+   and exists (
+     select 1 from jsonb_array_elements(w.nodes) n
+      where n ->> 'type' = 'action' and not (n ? 'actionType')
+   );
+
+drop function public._wf_legacy_action_type(text);
@@ -0,0 +1,283 @@
+-- ============================================================================
+-- 20260822100000_workflow_versions.sql
+-- Immutable published workflow versions, drafts and rollback.
+--
+-- saveWorkflow used to upsert nodes/edges over the one workflows row, so
+-- editing an active workflow changed the graph under leads that were already
+-- part-way through it (the runner re-reads the row on every resume), and there
+-- was no history to go back to. From here on:
+--
+--   • workflow_versions — one frozen copy of the graph per publish. Rows are
+--     never updated; rolling back publishes a new version that copies an old
+--     one, so the history only ever grows.
+--   • workflows.nodes / edges — the live graph, i.e. a copy of the
+--     current_version snapshot. Lead triggers read it; only publish_workflow()
+--     and rollback_workflow() write it.
+--   • workflows.draft_nodes / draft_edges — what the builder saves. NULL means
+--     "no unpublished changes".
+--   • workflow_runs.workflow_version / workflow_executions.workflow_version —
+--     the version a run was enrolled on. The runner walks that version's graph
+--     until the run ends, whatever has been published since. NULL on an
+--     execution means a builder test run of an unpublished draft.
+--
+-- Every existing workflow is published as version 1 from its current graph,
+-- and runs already in flight are pinned to it. Idempotent.
+-- ============================================================================
+
+create table if not exists public.workflow_versions (
+  id               uuid primary key default gen_random_uuid(),
+  workflow_id      uuid not null references public.workflows(id) on delete cascade,
+  workspace_id     uuid not null,
+  version          int  not null check (version > 0),
+  name             text not null,
+  nodes            jsonb not null default '[]'::jsonb,
+  edges            jsonb not null default '[]'::jsonb,
+  note             text,
+  -- Set when this version was created by rolling back to an older one.
+  rolled_back_from int,
+  published_by     uuid references auth.users(id) on delete set null,
+  published_at     timestamptz not null default now(),
+  unique (workflow_id, version)
+);
+
+create index if not exists idx_workflow_versions_workflow
+  on public.workflow_versions (workflow_id, version desc);
+
+alter table public.workflow_versions enable row level security;
+
+-- Read-only for members; versions are only created by the RPCs below.
+do $$ begin
+  create policy workflow_versions_select on public.workflow_versions
+    for select using (public.is_workspace_member(workspace_id));
+exception when duplicate_object then null; end $$;
+
+create or replace function public._workflow_versions_immutable()
+returns trigger language plpgsql as $$
+begin
+  raise exception 'workflow_versions rows are immutable — publish a new version instead';
+end;
+$$;
+
+drop trigger if exists trg_workflow_versions_immutable on public.workflow_versions;
+create trigger trg_workflow_versions_immutable
+  before update on public.workflow_versions
+  for each row execute function public._workflow_versions_immutable();
+
+alter table public.workflows
+  add column if not exists current_version int,
+  add column if not exists draft_nodes     jsonb,
+  add column if not exists draft_edges     jsonb;
+
+comment on column public.workflows.current_version is
+  'Version number of the live graph in nodes/edges. NULL until the workflow is first published.';
+comment on column public.workflows.draft_nodes is
+  'Unpublished builder edits. NULL when the draft matches the live version.';
+
+alter table public.workflow_runs
+  add column if not exists workflow_version int;
+
+alter table public.workflow_executions
+  add column if not exists workflow_version int;
+
+comment on column public.workflow_executions.workflow_version is
+  'Published version the execution ran. NULL for a builder test run of an unpublished draft.';
+
+-- ── Backfill: every existing workflow becomes version 1 ────────────────────
+
+insert into public.workflow_versions
+  (workflow_id, workspace_id, version, name, nodes, edges, note, published_by, published_at)
+select w.id, w.workspace_id, 1, w.name, coalesce(w.nodes, '[]'::jsonb), coalesce(w.edges, '[]'::jsonb),
+       'Initial version', w.user_id, w.updated_at
+  from public.workflows w
+ where w.current_version is null
+on conflict (workflow_id, version) do nothing;
+
+update public.workflows
+   set current_version = 1
+ where current_version is null;
+
+update public.workflow_runs
+   set workflow_version = 1
+ where workflow_version is null;
+
+update public.workflow_executions
+   set workflow_version = 1
+ where workflow_version is null;
+
+-- ── publish_workflow ──────────────────────────────────────────────────────
+--
+-- Freezes the draft (or, with no draft, the live graph) as the next version,
+-- makes it live and clears the draft. The row lock serialises two publishes of
+-- the same workflow.
+
+create or replace function public.publish_workflow(
+  p_workflow_id uuid,
+  p_note        text default null
+)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_wf      public.workflows;
+  v_version int;
+begin
+  select * into v_wf from public.workflows where id = p_workflow_id for update;
+  if not found then
+    raise exception 'workflow % not found', p_workflow_id;
+  end if;
+  if not public.is_workspace_member(v_wf.workspace_id) then
+    raise exception 'forbidden: caller not in workspace %', v_wf.workspace_id;
+  end if;
+
+  v_version := coalesce(v_wf.current_version, 0) + 1;
+
+  insert into public.workflow_versions
+    (workflow_id, workspace_id, version, name, nodes, edges, note, published_by)
+  values
+    (v_wf.id, v_wf.workspace_id, v_version, v_wf.name,
+     coalesce(v_wf.draft_nodes, v_wf.nodes, '[]'::jsonb),
+     coalesce(v_wf.draft_edges, v_wf.edges, '[]'::jsonb),
+     nullif(trim(p_note), ''), auth.uid());
+
+  update public.workflows
+     set nodes           = coalesce(v_wf.draft_nodes, v_wf.nodes, '[]'::jsonb),
+         edges           = coalesce(v_wf.draft_edges, v_wf.edges, '[]'::jsonb),
+         draft_nodes     = null,
+         draft_edges     = null,
+         current_version = v_version
+   where id = v_wf.id;
+
+  return v_version;
+end;
+$$;
+
+revoke all on function public.publish_workflow(uuid, text) from public;
+grant execute on function public.publish_workflow(uuid, text) to authenticated;
+
+-- ── rollback_workflow ─────────────────────────────────────────────────────
+--
+-- Publishes a copy of an earlier version as the next version and discards any
+-- draft. Runs already in flight stay on whatever version they started on.
+
+create or replace function public.rollback_workflow(
+  p_workflow_id uuid,
+  p_version     int
+)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_wf      public.workflows;
+  v_target  public.workflow_versions;
+  v_version int;
+begin
+  select * into v_wf from public.workflows where id = p_workflow_id for update;
+  if not found then
+    raise exception 'workflow % not found', p_workflow_id;
+  end if;
+  if not public.is_workspace_member(v_wf.workspace_id) then
+    raise exception 'forbidden: caller not in workspace %', v_wf.workspace_id;
+  end if;
+
+  select * into v_target
+    from public.workflow_versions
+   where workflow_id = p_workflow_id and version = p_version;
+  if not found then
+    raise exception 'version % of workflow % not found', p_version, p_workflow_id;
+  end if;
+
+  v_version := coalesce(v_wf.current_version, 0) + 1;
+
+  insert into public.workflow_versions
+    (workflow_id, workspace_id, version, name, nodes, edges, note, rolled_back_from, published_by)
+  values
+    (v_wf.id, v_wf.workspace_id, v_version, v_target.name, v_target.nodes, v_target.edges,
+     'Rolled back to v' || p_version, p_version, auth.uid());
+
+  update public.workflows
+     set nodes           = v_target.nodes,
+         edges           = v_target.edges,
+         draft_nodes     = null,
+         draft_edges     = null,
+         current_version = v_version
+   where id = v_wf.id;
+
+  return v_version;
+end;
+$$;
+
+revoke all on function public.rollback_workflow(uuid, int) from public;
+grant execute on function public.rollback_workflow(uuid, int) to authenticated;
+
+-- ── enqueue_workflow_trigger: pin runs to the live version ─────────────────
+--
+-- Same as 20260821110000, except a workflow that has never been published has
+-- nothing to run yet, and each queued run records the version it starts on.
+
+create or replace function public.enqueue_workflow_trigger(
+  p_lead       public.leads,
+  p_trigger    text,
+  p_old_score  numeric default null
+)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count     int := 0;
+  v_rows      int;
+  v_threshold numeric;
+  v_wf        record;
+begin
+  if p_lead.workspace_id is null then
+    return 0;
+  end if;
+
+  for v_wf in
+    select w.id, w.user_id, w.workspace_id, w.current_version, t.node -> 'config' as cfg
+      from public.workflows w
+      cross join lateral (
+        select n as node
+          from jsonb_array_elements(w.nodes) n
+         where n ->> 'type' = 'trigger'
+           and n -> 'config' ->> 'triggerType' = p_trigger
+         limit 1
+      ) t
+     where w.workspace_id = p_lead.workspace_id
+       and w.status = 'active'
+       and w.current_version is not null
+  loop
+    if p_trigger = 'score_change' then
+      -- Same default as executeTrigger() when no threshold is configured.
+      v_threshold := coalesce(nullif(v_wf.cfg ->> 'threshold', '')::numeric, 50);
+      continue when not (coalesce(p_old_score, 0) < v_threshold and coalesce(p_lead.score, 0) >= v_threshold);
+    elsif p_trigger = 'status_change' then
+      continue when nullif(v_wf.cfg ->> 'toStatus', '') is not null
+                and p_lead.status is distinct from v_wf.cfg ->> 'toStatus';
+    end if;
+
+    continue when exists (
+      select 1 from public.workflow_runs r
+       where r.workflow_id = v_wf.id and r.lead_id = p_lead.id
+    );
+
+    insert into public.workflow_runs
+      (workflow_id, workspace_id, user_id, lead_id, status, not_before, trigger_event, workflow_version)
+    values
+      (v_wf.id, v_wf.workspace_id, v_wf.user_id, p_lead.id, 'waiting', now(), p_trigger, v_wf.current_version)
+    on conflict (workflow_id, lead_id) where status in ('running', 'waiting') do nothing;
+
+    get diagnostics v_rows = row_count;
+    v_count := v_count + v_rows;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+revoke all on function public.enqueue_workflow_trigger(public.leads, text, numeric) from public;
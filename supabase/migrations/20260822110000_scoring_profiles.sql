@@ -0,0 +1,103 @@
+-- ============================================================================
+-- 20260822110000_scoring_profiles.sql
+-- Per-workspace lead scoring profiles.
+--
+-- lib/leadScoring.ts computeScore() hard-coded how much each sub-score is worth
+-- (fit /25, intent /20, engagement /20, data quality /15, deliverability /10,
+-- urgency /10). A scoring profile lets a workspace re-weight those categories
+-- and add ICP rules on top — "industry is one of SaaS, Fintech → +10",
+-- "title matches VP|Director → +8" — written in the lead condition language
+-- (lib/leadConditions.ts).
+--
+--   weights — max points per category, keyed fit / intent / engagement /
+--             data_quality / deliverability / urgency. Each sub-score is still
+--             computed on its native scale, then scaled to its weight.
+--   rules   — [{ id, label, condition, points }]; points may be negative.
+--
+-- At most one profile per workspace is active; with none active, scoring uses
+-- the built-in default weights (unchanged behaviour). lead_scores.profile_id
+-- records which profile produced a score (NULL = built-in default). Idempotent.
+-- ============================================================================
+
+create table if not exists public.scoring_profiles (
+  id            uuid primary key default gen_random_uuid(),
+  workspace_id  uuid not null references public.workspaces(id) on delete cascade,
+  name          text not null,
+  description   text,
+  weights       jsonb not null default '{}'::jsonb,
+  rules         jsonb not null default '[]'::jsonb,
+  is_active     boolean not null default false,
+  created_by    uuid references auth.users(id) on delete set null,
+  created_at    timestamptz not null default now(),
+  updated_at    timestamptz not null default now()
+);
+
+create index if not exists idx_scoring_profiles_workspace
+  on public.scoring_profiles (workspace_id);
+
+-- One active profile per workspace.
+create unique index if not exists uq_scoring_profiles_active
+  on public.scoring_profiles (workspace_id)
+  where is_active;
+
+drop trigger if exists trg_scoring_profiles_updated_at on public.scoring_profiles;
+create trigger trg_scoring_profiles_updated_at
+  before update on public.scoring_profiles
+  for each row execute function public.update_updated_at();
+
+alter table public.scoring_profiles enable row level security;
+
+do $$ begin
+  create policy scoring_profiles_select on public.scoring_profiles
+    for select using (public.is_workspace_member(workspace_id));
+exception when duplicate_object then null; end $$;
+
+do $$ begin
+  create policy scoring_profiles_write on public.scoring_profiles
+    for all using (public.is_workspace_member(workspace_id))
+    with check (public.is_workspace_member(workspace_id));
+exception when duplicate_object then null; end $$;
+
+alter table public.lead_scores
+  add column if not exists profile_id uuid references public.scoring_profiles(id) on delete set null;
+
+comment on column public.lead_scores.profile_id is
+  'Scoring profile that produced this score; NULL for the built-in default weights.';
+
+-- ── activate_scoring_profile ──────────────────────────────────────────────
+--
+-- Swaps the active profile in one statement pair so the partial unique index
+-- never sees two active rows. p_profile_id NULL reverts the workspace to the
+-- built-in default.
+
+create or replace function public.activate_scoring_profile(
+  p_workspace_id uuid,
+  p_profile_id   uuid
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_workspace_member(p_workspace_id) then
+    raise exception 'forbidden: caller not in workspace %', p_workspace_id;
+  end if;
+  if p_profile_id is not null and not exists (
+    select 1 from public.scoring_profiles where id = p_profile_id and workspace_id = p_workspace_id
+  ) then
+    raise exception 'scoring profile % not found in workspace %', p_profile_id, p_workspace_id;
+  end if;
+
+  update public.scoring_profiles
+     set is_active = false
+   where workspace_id = p_workspace_id and is_active and id is distinct from p_profile_id;
+
+  if p_profile_id is not null then
+    update public.scoring_profiles set is_active = true where id = p_profile_id;
+  end if;
+end;
+$$;
+
+revoke all on function public.activate_scoring_profile(uuid, uuid) from public;
+grant execute on function public.activate_scoring_profile(uuid, uuid) to authenticated;
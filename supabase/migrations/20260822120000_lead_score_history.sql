@@ -0,0 +1,154 @@
+-- ============================================================================
+-- 20260822120000_lead_score_history.sql
+-- Lead score history — a time series of lead_scores snapshots.
+--
+-- recalcLeadScore / recalcLeadScoresBulk upsert lead_scores in place, so a
+-- lead's previous scores were lost and there was no way to see it heat up or
+-- cool off. An AFTER INSERT/UPDATE trigger on lead_scores now appends a
+-- snapshot to lead_score_history whenever the total, a sub-score or the
+-- scoring profile changes, plus at most one "still the same" snapshot a day so
+-- flat stretches are visible. Every scoring path writes through lead_scores,
+-- so none of them needs to know about the history table.
+--
+-- lead_score_movers(business, since, limit) powers "biggest movers this week":
+-- each lead's current score against its score at `since` (or its first score
+-- after `since` for leads scored for the first time in the window).
+--
+-- Existing lead_scores rows are backfilled as one snapshot each, stamped with
+-- last_calculated_at. Idempotent.
+-- ============================================================================
+
+create table if not exists public.lead_score_history (
+  id                   uuid primary key default gen_random_uuid(),
+  lead_id              uuid not null references public.leads(id) on delete cascade,
+  business_id          uuid not null references public.businesses(id) on delete cascade,
+  workspace_id         uuid not null references public.workspaces(id) on delete cascade,
+  total_score          integer not null,
+  fit_score            integer not null default 0,
+  intent_score         integer not null default 0,
+  engagement_score     integer not null default 0,
+  data_quality_score   integer not null default 0,
+  deliverability_score integer not null default 0,
+  urgency_score        integer not null default 0,
+  risk_score           integer not null default 0,
+  profile_id           uuid references public.scoring_profiles(id) on delete set null,
+  recorded_at          timestamptz not null default now()
+);
+
+create index if not exists idx_lead_score_history_lead
+  on public.lead_score_history (lead_id, recorded_at desc);
+create index if not exists idx_lead_score_history_business
+  on public.lead_score_history (business_id, recorded_at desc);
+
+alter table public.lead_score_history enable row level security;
+
+-- Read-only for members; rows are written by the trigger below.
+do $$ begin
+  create policy "members read score history" on public.lead_score_history for select
+    using (public.is_business_member(business_id));
+exception when duplicate_object then null; end $$;
+
+-- ── lead_scores INSERT/UPDATE → snapshot ──────────────────────────────────
+
+create or replace function public._lead_score_record_history()
+returns trigger language plpgsql security definer
+set search_path = public as $$
+begin
+  if tg_op = 'UPDATE'
+     and new.total_score          = old.total_score
+     and new.fit_score            = old.fit_score
+     and new.intent_score         = old.intent_score
+     and new.engagement_score     = old.engagement_score
+     and new.data_quality_score   = old.data_quality_score
+     and new.deliverability_score = old.deliverability_score
+     and new.urgency_score        = old.urgency_score
+     and new.risk_score           = old.risk_score
+     and new.profile_id is not distinct from old.profile_id
+     and exists (
+       select 1 from public.lead_score_history
+        where lead_id = new.lead_id and recorded_at > now() - interval '1 day'
+     ) then
+    return null;
+  end if;
+
+  insert into public.lead_score_history (
+    lead_id, business_id, workspace_id, total_score, fit_score, intent_score,
+    engagement_score, data_quality_score, deliverability_score, urgency_score,
+    risk_score, profile_id
+  ) values (
+    new.lead_id, new.business_id, new.workspace_id, new.total_score, new.fit_score, new.intent_score,
+    new.engagement_score, new.data_quality_score, new.deliverability_score, new.urgency_score,
+    new.risk_score, new.profile_id
+  );
+  return null;
+exception when others then
+  raise warning '[scoring] history snapshot failed: % %', sqlstate, sqlerrm;
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_lead_score_history on public.lead_scores;
+create trigger trg_lead_score_history
+  after insert or update on public.lead_scores
+  for each row execute function public._lead_score_record_history();
+
+-- ── Backfill ──────────────────────────────────────────────────────────────
+
+insert into public.lead_score_history (
+  lead_id, business_id, workspace_id, total_score, fit_score, intent_score,
+  engagement_score, data_quality_score, deliverability_score, urgency_score,
+  risk_score, profile_id, recorded_at
+)
+select s.lead_id, s.business_id, s.workspace_id, s.total_score, s.fit_score, s.intent_score,
+       s.engagement_score, s.data_quality_score, s.deliverability_score, s.urgency_score,
+       s.risk_score, s.profile_id, s.last_calculated_at
+  from public.lead_scores s
+ where not exists (select 1 from public.lead_score_history h where h.lead_id = s.lead_id);
+
+-- ── lead_score_movers ─────────────────────────────────────────────────────
+--
+-- Baseline per lead: its latest snapshot at or before p_since, else its
+-- earliest snapshot after it. Leads whose score is unchanged are left out.
+
+create or replace function public.lead_score_movers(
+  p_business_id uuid,
+  p_since       timestamptz default now() - interval '7 days',
+  p_limit       int default 5
+)
+returns table (
+  lead_id      uuid,
+  first_name   text,
+  last_name    text,
+  company      text,
+  score_before integer,
+  score_now    integer,
+  delta        integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select s.lead_id, l.first_name, l.last_name, l.company,
+         b.total_score, s.total_score, s.total_score - b.total_score
+    from public.lead_scores s
+    join public.leads l on l.id = s.lead_id
+    cross join lateral (
+      select h.total_score
+        from public.lead_score_history h
+       where h.lead_id = s.lead_id
+       order by (h.recorded_at <= p_since) desc,
+                case when h.recorded_at <= p_since
+                     then -extract(epoch from h.recorded_at)
+                     else extract(epoch from h.recorded_at) end
+       limit 1
+    ) b
+   where s.business_id = p_business_id
+     and public.is_business_member(p_business_id)
+     and s.total_score <> b.total_score
+   order by abs(s.total_score - b.total_score) desc, s.total_score desc
+   limit greatest(1, least(coalesce(p_limit, 5), 50));
+$$;
+
+revoke all on function public.lead_score_movers(uuid, timestamptz, int) from public;
+grant execute on function public.lead_score_movers(uuid, timestamptz, int) to authenticated;
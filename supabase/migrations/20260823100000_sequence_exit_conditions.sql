@@ -0,0 +1,144 @@
+-- ============================================================================
+-- 20260823100000_sequence_exit_conditions.sql
+-- Sequence exit conditions — stop a lead's remaining steps once they respond.
+--
+-- process-sequence-sends only checked whether a run was paused or canceled, so
+-- a lead who replied "not interested", hard-bounced or unsubscribed still got
+-- every later step. Each campaign now carries exit_conditions (all on by
+-- default) which launchCampaign copies into sequence_config.exitOn:
+--
+--   replied         an inbound_emails row for the lead since the run started
+--   unsubscribed    suppressed as unsub / complaint, or an unsubscribe /
+--                   spam complaint in email_dlq for one of the lead's messages
+--   bounced         suppressed as bounce / invalid, or a hard bounce in email_dlq
+--   meeting_booked  a non-cancelled lead_meetings row created since the run started
+--   converted       leads.status = 'Converted'
+--
+-- stop_exited_sequence_leads(run_ids) evaluates those per (run, lead) and moves
+-- the lead's unsent items (pending / writing / written — never 'sending') to the
+-- new 'skipped' status with skip_reason. Runs with no exitOn in their config
+-- (launched before this migration) get every condition. campaign_stopped_leads
+-- lists the stopped leads for the campaign view. Idempotent.
+-- ============================================================================
+
+alter table public.email_sequences
+  add column if not exists exit_conditions text[] not null
+    default array['replied','unsubscribed','bounced','meeting_booked','converted'];
+
+alter table public.email_sequence_run_items
+  add column if not exists skip_reason text,          -- one of the exit conditions above
+  add column if not exists skipped_at  timestamptz;
+
+alter table public.email_sequence_run_items
+  drop constraint if exists email_sequence_run_items_status_check;
+
+alter table public.email_sequence_run_items
+  add constraint email_sequence_run_items_status_check
+  check (status = any (array['pending','writing','written','sending','sent','failed','skipped']));
+
+create index if not exists idx_esri_run_lead
+  on public.email_sequence_run_items (run_id, lead_id)
+  where status in ('pending','writing','written');
+
+-- ── stop_exited_sequence_leads ────────────────────────────────────────────
+
+create or replace function public.stop_exited_sequence_leads(p_run_ids uuid[])
+returns table (run_id uuid, lead_id uuid, reason text, items_skipped integer)
+language plpgsql
+security definer
+set search_path to 'public'
+as $$
+#variable_conflict use_column
+begin
+  return query
+  with open_leads as (
+    select distinct
+      i.run_id,
+      i.lead_id,
+      lower(i.lead_email)                      as email,
+      r.owner_id,
+      coalesce(r.started_at, r.created_at)     as since,
+      case when jsonb_typeof(r.sequence_config -> 'exitOn') = 'array'
+           then array(select jsonb_array_elements_text(r.sequence_config -> 'exitOn'))
+           else array['replied','unsubscribed','bounced','meeting_booked','converted']
+      end                                      as exit_on
+    from public.email_sequence_run_items i
+    join public.email_sequence_runs r on r.id = i.run_id
+    where i.run_id = any (p_run_ids)
+      and i.lead_id is not null
+      and i.status in ('pending','writing','written')
+  ),
+  reasons as (
+    select
+      o.run_id,
+      o.lead_id,
+      case
+        when 'replied' = any (o.exit_on) and exists (
+          select 1 from public.inbound_emails ib
+          where ib.lead_id = o.lead_id and ib.received_at >= o.since)
+          then 'replied'
+        when 'unsubscribed' = any (o.exit_on) and (
+          exists (select 1 from public.suppressions s
+                  where s.owner_id = o.owner_id and s.email = o.email and s.reason in ('unsub','complaint'))
+          or exists (select 1 from public.email_dlq d join public.email_messages m on m.id = d.message_id
+                     where m.lead_id = o.lead_id and d.kind in ('unsubscribed','spam_complaint')))
+          then 'unsubscribed'
+        when 'bounced' = any (o.exit_on) and (
+          exists (select 1 from public.suppressions s
+                  where s.owner_id = o.owner_id and s.email = o.email and s.reason in ('bounce','invalid'))
+          or exists (select 1 from public.email_dlq d join public.email_messages m on m.id = d.message_id
+                     where m.lead_id = o.lead_id and d.kind = 'hard_bounce'))
+          then 'bounced'
+        when 'meeting_booked' = any (o.exit_on) and exists (
+          select 1 from public.lead_meetings lm
+          where lm.lead_id = o.lead_id and lm.status <> 'cancelled' and lm.created_at >= o.since)
+          then 'meeting_booked'
+        when 'converted' = any (o.exit_on) and exists (
+          select 1 from public.leads l where l.id = o.lead_id and l.status = 'Converted')
+          then 'converted'
+      end as reason
+    from open_leads o
+  ),
+  stopped as (
+    update public.email_sequence_run_items i
+       set status = 'skipped', skip_reason = rs.reason, skipped_at = now(),
+           locked_until = null, updated_at = now()
+      from reasons rs
+     where rs.reason is not null
+       and i.run_id = rs.run_id
+       and i.lead_id = rs.lead_id
+       and i.status in ('pending','writing','written')
+    returning i.run_id, i.lead_id, i.skip_reason
+  )
+  select s.run_id, s.lead_id, min(s.skip_reason), count(*)::int
+  from stopped s
+  group by s.run_id, s.lead_id;
+end;
+$$;
+
+revoke all on function public.stop_exited_sequence_leads(uuid[]) from public;
+grant execute on function public.stop_exited_sequence_leads(uuid[]) to service_role;
+
+-- ── campaign_stopped_leads ────────────────────────────────────────────────
+
+create or replace function public.campaign_stopped_leads(p_campaign_id uuid)
+returns table (lead_id uuid, lead_name text, lead_email text, reason text, stopped_at timestamptz, steps_skipped bigint)
+language sql stable security definer set search_path to 'public' as $$
+  select
+    i.lead_id,
+    max(i.lead_name)   as lead_name,
+    max(i.lead_email)  as lead_email,
+    max(i.skip_reason) as reason,
+    max(i.skipped_at)  as stopped_at,
+    count(*)           as steps_skipped
+  from public.email_sequence_run_items i
+  join public.email_sequence_runs r on r.id = i.run_id
+  where r.owner_id = auth.uid()
+    and r.sequence_config ->> 'campaignId' = p_campaign_id::text
+    and i.status = 'skipped'
+  group by i.lead_id
+  order by max(i.skipped_at) desc;
+$$;
+
+revoke all on function public.campaign_stopped_leads(uuid) from public;
+grant execute on function public.campaign_stopped_leads(uuid) to authenticated;
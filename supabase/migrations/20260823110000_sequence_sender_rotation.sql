@@ -0,0 +1,137 @@
+-- ============================================================================
+-- 20260823110000_sequence_sender_rotation.sql
+-- Sender rotation for sequence sends.
+--
+-- process-sequence-sends passed the run's single from_email / provider for
+-- every item, so one inbox carried a whole campaign. A campaign can now rotate
+-- across a pool of outreach senders (email_sequences.rotate_senders; an empty
+-- sender_pool means every use_for_outreach sender in the workspace).
+-- launchCampaign copies both into sequence_config.senderRotation.
+--
+-- pick_sequence_sender(run, lead) chooses the inbox for a lead's next step:
+--   * Sticky — once a lead has a sender in a run, every later step uses it so
+--     follow-ups stay in one thread. The assignment is stamped on all the
+--     lead's items in the run (email_sequence_run_items.sender_account_id).
+--   * If the sticky sender is at its daily cap, no row is returned and the
+--     item waits for tomorrow rather than switching inbox mid-thread.
+--   * If the sticky sender was disconnected (needs_reauth / disabled) or turned
+--     unhealthy, the lead is moved to another pool sender.
+--   * New leads go to the eligible sender with the lowest sent / cap ratio,
+--     then highest health.
+-- Eligible = connected, use_for_outreach, health_score >= 50 and a 7-day
+-- bounce rate under 5%. "Sent today" is the larger of daily_sent_today and the
+-- sender's email_messages today, because send-email bumps the counter
+-- asynchronously. Idempotent.
+-- ============================================================================
+
+alter table public.email_sequences
+  add column if not exists rotate_senders boolean not null default false,
+  add column if not exists sender_pool    uuid[]  not null default '{}'::uuid[];
+
+alter table public.email_sequence_run_items
+  add column if not exists sender_account_id uuid references public.sender_accounts(id) on delete set null;
+
+create index if not exists idx_esri_run_lead_sender
+  on public.email_sequence_run_items (run_id, lead_id)
+  where sender_account_id is not null;
+
+-- ── _sequence_pool_senders ────────────────────────────────────────────────
+-- Eligible pool senders for a workspace with today's cap and usage.
+
+create or replace function public._sequence_pool_senders(p_workspace_id uuid, p_pool uuid[])
+returns table (id uuid, provider text, from_email text, health int, cap int, sent int)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select sa.id, sa.provider, sa.from_email, coalesce(sa.health_score, 100),
+         public.sender_daily_cap(sa.id),
+         greatest(
+           case when sa.daily_sent_date = current_date then sa.daily_sent_today else 0 end,
+           (select count(*)::int from public.email_messages m
+             where m.sender_account_id = sa.id and m.created_at >= current_date)
+         )
+    from public.sender_accounts sa
+   where sa.workspace_id     = p_workspace_id
+     and sa.status           = 'connected'
+     and sa.use_for_outreach = true
+     and coalesce(sa.health_score, 100) >= 50
+     and coalesce(sa.bounce_rate_7d, 0) < 0.05
+     and (cardinality(p_pool) = 0 or sa.id = any (p_pool));
+$$;
+
+revoke all on function public._sequence_pool_senders(uuid, uuid[]) from public;
+grant execute on function public._sequence_pool_senders(uuid, uuid[]) to service_role;
+
+-- ── pick_sequence_sender ──────────────────────────────────────────────────
+
+create or replace function public.pick_sequence_sender(p_run_id uuid, p_lead_id uuid)
+returns table (
+  sender_id   uuid,
+  provider    text,
+  from_email  text,
+  daily_cap   int,
+  daily_sent  int
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_workspace uuid;
+  v_pool      uuid[];
+  v_sticky    uuid;
+  v_pick      uuid;
+begin
+  select r.workspace_id,
+         case when jsonb_typeof(r.sequence_config -> 'senderRotation' -> 'pool') = 'array'
+              then array(select x::uuid from jsonb_array_elements_text(r.sequence_config -> 'senderRotation' -> 'pool') x)
+              else '{}'::uuid[]
+         end
+    into v_workspace, v_pool
+    from public.email_sequence_runs r
+   where r.id = p_run_id;
+  if v_workspace is null then return; end if;
+
+  select i.sender_account_id into v_sticky
+    from public.email_sequence_run_items i
+   where i.run_id = p_run_id and i.lead_id = p_lead_id and i.sender_account_id is not null
+   order by (i.status = 'sent') asc   -- unsent items carry the current assignment
+   limit 1;
+
+  -- Sticky sender still eligible: use it, or wait while it's at cap.
+  if v_sticky is not null and exists (
+    select 1 from public._sequence_pool_senders(v_workspace, v_pool) p where p.id = v_sticky
+  ) then
+    return query
+      select p.id, p.provider, p.from_email, p.cap, p.sent
+        from public._sequence_pool_senders(v_workspace, v_pool) p
+       where p.id = v_sticky and p.sent < p.cap;
+    return;
+  end if;
+
+  select p.id into v_pick
+    from public._sequence_pool_senders(v_workspace, v_pool) p
+   where p.sent < p.cap
+   order by p.sent::numeric / greatest(p.cap, 1) asc, p.health desc, p.id
+   limit 1;
+  if v_pick is null then return; end if;
+
+  update public.email_sequence_run_items
+     set sender_account_id = v_pick
+   where run_id = p_run_id and lead_id = p_lead_id and status <> 'sent';
+
+  return query
+    select p.id, p.provider, p.from_email, p.cap, p.sent
+      from public._sequence_pool_senders(v_workspace, v_pool) p
+     where p.id = v_pick;
+end;
+$$;
+
+revoke all on function public.pick_sequence_sender(uuid, uuid) from public;
+grant execute on function public.pick_sequence_sender(uuid, uuid) to service_role;
+
+comment on function public.pick_sequence_sender is
+  'Picks (and pins) the outreach sender for a lead in a rotating sequence run. Sticky per (run, lead); no row = wait for capacity.';
@@ -0,0 +1,315 @@
+-- ============================================================================
+-- 20260823120000_inbox_warmup.sql
+-- Inbox warmup engine behind sender_accounts.warmup_enabled.
+--
+-- toggleWarmup only flipped the flag (and sender_daily_cap's 50→500 ramp read
+-- it); no warmup mail was ever sent. process-warmup (invoked every 15 min by
+-- invoke_warmup) now exchanges messages between a workspace's connected
+-- password-based inboxes:
+--
+--   * Each warming sender sends warmup_daily_target(sender) messages a day,
+--     paced across the day, to other inboxes in its workspace. The target
+--     ramps from warmup_start_volume by warmup_daily_increase per day since
+--     warmup_started_at, up to warmup_max_volume.
+--   * The receiving inbox finds the message over IMAP (X-Scaliyo-Warmup
+--     header), records where it landed (inbox / spam / missing after 6h),
+--     moves it out of spam, marks it read + flagged, and replies to
+--     warmup_reply_rate of them in-thread.
+--   * warmup_messages holds every exchange. compute_sender_health now takes
+--     the 7-day inbox placement rate into account (warmup_inbox_rate_7d):
+--     up to -40pt once 10+ messages have been checked, and it scores
+--     warmup-only senders instead of returning 100.
+--
+-- poll-imap-inbox skips X-Scaliyo-Warmup mail so none of it reaches the
+-- unified inbox. Usage is recorded as increment_usage('warmup_sent').
+-- Idempotent.
+-- ============================================================================
+
+-- ── 1. Warmup curve + state on sender_accounts ────────────────────────────
+
+alter table public.sender_accounts
+  add column if not exists warmup_start_volume   int          not null default 5,
+  add column if not exists warmup_daily_increase int          not null default 3,
+  add column if not exists warmup_max_volume     int          not null default 40,
+  add column if not exists warmup_reply_rate     numeric(3,2) not null default 0.30,
+  add column if not exists warmup_started_at     timestamptz,
+  add column if not exists warmup_sent_date      date,
+  add column if not exists warmup_inbox_rate_7d  numeric(5,4);
+
+do $$ begin
+  alter table public.sender_accounts
+    add constraint sender_accounts_warmup_curve_check check (
+      warmup_start_volume   between 1 and 200 and
+      warmup_daily_increase between 0 and 50  and
+      warmup_max_volume     between 1 and 200 and
+      warmup_reply_rate     between 0 and 1
+    );
+exception when duplicate_object then null; end $$;
+
+-- Senders already warming keep their original ramp start.
+update public.sender_accounts
+   set warmup_started_at = coalesce(updated_at, created_at)
+ where warmup_enabled = true and warmup_started_at is null;
+
+comment on column public.sender_accounts.warmup_inbox_rate_7d is
+  'Share of the last 7 days of checked warmup mail from this sender that landed in the inbox. Null until any is checked.';
+
+-- ── 2. warmup_messages ────────────────────────────────────────────────────
+
+create table if not exists public.warmup_messages (
+  id             uuid primary key default gen_random_uuid(),
+  workspace_id   uuid not null references public.profiles(id) on delete cascade,
+  from_sender_id uuid not null references public.sender_accounts(id) on delete cascade,
+  to_sender_id   uuid not null references public.sender_accounts(id) on delete cascade,
+  parent_id      uuid references public.warmup_messages(id) on delete cascade,
+  kind           text not null default 'sent' check (kind in ('sent','reply')),
+  token          text not null unique,                -- X-Scaliyo-Warmup header value
+  message_id     text not null,                       -- RFC 5322 Message-ID (no brackets)
+  subject        text not null,
+  status         text not null default 'sent' check (status in ('sent','failed')),
+  error          text,
+  placement      text check (placement in ('inbox','spam','missing')),
+  rescued        boolean not null default false,      -- moved from spam to inbox
+  sent_at        timestamptz not null default now(),
+  checked_at     timestamptz,
+  replied_at     timestamptz
+);
+
+create index if not exists idx_warmup_messages_to_unchecked
+  on public.warmup_messages (to_sender_id, sent_at)
+  where status = 'sent' and placement is null;
+create index if not exists idx_warmup_messages_from_sent
+  on public.warmup_messages (from_sender_id, sent_at desc);
+
+alter table public.warmup_messages enable row level security;
+
+do $$ begin
+  create policy warmup_messages_select on public.warmup_messages
+    for select using (workspace_id = auth.uid());
+exception when duplicate_object then null; end $$;
+-- Writes are service_role only (process-warmup).
+
+-- ── 3. warmup_daily_target(sender_id) ─────────────────────────────────────
+
+create or replace function public.warmup_daily_target(p_sender_id uuid)
+returns int
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case when not sa.warmup_enabled then 0 else
+           least(sa.warmup_max_volume,
+                 sa.warmup_start_volume + sa.warmup_daily_increase *
+                   greatest(0, current_date - coalesce(sa.warmup_started_at, sa.created_at)::date))
+         end
+    from public.sender_accounts sa
+   where sa.id = p_sender_id;
+$$;
+
+revoke all on function public.warmup_daily_target(uuid) from public;
+grant execute on function public.warmup_daily_target(uuid) to service_role, authenticated;
+
+-- ── 4. warmup_due_senders() ───────────────────────────────────────────────
+-- Warming senders with today's target and how many warmup messages they have
+-- sent today. Only password-based senders take part: process-warmup needs
+-- SMTP to send and IMAP to check placement.
+
+create or replace function public.warmup_due_senders()
+returns table (sender_id uuid, workspace_id uuid, target int, sent_today int, reply_rate numeric)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select sa.id, sa.workspace_id, public.warmup_daily_target(sa.id),
+         (select count(*)::int from public.warmup_messages w
+           where w.from_sender_id = sa.id and w.kind = 'sent' and w.sent_at >= current_date),
+         sa.warmup_reply_rate
+    from public.sender_accounts sa
+    join public.sender_account_secrets s on s.sender_account_id = sa.id
+   where sa.warmup_enabled = true
+     and sa.status = 'connected'
+     and s.smtp_pass is not null;
+$$;
+
+revoke all on function public.warmup_due_senders() from public;
+grant execute on function public.warmup_due_senders() to service_role;
+
+-- ── 5. record_warmup_sent(sender_id, token) ───────────────────────────────
+
+create or replace function public.record_warmup_sent(p_sender_id uuid, p_token text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_workspace uuid;
+begin
+  update public.sender_accounts
+     set warmup_daily_sent = case when warmup_sent_date = current_date then warmup_daily_sent + 1 else 1 end,
+         warmup_sent_date  = current_date
+   where id = p_sender_id
+  returning workspace_id into v_workspace;
+  if v_workspace is null then return; end if;
+
+  perform public.increment_usage(v_workspace, 'warmup_sent', 'warmup:' || p_token, 1, p_sender_id, '{}'::jsonb);
+end;
+$$;
+
+revoke all on function public.record_warmup_sent(uuid, text) from public;
+grant execute on function public.record_warmup_sent(uuid, text) to service_role;
+
+-- ── 6. compute_sender_health — inbox placement penalty ────────────────────
+--
+-- Same formula as 20260508300000, plus
+--   - (1 - inbox_rate_7d) * 40   once >= 10 warmup messages were checked
+-- A sender with warmup placement data but no outreach sends is scored on
+-- placement alone instead of returning 100.
+
+create or replace function public.compute_sender_health(p_sender_id uuid)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sent             int;
+  v_bounces          int := 0;
+  v_complaints       int := 0;
+  v_consec           int;
+  v_account_age_days numeric;
+  v_bounce_rate      numeric(5,4) := 0;
+  v_complaint_rate   numeric(5,4) := 0;
+  v_checked          int;
+  v_inboxed          int;
+  v_inbox_rate       numeric(5,4);
+  v_score            int;
+begin
+  select extract(epoch from (now() - created_at)) / 86400.0,
+         coalesce(consecutive_failures, 0)
+    into v_account_age_days, v_consec
+    from public.sender_accounts where id = p_sender_id;
+  if v_account_age_days is null then
+    return null;
+  end if;
+
+  -- Sent in last 7 days for this sender
+  select count(*)
+    into v_sent
+    from public.email_messages em
+    where em.sender_account_id = p_sender_id
+      and em.created_at >= now() - interval '7 days'
+      and em.status in ('sent','delivered','bounced','failed');
+
+  -- Warmup placement in last 7 days (rescued-from-spam counts as spam)
+  select count(*) filter (where w.placement is not null),
+         count(*) filter (where w.placement = 'inbox')
+    into v_checked, v_inboxed
+    from public.warmup_messages w
+    where w.from_sender_id = p_sender_id
+      and w.sent_at >= now() - interval '7 days';
+  v_inbox_rate := case when v_checked > 0 then round(v_inboxed::numeric / v_checked, 4) end;
+
+  if v_sent = 0 and v_checked < 10 then
+    -- No data → leave score at 100; mark check time.
+    update public.sender_accounts
+       set last_health_check_at = now(),
+           bounce_rate_7d = 0,
+           complaint_rate_7d = 0,
+           warmup_inbox_rate_7d = v_inbox_rate
+     where id = p_sender_id;
+    return 100;
+  end if;
+
+  if v_sent > 0 then
+    -- Bounces and spam complaints from event log
+    select
+      count(*) filter (where ee.event_type = 'bounced'),
+      count(*) filter (where ee.event_type = 'spam_report')
+      into v_bounces, v_complaints
+      from public.email_events ee
+      join public.email_messages em on em.id = ee.message_id
+      where em.sender_account_id = p_sender_id
+        and em.created_at >= now() - interval '7 days';
+
+    v_bounce_rate    := round(v_bounces::numeric    / nullif(v_sent, 0), 4);
+    v_complaint_rate := round(v_complaints::numeric / nullif(v_sent, 0), 4);
+  end if;
+
+  v_score := 100
+    - round(v_bounce_rate    * 200)
+    - round(v_complaint_rate * 5000)
+    - (v_consec * 5);
+
+  if v_checked >= 10 then
+    v_score := v_score - round((1 - v_inbox_rate) * 40);
+  end if;
+
+  -- Probationary cap for new senders (<7 days of history).
+  if v_account_age_days < 7 then
+    v_score := least(v_score, 95);
+  end if;
+
+  v_score := greatest(0, least(100, v_score));
+
+  update public.sender_accounts
+     set health_score         = v_score,
+         bounce_rate_7d       = v_bounce_rate,
+         complaint_rate_7d    = v_complaint_rate,
+         warmup_inbox_rate_7d = v_inbox_rate,
+         last_health_check_at = now()
+   where id = p_sender_id;
+
+  return v_score;
+exception when others then
+  raise warning 'compute_sender_health failed for %: % %', p_sender_id, sqlstate, sqlerrm;
+  return null;
+end;
+$$;
+
+revoke all on function public.compute_sender_health(uuid) from public;
+grant execute on function public.compute_sender_health(uuid) to service_role;
+
+comment on function public.compute_sender_health is
+  'Recomputes health_score, bounce_rate_7d, complaint_rate_7d and warmup_inbox_rate_7d from the last 7 days of email_messages, email_events and warmup_messages. Returns the new score.';
+
+-- ── 7. Cron: invoke-warmup ────────────────────────────────────────────────
+
+create or replace function public.invoke_warmup()
+returns bigint language plpgsql security definer set search_path to 'public', 'vault' as $$
+declare
+  v_url    text := 'https://utvydxqiqedaaxmmpfpf.functions.supabase.co/process-warmup';
+  v_token  text;
+  v_req_id bigint;
+begin
+  if not exists (select 1 from public.sender_accounts where warmup_enabled = true and status = 'connected')
+     and not exists (select 1 from public.warmup_messages
+                     where status = 'sent' and placement is null and sent_at > now() - interval '2 days') then
+    return null;
+  end if;
+
+  v_token := nullif(current_setting('app.settings.service_role_key', true), '');
+  if v_token is null then
+    select decrypted_secret into v_token from vault.decrypted_secrets where name = 'webhook_dispatcher_service_key' limit 1;
+  end if;
+  if v_token is null or v_token = '' then
+    raise warning 'invoke_warmup: no service-role token — skipping'; return null;
+  end if;
+
+  select net.http_post(
+    url     := v_url,
+    headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer ' || v_token),
+    body    := '{}'::jsonb,
+    timeout_milliseconds := 120000
+  ) into v_req_id;
+  return v_req_id;
+end;
+$$;
+
+revoke all on function public.invoke_warmup() from public;
+grant execute on function public.invoke_warmup() to service_role;
+
+do $$ begin perform cron.unschedule('invoke-warmup'); exception when others then null; end $$;
+select cron.schedule('invoke-warmup', '*/15 * * * *', 'select public.invoke_warmup();');
@@ -0,0 +1,433 @@
+-- ============================================================================
+-- 20260823130000_lead_timezones.sql
+-- Per-lead timezone send scheduling for sequences.
+--
+-- process-sequence-sends checked the send window in the campaign's single
+-- send_timezone and compared best_send_hour with the UTC hour, so a campaign
+-- to US and APAC leads landed at 3am for half the list. Each lead now has a
+-- local zone:
+--
+--   leads.timezone           manual override (IANA name), set from the lead
+--                            profile or the API; wins over inference
+--   leads.inferred_timezone  maintained by trg_leads_infer_timezone from, in
+--                            order: location, phone prefix (country code, NANP
+--                            area code), then enrichment (knowledgeBase.location)
+--
+-- Inference is table-driven (timezone_hints) so every launch path — campaigns,
+-- quick launch, goals, the public API — sees the same answer without a client
+-- or Deno copy of the lookup tables. start-email-sequence-run stamps
+-- coalesce(timezone, inferred_timezone) on each run item (lead_timezone).
+-- process-sequence-sends checks best_send_hour in that zone, and the send
+-- window too while the campaign has send_in_lead_timezone on (the default),
+-- falling back to the campaign zone for leads nobody could place.
+--
+-- best_send_hour is now learned in the item's lead_timezone (UTC when unknown),
+-- so relearn_best_send_hours buckets opens per zone. Items launched before this
+-- migration have no lead_timezone and keep their UTC hour. Idempotent.
+-- ============================================================================
+
+-- ── 1. Columns ────────────────────────────────────────────────────────────
+
+alter table public.leads
+  add column if not exists timezone                 text,
+  add column if not exists inferred_timezone        text,
+  add column if not exists inferred_timezone_source text
+    check (inferred_timezone_source in ('location','phone','enrichment'));
+
+comment on column public.leads.timezone is
+  'Manual timezone override (IANA name). Null = use inferred_timezone.';
+
+alter table public.email_sequences
+  add column if not exists send_in_lead_timezone boolean not null default true;
+
+alter table public.email_sequence_run_items
+  add column if not exists lead_timezone text;
+
+-- ── 2. timezone_hints ─────────────────────────────────────────────────────
+-- kind: city / region / country match whole words of a lowercased location;
+-- region_code matches a ", XX" US/CA state code; dial_code / area_code match
+-- phone digits. Reference data — readable by everyone, written by migrations.
+
+create table if not exists public.timezone_hints (
+  kind     text not null check (kind in ('city','region','region_code','country','dial_code','area_code')),
+  pattern  text not null,
+  timezone text not null,
+  primary key (kind, pattern)
+);
+
+alter table public.timezone_hints enable row level security;
+
+do $$ begin
+  create policy timezone_hints_select on public.timezone_hints for select using (true);
+exception when duplicate_object then null; end $$;
+
+insert into public.timezone_hints (kind, pattern, timezone)
+select v.kind, v.pattern, v.timezone from (values
+  -- Cities
+  ('city','new york','America/New_York'), ('city','nyc','America/New_York'), ('city','brooklyn','America/New_York'),
+  ('city','boston','America/New_York'), ('city','philadelphia','America/New_York'), ('city','washington d c','America/New_York'),
+  ('city','washington dc','America/New_York'), ('city','miami','America/New_York'), ('city','atlanta','America/New_York'),
+  ('city','charlotte','America/New_York'), ('city','pittsburgh','America/New_York'), ('city','detroit','America/Detroit'),
+  ('city','orlando','America/New_York'), ('city','tampa','America/New_York'), ('city','raleigh','America/New_York'),
+  ('city','chicago','America/Chicago'), ('city','dallas','America/Chicago'), ('city','houston','America/Chicago'),
+  ('city','austin','America/Chicago'), ('city','san antonio','America/Chicago'), ('city','minneapolis','America/Chicago'),
+  ('city','nashville','America/Chicago'), ('city','st louis','America/Chicago'), ('city','kansas city','America/Chicago'),
+  ('city','new orleans','America/Chicago'), ('city','milwaukee','America/Chicago'),
+  ('city','denver','America/Denver'), ('city','boulder','America/Denver'), ('city','salt lake city','America/Denver'),
+  ('city','phoenix','America/Phoenix'), ('city','scottsdale','America/Phoenix'), ('city','tucson','America/Phoenix'),
+  ('city','los angeles','America/Los_Angeles'), ('city','san francisco','America/Los_Angeles'), ('city','bay area','America/Los_Angeles'),
+  ('city','san jose','America/Los_Angeles'), ('city','palo alto','America/Los_Angeles'), ('city','silicon valley','America/Los_Angeles'),
+  ('city','san diego','America/Los_Angeles'), ('city','seattle','America/Los_Angeles'), ('city','portland','America/Los_Angeles'),
+  ('city','las vegas','America/Los_Angeles'), ('city','honolulu','Pacific/Honolulu'), ('city','anchorage','America/Anchorage'),
+  ('city','toronto','America/Toronto'), ('city','montreal','America/Toronto'), ('city','ottawa','America/Toronto'),
+  ('city','vancouver','America/Vancouver'), ('city','calgary','America/Edmonton'), ('city','edmonton','America/Edmonton'),
+  ('city','winnipeg','America/Winnipeg'), ('city','mexico city','America/Mexico_City'), ('city','sao paulo','America/Sao_Paulo'),
+  ('city','rio de janeiro','America/Sao_Paulo'), ('city','buenos aires','America/Argentina/Buenos_Aires'), ('city','bogota','America/Bogota'),
+  ('city','lima','America/Lima'), ('city','santiago','America/Santiago'),
+  ('city','london','Europe/London'), ('city','manchester','Europe/London'), ('city','edinburgh','Europe/London'),
+  ('city','dublin','Europe/Dublin'), ('city','paris','Europe/Paris'), ('city','berlin','Europe/Berlin'),
+  ('city','munich','Europe/Berlin'), ('city','hamburg','Europe/Berlin'), ('city','frankfurt','Europe/Berlin'),
+  ('city','amsterdam','Europe/Amsterdam'), ('city','brussels','Europe/Brussels'), ('city','madrid','Europe/Madrid'),
+  ('city','barcelona','Europe/Madrid'), ('city','lisbon','Europe/Lisbon'), ('city','rome','Europe/Rome'),
+  ('city','milan','Europe/Rome'), ('city','zurich','Europe/Zurich'), ('city','geneva','Europe/Zurich'),
+  ('city','vienna','Europe/Vienna'), ('city','stockholm','Europe/Stockholm'), ('city','oslo','Europe/Oslo'),
+  ('city','copenhagen','Europe/Copenhagen'), ('city','helsinki','Europe/Helsinki'), ('city','warsaw','Europe/Warsaw'),
+  ('city','prague','Europe/Prague'), ('city','istanbul','Europe/Istanbul'), ('city','moscow','Europe/Moscow'),
+  ('city','tel aviv','Asia/Jerusalem'), ('city','dubai','Asia/Dubai'), ('city','abu dhabi','Asia/Dubai'),
+  ('city','riyadh','Asia/Riyadh'), ('city','cairo','Africa/Cairo'), ('city','lagos','Africa/Lagos'),
+  ('city','nairobi','Africa/Nairobi'), ('city','johannesburg','Africa/Johannesburg'), ('city','cape town','Africa/Johannesburg'),
+  ('city','mumbai','Asia/Kolkata'), ('city','bangalore','Asia/Kolkata'), ('city','bengaluru','Asia/Kolkata'),
+  ('city','delhi','Asia/Kolkata'), ('city','new delhi','Asia/Kolkata'), ('city','hyderabad','Asia/Kolkata'),
+  ('city','chennai','Asia/Kolkata'), ('city','pune','Asia/Kolkata'), ('city','karachi','Asia/Karachi'),
+  ('city','lahore','Asia/Karachi'), ('city','islamabad','Asia/Karachi'), ('city','dhaka','Asia/Dhaka'),
+  ('city','singapore','Asia/Singapore'), ('city','kuala lumpur','Asia/Kuala_Lumpur'), ('city','jakarta','Asia/Jakarta'),
+  ('city','manila','Asia/Manila'), ('city','bangkok','Asia/Bangkok'), ('city','ho chi minh','Asia/Ho_Chi_Minh'),
+  ('city','hong kong','Asia/Hong_Kong'), ('city','shanghai','Asia/Shanghai'), ('city','beijing','Asia/Shanghai'),
+  ('city','shenzhen','Asia/Shanghai'), ('city','taipei','Asia/Taipei'), ('city','tokyo','Asia/Tokyo'),
+  ('city','osaka','Asia/Tokyo'), ('city','seoul','Asia/Seoul'), ('city','sydney','Australia/Sydney'),
+  ('city','melbourne','Australia/Melbourne'), ('city','brisbane','Australia/Brisbane'), ('city','perth','Australia/Perth'),
+  ('city','adelaide','Australia/Adelaide'), ('city','auckland','Pacific/Auckland'), ('city','wellington','Pacific/Auckland'),
+  -- US states / Canadian provinces (full names)
+  ('region','alabama','America/Chicago'), ('region','alaska','America/Anchorage'), ('region','arizona','America/Phoenix'),
+  ('region','arkansas','America/Chicago'), ('region','california','America/Los_Angeles'), ('region','colorado','America/Denver'),
+  ('region','connecticut','America/New_York'), ('region','delaware','America/New_York'), ('region','florida','America/New_York'),
+  ('region','georgia','America/New_York'), ('region','hawaii','Pacific/Honolulu'), ('region','idaho','America/Boise'),
+  ('region','illinois','America/Chicago'), ('region','indiana','America/Indiana/Indianapolis'), ('region','iowa','America/Chicago'),
+  ('region','kansas','America/Chicago'), ('region','kentucky','America/New_York'), ('region','louisiana','America/Chicago'),
+  ('region','maine','America/New_York'), ('region','maryland','America/New_York'), ('region','massachusetts','America/New_York'),
+  ('region','michigan','America/Detroit'), ('region','minnesota','America/Chicago'), ('region','mississippi','America/Chicago'),
+  ('region','missouri','America/Chicago'), ('region','montana','America/Denver'), ('region','nebraska','America/Chicago'),
+  ('region','nevada','America/Los_Angeles'), ('region','new hampshire','America/New_York'), ('region','new jersey','America/New_York'),
+  ('region','new mexico','America/Denver'), ('region','north carolina','America/New_York'), ('region','north dakota','America/Chicago'),
+  ('region','ohio','America/New_York'), ('region','oklahoma','America/Chicago'), ('region','oregon','America/Los_Angeles'),
+  ('region','pennsylvania','America/New_York'), ('region','rhode island','America/New_York'), ('region','south carolina','America/New_York'),
+  ('region','south dakota','America/Chicago'), ('region','tennessee','America/Chicago'), ('region','texas','America/Chicago'),
+  ('region','utah','America/Denver'), ('region','vermont','America/New_York'), ('region','virginia','America/New_York'),
+  ('region','washington','America/Los_Angeles'), ('region','west virginia','America/New_York'), ('region','wisconsin','America/Chicago'),
+  ('region','wyoming','America/Denver'), ('region','ontario','America/Toronto'), ('region','quebec','America/Toronto'),
+  ('region','british columbia','America/Vancouver'), ('region','alberta','America/Edmonton'), ('region','manitoba','America/Winnipeg'),
+  ('region','nova scotia','America/Halifax'),
+  -- State / province codes after a comma ("Austin, TX")
+  ('region_code','AL','America/Chicago'), ('region_code','AK','America/Anchorage'), ('region_code','AZ','America/Phoenix'),
+  ('region_code','AR','America/Chicago'), ('region_code','CA','America/Los_Angeles'), ('region_code','CO','America/Denver'),
+  ('region_code','CT','America/New_York'), ('region_code','DC','America/New_York'), ('region_code','DE','America/New_York'),
+  ('region_code','FL','America/New_York'), ('region_code','GA','America/New_York'), ('region_code','HI','Pacific/Honolulu'),
+  ('region_code','ID','America/Boise'), ('region_code','IL','America/Chicago'), ('region_code','IN','America/Indiana/Indianapolis'),
+  ('region_code','IA','America/Chicago'), ('region_code','KS','America/Chicago'), ('region_code','KY','America/New_York'),
+  ('region_code','LA','America/Chicago'), ('region_code','ME','America/New_York'), ('region_code','MD','America/New_York'),
+  ('region_code','MA','America/New_York'), ('region_code','MI','America/Detroit'), ('region_code','MN','America/Chicago'),
+  ('region_code','MS','America/Chicago'), ('region_code','MO','America/Chicago'), ('region_code','MT','America/Denver'),
+  ('region_code','NE','America/Chicago'), ('region_code','NV','America/Los_Angeles'), ('region_code','NH','America/New_York'),
+  ('region_code','NJ','America/New_York'), ('region_code','NM','America/Denver'), ('region_code','NY','America/New_York'),
+  ('region_code','NC','America/New_York'), ('region_code','ND','America/Chicago'), ('region_code','OH','America/New_York'),
+  ('region_code','OK','America/Chicago'), ('region_code','OR','America/Los_Angeles'), ('region_code','PA','America/New_York'),
+  ('region_code','RI','America/New_York'), ('region_code','SC','America/New_York'), ('region_code','SD','America/Chicago'),
+  ('region_code','TN','America/Chicago'), ('region_code','TX','America/Chicago'), ('region_code','UT','America/Denver'),
+  ('region_code','VT','America/New_York'), ('region_code','VA','America/New_York'), ('region_code','WA','America/Los_Angeles'),
+  ('region_code','WV','America/New_York'), ('region_code','WI','America/Chicago'), ('region_code','WY','America/Denver'),
+  ('region_code','ON','America/Toronto'), ('region_code','QC','America/Toronto'), ('region_code','BC','America/Vancouver'),
+  ('region_code','AB','America/Edmonton'), ('region_code','MB','America/Winnipeg'), ('region_code','NS','America/Halifax'),
+  -- Countries (multi-zone countries map to their most populous zone)
+  ('country','united states','America/New_York'), ('country','usa','America/New_York'), ('country','canada','America/Toronto'),
+  ('country','mexico','America/Mexico_City'), ('country','brazil','America/Sao_Paulo'), ('country','argentina','America/Argentina/Buenos_Aires'),
+  ('country','colombia','America/Bogota'), ('country','chile','America/Santiago'), ('country','peru','America/Lima'),
+  ('country','united kingdom','Europe/London'), ('country','uk','Europe/London'), ('country','england','Europe/London'),
+  ('country','scotland','Europe/London'), ('country','wales','Europe/London'), ('country','ireland','Europe/Dublin'),
+  ('country','france','Europe/Paris'), ('country','germany','Europe/Berlin'), ('country','deutschland','Europe/Berlin'),
+  ('country','netherlands','Europe/Amsterdam'), ('country','belgium','Europe/Brussels'), ('country','spain','Europe/Madrid'),
+  ('country','portugal','Europe/Lisbon'), ('country','italy','Europe/Rome'), ('country','switzerland','Europe/Zurich'),
+  ('country','austria','Europe/Vienna'), ('country','sweden','Europe/Stockholm'), ('country','norway','Europe/Oslo'),
+  ('country','denmark','Europe/Copenhagen'), ('country','finland','Europe/Helsinki'), ('country','poland','Europe/Warsaw'),
+  ('country','czech republic','Europe/Prague'), ('country','czechia','Europe/Prague'), ('country','turkey','Europe/Istanbul'),
+  ('country','russia','Europe/Moscow'), ('country','israel','Asia/Jerusalem'), ('country','united arab emirates','Asia/Dubai'),
+  ('country','uae','Asia/Dubai'), ('country','saudi arabia','Asia/Riyadh'), ('country','egypt','Africa/Cairo'),
+  ('country','nigeria','Africa/Lagos'), ('country','kenya','Africa/Nairobi'), ('country','south africa','Africa/Johannesburg'),
+  ('country','india','Asia/Kolkata'), ('country','pakistan','Asia/Karachi'), ('country','bangladesh','Asia/Dhaka'),
+  ('country','sri lanka','Asia/Colombo'), ('country','malaysia','Asia/Kuala_Lumpur'), ('country','indonesia','Asia/Jakarta'),
+  ('country','philippines','Asia/Manila'), ('country','thailand','Asia/Bangkok'), ('country','vietnam','Asia/Ho_Chi_Minh'),
+  ('country','china','Asia/Shanghai'), ('country','taiwan','Asia/Taipei'), ('country','japan','Asia/Tokyo'),
+  ('country','south korea','Asia/Seoul'), ('country','korea','Asia/Seoul'), ('country','australia','Australia/Sydney'),
+  ('country','new zealand','Pacific/Auckland'),
+  -- Country calling codes
+  ('dial_code','1','America/New_York'), ('dial_code','7','Europe/Moscow'), ('dial_code','20','Africa/Cairo'),
+  ('dial_code','27','Africa/Johannesburg'), ('dial_code','30','Europe/Athens'), ('dial_code','31','Europe/Amsterdam'),
+  ('dial_code','32','Europe/Brussels'), ('dial_code','33','Europe/Paris'), ('dial_code','34','Europe/Madrid'),
+  ('dial_code','36','Europe/Budapest'), ('dial_code','39','Europe/Rome'), ('dial_code','40','Europe/Bucharest'),
+  ('dial_code','41','Europe/Zurich'), ('dial_code','43','Europe/Vienna'), ('dial_code','44','Europe/London'),
+  ('dial_code','45','Europe/Copenhagen'), ('dial_code','46','Europe/Stockholm'), ('dial_code','47','Europe/Oslo'),
+  ('dial_code','48','Europe/Warsaw'), ('dial_code','49','Europe/Berlin'), ('dial_code','51','America/Lima'),
+  ('dial_code','52','America/Mexico_City'), ('dial_code','54','America/Argentina/Buenos_Aires'), ('dial_code','55','America/Sao_Paulo'),
+  ('dial_code','56','America/Santiago'), ('dial_code','57','America/Bogota'), ('dial_code','60','Asia/Kuala_Lumpur'),
+  ('dial_code','61','Australia/Sydney'), ('dial_code','62','Asia/Jakarta'), ('dial_code','63','Asia/Manila'),
+  ('dial_code','64','Pacific/Auckland'), ('dial_code','65','Asia/Singapore'), ('dial_code','66','Asia/Bangkok'),
+  ('dial_code','81','Asia/Tokyo'), ('dial_code','82','Asia/Seoul'), ('dial_code','84','Asia/Ho_Chi_Minh'),
+  ('dial_code','86','Asia/Shanghai'), ('dial_code','90','Europe/Istanbul'), ('dial_code','91','Asia/Kolkata'),
+  ('dial_code','92','Asia/Karachi'), ('dial_code','94','Asia/Colombo'), ('dial_code','234','Africa/Lagos'),
+  ('dial_code','254','Africa/Nairobi'), ('dial_code','351','Europe/Lisbon'), ('dial_code','353','Europe/Dublin'),
+  ('dial_code','358','Europe/Helsinki'), ('dial_code','420','Europe/Prague'), ('dial_code','852','Asia/Hong_Kong'),
+  ('dial_code','880','Asia/Dhaka'), ('dial_code','886','Asia/Taipei'), ('dial_code','966','Asia/Riyadh'),
+  ('dial_code','971','Asia/Dubai'), ('dial_code','972','Asia/Jerusalem'),
+  -- NANP area codes outside US Eastern (everything else under +1 falls back to dial_code 1)
+  ('area_code','206','America/Los_Angeles'), ('area_code','213','America/Los_Angeles'), ('area_code','253','America/Los_Angeles'),
+  ('area_code','310','America/Los_Angeles'), ('area_code','323','America/Los_Angeles'), ('area_code','360','America/Los_Angeles'),
+  ('area_code','408','America/Los_Angeles'), ('area_code','415','America/Los_Angeles'), ('area_code','424','America/Los_Angeles'),
+  ('area_code','425','America/Los_Angeles'), ('area_code','503','America/Los_Angeles'), ('area_code','510','America/Los_Angeles'),
+  ('area_code','530','America/Los_Angeles'), ('area_code','541','America/Los_Angeles'), ('area_code','559','America/Los_Angeles'),
+  ('area_code','562','America/Los_Angeles'), ('area_code','619','America/Los_Angeles'), ('area_code','626','America/Los_Angeles'),
+  ('area_code','628','America/Los_Angeles'), ('area_code','650','America/Los_Angeles'), ('area_code','657','America/Los_Angeles'),
+  ('area_code','661','America/Los_Angeles'), ('area_code','669','America/Los_Angeles'), ('area_code','702','America/Los_Angeles'),
+  ('area_code','707','America/Los_Angeles'), ('area_code','714','America/Los_Angeles'), ('area_code','725','America/Los_Angeles'),
+  ('area_code','747','America/Los_Angeles'), ('area_code','760','America/Los_Angeles'), ('area_code','775','America/Los_Angeles'),
+  ('area_code','805','America/Los_Angeles'), ('area_code','818','America/Los_Angeles'), ('area_code','831','America/Los_Angeles'),
+  ('area_code','858','America/Los_Angeles'), ('area_code','909','America/Los_Angeles'), ('area_code','916','America/Los_Angeles'),
+  ('area_code','925','America/Los_Angeles'), ('area_code','949','America/Los_Angeles'), ('area_code','951','America/Los_Angeles'),
+  ('area_code','971','America/Los_Angeles'), ('area_code','604','America/Vancouver'), ('area_code','778','America/Vancouver'),
+  ('area_code','208','America/Boise'), ('area_code','303','America/Denver'), ('area_code','307','America/Denver'),
+  ('area_code','385','America/Denver'), ('area_code','406','America/Denver'), ('area_code','435','America/Denver'),
+  ('area_code','505','America/Denver'), ('area_code','575','America/Denver'), ('area_code','719','America/Denver'),
+  ('area_code','720','America/Denver'), ('area_code','801','America/Denver'), ('area_code','970','America/Denver'),
+  ('area_code','403','America/Edmonton'), ('area_code','587','America/Edmonton'), ('area_code','780','America/Edmonton'),
+  ('area_code','480','America/Phoenix'), ('area_code','520','America/Phoenix'), ('area_code','602','America/Phoenix'),
+  ('area_code','623','America/Phoenix'), ('area_code','928','America/Phoenix'),
+  ('area_code','205','America/Chicago'), ('area_code','210','America/Chicago'), ('area_code','214','America/Chicago'),
+  ('area_code','224','America/Chicago'), ('area_code','225','America/Chicago'), ('area_code','262','America/Chicago'),
+  ('area_code','281','America/Chicago'), ('area_code','312','America/Chicago'), ('area_code','314','America/Chicago'),
+  ('area_code','316','America/Chicago'), ('area_code','319','America/Chicago'), ('area_code','346','America/Chicago'),
+  ('area_code','402','America/Chicago'), ('area_code','405','America/Chicago'), ('area_code','414','America/Chicago'),
+  ('area_code','469','America/Chicago'), ('area_code','479','America/Chicago'), ('area_code','501','America/Chicago'),
+  ('area_code','504','America/Chicago'), ('area_code','507','America/Chicago'), ('area_code','512','America/Chicago'),
+  ('area_code','515','America/Chicago'), ('area_code','601','America/Chicago'), ('area_code','608','America/Chicago'),
+  ('area_code','612','America/Chicago'), ('area_code','615','America/Chicago'), ('area_code','618','America/Chicago'),
+  ('area_code','630','America/Chicago'), ('area_code','636','America/Chicago'), ('area_code','651','America/Chicago'),
+  ('area_code','682','America/Chicago'), ('area_code','708','America/Chicago'), ('area_code','713','America/Chicago'),
+  ('area_code','737','America/Chicago'), ('area_code','763','America/Chicago'), ('area_code','773','America/Chicago'),
+  ('area_code','815','America/Chicago'), ('area_code','816','America/Chicago'), ('area_code','817','America/Chicago'),
+  ('area_code','832','America/Chicago'), ('area_code','847','America/Chicago'), ('area_code','872','America/Chicago'),
+  ('area_code','901','America/Chicago'), ('area_code','913','America/Chicago'), ('area_code','918','America/Chicago'),
+  ('area_code','920','America/Chicago'), ('area_code','952','America/Chicago'), ('area_code','972','America/Chicago'),
+  ('area_code','204','America/Winnipeg'), ('area_code','907','America/Anchorage'), ('area_code','808','Pacific/Honolulu'),
+  ('area_code','902','America/Halifax')
+) as v(kind, pattern, timezone)
+on conflict (kind, pattern) do update set timezone = excluded.timezone;
+
+-- ── 3. infer_lead_timezone ────────────────────────────────────────────────
+
+-- Cities beat ", XX" state codes, which beat state and country names:
+-- "Paris, France" → Paris, "Springfield, IL" → Chicago, "Ohio, USA" → Ohio.
+create or replace function public._timezone_from_place(p_place text)
+returns text
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_words text := ' ' || trim(regexp_replace(lower(coalesce(p_place, '')), '[^a-z]+', ' ', 'g')) || ' ';
+  v_code  text := (regexp_match(coalesce(p_place, ''), ',\s*([A-Z]{2})\M'))[1];
+  v_tz    text;
+begin
+  if trim(v_words) = '' then return null; end if;
+
+  select h.timezone into v_tz from public.timezone_hints h
+   where h.kind = 'city' and v_words like '% ' || h.pattern || ' %'
+   order by length(h.pattern) desc limit 1;
+  if v_tz is not null then return v_tz; end if;
+
+  if v_code is not null then
+    select h.timezone into v_tz from public.timezone_hints h
+     where h.kind = 'region_code' and h.pattern = v_code;
+    if v_tz is not null then return v_tz; end if;
+  end if;
+
+  select h.timezone into v_tz from public.timezone_hints h
+   where h.kind in ('region','country') and v_words like '% ' || h.pattern || ' %'
+   order by (h.kind = 'region') desc, length(h.pattern) desc limit 1;
+  return v_tz;
+end;
+$$;
+
+-- +CC… / 00CC… numbers by calling code. Numbers without one are only placed
+-- when they look like NANP (10 digits, or 11 starting with 1) — by area code,
+-- defaulting to US Eastern.
+create or replace function public._timezone_from_phone(p_phone text)
+returns text
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_raw    text := trim(coalesce(p_phone, ''));
+  v_digits text := regexp_replace(coalesce(p_phone, ''), '\D', '', 'g');
+  v_tz     text;
+begin
+  if length(v_digits) < 7 then return null; end if;
+
+  if v_raw like '+%' then
+    null;
+  elsif v_digits like '00%' then
+    v_digits := substr(v_digits, 3);
+  elsif length(v_digits) = 10 then
+    v_digits := '1' || v_digits;
+  elsif not (length(v_digits) = 11 and v_digits like '1%') then
+    return null;
+  end if;
+
+  if v_digits like '1%' then
+    if length(v_digits) = 11 then
+      select h.timezone into v_tz from public.timezone_hints h
+       where h.kind = 'area_code' and h.pattern = substr(v_digits, 2, 3);
+    end if;
+    return coalesce(v_tz, 'America/New_York');
+  end if;
+
+  select h.timezone into v_tz from public.timezone_hints h
+   where h.kind = 'dial_code' and v_digits like h.pattern || '%'
+   order by length(h.pattern) desc
+   limit 1;
+  return v_tz;
+end;
+$$;
+
+create or replace function public.infer_lead_timezone(
+  p_location            text,
+  p_phones              text[],
+  p_enrichment_location text
+)
+returns table (timezone text, source text)
+language plpgsql
+stable
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_tz    text;
+  v_phone text;
+begin
+  v_tz := public._timezone_from_place(p_location);
+  if v_tz is not null then return query select v_tz, 'location'; return; end if;
+
+  foreach v_phone in array coalesce(p_phones, '{}'::text[]) loop
+    v_tz := public._timezone_from_phone(v_phone);
+    if v_tz is not null then return query select v_tz, 'phone'; return; end if;
+  end loop;
+
+  v_tz := public._timezone_from_place(p_enrichment_location);
+  if v_tz is not null then return query select v_tz, 'enrichment'; return; end if;
+end;
+$$;
+
+grant execute on function public.infer_lead_timezone(text, text[], text) to authenticated, service_role;
+
+-- ── 4. Keep leads.inferred_timezone current ───────────────────────────────
+
+create or replace function public.leads_infer_timezone()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  select t.timezone, t.source
+    into new.inferred_timezone, new.inferred_timezone_source
+    from public.infer_lead_timezone(
+      new.location,
+      array_remove(array[new.primary_phone, new.phone, new."knowledgeBase" ->> 'phone'] || coalesce(new.phones, '{}'::text[]), null),
+      new."knowledgeBase" ->> 'location'
+    ) t;
+  if not found then
+    new.inferred_timezone := null;
+    new.inferred_timezone_source := null;
+  end if;
+  -- Drop an override Postgres doesn't recognise rather than fail sends later.
+  if new.timezone is not null and not exists (select 1 from pg_timezone_names where name = new.timezone) then
+    new.timezone := null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_leads_infer_timezone on public.leads;
+create trigger trg_leads_infer_timezone
+  before insert or update of location, primary_phone, phone, phones, "knowledgeBase", timezone on public.leads
+  for each row execute function public.leads_infer_timezone();
+
+-- Backfill (only rows that can be placed).
+update public.leads l
+   set inferred_timezone = t.timezone, inferred_timezone_source = t.source
+  from public.leads src
+  cross join lateral public.infer_lead_timezone(
+    src.location,
+    array_remove(array[src.primary_phone, src.phone, src."knowledgeBase" ->> 'phone'] || coalesce(src.phones, '{}'::text[]), null),
+    src."knowledgeBase" ->> 'location'
+  ) t
+ where l.id = src.id
+   and l.inferred_timezone is distinct from t.timezone;
+
+-- ── 5. relearn_best_send_hours — in the lead's zone ───────────────────────
+
+create or replace function public.relearn_best_send_hours()
+returns integer
+language plpgsql
+security definer
+set search_path to 'public'
+as $$
+declare
+  v_updated integer;
+begin
+  with targets as (
+    select distinct it.lead_id, coalesce(it.lead_timezone, 'UTC') as tz
+    from public.email_sequence_run_items it
+    join public.email_sequence_runs r on r.id = it.run_id
+    where r.status = 'processing'
+      and coalesce((r.sequence_config->>'sendBestTime')::boolean, false)
+      and it.status in ('pending', 'written')
+      and it.lead_id is not null
+  ),
+  lead_best as (
+    select
+      t.lead_id,
+      t.tz,
+      mode() within group (order by extract(hour from (e.created_at at time zone t.tz))::int) as best_hour
+    from targets t
+    join public.email_messages em on em.lead_id = t.lead_id
+    join public.email_events e on e.message_id = em.id
+    where e.event_type = 'open'
+      and e.created_at > now() - interval '90 days'
+    group by t.lead_id, t.tz
+    having count(*) >= 2
+  )
+  update public.email_sequence_run_items it
+    set best_send_hour = lb.best_hour,
+        updated_at = now()
+  from public.email_sequence_runs r,
+       lead_best lb
+  where it.run_id = r.id
+    and r.status = 'processing'
+    and coalesce((r.sequence_config->>'sendBestTime')::boolean, false)
+    and it.status in ('pending', 'written')
+    and it.lead_id = lb.lead_id
+    and coalesce(it.lead_timezone, 'UTC') = lb.tz
+    and it.best_send_hour is distinct from lb.best_hour;
+
+  get diagnostics v_updated = row_count;
+  return v_updated;
+end;
+$$;
@@ -0,0 +1,89 @@
+-- ============================================================================
+-- 20260823140000_ab_bandit.sql
+-- Thompson-sampling mode for A/B auto-optimize, CTA variants, and
+-- meeting-aware variant stats.
+--
+-- ab-autopause waited for MIN_PER_VARIANT sends, ran a one-sided z-test on
+-- opens/clicks (Apple Mail Privacy Protection inflates opens) and then moved
+-- every unsent item to the winner. Campaigns can now pick:
+--
+--   email_sequences.ab_mode       'ztest'  (unchanged behaviour, default)
+--                                 'bandit' every run re-deals the step's unsent
+--                                          items by Thompson sampling, so traffic
+--                                          shifts gradually while the test runs
+--   email_sequences.ab_objective  what the bandit optimizes: 'reply' (an
+--                                 inbound_emails reply to the message) or
+--                                 'meeting' (a non-cancelled lead_meetings row
+--                                 created after the message was sent)
+--
+-- A variant "lane" selects the subject, body and — new — the call to action:
+-- sequence_steps.cta is lane A's CTA line and cta_variants the alternates.
+-- start-email-sequence-run places the CTA at {{cta}} in the body, or appends
+-- it when the body has no {{cta}}.
+--
+-- campaign_variant_stats gains a meetings column; ab_variant_outcomes is the
+-- same per-lane count for the service role (no auth.uid() scoping).
+-- Idempotent.
+-- ============================================================================
+
+-- ── 1. Columns ────────────────────────────────────────────────────────────
+
+alter table public.email_sequences
+  add column if not exists ab_mode      text not null default 'ztest',
+  add column if not exists ab_objective text not null default 'reply';
+
+do $$ begin
+  alter table public.email_sequences
+    add constraint email_sequences_ab_mode_check check (ab_mode in ('ztest','bandit'));
+exception when duplicate_object then null; end $$;
+
+do $$ begin
+  alter table public.email_sequences
+    add constraint email_sequences_ab_objective_check check (ab_objective in ('reply','meeting'));
+exception when duplicate_object then null; end $$;
+
+alter table public.sequence_steps
+  add column if not exists cta          text   not null default '',
+  add column if not exists cta_variants text[] not null default '{}'::text[];
+
+-- ── 2. ab_variant_outcomes(campaign) — service role ───────────────────────
+
+create or replace function public.ab_variant_outcomes(p_campaign_id uuid)
+returns table (step int, variant int, sent bigint, opened bigint, clicked bigint, replied bigint, meetings bigint)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    coalesce(m.sequence_step, 0)   as step,
+    coalesce(m.subject_variant, 0) as variant,
+    count(*)                       as sent,
+    count(*) filter (where exists (select 1 from public.email_events e where e.message_id = m.id and e.event_type = 'open'))  as opened,
+    count(*) filter (where exists (select 1 from public.email_events e where e.message_id = m.id and e.event_type = 'click')) as clicked,
+    count(*) filter (where exists (select 1 from public.inbound_emails ib where ib.reply_to_message_id = m.id))                as replied,
+    count(*) filter (where exists (select 1 from public.lead_meetings lm
+                                    where lm.lead_id = m.lead_id and lm.status <> 'cancelled'
+                                      and lm.created_at >= m.created_at))                                                      as meetings
+  from public.email_messages m
+  where m.sequence_id = p_campaign_id
+  group by 1, 2
+  order by 1, 2;
+$$;
+
+revoke all on function public.ab_variant_outcomes(uuid) from public;
+grant execute on function public.ab_variant_outcomes(uuid) to service_role;
+
+-- ── 3. campaign_variant_stats — owner-scoped, now with meetings ───────────
+-- Return-type changes require DROP before CREATE.
+
+drop function if exists public.campaign_variant_stats(uuid);
+
+create function public.campaign_variant_stats(p_campaign_id uuid)
+returns table (step int, variant int, sent bigint, opened bigint, clicked bigint, replied bigint, meetings bigint)
+language sql stable security definer set search_path to 'public' as $$
+  select o.*
+    from public.ab_variant_outcomes(p_campaign_id) o
+   where exists (select 1 from public.email_messages m
+                  where m.sequence_id = p_campaign_id and m.owner_id = auth.uid());
+$$;
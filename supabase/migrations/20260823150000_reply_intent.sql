@@ -0,0 +1,276 @@
+-- ============================================================================
+-- 20260823150000_reply_intent.sql
+-- Reply intent classification for the unified inbox.
+--
+-- inbound-email stored replies as plain mail, so an out-of-office or a bounce
+-- notification stopped a sequence like a real reply and an "unsubscribe me"
+-- waited for someone to read it. inbound-email now classifies each reply
+-- before storing it (Gemini when the workspace has AI credits, else the rules
+-- in _shared/replyIntent.ts) into inbound_emails.intent:
+--
+--   interested       → lead New/Contacted → Qualified, high-priority follow-up task
+--   meeting_request  → lead → Qualified, "book a meeting" task due now
+--   objection        → recorded only
+--   out_of_office    → the lead's unsent sequence items are held until the day
+--                      after ooo_return_date (7 days when no date was found);
+--                      does not count as a reply for the 'replied' exit
+--   referral         → wrong person: lead → Lost, task to contact referral_email
+--   unsubscribe      → sender + lead address suppressed (unsub), lead → Lost
+--   bounce           → lead address suppressed (bounce); not a reply either
+--
+-- apply_reply_intent(inbound_id) runs those actions and records them in
+-- intent_actions; set_reply_intent lets the owner correct a classification
+-- from the inbox, which re-applies the actions for the new intent.
+-- email_sequence_run_items.hold_until is honoured by process-sequence-sends.
+-- Idempotent.
+-- ============================================================================
+
+-- ── 1. Columns ────────────────────────────────────────────────────────────
+
+alter table public.inbound_emails
+  add column if not exists intent            text,
+  add column if not exists intent_confidence numeric(3,2),
+  add column if not exists intent_source     text,
+  add column if not exists ooo_return_date   date,
+  add column if not exists referral_email    text,
+  add column if not exists intent_actions    jsonb not null default '[]'::jsonb,
+  add column if not exists classified_at     timestamptz;
+
+do $$ begin
+  alter table public.inbound_emails
+    add constraint inbound_emails_intent_check check (intent in (
+      'interested','meeting_request','objection','out_of_office','referral','unsubscribe','bounce'));
+exception when duplicate_object then null; end $$;
+
+do $$ begin
+  alter table public.inbound_emails
+    add constraint inbound_emails_intent_source_check check (intent_source in ('ai','rules','manual'));
+exception when duplicate_object then null; end $$;
+
+create index if not exists idx_inbound_emails_owner_intent
+  on public.inbound_emails (owner_id, intent, received_at desc);
+
+alter table public.email_sequence_run_items
+  add column if not exists hold_until timestamptz;
+
+comment on column public.email_sequence_run_items.hold_until is
+  'Not sent before this time (set when the lead replied out-of-office).';
+
+-- ── 2. apply_reply_intent(inbound_id) ─────────────────────────────────────
+
+create or replace function public.apply_reply_intent(p_inbound_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_in      public.inbound_emails%rowtype;
+  v_lead    public.leads%rowtype;
+  v_name    text;
+  v_actions jsonb := '[]'::jsonb;
+  v_until   timestamptz;
+  v_held    int;
+begin
+  select * into v_in from public.inbound_emails where id = p_inbound_id;
+  if v_in.id is null or v_in.intent is null then return v_actions; end if;
+
+  if v_in.lead_id is not null then
+    select * into v_lead from public.leads where id = v_in.lead_id;
+  end if;
+  v_name := coalesce(nullif(trim(concat_ws(' ', v_lead.first_name, v_lead.last_name)), ''), v_in.from_name, v_in.from_email);
+
+  if v_in.intent in ('interested','meeting_request') and v_lead.id is not null then
+    if v_lead.status in ('New','Contacted') then
+      update public.leads set status = 'Qualified', updated_at = now() where id = v_lead.id;
+      v_actions := v_actions || jsonb_build_object('action', 'status', 'status', 'Qualified');
+    end if;
+    insert into public.tasks (workspace_id, business_id, lead_id, created_by, title, description, due_at, priority)
+    values (coalesce(v_in.workspace_id, v_in.owner_id), v_in.business_id, v_lead.id, v_in.owner_id,
+            case when v_in.intent = 'meeting_request' then 'Book a meeting with ' || v_name
+                 else 'Follow up — ' || v_name || ' is interested' end,
+            'Replied: ' || coalesce(v_in.subject, '(no subject)'),
+            case when v_in.intent = 'meeting_request' then now() else now() + interval '1 day' end,
+            'high');
+    v_actions := v_actions || jsonb_build_object('action', 'task');
+
+  elsif v_in.intent = 'out_of_office' and v_lead.id is not null then
+    v_until := coalesce(v_in.ooo_return_date + 1, (v_in.received_at + interval '7 days')::date)::timestamptz;
+    update public.email_sequence_run_items
+       set hold_until = v_until, updated_at = now()
+     where lead_id = v_lead.id and status in ('pending','writing','written');
+    get diagnostics v_held = row_count;
+    v_actions := v_actions || jsonb_build_object('action', 'rescheduled', 'until', v_until, 'items', v_held);
+
+  elsif v_in.intent = 'referral' then
+    if v_lead.id is not null and v_lead.status not in ('Converted','Lost') then
+      update public.leads set status = 'Lost', updated_at = now() where id = v_lead.id;
+      v_actions := v_actions || jsonb_build_object('action', 'status', 'status', 'Lost');
+    end if;
+    if v_in.referral_email is not null then
+      insert into public.tasks (workspace_id, business_id, lead_id, created_by, title, description, due_at)
+      values (coalesce(v_in.workspace_id, v_in.owner_id), v_in.business_id, v_lead.id, v_in.owner_id,
+              'Reach out to ' || v_in.referral_email,
+              v_name || ' referred you to them.', now() + interval '1 day');
+      v_actions := v_actions || jsonb_build_object('action', 'task');
+    end if;
+
+  elsif v_in.intent = 'unsubscribe' then
+    insert into public.suppressions (owner_id, email, reason, source)
+    select v_in.owner_id, e, 'unsub', 'reply_intent'
+      from (select distinct lower(x) as e from unnest(array[v_in.from_email, v_lead.primary_email]) x where x is not null) s
+    on conflict (owner_id, email) do nothing;
+    v_actions := v_actions || jsonb_build_object('action', 'suppressed', 'reason', 'unsub');
+    if v_lead.id is not null and v_lead.status not in ('Converted','Lost') then
+      update public.leads set status = 'Lost', updated_at = now() where id = v_lead.id;
+      v_actions := v_actions || jsonb_build_object('action', 'status', 'status', 'Lost');
+    end if;
+
+  elsif v_in.intent = 'bounce' and v_lead.primary_email is not null then
+    insert into public.suppressions (owner_id, email, reason, source)
+    values (v_in.owner_id, lower(v_lead.primary_email), 'bounce', 'reply_intent')
+    on conflict (owner_id, email) do nothing;
+    v_actions := v_actions || jsonb_build_object('action', 'suppressed', 'reason', 'bounce');
+  end if;
+
+  update public.inbound_emails set intent_actions = v_actions where id = p_inbound_id;
+  return v_actions;
+end;
+$$;
+
+revoke all on function public.apply_reply_intent(uuid) from public;
+grant execute on function public.apply_reply_intent(uuid) to service_role;
+
+-- ── 3. set_reply_intent — owner correction from the inbox ─────────────────
+
+create or replace function public.set_reply_intent(p_inbound_id uuid, p_intent text, p_return_date date default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.inbound_emails
+     set intent = p_intent, intent_source = 'manual', intent_confidence = 1,
+         ooo_return_date = case when p_intent = 'out_of_office' then coalesce(p_return_date, ooo_return_date) end,
+         classified_at = now()
+   where id = p_inbound_id and owner_id = auth.uid()
+     and (intent is distinct from p_intent
+          or (p_intent = 'out_of_office' and p_return_date is distinct from ooo_return_date));
+  if not found then return null; end if;
+  return public.apply_reply_intent(p_inbound_id);
+end;
+$$;
+
+revoke all on function public.set_reply_intent(uuid, text, date) from public;
+grant execute on function public.set_reply_intent(uuid, text, date) to authenticated;
+
+-- ── 4. stop_exited_sequence_leads — auto-replies are not replies ──────────
+-- Same as 20260823100000 except the 'replied' check ignores out-of-office
+-- and bounce notifications (those hold or bounce the lead instead).
+
+create or replace function public.stop_exited_sequence_leads(p_run_ids uuid[])
+returns table (run_id uuid, lead_id uuid, reason text, items_skipped integer)
+language plpgsql
+security definer
+set search_path to 'public'
+as $$
+#variable_conflict use_column
+begin
+  return query
+  with open_leads as (
+    select distinct
+      i.run_id,
+      i.lead_id,
+      lower(i.lead_email)                      as email,
+      r.owner_id,
+      coalesce(r.started_at, r.created_at)     as since,
+      case when jsonb_typeof(r.sequence_config -> 'exitOn') = 'array'
+           then array(select jsonb_array_elements_text(r.sequence_config -> 'exitOn'))
+           else array['replied','unsubscribed','bounced','meeting_booked','converted']
+      end                                      as exit_on
+    from public.email_sequence_run_items i
+    join public.email_sequence_runs r on r.id = i.run_id
+    where i.run_id = any (p_run_ids)
+      and i.lead_id is not null
+      and i.status in ('pending','writing','written')
+  ),
+  reasons as (
+    select
+      o.run_id,
+      o.lead_id,
+      case
+        when 'replied' = any (o.exit_on) and exists (
+          select 1 from public.inbound_emails ib
+          where ib.lead_id = o.lead_id and ib.received_at >= o.since
+            and ib.intent is distinct from 'out_of_office' and ib.intent is distinct from 'bounce')
+          then 'replied'
+        when 'unsubscribed' = any (o.exit_on) and (
+          exists (select 1 from public.suppressions s
+                  where s.owner_id = o.owner_id and s.email = o.email and s.reason in ('unsub','complaint'))
+          or exists (select 1 from public.email_dlq d join public.email_messages m on m.id = d.message_id
+                     where m.lead_id = o.lead_id and d.kind in ('unsubscribed','spam_complaint')))
+          then 'unsubscribed'
+        when 'bounced' = any (o.exit_on) and (
+          exists (select 1 from public.suppressions s
+                  where s.owner_id = o.owner_id and s.email = o.email and s.reason in ('bounce','invalid'))
+          or exists (select 1 from public.email_dlq d join public.email_messages m on m.id = d.message_id
+                     where m.lead_id = o.lead_id and d.kind = 'hard_bounce'))
+          then 'bounced'
+        when 'meeting_booked' = any (o.exit_on) and exists (
+          select 1 from public.lead_meetings lm
+          where lm.lead_id = o.lead_id and lm.status <> 'cancelled' and lm.created_at >= o.since)
+          then 'meeting_booked'
+        when 'converted' = any (o.exit_on) and exists (
+          select 1 from public.leads l where l.id = o.lead_id and l.status = 'Converted')
+          then 'converted'
+      end as reason
+    from open_leads o
+  ),
+  stopped as (
+    update public.email_sequence_run_items i
+       set status = 'skipped', skip_reason = rs.reason, skipped_at = now(),
+           locked_until = null, updated_at = now()
+      from reasons rs
+     where rs.reason is not null
+       and i.run_id = rs.run_id
+       and i.lead_id = rs.lead_id
+       and i.status in ('pending','writing','written')
+    returning i.run_id, i.lead_id, i.skip_reason
+  )
+  select s.run_id, s.lead_id, min(s.skip_reason), count(*)::int
+  from stopped s
+  group by s.run_id, s.lead_id;
+end;
+$$;
+
+revoke all on function public.stop_exited_sequence_leads(uuid[]) from public;
+grant execute on function public.stop_exited_sequence_leads(uuid[]) to service_role;
+
+-- ── 5. A/B reply counts ignore auto-replies too ───────────────────────────
+
+create or replace function public.ab_variant_outcomes(p_campaign_id uuid)
+returns table (step int, variant int, sent bigint, opened bigint, clicked bigint, replied bigint, meetings bigint)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    coalesce(m.sequence_step, 0)   as step,
+    coalesce(m.subject_variant, 0) as variant,
+    count(*)                       as sent,
+    count(*) filter (where exists (select 1 from public.email_events e where e.message_id = m.id and e.event_type = 'open'))  as opened,
+    count(*) filter (where exists (select 1 from public.email_events e where e.message_id = m.id and e.event_type = 'click')) as clicked,
+    count(*) filter (where exists (select 1 from public.inbound_emails ib
+                                    where ib.reply_to_message_id = m.id
+                                      and ib.intent is distinct from 'out_of_office'
+                                      and ib.intent is distinct from 'bounce'))                                                as replied,
+    count(*) filter (where exists (select 1 from public.lead_meetings lm
+                                    where lm.lead_id = m.lead_id and lm.status <> 'cancelled'
+                                      and lm.created_at >= m.created_at))                                                      as meetings
+  from public.email_messages m
+  where m.sequence_id = p_campaign_id
+  group by 1, 2
+  order by 1, 2;
+$$;
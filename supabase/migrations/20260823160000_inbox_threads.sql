@@ -0,0 +1,317 @@
+-- ============================================================================
+-- 20260823160000_inbox_threads.sql
+-- Threaded, shared inbox.
+--
+-- The inbox listed inbound_emails one by one and only to their owner, so an
+-- SDR team sharing one outreach domain couldn't see each other's replies and
+-- kept answering the same lead twice. Replies and our outbound email_messages
+-- are now grouped into inbox_threads by Message-Id / In-Reply-To:
+--
+--   inbound  → reply_to_message_id's thread, else the thread of whichever
+--              message (ours or theirs) In-Reply-To names, else the latest
+--              thread for the same lead and subject (last 30 days), else new
+--   outbound → the thread of the message In-Reply-To names (in-app replies);
+--              first-touch sends get a thread when the first reply arrives
+--
+-- Header matches only ever look inside the message's own workspace.
+--
+-- A new inbound reply reopens a snoozed/done thread. Threads are visible to
+-- every workspace member, assignable (assigned_to), carry a status
+-- (open / snoozed until snoozed_until / done) and internal notes
+-- (inbox_thread_notes, never sent). inbox_thread_presence is a heartbeat the
+-- inbox writes while a member views or is replying to a thread, so others
+-- get a collision warning. Teammates may mark each other's replies read but
+-- not edit them.
+--
+-- email_messages gains thread_id, in_reply_to, body_html and sent_by (stored
+-- by send-email) so our side of the conversation can be shown. Existing
+-- replies are backfilled into threads in received order. Idempotent.
+-- ============================================================================
+
+-- ── 1. Threads, notes, presence ──────────────────────────────────────────
+
+create table if not exists public.inbox_threads (
+  id              uuid primary key default gen_random_uuid(),
+  workspace_id    uuid not null,
+  owner_id        uuid,
+  business_id     uuid references public.businesses(id) on delete set null,
+  lead_id         uuid references public.leads(id) on delete set null,
+  subject         text,
+  status          text not null default 'open' check (status in ('open','snoozed','done')),
+  snoozed_until   timestamptz,
+  assigned_to     uuid,
+  last_message_at timestamptz not null default now(),
+  last_inbound_at timestamptz,
+  created_at      timestamptz not null default now(),
+  updated_at      timestamptz not null default now()
+);
+
+create index if not exists idx_inbox_threads_workspace on public.inbox_threads (workspace_id, status, last_message_at desc);
+create index if not exists idx_inbox_threads_assignee  on public.inbox_threads (assigned_to, status);
+create index if not exists idx_inbox_threads_lead      on public.inbox_threads (lead_id, last_message_at desc);
+create index if not exists idx_inbox_threads_business  on public.inbox_threads (business_id);
+
+create or replace trigger trg_inbox_threads_updated_at before update on public.inbox_threads
+  for each row execute function public.update_updated_at();
+
+create table if not exists public.inbox_thread_notes (
+  id           uuid primary key default gen_random_uuid(),
+  thread_id    uuid not null references public.inbox_threads(id) on delete cascade,
+  workspace_id uuid not null,
+  author_id    uuid not null,
+  body         text not null check (length(trim(body)) > 0),
+  created_at   timestamptz not null default now()
+);
+
+create index if not exists idx_inbox_thread_notes_thread on public.inbox_thread_notes (thread_id, created_at);
+
+create table if not exists public.inbox_thread_presence (
+  thread_id    uuid not null references public.inbox_threads(id) on delete cascade,
+  user_id      uuid not null,
+  workspace_id uuid not null,
+  state        text not null default 'viewing' check (state in ('viewing','replying')),
+  seen_at      timestamptz not null default now(),
+  primary key (thread_id, user_id)
+);
+
+alter table public.inbox_threads         enable row level security;
+alter table public.inbox_thread_notes    enable row level security;
+alter table public.inbox_thread_presence enable row level security;
+
+do $$ begin
+  create policy "inbox_threads_select" on public.inbox_threads for select using (public.is_workspace_member(workspace_id));
+exception when duplicate_object then null; end $$;
+do $$ begin
+  create policy "inbox_threads_update" on public.inbox_threads for update using (public.is_workspace_member(workspace_id));
+exception when duplicate_object then null; end $$;
+
+do $$ begin
+  create policy "inbox_thread_notes_select" on public.inbox_thread_notes for select using (public.is_workspace_member(workspace_id));
+exception when duplicate_object then null; end $$;
+do $$ begin
+  create policy "inbox_thread_notes_insert" on public.inbox_thread_notes for insert
+    with check (public.is_workspace_member(workspace_id) and author_id = auth.uid());
+exception when duplicate_object then null; end $$;
+do $$ begin
+  create policy "inbox_thread_notes_delete" on public.inbox_thread_notes for delete using (author_id = auth.uid());
+exception when duplicate_object then null; end $$;
+
+do $$ begin
+  create policy "inbox_thread_presence_select" on public.inbox_thread_presence for select using (public.is_workspace_member(workspace_id));
+exception when duplicate_object then null; end $$;
+do $$ begin
+  create policy "inbox_thread_presence_write" on public.inbox_thread_presence for all
+    using (user_id = auth.uid())
+    with check (user_id = auth.uid() and public.is_workspace_member(workspace_id));
+exception when duplicate_object then null; end $$;
+
+-- ── 2. Thread links on messages ──────────────────────────────────────────
+
+alter table public.inbound_emails
+  add column if not exists thread_id uuid references public.inbox_threads(id) on delete set null;
+
+alter table public.email_messages
+  add column if not exists thread_id   uuid references public.inbox_threads(id) on delete set null,
+  add column if not exists in_reply_to text,
+  add column if not exists body_html   text,
+  add column if not exists sent_by     uuid;
+
+create index if not exists idx_inbound_emails_thread on public.inbound_emails (thread_id, received_at);
+create index if not exists idx_email_messages_thread on public.email_messages (thread_id, created_at) where thread_id is not null;
+
+-- Teammates read (and mark read) the workspace's replies and the outbound
+-- side of its threads; the owner-only policies stay for legacy rows.
+do $$ begin
+  create policy "workspace reads inbound" on public.inbound_emails for select using (public.is_workspace_member(workspace_id));
+exception when duplicate_object then null; end $$;
+do $$ begin
+  create policy "workspace updates inbound" on public.inbound_emails for update using (public.is_workspace_member(workspace_id));
+exception when duplicate_object then null; end $$;
+
+-- RLS can't limit columns, so a teammate's direct update is held to the
+-- read flag and thread link here; the owner, service_role and SECURITY
+-- DEFINER RPCs (set_reply_intent) run unpoliced, as with profiles.
+create or replace function public.inbound_emails_guard_shared_update()
+returns trigger
+language plpgsql
+security invoker
+as $$
+begin
+  if current_user <> 'authenticated' or old.owner_id = auth.uid() then
+    return new;
+  end if;
+  if to_jsonb(new) - array['is_read','thread_id'] is distinct from to_jsonb(old) - array['is_read','thread_id'] then
+    raise exception 'Teammates may only mark replies read or move them between threads'
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+create or replace trigger trg_inbound_emails_guard_shared_update before update on public.inbound_emails
+  for each row execute function public.inbound_emails_guard_shared_update();
+do $$ begin
+  create policy "workspace reads threaded messages" on public.email_messages for select
+    using (thread_id is not null and public.is_workspace_member(workspace_id));
+exception when duplicate_object then null; end $$;
+
+-- ── 3. Thread resolution ─────────────────────────────────────────────────
+
+create or replace function public.inbox_thread_subject(p_subject text)
+returns text
+language sql
+immutable
+as $$
+  select lower(trim(regexp_replace(coalesce(p_subject, ''), '^\s*((re|fwd?|aw|sv|antw)\s*:\s*)+', '', 'i')));
+$$;
+
+create or replace function public.inbox_thread_for_inbound(
+  p_workspace_id uuid, p_owner_id uuid, p_business_id uuid, p_lead_id uuid,
+  p_subject text, p_in_reply_to text, p_reply_to_message_id uuid, p_at timestamptz
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_thread uuid;
+  v_msg    uuid;
+  v_ws     uuid := coalesce(p_workspace_id, p_owner_id);
+begin
+  -- The outbound message it answers (already matched by inbound-email).
+  -- Every lookup stays inside the reply's workspace: In-Reply-To is whatever
+  -- the sender put there, so it must not reach another tenant's messages.
+  if p_reply_to_message_id is not null then
+    select id, thread_id into v_msg, v_thread from public.email_messages
+     where id = p_reply_to_message_id and workspace_id = v_ws;
+  end if;
+  -- Or whichever message In-Reply-To names: an earlier reply (anyone's in
+  -- the shared inbox), or one of ours.
+  if v_thread is null and v_msg is null and nullif(p_in_reply_to, '') is not null then
+    select thread_id into v_thread from public.inbound_emails
+     where coalesce(workspace_id, owner_id) = v_ws and message_id = p_in_reply_to and thread_id is not null limit 1;
+    if v_thread is null then
+      select id, thread_id into v_msg, v_thread from public.email_messages
+       where provider_message_id = p_in_reply_to and workspace_id = v_ws limit 1;
+    end if;
+  end if;
+  -- No usable headers: the lead's latest thread on the same subject.
+  if v_thread is null and v_msg is null and p_lead_id is not null then
+    select id into v_thread from public.inbox_threads
+     where workspace_id = v_ws and lead_id = p_lead_id
+       and public.inbox_thread_subject(subject) = public.inbox_thread_subject(p_subject)
+       and last_message_at > p_at - interval '30 days'
+     order by last_message_at desc limit 1;
+  end if;
+
+  if v_thread is null then
+    insert into public.inbox_threads (workspace_id, owner_id, business_id, lead_id, subject, last_message_at, last_inbound_at)
+    values (v_ws, p_owner_id, p_business_id, p_lead_id, p_subject, p_at, p_at)
+    returning id into v_thread;
+    if v_msg is not null then
+      update public.email_messages set thread_id = v_thread
+       where id = v_msg and workspace_id = v_ws and thread_id is null;
+    end if;
+  else
+    update public.inbox_threads
+       set last_message_at = greatest(last_message_at, p_at),
+           last_inbound_at = greatest(coalesce(last_inbound_at, p_at), p_at),
+           lead_id = coalesce(lead_id, p_lead_id),
+           status = 'open', snoozed_until = null
+     where id = v_thread and workspace_id = v_ws;
+  end if;
+  return v_thread;
+end;
+$$;
+
+revoke all on function public.inbox_thread_for_inbound(uuid, uuid, uuid, uuid, text, text, uuid, timestamptz) from public;
+
+create or replace function public.inbound_emails_set_thread()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.thread_id is null then
+    new.thread_id := public.inbox_thread_for_inbound(
+      new.workspace_id, new.owner_id, new.business_id, new.lead_id,
+      new.subject, new.in_reply_to, new.reply_to_message_id, coalesce(new.received_at, now()));
+  end if;
+  return new;
+end;
+$$;
+
+create or replace trigger trg_inbound_emails_thread before insert on public.inbound_emails
+  for each row execute function public.inbound_emails_set_thread();
+
+-- Our replies join the thread of the message they answer.
+create or replace function public.email_messages_set_thread()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.thread_id is null and nullif(new.in_reply_to, '') is not null then
+    select thread_id into new.thread_id from public.inbound_emails
+     where message_id = new.in_reply_to and workspace_id = new.workspace_id and thread_id is not null limit 1;
+    if new.thread_id is null then
+      select thread_id into new.thread_id from public.email_messages
+       where provider_message_id = new.in_reply_to and workspace_id = new.workspace_id
+         and thread_id is not null limit 1;
+    end if;
+  end if;
+  if new.thread_id is not null then
+    update public.inbox_threads set last_message_at = greatest(last_message_at, coalesce(new.created_at, now()))
+     where id = new.thread_id;
+  end if;
+  return new;
+end;
+$$;
+
+create or replace trigger trg_email_messages_thread before insert on public.email_messages
+  for each row execute function public.email_messages_set_thread();
+
+-- ── 4. set_reply_intent — any workspace member may correct it ────────────
+-- Same as 20260823150000 except the caller check: the shared inbox lets
+-- teammates handle each other's replies.
+
+create or replace function public.set_reply_intent(p_inbound_id uuid, p_intent text, p_return_date date default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.inbound_emails
+     set intent = p_intent, intent_source = 'manual', intent_confidence = 1,
+         ooo_return_date = case when p_intent = 'out_of_office' then coalesce(p_return_date, ooo_return_date) end,
+         classified_at = now()
+   where id = p_inbound_id
+     and (owner_id = auth.uid() or public.is_workspace_member(workspace_id))
+     and (intent is distinct from p_intent
+          or (p_intent = 'out_of_office' and p_return_date is distinct from ooo_return_date));
+  if not found then return null; end if;
+  return public.apply_reply_intent(p_inbound_id);
+end;
+$$;
+
+-- ── 5. Backfill, oldest first so reply chains resolve ────────────────────
+
+do $$
+declare r record;
+begin
+  for r in select * from public.inbound_emails where thread_id is null order by received_at loop
+    update public.inbound_emails
+       set thread_id = public.inbox_thread_for_inbound(
+             r.workspace_id, r.owner_id, r.business_id, r.lead_id,
+             r.subject, r.in_reply_to, r.reply_to_message_id, r.received_at)
+     where id = r.id;
+  end loop;
+  -- Backfilled threads start handled unless a reply is still unread.
+  update public.inbox_threads t set status = 'done'
+   where status = 'open' and created_at = now()
+     and not exists (select 1 from public.inbound_emails ib where ib.thread_id = t.id and not ib.is_read);
+end $$;
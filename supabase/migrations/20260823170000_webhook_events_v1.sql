@@ -0,0 +1,506 @@
+-- ============================================================================
+-- 20260823170000_webhook_events_v1.sql
+-- Outbound webhook events for replies, unsubscribes, scores, deals, tasks and
+-- calls, and a schema version on every delivery.
+--
+-- Until now endpoints only heard about leads, sequences and email sends /
+-- bounces, so warehouses and Slack bots polled for everything else. New
+-- events (all fired by AFTER triggers, like 20260510000000):
+--
+--   email.replied        — inbound_emails INSERT, except out-of-office and
+--                          bounce notifications (reply intent, 20260823150000)
+--   email.unsubscribed   — now also suppressions INSERT (reason 'unsub'): the
+--                          unsubscribe link and "remove me" replies, not just
+--                          provider events via email_dlq
+--   lead.score_changed   — lead_scores INSERT/UPDATE when total_score changes,
+--                          with old/new totals and both sub-score breakdowns
+--   lead.status_changed  — leads UPDATE OF status (lead.updated still fires)
+--   deal.created         — deals INSERT
+--   deal.stage_changed   — deals UPDATE OF stage
+--   deal.won / deal.lost — deals UPDATE OF stage into won / lost
+--   task.created         — tasks INSERT
+--   task.completed       — tasks UPDATE OF status into done
+--   call.completed       — lead_call_logs: a manual log on INSERT, an in-app
+--                          call when its status first becomes terminal
+--
+-- Payload schemas are documented in docs/api/openapi.yaml (webhooks section)
+-- and mirrored for the UI in AuraEngine/lib/webhookSchemas.ts. Every delivery
+-- now records the schema_version of its payload; the dispatcher sends it as
+-- `version` in the envelope and as X-Scaliyo-Event-Version. All events are
+-- version 1: fields may be added within a version, never removed or retyped.
+--
+-- Also fixes webhook_deliveries.status, whose check constraint never allowed
+-- the 'processing' state claim_pending_webhook_deliveries sets. Idempotent.
+-- ============================================================================
+
+-- ── 1. Delivery schema version + 'processing' status ─────────────────────
+
+alter table public.webhook_deliveries
+  add column if not exists schema_version int not null default 1;
+
+alter table public.webhook_deliveries drop constraint if exists webhook_deliveries_status_check;
+alter table public.webhook_deliveries add constraint webhook_deliveries_status_check
+  check (status in ('pending','processing','succeeded','failed','dead'));
+
+drop function if exists public.queue_webhook_event(uuid, text, jsonb);
+
+create or replace function public.queue_webhook_event(
+  p_workspace_id uuid,
+  p_event_type   text,
+  p_payload      jsonb,
+  p_version      int default 1
+) returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count int;
+begin
+  insert into public.webhook_deliveries
+    (endpoint_id, workspace_id, event_type, payload, schema_version)
+  select
+    e.id, p_workspace_id, p_event_type, p_payload, p_version
+  from public.webhook_endpoints e
+  where e.workspace_id = p_workspace_id
+    and e.enabled
+    and (cardinality(e.event_types) = 0 or p_event_type = any(e.event_types));
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+revoke all on function public.queue_webhook_event(uuid, text, jsonb, int) from public;
+grant execute on function public.queue_webhook_event(uuid, text, jsonb, int) to authenticated, service_role;
+
+-- Return type changes (schema_version, created_at), so drop first.
+drop function if exists public.claim_pending_webhook_deliveries(int);
+
+create or replace function public.claim_pending_webhook_deliveries(p_limit int default 50)
+returns table (
+  delivery_id    uuid,
+  endpoint_id    uuid,
+  workspace_id   uuid,
+  url            text,
+  secret         text,
+  event_type     text,
+  payload        jsonb,
+  attempt_count  int,
+  schema_version int,
+  created_at     timestamptz
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  return query
+  with claimed as (
+    update public.webhook_deliveries d
+       set status = 'processing',
+           attempt_count = d.attempt_count + 1
+     where d.id in (
+       select wd.id
+         from public.webhook_deliveries wd
+        where wd.status = 'pending'
+          and wd.next_attempt_at <= now()
+        order by wd.next_attempt_at asc
+        for update skip locked
+        limit p_limit
+     )
+    returning d.id, d.endpoint_id, d.workspace_id, d.event_type, d.payload, d.attempt_count, d.schema_version, d.created_at
+  )
+  select c.id, c.endpoint_id, c.workspace_id, e.url, e.secret, c.event_type, c.payload, c.attempt_count,
+         c.schema_version, c.created_at
+    from claimed c
+    join public.webhook_endpoints e on e.id = c.endpoint_id;
+end;
+$$;
+
+revoke all on function public.claim_pending_webhook_deliveries(int) from public;
+grant execute on function public.claim_pending_webhook_deliveries(int) to service_role;
+
+-- ── 2. Payload helpers ───────────────────────────────────────────────────
+
+-- Owner-scoped tables (suppressions, lead_call_logs without a lead) carry no
+-- workspace_id; use the owner's first workspace, as sequence.completed does.
+create or replace function public._wh_owner_workspace(p_owner_id uuid)
+returns uuid language sql stable security definer
+set search_path = public as $$
+  select workspace_id from public.workspace_members
+   where user_id = p_owner_id
+   order by joined_at asc
+   limit 1;
+$$;
+
+create or replace function public._wh_deal_payload(d public.deals)
+returns jsonb language sql immutable as $$
+  select jsonb_build_object(
+    'id',                  d.id,
+    'workspace_id',        d.workspace_id,
+    'business_id',         d.business_id,
+    'lead_id',             d.lead_id,
+    'title',               d.title,
+    'value_amount',        d.value_amount,
+    'currency',            d.currency,
+    'stage',               d.stage,
+    'probability',         d.probability,
+    'expected_close_date', d.expected_close_date,
+    'assigned_to',         d.assigned_to,
+    'won_at',              d.won_at,
+    'lost_at',             d.lost_at,
+    'lost_reason',         d.lost_reason,
+    'created_at',          d.created_at,
+    'updated_at',          d.updated_at
+  );
+$$;
+
+create or replace function public._wh_task_payload(t public.tasks)
+returns jsonb language sql immutable as $$
+  select jsonb_build_object(
+    'id',           t.id,
+    'workspace_id', t.workspace_id,
+    'business_id',  t.business_id,
+    'lead_id',      t.lead_id,
+    'deal_id',      t.deal_id,
+    'title',        t.title,
+    'description',  t.description,
+    'priority',     t.priority,
+    'status',       t.status,
+    'due_at',       t.due_at,
+    'assigned_to',  t.assigned_to,
+    'created_by',   t.created_by,
+    'completed_at', t.completed_at,
+    'created_at',   t.created_at
+  );
+$$;
+
+create or replace function public._wh_score_breakdown(s public.lead_scores)
+returns jsonb language sql immutable as $$
+  select jsonb_build_object(
+    'fit',            s.fit_score,
+    'intent',         s.intent_score,
+    'engagement',     s.engagement_score,
+    'data_quality',   s.data_quality_score,
+    'deliverability', s.deliverability_score,
+    'urgency',        s.urgency_score,
+    'risk',           s.risk_score
+  );
+$$;
+
+-- ── 3. inbound_emails INSERT → email.replied ─────────────────────────────
+
+create or replace function public._wh_after_inbound_insert()
+returns trigger language plpgsql security definer
+set search_path = public as $$
+declare
+  v_ws uuid := coalesce(new.workspace_id, public._wh_owner_workspace(new.owner_id));
+begin
+  if v_ws is not null and new.intent is distinct from 'out_of_office' and new.intent is distinct from 'bounce' then
+    perform public.queue_webhook_event(
+      v_ws,
+      'email.replied',
+      jsonb_build_object(
+        'id',                  new.id,
+        'workspace_id',        v_ws,
+        'lead_id',             new.lead_id,
+        'thread_id',           new.thread_id,
+        'reply_to_message_id', new.reply_to_message_id,
+        'from_email',          new.from_email,
+        'from_name',           new.from_name,
+        'to_email',            new.to_email,
+        'subject',             new.subject,
+        'snippet',             left(coalesce(new.body_text, ''), 280),
+        'intent',              new.intent,
+        'intent_confidence',   new.intent_confidence,
+        'received_at',         new.received_at
+      )
+    );
+  end if;
+  return null;
+exception when others then
+  raise warning '[wh] email.replied enqueue failed: % %', sqlstate, sqlerrm;
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_wh_inbound_insert on public.inbound_emails;
+create trigger trg_wh_inbound_insert
+  after insert on public.inbound_emails
+  for each row execute function public._wh_after_inbound_insert();
+
+-- ── 4. email.unsubscribed — suppressions and provider events share a shape ──
+
+create or replace function public._wh_after_suppression_insert()
+returns trigger language plpgsql security definer
+set search_path = public as $$
+declare
+  v_ws   uuid;
+  v_lead uuid;
+begin
+  if new.reason = 'unsub' then
+    v_ws := public._wh_owner_workspace(new.owner_id);
+    select id into v_lead from public.leads
+     where client_id = new.owner_id and lower(primary_email) = lower(new.email)
+     limit 1;
+    if v_ws is not null then
+      perform public.queue_webhook_event(
+        v_ws,
+        'email.unsubscribed',
+        jsonb_build_object(
+          'id',                new.id,
+          'workspace_id',      v_ws,
+          'lead_id',           v_lead,
+          'sender_account_id', null,
+          'message_id',        null,
+          'to_email',          lower(new.email),
+          'kind',              'unsubscribed',
+          'reason',            null,
+          'source',            coalesce(new.source, 'manual'),
+          'first_failed_at',   new.created_at,
+          'last_failed_at',    new.created_at
+        )
+      );
+    end if;
+  end if;
+  return null;
+exception when others then
+  raise warning '[wh] email.unsubscribed enqueue failed: % %', sqlstate, sqlerrm;
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_wh_suppression_insert on public.suppressions;
+create trigger trg_wh_suppression_insert
+  after insert on public.suppressions
+  for each row execute function public._wh_after_suppression_insert();
+
+-- Same as 20260510000000 plus 'lead_id' and 'source' so every
+-- email.unsubscribed (and email.bounced / email.spam_complaint) carries them.
+create or replace function public._wh_after_email_dlq_insert()
+returns trigger language plpgsql security definer
+set search_path = public as $$
+declare
+  v_event text;
+begin
+  v_event := case new.kind
+    when 'hard_bounce'    then 'email.bounced'
+    when 'spam_complaint' then 'email.spam_complaint'
+    when 'unsubscribed'   then 'email.unsubscribed'
+    else null
+  end;
+
+  if v_event is not null and new.workspace_id is not null then
+    perform public.queue_webhook_event(
+      new.workspace_id,
+      v_event,
+      jsonb_build_object(
+        'id',                 new.id,
+        'workspace_id',       new.workspace_id,
+        'lead_id',            null,
+        'sender_account_id',  new.sender_account_id,
+        'message_id',         new.message_id,
+        'to_email',           new.to_email,
+        'kind',               new.kind,
+        'reason',             new.reason,
+        'source',             'provider',
+        'first_failed_at',    new.first_failed_at,
+        'last_failed_at',     new.last_failed_at
+      )
+    );
+  end if;
+  return null;
+exception when others then
+  raise warning '[wh] %.enqueue failed: % %', new.kind, sqlstate, sqlerrm;
+  return null;
+end;
+$$;
+
+-- ── 5. lead_scores → lead.score_changed ──────────────────────────────────
+
+create or replace function public._wh_after_lead_score_write()
+returns trigger language plpgsql security definer
+set search_path = public as $$
+begin
+  if tg_op = 'INSERT' or new.total_score is distinct from old.total_score then
+    perform public.queue_webhook_event(
+      new.workspace_id,
+      'lead.score_changed',
+      jsonb_build_object(
+        'lead_id',            new.lead_id,
+        'workspace_id',       new.workspace_id,
+        'business_id',        new.business_id,
+        'old_score',          case when tg_op = 'UPDATE' then old.total_score end,
+        'new_score',          new.total_score,
+        'delta',              new.total_score - coalesce(case when tg_op = 'UPDATE' then old.total_score end, 0),
+        'breakdown',          public._wh_score_breakdown(new),
+        'previous_breakdown', case when tg_op = 'UPDATE' then public._wh_score_breakdown(old) end,
+        'profile_id',         new.profile_id,
+        'reason_summary',     new.reason_summary,
+        'calculated_at',      new.last_calculated_at
+      )
+    );
+  end if;
+  return null;
+exception when others then
+  raise warning '[wh] lead.score_changed enqueue failed: % %', sqlstate, sqlerrm;
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_wh_lead_score_write on public.lead_scores;
+create trigger trg_wh_lead_score_write
+  after insert or update on public.lead_scores
+  for each row execute function public._wh_after_lead_score_write();
+
+-- ── 6. leads UPDATE OF status → lead.status_changed ──────────────────────
+
+create or replace function public._wh_after_lead_status_changed()
+returns trigger language plpgsql security definer
+set search_path = public as $$
+begin
+  if new.workspace_id is not null and (old.status is distinct from new.status) then
+    perform public.queue_webhook_event(
+      new.workspace_id,
+      'lead.status_changed',
+      public._wh_lead_payload(new) || jsonb_build_object('previous_status', old.status)
+    );
+  end if;
+  return null;
+exception when others then
+  raise warning '[wh] lead.status_changed enqueue failed: % %', sqlstate, sqlerrm;
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_wh_lead_status_changed on public.leads;
+create trigger trg_wh_lead_status_changed
+  after update of status on public.leads
+  for each row execute function public._wh_after_lead_status_changed();
+
+-- ── 7. deals → deal.created / deal.stage_changed / deal.won / deal.lost ──
+
+create or replace function public._wh_after_deal_write()
+returns trigger language plpgsql security definer
+set search_path = public as $$
+begin
+  if tg_op = 'INSERT' then
+    perform public.queue_webhook_event(new.workspace_id, 'deal.created', public._wh_deal_payload(new));
+  elsif new.stage is distinct from old.stage then
+    perform public.queue_webhook_event(
+      new.workspace_id, 'deal.stage_changed',
+      public._wh_deal_payload(new) || jsonb_build_object('previous_stage', old.stage)
+    );
+    if new.stage in ('won','lost') then
+      perform public.queue_webhook_event(
+        new.workspace_id, 'deal.' || new.stage,
+        public._wh_deal_payload(new) || jsonb_build_object('previous_stage', old.stage)
+      );
+    end if;
+  end if;
+  return null;
+exception when others then
+  raise warning '[wh] deal event enqueue failed: % %', sqlstate, sqlerrm;
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_wh_deal_insert on public.deals;
+create trigger trg_wh_deal_insert
+  after insert on public.deals
+  for each row execute function public._wh_after_deal_write();
+
+drop trigger if exists trg_wh_deal_stage_update on public.deals;
+create trigger trg_wh_deal_stage_update
+  after update of stage on public.deals
+  for each row execute function public._wh_after_deal_write();
+
+-- ── 8. tasks → task.created / task.completed ─────────────────────────────
+
+create or replace function public._wh_after_task_write()
+returns trigger language plpgsql security definer
+set search_path = public as $$
+begin
+  if tg_op = 'INSERT' then
+    perform public.queue_webhook_event(new.workspace_id, 'task.created', public._wh_task_payload(new));
+  elsif new.status = 'done' and old.status is distinct from 'done' then
+    perform public.queue_webhook_event(new.workspace_id, 'task.completed', public._wh_task_payload(new));
+  end if;
+  return null;
+exception when others then
+  raise warning '[wh] task event enqueue failed: % %', sqlstate, sqlerrm;
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_wh_task_insert on public.tasks;
+create trigger trg_wh_task_insert
+  after insert on public.tasks
+  for each row execute function public._wh_after_task_write();
+
+drop trigger if exists trg_wh_task_status_update on public.tasks;
+create trigger trg_wh_task_status_update
+  after update of status on public.tasks
+  for each row execute function public._wh_after_task_write();
+
+-- ── 9. lead_call_logs → call.completed ───────────────────────────────────
+-- A manual log (no call_sid) is complete when written. An in-app call is
+-- inserted as 'dialing' and completes when its status first turns terminal
+-- (set on hang-up by the client, then confirmed by twilio-call-status).
+
+create or replace function public._wh_after_call_log_write()
+returns trigger language plpgsql security definer
+set search_path = public as $$
+declare
+  v_terminal text[] := array['completed','no-answer','busy','failed','canceled'];
+  v_ws       uuid;
+begin
+  if (tg_op = 'INSERT' and (new.call_sid is null or new.status = any(v_terminal)))
+     or (tg_op = 'UPDATE' and new.status = any(v_terminal)
+         and (old.status is null or not old.status = any(v_terminal))) then
+    if new.lead_id is not null then
+      select workspace_id into v_ws from public.leads where id = new.lead_id;
+    end if;
+    v_ws := coalesce(v_ws, public._wh_owner_workspace(new.client_id));
+    if v_ws is not null then
+      perform public.queue_webhook_event(
+        v_ws,
+        'call.completed',
+        jsonb_build_object(
+          'id',               new.id,
+          'workspace_id',     v_ws,
+          'lead_id',          new.lead_id,
+          'direction',        new.direction,
+          'phone_number',     new.phone_number,
+          'outcome',          new.outcome,
+          'status',           coalesce(new.status, 'completed'),
+          'duration_seconds', new.duration_seconds,
+          'recording_url',    new.recording_url,
+          'notes',            new.notes,
+          'created_by',       new.created_by,
+          'created_at',       new.created_at
+        )
+      );
+    end if;
+  end if;
+  return null;
+exception when others then
+  raise warning '[wh] call.completed enqueue failed: % %', sqlstate, sqlerrm;
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_wh_call_log_insert on public.lead_call_logs;
+create trigger trg_wh_call_log_insert
+  after insert on public.lead_call_logs
+  for each row execute function public._wh_after_call_log_write();
+
+drop trigger if exists trg_wh_call_log_status_update on public.lead_call_logs;
+create trigger trg_wh_call_log_status_update
+  after update of status on public.lead_call_logs
+  for each row execute function public._wh_after_call_log_write();
+
+-- ── 10. Catalogue ────────────────────────────────────────────────────────
+
+comment on function public.queue_webhook_event(uuid, text, jsonb, int) is
+  'Fan-out an event to all matching webhook_endpoints, stamping p_version as the payload schema version. Returns the number of deliveries queued. Trigger-fired events: lead.created, lead.updated, lead.status_changed, lead.score_changed, sequence.completed, email.sent, email.replied, email.bounced, email.spam_complaint, email.unsubscribed, deal.created, deal.stage_changed, deal.won, deal.lost, task.created, task.completed, call.completed. Schemas: docs/api/openapi.yaml (webhooks). Apps may also queue custom events (e.g. test.ping from the UI).';
@@ -0,0 +1,371 @@
+-- ============================================================================
+-- 20260823180000_webhook_filters_replay.sql
+-- Per-endpoint event filters, a pinned payload version, bulk replay, and
+-- failure-based auto-disable that the owner hears about.
+--
+--   filters          jsonb { "<event_type>": <condition group> } in the lead
+--                    condition language (AuraEngine/lib/leadConditions.ts),
+--                    evaluated by webhook-dispatcher against the event payload.
+--                    A delivery whose payload doesn't match is marked
+--                    'skipped' instead of sent. Events with no entry always
+--                    pass.
+--   payload_version  Body layout the endpoint receives (webhook-dispatcher /
+--                    _shared/webhookEnvelope.ts). 1 = the original
+--                    { id, event_type, version, created_at, workspace_id,
+--                    payload }; 2 = payload split into data.object and
+--                    data.previous. Existing endpoints are pinned to 1 so
+--                    nothing changes under them; new endpoints default to 2.
+--
+-- replay_webhook_deliveries() re-queues an endpoint's failed / dead (and
+-- optionally delivered) deliveries in a time range, within the last 30 days,
+-- with their original ids so receivers can de-duplicate. retryDelivery in the
+-- UI never worked — webhook_deliveries has no UPDATE policy — so single
+-- retries go through retry_webhook_delivery() now. Both reset attempt_count,
+-- so a replayed delivery gets the full backoff schedule again.
+--
+-- Auto-disable: an endpoint stops after 50 consecutive failures (as before) or
+-- after 10+ consecutive failures with no success for 72 hours, and records
+-- disabled_reason = 'failing'. The dispatcher notifies the endpoint's creator.
+-- Events keep being queued for an endpoint disabled this way (not for one a
+-- user switched off), but deliveries for a disabled endpoint are not claimed:
+-- they wait as 'pending' and flow again when the endpoint is re-enabled.
+--
+-- Lead payloads gain tags and custom_fields (additive, still version 1) so
+-- endpoints can filter on them. Idempotent.
+-- ============================================================================
+
+-- ── 1. Endpoint settings ─────────────────────────────────────────────────
+
+alter table public.webhook_endpoints
+  add column if not exists filters         jsonb not null default '{}'::jsonb,
+  add column if not exists payload_version int,
+  add column if not exists disabled_reason text;
+
+update public.webhook_endpoints set payload_version = 1 where payload_version is null;
+
+alter table public.webhook_endpoints
+  alter column payload_version set default 2,
+  alter column payload_version set not null;
+
+do $$ begin
+  alter table public.webhook_endpoints
+    add constraint webhook_endpoints_payload_version_check check (payload_version in (1, 2));
+exception when duplicate_object then null; end $$;
+
+do $$ begin
+  alter table public.webhook_endpoints
+    add constraint webhook_endpoints_filters_check check (jsonb_typeof(filters) = 'object');
+exception when duplicate_object then null; end $$;
+
+-- Column-level SELECT (20260819110000): new columns must be granted one by one.
+grant select (filters, payload_version, disabled_reason) on public.webhook_endpoints to authenticated;
+
+comment on column public.webhook_endpoints.filters is
+  'Per-event condition groups ({"lead.updated": {"combinator":"and","rules":[...]}}). Evaluated by webhook-dispatcher against the payload; non-matching deliveries are marked skipped.';
+comment on column public.webhook_endpoints.payload_version is
+  'Pinned delivery body layout: 1 = flat payload (legacy), 2 = data.object + data.previous.';
+
+-- ── 2. Deliveries: skipped status, replay bookkeeping ────────────────────
+
+alter table public.webhook_deliveries
+  add column if not exists replay_count int not null default 0,
+  add column if not exists replayed_at  timestamptz;
+
+alter table public.webhook_deliveries drop constraint if exists webhook_deliveries_status_check;
+alter table public.webhook_deliveries add constraint webhook_deliveries_status_check
+  check (status in ('pending','processing','succeeded','failed','dead','skipped'));
+
+create index if not exists idx_webhook_deliveries_endpoint_created
+  on public.webhook_deliveries (endpoint_id, created_at desc);
+
+-- ── 3. Lead payload: tags + custom_fields ────────────────────────────────
+
+create or replace function public._wh_lead_payload(l public.leads)
+returns jsonb language sql immutable as $$
+  select jsonb_build_object(
+    'id',            l.id,
+    'workspace_id',  l.workspace_id,
+    'first_name',    l.first_name,
+    'last_name',     l.last_name,
+    'primary_email', l.primary_email,
+    'company',       l.company,
+    'status',        l.status,
+    'score',         l.score,
+    'source',        l.source,
+    'tags',          coalesce(to_jsonb(l.tags), '[]'::jsonb),
+    'custom_fields', coalesce(l.custom_fields, '{}'::jsonb),
+    'created_at',    l.created_at,
+    'updated_at',    l.updated_at
+  );
+$$;
+
+-- ── 4. Queue while failing; claim enabled endpoints only ────────────────
+
+-- As 20260823170000, plus endpoints the breaker turned off, so the outage
+-- isn't a gap in what the receiver eventually gets.
+create or replace function public.queue_webhook_event(
+  p_workspace_id uuid,
+  p_event_type   text,
+  p_payload      jsonb,
+  p_version      int default 1
+) returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count int;
+begin
+  insert into public.webhook_deliveries
+    (endpoint_id, workspace_id, event_type, payload, schema_version)
+  select
+    e.id, p_workspace_id, p_event_type, p_payload, p_version
+  from public.webhook_endpoints e
+  where e.workspace_id = p_workspace_id
+    and (e.enabled or e.disabled_reason = 'failing')
+    and (cardinality(e.event_types) = 0 or p_event_type = any(e.event_types));
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+drop function if exists public.claim_pending_webhook_deliveries(int);
+
+create or replace function public.claim_pending_webhook_deliveries(p_limit int default 50)
+returns table (
+  delivery_id     uuid,
+  endpoint_id     uuid,
+  workspace_id    uuid,
+  url             text,
+  secret          text,
+  event_type      text,
+  payload         jsonb,
+  attempt_count   int,
+  schema_version  int,
+  created_at      timestamptz,
+  replay_count    int,
+  filters         jsonb,
+  payload_version int
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  return query
+  with claimed as (
+    update public.webhook_deliveries d
+       set status = 'processing',
+           attempt_count = d.attempt_count + 1
+     where d.id in (
+       select wd.id
+         from public.webhook_deliveries wd
+         join public.webhook_endpoints we on we.id = wd.endpoint_id
+        where wd.status = 'pending'
+          and wd.next_attempt_at <= now()
+          and we.enabled
+        order by wd.next_attempt_at asc
+        for update of wd skip locked
+        limit p_limit
+     )
+    returning d.id, d.endpoint_id, d.workspace_id, d.event_type, d.payload, d.attempt_count,
+              d.schema_version, d.created_at, d.replay_count
+  )
+  select c.id, c.endpoint_id, c.workspace_id, e.url, e.secret, c.event_type, c.payload, c.attempt_count,
+         c.schema_version, c.created_at, c.replay_count, e.filters, e.payload_version
+    from claimed c
+    join public.webhook_endpoints e on e.id = c.endpoint_id;
+end;
+$$;
+
+revoke all on function public.claim_pending_webhook_deliveries(int) from public;
+grant execute on function public.claim_pending_webhook_deliveries(int) to service_role;
+
+-- ── 5. Skipped by filter ─────────────────────────────────────────────────
+
+create or replace function public.mark_webhook_delivery_skipped(
+  p_delivery_id uuid,
+  p_reason      text default null
+) returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.webhook_deliveries
+     set status = 'skipped',
+         last_error = p_reason,
+         last_status_code = null
+   where id = p_delivery_id;
+$$;
+
+revoke all on function public.mark_webhook_delivery_skipped(uuid, text) from public;
+grant execute on function public.mark_webhook_delivery_skipped(uuid, text) to service_role;
+
+-- ── 6. Result: auto-disable on sustained failure ─────────────────────────
+-- Same as 20260509300000 except the disable rule, which now also trips on
+-- 72 hours without a success, and records why.
+
+create or replace function public.mark_webhook_delivery_result(
+  p_delivery_id uuid,
+  p_succeeded   boolean,
+  p_status_code int default null,
+  p_error       text default null
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_attempt int;
+  v_ep_id   uuid;
+begin
+  if p_succeeded then
+    update public.webhook_deliveries
+       set status = 'succeeded',
+           last_status_code = p_status_code,
+           last_error = null,
+           succeeded_at = now()
+     where id = p_delivery_id
+     returning endpoint_id into v_ep_id;
+
+    if v_ep_id is not null then
+      update public.webhook_endpoints
+         set failure_count = 0,
+             last_success_at = now(),
+             last_attempt_at = now(),
+             updated_at = now()
+       where id = v_ep_id;
+    end if;
+  else
+    -- Backoff schedule: 1m, 5m, 30m, 2h, 12h. After 5 attempts → dead.
+    update public.webhook_deliveries
+       set status = case when attempt_count >= 5 then 'dead' else 'pending' end,
+           last_status_code = p_status_code,
+           last_error = p_error,
+           next_attempt_at = case attempt_count
+             when 1 then now() + interval '1 minute'
+             when 2 then now() + interval '5 minutes'
+             when 3 then now() + interval '30 minutes'
+             when 4 then now() + interval '2 hours'
+             else now() + interval '12 hours'
+           end
+     where id = p_delivery_id
+     returning endpoint_id, attempt_count into v_ep_id, v_attempt;
+
+    if v_ep_id is not null then
+      update public.webhook_endpoints
+         set failure_count = failure_count + 1,
+             last_attempt_at = now(),
+             updated_at = now()
+       where id = v_ep_id;
+
+      update public.webhook_endpoints
+         set enabled = false,
+             disabled_at = now(),
+             disabled_reason = 'failing'
+       where id = v_ep_id
+         and enabled
+         and (failure_count >= 50
+              or (failure_count >= 10
+                  and coalesce(last_success_at, created_at) < now() - interval '72 hours'));
+    end if;
+  end if;
+end;
+$$;
+
+revoke all on function public.mark_webhook_delivery_result(uuid, boolean, int, text) from public;
+grant execute on function public.mark_webhook_delivery_result(uuid, boolean, int, text) to service_role;
+
+-- Re-enabling from the UI clears the failure streak so one more failure
+-- doesn't immediately trip the breaker again.
+create or replace function public.webhook_endpoints_reenable()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.enabled and not old.enabled then
+    new.failure_count := 0;
+    new.disabled_at := null;
+    new.disabled_reason := null;
+  elsif not new.enabled and old.enabled and new.disabled_reason is null then
+    new.disabled_at := coalesce(new.disabled_at, now());
+    new.disabled_reason := 'manual';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_webhook_endpoints_reenable on public.webhook_endpoints;
+create trigger trg_webhook_endpoints_reenable
+  before update of enabled on public.webhook_endpoints
+  for each row execute function public.webhook_endpoints_reenable();
+
+-- ── 7. Replay ────────────────────────────────────────────────────────────
+
+create or replace function public.replay_webhook_deliveries(
+  p_endpoint_id       uuid,
+  p_from              timestamptz,
+  p_to                timestamptz,
+  p_include_delivered boolean default false
+) returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_ws    uuid;
+  v_count int;
+begin
+  select workspace_id into v_ws from public.webhook_endpoints where id = p_endpoint_id;
+  if v_ws is null or not public.is_workspace_member(v_ws) then
+    raise exception 'endpoint not found' using errcode = '42501';
+  end if;
+  if p_from is null or p_to is null or p_to <= p_from then
+    raise exception 'replay range is empty' using errcode = '22023';
+  end if;
+
+  update public.webhook_deliveries
+     set status = 'pending',
+         attempt_count = 0,
+         next_attempt_at = now(),
+         last_error = null,
+         replay_count = replay_count + 1,
+         replayed_at = now()
+   where endpoint_id = p_endpoint_id
+     and created_at >= greatest(p_from, now() - interval '30 days')
+     and created_at < p_to
+     and (status in ('failed','dead')
+          or (p_include_delivered and status in ('succeeded','skipped')));
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+revoke all on function public.replay_webhook_deliveries(uuid, timestamptz, timestamptz, boolean) from public;
+grant execute on function public.replay_webhook_deliveries(uuid, timestamptz, timestamptz, boolean) to authenticated;
+
+create or replace function public.retry_webhook_delivery(p_delivery_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.webhook_deliveries
+     set status = 'pending',
+         attempt_count = 0,
+         next_attempt_at = now(),
+         last_error = null,
+         replay_count = replay_count + 1,
+         replayed_at = now()
+   where id = p_delivery_id
+     and status in ('failed','dead','skipped')
+     and public.is_workspace_member(workspace_id);
+  if not found then
+    raise exception 'delivery not found or not retryable' using errcode = '42501';
+  end if;
+end;
+$$;
+
+revoke all on function public.retry_webhook_delivery(uuid) from public;
+grant execute on function public.retry_webhook_delivery(uuid) to authenticated;
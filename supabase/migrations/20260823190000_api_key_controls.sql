@@ -0,0 +1,284 @@
+-- ============================================================================
+-- 20260823190000_api_key_controls.sql
+-- Public API keys: resource scopes, business restriction, IP allowlist,
+-- plan-tier rate limits and per-key usage.
+--
+--   scopes              create_api_key now rejects unknown scopes. New
+--                       resources: deals, tasks, notes, suppression, webhooks
+--                       and senders (.read / .write each). Keep the list in
+--                       step with SCOPES in AuraEngine/lib/apiKeys.ts.
+--   business_id         Optional. A key restricted to one business only sees
+--                       and writes that business's rows; v1 endpoints whose
+--                       tables carry no business_id refuse such keys.
+--   ip_allowlist        Optional inet / cidr entries. Empty = any address.
+--                       verify_api_key() matches the caller's address and
+--                       reports ip_allowed so api-auth can answer 403.
+--   rate_limit_per_min  Optional per-key cap. The effective limit is the
+--                       owner's plan-tier limit (_shared/plans.ts
+--                       API_RATE_LIMITS), lowered by this when set.
+--
+-- consume_api_rate_limit() also rolls every request into
+-- api_key_usage_hourly (requests + throttled) for the usage chart on the API
+-- keys page. Hourly rows are kept for 90 days. Idempotent.
+-- ============================================================================
+
+-- ── 1. Key restrictions ──────────────────────────────────────────────────
+
+alter table public.api_keys
+  add column if not exists business_id        uuid references public.businesses(id) on delete cascade,
+  add column if not exists ip_allowlist       text[] not null default '{}',
+  add column if not exists rate_limit_per_min int;
+
+do $$ begin
+  alter table public.api_keys
+    add constraint api_keys_rate_limit_check check (rate_limit_per_min is null or rate_limit_per_min between 1 and 10000);
+exception when duplicate_object then null; end $$;
+
+comment on column public.api_keys.business_id is
+  'When set, the key only reaches rows of this business. Null = whole workspace.';
+comment on column public.api_keys.ip_allowlist is
+  'Caller addresses / CIDR ranges allowed to use the key. Empty = any.';
+comment on column public.api_keys.rate_limit_per_min is
+  'Optional per-key cap below the plan-tier API limit. Null = plan limit.';
+
+-- ── 2. create_api_key: scope validation + restrictions ───────────────────
+
+drop function if exists public.create_api_key(uuid, text, text, text[], timestamptz);
+
+create or replace function public.create_api_key(
+  p_workspace_id       uuid,
+  p_label              text,
+  p_plaintext          text,    -- full token incl. "scal_" prefix
+  p_scopes             text[] default array['leads.read'],
+  p_expires_at         timestamptz default null,
+  p_business_id        uuid default null,
+  p_ip_allowlist       text[] default '{}',
+  p_rate_limit_per_min int default null
+) returns uuid
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_id      uuid;
+  v_hash    text;
+  v_prefix  text;
+  v_unknown text[];
+  v_entry   text;
+  v_allow   text[] := '{}';
+begin
+  if not public.is_workspace_member(p_workspace_id) then
+    raise exception 'forbidden: caller not in workspace %', p_workspace_id;
+  end if;
+
+  if length(coalesce(p_plaintext, '')) < 16 then
+    raise exception 'api key plaintext too short';
+  end if;
+
+  select array_agg(s) into v_unknown
+    from unnest(coalesce(p_scopes, '{}'::text[])) s
+   where s not in (
+     'leads.read', 'leads.write', 'campaigns.read', 'campaigns.write', 'analytics.read',
+     'deals.read', 'deals.write', 'tasks.read', 'tasks.write', 'notes.read', 'notes.write',
+     'suppression.read', 'suppression.write', 'webhooks.read', 'webhooks.write',
+     'senders.read', 'senders.write'
+   );
+  if v_unknown is not null then
+    raise exception 'unknown scope(s): %', array_to_string(v_unknown, ', ') using errcode = '22023';
+  end if;
+
+  if p_business_id is not null and not exists (
+    select 1 from public.businesses where id = p_business_id and workspace_id = p_workspace_id
+  ) then
+    raise exception 'business % is not in this workspace', p_business_id using errcode = '22023';
+  end if;
+
+  foreach v_entry in array coalesce(p_ip_allowlist, '{}'::text[]) loop
+    v_entry := trim(v_entry);
+    continue when v_entry = '';
+    begin
+      perform v_entry::inet;
+    exception when others then
+      raise exception 'invalid IP address or range: %', v_entry using errcode = '22023';
+    end;
+    v_allow := array_append(v_allow, v_entry);
+  end loop;
+
+  v_hash   := encode(digest(p_plaintext, 'sha256'), 'hex');
+  v_prefix := left(p_plaintext, 12);  -- "scal_" + 7 chars of body
+
+  insert into public.api_keys
+    (workspace_id, created_by, label, key_hash, key_prefix, scopes, expires_at,
+     business_id, ip_allowlist, rate_limit_per_min)
+  values
+    (p_workspace_id, auth.uid(), coalesce(nullif(trim(p_label), ''), 'untitled'),
+     v_hash, v_prefix, coalesce(p_scopes, '{}'::text[]), p_expires_at,
+     p_business_id, v_allow, p_rate_limit_per_min)
+  returning id into v_id;
+
+  return v_id;
+end;
+$$;
+
+revoke all on function public.create_api_key(uuid, text, text, text[], timestamptz, uuid, text[], int) from public;
+grant execute on function public.create_api_key(uuid, text, text, text[], timestamptz, uuid, text[], int) to authenticated;
+
+-- ── 3. verify_api_key: restrictions + owner plan ─────────────────────────
+-- The caller's address is optional; a key with an allowlist and no address
+-- to check is refused.
+
+drop function if exists public.verify_api_key(text);
+
+create or replace function public.verify_api_key(
+  p_plaintext text,
+  p_client_ip text default null
+) returns table (
+  api_key_id         uuid,
+  workspace_id       uuid,
+  scopes             text[],
+  business_id        uuid,
+  ip_allowed         boolean,
+  rate_limit_per_min int,
+  plan               text
+)
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_hash  text;
+  v_key   public.api_keys;
+  v_ip    inet;
+  v_ok    boolean;
+begin
+  if p_plaintext is null or p_plaintext = '' then return; end if;
+  v_hash := encode(digest(p_plaintext, 'sha256'), 'hex');
+
+  select k.* into v_key
+    from public.api_keys k
+   where k.key_hash    = v_hash
+     and k.revoked_at is null
+     and (k.expires_at is null or k.expires_at > now())
+   limit 1;
+
+  if v_key.id is null then return; end if;
+
+  if cardinality(v_key.ip_allowlist) = 0 then
+    v_ok := true;
+  else
+    begin
+      v_ip := nullif(trim(p_client_ip), '')::inet;
+    exception when others then
+      v_ip := null;
+    end;
+    v_ok := v_ip is not null and exists (
+      select 1 from unnest(v_key.ip_allowlist) a where v_ip <<= a::inet
+    );
+  end if;
+
+  if v_ok then
+    begin
+      update public.api_keys set last_used_at = now() where id = v_key.id;
+    exception when others then null;
+    end;
+  end if;
+
+  api_key_id         := v_key.id;
+  workspace_id       := v_key.workspace_id;
+  scopes             := v_key.scopes;
+  business_id        := v_key.business_id;
+  ip_allowed         := v_ok;
+  rate_limit_per_min := v_key.rate_limit_per_min;
+  plan               := (select p.plan from public.workspaces w
+                           join public.profiles p on p.id = w.owner_id
+                          where w.id = v_key.workspace_id);
+  return next;
+end;
+$$;
+
+revoke all on function public.verify_api_key(text, text) from public;
+grant execute on function public.verify_api_key(text, text) to service_role;
+
+comment on function public.verify_api_key(text, text) is
+  'Edge-function-only. Hashes plaintext, looks up the active api_keys row and returns its workspace, scopes, business restriction, whether p_client_ip passes the allowlist, the per-key cap and the workspace owner''s plan. Returns 0 rows if the key is invalid, expired, or revoked.';
+
+-- ── 4. Hourly usage ──────────────────────────────────────────────────────
+
+create table if not exists public.api_key_usage_hourly (
+  api_key_id   uuid not null references public.api_keys(id) on delete cascade,
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  hour         timestamptz not null,                           -- truncated to hour
+  requests     int not null default 0,
+  throttled    int not null default 0,
+  primary key (api_key_id, hour)
+);
+
+create index if not exists idx_api_key_usage_hourly_ws
+  on public.api_key_usage_hourly (workspace_id, hour desc);
+
+alter table public.api_key_usage_hourly enable row level security;
+
+do $$ begin
+  create policy api_key_usage_hourly_select on public.api_key_usage_hourly
+    for select using (public.is_workspace_member(workspace_id));
+exception when duplicate_object then null; end $$;
+
+comment on table public.api_key_usage_hourly is
+  'Per-key request counts by hour (throttled = answered 429). Written by consume_api_rate_limit(); kept 90 days.';
+
+create or replace function public.consume_api_rate_limit(
+  p_key_id      uuid,
+  p_max_per_min int default 60
+) returns table (
+  allowed       boolean,
+  current_count int,
+  reset_at      timestamptz
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_bucket timestamptz := date_trunc('minute', now());
+  v_count  int;
+begin
+  insert into public.api_rate_limit_buckets (api_key_id, bucket_minute, count)
+  values (p_key_id, v_bucket, 1)
+  on conflict (api_key_id, bucket_minute)
+  do update set count = public.api_rate_limit_buckets.count + 1
+  returning count into v_count;
+
+  insert into public.api_key_usage_hourly (api_key_id, workspace_id, hour, requests, throttled)
+  select k.id, k.workspace_id, date_trunc('hour', now()), 1,
+         case when v_count > p_max_per_min then 1 else 0 end
+    from public.api_keys k
+   where k.id = p_key_id
+  on conflict (api_key_id, hour)
+  do update set requests  = public.api_key_usage_hourly.requests + 1,
+                throttled = public.api_key_usage_hourly.throttled + excluded.throttled;
+
+  allowed       := v_count <= p_max_per_min;
+  current_count := v_count;
+  reset_at      := v_bucket + interval '1 minute';
+  return next;
+end;
+$$;
+
+revoke all on function public.consume_api_rate_limit(uuid, int) from public;
+grant execute on function public.consume_api_rate_limit(uuid, int) to service_role;
+
+-- The hourly purge cron (purge-api-rate-limit-buckets) also ages out usage.
+create or replace function public.purge_api_rate_limit_buckets()
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from public.api_rate_limit_buckets
+   where bucket_minute < now() - interval '1 hour';
+  delete from public.api_key_usage_hourly
+   where hour < now() - interval '90 days';
+$$;
+
+revoke all on function public.purge_api_rate_limit_buckets() from public;
+grant execute on function public.purge_api_rate_limit_buckets() to service_role;
@@ -0,0 +1,257 @@
+-- ============================================================================
+-- 20260823200000_crm_sync.sql
+-- Server-side, two-way HubSpot / Salesforce sync.
+--
+-- The sync_crm workflow action used to POST a new contact from the browser
+-- every time it ran and threw the returned id away, so each run made another
+-- duplicate. The crm-sync edge function (_shared/crm/) now owns the job:
+--
+--   crm_record_links   lead ↔ CRM record id, one per (owner, lead, provider):
+--                      connections are per user, so two members who connect
+--                      their own portals each link the lead separately. A
+--                      lead with no link is matched to an existing CRM record
+--                      by email before anything is created. synced_values holds
+--                      the field values both sides agreed on at the last
+--                      sync; a field that differs from it has changed on that
+--                      side. needs_push is raised by a trigger when a synced
+--                      lead column changes, and cleared by the next push.
+--   crm_sync_settings  per user + provider: scheduled sync on/off, the
+--                      field-level source-of-truth rules, the pull cursor and
+--                      the lease a running pass holds (claim_crm_sync), so
+--                      the cron and "sync now" never run side by side.
+--                      Rules: 'scaliyo' (ours wins, CRM edits are pushed
+--                      over), 'crm' (theirs wins, never pushed after create),
+--                      'newest' (the later edit wins).
+--   crm_sync_log       one row per record per sync — what moved, which way,
+--                      which rule decided each conflict, or why it failed.
+--
+-- Every 10 minutes invoke_crm_sync() wakes crm-sync when any connected
+-- integration has sync enabled: it pulls CRM-side changes (status, owner,
+-- deal stage and contact fields) for linked leads, then pushes leads flagged
+-- needs_push. Log rows are kept 90 days. Idempotent.
+-- ============================================================================
+
+-- ── 1. Record links ──────────────────────────────────────────────────────
+
+create table if not exists public.crm_record_links (
+  id                uuid primary key default gen_random_uuid(),
+  workspace_id      uuid not null references public.workspaces(id) on delete cascade,
+  owner_id          uuid not null references auth.users(id) on delete cascade,
+  lead_id           uuid not null references public.leads(id) on delete cascade,
+  provider          text not null check (provider in ('hubspot','salesforce')),
+  external_id       text not null,
+  synced_values     jsonb not null default '{}'::jsonb,
+  needs_push        boolean not null default false,
+  last_pushed_at    timestamptz,
+  last_pulled_at    timestamptz,
+  remote_updated_at timestamptz,
+  created_at        timestamptz not null default now(),
+  updated_at        timestamptz not null default now(),
+  unique (owner_id, lead_id, provider),
+  unique (owner_id, provider, external_id)
+);
+
+create index if not exists idx_crm_record_links_push
+  on public.crm_record_links (owner_id, provider) where needs_push;
+
+alter table public.crm_record_links enable row level security;
+
+do $$ begin
+  create policy crm_record_links_select on public.crm_record_links
+    for select using (public.is_workspace_member(workspace_id));
+exception when duplicate_object then null; end $$;
+
+comment on table public.crm_record_links is
+  'Lead ↔ HubSpot/Salesforce record id. Written only by crm-sync (service role).';
+
+-- A change to a synced column queues the lead for the next push. crm-sync's
+-- own pull writes trip this too; the push then finds nothing new against
+-- synced_values and sends nothing.
+create or replace function public.crm_links_mark_dirty()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.crm_record_links
+     set needs_push = true, updated_at = now()
+   where lead_id = new.id and not needs_push;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_leads_crm_dirty on public.leads;
+create trigger trg_leads_crm_dirty
+  after update of first_name, last_name, primary_email, primary_phone, company, title, status
+  on public.leads
+  for each row
+  when (old.first_name    is distinct from new.first_name
+     or old.last_name     is distinct from new.last_name
+     or old.primary_email is distinct from new.primary_email
+     or old.primary_phone is distinct from new.primary_phone
+     or old.company       is distinct from new.company
+     or old.title         is distinct from new.title
+     or old.status        is distinct from new.status)
+  execute function public.crm_links_mark_dirty();
+
+-- ── 2. Settings ──────────────────────────────────────────────────────────
+
+create table if not exists public.crm_sync_settings (
+  owner_id      uuid not null references auth.users(id) on delete cascade,
+  provider      text not null check (provider in ('hubspot','salesforce')),
+  enabled       boolean not null default true,
+  field_rules   jsonb not null default '{}'::jsonb,
+  pull_cursor   timestamptz,
+  last_run_at   timestamptz,
+  last_error    text,
+  syncing_until timestamptz,
+  created_at    timestamptz not null default now(),
+  updated_at    timestamptz not null default now(),
+  primary key (owner_id, provider)
+);
+
+alter table public.crm_sync_settings enable row level security;
+
+do $$ begin
+  create policy crm_sync_settings_select on public.crm_sync_settings
+    for select using (owner_id = auth.uid());
+exception when duplicate_object then null; end $$;
+do $$ begin
+  create policy crm_sync_settings_insert on public.crm_sync_settings
+    for insert with check (owner_id = auth.uid());
+exception when duplicate_object then null; end $$;
+do $$ begin
+  create policy crm_sync_settings_update on public.crm_sync_settings
+    for update using (owner_id = auth.uid()) with check (owner_id = auth.uid());
+exception when duplicate_object then null; end $$;
+
+do $$ begin
+  alter table public.crm_sync_settings
+    add constraint crm_sync_settings_rules_check check (jsonb_typeof(field_rules) = 'object');
+exception when duplicate_object then null; end $$;
+
+comment on column public.crm_sync_settings.field_rules is
+  'Per-field source of truth: {"status":"newest","owner":"crm",...}; values scaliyo | crm | newest. Missing fields use the defaults in _shared/crm/fields.ts.';
+
+-- Starts a pass: takes the lease unless a live one is held, creating the row
+-- on a first manual sync (schedule off until the owner turns it on). No row
+-- back means another pass is running. The pass clears syncing_until when it
+-- ends; a crashed one's lease simply runs out.
+create or replace function public.claim_crm_sync(p_owner_id uuid, p_provider text, p_lease_seconds int default 300)
+returns setof public.crm_sync_settings
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.crm_sync_settings as s (owner_id, provider, enabled, syncing_until)
+  values (p_owner_id, p_provider, false, now() + make_interval(secs => p_lease_seconds))
+  on conflict (owner_id, provider) do update
+     set syncing_until = excluded.syncing_until
+   where s.syncing_until is null or s.syncing_until < now()
+  returning s.*;
+$$;
+
+revoke all on function public.claim_crm_sync(uuid, text, int) from public, anon, authenticated;
+grant execute on function public.claim_crm_sync(uuid, text, int) to service_role;
+
+-- ── 3. History ───────────────────────────────────────────────────────────
+
+create table if not exists public.crm_sync_log (
+  id           uuid primary key default gen_random_uuid(),
+  run_id       uuid not null,
+  owner_id     uuid not null references auth.users(id) on delete cascade,
+  workspace_id uuid references public.workspaces(id) on delete cascade,
+  provider     text not null,
+  direction    text not null check (direction in ('push','pull')),
+  source       text not null check (source in ('schedule','manual','workflow')),
+  lead_id      uuid references public.leads(id) on delete set null,
+  external_id  text,
+  outcome      text not null
+               check (outcome in ('created','linked','updated','unchanged','skipped','failed')),
+  changes      jsonb not null default '[]'::jsonb,
+  error        text,
+  created_at   timestamptz not null default now()
+);
+
+create index if not exists idx_crm_sync_log_owner
+  on public.crm_sync_log (owner_id, provider, created_at desc);
+create index if not exists idx_crm_sync_log_lead
+  on public.crm_sync_log (lead_id, created_at desc);
+
+alter table public.crm_sync_log enable row level security;
+
+do $$ begin
+  create policy crm_sync_log_select on public.crm_sync_log
+    for select using (
+      owner_id = auth.uid()
+      or (workspace_id is not null and public.is_workspace_member(workspace_id))
+    );
+exception when duplicate_object then null; end $$;
+
+comment on table public.crm_sync_log is
+  'One row per record per CRM sync. changes = [{field, from, to, winner, conflict, applied, note}]. Kept 90 days.';
+
+create or replace function public.purge_crm_sync_log()
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from public.crm_sync_log where created_at < now() - interval '90 days';
+$$;
+
+revoke all on function public.purge_crm_sync_log() from public;
+grant execute on function public.purge_crm_sync_log() to service_role;
+
+do $$ begin
+  perform cron.unschedule('purge-crm-sync-log');
+exception when others then null; end $$;
+select cron.schedule('purge-crm-sync-log', '41 3 * * *', 'select public.purge_crm_sync_log();');
+
+-- ── 4. Scheduled sync ────────────────────────────────────────────────────
+
+create or replace function public.invoke_crm_sync()
+returns bigint language plpgsql security definer set search_path to 'public', 'vault' as $$
+declare
+  v_url    text := 'https://utvydxqiqedaaxmmpfpf.functions.supabase.co/crm-sync';
+  v_token  text;
+  v_req_id bigint;
+  v_due    int;
+begin
+  -- Only fire when someone has a connected CRM with sync switched on.
+  select count(*) into v_due
+    from public.crm_sync_settings s
+    join public.integrations i on i.owner_id = s.owner_id and i.provider = s.provider
+   where s.enabled and i.status = 'connected'
+   limit 1;
+  if v_due = 0 then
+    return null;
+  end if;
+
+  v_token := nullif(current_setting('app.settings.service_role_key', true), '');
+  if v_token is null then
+    select decrypted_secret into v_token
+      from vault.decrypted_secrets where name = 'webhook_dispatcher_service_key' limit 1;
+  end if;
+  if v_token is null or v_token = '' then
+    raise warning 'invoke_crm_sync: no service-role token in GUC or vault — skipping';
+    return null;
+  end if;
+
+  select net.http_post(
+    url     := v_url,
+    headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer ' || v_token),
+    body    := '{}'::jsonb,
+    timeout_milliseconds := 30000
+  ) into v_req_id;
+  return v_req_id;
+end;
+$$;
+
+revoke all on function public.invoke_crm_sync() from public;
+
+do $$ begin
+  perform cron.unschedule('invoke-crm-sync');
+exception when others then null; end $$;
+select cron.schedule('invoke-crm-sync', '*/10 * * * *', 'select public.invoke_crm_sync();');
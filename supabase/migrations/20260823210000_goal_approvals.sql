@@ -0,0 +1,252 @@
+-- ============================================================================
+-- 20260823210000_goal_approvals.sql
+-- Approval gates for goal plans.
+--
+-- The new `approval` step kind (_shared/goal-steps/approval.ts) pauses its
+-- branch of a live plan until a workspace owner/admin decides. The executor
+-- parks the step_run as pending with no not_before, so the resume sweep
+-- leaves it alone; the branch's downstream steps wait while independent
+-- branches keep running.
+--
+--   automation_step_approvals  one row per paused approval step_run, with the
+--                              dry-run preview of every downstream step so
+--                              the approver sees what they are letting
+--                              through. Members can read; only the executor
+--                              and decide_goal_approval() write.
+--   decide_goal_approval()     owner/admin records approve/reject, marks the
+--                              step_run due and kicks cron_resume_paused_goals
+--                              so the plan carries on straight away. A
+--                              rejection fails the step and the executor
+--                              skips everything downstream of it.
+--
+-- cron_observe_goal_drift() is redefined so a goal held on a pending approval
+-- is not reported as paused_too_long or stalled_running (either would trigger
+-- an auto-replan).
+--
+-- With parallel branches several paused steps of one goal can be claimed in
+-- separate sweeps, so two executor invocations may work on the same plan at
+-- once. automation_step_runs.claimed_by records which invocation owns a
+-- running step: the executor only runs rows it claimed (claimed_by was null)
+-- or inserted itself, and the (plan_id, step_id, attempt_count) unique key
+-- lets exactly one invocation start a not-yet-started step.
+-- Idempotent.
+-- ============================================================================
+
+-- ── 1. Approval requests ─────────────────────────────────────────────────
+
+create table if not exists public.automation_step_approvals (
+  id              uuid primary key default gen_random_uuid(),
+  goal_id         uuid not null references public.automation_goals(id) on delete cascade,
+  plan_id         uuid not null references public.automation_plans(id) on delete cascade,
+  workspace_id    uuid not null references public.workspaces(id) on delete cascade,
+  step_run_id     uuid not null unique references public.automation_step_runs(id) on delete cascade,
+  step_id         text not null,
+  title           text not null default '',
+  message         text,
+  preview         jsonb not null default '[]'::jsonb,
+  status          text not null default 'pending'
+                    check (status in ('pending','approved','rejected')),
+  requested_at    timestamptz not null default now(),
+  decided_by      uuid references auth.users(id) on delete set null,
+  decided_at      timestamptz,
+  decision_note   text
+);
+
+create index if not exists idx_automation_step_approvals_plan
+  on public.automation_step_approvals (plan_id, requested_at desc);
+
+create index if not exists idx_automation_step_approvals_pending
+  on public.automation_step_approvals (workspace_id)
+  where status = 'pending';
+
+alter table public.automation_step_approvals enable row level security;
+
+do $$ begin
+  create policy automation_step_approvals_select on public.automation_step_approvals
+    for select using (
+      workspace_id in (select workspace_id from public.workspace_members where user_id = auth.uid())
+    );
+exception when duplicate_object then null;
+end $$;
+
+-- NO insert/update/delete policies — the executor writes requests with the
+-- service role and decisions go through decide_goal_approval().
+
+comment on table public.automation_step_approvals is
+  'Approval requests raised by approval steps in live goal plans. preview holds the dry-run of every downstream step. Decided by a workspace owner/admin via decide_goal_approval().';
+
+-- ── 2. decide_goal_approval ──────────────────────────────────────────────
+
+create or replace function public.decide_goal_approval(
+  p_approval_id uuid,
+  p_approve     boolean,
+  p_note        text default null
+)
+returns public.automation_step_approvals
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row public.automation_step_approvals;
+begin
+  select * into v_row
+    from public.automation_step_approvals
+   where id = p_approval_id
+   for update;
+  if not found then
+    raise exception 'Approval not found' using errcode = 'P0002';
+  end if;
+
+  if not exists (
+    select 1 from public.workspace_members
+     where workspace_id = v_row.workspace_id
+       and user_id = auth.uid()
+       and role in ('owner','admin')
+  ) then
+    raise exception 'Only workspace owners and admins can decide approvals' using errcode = '42501';
+  end if;
+
+  if v_row.status <> 'pending' then
+    raise exception 'Approval was already %', v_row.status using errcode = '55000';
+  end if;
+
+  update public.automation_step_approvals
+     set status        = case when p_approve then 'approved' else 'rejected' end,
+         decided_by    = auth.uid(),
+         decided_at    = now(),
+         decision_note = nullif(btrim(coalesce(p_note, '')), '')
+   where id = p_approval_id
+  returning * into v_row;
+
+  -- Make the parked step due; the resume sweep claims it and the executor
+  -- reads the decision.
+  update public.automation_step_runs
+     set not_before = now()
+   where id = v_row.step_run_id
+     and status = 'pending';
+
+  perform public.cron_resume_paused_goals();
+
+  return v_row;
+end;
+$$;
+
+revoke all on function public.decide_goal_approval(uuid, boolean, text) from public, anon;
+grant execute on function public.decide_goal_approval(uuid, boolean, text) to authenticated;
+
+-- ── 3. Observer: approvals are not drift ─────────────────────────────────
+
+create or replace function public.cron_observe_goal_drift()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_goal      record;
+  v_obs       jsonb;
+  v_reason    text;
+begin
+  for v_goal in
+    select g.id, g.workspace_id, g.statement, g.status, g.target_value, g.progress_value, g.due_at, g.updated_at
+      from public.automation_goals g
+     where g.status in ('active','running','paused')
+  loop
+    v_obs := null;
+
+    -- (a) past due with progress < target
+    if v_goal.due_at is not null and v_goal.due_at < now() and v_goal.progress_value < v_goal.target_value then
+      v_reason := 'past_due_with_unmet_target';
+      v_obs := jsonb_build_object(
+        'kind', v_reason,
+        'goal_id', v_goal.id,
+        'progress', v_goal.progress_value,
+        'target', v_goal.target_value,
+        'due_at', v_goal.due_at,
+        'observed_at', now()
+      );
+    end if;
+
+    -- (b) paused for > 12h — unless a step is waiting on an admin decision,
+    --     which is a deliberate hold rather than drift.
+    if v_obs is null and v_goal.status = 'paused' and v_goal.updated_at < now() - interval '12 hours'
+       and not exists (
+         select 1 from public.automation_step_approvals a
+         where a.goal_id = v_goal.id and a.status = 'pending'
+       ) then
+      v_reason := 'paused_too_long';
+      v_obs := jsonb_build_object(
+        'kind', v_reason,
+        'goal_id', v_goal.id,
+        'paused_since', v_goal.updated_at,
+        'observed_at', now()
+      );
+    end if;
+
+    -- (c) running without recent step progress — a step waiting on an admin
+    --     decision isn't a stall either.
+    if v_obs is null and v_goal.status = 'running' then
+      if not exists (
+        select 1 from public.automation_step_runs
+        where goal_id = v_goal.id
+          and completed_at > now() - interval '6 hours'
+      ) and not exists (
+        select 1 from public.automation_step_approvals a
+        where a.goal_id = v_goal.id and a.status = 'pending'
+      ) then
+        v_reason := 'stalled_running';
+        v_obs := jsonb_build_object(
+          'kind', v_reason,
+          'goal_id', v_goal.id,
+          'observed_at', now()
+        );
+      end if;
+    end if;
+
+    if v_obs is null then continue; end if;
+
+    -- De-dup: don't write the same observation kind for the same goal
+    -- if one was written in the last 24h.
+    if exists (
+      select 1 from public.workspace_memory wm
+      where wm.workspace_id = v_goal.workspace_id
+        and wm.kind = 'observation'
+        and wm.key = 'goal:' || v_goal.id::text
+        and wm.value->>'kind' = v_reason
+        and wm.created_at > now() - interval '24 hours'
+    ) then
+      continue;
+    end if;
+
+    insert into public.workspace_memory (
+      workspace_id, kind, key, value, source, confidence, tags
+    ) values (
+      v_goal.workspace_id,
+      'observation',
+      'goal:' || v_goal.id::text,
+      v_obs,
+      'goal_observer',
+      0.80,
+      array['goal','observation', v_reason]
+    );
+  end loop;
+exception when others then
+  raise warning 'cron_observe_goal_drift failed: % %', sqlstate, sqlerrm;
+end;
+$$;
+
+revoke all on function public.cron_observe_goal_drift() from public;
+grant execute on function public.cron_observe_goal_drift() to service_role;
+
+-- ── 4. Step-run ownership ────────────────────────────────────────────────
+--
+-- Set by goal-executor when it claims or inserts a step_run and cleared when
+-- the step parks again. A running row with claimed_by null was claimed by the
+-- resume sweep and is up for grabs by the invocation that sweep started.
+
+alter table public.automation_step_runs
+  add column if not exists claimed_by uuid;
+
+comment on column public.automation_step_runs.claimed_by is
+  'goal-executor invocation running this step. Null while pending, or while running but not yet picked up after a resume-sweep claim.';
@@ -0,0 +1,565 @@
+-- ============================================================================
+-- 20260823220000_goal_forecasts.sql
+-- ----------------------------------------------------------------------------
+-- Goal progress snapshots, forecast and the falling_behind drift signal.
+--
+-- automation_goals.progress_value only moved when goal-executor called
+-- advance_goal_progress — a fixed share per succeeded step, dry runs
+-- included — so it tracked steps run, not the goal's metric, and
+-- /portal/goals could not tell whether a goal was on track. The snapshot cron
+-- below is now the only writer for metrics goal_metric_value() can read; the
+-- executor advances progress only for other metrics, and only in live runs,
+-- so their snapshots (source 'progress') still count completed steps rather
+-- than the metric itself. This migration:
+--
+--   1. automation_goal_snapshots — a time series of each goal's metric.
+--   2. goal_metric_value(goal)   — reads the goal's target_metric from live
+--      tables, counted from the goal's created_at. Unknown metrics return
+--      null and the snapshot falls back to progress_value. qualified_leads
+--      counts leads moved into Qualified/Converted, from the new
+--      lead_status_history a trigger on leads.status keeps.
+--   3. cron_snapshot_goal_metrics() — hourly at :27 (before the observer's
+--      :37). Writes a snapshot when the value moved, plus at most one "still
+--      the same" snapshot a day so flat stretches show up on the burn-up
+--      chart, and keeps progress_value in step.
+--   4. goal_forecast(goal)       — velocity over the last 7 days of
+--      snapshots, the projected value at due_at and the projected completion
+--      date. Port of forecastGoal() in AuraEngine/lib/goals.ts — keep the two
+--      in step.
+--   5. cron_observe_goal_drift() — adds falling_behind: the projection at
+--      due_at is under 90% of target.
+--   6. cron_auto_replan_drifting_goals() — only fires for an observation the
+--      replanner hasn't seen yet (newer than its last plan), so one signal
+--      triggers one replan instead of one every cooldown window for a day.
+--      falling_behind goals go first.
+--
+-- Idempotent.
+-- ============================================================================
+
+-- ── 1. Snapshots ─────────────────────────────────────────────────────────
+
+create table if not exists public.automation_goal_snapshots (
+  id            uuid primary key default gen_random_uuid(),
+  goal_id       uuid not null references public.automation_goals(id) on delete cascade,
+  workspace_id  uuid not null references public.workspaces(id) on delete cascade,
+  metric        text not null,
+  value         numeric not null,
+  target_value  numeric not null,
+  -- 'metric' = read by goal_metric_value(); 'progress' = the goal's
+  -- progress_value, for metrics outside the catalogue.
+  source        text not null default 'metric' check (source in ('metric','progress')),
+  captured_at   timestamptz not null default now()
+);
+
+create index if not exists idx_automation_goal_snapshots_goal
+  on public.automation_goal_snapshots (goal_id, captured_at desc);
+
+alter table public.automation_goal_snapshots enable row level security;
+
+-- Read-only for members; rows are written by the cron below.
+do $$ begin
+  create policy automation_goal_snapshots_select on public.automation_goal_snapshots
+    for select using (
+      workspace_id in (select workspace_id from public.workspace_members where user_id = auth.uid())
+    );
+exception when duplicate_object then null; end $$;
+
+comment on table public.automation_goal_snapshots is
+  'Time series of each goal''s target_metric, written hourly by cron_snapshot_goal_metrics. Feeds the burn-up chart and goal_forecast().';
+
+-- ── 2. Metric catalogue ──────────────────────────────────────────────────
+--
+-- Mirrors GOAL_TRACKED_METRICS in AuraEngine/lib/goals.ts.
+
+-- leads.updated_at moves on any edit, so "qualified since" needs the moment
+-- the status changed. Starts empty: leads qualified before this migration
+-- predate every goal that can count them.
+create table if not exists public.lead_status_history (
+  id           uuid primary key default gen_random_uuid(),
+  lead_id      uuid not null references public.leads(id) on delete cascade,
+  workspace_id uuid not null,
+  from_status  text,
+  to_status    text not null,
+  changed_at   timestamptz not null default now()
+);
+
+create index if not exists idx_lead_status_history_workspace
+  on public.lead_status_history (workspace_id, to_status, changed_at);
+create index if not exists idx_lead_status_history_lead
+  on public.lead_status_history (lead_id, changed_at desc);
+
+alter table public.lead_status_history enable row level security;
+
+-- Read-only for members; rows are written by the trigger below.
+do $$ begin
+  create policy "members read status history" on public.lead_status_history for select
+    using (public.is_workspace_member(workspace_id));
+exception when duplicate_object then null; end $$;
+
+create or replace function public._lead_record_status_change()
+returns trigger language plpgsql security definer
+set search_path = public as $$
+begin
+  if new.workspace_id is null or new.status is null then return null; end if;
+  if tg_op = 'UPDATE' and new.status is not distinct from old.status then return null; end if;
+  insert into public.lead_status_history (lead_id, workspace_id, from_status, to_status)
+  values (new.id, new.workspace_id, case when tg_op = 'UPDATE' then old.status end, new.status);
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_lead_status_history on public.leads;
+create trigger trg_lead_status_history
+  after insert or update of status on public.leads
+  for each row execute function public._lead_record_status_change();
+
+create or replace function public.goal_metric_value(p_goal_id uuid)
+returns numeric
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_goal  record;
+  v_value numeric;
+begin
+  select id, workspace_id, target_metric, created_at into v_goal
+    from public.automation_goals where id = p_goal_id;
+  if not found then return null; end if;
+
+  case v_goal.target_metric
+    when 'meetings_booked', 'demos' then
+      select count(*) into v_value
+        from public.lead_meetings m
+        join public.leads l on l.id = m.lead_id
+       where l.workspace_id = v_goal.workspace_id
+         and m.created_at >= v_goal.created_at
+         and m.status <> 'cancelled';
+    when 'replies' then
+      select count(*) into v_value
+        from public.inbound_emails
+       where workspace_id = v_goal.workspace_id
+         and received_at >= v_goal.created_at;
+    when 'qualified_leads' then
+      -- Each lead once, however often it moves in and out of Qualified.
+      select count(distinct h.lead_id) into v_value
+        from public.lead_status_history h
+       where h.workspace_id = v_goal.workspace_id
+         and h.to_status in ('Qualified','Converted')
+         and h.from_status is distinct from 'Qualified'
+         and h.from_status is distinct from 'Converted'
+         and h.changed_at >= v_goal.created_at;
+    when 'pipeline_value' then
+      select coalesce(sum(value_amount), 0) into v_value
+        from public.deals
+       where workspace_id = v_goal.workspace_id
+         and created_at >= v_goal.created_at
+         and stage <> 'lost';
+    when 'new_logos' then
+      select count(*) into v_value
+        from public.deals
+       where workspace_id = v_goal.workspace_id
+         and stage = 'won'
+         and won_at >= v_goal.created_at;
+    when 'new_leads', 'leads_total' then
+      select count(*) into v_value
+        from public.leads
+       where workspace_id = v_goal.workspace_id
+         and created_at >= v_goal.created_at;
+    when 'emails_sent' then
+      select count(*) into v_value
+        from public.email_messages
+       where workspace_id = v_goal.workspace_id
+         and created_at >= v_goal.created_at;
+    else
+      v_value := null;
+  end case;
+
+  return v_value;
+end;
+$$;
+
+revoke all on function public.goal_metric_value(uuid) from public;
+grant execute on function public.goal_metric_value(uuid) to service_role;
+
+-- A progress-only update (the snapshot cron) must not bump updated_at: the
+-- observer reads it as "paused since".
+create or replace function public.touch_automation_goals()
+returns trigger language plpgsql as $$
+begin
+  if (to_jsonb(new) - 'progress_value' - 'updated_at') = (to_jsonb(old) - 'progress_value' - 'updated_at') then
+    return new;
+  end if;
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+-- ── 3. Snapshot cron ─────────────────────────────────────────────────────
+
+create or replace function public.cron_snapshot_goal_metrics()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_goal   record;
+  v_last   record;
+  v_value  numeric;
+  v_source text;
+begin
+  for v_goal in
+    select g.id, g.workspace_id, g.target_metric, g.target_value, g.progress_value
+      from public.automation_goals g
+     where g.status in ('planned','active','running','paused')
+  loop
+    begin
+      v_value := public.goal_metric_value(v_goal.id);
+      if v_value is null then
+        v_value  := v_goal.progress_value;
+        v_source := 'progress';
+      else
+        v_source := 'metric';
+        update public.automation_goals
+           set progress_value = least(target_value, v_value)
+         where id = v_goal.id
+           and progress_value is distinct from least(target_value, v_value);
+      end if;
+
+      select value, captured_at into v_last
+        from public.automation_goal_snapshots
+       where goal_id = v_goal.id
+       order by captured_at desc
+       limit 1;
+      if found and v_last.value = v_value and v_last.captured_at > now() - interval '1 day' then
+        continue;
+      end if;
+
+      insert into public.automation_goal_snapshots (goal_id, workspace_id, metric, value, target_value, source)
+      values (v_goal.id, v_goal.workspace_id, v_goal.target_metric, v_value, v_goal.target_value, v_source);
+    exception when others then
+      raise warning 'cron_snapshot_goal_metrics failed for %: % %', v_goal.id, sqlstate, sqlerrm;
+    end;
+  end loop;
+end;
+$$;
+
+revoke all on function public.cron_snapshot_goal_metrics() from public;
+grant execute on function public.cron_snapshot_goal_metrics() to service_role;
+
+do $$ begin
+  perform cron.unschedule('snapshot-goal-metrics');
+exception when others then null;
+end $$;
+
+select cron.schedule(
+  'snapshot-goal-metrics',
+  '27 * * * *',  -- hourly, 10min before the observer at :37 so its forecast is fresh
+  $$select public.cron_snapshot_goal_metrics();$$
+);
+
+comment on function public.cron_snapshot_goal_metrics is
+  'Hourly. Appends an automation_goal_snapshots row per open goal when its metric moved (or once a day when flat) and keeps automation_goals.progress_value in step.';
+
+-- ── 4. Forecast ──────────────────────────────────────────────────────────
+--
+-- Velocity = change between the latest snapshot and the one at least 7 days
+-- before it (or the first snapshot), per day. Under a day of history is
+-- 'insufficient_data'. 'behind' = projected value at due_at < 90% of target.
+
+create or replace function public.goal_forecast(p_goal_id uuid)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_goal     record;
+  v_last     record;
+  v_base     record;
+  v_span     numeric;
+  v_velocity numeric;
+  v_at_due   numeric;
+  v_eta      timestamptz;
+  v_required numeric;
+  v_status   text;
+begin
+  select id, target_value, due_at into v_goal
+    from public.automation_goals where id = p_goal_id;
+  if not found then return null; end if;
+
+  select value, captured_at into v_last
+    from public.automation_goal_snapshots
+   where goal_id = p_goal_id
+   order by captured_at desc
+   limit 1;
+  if not found then
+    return jsonb_build_object('status', 'insufficient_data', 'current', null, 'target', v_goal.target_value);
+  end if;
+
+  if v_last.value >= v_goal.target_value then
+    return jsonb_build_object('status', 'achieved', 'current', v_last.value, 'target', v_goal.target_value);
+  end if;
+
+  select value, captured_at into v_base
+    from public.automation_goal_snapshots
+   where goal_id = p_goal_id
+     and captured_at <= v_last.captured_at - interval '7 days'
+   order by captured_at desc
+   limit 1;
+  if not found then
+    select value, captured_at into v_base
+      from public.automation_goal_snapshots
+     where goal_id = p_goal_id
+     order by captured_at asc
+     limit 1;
+  end if;
+
+  v_span := extract(epoch from (v_last.captured_at - v_base.captured_at)) / 86400.0;
+  if v_span < 1 then
+    return jsonb_build_object('status', 'insufficient_data', 'current', v_last.value, 'target', v_goal.target_value);
+  end if;
+
+  v_velocity := greatest(0, (v_last.value - v_base.value) / v_span);
+  if v_velocity > 0 then
+    v_eta := v_last.captured_at
+           + make_interval(secs => ((v_goal.target_value - v_last.value) / v_velocity * 86400)::double precision);
+  end if;
+
+  if v_goal.due_at is null then
+    v_status := 'no_deadline';
+  else
+    v_at_due := v_last.value
+              + v_velocity * greatest(0, extract(epoch from (v_goal.due_at - v_last.captured_at)) / 86400.0);
+    if v_goal.due_at > v_last.captured_at then
+      v_required := (v_goal.target_value - v_last.value)
+                  / (extract(epoch from (v_goal.due_at - v_last.captured_at)) / 86400.0);
+    end if;
+    v_status := case when v_at_due < v_goal.target_value * 0.9 then 'behind' else 'on_track' end;
+  end if;
+
+  return jsonb_build_object(
+    'status',                  v_status,
+    'current',                 v_last.value,
+    'target',                  v_goal.target_value,
+    'velocity_per_day',        round(v_velocity, 4),
+    'required_per_day',        round(v_required, 4),
+    'projected_at_due',        round(v_at_due, 2),
+    'projected_completion_at', v_eta,
+    'due_at',                  v_goal.due_at,
+    'as_of',                   v_last.captured_at
+  );
+end;
+$$;
+
+revoke all on function public.goal_forecast(uuid) from public;
+grant execute on function public.goal_forecast(uuid) to service_role;
+
+-- ── 5. Observer: falling_behind ──────────────────────────────────────────
+
+create or replace function public.cron_observe_goal_drift()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_goal      record;
+  v_obs       jsonb;
+  v_reason    text;
+  v_forecast  jsonb;
+begin
+  for v_goal in
+    select g.id, g.workspace_id, g.statement, g.status, g.target_value, g.progress_value, g.due_at, g.updated_at
+      from public.automation_goals g
+     where g.status in ('active','running','paused')
+  loop
+    v_obs := null;
+
+    -- (a) past due with progress < target
+    if v_goal.due_at is not null and v_goal.due_at < now() and v_goal.progress_value < v_goal.target_value then
+      v_reason := 'past_due_with_unmet_target';
+      v_obs := jsonb_build_object(
+        'kind', v_reason,
+        'goal_id', v_goal.id,
+        'progress', v_goal.progress_value,
+        'target', v_goal.target_value,
+        'due_at', v_goal.due_at,
+        'observed_at', now()
+      );
+    end if;
+
+    -- (b) paused for > 12h — unless a step is waiting on an admin decision,
+    --     which is a deliberate hold rather than drift.
+    if v_obs is null and v_goal.status = 'paused' and v_goal.updated_at < now() - interval '12 hours'
+       and not exists (
+         select 1 from public.automation_step_approvals a
+         where a.goal_id = v_goal.id and a.status = 'pending'
+       ) then
+      v_reason := 'paused_too_long';
+      v_obs := jsonb_build_object(
+        'kind', v_reason,
+        'goal_id', v_goal.id,
+        'paused_since', v_goal.updated_at,
+        'observed_at', now()
+      );
+    end if;
+
+    -- (c) recent velocity won't reach the target by due_at
+    if v_obs is null and v_goal.due_at is not null then
+      v_forecast := public.goal_forecast(v_goal.id);
+      if v_forecast->>'status' = 'behind' then
+        v_reason := 'falling_behind';
+        v_obs := jsonb_build_object(
+          'kind', v_reason,
+          'goal_id', v_goal.id,
+          'progress', v_forecast->'current',
+          'target', v_goal.target_value,
+          'due_at', v_goal.due_at,
+          'velocity_per_day', v_forecast->'velocity_per_day',
+          'required_per_day', v_forecast->'required_per_day',
+          'projected_at_due', v_forecast->'projected_at_due',
+          'observed_at', now()
+        );
+      end if;
+    end if;
+
+    -- (d) running without recent step progress — a step waiting on an admin
+    --     decision isn't a stall either.
+    if v_obs is null and v_goal.status = 'running' then
+      if not exists (
+        select 1 from public.automation_step_runs
+        where goal_id = v_goal.id
+          and completed_at > now() - interval '6 hours'
+      ) and not exists (
+        select 1 from public.automation_step_approvals a
+        where a.goal_id = v_goal.id and a.status = 'pending'
+      ) then
+        v_reason := 'stalled_running';
+        v_obs := jsonb_build_object(
+          'kind', v_reason,
+          'goal_id', v_goal.id,
+          'observed_at', now()
+        );
+      end if;
+    end if;
+
+    if v_obs is null then continue; end if;
+
+    -- De-dup: don't write the same observation kind for the same goal
+    -- if one was written in the last 24h.
+    if exists (
+      select 1 from public.workspace_memory wm
+      where wm.workspace_id = v_goal.workspace_id
+        and wm.kind = 'observation'
+        and wm.key = 'goal:' || v_goal.id::text
+        and wm.value->>'kind' = v_reason
+        and wm.created_at > now() - interval '24 hours'
+    ) then
+      continue;
+    end if;
+
+    insert into public.workspace_memory (
+      workspace_id, kind, key, value, source, confidence, tags
+    ) values (
+      v_goal.workspace_id,
+      'observation',
+      'goal:' || v_goal.id::text,
+      v_obs,
+      'goal_observer',
+      0.80,
+      array['goal','observation', v_reason]
+    );
+  end loop;
+exception when others then
+  raise warning 'cron_observe_goal_drift failed: % %', sqlstate, sqlerrm;
+end;
+$$;
+
+revoke all on function public.cron_observe_goal_drift() from public;
+grant execute on function public.cron_observe_goal_drift() to service_role;
+
+-- ── 6. Auto-replanner: one replan per new observation ────────────────────
+
+create or replace function public.cron_auto_replan_drifting_goals()
+returns void
+language plpgsql
+security definer
+set search_path = public, vault
+as $$
+declare
+  v_token  text;
+  v_goal   record;
+  v_url    text := 'https://utvydxqiqedaaxmmpfpf.functions.supabase.co/goal-replanner';
+  v_count  int := 0;
+begin
+  -- Same GUC-then-vault lookup as 20260518120000_cron_auth_hybrid.
+  v_token := nullif(current_setting('app.settings.service_role_key', true), '');
+  if v_token is null then
+    select decrypted_secret into v_token
+      from vault.decrypted_secrets
+     where name = 'webhook_dispatcher_service_key' limit 1;
+  end if;
+  if v_token is null or v_token = '' then
+    raise warning 'cron_auto_replan_drifting_goals: no service-role token in GUC or vault — skipping';
+    return;
+  end if;
+
+  for v_goal in
+    select g.id, g.workspace_id, obs.falling_behind
+      from public.automation_goals g
+      cross join lateral (
+        -- Observations written since the replanner last revised this goal.
+        select bool_or(wm.value->>'kind' = 'falling_behind') as falling_behind,
+               count(*) as fresh
+          from public.workspace_memory wm
+         where wm.workspace_id = g.workspace_id
+           and wm.kind = 'observation'
+           and wm.key = 'goal:' || g.id::text
+           and wm.created_at > now() - interval '24 hours'
+           and wm.created_at > coalesce((
+             select max(ap.created_at) from public.automation_plans ap
+              where ap.goal_id = g.id and ap.created_by_kind = 'replanner'
+           ), '-infinity'::timestamptz)
+      ) obs
+     where g.status in ('planned','active','running','paused')
+       and obs.fresh > 0
+       and not exists (
+         select 1 from public.automation_plans ap
+          where ap.goal_id = g.id
+            and ap.created_by_kind = 'replanner'
+            and ap.created_at > now() - interval '6 hours'
+       )
+       and exists (
+         -- there must be an active plan to revise
+         select 1 from public.automation_plans ap
+          where ap.goal_id = g.id and ap.is_active = true
+       )
+     order by obs.falling_behind desc, g.updated_at asc
+     limit 20
+  loop
+    perform net.http_post(
+      url     := v_url,
+      headers := jsonb_build_object(
+        'Content-Type',  'application/json',
+        'Authorization', 'Bearer ' || v_token
+      ),
+      body    := jsonb_build_object('goal_id', v_goal.id),
+      timeout_milliseconds := 60000
+    );
+    v_count := v_count + 1;
+  end loop;
+
+  if v_count > 0 then
+    raise notice 'cron_auto_replan_drifting_goals dispatched % replan request(s)', v_count;
+  end if;
+exception when others then
+  raise warning 'cron_auto_replan_drifting_goals failed: % %', sqlstate, sqlerrm;
+end;
+$$;
+
+revoke all on function public.cron_auto_replan_drifting_goals() from public;
+grant execute on function public.cron_auto_replan_drifting_goals() to service_role;
@@ -0,0 +1,616 @@
+-- ============================================================================
+-- 20260823230000_import_batch_undo.sql
+-- Reversible import batches: one batch per file, per-row change log, undo.
+--
+-- executeImport splits files over 500 rows into chunks, and each chunk used
+-- to open its own import_batches row ("file.csv (chunk 2)"). With merge /
+-- overwrite dedupe the values an import replaced were gone for good.
+--
+--   • import_leads_batch takes p_options.batch_id / row_offset / final, so
+--     every chunk of a file lands in the batch the first chunk opened; row
+--     numbers are file-wide and the batch is completed by the last chunk.
+--     Callers that send one chunk (Discover, goal steps) are unchanged.
+--   • import_batch_changes records every row: created (lead id), updated
+--     (before/after images of the fields it changed) or skipped (reason).
+--     It backs the post-import diff report.
+--   • undo_import_batch(batch) deletes the leads the batch created and puts
+--     back the fields it overwrote — only where the lead still holds the
+--     imported value, so edits made since the import are kept and reported
+--     as conflicts.
+--   • fail_import_batch(batch, error) closes a batch whose later chunk
+--     failed as 'failed', so the rows that did land can be reviewed and
+--     undone straight away instead of after the one-hour in-flight guard.
+--
+-- Rest of import_leads_batch is the 20260801100000 definition, verbatim.
+-- ============================================================================
+
+-- ── 1. Batch columns + member read access ──────────────────────────────────
+
+alter table public.import_batches
+  add column if not exists undone_at     timestamptz,
+  add column if not exists undone_by     uuid,
+  add column if not exists undo_summary  jsonb,
+  add column if not exists error         text;
+
+-- Discover and goal imports stamp the team workspace id rather than the
+-- user's, so members need read access alongside the owner policy.
+do $$ begin
+  create policy "Members read workspace import batches"
+    on public.import_batches for select
+    using (workspace_id in (select workspace_id from public.workspace_members where user_id = auth.uid()));
+exception when duplicate_object then null; end $$;
+
+-- ── 2. Per-row change log ──────────────────────────────────────────────────
+
+create table if not exists public.import_batch_changes (
+  id                 uuid primary key default gen_random_uuid(),
+  batch_id           uuid not null references public.import_batches(id) on delete cascade,
+  row_number         integer not null,             -- 1-based, across the whole file
+  action             text not null check (action in ('created','updated','skipped')),
+  -- skipped: 'duplicate' | 'plan_limit'; updated: the dedupe strategy used
+  reason             text,
+  identifier         text,                         -- email or LinkedIn URL the row matched on
+  lead_id            uuid,                         -- no FK: undo deletes created leads
+  changed_fields     text[] not null default '{}',
+  before             jsonb,                        -- updated: prior values of changed_fields
+  after              jsonb,                        -- updated: values the import wrote
+  previous_batch_id  uuid,                         -- updated: lead's import_batch_id before
+  created_at         timestamptz not null default now()
+);
+
+create index if not exists idx_import_batch_changes_batch
+  on public.import_batch_changes (batch_id, action, row_number);
+create unique index if not exists uq_import_batch_changes_lead
+  on public.import_batch_changes (batch_id, lead_id) where action in ('created','updated');
+
+alter table public.import_batch_changes enable row level security;
+
+-- Read-only; rows are written by import_leads_batch.
+do $$ begin
+  create policy "Read changes of visible import batches"
+    on public.import_batch_changes for select
+    using (exists (
+      select 1 from public.import_batches b
+       where b.id = batch_id
+         and (b.workspace_id = auth.uid()
+              or b.workspace_id in (select workspace_id from public.workspace_members where user_id = auth.uid()))
+    ));
+exception when duplicate_object then null; end $$;
+
+-- Fields an import can write — the image import_leads_batch diffs and
+-- undo_import_batch restores.
+create or replace function public._import_lead_image(p_lead_id uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'business_id',   l.business_id,
+    'first_name',    l.first_name,
+    'last_name',     l.last_name,
+    'primary_email', l.primary_email,
+    'emails',        l.emails,
+    'primary_phone', l.primary_phone,
+    'company',       l.company,
+    'website',       l.website,
+    'linkedin_url',  l.linkedin_url,
+    'title',         l.title,
+    'location',      l.location,
+    'source',        l.source,
+    'industry',      l.industry,
+    'company_size',  l.company_size,
+    'custom_fields', l.custom_fields
+  )
+  from public.leads l
+  where l.id = p_lead_id;
+$$;
+
+revoke all on function public._import_lead_image(uuid) from public, anon, authenticated;
+
+-- ── 3. import_leads_batch ──────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.import_leads_batch(p_workspace_id uuid, p_file_name text, p_file_type text, p_rows jsonb, p_mapping jsonb, p_options jsonb)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+declare
+  v_batch_id       uuid;
+  v_plan           text;
+  v_contact_limit  integer;
+  v_current_count  integer;
+  v_remaining      integer;
+  v_imported       integer := 0;
+  v_updated        integer := 0;
+  v_skipped        integer := 0;
+  v_skipped_rows   jsonb := '[]'::jsonb;
+  v_row            jsonb;
+  v_row_idx        integer := 0;
+  v_dedupe         text;
+  v_field          text;
+  v_col            text;
+  v_val            text;
+  v_custom         jsonb;
+
+  v_full_name      text;
+  v_first_name     text;
+  v_last_name      text;
+  v_email          text;
+  v_phone          text;
+  v_company        text;
+  v_linkedin       text;
+  v_title          text;
+  v_location       text;
+  v_source         text;
+  v_industry       text;
+  v_company_size   text;
+  v_insights       text;
+
+  v_existing_id    uuid;
+  v_business_id    uuid;
+  v_emails         text[];
+  v_email_tok      text;
+  v_website        text;
+
+  v_new_id         uuid;
+  v_before         jsonb;
+  v_after          jsonb;
+  v_changed        text[];
+  v_prev_batch_id  uuid;
+  v_offset         integer;
+  v_final          boolean;
+  v_totals         record;
+begin
+  v_plan := coalesce(p_options->>'plan_name', 'Starter');
+  case v_plan
+    when 'Scale','Enterprise','Business' then v_contact_limit := 50000;
+    when 'Growth','Professional'         then v_contact_limit := 10000;
+    else                                       v_contact_limit := 1000;
+  end case;
+
+  select count(*) into v_current_count
+    from public.leads where client_id = p_workspace_id;
+
+  v_remaining := v_contact_limit - v_current_count;
+  v_dedupe    := coalesce(p_options->>'dedupe_strategy', 'merge');
+  v_business_id := nullif(p_options->>'business_id', '')::uuid;
+
+  -- One batch per file: the first chunk opens it, later chunks pass its id
+  -- (and their row offset) back in p_options; the chunk with final=true
+  -- closes it.
+  v_batch_id := nullif(p_options->>'batch_id', '')::uuid;
+  v_offset   := coalesce((p_options->>'row_offset')::integer, 0);
+  v_final    := coalesce((p_options->>'final')::boolean, true);
+
+  if v_batch_id is null then
+    insert into public.import_batches
+      (workspace_id, file_name, file_type, total_rows, column_mapping, options, status)
+    values
+      (p_workspace_id, p_file_name, p_file_type,
+       coalesce((p_options->>'total_rows')::integer, jsonb_array_length(p_rows)),
+       p_mapping, p_options - array['batch_id','row_offset','final','total_rows'], 'processing')
+    returning id into v_batch_id;
+  elsif not exists (
+    select 1 from public.import_batches
+     where id = v_batch_id and workspace_id = p_workspace_id and status = 'processing'
+  ) then
+    raise exception 'Import batch % is not open for more rows', v_batch_id;
+  end if;
+
+  v_row_idx := v_offset;
+
+  for v_row in select * from jsonb_array_elements(p_rows) loop
+    v_row_idx := v_row_idx + 1;
+
+    v_full_name := null; v_first_name := null; v_last_name := null;
+    v_email := null; v_phone := null; v_company := null;
+    v_linkedin := null; v_title := null; v_location := null;
+    v_source := null; v_industry := null; v_company_size := null;
+    v_insights := null; v_custom := '{}'::jsonb; v_emails := '{}'::text[]; v_website := null;
+
+    for v_col, v_field in select key, value#>>'{}' from jsonb_each(p_mapping) loop
+      v_val := v_row->>v_col;
+      if v_val is null or trim(v_val) = '' then continue; end if;
+      v_val := trim(v_val);
+
+      case v_field
+        when 'full_name'     then v_full_name    := v_val;
+        when 'first_name'    then v_first_name   := v_val;
+        when 'last_name'     then v_last_name    := v_val;
+        when 'primary_email' then
+          -- Split the cell (may hold several addresses); first valid one becomes
+          -- the primary, all are collected into the emails[] set.
+          for v_email_tok in
+            select lower(trim(t)) from regexp_split_to_table(v_val, '[\s;,/|]+') t
+          loop
+            if position('@' in v_email_tok) > 1 and not (v_email_tok = any(v_emails)) then
+              v_emails := array_append(v_emails, v_email_tok);
+              if v_email is null then v_email := v_email_tok; end if;
+            end if;
+          end loop;
+        when 'additional_emails' then
+          for v_email_tok in
+            select lower(trim(t)) from regexp_split_to_table(v_val, '[\s;,/|]+') t
+          loop
+            if position('@' in v_email_tok) > 1 and not (v_email_tok = any(v_emails)) then
+              v_emails := array_append(v_emails, v_email_tok);
+            end if;
+          end loop;
+        when 'primary_phone' then v_phone        := regexp_replace(v_val, '[^0-9+\-() ]', '', 'g');
+        when 'company'       then v_company      := v_val;
+        when 'website'       then v_website      := case when v_val ~* '^https?://' then v_val else 'https://' || v_val end;
+        when 'linkedin_url'  then
+          v_linkedin := lower(v_val);
+          if v_linkedin not like 'http%' then
+            v_linkedin := 'https://www.linkedin.com/in/' || v_linkedin;
+          end if;
+          v_linkedin := regexp_replace(v_linkedin, '/+$', '');
+        when 'title'         then v_title        := v_val;
+        when 'location'      then v_location     := v_val;
+        when 'source'        then v_source       := v_val;
+        when 'industry'      then v_industry     := v_val;
+        when 'company_size'  then v_company_size := v_val;
+        when 'insights'      then v_insights     := v_val;
+        else
+          if v_field like 'custom:%' then
+            v_custom := v_custom || jsonb_build_object(substring(v_field from 8), v_val);
+          end if;
+      end case;
+    end loop;
+
+    if v_full_name is not null and v_first_name is null then
+      v_first_name := split_part(v_full_name, ' ', 1);
+      if position(' ' in v_full_name) > 0 then
+        v_last_name := coalesce(v_last_name, trim(substring(v_full_name from position(' ' in v_full_name) + 1)));
+      end if;
+    end if;
+
+    if v_email is null and v_phone is null and v_linkedin is null then
+      v_custom := v_custom || '{"needs_enrichment": true}'::jsonb;
+    end if;
+
+    v_existing_id := null;
+    if v_email is not null then
+      select id into v_existing_id from public.leads
+        where client_id = p_workspace_id and lower(primary_email) = v_email
+        limit 1;
+    end if;
+    if v_existing_id is null and v_linkedin is not null then
+      select id into v_existing_id from public.leads
+        where client_id = p_workspace_id and lower(linkedin_url) = v_linkedin
+        limit 1;
+    end if;
+
+    if v_existing_id is not null then
+      if v_dedupe = 'skip' then
+        v_skipped := v_skipped + 1;
+        v_skipped_rows := v_skipped_rows || jsonb_build_object(
+          'row', v_row_idx, 'reason', 'duplicate', 'identifier', coalesce(v_email, v_linkedin));
+        insert into public.import_batch_changes (batch_id, row_number, action, reason, identifier, lead_id)
+        values (v_batch_id, v_row_idx, 'skipped', 'duplicate', coalesce(v_email, v_linkedin), v_existing_id);
+        continue;
+      end if;
+
+      v_before := public._import_lead_image(v_existing_id);
+      select import_batch_id into v_prev_batch_id from public.leads where id = v_existing_id;
+
+      if v_dedupe = 'merge' then
+        update public.leads set
+          business_id     = coalesce(leads.business_id,   v_business_id),
+          first_name      = coalesce(leads.first_name,    v_first_name),
+          last_name       = coalesce(leads.last_name,     v_last_name),
+          primary_email   = coalesce(leads.primary_email,  v_email),
+          emails          = (select array_agg(distinct e)
+                             from unnest(coalesce(leads.emails, '{}'::text[]) || v_emails) e
+                             where e is not null and e <> ''),
+          primary_phone   = coalesce(leads.primary_phone,  v_phone),
+          company         = coalesce(leads.company,        v_company),
+          website         = coalesce(leads.website,        v_website),
+          linkedin_url    = coalesce(leads.linkedin_url,   v_linkedin),
+          title           = coalesce(leads.title,          v_title),
+          location        = coalesce(leads.location,       v_location),
+          source          = coalesce(leads.source,         v_source),
+          industry        = coalesce(leads.industry,       v_industry),
+          company_size    = coalesce(leads.company_size,   v_company_size),
+          custom_fields   = leads.custom_fields || v_custom,
+          import_batch_id = v_batch_id,
+          updated_at      = now()
+        where id = v_existing_id;
+      else
+        update public.leads set
+          business_id     = coalesce(leads.business_id, v_business_id),
+          first_name      = coalesce(v_first_name,   leads.first_name),
+          last_name       = coalesce(v_last_name,    leads.last_name),
+          primary_email   = coalesce(v_email,        leads.primary_email),
+          emails          = (select array_agg(distinct e)
+                             from unnest(coalesce(leads.emails, '{}'::text[]) || v_emails) e
+                             where e is not null and e <> ''),
+          primary_phone   = coalesce(v_phone,        leads.primary_phone),
+          company         = coalesce(v_company,      leads.company),
+          website         = coalesce(v_website,      leads.website),
+          linkedin_url    = coalesce(v_linkedin,     leads.linkedin_url),
+          title           = coalesce(v_title,        leads.title),
+          location        = coalesce(v_location,     leads.location),
+          source          = coalesce(v_source,       leads.source),
+          industry        = coalesce(v_industry,     leads.industry),
+          company_size    = coalesce(v_company_size, leads.company_size),
+          custom_fields   = v_custom || leads.custom_fields,
+          import_batch_id = v_batch_id,
+          updated_at      = now()
+        where id = v_existing_id;
+      end if;
+
+      -- Before/after images of the fields this row actually changed, so
+      -- undo_import_batch can put them back.
+      v_after := public._import_lead_image(v_existing_id);
+      select coalesce(array_agg(k order by k), '{}'::text[]) into v_changed
+        from jsonb_object_keys(v_after) k
+       where v_after->k is distinct from v_before->k;
+
+      insert into public.import_batch_changes
+        (batch_id, row_number, action, reason, identifier, lead_id, changed_fields, before, after, previous_batch_id)
+      values
+        (v_batch_id, v_row_idx, 'updated', v_dedupe, coalesce(v_email, v_linkedin), v_existing_id, v_changed,
+         (select coalesce(jsonb_object_agg(k, v_before->k), '{}'::jsonb) from unnest(v_changed) k),
+         (select coalesce(jsonb_object_agg(k, v_after->k), '{}'::jsonb) from unnest(v_changed) k),
+         v_prev_batch_id)
+      -- A second row for the same lead keeps the first before-image.
+      on conflict (batch_id, lead_id) where action in ('created','updated') do update set
+        changed_fields = (select array_agg(distinct f order by f)
+                            from unnest(import_batch_changes.changed_fields || excluded.changed_fields) f),
+        before         = excluded.before || import_batch_changes.before,
+        after          = import_batch_changes.after || excluded.after
+      where import_batch_changes.action = 'updated';
+
+      v_updated := v_updated + 1;
+      continue;
+    end if;
+
+    if v_remaining <= 0 then
+      v_skipped := v_skipped + 1;
+      v_skipped_rows := v_skipped_rows || jsonb_build_object(
+        'row', v_row_idx, 'reason', 'plan_limit');
+      insert into public.import_batch_changes (batch_id, row_number, action, reason, identifier)
+      values (v_batch_id, v_row_idx, 'skipped', 'plan_limit', coalesce(v_email, v_linkedin));
+      continue;
+    end if;
+
+    insert into public.leads (
+      client_id, workspace_id, business_id, company, website, score, status, source, insights,
+      first_name, last_name, primary_email, emails, primary_phone,
+      linkedin_url, title, location, industry, company_size,
+      import_batch_id, imported_at, custom_fields
+    ) values (
+      p_workspace_id, p_workspace_id, v_business_id, v_company, v_website,
+      0, 'New', coalesce(v_source, 'File Import'), coalesce(v_insights, 'Imported from file'),
+      v_first_name, v_last_name, v_email, nullif(v_emails, '{}'::text[]), v_phone,
+      v_linkedin, v_title, v_location, v_industry, v_company_size,
+      v_batch_id, now(), v_custom
+    )
+    returning id into v_new_id;
+
+    insert into public.import_batch_changes (batch_id, row_number, action, identifier, lead_id)
+    values (v_batch_id, v_row_idx, 'created', coalesce(v_email, v_linkedin), v_new_id);
+
+    v_imported := v_imported + 1;
+    v_remaining := v_remaining - 1;
+  end loop;
+
+  update public.import_batches set
+    imported_count = imported_count + v_imported,
+    updated_count  = updated_count  + v_updated,
+    skipped_count  = skipped_count  + v_skipped,
+    skipped_rows   = coalesce(skipped_rows, '[]'::jsonb) || v_skipped_rows,
+    status         = case when v_final then 'completed' else 'processing' end,
+    completed_at   = case when v_final then now() end
+  where id = v_batch_id
+  returning file_name, imported_count, updated_count, skipped_count into v_totals;
+
+  if v_final then
+    insert into public.audit_logs (user_id, workspace_id, action, details)
+    values (p_workspace_id, p_workspace_id, 'FILE_IMPORT', format(
+      'Imported %s, updated %s, skipped %s from %s',
+      v_totals.imported_count, v_totals.updated_count, v_totals.skipped_count, v_totals.file_name
+    ));
+  end if;
+
+  return jsonb_build_object(
+    'batch_id',        v_batch_id,
+    'imported_count',  v_imported,
+    'updated_count',   v_updated,
+    'skipped_count',   v_skipped,
+    'skipped_rows',    v_skipped_rows,
+    'plan_limit',      v_contact_limit,
+    'contacts_before', v_current_count,
+    'contacts_after',  v_current_count + v_imported
+  );
+end;
+$function$
+;
+
+-- ── 4. undo_import_batch ───────────────────────────────────────────────────
+
+create or replace function public.undo_import_batch(p_batch_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_batch      record;
+  v_change     record;
+  v_current    jsonb;
+  v_restore    jsonb;
+  v_kept       text[];
+  v_field      text;
+  v_lead       public.leads%rowtype;
+  v_deleted    integer := 0;
+  v_restored   integer := 0;
+  v_conflicts  jsonb := '[]'::jsonb;
+  v_summary    jsonb;
+begin
+  select * into v_batch from public.import_batches where id = p_batch_id for update;
+  if not found then
+    raise exception 'Import batch not found';
+  end if;
+  if not (v_batch.workspace_id = auth.uid() or exists (
+    select 1 from public.workspace_members m
+     where m.workspace_id = v_batch.workspace_id and m.user_id = auth.uid()
+  )) then
+    raise exception 'Not allowed to undo this import' using errcode = '42501';
+  end if;
+  if v_batch.status = 'undone' then
+    raise exception 'This import was already undone';
+  end if;
+  -- A chunked import still in flight; one abandoned for an hour can be undone.
+  -- A failed one (fail_import_batch) is closed and can be undone right away.
+  if v_batch.status = 'processing' and v_batch.created_at > now() - interval '1 hour' then
+    raise exception 'This import is still running';
+  end if;
+
+  -- Overwritten fields: restore each one the lead still holds the imported
+  -- value for; anything edited since is kept and reported.
+  for v_change in
+    select * from public.import_batch_changes
+     where batch_id = p_batch_id and action = 'updated' and lead_id is not null
+  loop
+    v_current := public._import_lead_image(v_change.lead_id);
+    if v_current is null then continue; end if;   -- lead deleted since
+
+    v_restore := '{}'::jsonb;
+    v_kept    := '{}'::text[];
+    foreach v_field in array v_change.changed_fields loop
+      if v_current->v_field is not distinct from v_change.after->v_field then
+        v_restore := v_restore || jsonb_build_object(v_field, v_change.before->v_field);
+      else
+        v_kept := array_append(v_kept, v_field);
+      end if;
+    end loop;
+
+    select * into v_lead from public.leads where id = v_change.lead_id;
+    if v_lead.import_batch_id = p_batch_id then
+      v_restore := v_restore || jsonb_build_object('import_batch_id', v_change.previous_batch_id);
+    end if;
+
+    if v_restore <> '{}'::jsonb then
+      v_lead := jsonb_populate_record(null::public.leads, to_jsonb(v_lead) || v_restore);
+      update public.leads set
+        business_id     = v_lead.business_id,
+        first_name      = v_lead.first_name,
+        last_name       = v_lead.last_name,
+        primary_email   = v_lead.primary_email,
+        emails          = v_lead.emails,
+        primary_phone   = v_lead.primary_phone,
+        company         = v_lead.company,
+        website         = v_lead.website,
+        linkedin_url    = v_lead.linkedin_url,
+        title           = v_lead.title,
+        location        = v_lead.location,
+        source          = v_lead.source,
+        industry        = v_lead.industry,
+        company_size    = v_lead.company_size,
+        custom_fields   = v_lead.custom_fields,
+        import_batch_id = v_lead.import_batch_id,
+        updated_at      = now()
+      where id = v_change.lead_id;
+      v_restored := v_restored + 1;
+    end if;
+
+    if array_length(v_kept, 1) > 0 then
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'lead_id', v_change.lead_id, 'identifier', v_change.identifier,
+        'reason', 'edited_since_import', 'fields', to_jsonb(v_kept));
+    end if;
+  end loop;
+
+  -- Created leads: delete, unless a later import has since claimed them.
+  for v_change in
+    select c.lead_id, c.identifier, l.import_batch_id
+      from public.import_batch_changes c
+      join public.leads l on l.id = c.lead_id
+     where c.batch_id = p_batch_id and c.action = 'created'
+  loop
+    if v_change.import_batch_id is distinct from p_batch_id then
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'lead_id', v_change.lead_id, 'identifier', v_change.identifier,
+        'reason', 'updated_by_later_import');
+      continue;
+    end if;
+    delete from public.leads where id = v_change.lead_id;
+    v_deleted := v_deleted + 1;
+  end loop;
+
+  v_summary := jsonb_build_object(
+    'batch_id',  p_batch_id,
+    'deleted',   v_deleted,
+    'restored',  v_restored,
+    'conflicts', v_conflicts
+  );
+
+  update public.import_batches set
+    status       = 'undone',
+    undone_at    = now(),
+    undone_by    = auth.uid(),
+    undo_summary = v_summary
+  where id = p_batch_id;
+
+  insert into public.audit_logs (user_id, workspace_id, action, details)
+  values (auth.uid(), v_batch.workspace_id, 'FILE_IMPORT_UNDO', format(
+    'Undid import of %s: deleted %s, restored %s, kept %s edited since',
+    v_batch.file_name, v_deleted, v_restored, jsonb_array_length(v_conflicts)
+  ));
+
+  return v_summary;
+end;
+$$;
+
+revoke all on function public.undo_import_batch(uuid) from public, anon;
+grant execute on function public.undo_import_batch(uuid) to authenticated;
+
+-- ── 5. fail_import_batch ───────────────────────────────────────────────────
+--
+-- executeImport calls this when a chunk after the first errors: the batch
+-- keeps the rows the earlier chunks wrote and stops taking more.
+
+create or replace function public.fail_import_batch(p_batch_id uuid, p_error text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_batch record;
+begin
+  select * into v_batch from public.import_batches where id = p_batch_id for update;
+  if not found then
+    raise exception 'Import batch not found';
+  end if;
+  if not (v_batch.workspace_id = auth.uid() or exists (
+    select 1 from public.workspace_members m
+     where m.workspace_id = v_batch.workspace_id and m.user_id = auth.uid()
+  )) then
+    raise exception 'Not allowed to update this import' using errcode = '42501';
+  end if;
+  if v_batch.status <> 'processing' then
+    return;
+  end if;
+
+  update public.import_batches set
+    status       = 'failed',
+    completed_at = now(),
+    error        = left(p_error, 500)
+  where id = p_batch_id;
+
+  insert into public.audit_logs (user_id, workspace_id, action, details)
+  values (auth.uid(), v_batch.workspace_id, 'FILE_IMPORT', format(
+    'Import of %s stopped partway: imported %s, updated %s, skipped %s before the error',
+    v_batch.file_name, v_batch.imported_count, v_batch.updated_count, v_batch.skipped_count
+  ));
+end;
+$$;
+
+revoke all on function public.fail_import_batch(uuid, text) from public, anon;
+grant execute on function public.fail_import_batch(uuid, text) to authenticated;
@@ -0,0 +1,126 @@
+-- ============================================================================
+-- 20260824100000_lead_score_decay_cron.sql
+-- Re-age idle lead scores so engagement decay actually shows up.
+--
+-- lib/leadScoring.ts decays intent and engagement with the age of the last
+-- open/click, but only when recalcLeadScore runs — nothing re-scores a lead
+-- that simply goes quiet, so leads.score for a lead with old opens never
+-- cooled off. rescore_decayed_lead_scores() re-applies the time-dependent
+-- parts of computeScore (intent, engagement, urgency) to lead_scores rows last
+-- calculated more than a day ago, using the timestamps saved in
+-- scoring_inputs (or the saved day counts plus the time since, for rows
+-- scored before those were recorded). Fit, data quality, deliverability, risk
+-- and rule points are carried over unchanged with the profile weights the row
+-- was scored with.
+--
+-- The lead_scores update snapshots into lead_score_history through the
+-- existing trigger; leads.score is only written when the total moves, so
+-- score_change workflow triggers fire for real changes only.
+--
+-- Hourly, oldest first, up to 2000 rows per run. Pure SQL — no edge fn.
+-- ============================================================================
+
+create or replace function public.rescore_decayed_lead_scores(p_limit int default 2000)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_updated integer;
+begin
+  with stale as (
+    select s.lead_id, s.scoring_inputs i,
+           s.fit_score, s.data_quality_score, s.deliverability_score, s.risk_score,
+           extract(epoch from now() - s.last_calculated_at) / 86400.0 as elapsed
+      from public.lead_scores s
+     where s.last_calculated_at < now() - interval '1 day'
+     order by s.last_calculated_at
+     limit greatest(1, coalesce(p_limit, 2000))
+  ),
+  ages as (
+    select st.*,
+           coalesce(extract(epoch from now() - (i->>'last_opened_at')::timestamptz) / 86400.0,
+                    (i->>'days_since_open')::numeric + elapsed)     as since_open,
+           coalesce(extract(epoch from now() - (i->>'last_clicked_at')::timestamptz) / 86400.0,
+                    (i->>'days_since_click')::numeric + elapsed)    as since_click,
+           coalesce(extract(epoch from now() - (i->>'last_activity_at')::timestamptz) / 86400.0,
+                    (i->>'days_since_activity')::numeric + elapsed) as recency,
+           coalesce((i->>'hasSent')::boolean, false)    as has_sent,
+           coalesce((i->>'hasOpened')::boolean, false)  as has_opened,
+           coalesce((i->>'hasClicked')::boolean, false) as has_clicked,
+           coalesce((i->>'openCount')::int, 0)          as open_count
+      from stale st
+  ),
+  -- decayFactor(): an unknown age counts in full; 7-day intent, 14-day engagement half-life.
+  decay as (
+    select a.*,
+           case when not has_clicked then 0
+                else power(0.5, greatest(0, coalesce(since_click, 0)) / 7) end  as click_decay,
+           case when not has_opened then 0
+                else power(0.5, greatest(0, coalesce(since_open, 0)) / 7) end   as open_decay,
+           case when not has_opened then 0
+                else power(0.5, greatest(0, coalesce(since_open, 0)) / 14) end  as volume_decay,
+           case when recency is null then 0
+                when recency <= 7 then 7 when recency <= 30 then 4 when recency <= 90 then 2
+                else 0 end as recency_pts,
+           case when recency is null then 0
+                when recency <= 7 then 10 when recency <= 30 then 6 when recency <= 90 then 3
+                else 0 end as urgency_raw
+      from ages a
+  ),
+  raw as (
+    select d.*,
+           least(20, greatest(0, round(12 * click_decay + 6 * open_decay
+                                       + case when open_count >= 3 then 2 * open_decay else 0 end))) as intent_raw,
+           least(20, greatest(0, (case when has_sent then 4 else 0 end)
+                                 + round(least(open_count * 3, 9) * volume_decay) + recency_pts)) as engagement_raw
+      from decay d
+  ),
+  scored as (
+    select r.lead_id, r.i, r.since_open, r.since_click, r.recency,
+           greatest(r.click_decay, r.open_decay) as intent_decay,
+           round(r.intent_raw     / 20.0 * coalesce((r.i->'weights'->>'intent')::numeric, 20))::int     as intent_score,
+           round(r.engagement_raw / 20.0 * coalesce((r.i->'weights'->>'engagement')::numeric, 20))::int as engagement_score,
+           round(r.urgency_raw    / 10.0 * coalesce((r.i->'weights'->>'urgency')::numeric, 10))::int    as urgency_score,
+           r.fit_score, r.data_quality_score, r.deliverability_score, r.risk_score,
+           coalesce((r.i->>'rule_points')::int, 0) as rule_points
+      from raw r
+  ),
+  updated as (
+    update public.lead_scores s
+       set intent_score       = sc.intent_score,
+           engagement_score   = sc.engagement_score,
+           urgency_score      = sc.urgency_score,
+           total_score        = least(100, greatest(0,
+                                  sc.fit_score + sc.intent_score + sc.engagement_score + sc.data_quality_score
+                                  + sc.deliverability_score + sc.urgency_score + sc.rule_points - sc.risk_score)),
+           scoring_inputs     = sc.i || jsonb_build_object(
+                                  'days_since_open',     round(sc.since_open),
+                                  'days_since_click',    round(sc.since_click),
+                                  'days_since_activity', round(sc.recency),
+                                  'intent_decay',        round(sc.intent_decay::numeric, 2)),
+           last_calculated_at = now()
+      from scored sc
+     where s.lead_id = sc.lead_id
+    returning s.lead_id, s.total_score
+  )
+  update public.leads l
+     set score = u.total_score
+    from updated u
+   where l.id = u.lead_id
+     and l.score is distinct from u.total_score;
+
+  get diagnostics v_updated = row_count;
+  return v_updated;
+end;
+$$;
+
+revoke all on function public.rescore_decayed_lead_scores(int) from public, anon, authenticated;
+
+do $$ begin
+  perform cron.unschedule('rescore-decayed-lead-scores');
+exception when others then null;
+end $$;
+
+select cron.schedule('rescore-decayed-lead-scores', '17 * * * *', 'select public.rescore_decayed_lead_scores();');